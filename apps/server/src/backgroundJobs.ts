@@ -0,0 +1,52 @@
+export interface BackgroundJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+const timers = new Map<string, NodeJS.Timeout>();
+const running = new Set<string>();
+
+export function backgroundJobsEnabled() {
+  return process.env.BACKGROUND_JOBS_ENABLED !== "false";
+}
+
+export function startBackgroundJobs(jobs: BackgroundJob[]) {
+  if (!backgroundJobsEnabled()) {
+    console.log("Background jobs disabled (BACKGROUND_JOBS_ENABLED=false)");
+    return;
+  }
+
+  for (const job of jobs) {
+    if (timers.has(job.name)) {
+      continue;
+    }
+    const tick = () => {
+      void runJobOnce(job);
+    };
+    timers.set(job.name, setInterval(tick, job.intervalMs));
+    tick();
+  }
+}
+
+export function stopBackgroundJobs() {
+  for (const timer of timers.values()) {
+    clearInterval(timer);
+  }
+  timers.clear();
+}
+
+// A tick is skipped while the previous one is still running so slow jobs never overlap themselves.
+async function runJobOnce(job: BackgroundJob) {
+  if (running.has(job.name)) {
+    return;
+  }
+  running.add(job.name);
+  try {
+    await job.run();
+  } catch (error) {
+    console.error(`Background job "${job.name}" failed`, error);
+  } finally {
+    running.delete(job.name);
+  }
+}
@@ -0,0 +1,398 @@
+import { Prisma } from "@paper-trading/db";
+import type { Position } from "@paper-trading/db";
+import type { HistoryCandle, PortfolioSnapshot, QuoteResponse } from "./types";
+import {
+  applyTrade,
+  computeCurrencyExposure,
+  computePortfolioTotals,
+  computePositionDto,
+  sortPositions
+} from "./portfolio";
+import { computeTradeCosts, CostModel } from "./costs";
+import { averageDailyVolume } from "./fillSimulator";
+import { exchangeForSymbol, localDateKey, tradingWindows } from "./marketCalendar";
+import { buildBracketLegs, evaluateOrder, isImmediateOrder, OrderInput, validateOrderInput } from "./orders";
+import { computeNextRunAt, ScheduleTiming } from "./scheduler";
+import { SeriesPoint, valueAt } from "./valuations";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const CASH_TOLERANCE = 0.01;
+
+/** Steps one backtest may take; each one is a provider call. */
+export const MAX_BACKTEST_STEPS = 500;
+/** Daily candles per symbol the model sees at each step, as in the live prompt. */
+export const BACKTEST_HISTORY_CANDLES = 60;
+
+/** A daily candle in the base currency, with the moment its session ended. */
+export interface BacktestBar extends HistoryCandle {
+  closesAt: Date;
+}
+
+export interface SimulatedPosition {
+  qty: Prisma.Decimal;
+  avgPrice: Prisma.Decimal;
+}
+
+export type SimulatedOrderStatus = "open" | "filled" | "cancelled" | "expired" | "rejected";
+
+export interface SimulatedOrder extends OrderInput {
+  id: number;
+  placedAt: Date;
+  status: SimulatedOrderStatus;
+  /** Bracket legs carry their entry's id; the first leg to fill cancels the others. */
+  parentId?: number;
+  trailAnchor: number | null;
+  triggered: boolean;
+  reason?: string;
+}
+
+export interface SimulatedFill {
+  orderId: number;
+  symbol: string;
+  side: OrderInput["side"];
+  qty: number;
+  price: number;
+  fee: number;
+  slippage: number;
+  realizedPnL: number | null;
+  at: Date;
+}
+
+/**
+ * The isolated portfolio a backtest trades: one cash balance in the base currency, long
+ * positions only, and every order it was given.
+ */
+export interface SimulatedBook {
+  cash: number;
+  positions: Map<string, SimulatedPosition>;
+  orders: SimulatedOrder[];
+  fills: SimulatedFill[];
+  /** Bars that opened up to this moment have been matched against the open orders. */
+  settledThrough: Date;
+}
+
+/**
+ * The moments a backtest calls the model: every occurrence of the schedule from `from` to `to`,
+ * so an exchange calendar skips weekends and holidays just like a live run schedule.
+ */
+export function backtestSchedule(timing: ScheduleTiming, from: Date, to: Date) {
+  const steps: Date[] = [];
+  for (
+    let next = computeNextRunAt(timing, new Date(from.getTime() - 1));
+    next.getTime() <= to.getTime();
+    next = computeNextRunAt(timing, next)
+  ) {
+    if (steps.length >= MAX_BACKTEST_STEPS) {
+      throw new Error(`A backtest can take at most ${MAX_BACKTEST_STEPS} steps; shorten the range or step less often`);
+    }
+    steps.push(next);
+  }
+  if (steps.length === 0) {
+    throw new Error("No scheduled step falls inside the backtest range");
+  }
+  return steps;
+}
+
+/**
+ * When a daily candle's session ends on the symbol's exchange, or a day after it opened for
+ * symbols without one. A candle only becomes visible to the model from then on.
+ */
+export function candleClosesAt(symbol: string, candle: HistoryCandle) {
+  const start = new Date(candle.date);
+  const exchange = exchangeForSymbol(symbol);
+  const windows = exchange ? tradingWindows(exchange, localDateKey(start, exchange.timeZone)) : [];
+  return windows.length > 0 ? windows[windows.length - 1].end : new Date(start.getTime() + DAY_MS);
+}
+
+/** Daily candles converted into the base currency at each day's rate, oldest first. */
+export function prepareBars(symbol: string, candles: HistoryCandle[], fxRates: SeriesPoint[]): BacktestBar[] {
+  return candles
+    .filter((candle) => candle.close !== null)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map((candle) => {
+      const rate = valueAt(fxRates, new Date(candle.date).getTime()) ?? fxRates[0]?.value ?? 1;
+      const convert = (value: number | null) => (value === null ? null : value * rate);
+      return {
+        date: candle.date,
+        open: convert(candle.open),
+        high: convert(candle.high),
+        low: convert(candle.low),
+        close: convert(candle.close),
+        volume: candle.volume,
+        closesAt: candleClosesAt(symbol, candle)
+      };
+    });
+}
+
+/** The candles whose session had ended at `at`: all the model may know then. */
+export function candlesKnownAt(bars: BacktestBar[], at: Date): HistoryCandle[] {
+  return bars
+    .filter((bar) => bar.closesAt.getTime() <= at.getTime())
+    .map((bar) => ({
+      date: bar.date,
+      open: bar.open,
+      high: bar.high,
+      low: bar.low,
+      close: bar.close,
+      volume: bar.volume
+    }));
+}
+
+/** A quote as of `at` built from the last two finished candles, or null before the first one. */
+export function quoteAt(symbol: string, bars: BacktestBar[], at: Date, currency: string): QuoteResponse | null {
+  const known = candlesKnownAt(bars, at);
+  const last = known[known.length - 1];
+  if (!last) {
+    return null;
+  }
+  const previousClose = known[known.length - 2]?.close ?? null;
+  const change = previousClose !== null ? last.close! - previousClose : null;
+  return {
+    symbol,
+    price: last.close,
+    currency,
+    previousClose,
+    open: last.open,
+    change,
+    changePercent: change !== null && previousClose ? (change / previousClose) * 100 : null,
+    averageVolume: averageDailyVolume(known),
+    timestamp: new Date(last.date).getTime()
+  };
+}
+
+export function createBook(startingCash: number, start: Date): SimulatedBook {
+  return { cash: startingCash, positions: new Map(), orders: [], fills: [], settledThrough: start };
+}
+
+/**
+ * Adds the model's orders to the book at `at`. Orders that fail validation, or are for a
+ * symbol the backtest has no prices for, are rejected straight away; the rest wait for the
+ * next bar.
+ */
+export function placeOrders(book: SimulatedBook, orders: OrderInput[], at: Date, symbols: Set<string>) {
+  return orders.map((input) => {
+    const order: SimulatedOrder = {
+      ...input,
+      timeInForce: input.timeInForce ?? "GTC",
+      id: book.orders.length + 1,
+      placedAt: at,
+      status: "open",
+      trailAnchor: null,
+      triggered: false
+    };
+    try {
+      validateOrderInput(order);
+      if (!symbols.has(order.symbol)) {
+        throw new Error(`${order.symbol} is not one of the backtest's symbols`);
+      }
+    } catch (error) {
+      order.status = "rejected";
+      order.reason = error instanceof Error ? error.message : String(error);
+    }
+    book.orders.push(order);
+    return order;
+  });
+}
+
+/**
+ * Matches open orders against every bar that opened after `book.settledThrough` and by
+ * `until`, in time order across symbols. Each order is checked against the opening price of
+ * the bars after the one it was placed on (the close when a bar has no open), with the same
+ * limit, stop and trailing rules as the live matcher. DAY, IOC and FOK orders only get the next
+ * bar; GTD orders lapse after `expiresAt`. Returns the fills made.
+ */
+export function settleBook(
+  book: SimulatedBook,
+  bars: Map<string, BacktestBar[]>,
+  until: Date,
+  costModel: CostModel
+): SimulatedFill[] {
+  const from = book.settledThrough.getTime();
+  const events = Array.from(bars.entries())
+    .flatMap(([symbol, list]) =>
+      list
+        .map((bar, index) => ({ symbol, bar, index, time: new Date(bar.date).getTime() }))
+        .filter((event) => event.time > from && event.time <= until.getTime())
+        .map((event) => ({ ...event, history: list }))
+    )
+    .sort((a, b) => a.time - b.time);
+
+  const fills: SimulatedFill[] = [];
+  for (const { symbol, bar, index, time, history } of events) {
+    const price = bar.open ?? bar.close;
+    const working = book.orders.filter(
+      (order) => order.status === "open" && order.symbol === symbol && order.placedAt.getTime() < time
+    );
+    for (const order of working) {
+      if (order.status !== "open") {
+        continue;
+      }
+      if (order.expiresAt && order.expiresAt.getTime() < time) {
+        order.status = "expired";
+        continue;
+      }
+      const evaluation = evaluateOrder(order, price);
+      order.trailAnchor = evaluation.trailAnchor;
+      order.triggered = evaluation.triggered;
+      if (evaluation.fillPrice !== null) {
+        const fill = fillOrder(book, order, evaluation.fillPrice, new Date(time), costModel, {
+          averageVolume: averageDailyVolume(history.slice(0, index))
+        });
+        if (fill) {
+          fills.push(fill);
+        }
+      } else if (order.timeInForce === "DAY" || isImmediateOrder(order.timeInForce!)) {
+        order.status = "expired";
+        order.reason = "Not filled on the next bar";
+      }
+    }
+  }
+  book.settledThrough = until;
+  return fills;
+}
+
+function fillOrder(
+  book: SimulatedBook,
+  order: SimulatedOrder,
+  price: number,
+  at: Date,
+  costModel: CostModel,
+  market: { averageVolume: number | null }
+): SimulatedFill | null {
+  const { fee, slippage } = computeTradeCosts(
+    costModel,
+    { symbol: order.symbol, side: order.side, qty: order.qty, price },
+    market
+  );
+  const notional = order.qty * price;
+  if (order.side === "BUY" && notional + fee + slippage > book.cash + CASH_TOLERANCE) {
+    order.status = "rejected";
+    order.reason = `Insufficient cash: needs ${(notional + fee + slippage).toFixed(2)}, has ${book.cash.toFixed(2)}`;
+    return null;
+  }
+
+  let applied;
+  try {
+    applied = applyTrade(book.positions.get(order.symbol) ?? null, {
+      symbol: order.symbol,
+      side: order.side,
+      qty: order.qty,
+      price,
+      fee,
+      slippage
+    });
+  } catch (error) {
+    order.status = "rejected";
+    order.reason = error instanceof Error ? error.message : String(error);
+    return null;
+  }
+
+  if (applied.qty.isZero()) {
+    book.positions.delete(order.symbol);
+  } else {
+    book.positions.set(order.symbol, { qty: applied.qty, avgPrice: applied.avgPrice });
+  }
+  book.cash += order.side === "BUY" ? -(notional + fee + slippage) : notional - fee - slippage;
+  order.status = "filled";
+
+  const fill: SimulatedFill = {
+    orderId: order.id,
+    symbol: order.symbol,
+    side: order.side,
+    qty: order.qty,
+    price,
+    fee,
+    slippage,
+    realizedPnL: applied.realizedPnL ? applied.realizedPnL.toNumber() : null,
+    at
+  };
+  book.fills.push(fill);
+
+  for (const leg of buildBracketLegs(order)) {
+    book.orders.push({
+      ...leg,
+      timeInForce: "GTC",
+      id: book.orders.length + 1,
+      placedAt: at,
+      status: "open",
+      parentId: order.id,
+      trailAnchor: leg.orderType === "trailing_stop" ? price : null,
+      triggered: false
+    });
+  }
+  if (order.parentId !== undefined) {
+    for (const sibling of book.orders) {
+      if (sibling.parentId === order.parentId && sibling.status === "open") {
+        sibling.status = "cancelled";
+        sibling.reason = "Another bracket leg filled";
+      }
+    }
+  }
+  return fill;
+}
+
+/**
+ * The book as a portfolio snapshot, valued at `quotes` (at cost for a symbol without one), so
+ * the model reads simulated holdings in the same shape as live ones.
+ */
+export function bookSnapshot(
+  book: SimulatedBook,
+  portfolio: { name: string; baseCurrency: string },
+  quotes: Record<string, QuoteResponse>,
+  at: Date
+): PortfolioSnapshot {
+  const positions = Array.from(book.positions.entries()).map(([symbol, position]) => {
+    const quote = quotes[symbol];
+    return computePositionDto(
+      { symbol, qty: position.qty, avgPrice: position.avgPrice, currency: portfolio.baseCurrency } as Position,
+      {
+        price: quote?.price ?? position.avgPrice.toNumber(),
+        change: quote?.change ?? null,
+        changePercent: quote?.changePercent ?? null
+      }
+    );
+  });
+  const totals = computePortfolioTotals(positions);
+  const cash = [{ currency: portfolio.baseCurrency, amount: book.cash, fxRate: 1, baseAmount: book.cash }];
+  const sum = (pick: (fill: SimulatedFill) => number) => book.fills.reduce((total, fill) => total + pick(fill), 0);
+  return {
+    id: 0,
+    name: portfolio.name,
+    baseCurrency: portfolio.baseCurrency,
+    fxAutoConvert: true,
+    asOf: at.toISOString(),
+    cashBalance: book.cash,
+    totalCash: book.cash,
+    cash,
+    currencies: computeCurrencyExposure(cash, positions),
+    ...totals,
+    totalFees: sum((fill) => fill.fee),
+    totalSlippage: sum((fill) => fill.slippage),
+    totalRealizedPnL: sum((fill) => fill.realizedPnL ?? 0),
+    totalShortTermPnL: 0,
+    totalLongTermPnL: 0,
+    borrowFeesPaid: 0,
+    totalDividends: 0,
+    netDeposits: 0,
+    margin: null,
+    positions: sortPositions(positions)
+  };
+}
+
+/** The book's latest fills in the shape of the live prompt's recent trades, latest first. */
+export function recentFills(book: SimulatedBook, limit = 20) {
+  return book.fills
+    .slice(-limit)
+    .reverse()
+    .map((fill) => ({
+      id: fill.orderId,
+      symbol: fill.symbol,
+      side: fill.side,
+      qty: fill.qty,
+      price: fill.price,
+      fee: fill.fee,
+      slippage: fill.slippage,
+      realizedPnL: fill.realizedPnL,
+      ts: fill.at.toISOString()
+    }));
+}
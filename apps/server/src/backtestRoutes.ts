@@ -0,0 +1,122 @@
+import type { Application } from "express";
+import { z } from "zod";
+import { createBacktest, deleteBacktest, getBacktest, getBacktestStep, listBacktests } from "./backtestService";
+import { LlmRunSetupError } from "./llmRunService";
+import { exchangeForMic } from "./marketCalendar";
+import { parsePortfolioIdStrict } from "./portfolioService";
+
+const backtestInputSchema = z
+  .object({
+    name: z.string().max(120).optional(),
+    promptId: z.number().int().positive().optional(),
+    providerId: z.number().int().positive().optional(),
+    symbols: z.array(z.string().trim().min(1)).min(1, "Pick at least one symbol").max(25),
+    frequency: z.enum(["daily", "weekly", "monthly"]),
+    timeOfDay: z.string().regex(/^(?:[01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:MM 24-hour format"),
+    dayOfWeek: z.number().int().min(0).max(6).optional(),
+    dayOfMonth: z.number().int().min(1).max(31).optional(),
+    exchange: z
+      .string()
+      .transform((value) => value.trim().toUpperCase())
+      .refine((value) => exchangeForMic(value) !== null, "Unknown exchange MIC")
+      .nullable()
+      .optional(),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+    startingCapital: z.number().positive().optional(),
+    benchmarkSymbol: z.string().trim().optional()
+  })
+  .refine((data) => data.startDate < data.endDate, { message: "startDate must be before endDate", path: ["endDate"] })
+  .refine((data) => data.frequency !== "weekly" || data.dayOfWeek !== undefined, {
+    message: "Weekly backtests require a day of the week",
+    path: ["dayOfWeek"]
+  })
+  .refine((data) => data.frequency !== "monthly" || data.dayOfMonth !== undefined, {
+    message: "Monthly backtests require a day of the month",
+    path: ["dayOfMonth"]
+  });
+
+function parseId(value: string, label: string) {
+  const id = Number.parseInt(value, 10);
+  if (!Number.isFinite(id) || id <= 0) {
+    throw new Error(`Invalid ${label} id`);
+  }
+  return id;
+}
+
+export function registerBacktestRoutes(app: Application) {
+  app.get("/api/portfolios/:id/backtests", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      res.json({ backtests: await listBacktests(portfolioId) });
+    } catch (error) {
+      console.error("List backtests failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to fetch backtests" });
+    }
+  });
+
+  app.post("/api/portfolios/:id/backtests", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      const body = backtestInputSchema.parse(req.body);
+      const backtest = await createBacktest({
+        ...body,
+        portfolioId,
+        dayOfWeek: body.frequency === "weekly" ? body.dayOfWeek ?? null : null,
+        dayOfMonth: body.frequency === "monthly" ? body.dayOfMonth ?? null : null
+      });
+      res.status(202).json({ backtest });
+    } catch (error) {
+      if (error instanceof LlmRunSetupError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error("Create backtest failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid backtest payload" });
+    }
+  });
+
+  app.get("/api/portfolios/:id/backtests/:backtestId", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      const backtest = await getBacktest(parseId(req.params.backtestId, "backtest"));
+      if (!backtest || backtest.portfolioId !== portfolioId) {
+        return res.status(404).json({ error: "Backtest not found" });
+      }
+      res.json({ backtest });
+    } catch (error) {
+      console.error("Fetch backtest failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to fetch backtest" });
+    }
+  });
+
+  app.get("/api/portfolios/:id/backtests/:backtestId/steps/:stepId", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      const step = await getBacktestStep(
+        portfolioId,
+        parseId(req.params.backtestId, "backtest"),
+        parseId(req.params.stepId, "step")
+      );
+      if (!step) {
+        return res.status(404).json({ error: "Backtest step not found" });
+      }
+      res.json({ step });
+    } catch (error) {
+      console.error("Fetch backtest step failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to fetch backtest step" });
+    }
+  });
+
+  app.delete("/api/portfolios/:id/backtests/:backtestId", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      if (!(await deleteBacktest(portfolioId, parseId(req.params.backtestId, "backtest")))) {
+        return res.status(404).json({ error: "Backtest not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete backtest failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to delete backtest" });
+    }
+  });
+}
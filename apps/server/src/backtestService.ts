@@ -0,0 +1,417 @@
+import { prisma } from "@paper-trading/db";
+import type { BacktestRun, BacktestStep } from "@paper-trading/db";
+import {
+  BACKTEST_HISTORY_CANDLES,
+  BacktestBar,
+  backtestSchedule,
+  bookSnapshot,
+  candlesKnownAt,
+  createBook,
+  placeOrders,
+  prepareBars,
+  quoteAt,
+  recentFills,
+  SimulatedFill,
+  SimulatedOrder,
+  settleBook
+} from "./backtest";
+import { benchmarkOverlay, indexFromCloses } from "./benchmark";
+import { costModelFromPortfolio } from "./costs";
+import { getFxHistory, quoteCurrency } from "./fx";
+import { LlmRunSetupError, resolveProvider } from "./llmRunService";
+import { orderInputFromArbitrage } from "./llmSchema";
+import { assembleExecutionContext, ChatMessage, renderPrompts, requestArbitragePlan } from "./llmService";
+import { describeMarginPolicy, marginPolicyFromPortfolio } from "./margin";
+import { computePerformance } from "./performance";
+import { historyRangeFor } from "./pointInTime";
+import { getPortfolioRecord } from "./portfolioService";
+import { loadQuantityRules } from "./quantityRules";
+import { ScheduleTiming } from "./scheduler";
+import { utcDay, valuationDays } from "./valuations";
+import type { QuoteResponse } from "./types";
+import { getHistory } from "./yahoo";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Calendar days of history loaded before the first step, enough for its 60 candles. */
+const HISTORY_LEAD_DAYS = 120;
+/** A run stops once this many steps in a row got no usable plan, e.g. when the provider is down. */
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+export interface BacktestRequest extends ScheduleTiming {
+  name?: string;
+  portfolioId: number;
+  promptId?: number;
+  providerId?: number;
+  symbols: string[];
+  startDate: Date;
+  endDate: Date;
+  startingCapital?: number;
+  benchmarkSymbol?: string;
+}
+
+export interface BacktestEquityPoint {
+  date: string;
+  cash: number;
+  marketValue: number;
+  nav: number;
+  benchmark: number | null;
+}
+
+/**
+ * Stores a backtest and starts it in the background. The prompt and provider are resolved like
+ * a live run's and the prompt text is copied onto the run, so later edits to the prompt do not
+ * change what an earlier run was measured with.
+ */
+export async function createBacktest(request: BacktestRequest) {
+  const portfolio = await getPortfolioRecord(request.portfolioId);
+  const prompt = request.promptId
+    ? await prisma.portfolioPrompt.findUnique({ where: { id: request.promptId } })
+    : await prisma.portfolioPrompt.findFirst({
+        where: { portfolioId: request.portfolioId, isDefault: true, isActive: true }
+      });
+  if (request.promptId && !prompt) {
+    throw new LlmRunSetupError("Prompt not found", 404);
+  }
+  const provider = await resolveProvider(request.providerId, prompt?.providerId ?? null);
+  if (!provider) {
+    throw new LlmRunSetupError("No LLM provider configured", 400);
+  }
+  if (request.endDate.getTime() > Date.now()) {
+    throw new Error("A backtest has to end in the past");
+  }
+  const steps = backtestSchedule(request, request.startDate, request.endDate);
+  const symbols = Array.from(new Set(request.symbols.map((symbol) => symbol.trim().toUpperCase()).filter(Boolean)));
+
+  const run = await prisma.backtestRun.create({
+    data: {
+      name:
+        request.name?.trim() ||
+        `Backtest ${steps[0].toISOString().slice(0, 10)} to ${request.endDate.toISOString().slice(0, 10)}`,
+      portfolioId: portfolio.id,
+      promptId: prompt?.id ?? null,
+      providerId: provider.id,
+      model: provider.model,
+      systemPrompt: prompt?.systemPrompt ?? null,
+      userTemplate: prompt?.userTemplate ?? null,
+      symbols: JSON.stringify(symbols),
+      frequency: request.frequency,
+      timeOfDay: request.timeOfDay,
+      dayOfWeek: request.dayOfWeek,
+      dayOfMonth: request.dayOfMonth,
+      exchange: request.exchange ?? null,
+      startDate: request.startDate,
+      endDate: request.endDate,
+      startingCapital: request.startingCapital ?? portfolio.startingCapital,
+      baseCurrency: portfolio.baseCurrency,
+      benchmarkSymbol: request.benchmarkSymbol?.trim().toUpperCase() || null
+    }
+  });
+
+  // Progress is read back from the stored steps while the run goes on.
+  void runBacktest(run.id);
+  return mapBacktestRun(run, 0);
+}
+
+/**
+ * Replays the pipeline over the run's schedule. At each step the model gets a prompt built only
+ * from what was known then: candles whose session had ended, the simulated book marked at those
+ * closes and `{{CURRENT_DATETIME}}` set to the step. Its orders fill from the next bar on in the
+ * simulated book. Every UTC day is marked at the last known closes for the equity curve, which
+ * feeds the same performance report as live portfolios. Failures end up on the run.
+ */
+export async function runBacktest(runId: number) {
+  try {
+    const run = await prisma.backtestRun.update({ where: { id: runId }, data: { status: "running" } });
+    const portfolio = await getPortfolioRecord(run.portfolioId);
+    // The run is labelled with the provider and model it was created with, so it never falls
+    // back to another provider.
+    const stored = run.providerId ? await prisma.llmProvider.findUnique({ where: { id: run.providerId } }) : null;
+    if (!stored) {
+      throw new Error(`The LLM provider this backtest was created with (${run.model}) no longer exists`);
+    }
+    const provider = { ...stored, model: run.model };
+    const steps = backtestSchedule(run, run.startDate, run.endDate);
+    const symbols: string[] = JSON.parse(run.symbols);
+    const bars = await loadBars(symbols, run.baseCurrency, new Date(steps[0].getTime() - HISTORY_LEAD_DAYS * DAY_MS));
+    const costModel = costModelFromPortfolio(portfolio);
+    const marginPolicyDescription = describeMarginPolicy({
+      ...marginPolicyFromPortfolio(portfolio),
+      allowShort: false
+    });
+    const quantityRules = await loadQuantityRules(prisma, symbols);
+    const prompt = { systemPrompt: run.systemPrompt ?? undefined, userTemplate: run.userTemplate ?? undefined };
+    const book = createBook(run.startingCapital.toNumber(), steps[0]);
+    const quotesAt = (at: Date) => {
+      const quotes: Record<string, QuoteResponse> = {};
+      for (const [symbol, list] of bars) {
+        const quote = quoteAt(symbol, list, at, run.baseCurrency);
+        if (quote) {
+          quotes[symbol] = quote;
+        }
+      }
+      return quotes;
+    };
+
+    const curve: BacktestEquityPoint[] = [];
+    let stepIndex = 0;
+    let failures = 0;
+    for (const day of valuationDays(steps[0], run.endDate)) {
+      const dayEnd = new Date(day.getTime() + DAY_MS - 1);
+      for (; stepIndex < steps.length && steps[stepIndex].getTime() <= dayEnd.getTime(); stepIndex += 1) {
+        const at = steps[stepIndex];
+        const fills = settleBook(book, bars, at, costModel);
+        const quotes = quotesAt(at);
+        const snapshot = bookSnapshot(book, { name: run.name, baseCurrency: run.baseCurrency }, quotes, at);
+        const context = assembleExecutionContext(
+          {
+            portfolio: snapshot,
+            quotes,
+            histories: Object.fromEntries(
+              symbols.map((symbol) => [
+                symbol,
+                candlesKnownAt(bars.get(symbol) ?? [], at).slice(-BACKTEST_HISTORY_CANDLES)
+              ])
+            ),
+            recentTrades: recentFills(book)
+          },
+          { asOf: at, costModel, marginPolicyDescription, quantityRules }
+        );
+        const { systemPrompt, userPrompt } = renderPrompts(prompt, context);
+        const messages: ChatMessage[] = [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: userPrompt }
+        ];
+
+        let orders: SimulatedOrder[] = [];
+        let outcome: { responseText?: string; responseJson?: string; errorMessage?: string };
+        try {
+          const { plan, content } = await requestArbitragePlan(provider, undefined, messages, context);
+          orders = placeOrders(book, plan.arbitrages.map(orderInputFromArbitrage), at, new Set(bars.keys()));
+          outcome = { responseText: content, responseJson: JSON.stringify(plan) };
+          failures = 0;
+        } catch (error) {
+          outcome = { errorMessage: error instanceof Error ? error.message : String(error) };
+          failures += 1;
+        }
+
+        await prisma.backtestStep.create({
+          data: {
+            runId,
+            at,
+            status: outcome.errorMessage ? "failed" : "completed",
+            userPrompt,
+            ...outcome,
+            orders: JSON.stringify(orders),
+            fills: JSON.stringify(fills),
+            cash: book.cash,
+            marketValue: snapshot.totalMarketValue,
+            nav: book.cash + snapshot.totalMarketValue
+          }
+        });
+        if (failures >= MAX_CONSECUTIVE_FAILURES) {
+          throw new Error(`Stopped after ${failures} steps in a row without a plan: ${outcome.errorMessage}`);
+        }
+      }
+
+      settleBook(book, bars, dayEnd, costModel);
+      const snapshot = bookSnapshot(book, { name: run.name, baseCurrency: run.baseCurrency }, quotesAt(dayEnd), dayEnd);
+      curve.push({
+        date: day.toISOString().slice(0, 10),
+        cash: book.cash,
+        marketValue: snapshot.totalMarketValue,
+        nav: book.cash + snapshot.totalMarketValue,
+        benchmark: null
+      });
+    }
+
+    const benchmark = run.benchmarkSymbol
+      ? {
+          kind: "symbol" as const,
+          label: run.benchmarkSymbol,
+          index: indexFromCloses(await getHistory(run.benchmarkSymbol, historyRangeFor(steps[0]), "1d").catch(() => []))
+        }
+      : null;
+    if (benchmark) {
+      const overlay = benchmarkOverlay(
+        benchmark.index,
+        curve.map((point) => ({ date: new Date(point.date), nav: point.nav }))
+      );
+      const levels = new Map(overlay.map((point) => [point.date.toISOString().slice(0, 10), point.value]));
+      curve.forEach((point) => (point.benchmark = levels.get(point.date) ?? null));
+    }
+    const performance = computePerformance({
+      period: "custom",
+      from: utcDay(steps[0]),
+      to: utcDay(run.endDate),
+      valuations: curve.map((point) => ({ date: new Date(point.date), nav: point.nav, netFlow: 0 })),
+      trades: book.fills.map((fill) => ({
+        side: fill.side,
+        notional: fill.qty * fill.price,
+        realizedPnL: fill.realizedPnL
+      })),
+      riskFreeRate: 0,
+      benchmark
+    });
+
+    await prisma.backtestRun.update({
+      where: { id: runId },
+      data: {
+        status: "completed",
+        errorMessage: null,
+        equityCurve: JSON.stringify(curve),
+        performance: JSON.stringify(performance),
+        completedAt: new Date()
+      }
+    });
+  } catch (error) {
+    console.error(`Backtest ${runId} failed`, error);
+    // updateMany, because the run may have been deleted while it was going.
+    await prisma.backtestRun
+      .updateMany({
+        where: { id: runId },
+        data: {
+          status: "failed",
+          errorMessage: error instanceof Error ? error.message : "Backtest failed",
+          completedAt: new Date()
+        }
+      })
+      .catch((updateError) => console.error(`Could not record the failure of backtest ${runId}`, updateError));
+  }
+}
+
+/**
+ * Daily candles of every symbol in the base currency since `since`. A symbol without history
+ * or a known currency is left out, so the model can see it has no prices and orders for it are
+ * rejected.
+ */
+async function loadBars(symbols: string[], baseCurrency: string, since: Date) {
+  const bars = new Map<string, BacktestBar[]>();
+  for (const symbol of symbols) {
+    const candles = await getHistory(symbol, historyRangeFor(since), "1d").catch((error) => {
+      console.error(`Backtest history failed for ${symbol}`, error);
+      return [];
+    });
+    if (candles.length === 0) {
+      continue;
+    }
+    const currency = await quoteCurrency(symbol).catch((error) => {
+      console.error(`Backtest currency lookup failed for ${symbol}`, error);
+      return null;
+    });
+    if (!currency) {
+      continue;
+    }
+    bars.set(symbol, prepareBars(symbol, candles, await getFxHistory(currency, baseCurrency, since)));
+  }
+  return bars;
+}
+
+/** Runs left running by a stopped server cannot resume; they are marked failed at startup. */
+export async function failInterruptedBacktests() {
+  const { count } = await prisma.backtestRun.updateMany({
+    where: { status: { in: ["pending", "running"] } },
+    data: { status: "failed", errorMessage: "Interrupted by a server restart", completedAt: new Date() }
+  });
+  if (count > 0) {
+    console.warn(`Marked ${count} interrupted backtest(s) as failed`);
+  }
+}
+
+export async function listBacktests(portfolioId?: number) {
+  const runs = await prisma.backtestRun.findMany({
+    where: portfolioId ? { portfolioId } : undefined,
+    orderBy: { createdAt: "desc" },
+    include: { _count: { select: { steps: true } } }
+  });
+  return runs.map((run) => mapBacktestRun(run, run._count.steps));
+}
+
+/** A run with its equity curve and its steps, without the prompts (see `getBacktestStep`). */
+export async function getBacktest(runId: number) {
+  const run = await prisma.backtestRun.findUnique({ where: { id: runId } });
+  if (!run) {
+    return null;
+  }
+  const steps = await prisma.backtestStep.findMany({
+    where: { runId },
+    orderBy: { at: "asc" },
+    select: {
+      id: true,
+      runId: true,
+      at: true,
+      status: true,
+      responseText: true,
+      responseJson: true,
+      errorMessage: true,
+      orders: true,
+      fills: true,
+      cash: true,
+      marketValue: true,
+      nav: true,
+      createdAt: true
+    }
+  });
+  return {
+    ...mapBacktestRun(run, steps.length),
+    systemPrompt: run.systemPrompt,
+    userTemplate: run.userTemplate,
+    equityCurve: run.equityCurve ? (JSON.parse(run.equityCurve) as BacktestEquityPoint[]) : null,
+    steps: steps.map(mapBacktestStep)
+  };
+}
+
+export async function getBacktestStep(portfolioId: number, runId: number, stepId: number) {
+  const step = await prisma.backtestStep.findFirst({ where: { id: stepId, runId, run: { portfolioId } } });
+  return step ? { ...mapBacktestStep(step), userPrompt: step.userPrompt } : null;
+}
+
+export async function deleteBacktest(portfolioId: number, runId: number) {
+  const { count } = await prisma.backtestRun.deleteMany({ where: { id: runId, portfolioId } });
+  return count > 0;
+}
+
+function mapBacktestRun(run: BacktestRun, completedSteps: number) {
+  return {
+    id: run.id,
+    name: run.name,
+    portfolioId: run.portfolioId,
+    promptId: run.promptId,
+    providerId: run.providerId,
+    model: run.model,
+    symbols: JSON.parse(run.symbols) as string[],
+    schedule: {
+      frequency: run.frequency,
+      timeOfDay: run.timeOfDay,
+      dayOfWeek: run.dayOfWeek,
+      dayOfMonth: run.dayOfMonth,
+      exchange: run.exchange
+    },
+    startDate: run.startDate.toISOString(),
+    endDate: run.endDate.toISOString(),
+    startingCapital: run.startingCapital.toNumber(),
+    baseCurrency: run.baseCurrency,
+    benchmarkSymbol: run.benchmarkSymbol,
+    status: run.status,
+    errorMessage: run.errorMessage,
+    progress: { completed: completedSteps, total: backtestSchedule(run, run.startDate, run.endDate).length },
+    performance: run.performance ? (JSON.parse(run.performance) as ReturnType<typeof computePerformance>) : null,
+    createdAt: run.createdAt.toISOString(),
+    completedAt: run.completedAt?.toISOString() ?? null
+  };
+}
+
+function mapBacktestStep(step: Omit<BacktestStep, "userPrompt">) {
+  return {
+    id: step.id,
+    at: step.at.toISOString(),
+    status: step.status,
+    responseText: step.responseText,
+    plan: step.responseJson ? JSON.parse(step.responseJson) : null,
+    errorMessage: step.errorMessage,
+    orders: JSON.parse(step.orders) as SimulatedOrder[],
+    fills: JSON.parse(step.fills) as SimulatedFill[],
+    cash: step.cash.toNumber(),
+    marketValue: step.marketValue.toNumber(),
+    nav: step.nav.toNumber()
+  };
+}
@@ -0,0 +1,58 @@
+import type { HistoryCandle } from "./types";
+import { SeriesPoint, valueAt } from "./valuations";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type BenchmarkKind = "symbol" | "portfolio";
+
+/** What a portfolio is measured against, as a daily index level. */
+export interface BenchmarkIndex {
+  kind: BenchmarkKind;
+  /** The benchmark symbol, or the name of the benchmark portfolio. */
+  label: string;
+  index: SeriesPoint[];
+}
+
+/** Daily closes as an index sorted by date, skipping candles without a close. */
+export function indexFromCloses(candles: HistoryCandle[]): SeriesPoint[] {
+  return candles
+    .filter((candle) => candle.close !== null)
+    .map((candle) => ({ date: new Date(candle.date), value: candle.close! }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Daily valuations of a portfolio as a time-weighted index starting at 1, so its deposits and
+ * withdrawals do not count as gains or losses of the benchmark.
+ */
+export function indexFromValuations(valuations: Array<{ date: Date; nav: number; netFlow: number }>): SeriesPoint[] {
+  const sorted = [...valuations].sort((a, b) => a.date.getTime() - b.date.getTime());
+  let level = 1;
+  return sorted.map((valuation, index) => {
+    const previous = sorted[index - 1];
+    if (previous && previous.nav > 0) {
+      level *= (valuation.nav - valuation.netFlow) / previous.nav;
+    }
+    return { date: valuation.date, value: level };
+  });
+}
+
+/** Level of the index at the end of the UTC `day`, carrying the last value forward. */
+export function indexLevelOn(index: SeriesPoint[], day: Date) {
+  return valueAt(index, day.getTime() + DAY_MS - 1);
+}
+
+/**
+ * The benchmark rescaled to the portfolio's NAV on the first day both have a value, with one
+ * point per portfolio day from then on, so both lines can share the equity chart.
+ */
+export function benchmarkOverlay(index: SeriesPoint[], points: Array<{ date: Date; nav: number }>): SeriesPoint[] {
+  const start = points.find((point) => (indexLevelOn(index, point.date) ?? 0) > 0);
+  if (!start) {
+    return [];
+  }
+  const scale = start.nav / indexLevelOn(index, start.date)!;
+  return points
+    .filter((point) => point.date >= start.date)
+    .map((point) => ({ date: point.date, value: indexLevelOn(index, point.date)! * scale }));
+}
@@ -0,0 +1,81 @@
+import { prisma } from "@paper-trading/db";
+import type { Portfolio } from "@paper-trading/db";
+import { BenchmarkIndex, indexFromCloses, indexFromValuations } from "./benchmark";
+import { historyRangeFor } from "./pointInTime";
+import { getHistory } from "./yahoo";
+
+export interface BenchmarkUpdate {
+  benchmarkSymbol?: string | null;
+  benchmarkPortfolioId?: number | null;
+}
+
+/**
+ * Checks a benchmark change before it is stored and returns the columns to write. A portfolio has
+ * at most one benchmark, so setting a symbol clears the benchmark portfolio and the other way
+ * round. A symbol must have a daily history; a benchmark portfolio must exist and be another one.
+ */
+export async function resolveBenchmarkUpdate(portfolioId: number, update: BenchmarkUpdate) {
+  if (update.benchmarkSymbol) {
+    const symbol = update.benchmarkSymbol.trim().toUpperCase();
+    const candles = await getHistory(symbol, "1mo", "1d").catch(() => []);
+    if (!candles.some((candle) => candle.close !== null)) {
+      throw new Error(`No daily history found for benchmark ${symbol}`);
+    }
+    return { benchmarkSymbol: symbol, benchmarkPortfolioId: null };
+  }
+  if (update.benchmarkPortfolioId) {
+    if (update.benchmarkPortfolioId === portfolioId) {
+      throw new Error("A portfolio cannot be its own benchmark");
+    }
+    const exists = await prisma.portfolio.count({ where: { id: update.benchmarkPortfolioId } });
+    if (!exists) {
+      throw new Error(`Benchmark portfolio ${update.benchmarkPortfolioId} not found`);
+    }
+    return { benchmarkSymbol: null, benchmarkPortfolioId: update.benchmarkPortfolioId };
+  }
+  return {
+    benchmarkSymbol: update.benchmarkSymbol === null ? null : undefined,
+    benchmarkPortfolioId: update.benchmarkPortfolioId === null ? null : undefined
+  };
+}
+
+/**
+ * Daily index of the portfolio's benchmark reaching back to `since`: the closes of the benchmark
+ * symbol, or the time-weighted stored valuations of the benchmark portfolio. Null when no
+ * benchmark is set or the benchmark portfolio no longer exists.
+ */
+export async function loadBenchmarkIndex(
+  portfolio: Portfolio,
+  since: Date,
+  now = new Date()
+): Promise<BenchmarkIndex | null> {
+  if (portfolio.benchmarkSymbol) {
+    const symbol = portfolio.benchmarkSymbol;
+    const candles = await getHistory(symbol, historyRangeFor(since, now), "1d").catch((error) => {
+      console.error(`Benchmark history failed for ${symbol}`, error);
+      return [];
+    });
+    return { kind: "symbol", label: symbol, index: indexFromCloses(candles) };
+  }
+  if (portfolio.benchmarkPortfolioId) {
+    const benchmark = await prisma.portfolio.findUnique({
+      where: { id: portfolio.benchmarkPortfolioId },
+      include: { valuations: { orderBy: { date: "asc" } } }
+    });
+    if (!benchmark) {
+      return null;
+    }
+    return {
+      kind: "portfolio",
+      label: benchmark.name,
+      index: indexFromValuations(
+        benchmark.valuations.map((valuation) => ({
+          date: valuation.date,
+          nav: valuation.nav.toNumber(),
+          netFlow: valuation.netFlow.toNumber()
+        }))
+      )
+    };
+  }
+  return null;
+}
@@ -0,0 +1,295 @@
+import { Prisma, prisma } from "@paper-trading/db";
+import type { FxConversion, Portfolio } from "@paper-trading/db";
+import { CashMovement, CashTransactionType, signedCashAmount } from "./cashLedger";
+import { getFxRate, normalizeCurrency, quoteCurrency, resolveSettlement, Settlement } from "./fx";
+
+/** The currency a symbol trades in and how its fills settle. */
+export interface SymbolSettlement {
+  currency: string;
+  settlement: Settlement;
+}
+
+export interface CashBalanceDto {
+  currency: string;
+  amount: number;
+  /** Base currency units per unit of `currency`. */
+  fxRate: number;
+  baseAmount: number;
+}
+
+/**
+ * Cash of the base currency is kept on `Portfolio.cashBalance`; every other currency has a
+ * `CashBalance` row. The base currency is always listed first.
+ */
+export async function loadCashBalances(
+  tx: Prisma.TransactionClient,
+  portfolio: Pick<Portfolio, "id" | "baseCurrency" | "cashBalance">
+): Promise<Array<{ currency: string; amount: Prisma.Decimal }>> {
+  const rows = await tx.cashBalance.findMany({
+    where: { portfolioId: portfolio.id, currency: { not: portfolio.baseCurrency } },
+    orderBy: { currency: "asc" }
+  });
+  return [
+    { currency: portfolio.baseCurrency, amount: portfolio.cashBalance },
+    ...rows.map((row) => ({ currency: row.currency, amount: row.amount }))
+  ];
+}
+
+/** Lists every cash balance with its value in the base currency at the current rate. */
+export async function describeCash(
+  tx: Prisma.TransactionClient,
+  portfolio: Pick<Portfolio, "id" | "baseCurrency" | "cashBalance">
+): Promise<CashBalanceDto[]> {
+  const balances = await loadCashBalances(tx, portfolio);
+  return Promise.all(
+    balances.map(async (balance) => {
+      const fxRate = await getFxRate(balance.currency, portfolio.baseCurrency);
+      const amount = balance.amount.toNumber();
+      return { currency: balance.currency, amount, fxRate, baseAmount: amount * fxRate };
+    })
+  );
+}
+
+/**
+ * Changes one cash balance and appends the movement to the portfolio's `CashTransaction`
+ * ledger with the resulting balance and the movement's rate to the base currency. Returns the
+ * ledger row.
+ */
+async function moveCash(
+  tx: Prisma.TransactionClient,
+  portfolioId: number,
+  currency: string,
+  delta: Prisma.Decimal,
+  movement: CashMovement,
+  insufficientMessage?: string
+) {
+  const portfolio = await tx.portfolio.findUniqueOrThrow({ where: { id: portfolioId } });
+  const fxRate = currency === portfolio.baseCurrency ? 1 : movement.fxRate;
+  if (fxRate === undefined) {
+    throw new Error(`A ${currency} cash movement needs its rate to ${portfolio.baseCurrency}`);
+  }
+  const record = (balance: Prisma.Decimal) =>
+    tx.cashTransaction.create({
+      data: {
+        portfolioId,
+        type: movement.type,
+        currency,
+        amount: delta,
+        balanceAfter: balance,
+        fxRate: new Prisma.Decimal(fxRate),
+        tradeId: movement.tradeId ?? null,
+        note: movement.note ?? null,
+        ts: movement.ts
+      }
+    });
+
+  if (currency === portfolio.baseCurrency) {
+    const balance = portfolio.cashBalance.add(delta);
+    if (insufficientMessage && balance.isNegative()) {
+      throw new Error(insufficientMessage);
+    }
+    await tx.portfolio.update({ where: { id: portfolioId }, data: { cashBalance: balance } });
+    return record(balance);
+  }
+
+  const existing = await tx.cashBalance.findUnique({
+    where: { portfolioId_currency: { portfolioId, currency } }
+  });
+  const balance = (existing?.amount ?? new Prisma.Decimal(0)).add(delta);
+  if (insufficientMessage && balance.isNegative()) {
+    throw new Error(insufficientMessage);
+  }
+  await tx.cashBalance.upsert({
+    where: { portfolioId_currency: { portfolioId, currency } },
+    update: { amount: balance },
+    create: { portfolioId, currency, amount: balance }
+  });
+  return record(balance);
+}
+
+/**
+ * Takes `amount` out of the `currency` balance. With `insufficientMessage` the debit fails when
+ * it would leave the balance negative.
+ */
+export function debitCash(
+  tx: Prisma.TransactionClient,
+  portfolioId: number,
+  currency: string,
+  amount: Prisma.Decimal,
+  movement: CashMovement,
+  insufficientMessage?: string
+) {
+  return moveCash(tx, portfolioId, currency, amount.neg(), movement, insufficientMessage);
+}
+
+export function creditCash(
+  tx: Prisma.TransactionClient,
+  portfolioId: number,
+  currency: string,
+  amount: Prisma.Decimal,
+  movement: CashMovement
+) {
+  return moveCash(tx, portfolioId, currency, amount, movement);
+}
+
+/** Ledger row for the capital a portfolio is opened (or reset) with, for nested creates. */
+export function startingCapitalDeposit(currency: string, amount: Prisma.Decimal) {
+  return { type: "deposit", currency, amount, balanceAfter: amount, note: "Starting capital" };
+}
+
+export interface ManualCashPosting {
+  type: CashTransactionType;
+  currency: string;
+  /** Signed amount the posting moves. */
+  delta: Prisma.Decimal;
+  note?: string | null;
+  /** Base currency units per unit of `currency`. */
+  fxRate: number;
+}
+
+/**
+ * Validates a deposit, withdrawal, fee, interest payment or adjustment entered by hand and looks
+ * up its rate to the base currency, before the posting's transaction opens.
+ */
+export async function prepareCashTransaction(
+  portfolio: Pick<Portfolio, "baseCurrency">,
+  params: { type: CashTransactionType; amount: number; currency?: string; note?: string | null }
+): Promise<ManualCashPosting> {
+  const currency = params.currency ? normalizeCurrency(params.currency)?.currency : portfolio.baseCurrency;
+  if (!currency) {
+    throw new Error(`Unsupported currency ${params.currency}`);
+  }
+  const delta = signedCashAmount(params.type, params.amount);
+  const fxRate = await getFxRate(currency, portfolio.baseCurrency);
+  return { type: params.type, currency, delta, note: params.note, fxRate };
+}
+
+/** Posts a prepared manual movement. Withdrawals and fees cannot overdraw the balance. */
+export function postCashTransaction(
+  tx: Prisma.TransactionClient,
+  portfolioId: number,
+  { type, currency, delta, note, fxRate }: ManualCashPosting
+) {
+  const movement = { type, note, fxRate };
+  if (delta.isNegative()) {
+    return debitCash(
+      tx,
+      portfolioId,
+      currency,
+      delta.neg(),
+      movement,
+      type === "adjustment" ? undefined : `Insufficient ${currency} cash balance for this ${type}`
+    );
+  }
+  return creditCash(tx, portfolioId, currency, delta, movement);
+}
+
+/**
+ * Currency a symbol is traded in: the currency of the held position when there is one, else
+ * the quote's currency. Throws when neither is known.
+ */
+export async function resolveInstrumentCurrency(
+  tx: Prisma.TransactionClient,
+  portfolio: Pick<Portfolio, "id" | "baseCurrency">,
+  symbol: string
+) {
+  const position = await tx.position.findFirst({ where: { portfolioId: portfolio.id, symbol } });
+  return position?.currency ?? (await quoteCurrency(symbol));
+}
+
+/**
+ * Looks up the currency and settlement of each symbol a transaction may book. Quotes and FX
+ * rates come from the network, so this runs before the transaction opens, keeping its body to
+ * database work and clear of the interactive transaction timeout.
+ */
+export async function resolveSymbolSettlements(
+  portfolio: Pick<Portfolio, "id" | "baseCurrency" | "fxAutoConvert">,
+  symbols: string[]
+) {
+  const settlements = new Map<string, SymbolSettlement>();
+  for (const symbol of new Set(symbols)) {
+    const currency = await resolveInstrumentCurrency(prisma, portfolio, symbol);
+    settlements.set(symbol, { currency, settlement: await resolveSettlement(portfolio, currency) });
+  }
+  return settlements;
+}
+
+/** The settlement resolved for `symbol` before the transaction opened. */
+export function settlementFor(settlements: Map<string, SymbolSettlement>, symbol: string) {
+  const resolved = settlements.get(symbol);
+  if (!resolved) {
+    throw new Error(`The settlement of ${symbol} was not looked up before booking; try again`);
+  }
+  return resolved;
+}
+
+export interface FxQuote {
+  from: string;
+  to: string;
+  amount: number;
+  /** Units of `to` per unit of `from`. */
+  rate: number;
+  /** Base currency units per unit of `from` and of `to`, for the ledger rows. */
+  fromBaseRate: number;
+  toBaseRate: number;
+}
+
+/** Normalizes a conversion request and looks up its rates, before the conversion's transaction opens. */
+export async function quoteConversion(
+  portfolio: Pick<Portfolio, "baseCurrency">,
+  params: { from: string; to: string; amount: number }
+): Promise<FxQuote> {
+  const from = normalizeCurrency(params.from)?.currency;
+  const to = normalizeCurrency(params.to)?.currency;
+  if (!from || !to || from === to) {
+    throw new Error("FX conversions need two different currencies");
+  }
+  return {
+    from,
+    to,
+    amount: params.amount,
+    rate: await getFxRate(from, to),
+    fromBaseRate: await getFxRate(from, portfolio.baseCurrency),
+    toBaseRate: await getFxRate(to, portfolio.baseCurrency)
+  };
+}
+
+/**
+ * Exchanges `amount` of `from` into `to` at the quoted rate and records the conversion.
+ * `from` must hold at least `amount`.
+ */
+export async function convertCash(
+  tx: Prisma.TransactionClient,
+  portfolioId: number,
+  { from, to, amount, rate: quotedRate, fromBaseRate, toBaseRate }: FxQuote
+): Promise<FxConversion> {
+  const rate = new Prisma.Decimal(quotedRate);
+  const fromAmount = new Prisma.Decimal(amount);
+  const toAmount = fromAmount.mul(rate);
+  const movement = { type: "fx" as const, note: `${from} to ${to} at ${rate.toString()}` };
+  await debitCash(
+    tx,
+    portfolioId,
+    from,
+    fromAmount,
+    { ...movement, fxRate: fromBaseRate },
+    `Insufficient ${from} cash balance for this conversion`
+  );
+  await creditCash(tx, portfolioId, to, toAmount, { ...movement, fxRate: toBaseRate });
+
+  return tx.fxConversion.create({
+    data: { portfolioId, fromCurrency: from, toCurrency: to, fromAmount, toAmount, rate }
+  });
+}
+
+export function mapFxConversion(conversion: FxConversion) {
+  return {
+    id: conversion.id,
+    fromCurrency: conversion.fromCurrency,
+    toCurrency: conversion.toCurrency,
+    fromAmount: conversion.fromAmount.toNumber(),
+    toAmount: conversion.toAmount.toNumber(),
+    rate: conversion.rate.toNumber(),
+    ts: conversion.ts.toISOString()
+  };
+}
@@ -0,0 +1,110 @@
+import { Prisma } from "@paper-trading/db";
+import type { CashTransaction } from "@paper-trading/db";
+
+export type CashTransactionType =
+  | "deposit"
+  | "withdrawal"
+  | "trade"
+  | "fee"
+  | "dividend"
+  | "interest"
+  | "fx"
+  | "adjustment";
+
+export const CASH_TRANSACTION_TYPES: CashTransactionType[] = [
+  "deposit",
+  "withdrawal",
+  "trade",
+  "fee",
+  "dividend",
+  "interest",
+  "fx",
+  "adjustment"
+];
+
+/** Types a user may post directly; trades, dividends and FX conversions are written by their own flows. */
+export const MANUAL_CASH_TRANSACTION_TYPES: CashTransactionType[] = ["deposit", "withdrawal", "fee", "interest", "adjustment"];
+
+/**
+ * Money entering or leaving the portfolio from outside. Everything else (trades, fees,
+ * dividends, interest, FX, adjustments) is part of the portfolio's own return.
+ */
+export const EXTERNAL_CASH_FLOW_TYPES: CashTransactionType[] = ["deposit", "withdrawal"];
+
+export interface CashMovement {
+  type: CashTransactionType;
+  note?: string | null;
+  tradeId?: number | null;
+  ts?: Date;
+  /**
+   * Base currency units per unit of the moved currency, looked up before the transaction opens.
+   * Required unless the movement is in the base currency.
+   */
+  fxRate?: number | Prisma.Decimal;
+}
+
+export interface CashFlowSummary {
+  deposits: number;
+  withdrawals: number;
+  /** Deposits less withdrawals. */
+  netExternalFlow: number;
+  /** Every other movement, keyed by type. */
+  internal: Partial<Record<CashTransactionType, number>>;
+}
+
+export function isExternalFlow(type: string) {
+  return EXTERNAL_CASH_FLOW_TYPES.includes(type as CashTransactionType);
+}
+
+/**
+ * Signed amount a manual transaction moves: deposits and interest add cash, withdrawals and fees
+ * take it out, adjustments keep the sign they were entered with.
+ */
+export function signedCashAmount(type: CashTransactionType, amount: number) {
+  if (!Number.isFinite(amount) || amount === 0) {
+    throw new Error("Cash transactions need a non-zero amount");
+  }
+  if (type === "adjustment") {
+    return new Prisma.Decimal(amount);
+  }
+  if (amount < 0) {
+    throw new Error(`A ${type} amount must be positive`);
+  }
+  return type === "withdrawal" || type === "fee" ? new Prisma.Decimal(amount).neg() : new Prisma.Decimal(amount);
+}
+
+/** Totals a set of ledger rows in the base currency, using each row's rate at posting time. */
+export function summarizeCashFlows(
+  transactions: Array<Pick<CashTransaction, "type" | "amount" | "fxRate">>
+): CashFlowSummary {
+  const summary: CashFlowSummary = { deposits: 0, withdrawals: 0, netExternalFlow: 0, internal: {} };
+  for (const transaction of transactions) {
+    const base = transaction.amount.mul(transaction.fxRate).toNumber();
+    if (transaction.type === "deposit") {
+      summary.deposits += base;
+    } else if (transaction.type === "withdrawal") {
+      summary.withdrawals -= base;
+    } else {
+      const type = transaction.type as CashTransactionType;
+      summary.internal[type] = (summary.internal[type] ?? 0) + base;
+    }
+  }
+  summary.netExternalFlow = summary.deposits - summary.withdrawals;
+  return summary;
+}
+
+export function mapCashTransaction(transaction: CashTransaction) {
+  return {
+    id: transaction.id,
+    type: transaction.type as CashTransactionType,
+    currency: transaction.currency,
+    amount: transaction.amount.toNumber(),
+    balanceAfter: transaction.balanceAfter.toNumber(),
+    fxRate: transaction.fxRate.toNumber(),
+    baseAmount: transaction.amount.mul(transaction.fxRate).toNumber(),
+    external: isExternalFlow(transaction.type),
+    tradeId: transaction.tradeId,
+    note: transaction.note,
+    ts: transaction.ts.toISOString()
+  };
+}
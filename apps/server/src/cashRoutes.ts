@@ -0,0 +1,129 @@
+import type { Application } from "express";
+import { prisma } from "@paper-trading/db";
+import { z } from "zod";
+import {
+  convertCash,
+  describeCash,
+  mapFxConversion,
+  postCashTransaction,
+  prepareCashTransaction,
+  quoteConversion
+} from "./cashBalances";
+import {
+  CASH_TRANSACTION_TYPES,
+  CashTransactionType,
+  MANUAL_CASH_TRANSACTION_TYPES,
+  mapCashTransaction,
+  summarizeCashFlows
+} from "./cashLedger";
+import { getPortfolioRecord, parsePortfolioIdStrict } from "./portfolioService";
+
+const currencyCode = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z]{3}$/, "Currency must be a three-letter code")
+  .transform((value) => value.toUpperCase());
+
+const fxConversionSchema = z.object({
+  from: currencyCode,
+  to: currencyCode,
+  amount: z.coerce.number().positive()
+});
+
+const cashTransactionSchema = z.object({
+  type: z.enum(MANUAL_CASH_TRANSACTION_TYPES as [CashTransactionType, ...CashTransactionType[]]),
+  amount: z.coerce.number().refine((value) => value !== 0, "Amount cannot be zero"),
+  currency: currencyCode.optional(),
+  note: z.string().trim().max(200).optional()
+});
+
+const cashTransactionQuerySchema = z.object({
+  type: z.enum(CASH_TRANSACTION_TYPES as [CashTransactionType, ...CashTransactionType[]]).optional(),
+  currency: currencyCode.optional(),
+  limit: z.coerce.number().int().positive().max(1000).default(200)
+});
+
+export function registerCashRoutes(app: Application) {
+  app.get("/api/portfolios/:id/cash", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      const portfolio = await getPortfolioRecord(portfolioId);
+      const balances = await describeCash(prisma, portfolio);
+      const conversions = await prisma.fxConversion.findMany({
+        where: { portfolioId },
+        orderBy: { ts: "desc" },
+        take: 50
+      });
+
+      res.json({
+        baseCurrency: portfolio.baseCurrency,
+        balances,
+        conversions: conversions.map(mapFxConversion)
+      });
+    } catch (error) {
+      console.error("Get cash balances failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to fetch cash balances" });
+    }
+  });
+
+  app.get("/api/portfolios/:id/cash/transactions", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      await getPortfolioRecord(portfolioId);
+      const query = cashTransactionQuerySchema.parse(req.query);
+
+      const transactions = await prisma.cashTransaction.findMany({
+        where: { portfolioId, type: query.type, currency: query.currency },
+        orderBy: [{ ts: "desc" }, { id: "desc" }],
+        take: query.limit
+      });
+      const flows = await prisma.cashTransaction.findMany({
+        where: { portfolioId },
+        select: { type: true, amount: true, fxRate: true }
+      });
+
+      res.json({
+        transactions: transactions.map(mapCashTransaction),
+        summary: summarizeCashFlows(flows)
+      });
+    } catch (error) {
+      console.error("List cash transactions failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to fetch cash transactions" });
+    }
+  });
+
+  app.post("/api/portfolios/:id/cash/transactions", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      const portfolio = await getPortfolioRecord(portfolioId);
+      const body = cashTransactionSchema.parse(req.body ?? {});
+
+      const posting = await prepareCashTransaction(portfolio, body);
+      const transaction = await prisma.$transaction((tx) => postCashTransaction(tx, portfolioId, posting));
+      const balances = await describeCash(prisma, await getPortfolioRecord(portfolioId));
+
+      res.status(201).json({ transaction: mapCashTransaction(transaction), balances });
+    } catch (error) {
+      console.error("Cash transaction failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid cash transaction" });
+    }
+  });
+
+  app.post("/api/portfolios/:id/fx", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      const current = await getPortfolioRecord(portfolioId);
+      const body = fxConversionSchema.parse(req.body ?? {});
+
+      const quoted = await quoteConversion(current, body);
+      const conversion = await prisma.$transaction((tx) => convertCash(tx, portfolioId, quoted));
+      const portfolio = await getPortfolioRecord(portfolioId);
+      const balances = await describeCash(prisma, portfolio);
+
+      res.status(201).json({ conversion: mapFxConversion(conversion), balances });
+    } catch (error) {
+      console.error("FX conversion failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid FX conversion request" });
+    }
+  });
+}
@@ -0,0 +1,89 @@
+import type { Application } from "express";
+import { prisma } from "@paper-trading/db";
+import { z } from "zod";
+import { CORPORATE_ACTION_TYPES, CorporateActionType, mapCorporateAction, mapCorporateActionEntry } from "./corporateActions";
+import { applyCorporateAction, recordCorporateAction, syncCorporateActions } from "./corporateActionService";
+import { getPortfolioRecord, parsePortfolioIdStrict } from "./portfolioService";
+
+const symbolField = z
+  .string()
+  .trim()
+  .min(1)
+  .transform((value) => value.toUpperCase());
+
+const corporateActionSchema = z.object({
+  symbol: symbolField,
+  type: z.enum(CORPORATE_ACTION_TYPES as [CorporateActionType, ...CorporateActionType[]]),
+  exDate: z.coerce.date(),
+  ratio: z.coerce.number().positive().optional(),
+  amount: z.coerce.number().nonnegative().optional(),
+  newSymbol: symbolField.optional()
+});
+
+const syncSchema = z.object({
+  symbols: z.array(symbolField).min(1).optional()
+});
+
+export function registerCorporateActionRoutes(app: Application) {
+  app.get("/api/corporate-actions", async (req, res) => {
+    try {
+      const symbol = typeof req.query.symbol === "string" && req.query.symbol.trim() ? req.query.symbol.trim().toUpperCase() : undefined;
+      const actions = await prisma.corporateAction.findMany({
+        where: symbol ? { symbol } : undefined,
+        orderBy: { exDate: "desc" },
+        take: 200
+      });
+      res.json({ actions: actions.map(mapCorporateAction) });
+    } catch (error) {
+      console.error("List corporate actions failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to fetch corporate actions" });
+    }
+  });
+
+  app.post("/api/corporate-actions", async (req, res) => {
+    try {
+      const body = corporateActionSchema.parse(req.body ?? {});
+      const action = await recordCorporateAction({ ...body, source: "manual" });
+      const { entries, failures } = await applyCorporateAction(action);
+      res.status(201).json({
+        action: mapCorporateAction(action),
+        entries: entries.map(mapCorporateActionEntry),
+        failures
+      });
+    } catch (error) {
+      console.error("Record corporate action failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid corporate action" });
+    }
+  });
+
+  app.post("/api/corporate-actions/sync", async (req, res) => {
+    try {
+      const body = syncSchema.parse(req.body ?? {});
+      const result = await syncCorporateActions(body.symbols);
+      res.json({
+        recorded: result.recorded.map(mapCorporateAction),
+        entries: result.entries.map(mapCorporateActionEntry),
+        failures: result.failures
+      });
+    } catch (error) {
+      console.error("Corporate action sync failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to sync corporate actions" });
+    }
+  });
+
+  app.get("/api/portfolios/:id/corporate-actions", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      await getPortfolioRecord(portfolioId);
+      const entries = await prisma.corporateActionEntry.findMany({
+        where: { portfolioId },
+        orderBy: { createdAt: "desc" },
+        take: 200
+      });
+      res.json({ entries: entries.map(mapCorporateActionEntry) });
+    } catch (error) {
+      console.error("List corporate action entries failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to fetch corporate actions" });
+    }
+  });
+}
@@ -0,0 +1,281 @@
+import { Prisma, prisma } from "@paper-trading/db";
+import type { CorporateAction, CorporateActionEntry } from "@paper-trading/db";
+import type { BackgroundJob } from "./backgroundJobs";
+import {
+  computeDividend,
+  CorporateActionInput,
+  corporateActionsFromEvents,
+  describeCorporateAction,
+  qualifyingQuantity,
+  splitLot,
+  splitOrder,
+  splitPosition,
+  validateCorporateActionInput
+} from "./corporateActions";
+import { creditCash, SymbolSettlement } from "./cashBalances";
+import { resolveSettlement } from "./fx";
+import { ACTIVE_ORDER_STATUSES } from "./orders";
+import { bookTrade } from "./portfolioService";
+import { loadOpenLots } from "./taxLots";
+import { getCorporateEvents } from "./yahoo";
+
+const DEFAULT_CORPORATE_ACTION_INTERVAL_MS = 6 * 60 * 60_000;
+const DEFAULT_LOOKBACK_MS = 365 * 24 * 60 * 60 * 1000;
+
+export interface CorporateActionFailure {
+  portfolioId: number;
+  error: string;
+}
+
+/** Stores an action once; recording the same symbol, type and ex-date again returns the existing row. */
+export async function recordCorporateAction(input: CorporateActionInput) {
+  validateCorporateActionInput(input);
+  const symbol = input.symbol.trim().toUpperCase();
+  return prisma.corporateAction.upsert({
+    where: { symbol_type_exDate: { symbol, type: input.type, exDate: input.exDate } },
+    update: {},
+    create: {
+      symbol,
+      type: input.type,
+      exDate: input.exDate,
+      ratio: input.ratio !== undefined ? new Prisma.Decimal(input.ratio) : null,
+      amount: input.amount !== undefined ? new Prisma.Decimal(input.amount) : null,
+      newSymbol: input.newSymbol ? input.newSymbol.trim().toUpperCase() : null,
+      source: input.source ?? "manual"
+    }
+  });
+}
+
+/**
+ * Applies an action to every portfolio that holds the symbol and has no ledger entry for it yet.
+ * Each portfolio is adjusted in its own transaction; the unique (portfolio, action) entry makes
+ * the adjustment happen at most once. Actions whose ex-date is still ahead are left pending.
+ */
+export async function applyCorporateAction(action: CorporateAction, now = new Date()) {
+  const entries: CorporateActionEntry[] = [];
+  const failures: CorporateActionFailure[] = [];
+  if (action.exDate.getTime() > now.getTime()) {
+    return { entries, failures };
+  }
+
+  const positions = await prisma.position.findMany({
+    where: { symbol: action.symbol, portfolio: { corporateActions: { none: { actionId: action.id } } } },
+    include: { portfolio: true }
+  });
+  for (const position of positions) {
+    try {
+      // Dividends and delistings move cash, at an FX rate looked up before the transaction opens.
+      const booking: SymbolSettlement | null =
+        action.type === "dividend" || action.type === "delisting"
+          ? { currency: position.currency, settlement: await resolveSettlement(position.portfolio, position.currency) }
+          : null;
+      const entry = await prisma.$transaction((tx) => applyToPortfolio(tx, action, position.portfolioId, booking, now));
+      if (entry) {
+        entries.push(entry);
+      }
+    } catch (error) {
+      console.error(`Corporate action ${action.id} failed for portfolio ${position.portfolioId}`, error);
+      failures.push({
+        portfolioId: position.portfolioId,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+  return { entries, failures };
+}
+
+async function applyToPortfolio(
+  tx: Prisma.TransactionClient,
+  action: CorporateAction,
+  portfolioId: number,
+  booking: SymbolSettlement | null,
+  now: Date
+): Promise<CorporateActionEntry | null> {
+  const position = await tx.position.findFirst({ where: { portfolioId, symbol: action.symbol } });
+  if (!position) {
+    return null;
+  }
+  const portfolio = await tx.portfolio.findUniqueOrThrow({ where: { id: portfolioId } });
+  const entry = {
+    portfolioId,
+    actionId: action.id,
+    symbol: action.symbol,
+    type: action.type,
+    qtyBefore: position.qty,
+    qtyAfter: position.qty,
+    avgPriceBefore: position.avgPrice,
+    avgPriceAfter: position.avgPrice,
+    currency: position.currency,
+    note: describeCorporateAction(action)
+  };
+
+  // Shares bought on or after the ex-date are not entitled; a holding made up only of those is
+  // recorded as untouched so the action is not retried for this portfolio.
+  const lots = await loadOpenLots(tx, portfolioId, action.symbol, position);
+  const qualifyingQty = qualifyingQuantity(lots, action.exDate);
+  if (qualifyingQty.isZero()) {
+    return tx.corporateActionEntry.create({
+      data: { ...entry, note: `${entry.note}; no shares held before the ex-date` }
+    });
+  }
+
+  switch (action.type) {
+    case "split": {
+      const ratio = action.ratio ?? new Prisma.Decimal(1);
+      const qualifying = lots.filter((lot) => lot.openedAt.getTime() < action.exDate.getTime());
+      for (const lot of qualifying) {
+        await tx.taxLot.update({ where: { id: lot.id }, data: splitLot(lot, ratio) });
+      }
+      const adjusted = splitPosition(position.qty, position.avgPrice, qualifyingQty, ratio);
+      await tx.position.update({ where: { id: position.id }, data: adjusted });
+
+      // Resting orders placed before the ex-date are restated in post-split shares and prices.
+      const orders = await tx.order.findMany({
+        where: { portfolioId, symbol: action.symbol, status: { in: ACTIVE_ORDER_STATUSES }, createdAt: { lt: action.exDate } }
+      });
+      for (const order of orders) {
+        await tx.order.update({ where: { id: order.id }, data: splitOrder(order, ratio) });
+      }
+      return tx.corporateActionEntry.create({
+        data: { ...entry, qtyAfter: adjusted.qty, avgPriceAfter: adjusted.avgPrice }
+      });
+    }
+
+    case "dividend": {
+      if (!booking) {
+        throw new Error(`Dividend of ${action.symbol} needs the position's settlement`);
+      }
+      const amounts = computeDividend(qualifyingQty, action.amount ?? new Prisma.Decimal(0), portfolio.withholdingTaxRate);
+      const { settlement } = booking;
+      await creditCash(tx, portfolioId, settlement.currency, amounts.net.mul(settlement.rate), {
+        type: "dividend",
+        note: entry.note,
+        fxRate: settlement.baseRate / settlement.rate
+      });
+      return tx.corporateActionEntry.create({
+        data: {
+          ...entry,
+          cashAmount: amounts.net,
+          withholdingTax: amounts.withholding,
+          fxRate: new Prisma.Decimal(settlement.baseRate)
+        }
+      });
+    }
+
+    case "symbol_change": {
+      const newSymbol = action.newSymbol;
+      if (!newSymbol) {
+        throw new Error(`Symbol change of ${action.symbol} has no new symbol`);
+      }
+      const clash = await tx.position.findFirst({ where: { portfolioId, symbol: newSymbol } });
+      if (clash) {
+        throw new Error(`Portfolio ${portfolioId} already holds ${newSymbol}`);
+      }
+      await tx.position.update({ where: { id: position.id }, data: { symbol: newSymbol } });
+      await tx.taxLot.updateMany({
+        where: { portfolioId, symbol: action.symbol, closedAt: null },
+        data: { symbol: newSymbol }
+      });
+      await tx.order.updateMany({
+        where: { portfolioId, symbol: action.symbol, status: { in: ACTIVE_ORDER_STATUSES } },
+        data: { symbol: newSymbol }
+      });
+      return tx.corporateActionEntry.create({ data: entry });
+    }
+
+    case "delisting": {
+      if (!booking) {
+        throw new Error(`Delisting of ${action.symbol} needs the position's settlement`);
+      }
+      await tx.order.updateMany({
+        where: { portfolioId, symbol: action.symbol, status: { in: ACTIVE_ORDER_STATUSES } },
+        data: { status: "cancelled", statusReason: `Cancelled by delisting of ${action.symbol}`, closedAt: now }
+      });
+      const price = action.amount ?? new Prisma.Decimal(0);
+      const trade = await bookTrade(
+        tx,
+        portfolioId,
+        {
+          symbol: action.symbol,
+          side: position.qty.isNegative() ? "BUY" : "SELL",
+          qty: position.qty.abs().toNumber(),
+          price: price.toNumber()
+        },
+        booking,
+        { waiveCosts: true }
+      );
+      return tx.corporateActionEntry.create({
+        data: {
+          ...entry,
+          tradeId: trade.id,
+          qtyAfter: new Prisma.Decimal(0),
+          avgPriceAfter: new Prisma.Decimal(0),
+          cashAmount: position.qty.mul(price),
+          fxRate: trade.fxRate
+        }
+      });
+    }
+
+    default:
+      throw new Error(`Unsupported corporate action type ${action.type}`);
+  }
+}
+
+/** Applies every recorded action for `symbols` whose ex-date has passed, oldest first. */
+export async function applyPendingCorporateActions(symbols: string[], now = new Date()) {
+  const actions = await prisma.corporateAction.findMany({
+    where: { symbol: { in: symbols }, exDate: { lte: now } },
+    orderBy: [{ exDate: "asc" }, { id: "asc" }]
+  });
+
+  const entries: CorporateActionEntry[] = [];
+  const failures: CorporateActionFailure[] = [];
+  for (const action of actions) {
+    const result = await applyCorporateAction(action, now);
+    entries.push(...result.entries);
+    failures.push(...result.failures);
+  }
+  return { entries, failures };
+}
+
+/**
+ * Pulls split and dividend events for the held symbols (or `symbols`) from Yahoo, records the
+ * new ones and applies everything pending. Events are fetched from the oldest open lot of a
+ * symbol, or a year back when its lots are unknown.
+ */
+export async function syncCorporateActions(symbols?: string[], now = new Date()) {
+  const targets =
+    symbols ??
+    Array.from(new Set((await prisma.position.findMany({ select: { symbol: true } })).map((position) => position.symbol)));
+
+  const recorded: CorporateAction[] = [];
+  for (const symbol of targets) {
+    try {
+      const oldestLot = await prisma.taxLot.findFirst({
+        where: { symbol, closedAt: null },
+        orderBy: { openedAt: "asc" }
+      });
+      const since = oldestLot?.openedAt ?? new Date(now.getTime() - DEFAULT_LOOKBACK_MS);
+      const events = await getCorporateEvents(symbol, since);
+      for (const input of corporateActionsFromEvents(symbol, events)) {
+        recorded.push(await recordCorporateAction(input));
+      }
+    } catch (error) {
+      console.error(`Corporate action sync failed for ${symbol}`, error);
+    }
+  }
+
+  const applied = await applyPendingCorporateActions(targets, now);
+  return { recorded, ...applied };
+}
+
+export function createCorporateActionJob(): BackgroundJob {
+  const interval = Number(process.env.CORPORATE_ACTIONS_INTERVAL_MS);
+  return {
+    name: "corporate-actions",
+    intervalMs: Number.isFinite(interval) && interval > 0 ? interval : DEFAULT_CORPORATE_ACTION_INTERVAL_MS,
+    run: async () => {
+      await syncCorporateActions();
+    }
+  };
+}
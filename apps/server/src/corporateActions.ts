@@ -0,0 +1,193 @@
+import { Prisma } from "@paper-trading/db";
+import type { CorporateAction, CorporateActionEntry, Order } from "@paper-trading/db";
+import type { CorporateEvents } from "./types";
+
+export type CorporateActionType = "split" | "dividend" | "symbol_change" | "delisting";
+
+export const CORPORATE_ACTION_TYPES: CorporateActionType[] = ["split", "dividend", "symbol_change", "delisting"];
+
+export interface CorporateActionInput {
+  symbol: string;
+  type: CorporateActionType;
+  exDate: Date;
+  /** New shares per old share for a split (4 for a 4:1 split, 0.1 for a 1:10 reverse split). */
+  ratio?: number;
+  /** Dividend per share, or the cash paid per share when a listing is delisted. In the quote currency. */
+  amount?: number;
+  newSymbol?: string;
+  source?: "manual" | "yahoo";
+}
+
+export interface LotShares {
+  qty: Prisma.Decimal;
+  openedAt: Date;
+}
+
+export interface DividendAmounts {
+  gross: Prisma.Decimal;
+  withholding: Prisma.Decimal;
+  net: Prisma.Decimal;
+}
+
+export function validateCorporateActionInput(input: CorporateActionInput) {
+  if (!input.symbol.trim()) {
+    throw new Error("Corporate actions need a symbol");
+  }
+  if (Number.isNaN(input.exDate.getTime())) {
+    throw new Error(`Corporate action for ${input.symbol} has an invalid ex-date`);
+  }
+  switch (input.type) {
+    case "split":
+      if (input.ratio === undefined || !(input.ratio > 0) || input.ratio === 1) {
+        throw new Error(`Split of ${input.symbol} needs a positive ratio other than 1`);
+      }
+      return;
+    case "dividend":
+      if (input.amount === undefined || !(input.amount > 0)) {
+        throw new Error(`Dividend on ${input.symbol} needs a positive amount per share`);
+      }
+      return;
+    case "symbol_change":
+      if (!input.newSymbol?.trim() || input.newSymbol.trim().toUpperCase() === input.symbol.toUpperCase()) {
+        throw new Error(`Symbol change of ${input.symbol} needs a different new symbol`);
+      }
+      return;
+    case "delisting":
+      if (input.amount !== undefined && input.amount < 0) {
+        throw new Error(`Delisting of ${input.symbol} cannot pay a negative amount`);
+      }
+      return;
+  }
+}
+
+/** Signed quantity of the lots opened before the ex-date; only those shares take part in a split or dividend. */
+export function qualifyingQuantity(lots: LotShares[], exDate: Date) {
+  return lots
+    .filter((lot) => lot.openedAt.getTime() < exDate.getTime())
+    .reduce((sum, lot) => sum.add(lot.qty), new Prisma.Decimal(0));
+}
+
+/**
+ * Applies a split to the qualifying part of a position. The total cost basis is unchanged, so the
+ * average price moves inversely to the added shares.
+ */
+export function splitPosition(
+  qty: Prisma.Decimal,
+  avgPrice: Prisma.Decimal,
+  qualifyingQty: Prisma.Decimal,
+  ratio: Prisma.Decimal
+) {
+  const newQty = qty.add(qualifyingQty.mul(ratio.sub(1)));
+  if (newQty.isZero()) {
+    return { qty: newQty, avgPrice };
+  }
+  return { qty: newQty, avgPrice: avgPrice.mul(qty).div(newQty) };
+}
+
+export function splitLot(lot: { qty: Prisma.Decimal; originalQty: Prisma.Decimal; costPrice: Prisma.Decimal }, ratio: Prisma.Decimal) {
+  return {
+    qty: lot.qty.mul(ratio),
+    originalQty: lot.originalQty.mul(ratio),
+    costPrice: lot.costPrice.div(ratio)
+  };
+}
+
+/**
+ * Restates a resting order in post-split terms: quantities scale with the ratio, prices and
+ * trailing distances scale inversely. Trailing percentages are unaffected.
+ */
+export function splitOrder(
+  order: Pick<Order, "qty" | "filledQty" | "limitPrice" | "stopPrice" | "trailAmount" | "trailAnchor" | "avgFillPrice">,
+  ratio: Prisma.Decimal
+) {
+  const scalePrice = (value: Prisma.Decimal | null) => (value ? value.div(ratio) : null);
+  return {
+    qty: order.qty.mul(ratio),
+    filledQty: order.filledQty.mul(ratio),
+    limitPrice: scalePrice(order.limitPrice),
+    stopPrice: scalePrice(order.stopPrice),
+    trailAmount: scalePrice(order.trailAmount),
+    trailAnchor: scalePrice(order.trailAnchor),
+    avgFillPrice: scalePrice(order.avgFillPrice)
+  };
+}
+
+/**
+ * Dividend due on `qualifyingQty` shares. Long holders receive it net of withholding tax; a short
+ * position owes the full dividend to the lender, so its amounts are negative and untaxed.
+ */
+export function computeDividend(qualifyingQty: Prisma.Decimal, amountPerShare: Prisma.Decimal, withholdingRate: Prisma.Decimal): DividendAmounts {
+  const gross = qualifyingQty.mul(amountPerShare);
+  const withholding = gross.isPositive() ? gross.mul(withholdingRate) : new Prisma.Decimal(0);
+  return { gross, withholding, net: gross.sub(withholding) };
+}
+
+/** Turns chart events into corporate action inputs; split ratios are numerator over denominator. */
+export function corporateActionsFromEvents(symbol: string, events: CorporateEvents): CorporateActionInput[] {
+  return [
+    ...events.splits.map((split) => ({
+      symbol,
+      type: "split" as const,
+      exDate: split.date,
+      ratio: split.numerator / split.denominator,
+      source: "yahoo" as const
+    })),
+    ...events.dividends.map((dividend) => ({
+      symbol,
+      type: "dividend" as const,
+      exDate: dividend.date,
+      amount: dividend.amount,
+      source: "yahoo" as const
+    }))
+  ];
+}
+
+export function describeCorporateAction(action: Pick<CorporateAction, "symbol" | "type" | "ratio" | "amount" | "newSymbol">) {
+  switch (action.type) {
+    case "split":
+      return `${action.symbol} split ${action.ratio?.toString() ?? "?"} for 1`;
+    case "dividend":
+      return `${action.symbol} dividend of ${action.amount?.toString() ?? "?"} per share`;
+    case "symbol_change":
+      return `${action.symbol} renamed to ${action.newSymbol ?? "?"}`;
+    case "delisting":
+      return `${action.symbol} delisted at ${action.amount?.toString() ?? "0"} per share`;
+    default:
+      return `${action.symbol} ${action.type}`;
+  }
+}
+
+export function mapCorporateAction(action: CorporateAction) {
+  return {
+    id: action.id,
+    symbol: action.symbol,
+    type: action.type as CorporateActionType,
+    exDate: action.exDate.toISOString(),
+    ratio: action.ratio ? action.ratio.toNumber() : null,
+    amount: action.amount ? action.amount.toNumber() : null,
+    newSymbol: action.newSymbol,
+    source: action.source,
+    description: describeCorporateAction(action),
+    createdAt: action.createdAt.toISOString()
+  };
+}
+
+export function mapCorporateActionEntry(entry: CorporateActionEntry) {
+  return {
+    id: entry.id,
+    actionId: entry.actionId,
+    tradeId: entry.tradeId,
+    symbol: entry.symbol,
+    type: entry.type as CorporateActionType,
+    qtyBefore: entry.qtyBefore.toNumber(),
+    qtyAfter: entry.qtyAfter.toNumber(),
+    avgPriceBefore: entry.avgPriceBefore.toNumber(),
+    avgPriceAfter: entry.avgPriceAfter.toNumber(),
+    cashAmount: entry.cashAmount.toNumber(),
+    withholdingTax: entry.withholdingTax.toNumber(),
+    currency: entry.currency,
+    fxRate: entry.fxRate.toNumber(),
+    note: entry.note,
+    createdAt: entry.createdAt.toISOString()
+  };
+}
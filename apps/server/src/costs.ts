@@ -0,0 +1,176 @@
+import type { Portfolio } from "@paper-trading/db";
+import { TradeInput } from "./portfolio";
+
+export type SlippageModel = "none" | "fixed" | "spread" | "volume";
+
+export const SLIPPAGE_MODELS: SlippageModel[] = ["none", "fixed", "spread", "volume"];
+
+export interface CostModel {
+  /** Flat commission charged on every fill. */
+  commissionFixed: number;
+  /** Commission in basis points of notional. */
+  commissionBps: number;
+  commissionPerShare: number;
+  commissionMin: number | null;
+  commissionMax: number | null;
+  slippageModel: SlippageModel;
+  /** Slippage in basis points for the `fixed` model, and the floor for `volume`. */
+  slippageBps: number;
+  /** Extra slippage per unit of participation (qty / average volume) for the `volume` model. */
+  slippageImpact: number;
+}
+
+export interface MarketConditions {
+  bid?: number | null;
+  ask?: number | null;
+  averageVolume?: number | null;
+}
+
+export interface TradeCosts {
+  fee: number;
+  slippage: number;
+}
+
+export const ZERO_COST_MODEL: CostModel = {
+  commissionFixed: 0,
+  commissionBps: 0,
+  commissionPerShare: 0,
+  commissionMin: null,
+  commissionMax: null,
+  slippageModel: "none",
+  slippageBps: 0,
+  slippageImpact: 0
+};
+
+export function costModelFromPortfolio(portfolio: Portfolio): CostModel {
+  return {
+    commissionFixed: portfolio.commissionFixed.toNumber(),
+    commissionBps: portfolio.commissionBps.toNumber(),
+    commissionPerShare: portfolio.commissionPerShare.toNumber(),
+    commissionMin: portfolio.commissionMin ? portfolio.commissionMin.toNumber() : null,
+    commissionMax: portfolio.commissionMax ? portfolio.commissionMax.toNumber() : null,
+    slippageModel: (SLIPPAGE_MODELS as string[]).includes(portfolio.slippageModel)
+      ? (portfolio.slippageModel as SlippageModel)
+      : "none",
+    slippageBps: portfolio.slippageBps.toNumber(),
+    slippageImpact: portfolio.slippageImpact.toNumber()
+  };
+}
+
+/**
+ * Restates the model's flat amounts, which are set in the base currency, in the currency of an
+ * instrument worth `fxRate` base units per unit. Basis-point charges need no conversion.
+ */
+export function costModelInCurrency(model: CostModel, fxRate: number): CostModel {
+  if (fxRate === 1 || !(fxRate > 0)) {
+    return model;
+  }
+  const convert = (amount: number) => amount / fxRate;
+  return {
+    ...model,
+    commissionFixed: convert(model.commissionFixed),
+    commissionPerShare: convert(model.commissionPerShare),
+    commissionMin: model.commissionMin === null ? null : convert(model.commissionMin),
+    commissionMax: model.commissionMax === null ? null : convert(model.commissionMax)
+  };
+}
+
+export function computeCommission(model: CostModel, qty: number, price: number) {
+  let fee = model.commissionFixed + (qty * price * model.commissionBps) / 10_000 + qty * model.commissionPerShare;
+  if (model.commissionMin !== null) {
+    fee = Math.max(fee, model.commissionMin);
+  }
+  if (model.commissionMax !== null) {
+    fee = Math.min(fee, model.commissionMax);
+  }
+  return roundCost(fee);
+}
+
+/**
+ * Returns the slippage cost of a fill in price currency. `spread` charges half the quoted
+ * bid/ask spread per share; `volume` adds `slippageImpact` times the order's share of the
+ * average volume on top of `slippageBps`. Both fall back to `slippageBps` when the quote
+ * lacks the data they need.
+ */
+export function computeSlippage(model: CostModel, qty: number, price: number, market: MarketConditions = {}) {
+  const notional = qty * price;
+  const fixed = (notional * model.slippageBps) / 10_000;
+
+  switch (model.slippageModel) {
+    case "fixed":
+      return roundCost(fixed);
+    case "spread": {
+      const { bid, ask } = market;
+      if (isPositive(bid) && isPositive(ask) && ask >= bid) {
+        return roundCost(((ask - bid) / 2) * qty);
+      }
+      return roundCost(fixed);
+    }
+    case "volume": {
+      const { averageVolume } = market;
+      if (isPositive(averageVolume)) {
+        return roundCost(fixed + notional * model.slippageImpact * (qty / averageVolume));
+      }
+      return roundCost(fixed);
+    }
+    case "none":
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Square-root market impact of a fill in price currency: `impactBps` of notional at 100% of
+ * the average daily volume, scaled by the square root of the fill's participation.
+ */
+export function computeMarketImpact(impactBps: number, qty: number, price: number, averageVolume: number | null | undefined) {
+  if (!(impactBps > 0) || !isPositive(averageVolume)) {
+    return 0;
+  }
+  return roundCost(((qty * price * impactBps) / 10_000) * Math.sqrt(qty / averageVolume));
+}
+
+export function computeTradeCosts(model: CostModel, trade: TradeInput, market: MarketConditions = {}): TradeCosts {
+  return {
+    fee: computeCommission(model, trade.qty, trade.price),
+    slippage: computeSlippage(model, trade.qty, trade.price, market)
+  };
+}
+
+export function describeCostModel(model: CostModel, currency: string) {
+  const commission: string[] = [];
+  if (model.commissionFixed > 0) {
+    commission.push(`${currency} ${model.commissionFixed} per trade`);
+  }
+  if (model.commissionBps > 0) {
+    commission.push(`${model.commissionBps} bps of notional`);
+  }
+  if (model.commissionPerShare > 0) {
+    commission.push(`${currency} ${model.commissionPerShare} per share`);
+  }
+  if (model.commissionMin !== null) {
+    commission.push(`min ${currency} ${model.commissionMin}`);
+  }
+  if (model.commissionMax !== null) {
+    commission.push(`max ${currency} ${model.commissionMax}`);
+  }
+
+  const slippage =
+    model.slippageModel === "none"
+      ? "no slippage"
+      : model.slippageModel === "spread"
+        ? "half the bid/ask spread"
+        : model.slippageModel === "volume"
+          ? `${model.slippageBps} bps plus market impact proportional to the share of average volume`
+          : `${model.slippageBps} bps slippage`;
+
+  return `Commission: ${commission.length ? commission.join(", ") : "none"}; slippage: ${slippage}.`;
+}
+
+function roundCost(value: number) {
+  return Math.round(value * 10_000) / 10_000;
+}
+
+function isPositive(value: number | null | undefined): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
@@ -0,0 +1,84 @@
+import { Prisma } from "@paper-trading/db";
+import type { Portfolio } from "@paper-trading/db";
+import type { HistoryCandle } from "./types";
+import type { QuantityRules } from "./quantityRules";
+import { getHistory } from "./yahoo";
+
+export interface FillSimulation {
+  /** Share of average daily volume one order may take per trading day (0.1 = 10%). */
+  maxParticipation: number;
+  /** Impact in basis points of notional at 100% participation, scaled by √(qty / ADV). */
+  marketImpactBps: number;
+}
+
+/** Daily candles averaged for the volume an order is measured against. */
+export const VOLUME_LOOKBACK_DAYS = 20;
+
+/** Returns null when the portfolio fills orders in full at one price. */
+export function fillSimulationFromPortfolio(portfolio: Portfolio): FillSimulation | null {
+  if (!portfolio.fillSimulation) {
+    return null;
+  }
+  return {
+    maxParticipation: portfolio.maxParticipation.toNumber(),
+    marketImpactBps: portfolio.marketImpactBps.toNumber()
+  };
+}
+
+/** Mean volume of the last `lookback` candles that report one, or null without any. */
+export function averageDailyVolume(candles: HistoryCandle[], lookback = VOLUME_LOOKBACK_DAYS) {
+  const volumes = candles
+    .map((candle) => candle.volume)
+    .filter((volume): volume is number => typeof volume === "number" && volume > 0)
+    .slice(-lookback);
+  if (volumes.length === 0) {
+    return null;
+  }
+  return volumes.reduce((sum, volume) => sum + volume, 0) / volumes.length;
+}
+
+/**
+ * Average daily volume per symbol from recent daily candles. History goes through the shared
+ * cache, so the matcher does not refetch it every cycle; symbols that fail to load map to null.
+ */
+export async function loadAverageDailyVolumes(symbols: string[]) {
+  const volumes = new Map<string, number | null>();
+  await Promise.all(
+    Array.from(new Set(symbols)).map(async (symbol) => {
+      try {
+        volumes.set(symbol, averageDailyVolume(await getHistory(symbol, "3mo", "1d")));
+      } catch (error) {
+        console.warn(`Fill simulator could not load volume for ${symbol}`, error);
+        volumes.set(symbol, null);
+      }
+    })
+  );
+  return volumes;
+}
+
+/**
+ * How much of `remaining` one fill may take: whatever is left of the order's participation
+ * budget for the trading day, rounded down to the instrument's quantity step. Orders fill in
+ * full when the volume is unknown or the remainder fits the budget.
+ */
+export function participationCap(
+  simulation: FillSimulation,
+  remaining: Prisma.Decimal,
+  filledToday: Prisma.Decimal,
+  averageVolume: number | null | undefined,
+  rules: QuantityRules
+) {
+  if (typeof averageVolume !== "number" || !(averageVolume > 0)) {
+    return remaining;
+  }
+  const budget = new Prisma.Decimal(simulation.maxParticipation).mul(averageVolume).sub(filledToday);
+  if (budget.gte(remaining)) {
+    return remaining;
+  }
+  if (budget.lte(0)) {
+    return new Prisma.Decimal(0);
+  }
+  return rules.allowFractional
+    ? budget.toDecimalPlaces(rules.qtyPrecision, Prisma.Decimal.ROUND_DOWN)
+    : budget.divToInt(rules.lotSize).mul(rules.lotSize);
+}
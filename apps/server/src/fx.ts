@@ -0,0 +1,185 @@
+import type { Portfolio } from "@paper-trading/db";
+import { closeAsOf, historyRangeFor } from "./pointInTime";
+import { getHistory, getQuote } from "./yahoo";
+
+/**
+ * Yahoo quotes some listings in a minor unit (London in pence, Johannesburg in cents, Tel Aviv
+ * in agorot). Their prices are kept as quoted; conversions scale them into the major currency.
+ */
+const MINOR_UNITS: Record<string, { currency: string; factor: number }> = {
+  GBp: { currency: "GBP", factor: 0.01 },
+  GBX: { currency: "GBP", factor: 0.01 },
+  ZAc: { currency: "ZAR", factor: 0.01 },
+  ILA: { currency: "ILS", factor: 0.01 }
+};
+
+export interface Settlement {
+  /** Currency whose cash balance a fill moves. */
+  currency: string;
+  /** Settlement currency units per unit of the instrument's currency. */
+  rate: number;
+  /** Base currency units per unit of the instrument's currency, stored on the trade. */
+  baseRate: number;
+}
+
+/** Maps a quote currency to its ISO currency and the factor from quoted units to that currency. */
+export function normalizeCurrency(currency: string | null | undefined) {
+  const trimmed = currency?.trim();
+  if (!trimmed) {
+    return null;
+  }
+  return MINOR_UNITS[trimmed] ?? { currency: trimmed.toUpperCase(), factor: 1 };
+}
+
+export function fxPairSymbol(from: string, to: string) {
+  return `${from}${to}=X`;
+}
+
+async function quotePair(from: string, to: string): Promise<number | null> {
+  const quote = await getQuote(fxPairSymbol(from, to)).catch(() => null);
+  const rate = quote?.price ?? quote?.previousClose ?? null;
+  return rate !== null && rate > 0 ? rate : null;
+}
+
+/**
+ * Units of `to` per unit of `from`, e.g. `getFxRate("EUR", "USD")` reads `EURUSD=X`. Rates come
+ * through `getQuote` and share its cache; when a pair is not listed the inverse pair is tried.
+ */
+export async function getFxRate(from: string, to: string): Promise<number> {
+  const source = normalizeCurrency(from);
+  const target = normalizeCurrency(to);
+  if (!source || !target) {
+    throw new Error(`Unknown currency in ${from}/${to}`);
+  }
+
+  const factor = source.factor / target.factor;
+  if (source.currency === target.currency) {
+    return factor;
+  }
+
+  const direct = await quotePair(source.currency, target.currency);
+  if (direct !== null) {
+    return direct * factor;
+  }
+  const inverse = await quotePair(target.currency, source.currency);
+  if (inverse !== null) {
+    return factor / inverse;
+  }
+  throw new Error(`No FX rate available for ${source.currency}/${target.currency}`);
+}
+
+async function closePair(from: string, to: string, at: Date): Promise<number | null> {
+  const candles = await getHistory(fxPairSymbol(from, to), historyRangeFor(at), "1d").catch(() => null);
+  const rate = candles ? closeAsOf(candles, at)?.close ?? null : null;
+  return rate !== null && rate > 0 ? rate : null;
+}
+
+/**
+ * Units of `to` per unit of `from` at the daily close on or before `at`, read from the pair's
+ * chart like `getFxRate` reads its quote. Falls back to the current rate when the pair has no
+ * history that far back.
+ */
+export async function getHistoricalFxRate(from: string, to: string, at: Date): Promise<number> {
+  const source = normalizeCurrency(from);
+  const target = normalizeCurrency(to);
+  if (!source || !target) {
+    throw new Error(`Unknown currency in ${from}/${to}`);
+  }
+
+  const factor = source.factor / target.factor;
+  if (source.currency === target.currency) {
+    return factor;
+  }
+
+  const direct = await closePair(source.currency, target.currency, at);
+  if (direct !== null) {
+    return direct * factor;
+  }
+  const inverse = await closePair(target.currency, source.currency, at);
+  if (inverse !== null) {
+    return factor / inverse;
+  }
+  return getFxRate(from, to);
+}
+
+/**
+ * Daily rates from `from` to `to` since `since`, oldest first, as `{ date, value }` points. Uses the
+ * direct pair's chart or the inverse pair's, and a single point at today's rate when neither has
+ * history.
+ */
+export async function getFxHistory(from: string, to: string, since: Date) {
+  const source = normalizeCurrency(from);
+  const target = normalizeCurrency(to);
+  if (!source || !target) {
+    throw new Error(`Unknown currency in ${from}/${to}`);
+  }
+
+  const factor = source.factor / target.factor;
+  if (source.currency === target.currency) {
+    return [{ date: new Date(0), value: factor }];
+  }
+
+  const series = async (pair: string, toRate: (close: number) => number) => {
+    const candles = await getHistory(pair, historyRangeFor(since), "1d").catch(() => []);
+    return candles
+      .filter((candle) => candle.close !== null && candle.close > 0)
+      .map((candle) => ({ date: new Date(candle.date), value: toRate(candle.close!) }))
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  };
+  const direct = await series(fxPairSymbol(source.currency, target.currency), (close) => close * factor);
+  if (direct.length > 0) {
+    return direct;
+  }
+  const inverse = await series(fxPairSymbol(target.currency, source.currency), (close) => factor / close);
+  if (inverse.length > 0) {
+    return inverse;
+  }
+  return [{ date: new Date(0), value: await getFxRate(from, to) }];
+}
+
+/**
+ * Decides which cash balance a fill in `instrumentCurrency` settles against. With automatic
+ * conversion every fill settles in the base currency at the current rate; without it the fill
+ * moves the balance of the instrument's own currency, which has to be funded by an FX trade.
+ */
+export async function resolveSettlement(
+  portfolio: Pick<Portfolio, "baseCurrency" | "fxAutoConvert">,
+  instrumentCurrency: string
+): Promise<Settlement> {
+  return settlementAt(portfolio, instrumentCurrency, await getFxRate(instrumentCurrency, portfolio.baseCurrency));
+}
+
+/** `resolveSettlement` for a rate into the base currency that is already known. */
+export function settlementAt(
+  portfolio: Pick<Portfolio, "baseCurrency" | "fxAutoConvert">,
+  instrumentCurrency: string,
+  baseRate: number
+): Settlement {
+  if (portfolio.fxAutoConvert) {
+    return { currency: portfolio.baseCurrency, rate: baseRate, baseRate };
+  }
+  const normalized = normalizeCurrency(instrumentCurrency)!;
+  return { currency: normalized.currency, rate: normalized.factor, baseRate };
+}
+
+/**
+ * Currency a symbol trades in according to its quote. Throws when the symbol cannot be quoted
+ * or its quote names no currency, so the caller rejects the order rather than booking it in
+ * the wrong currency.
+ */
+export async function quoteCurrency(symbol: string) {
+  const quote = await getQuote(symbol).catch((error) => {
+    throw new Error(
+      `Unable to determine the currency of ${symbol}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  });
+  const currency = quote?.currency?.trim();
+  if (!currency) {
+    throw new Error(`Unable to determine the currency of ${symbol}: its quote names no currency`);
+  }
+  return currency;
+}
+
+export function describeCashBalances(balances: Array<{ currency: string; amount: number }>) {
+  return balances.map((balance) => `${balance.currency} ${balance.amount.toFixed(2)}`).join(", ");
+}
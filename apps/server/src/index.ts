@@ -1,6 +1,13 @@
 import dotenv from "dotenv";
 import { prisma } from "@paper-trading/db";
 import { createServer } from "./server";
+import { startBackgroundJobs, stopBackgroundJobs } from "./backgroundJobs";
+import { createLlmSchedulerJob } from "./scheduler";
+import { createOrderMatcherJob } from "./orderService";
+import { createMarginJob } from "./marginService";
+import { createCorporateActionJob } from "./corporateActionService";
+import { createValuationJob } from "./valuationService";
+import { failInterruptedBacktests } from "./backtestService";
 
 dotenv.config();
 
@@ -9,9 +16,17 @@ const port = Number(process.env.PORT ?? 4000);
 async function bootstrap() {
   try {
     await prisma.$connect();
+    await failInterruptedBacktests();
     const app = createServer();
     app.listen(port, () => {
       console.log(`API server listening on http://localhost:${port}`);
+      startBackgroundJobs([
+        createLlmSchedulerJob(),
+        createOrderMatcherJob(),
+        createMarginJob(),
+        createCorporateActionJob(),
+        createValuationJob()
+      ]);
     });
   } catch (error) {
     console.error("Failed to start server", error);
@@ -22,11 +37,13 @@ async function bootstrap() {
 void bootstrap();
 
 process.on("SIGTERM", async () => {
+  stopBackgroundJobs();
   await prisma.$disconnect();
   process.exit(0);
 });
 
 process.on("SIGINT", async () => {
+  stopBackgroundJobs();
   await prisma.$disconnect();
   process.exit(0);
 });
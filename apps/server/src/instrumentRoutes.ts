@@ -0,0 +1,120 @@
+import type { Application } from "express";
+import { prisma, Prisma } from "@paper-trading/db";
+import { z } from "zod";
+import { describeQuantityRules, exchangeQuantityRules, resolveQuantityRules } from "./quantityRules";
+import { exchangeForSymbol, marketStatus, MarketStatus, upcomingClosures } from "./marketCalendar";
+import { EXCHANGE_SESSIONS } from "./marketCalendarData";
+
+const positiveOrNull = z.number().positive().nullable().optional();
+
+/** Omitted fields are left alone; `null` clears an override so the exchange default applies again. */
+const quantityRulesUpdateSchema = z.object({
+  allowFractional: z.boolean().nullable().optional(),
+  qtyPrecision: z.number().int().min(0).max(10).nullable().optional(),
+  minQty: positiveOrNull,
+  lotSize: z.number().int().positive().nullable().optional(),
+  minNotional: z.number().min(0).nullable().optional()
+});
+
+function normalizeSymbol(value: string) {
+  const symbol = value.trim().toUpperCase();
+  if (!symbol) {
+    throw new Error("Symbol is required");
+  }
+  return symbol;
+}
+
+async function describeInstrumentRules(symbol: string) {
+  const override = await prisma.instrumentRule.findUnique({ where: { symbol } });
+  const rules = resolveQuantityRules(symbol, override);
+  return {
+    symbol,
+    rules,
+    description: describeQuantityRules(rules),
+    exchangeDefaults: exchangeQuantityRules(symbol),
+    override: override
+      ? {
+          allowFractional: override.allowFractional,
+          qtyPrecision: override.qtyPrecision,
+          minQty: override.minQty?.toNumber() ?? null,
+          lotSize: override.lotSize?.toNumber() ?? null,
+          minNotional: override.minNotional?.toNumber() ?? null,
+          updatedAt: override.updatedAt.toISOString()
+        }
+      : null
+  };
+}
+
+function mapMarketStatus(status: MarketStatus) {
+  return {
+    ...status,
+    nextOpen: status.nextOpen ? status.nextOpen.toISOString() : null,
+    nextClose: status.nextClose ? status.nextClose.toISOString() : null
+  };
+}
+
+export function registerInstrumentRoutes(app: Application) {
+  app.get("/api/exchanges", (_req, res) => {
+    const now = new Date();
+    res.json({
+      exchanges: Object.values(EXCHANGE_SESSIONS).map((exchange) => ({
+        ...exchange,
+        status: mapMarketStatus(marketStatus(exchange, now))
+      }))
+    });
+  });
+
+  app.get("/api/instruments/:symbol/market-hours", (req, res) => {
+    try {
+      const symbol = normalizeSymbol(req.params.symbol);
+      const exchange = exchangeForSymbol(symbol);
+      const now = new Date();
+      res.json({
+        symbol,
+        // Symbols without a venue calendar (crypto, FX, unknown venues) trade around the clock.
+        alwaysOpen: exchange === null,
+        exchange,
+        status: exchange ? mapMarketStatus(marketStatus(exchange, now)) : null,
+        upcomingClosures: exchange ? upcomingClosures(exchange, now) : []
+      });
+    } catch (error) {
+      console.error("Get market hours failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to fetch market hours" });
+    }
+  });
+
+  app.get("/api/instruments/:symbol/quantity-rules", async (req, res) => {
+    try {
+      res.json(await describeInstrumentRules(normalizeSymbol(req.params.symbol)));
+    } catch (error) {
+      console.error("Get quantity rules failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to fetch quantity rules" });
+    }
+  });
+
+  app.put("/api/instruments/:symbol/quantity-rules", async (req, res) => {
+    try {
+      const symbol = normalizeSymbol(req.params.symbol);
+      const body = quantityRulesUpdateSchema.parse(req.body ?? {});
+      const toDecimal = (value: number | null | undefined) =>
+        value === undefined ? undefined : value === null ? null : new Prisma.Decimal(value);
+      const data = {
+        allowFractional: body.allowFractional,
+        qtyPrecision: body.qtyPrecision,
+        minQty: toDecimal(body.minQty),
+        lotSize: toDecimal(body.lotSize),
+        minNotional: toDecimal(body.minNotional)
+      };
+
+      await prisma.instrumentRule.upsert({
+        where: { symbol },
+        update: data,
+        create: { symbol, ...data }
+      });
+      res.json(await describeInstrumentRules(symbol));
+    } catch (error) {
+      console.error("Update quantity rules failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid quantity rules" });
+    }
+  });
+}
@@ -1,5 +1,5 @@
-﻿import type { Application } from "express";
-import { prisma } from "@paper-trading/db";
+﻿import type { Application, Response } from "express";
+import { prisma, Prisma } from "@paper-trading/db";
 import type {
   LlmExecution,
   LlmProvider,
@@ -7,14 +7,25 @@ import type {
   PortfolioPrompt as PrismaPortfolioPrompt
 } from "@paper-trading/db";
 import { z } from "zod";
-import { LlmPlanExecutionError, runLlmPlan } from "./llmService";
+import { LlmPlanExecutionError } from "./llmService";
+import { executeLlmRun, LlmRunOutcome, LlmRunSetupError, replayLlmExecution } from "./llmRunService";
 import { ARBITRAGE_JSON_SCHEMA } from "./llmSchema";
+import type { ToolCallRecord } from "./llmTools";
 import { getPortfolioRecord, parsePortfolioIdStrict } from "./portfolioService";
+import { computeNextRunAt } from "./scheduler";
+import { exchangeForMic } from "./marketCalendar";
+import {
+  hasSingleUniverseSource,
+  mapUniverseSettings,
+  resolveUniverseUpdate,
+  SINGLE_UNIVERSE_SOURCE,
+  universeUpdateFields
+} from "./universe";
 
 export const providerInputSchema = z.object({
   name: z.string().min(1),
   type: z
-    .enum(["openai-compatible", "local", "google-gemini", "anthropic"])
+    .enum(["openai-compatible", "local", "google-gemini", "anthropic", "mock"])
     .default("openai-compatible"),
   apiBase: z.string().min(1),
   apiKey: z.string().optional(),
@@ -26,7 +37,7 @@ export const providerInputSchema = z.object({
 
 export const providerUpdateSchema = z.object({
   name: z.string().min(1).optional(),
-  type: z.enum(["openai-compatible", "local", "google-gemini", "anthropic"]).optional(),
+  type: z.enum(["openai-compatible", "local", "google-gemini", "anthropic", "mock"]).optional(),
   apiBase: z.string().min(1).optional(),
   apiKey: z.union([z.string(), z.null()]).optional(),
   model: z.string().min(1).optional(),
@@ -35,25 +46,32 @@ export const providerUpdateSchema = z.object({
   isDefault: z.boolean().optional()
 });
 
-const promptInputSchema = z.object({
-  name: z.string().min(1),
-  description: z.string().optional(),
-  systemPrompt: z.string().optional(),
-  userTemplate: z.string().optional(),
-  providerId: z.number().int().positive().optional(),
-  isDefault: z.boolean().optional(),
-  isActive: z.boolean().optional()
-});
-
-const promptUpdateSchema = z.object({
-  name: z.string().min(1).optional(),
-  description: z.string().nullable().optional(),
-  systemPrompt: z.string().optional(),
-  userTemplate: z.string().optional(),
-  providerId: z.number().int().positive().nullable().optional(),
-  isDefault: z.boolean().optional(),
-  isActive: z.boolean().optional()
-});
+const promptInputSchema = z
+  .object({
+    name: z.string().min(1),
+    description: z.string().optional(),
+    systemPrompt: z.string().optional(),
+    userTemplate: z.string().optional(),
+    providerId: z.number().int().positive().optional(),
+    isDefault: z.boolean().optional(),
+    isActive: z.boolean().optional(),
+    ...universeUpdateFields
+  })
+  .refine(hasSingleUniverseSource, SINGLE_UNIVERSE_SOURCE);
+
+/** A prompt's universe overrides its portfolio's for runs with the prompt. */
+const promptUpdateSchema = z
+  .object({
+    name: z.string().min(1).optional(),
+    description: z.string().nullable().optional(),
+    systemPrompt: z.string().optional(),
+    userTemplate: z.string().optional(),
+    providerId: z.number().int().positive().nullable().optional(),
+    isDefault: z.boolean().optional(),
+    isActive: z.boolean().optional(),
+    ...universeUpdateFields
+  })
+  .refine(hasSingleUniverseSource, SINGLE_UNIVERSE_SOURCE);
 
 const llmRunSchema = z.object({
   promptId: z.number().int().positive().optional(),
@@ -65,7 +83,13 @@ const llmRunSchema = z.object({
       model: z.string().min(1).optional()
     })
     .optional(),
-  dryRun: z.boolean().optional()
+  dryRun: z.boolean().optional(),
+  agent: z
+    .object({
+      maxSteps: z.number().int().min(1).max(20).optional(),
+      tokenBudget: z.number().int().min(1_000).max(1_000_000).optional()
+    })
+    .optional()
 });
 
 const runScheduleBaseSchema = z.object({
@@ -77,6 +101,12 @@ const runScheduleBaseSchema = z.object({
     .regex(/^(?:[01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:MM 24-hour format"),
   dayOfWeek: z.number().int().min(0).max(6).optional(),
   dayOfMonth: z.number().int().min(1).max(31).optional(),
+  exchange: z
+    .string()
+    .transform((value) => value.trim().toUpperCase())
+    .refine((value) => exchangeForMic(value) !== null, "Unknown exchange MIC")
+    .nullable()
+    .optional(),
   isActive: z.boolean().optional()
 });
 
@@ -100,6 +130,12 @@ const runScheduleInputSchema = runScheduleBaseSchema.superRefine((data, ctx) =>
 
 const runScheduleUpdateSchema = runScheduleBaseSchema.partial();
 
+const runScheduleInclude = {
+  provider: true,
+  prompt: { include: { provider: true } },
+  executions: { orderBy: { createdAt: "desc" }, take: 1 }
+} satisfies Prisma.LlmRunScheduleInclude;
+
 export function registerLlmRoutes(app: Application) {
   app.get("/api/llm/schema", (_req, res) => {
     res.json(ARBITRAGE_JSON_SCHEMA);
@@ -236,6 +272,7 @@ export function registerLlmRoutes(app: Application) {
           return res.status(404).json({ error: "Provider not found" });
         }
       }
+      const universe = await resolveUniverseUpdate(body);
 
       const created = await prisma.$transaction(async (tx) => {
         if (body.isDefault) {
@@ -254,7 +291,8 @@ export function registerLlmRoutes(app: Application) {
             systemPrompt: body.systemPrompt ?? "",
             userTemplate: body.userTemplate ?? "",
             isDefault: body.isDefault ?? false,
-            isActive: body.isActive ?? true
+            isActive: body.isActive ?? true,
+            ...universe
           },
           include: { provider: true }
         });
@@ -288,6 +326,7 @@ export function registerLlmRoutes(app: Application) {
           return res.status(404).json({ error: "Provider not found" });
         }
       }
+      const universe = await resolveUniverseUpdate(body);
 
       const updated = await prisma.$transaction(async (tx) => {
         if (body.isDefault) {
@@ -297,7 +336,7 @@ export function registerLlmRoutes(app: Application) {
           });
         }
 
-        const data: Record<string, unknown> = {};
+        const data: Record<string, unknown> = { ...universe };
         if (body.name !== undefined) data.name = body.name;
         if (body.description !== undefined) data.description = body.description ?? null;
         if (body.systemPrompt !== undefined) data.systemPrompt = body.systemPrompt ?? "";
@@ -349,7 +388,7 @@ export function registerLlmRoutes(app: Application) {
       const schedules = await prisma.llmRunSchedule.findMany({
         where: { portfolioId },
         orderBy: { createdAt: "asc" },
-        include: { provider: true, prompt: { include: { provider: true } } }
+        include: runScheduleInclude
       });
 
       res.json({ schedules: schedules.map((schedule) => mapRunSchedule(schedule)) });
@@ -379,18 +418,25 @@ export function registerLlmRoutes(app: Application) {
         }
       }
 
+      const timing = {
+        frequency: body.frequency,
+        timeOfDay: body.timeOfDay,
+        dayOfWeek: body.frequency === "weekly" ? body.dayOfWeek ?? null : null,
+        dayOfMonth: body.frequency === "monthly" ? body.dayOfMonth ?? null : null,
+        exchange: body.exchange ?? null
+      };
+      const isActive = body.isActive ?? true;
+
       const created = await prisma.llmRunSchedule.create({
         data: {
           portfolioId,
           promptId: body.promptId ?? null,
           providerId: body.providerId ?? null,
-          frequency: body.frequency,
-          timeOfDay: body.timeOfDay,
-          dayOfWeek: body.frequency === "weekly" ? body.dayOfWeek ?? null : null,
-          dayOfMonth: body.frequency === "monthly" ? body.dayOfMonth ?? null : null,
-          isActive: body.isActive ?? true
+          ...timing,
+          isActive,
+          nextRunAt: isActive ? computeNextRunAt(timing, new Date()) : null
         },
-        include: { provider: true, prompt: { include: { provider: true } } }
+        include: runScheduleInclude
       });
 
       res.status(201).json({ schedule: mapRunSchedule(created) });
@@ -411,7 +457,7 @@ export function registerLlmRoutes(app: Application) {
 
       const schedule = await prisma.llmRunSchedule.findUnique({
         where: { id: scheduleId },
-        include: { provider: true, prompt: { include: { provider: true } } }
+        include: runScheduleInclude
       });
       if (!schedule || schedule.portfolioId !== portfolioId) {
         return res.status(404).json({ error: "Schedule not found" });
@@ -450,6 +496,7 @@ export function registerLlmRoutes(app: Application) {
             : schedule.dayOfMonth !== null
               ? schedule.dayOfMonth
               : undefined,
+        exchange: body.exchange !== undefined ? body.exchange : schedule.exchange,
         isActive: body.isActive ?? schedule.isActive
       };
 
@@ -474,12 +521,35 @@ export function registerLlmRoutes(app: Application) {
             : null;
         data.dayOfMonth = nextDayOfMonth;
       }
+      if (body.exchange !== undefined) data.exchange = body.exchange;
       if (body.isActive !== undefined) data.isActive = body.isActive;
 
+      const timingChanged =
+        body.frequency !== undefined ||
+        body.timeOfDay !== undefined ||
+        body.dayOfWeek !== undefined ||
+        body.dayOfMonth !== undefined ||
+        body.exchange !== undefined ||
+        (body.isActive === true && !schedule.isActive);
+      if (!merged.isActive) {
+        data.nextRunAt = null;
+      } else if (timingChanged || !schedule.nextRunAt) {
+        data.nextRunAt = computeNextRunAt(
+          {
+            frequency: merged.frequency,
+            timeOfDay: merged.timeOfDay,
+            dayOfWeek: merged.frequency === "weekly" ? merged.dayOfWeek ?? null : null,
+            dayOfMonth: merged.frequency === "monthly" ? merged.dayOfMonth ?? null : null,
+            exchange: merged.exchange
+          },
+          new Date()
+        );
+      }
+
       const updated = await prisma.llmRunSchedule.update({
         where: { id: scheduleId },
         data,
-        include: { provider: true, prompt: { include: { provider: true } } }
+        include: runScheduleInclude
       });
 
       res.json({ schedule: mapRunSchedule(updated) });
@@ -539,113 +609,87 @@ export function registerLlmRoutes(app: Application) {
       await getPortfolioRecord(portfolioId);
       const body = llmRunSchema.parse(req.body ?? {});
 
-      const prompt = body.promptId
-        ? await prisma.portfolioPrompt.findUnique({
-            where: { id: body.promptId },
-            include: { provider: true }
-          })
-        : await prisma.portfolioPrompt.findFirst({
-            where: { portfolioId, isDefault: true, isActive: true },
-            include: { provider: true }
-          });
+      await sendRunOutcome(res, () => executeLlmRun(portfolioId, body));
+    } catch (error) {
+      console.error("Run LLM pipeline failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to run LLM pipeline" });
+    }
+  });
 
-      if (body.promptId && !prompt) {
-        return res.status(404).json({ error: "Prompt not found" });
-      }
+  app.post("/api/llm/executions/:id/replay", async (req, res) => {
+    const executionId = Number.parseInt(req.params.id, 10);
+    if (!Number.isFinite(executionId)) {
+      return res.status(400).json({ error: "Invalid execution id" });
+    }
+    await sendRunOutcome(res, () => replayLlmExecution(executionId));
+  });
 
-      const provider = await resolveProvider(body.providerId, prompt?.providerId ?? prompt?.provider?.id ?? null);
-      if (!provider) {
-        return res.status(400).json({ error: "No LLM provider configured" });
+  app.get("/api/llm/executions/:id/cassette", async (req, res) => {
+    try {
+      const executionId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(executionId)) {
+        return res.status(400).json({ error: "Invalid execution id" });
       }
-
-      const execution = await prisma.llmExecution.create({
-        data: {
-          portfolioId,
-          promptId: prompt?.id ?? null,
-          providerId: provider.id,
-          status: "pending",
-          requestPayload: JSON.stringify(body)
-        }
+      const execution = await prisma.llmExecution.findUnique({
+        where: { id: executionId },
+        select: { cassette: true }
       });
-
-      try {
-        const result = await runLlmPlan({
-          portfolioId,
-          prompt: prompt ? mapPromptForRun(prompt) : null,
-          provider,
-          overrides: body.overrides,
-          dryRun: body.dryRun ?? false
-        });
-
-        const status = result.executed ? "completed" : body.dryRun ? "dry-run" : "planned";
-
-        await prisma.llmExecution.update({
-          where: { id: execution.id },
-          data: {
-            status,
-            responseText: result.assistantMessage,
-            responseJson: JSON.stringify(result.plan),
-            executedOrders: JSON.stringify(result.trades),
-            errorMessage: null
-          }
-        });
-
-        res.json({
-          executionId: execution.id,
-          status,
-          plan: result.plan,
-          trades: result.trades,
-          executed: result.executed,
-          snapshot: result.snapshot ?? null,
-          provider: mapProvider(provider),
-          prompt: prompt ? mapPrompt(prompt) : null,
-          context: result.context,
-          messages: result.messages,
-          systemPrompt: result.systemPrompt,
-          userPrompt: result.userPrompt,
-          assistantMessage: result.assistantMessage,
-          groundingMetadata: result.groundingMetadata ?? null
-        });
-      } catch (error) {
-        const message = error instanceof Error ? error.message : "LLM run failed";
-        const updateData: Parameters<typeof prisma.llmExecution.update>[0]["data"] = {
-          status: "error",
-          errorMessage: message
-        };
-
-        if (error instanceof LlmPlanExecutionError) {
-          updateData.responseText = error.result.assistantMessage;
-          updateData.responseJson = JSON.stringify(error.result.plan);
-          updateData.executedOrders = JSON.stringify(error.result.trades);
-        } else if (error instanceof Error && "stack" in error) {
-          updateData.responseText = String(error.stack);
-        }
-
-        await prisma.llmExecution.update({
-          where: { id: execution.id },
-          data: updateData
-        });
-        console.error("LLM run failed", error);
-        if (error instanceof LlmPlanExecutionError) {
-          res
-            .status(400)
-            .json({
-              error: message,
-              plan: error.result.plan,
-              trades: error.result.trades,
-              groundingMetadata: error.result.groundingMetadata ?? null
-            });
-        } else {
-          res.status(400).json({ error: message });
-        }
+      if (!execution?.cassette) {
+        return res.status(404).json({ error: "No recorded provider calls for this execution" });
       }
+      res.type("application/json").send(execution.cassette);
     } catch (error) {
-      console.error("Run LLM pipeline failed", error);
-      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to run LLM pipeline" });
+      console.error("Fetch cassette failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to fetch cassette" });
     }
   });
 }
 
+async function sendRunOutcome(res: Response, run: () => Promise<LlmRunOutcome>) {
+  try {
+    const { executionId, status, result, prompt, provider } = await run();
+
+    res.json({
+      executionId,
+      status,
+      plan: result.plan,
+      trades: result.trades,
+      orders: result.orders ?? [],
+      executed: result.executed,
+      snapshot: result.snapshot ?? null,
+      provider: provider ? mapProvider(provider) : null,
+      prompt: prompt ? mapPrompt(prompt) : null,
+      context: result.context,
+      messages: result.messages,
+      systemPrompt: result.systemPrompt,
+      userPrompt: result.userPrompt,
+      assistantMessage: result.assistantMessage,
+      groundingMetadata: result.groundingMetadata ?? null,
+      toolCalls: result.toolCalls
+    });
+  } catch (error) {
+    if (error instanceof LlmRunSetupError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    const message = error instanceof Error ? error.message : "LLM run failed";
+    console.error("LLM run failed", error);
+    if (error instanceof LlmPlanExecutionError) {
+      res
+        .status(400)
+        .json({
+          error: message,
+          plan: error.result.plan,
+          trades: error.result.trades,
+          groundingMetadata: error.result.groundingMetadata ?? null,
+          toolCalls: error.result.toolCalls
+        });
+    } else {
+      res.status(400).json({ error: message });
+    }
+  }
+}
+
 function mapProvider(provider: LlmProvider) {
   return {
     id: provider.id,
@@ -673,20 +717,13 @@ function mapPrompt(prompt: PrismaPortfolioPrompt & { provider?: LlmProvider | nu
     providerId: prompt.providerId,
     isDefault: prompt.isDefault,
     isActive: prompt.isActive,
+    universe: mapUniverseSettings(prompt),
     createdAt: prompt.createdAt.toISOString(),
     updatedAt: prompt.updatedAt.toISOString(),
     provider: prompt.provider ? mapProvider(prompt.provider) : null
   };
 }
 
-function mapPromptForRun(prompt: PrismaPortfolioPrompt) {
-  return {
-    id: prompt.id,
-    systemPrompt: prompt.systemPrompt,
-    userTemplate: prompt.userTemplate
-  };
-}
-
 function parseJsonSafely<T>(value: string | null): T | null {
   if (!value) {
     return null;
@@ -708,12 +745,15 @@ function mapExecution(execution: LlmExecution & {
     portfolioId: execution.portfolioId,
     promptId: execution.promptId,
     providerId: execution.providerId,
+    scheduleId: execution.scheduleId,
     status: execution.status,
     request: parseJsonSafely<Record<string, unknown>>(execution.requestPayload),
     responseJson: parseJsonSafely<Record<string, unknown>>(execution.responseJson ?? null),
     executedOrders: parseJsonSafely<unknown[]>(execution.executedOrders ?? null),
     responseText: execution.responseText,
     errorMessage: execution.errorMessage,
+    toolCalls: parseJsonSafely<ToolCallRecord[]>(execution.toolCalls ?? null) ?? [],
+    replayable: execution.cassette !== null,
     createdAt: execution.createdAt.toISOString(),
     provider: execution.provider ? mapProvider(execution.provider) : null,
     prompt: execution.prompt ? mapPrompt(execution.prompt) : null
@@ -724,8 +764,11 @@ function mapRunSchedule(
   schedule: PrismaLlmRunSchedule & {
     provider?: LlmProvider | null;
     prompt?: (PrismaPortfolioPrompt & { provider?: LlmProvider | null }) | null;
+    executions?: LlmExecution[];
   }
 ) {
+  const lastExecution = schedule.executions?.[0] ?? null;
+
   return {
     id: schedule.id,
     portfolioId: schedule.portfolioId,
@@ -735,39 +778,21 @@ function mapRunSchedule(
     timeOfDay: schedule.timeOfDay,
     dayOfWeek: schedule.dayOfWeek,
     dayOfMonth: schedule.dayOfMonth,
+    exchange: schedule.exchange,
     isActive: schedule.isActive,
+    lastRunAt: schedule.lastRunAt ? schedule.lastRunAt.toISOString() : null,
+    nextRunAt: schedule.nextRunAt ? schedule.nextRunAt.toISOString() : null,
+    lastExecution: lastExecution
+      ? {
+          id: lastExecution.id,
+          status: lastExecution.status,
+          errorMessage: lastExecution.errorMessage,
+          createdAt: lastExecution.createdAt.toISOString()
+        }
+      : null,
     createdAt: schedule.createdAt.toISOString(),
     updatedAt: schedule.updatedAt.toISOString(),
     provider: schedule.provider ? mapProvider(schedule.provider) : null,
     prompt: schedule.prompt ? mapPrompt(schedule.prompt) : null
   };
 }
-
-async function resolveProvider(explicitId?: number, fallbackId?: number | null) {
-  if (explicitId) {
-    const provider = await prisma.llmProvider.findUnique({ where: { id: explicitId } });
-    if (provider) {
-      return provider;
-    }
-  }
-
-  if (fallbackId) {
-    const provider = await prisma.llmProvider.findUnique({ where: { id: fallbackId } });
-    if (provider) {
-      return provider;
-    }
-  }
-
-  const defaultProvider = await prisma.llmProvider.findFirst({
-    where: { isDefault: true },
-    orderBy: { createdAt: "asc" }
-  });
-  if (defaultProvider) {
-    return defaultProvider;
-  }
-
-  return prisma.llmProvider.findFirst({ orderBy: { createdAt: "asc" } });
-}
-
-
-
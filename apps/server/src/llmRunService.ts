@@ -0,0 +1,264 @@
+import { prisma } from "@paper-trading/db";
+import type { LlmProvider, PortfolioPrompt } from "@paper-trading/db";
+import { AgentOptions, LlmPlanExecutionError, LlmRunOptions, LlmRunResult, runLlmPlan } from "./llmService";
+import type { ToolCallRecord } from "./llmTools";
+import { getPortfolioRecord } from "./portfolioService";
+import {
+  cassetteProvider,
+  createCassette,
+  parseCassette,
+  recordProviderCalls,
+  recordToolCalls,
+  replayProviderCalls,
+  replayToolCalls,
+  serializeCassette
+} from "./providerCassette";
+import { resolveUniverse, UniverseSettings } from "./universe";
+
+export interface LlmRunRequest {
+  promptId?: number;
+  providerId?: number;
+  overrides?: {
+    temperature?: number;
+    maxTokens?: number;
+    model?: string;
+  };
+  dryRun?: boolean;
+  /** Runs in agent mode, letting the model call tools within these limits. */
+  agent?: AgentOptions;
+}
+
+export interface LlmRunOutcome {
+  executionId: number;
+  status: string;
+  result: LlmRunResult;
+  prompt: (PortfolioPrompt & { provider: LlmProvider | null }) | null;
+  /** Null when a replayed execution's provider has since been deleted. */
+  provider: LlmProvider | null;
+}
+
+export class LlmRunSetupError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "LlmRunSetupError";
+    this.status = status;
+  }
+}
+
+/**
+ * Runs the LLM pipeline for a portfolio and records the outcome as an LlmExecution.
+ * Shared by the manual `POST /api/portfolios/:id/llm/run` endpoint and the run scheduler.
+ * Failures are persisted on the execution before being rethrown to the caller. The provider
+ * calls are kept on the execution as a cassette so the run can be replayed, and the tool calls
+ * of agent runs are kept for audit.
+ */
+export async function executeLlmRun(
+  portfolioId: number,
+  request: LlmRunRequest,
+  options: { scheduleId?: number } = {}
+): Promise<LlmRunOutcome> {
+  const prompt = request.promptId
+    ? await prisma.portfolioPrompt.findUnique({
+        where: { id: request.promptId },
+        include: { provider: true }
+      })
+    : await prisma.portfolioPrompt.findFirst({
+        where: { portfolioId, isDefault: true, isActive: true },
+        include: { provider: true }
+      });
+
+  if (request.promptId && !prompt) {
+    throw new LlmRunSetupError("Prompt not found", 404);
+  }
+
+  const provider = await resolveProvider(request.providerId, prompt?.providerId ?? prompt?.provider?.id ?? null);
+  if (!provider) {
+    throw new LlmRunSetupError("No LLM provider configured", 400);
+  }
+  const universe = await resolveRunUniverse(portfolioId, prompt);
+
+  const execution = await prisma.llmExecution.create({
+    data: {
+      portfolioId,
+      promptId: prompt?.id ?? null,
+      providerId: provider.id,
+      scheduleId: options.scheduleId ?? null,
+      status: "pending",
+      requestPayload: JSON.stringify(options.scheduleId ? { ...request, scheduleId: options.scheduleId } : request)
+    }
+  });
+
+  const result = await runAndRecord(execution.id, {
+    portfolioId,
+    prompt: prompt
+      ? {
+          id: prompt.id,
+          systemPrompt: prompt.systemPrompt,
+          userTemplate: prompt.userTemplate
+        }
+      : null,
+    provider,
+    overrides: request.overrides,
+    dryRun: request.dryRun ?? false,
+    executionId: execution.id,
+    agent: request.agent,
+    universe
+  });
+
+  return { executionId: execution.id, ...result, prompt, provider };
+}
+
+/** The prompt's universe when it sets one, otherwise the portfolio's. */
+async function resolveRunUniverse(portfolioId: number, prompt: UniverseSettings | null) {
+  try {
+    const promptUniverse = prompt ? await resolveUniverse(prompt) : null;
+    return promptUniverse ?? (await resolveUniverse(await getPortfolioRecord(portfolioId)));
+  } catch (error) {
+    throw new LlmRunSetupError(error instanceof Error ? error.message : "Unable to load the investable universe", 400);
+  }
+}
+
+/**
+ * Runs a recorded execution again from its cassette: the same context and prompts go through
+ * the current validation, and the provider's answers and tool results come from the recording
+ * instead of the network. Replays are dry runs, as the recorded prices are stale, and are stored
+ * as a new execution.
+ */
+export async function replayLlmExecution(executionId: number): Promise<LlmRunOutcome> {
+  const original = await prisma.llmExecution.findUnique({
+    where: { id: executionId },
+    include: { prompt: { include: { provider: true } }, provider: true }
+  });
+  if (!original) {
+    throw new LlmRunSetupError("Execution not found", 404);
+  }
+  if (!original.cassette) {
+    throw new LlmRunSetupError("Execution has no recorded provider calls to replay", 409);
+  }
+
+  const cassette = parseCassette(original.cassette);
+  const provider = cassetteProvider(cassette);
+  const firstRequest = cassette.calls[0]?.request.messages ?? [];
+  const systemPrompt = firstRequest.find((message) => message.role === "system")?.content;
+  const userPrompt = firstRequest.find((message) => message.role === "user")?.content;
+  if (!cassette.context || !provider || systemPrompt === undefined || userPrompt === undefined) {
+    throw new LlmRunSetupError("Execution's recording is incomplete and cannot be replayed", 409);
+  }
+  const request = JSON.parse(original.requestPayload) as LlmRunRequest;
+
+  const execution = await prisma.llmExecution.create({
+    data: {
+      portfolioId: original.portfolioId,
+      promptId: original.promptId,
+      providerId: original.providerId,
+      status: "pending",
+      requestPayload: JSON.stringify({ ...request, dryRun: true, replayOf: original.id })
+    }
+  });
+
+  const result = await runAndRecord(
+    execution.id,
+    {
+      portfolioId: original.portfolioId,
+      prompt: null,
+      provider,
+      overrides: request.overrides,
+      dryRun: true,
+      executionId: execution.id,
+      replay: { context: cassette.context, systemPrompt, userPrompt },
+      agent: request.agent
+    },
+    replayProviderCalls(cassette),
+    replayToolCalls(cassette)
+  );
+
+  return { executionId: execution.id, ...result, prompt: original.prompt, provider: original.provider };
+}
+
+async function runAndRecord(
+  executionId: number,
+  options: LlmRunOptions,
+  call?: LlmRunOptions["callProvider"],
+  runTool?: LlmRunOptions["runTool"]
+): Promise<{ status: string; result: LlmRunResult }> {
+  const cassette = createCassette();
+  const recordCassette = () => (cassette.calls.length > 0 ? serializeCassette(cassette) : null);
+  const toolCalls: ToolCallRecord[] = [];
+  const recordToolCallLog = () => (toolCalls.length > 0 ? JSON.stringify(toolCalls) : null);
+
+  try {
+    const result = await runLlmPlan({
+      ...options,
+      callProvider: recordProviderCalls(cassette, call),
+      runTool: recordToolCalls(cassette, runTool),
+      onToolCall: (record) => toolCalls.push(record)
+    });
+
+    const status = result.executed ? "completed" : options.dryRun ? "dry-run" : "planned";
+
+    await prisma.llmExecution.update({
+      where: { id: executionId },
+      data: {
+        status,
+        responseText: result.assistantMessage,
+        responseJson: JSON.stringify(result.plan),
+        executedOrders: JSON.stringify(result.trades),
+        cassette: recordCassette(),
+        toolCalls: recordToolCallLog(),
+        errorMessage: null
+      }
+    });
+
+    return { status, result };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "LLM run failed";
+    const updateData: Parameters<typeof prisma.llmExecution.update>[0]["data"] = {
+      status: "error",
+      errorMessage: message,
+      cassette: recordCassette(),
+      toolCalls: recordToolCallLog()
+    };
+
+    if (error instanceof LlmPlanExecutionError) {
+      updateData.responseText = error.result.assistantMessage;
+      updateData.responseJson = JSON.stringify(error.result.plan);
+      updateData.executedOrders = JSON.stringify(error.result.trades);
+    } else if (error instanceof Error && "stack" in error) {
+      updateData.responseText = String(error.stack);
+    }
+
+    await prisma.llmExecution.update({
+      where: { id: executionId },
+      data: updateData
+    });
+    throw error;
+  }
+}
+
+export async function resolveProvider(explicitId?: number, fallbackId?: number | null) {
+  if (explicitId) {
+    const provider = await prisma.llmProvider.findUnique({ where: { id: explicitId } });
+    if (provider) {
+      return provider;
+    }
+  }
+
+  if (fallbackId) {
+    const provider = await prisma.llmProvider.findUnique({ where: { id: fallbackId } });
+    if (provider) {
+      return provider;
+    }
+  }
+
+  const defaultProvider = await prisma.llmProvider.findFirst({
+    where: { isDefault: true },
+    orderBy: { createdAt: "asc" }
+  });
+  if (defaultProvider) {
+    return defaultProvider;
+  }
+
+  return prisma.llmProvider.findFirst({ orderBy: { createdAt: "asc" } });
+}
@@ -1,19 +1,43 @@
 ﻿import { z } from "zod";
+import type { OrderInput } from "./orders";
+import { QuantityRules, quantityJsonSchema } from "./quantityRules";
 
-const arbitrageOrderSchema = z.object({
+export const arbitrageOrderSchema = z.object({
   symbol: z.string().min(1, "symbol is required").transform((value) => value.toUpperCase()),
   action: z.enum(["BUY", "SELL"], {
     invalid_type_error: "action must be BUY or SELL"
   }),
   quantity: z
     .number({ invalid_type_error: "quantity must be numeric" })
-    .int("quantity must be an integer")
     .positive("quantity must be positive"),
-  orderType: z.enum(["market", "limit"]).default("market"),
+  orderType: z.enum(["market", "limit", "stop", "stop_limit", "trailing_stop"]).default("market"),
   limitPrice: z
     .number({ invalid_type_error: "limitPrice must be numeric" })
     .positive("limitPrice must be positive")
     .optional(),
+  stopPrice: z
+    .number({ invalid_type_error: "stopPrice must be numeric" })
+    .positive("stopPrice must be positive")
+    .optional(),
+  trailAmount: z
+    .number({ invalid_type_error: "trailAmount must be numeric" })
+    .positive("trailAmount must be positive")
+    .optional(),
+  trailPercent: z
+    .number({ invalid_type_error: "trailPercent must be numeric" })
+    .positive("trailPercent must be positive")
+    .lt(100, "trailPercent must be below 100")
+    .optional(),
+  timeInForce: z.enum(["DAY", "GTC", "GTD", "IOC", "FOK"]).default("GTC"),
+  expiresAt: z.string().datetime({ offset: true, message: "expiresAt must be an ISO-8601 timestamp" }).optional(),
+  bracket: z
+    .object({
+      takeProfitPrice: z.number().positive("takeProfitPrice must be positive").optional(),
+      stopLossPrice: z.number().positive("stopLossPrice must be positive").optional(),
+      trailAmount: z.number().positive("bracket trailAmount must be positive").optional(),
+      trailPercent: z.number().positive("bracket trailPercent must be positive").lt(100).optional()
+    })
+    .optional(),
   confidence: z
     .number({ invalid_type_error: "confidence must be numeric" })
     .min(0)
@@ -31,6 +55,23 @@ export const arbitragePlanSchema = z.object({
 export type ArbitragePlan = z.infer<typeof arbitragePlanSchema>;
 export type ArbitrageOrder = z.infer<typeof arbitrageOrderSchema>;
 
+/** The order a planned arbitrage asks for, before any validation. */
+export function orderInputFromArbitrage(order: ArbitrageOrder): OrderInput {
+  return {
+    symbol: order.symbol,
+    side: order.action,
+    qty: order.quantity,
+    orderType: order.orderType,
+    limitPrice: order.limitPrice,
+    stopPrice: order.stopPrice,
+    trailAmount: order.trailAmount,
+    trailPercent: order.trailPercent,
+    bracket: order.bracket,
+    timeInForce: order.timeInForce,
+    expiresAt: order.expiresAt ? new Date(order.expiresAt) : undefined
+  };
+}
+
 export const ARBITRAGE_JSON_SCHEMA = {
   $schema: "https://json-schema.org/draft/2020-12/schema",
   $id: "https://paper-trading.ai/schemas/arbitrage-plan.json",
@@ -65,19 +106,79 @@ export const ARBITRAGE_JSON_SCHEMA = {
             description: "Trade direction"
           },
           quantity: {
-            type: "integer",
-            minimum: 1,
-            description: "Number of shares to trade"
+            type: "number",
+            exclusiveMinimum: 0,
+            description:
+              "Number of shares to trade. US listings accept up to 4 decimal places and crypto pairs up to 8; other venues trade whole shares, and Tokyo (.T), Hong Kong (.HK), Shanghai (.SS) and Shenzhen (.SZ) in 100-share lots. Closing a whole position is always allowed."
           },
           orderType: {
             type: "string",
-            enum: ["market", "limit"],
-            default: "market"
+            enum: ["market", "limit", "stop", "stop_limit", "trailing_stop"],
+            default: "market",
+            description:
+              "market and trailing_stop orders need a live quote for the symbol and are rejected without one; limit, stop and stop_limit orders can rest until a price is seen."
           },
           limitPrice: {
             type: "number",
             exclusiveMinimum: 0,
-            description: "Required when orderType is limit"
+            description: "Required when orderType is limit or stop_limit"
+          },
+          stopPrice: {
+            type: "number",
+            exclusiveMinimum: 0,
+            description: "Trigger price, required when orderType is stop or stop_limit"
+          },
+          trailAmount: {
+            type: "number",
+            exclusiveMinimum: 0,
+            description: "Trailing distance in price units for trailing_stop (use this or trailPercent)"
+          },
+          trailPercent: {
+            type: "number",
+            exclusiveMinimum: 0,
+            exclusiveMaximum: 100,
+            description: "Trailing distance in percent for trailing_stop (use this or trailAmount)"
+          },
+          timeInForce: {
+            type: "string",
+            enum: ["DAY", "GTC", "GTD", "IOC", "FOK"],
+            default: "GTC",
+            description:
+              "How long the order works. DAY: until today's session close on the instrument's exchange. GTC: until filled or cancelled. GTD: until expiresAt. IOC: fill what is available now and cancel the rest. FOK: fill the whole quantity now or reject. IOC and FOK only apply to market and limit orders."
+          },
+          expiresAt: {
+            type: "string",
+            format: "date-time",
+            description: "ISO-8601 expiry, required when timeInForce is GTD and not allowed otherwise"
+          },
+          bracket: {
+            type: "object",
+            additionalProperties: false,
+            description:
+              "Exit orders attached to the entry, on the opposite side of it: SELL exits for a BUY entry, BUY exits for a SELL (short) entry. They go live once the entry fills; when one exit fills the other is cancelled. For a BUY entry takeProfitPrice must be above stopLossPrice, for a SELL entry below it.",
+            properties: {
+              takeProfitPrice: {
+                type: "number",
+                exclusiveMinimum: 0,
+                description: "Price of the limit exit that takes profit"
+              },
+              stopLossPrice: {
+                type: "number",
+                exclusiveMinimum: 0,
+                description: "Price of the stop exit that limits the loss"
+              },
+              trailAmount: {
+                type: "number",
+                exclusiveMinimum: 0,
+                description: "Trailing stop-loss distance in price units (instead of stopLossPrice)"
+              },
+              trailPercent: {
+                type: "number",
+                exclusiveMinimum: 0,
+                exclusiveMaximum: 100,
+                description: "Trailing stop-loss distance in percent (instead of stopLossPrice)"
+              }
+            }
           },
           confidence: {
             type: "number",
@@ -95,3 +196,29 @@ export const ARBITRAGE_JSON_SCHEMA = {
   }
 } as const;
 
+/**
+ * The plan schema with each known symbol's quantity rules attached as `if`/`then` conditions,
+ * so the model can size orders to lot sizes and precision before validation rejects them.
+ */
+export function buildArbitrageJsonSchema(rulesBySymbol: Map<string, QuantityRules>) {
+  if (rulesBySymbol.size === 0) {
+    return ARBITRAGE_JSON_SCHEMA;
+  }
+  const arbitrages = ARBITRAGE_JSON_SCHEMA.properties.arbitrages;
+  return {
+    ...ARBITRAGE_JSON_SCHEMA,
+    properties: {
+      ...ARBITRAGE_JSON_SCHEMA.properties,
+      arbitrages: {
+        ...arbitrages,
+        items: {
+          ...arbitrages.items,
+          allOf: Array.from(rulesBySymbol, ([symbol, rules]) => ({
+            if: { properties: { symbol: { const: symbol } } },
+            then: { properties: { quantity: quantityJsonSchema(rules) } }
+          }))
+        }
+      }
+    }
+  };
+}
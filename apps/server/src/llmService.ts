@@ -1,15 +1,21 @@
-import { prisma } from "@paper-trading/db";
+﻿import { prisma } from "@paper-trading/db";
 import type { HistoryCandle } from "./types";
 import { TradeInput } from "./portfolio";
 import { buildChatCompletionsUrl } from "./providerUtils";
-import {
-  buildPortfolioSnapshot,
-  deriveMarketPrice,
-  executeTradeInputs,
-  getPortfolioRecord
-} from "./portfolioService";
-import { ARBITRAGE_JSON_SCHEMA, ArbitrageOrder, ArbitragePlan, arbitragePlanSchema } from "./llmSchema";
+import { buildPortfolioSnapshot, getPortfolioRecord } from "./portfolioService";
+import { BracketInput, mapOrder, OrderDto, OrderType, TimeInForce } from "./orders";
+import { submitOrders } from "./orderService";
+import { ArbitragePlan, arbitragePlanSchema, buildArbitrageJsonSchema } from "./llmSchema";
 import { getHistory, getQuote } from "./yahoo";
+import { computeTradeCosts, CostModel, costModelFromPortfolio, costModelInCurrency, describeCostModel } from "./costs";
+import { describeMarginPolicy, marginPolicyFromPortfolio } from "./margin";
+import type { CashBalanceDto } from "./cashBalances";
+import { describeCashBalances, Settlement } from "./fx";
+import { loadQuantityRules, QuantityRules } from "./quantityRules";
+import { addFxRates, checkPlannedOrder, loadOrderMarketData, marketQuote } from "./plannedOrders";
+import { callMockProvider } from "./mockProvider";
+import { LLM_TOOLS, runLlmTool, ToolCall, ToolCallRecord, ToolDefinition, ToolRunner } from "./llmTools";
+import { describeUniverse, Universe, UniverseContext } from "./universe";
 
 const BASE_SYSTEM_PROMPT = `You are an automated portfolio manager executing paper trades for backtesting purposes. Follow the risk constraints embedded in the user's instructions. You MUST reply with a single JSON document that validates against the provided JSON Schema. Do not include markdown fences or any commentary. Ensure BUY orders never exceed the available portfolio cash balance (including estimated fees/slippage).`;
 
@@ -18,7 +24,10 @@ Portfolio snapshot (positions with market values):
 {{PORTFOLIO_JSON}}
 
 Available cash balance: {{BASE_CURRENCY}} {{CASH_BALANCE}}.
-You must size BUY orders so the total cost including the 0.10% fee/slippage assumption stays within this cash balance. If funds are insufficient, skip or scale back the trade instead of overspending.
+Cash by currency: {{CASH_BALANCES}}. {{FX_SETTLEMENT}}
+Trading costs for this portfolio: {{COST_MODEL}}
+Short selling: {{SHORT_SELLING}}
+You must size BUY orders so the total cost including these commissions and slippage stays within this cash balance. If funds are insufficient, skip or scale back the trade instead of overspending.
 
 Latest market quotes for held symbols:
 {{QUOTES_JSON}}
@@ -29,16 +38,30 @@ Recent trades (latest first):
 Recent daily candles per symbol (latest 60 observations):
 {{HISTORIES_JSON}}
 
+Investable universe: {{UNIVERSE}}
+Latest market quotes for the universe:
+{{UNIVERSE_QUOTES_JSON}}
+
+Recent daily candles per universe symbol (latest 20 observations):
+{{UNIVERSE_HISTORIES_JSON}}
+
 JSON Schema definitions for the response:
 {{JSON_SCHEMA}}
 
-Using the schema above, decide on concrete arbitrage trades that comply with the risk limits from your additional instructions.`;
+Using the schema above, decide on concrete arbitrage trades that comply with the risk limits from your additional instructions. Express planned exits as stop, trailing_stop or bracket orders instead of describing them in the rationale. Only open or add to positions in symbols of the investable universe when one is set.`;
+
+const AGENT_SYSTEM_PROMPT = `You can call tools to look up quotes, price history, symbols, the portfolio and its trades, and to check draft orders before you plan. Call them only when the data you were given is not enough. When you are done, reply with the final JSON plan and no tool calls.`;
+
+const AGENT_FINAL_INSTRUCTION = `The tool budget of this run is used up. Reply now with the final JSON plan, without calling any more tools.`;
 
 const MAX_PLAN_ATTEMPTS = 3;
-const FEE_SLIPPAGE_RATE = 0.001; // 0.10%
 const CASH_TOLERANCE = 0.01; // allow minor rounding differences
+const DEFAULT_AGENT_MAX_STEPS = 8;
+const DEFAULT_AGENT_TOKEN_BUDGET = 100_000;
+const CHARS_PER_TOKEN = 4; // rough estimate for providers that report no usage
+const UNIVERSE_HISTORY_CANDLES = 20;
 
-interface RawContext {
+export interface RawContext {
   portfolio: Awaited<ReturnType<typeof buildPortfolioSnapshot>>;
   quotes: Record<string, Awaited<ReturnType<typeof getQuote>>>;
   histories: Record<string, HistoryCandle[]>;
@@ -48,24 +71,54 @@ interface RawContext {
     side: string;
     qty: number;
     price: number;
+    fee: number;
+    slippage: number;
+    realizedPnL: number | null;
     ts: string;
   }>;
+  /** The run's investable universe; orders may only open or add to positions in its symbols. */
+  universe?: UniverseContext | null;
+  /**
+   * Quotes of ordered symbols the prompt carried none for, fetched when a live plan or draft
+   * named them. Kept with the context so a replay prices those orders the same way.
+   */
+  orderQuotes?: Record<string, Awaited<ReturnType<typeof getQuote>>>;
+  /**
+   * Base currency units per unit of each currency the positions and quotes are in. Orders settle
+   * at these rates, so a replay needs no network. Older recordings have none.
+   */
+  fxRates?: Record<string, number>;
 }
 
-interface ExecutionContext {
+export interface ExecutionContext {
+  /** The moment the plan is made for; `{{CURRENT_DATETIME}}` renders it. */
+  asOf: Date;
   baseCurrency: string;
   cashBalance: number;
+  cashBalances: CashBalanceDto[];
+  fxAutoConvert: boolean;
   portfolioJson: string;
   quotesJson: string;
   historiesJson: string;
   tradesJson: string;
+  universeDescription: string;
+  universeQuotesJson: string;
+  universeHistoriesJson: string;
   schemaJson: string;
+  costModel: CostModel;
+  costModelDescription: string;
+  marginPolicyDescription: string;
   raw: RawContext;
 }
 
-interface ChatMessage {
-  role: "system" | "user" | "assistant";
+export interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
   content: string;
+  /** Tools an assistant message asks to call; its content may then be empty. */
+  toolCalls?: ToolCall[];
+  /** The call a tool message answers. */
+  toolCallId?: string;
+  toolName?: string;
 }
 
 interface LlmApiResponse {
@@ -74,13 +127,23 @@ interface LlmApiResponse {
     message?: {
       role: "assistant";
       content: string | null;
+      tool_calls?: Array<{ id: string; type?: string; function: { name: string; arguments?: string } }>;
     };
   }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
   error?: {
     message?: string;
   };
 }
 
+/** Limits of the tool-calling loop of a run in agent mode. */
+export interface AgentOptions {
+  /** Rounds of tool calls before the model must answer with its plan. */
+  maxSteps?: number;
+  /** Tokens the run's provider calls may use before tools are switched off. */
+  tokenBudget?: number;
+}
+
 export interface LlmRunOptions {
   portfolioId: number;
   prompt: {
@@ -104,6 +167,39 @@ export interface LlmRunOptions {
     model?: string;
   };
   dryRun?: boolean;
+  executionId?: number;
+  /** Calls the provider; cassettes wrap `callProvider` to record or replay the calls. */
+  callProvider?: ProviderCaller;
+  /** A recorded context and the prompts rendered from it, used instead of fresh ones. */
+  replay?: { context: ExecutionContext; systemPrompt: string; userPrompt: string };
+  /** Lets the model call tools for more data before it answers with the plan. */
+  agent?: AgentOptions;
+  /** Runs the model's tool calls; cassettes wrap `runLlmTool` to record or replay the results. */
+  runTool?: ToolRunner;
+  /** Sees every tool call as it completes, also those of runs that fail later. */
+  onToolCall?: (record: ToolCallRecord) => void;
+  /** Symbols the run gets market data for; orders outside it may only reduce positions. */
+  universe?: Universe | null;
+}
+
+export type ProviderCaller = typeof callProvider;
+
+/**
+ * An order derived from the plan. `price` is what the order may cost (its limit or stop when
+ * it has one) and drives cash discipline; `marketPrice` decides whether it fills right away.
+ * `settlement` says which cash balance pays for it.
+ */
+export interface PlannedOrder extends TradeInput {
+  settlement: Settlement;
+  orderType: OrderType;
+  limitPrice?: number;
+  stopPrice?: number;
+  trailAmount?: number;
+  trailPercent?: number;
+  bracket?: BracketInput;
+  timeInForce?: TimeInForce;
+  expiresAt?: Date;
+  marketPrice: number | null;
 }
 
 export interface GeminiGroundingMetadata {
@@ -117,8 +213,18 @@ export interface ProviderCallResult {
   content: string;
   rawResponse: string;
   groundingMetadata?: GeminiGroundingMetadata;
+  /** Tools the model asked to call instead of, or along with, answering. */
+  toolCalls?: ToolCall[];
+  usage?: TokenUsage;
 }
 
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+type ProviderPayload = Parameters<typeof callProvider>[1];
+
 interface FetchResponseLike {
   ok: boolean;
   status: number;
@@ -153,7 +259,8 @@ export interface LlmRunResult {
   plan: ArbitragePlan;
   rawResponse: string;
   assistantMessage: string;
-  trades: TradeInput[];
+  trades: PlannedOrder[];
+  orders?: OrderDto[];
   executed: boolean;
   groundingMetadata?: GeminiGroundingMetadata;
   snapshot?: Awaited<ReturnType<typeof buildPortfolioSnapshot>>;
@@ -161,6 +268,7 @@ export interface LlmRunResult {
   userPrompt: string;
   messages: ChatMessage[];
   context: ExecutionContext;
+  toolCalls: ToolCallRecord[];
 }
 
 export class LlmPlanExecutionError extends Error {
@@ -181,13 +289,27 @@ export class LlmPlanExecutionError extends Error {
 }
 
 export async function runLlmPlan(options: LlmRunOptions): Promise<LlmRunResult> {
-  const { portfolioId, prompt, provider, overrides, dryRun = false } = options;
+  const { portfolioId, prompt, provider, overrides, dryRun = false, executionId, replay, agent } = options;
+  const call = options.callProvider ?? callProvider;
   await getPortfolioRecord(portfolioId);
 
-  const context = await buildExecutionContext(portfolioId);
-  const userTemplate = (prompt?.userTemplate?.trim()?.length ? prompt.userTemplate : undefined) ?? DEFAULT_USER_TEMPLATE;
-  const systemPrompt = buildSystemPrompt(prompt?.systemPrompt);
-  const userPrompt = renderTemplate(userTemplate, context);
+  const context = replay?.context ?? (await buildExecutionContext(portfolioId, options.universe ?? null));
+  const { systemPrompt, userPrompt } = replay ?? renderPrompts(prompt, context, { agent: Boolean(agent) });
+  const toolCalls: ToolCallRecord[] = [];
+  const agentRun: AgentRun | null = agent
+    ? {
+        maxSteps: agent.maxSteps ?? DEFAULT_AGENT_MAX_STEPS,
+        tokenBudget: agent.tokenBudget ?? DEFAULT_AGENT_TOKEN_BUDGET,
+        steps: 0,
+        tokens: 0,
+        runTool: options.runTool ?? runLlmTool,
+        environment: { portfolioId, context },
+        onToolCall: (record) => {
+          toolCalls.push(record);
+          options.onToolCall?.(record);
+        }
+      }
+    : null;
 
   const messages: ChatMessage[] = [
     { role: "system", content: systemPrompt },
@@ -201,13 +323,19 @@ export async function runLlmPlan(options: LlmRunOptions): Promise<LlmRunResult>
         temperature: overrides?.temperature ?? provider.temperature ?? 0,
         max_tokens: overrides?.maxTokens ?? provider.maxTokens ?? undefined,
         messages,
-        response_format: { type: "json_object" }
+        response_format: { type: "json_object" },
+        tools: agentRun ? LLM_TOOLS : undefined
       } as const;
 
-      const { content, rawResponse, groundingMetadata } = await callProvider(provider, payload);
+      const { content, rawResponse, groundingMetadata } = agentRun
+        ? await callWithTools(call, provider, payload, agentRun)
+        : await call(provider, payload, context);
       messages.push({ role: "assistant", content });
 
       const plan = parseArbitragePlan(content);
+      if (!replay) {
+        await loadOrderMarketData(context, plan.arbitrages.map((order) => order.symbol));
+      }
       const trades = await buildTradesFromPlan(plan, context);
 
       const baseResult: Omit<LlmRunResult, "executed" | "snapshot"> & { executed: false } = {
@@ -220,7 +348,8 @@ export async function runLlmPlan(options: LlmRunOptions): Promise<LlmRunResult>
         userPrompt,
         messages,
         context,
-        groundingMetadata
+        groundingMetadata,
+        toolCalls
       };
 
       enforceCashDiscipline(trades, context, baseResult);
@@ -229,8 +358,31 @@ export async function runLlmPlan(options: LlmRunOptions): Promise<LlmRunResult>
         return baseResult;
       }
 
+      let orders: OrderDto[];
       try {
-        await executeTradeInputs(trades, portfolioId);
+        const submitted = await submitOrders(
+          trades.map((trade) => ({
+            symbol: trade.symbol,
+            side: trade.side,
+            qty: trade.qty,
+            orderType: trade.orderType,
+            limitPrice: trade.limitPrice,
+            stopPrice: trade.stopPrice,
+            trailAmount: trade.trailAmount,
+            trailPercent: trade.trailPercent,
+            bracket: trade.bracket,
+            timeInForce: trade.timeInForce,
+            expiresAt: trade.expiresAt
+          })),
+          portfolioId,
+          {
+            source: "llm",
+            executionId,
+            marketPrices: Object.fromEntries(trades.map((trade) => [trade.symbol, trade.marketPrice])),
+            marketConditions: { ...context.raw.universe?.quotes, ...context.raw.quotes }
+          }
+        );
+        orders = submitted.map(mapOrder);
       } catch (error) {
         const message = error instanceof Error ? error.message : "Failed to execute trades";
         throw new LlmPlanExecutionError(message, baseResult, { cause: error });
@@ -239,6 +391,7 @@ export async function runLlmPlan(options: LlmRunOptions): Promise<LlmRunResult>
 
       return {
         ...baseResult,
+        orders,
         executed: true,
         snapshot,
       };
@@ -262,44 +415,115 @@ export async function runLlmPlan(options: LlmRunOptions): Promise<LlmRunResult>
   throw new Error("LLM plan failed after maximum retry attempts");
 }
 
+/** The state of a run's tool-calling loop, shared by its plan attempts. */
+interface AgentRun {
+  maxSteps: number;
+  tokenBudget: number;
+  steps: number;
+  tokens: number;
+  runTool: ToolRunner;
+  environment: Parameters<ToolRunner>[1];
+  onToolCall: (record: ToolCallRecord) => void;
+}
+
+/**
+ * Calls the provider with the tools offered until it answers without tool calls. Each round of
+ * tool calls is one step. Once the steps or the token budget run out the model is told so and
+ * tools are switched off, so the next answer is the plan. A tool that fails returns its error
+ * to the model as the call's result.
+ */
+async function callWithTools(
+  call: ProviderCaller,
+  provider: LlmRunOptions["provider"],
+  payload: ProviderPayload,
+  run: AgentRun
+): Promise<ProviderCallResult> {
+  const { messages } = payload;
+  const exhausted = () => run.steps >= run.maxSteps || run.tokens >= run.tokenBudget;
+
+  for (;;) {
+    const toolChoice = exhausted() ? "none" : "auto";
+    const response = await call(provider, { ...payload, tool_choice: toolChoice }, run.environment.context);
+    run.tokens += response.usage
+      ? response.usage.inputTokens + response.usage.outputTokens
+      : estimateTokens(messages, response.content);
+    if (toolChoice === "none" || !response.toolCalls?.length) {
+      return response;
+    }
+
+    run.steps += 1;
+    messages.push({ role: "assistant", content: response.content, toolCalls: response.toolCalls });
+    for (const toolCall of response.toolCalls) {
+      const record: ToolCallRecord = { ...toolCall, step: run.steps, result: null, error: null };
+      try {
+        record.result = await run.runTool(toolCall, run.environment);
+      } catch (error) {
+        record.error = error instanceof Error ? error.message : String(error);
+      }
+      run.onToolCall(record);
+      messages.push({
+        role: "tool",
+        content: JSON.stringify(record.error === null ? (record.result ?? null) : { error: record.error }),
+        toolCallId: toolCall.id,
+        toolName: toolCall.name
+      });
+    }
+    if (exhausted()) {
+      messages.push({ role: "user", content: AGENT_FINAL_INSTRUCTION });
+    }
+  }
+}
+
+function estimateTokens(messages: ChatMessage[], reply: string) {
+  const characters = messages.reduce((sum, message) => sum + message.content.length, reply.length);
+  return Math.ceil(characters / CHARS_PER_TOKEN);
+}
+
 function enforceCashDiscipline(
-  trades: TradeInput[],
+  trades: PlannedOrder[],
   context: ExecutionContext,
   baseResult: Omit<LlmRunResult, "executed" | "snapshot"> & { executed: false }
 ) {
-  let availableCash = context.cashBalance;
-  let totalBuyNotional = 0;
+  // Cash is tracked per settlement currency; amounts are converted with each order's settlement rate.
+  const startingCash = new Map(context.cashBalances.map((balance) => [balance.currency, balance.amount]));
+  const availableCash = new Map(startingCash);
+  const totalBuyCost = new Map<string, number>();
 
   for (const trade of trades) {
+    const { currency, rate, baseRate } = trade.settlement;
     const notional = trade.price * trade.qty;
+    const { fee, slippage } = computeTradeCosts(
+      costModelInCurrency(context.costModel, baseRate),
+      trade,
+      marketQuote(context, trade.symbol)
+    );
+    const available = availableCash.get(currency) ?? 0;
 
     if (trade.side === "BUY") {
-      totalBuyNotional += notional;
-      const requiredCash = notional * (1 + FEE_SLIPPAGE_RATE);
-      if (requiredCash - availableCash > CASH_TOLERANCE) {
+      const requiredCash = (notional + fee + slippage) * rate;
+      totalBuyCost.set(currency, (totalBuyCost.get(currency) ?? 0) + requiredCash);
+      if (requiredCash - available > CASH_TOLERANCE) {
         const message =
-          `Buy order for ${trade.symbol} needs ${formatCurrency(requiredCash, context.baseCurrency)} (incl. 0.10% fees), ` +
-          `but only ${formatCurrency(availableCash, context.baseCurrency)} is available. ` +
+          `Buy order for ${trade.symbol} needs ${formatCurrency(requiredCash, currency)} (incl. fees and slippage), ` +
+          `but only ${formatCurrency(available, currency)} is available. ` +
           `Reduce the quantity or skip this trade so the full plan fits within the cash balance.`;
         throw new LlmPlanExecutionError(message, baseResult);
       }
-      availableCash -= notional;
+      availableCash.set(currency, available - requiredCash);
     } else if (trade.side === "SELL") {
-      availableCash += notional;
+      availableCash.set(currency, available + (notional - fee - slippage) * rate);
     }
   }
 
-  if (totalBuyNotional === 0) {
-    return;
-  }
-
-  const totalWithFees = totalBuyNotional * (1 + FEE_SLIPPAGE_RATE);
-  if (totalWithFees - context.cashBalance > CASH_TOLERANCE) {
-    const message =
-      `Aggregate BUY exposure of ${formatCurrency(totalWithFees, context.baseCurrency)} (incl. fees) exceeds ` +
-      `the starting cash balance of ${formatCurrency(context.cashBalance, context.baseCurrency)}. ` +
-      `Distribute funds across fewer symbols or downsize orders to stay within budget.`;
-    throw new LlmPlanExecutionError(message, baseResult);
+  for (const [currency, total] of totalBuyCost) {
+    const starting = startingCash.get(currency) ?? 0;
+    if (total - starting > CASH_TOLERANCE) {
+      const message =
+        `Aggregate BUY exposure of ${formatCurrency(total, currency)} (incl. fees and slippage) exceeds ` +
+        `the starting cash balance of ${formatCurrency(starting, currency)}. ` +
+        `Distribute funds across fewer symbols or downsize orders to stay within budget.`;
+      throw new LlmPlanExecutionError(message, baseResult);
+    }
   }
 }
 
@@ -308,33 +532,95 @@ function buildRetryInstruction(error: unknown, context: ExecutionContext): strin
     return (
       `Previous plan could not be executed: ${error.message}\n\n` +
       `Return a corrected JSON plan that strictly respects the schema and keeps all BUY orders within ` +
-      `${formatCurrency(context.cashBalance, context.baseCurrency)} of available cash (including 0.10% fees).`
+      `${describeCashBalances(context.cashBalances)} of available cash (including fees and slippage).`
     );
   }
 
   if (error instanceof Error) {
     return (
       `The prior response failed (${error.message}). Please generate a new JSON plan that validates against the provided schema ` +
-      `and keeps BUY orders within ${formatCurrency(context.cashBalance, context.baseCurrency)}.`
+      `and keeps BUY orders within ${describeCashBalances(context.cashBalances)}.`
     );
   }
 
   return (
     `The previous attempt did not succeed. Provide a new JSON plan that respects the schema and stays within ` +
-    `${formatCurrency(context.cashBalance, context.baseCurrency)} of available cash.`
+    `${describeCashBalances(context.cashBalances)} of available cash.`
   );
 }
 
+function describeFxSettlement(context: ExecutionContext) {
+  return context.fxAutoConvert
+    ? `Orders in other currencies are paid from ${context.baseCurrency} cash at the current FX rate.`
+    : `Orders settle in the instrument's own currency; only cash already held in that currency can be spent.`;
+}
+
 function formatCurrency(amount: number, currency: string) {
   return `${currency} ${amount.toFixed(2)}`;
 }
 
-function buildSystemPrompt(additional?: string | null) {
+function buildSystemPrompt(additional?: string | null, agent = false) {
+  const base = agent ? `${BASE_SYSTEM_PROMPT}\n\n${AGENT_SYSTEM_PROMPT}` : BASE_SYSTEM_PROMPT;
   const extras = additional?.trim();
   if (extras) {
-    return `${BASE_SYSTEM_PROMPT}\n\n${extras}`;
+    return `${base}\n\n${extras}`;
+  }
+  return base;
+}
+
+/**
+ * The system prompt and the rendered user template (the default one when the prompt has none).
+ * In agent mode the system prompt also tells the model it may call tools.
+ */
+export function renderPrompts(
+  prompt: LlmRunOptions["prompt"],
+  context: ExecutionContext,
+  options: { agent?: boolean } = {}
+) {
+  const userTemplate =
+    (prompt?.userTemplate?.trim()?.length ? prompt.userTemplate : undefined) ?? DEFAULT_USER_TEMPLATE;
+  return {
+    systemPrompt: buildSystemPrompt(prompt?.systemPrompt, options.agent),
+    userPrompt: renderTemplate(userTemplate, context)
+  };
+}
+
+/**
+ * Asks the provider for a plan that parses and validates against the schema, retrying with the
+ * error like `runLlmPlan` does. Orders are not checked against cash or prices here; backtests
+ * settle them in their own simulation.
+ */
+export async function requestArbitragePlan(
+  provider: LlmRunOptions["provider"],
+  overrides: LlmRunOptions["overrides"],
+  messages: ChatMessage[],
+  context: ExecutionContext
+) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const { content, rawResponse } = await callProvider(
+        provider,
+        {
+          model: overrides?.model ?? provider.model,
+          temperature: overrides?.temperature ?? provider.temperature ?? 0,
+          max_tokens: overrides?.maxTokens ?? provider.maxTokens ?? undefined,
+          messages,
+          response_format: { type: "json_object" }
+        },
+        context
+      );
+      messages.push({ role: "assistant", content });
+      return { plan: parseArbitragePlan(content), content, rawResponse };
+    } catch (error) {
+      if (attempt >= MAX_PLAN_ATTEMPTS) {
+        throw error;
+      }
+      const retryInstruction = buildRetryInstruction(error, context);
+      if (retryInstruction) {
+        messages.push({ role: "user", content: retryInstruction });
+      }
+    }
   }
-  return BASE_SYSTEM_PROMPT;
 }
 
 function renderTemplate(template: string, context: ExecutionContext) {
@@ -345,15 +631,24 @@ function renderTemplate(template: string, context: ExecutionContext) {
     .replaceAll("{{PORTFOLIO_JSON}}", context.portfolioJson)
     .replaceAll("{{QUOTES_JSON}}", context.quotesJson)
     .replaceAll("{{HISTORIES_JSON}}", context.historiesJson)
+    .replaceAll("{{UNIVERSE_QUOTES_JSON}}", context.universeQuotesJson)
+    .replaceAll("{{UNIVERSE_HISTORIES_JSON}}", context.universeHistoriesJson)
+    .replaceAll("{{UNIVERSE}}", context.universeDescription)
     .replaceAll("{{RECENT_TRADES_JSON}}", context.tradesJson)
     .replaceAll("{{JSON_SCHEMA}}", context.schemaJson)
-    .replaceAll("{{CURRENT_DATETIME}}", new Date().toISOString())
+    .replaceAll("{{CURRENT_DATETIME}}", context.asOf.toISOString())
     .replaceAll("{{BASE_CURRENCY}}", context.baseCurrency)
-    .replaceAll("{{CASH_BALANCE}}", cashBalanceString);
+    .replaceAll("{{CASH_BALANCE}}", cashBalanceString)
+    .replaceAll("{{CASH_BALANCES}}", describeCashBalances(context.cashBalances))
+    .replaceAll("{{FX_SETTLEMENT}}", describeFxSettlement(context))
+    .replaceAll("{{COST_MODEL}}", context.costModelDescription)
+    .replaceAll("{{SHORT_SELLING}}", context.marginPolicyDescription);
 }
 
-async function buildExecutionContext(portfolioId: number): Promise<ExecutionContext> {
+async function buildExecutionContext(portfolioId: number, universe: Universe | null): Promise<ExecutionContext> {
   const snapshot = await buildPortfolioSnapshot(portfolioId);
+  const portfolioRecord = await getPortfolioRecord(portfolioId);
+  const costModel = costModelFromPortfolio(portfolioRecord);
   const symbols = Array.from(new Set(snapshot.positions.map((position) => position.symbol)));
 
   const quoteEntries = await Promise.all(
@@ -376,33 +671,103 @@ async function buildExecutionContext(portfolioId: number): Promise<ExecutionCont
   );
 
   const trades = await prisma.trade.findMany({
-    where: { portfolioId },
+    where: { portfolioId, reversedAt: null },
     orderBy: { ts: "desc" },
     take: 20
   });
 
-  const raw: RawContext = {
-    portfolio: snapshot,
-    quotes: Object.fromEntries(quoteEntries),
-    histories: Object.fromEntries(historyEntries),
-    recentTrades: trades.map((trade) => ({
-      id: trade.id,
-      symbol: trade.symbol,
-      side: trade.side,
-      qty: trade.qty.toNumber(),
-      price: trade.price.toNumber(),
-      ts: trade.ts.toISOString()
-    }))
+  const context = assembleExecutionContext(
+    {
+      portfolio: snapshot,
+      quotes: Object.fromEntries(quoteEntries),
+      histories: Object.fromEntries(historyEntries),
+      recentTrades: trades.map((trade) => ({
+        id: trade.id,
+        symbol: trade.symbol,
+        side: trade.side,
+        qty: trade.qty.toNumber(),
+        price: trade.price.toNumber(),
+        fee: trade.fee.toNumber(),
+        slippage: trade.slippage.toNumber(),
+        realizedPnL: trade.realizedPnL ? trade.realizedPnL.toNumber() : null,
+        ts: trade.ts.toISOString()
+      })),
+      universe: universe ? await loadUniverseMarketData(universe) : null
+    },
+    {
+      asOf: new Date(),
+      costModel,
+      marginPolicyDescription: describeMarginPolicy(marginPolicyFromPortfolio(portfolioRecord)),
+      quantityRules: await loadQuantityRules(prisma, [...symbols, ...(universe?.symbols ?? [])])
+    }
+  );
+  await addFxRates(context, [
+    ...snapshot.positions.map((position) => position.currency),
+    ...Object.values(context.raw.quotes).map((quote) => quote.currency),
+    ...Object.values(context.raw.universe?.quotes ?? {}).map((quote) => quote.currency)
+  ]);
+  return context;
+}
+
+/**
+ * Quotes and recent daily candles for the universe. A symbol whose quote fails is left out of
+ * the quotes rather than failing the run, as a universe may list many symbols.
+ */
+async function loadUniverseMarketData(universe: Universe): Promise<UniverseContext> {
+  const entries = await Promise.all(
+    universe.symbols.map(async (symbol) => {
+      const [quote, candles] = await Promise.all([
+        getQuote(symbol).catch((error) => {
+          console.error(`Failed to load universe quote for ${symbol}`, error);
+          return null;
+        }),
+        getHistory(symbol, "1mo", "1d").catch((error) => {
+          console.error(`Failed to load universe history for ${symbol}`, error);
+          return [];
+        })
+      ]);
+      return { symbol, quote, candles: candles.slice(-UNIVERSE_HISTORY_CANDLES) };
+    })
+  );
+  return {
+    ...universe,
+    quotes: Object.fromEntries(entries.flatMap(({ symbol, quote }) => (quote ? [[symbol, quote]] : []))),
+    histories: Object.fromEntries(entries.map(({ symbol, candles }) => [symbol, candles]))
   };
+}
 
+/**
+ * Renders the gathered data into the context the prompt template draws on. Live runs pass
+ * today's snapshot and quotes; backtests pass a simulated portfolio and candles cut off at the
+ * simulated moment.
+ */
+export function assembleExecutionContext(
+  raw: RawContext,
+  options: {
+    asOf: Date;
+    costModel: CostModel;
+    marginPolicyDescription: string;
+    quantityRules: Map<string, QuantityRules>;
+  }
+): ExecutionContext {
+  const snapshot = raw.portfolio;
   return {
+    asOf: options.asOf,
     baseCurrency: snapshot.baseCurrency,
     cashBalance: snapshot.cashBalance,
+    cashBalances: snapshot.cash,
+    fxAutoConvert: snapshot.fxAutoConvert,
     portfolioJson: JSON.stringify(raw.portfolio, null, 2),
     quotesJson: JSON.stringify(raw.quotes, null, 2),
     historiesJson: JSON.stringify(raw.histories, null, 2),
     tradesJson: JSON.stringify(raw.recentTrades, null, 2),
-    schemaJson: JSON.stringify(ARBITRAGE_JSON_SCHEMA, null, 2),
+    universeDescription: describeUniverse(raw.universe),
+    universeQuotesJson: JSON.stringify(raw.universe?.quotes ?? {}, null, 2),
+    universeHistoriesJson: JSON.stringify(raw.universe?.histories ?? {}, null, 2),
+    schemaJson: JSON.stringify(buildArbitrageJsonSchema(options.quantityRules), null, 2),
+    costModel: options.costModel,
+    costModelDescription: describeCostModel(options.costModel, snapshot.baseCurrency),
+    marginPolicyDescription: options.marginPolicyDescription,
     raw
   };
 }
@@ -415,9 +780,16 @@ export async function callProvider(
     max_tokens?: number | null;
     messages: ChatMessage[];
     response_format?: { type: string };
-  }
+    /** Offered to the model in agent mode; `tool_choice: "none"` keeps them from being called. */
+    tools?: ToolDefinition[];
+    tool_choice?: "auto" | "none";
+  },
+  // Only mock providers read the context; real ones see the rendered messages alone.
+  context?: ExecutionContext
 ) : Promise<ProviderCallResult> {
   switch (provider.type) {
+    case "mock":
+      return callMockProvider(payload.model, payload.messages, context);
     case "google-gemini":
       return callGeminiProvider(provider, payload);
     case "anthropic":
@@ -437,7 +809,7 @@ async function callOpenAiCompatibleProvider(
   const requestUrl = buildChatCompletionsUrl(provider.apiBase);
   const baseBody: Record<string, unknown> = {
     model: payload.model,
-    messages: payload.messages,
+    messages: payload.messages.map(toOpenAiMessage),
     temperature: payload.temperature ?? 0
   };
   if (payload.max_tokens) {
@@ -446,6 +818,13 @@ async function callOpenAiCompatibleProvider(
   if (payload.response_format) {
     baseBody.response_format = payload.response_format;
   }
+  if (payload.tools) {
+    baseBody.tools = payload.tools.map((tool) => ({
+      type: "function",
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+    }));
+    baseBody.tool_choice = payload.tool_choice ?? "auto";
+  }
 
   const headers: Record<string, string> = {
     "Content-Type": "application/json"
@@ -486,12 +865,56 @@ async function callOpenAiCompatibleProvider(
     throw new Error(`LLM provider error: ${data.error.message}`);
   }
 
-  const content = data.choices?.[0]?.message?.content;
-  if (!content) {
+  const message = data.choices?.[0]?.message;
+  const content = message?.content ?? "";
+  const toolCalls = (message?.tool_calls ?? []).map((toolCall) => ({
+    id: toolCall.id,
+    name: toolCall.function.name,
+    arguments: parseToolArguments(toolCall.function.arguments)
+  }));
+  if (!content && toolCalls.length === 0) {
     throw new Error("LLM provider returned no content");
   }
 
-  return { content, rawResponse: JSON.stringify(data) };
+  return {
+    content,
+    rawResponse: JSON.stringify(data),
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    usage: data.usage
+      ? { inputTokens: data.usage.prompt_tokens ?? 0, outputTokens: data.usage.completion_tokens ?? 0 }
+      : undefined
+  };
+}
+
+function toOpenAiMessage(message: ChatMessage) {
+  if (message.role === "tool") {
+    return { role: "tool", tool_call_id: message.toolCallId, content: message.content };
+  }
+  if (message.toolCalls?.length) {
+    return {
+      role: message.role,
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((toolCall) => ({
+        id: toolCall.id,
+        type: "function",
+        function: { name: toolCall.name, arguments: JSON.stringify(toolCall.arguments) }
+      }))
+    };
+  }
+  return { role: message.role, content: message.content };
+}
+
+/** Arguments arrive as a JSON string; ones that do not parse are passed on for the tool to reject. */
+function parseToolArguments(value: string | undefined): Record<string, unknown> {
+  if (!value?.trim()) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : { value: parsed };
+  } catch {
+    return { unparsed: value };
+  }
 }
 
 async function callGeminiProvider(
@@ -509,10 +932,24 @@ async function callGeminiProvider(
     generationConfig.maxOutputTokens = payload.max_tokens;
   }
 
+  // Gemini does not combine search grounding with function calling, so agent mode drops search.
   const body: Record<string, unknown> = {
     contents,
-    tools: [{ google_search: {} }]
+    tools: payload.tools
+      ? [
+          {
+            functionDeclarations: payload.tools.map((tool) => ({
+              name: tool.name,
+              description: tool.description,
+              parameters: tool.parameters
+            }))
+          }
+        ]
+      : [{ google_search: {} }]
   };
+  if (payload.tools) {
+    body.toolConfig = { functionCallingConfig: { mode: payload.tool_choice === "none" ? "NONE" : "AUTO" } };
+  }
   if (systemInstruction) {
     body.systemInstruction = systemInstruction;
   }
@@ -548,20 +985,41 @@ async function callGeminiProvider(
 
   const parts = data.candidates?.[0]?.content?.parts ?? [];
   const content = parts.map((part) => part.text ?? "").join("").trim();
-  if (!content) {
+  // Gemini gives function calls no ids, so they are numbered by their place in the conversation.
+  const previousCalls = payload.messages.reduce((count, message) => count + (message.toolCalls?.length ?? 0), 0);
+  const toolCalls = parts
+    .filter((part) => part.functionCall?.name)
+    .map((part, index) => ({
+      id: `call_${previousCalls + index + 1}`,
+      name: part.functionCall!.name!,
+      arguments: part.functionCall!.args ?? {}
+    }));
+  if (!content && toolCalls.length === 0) {
     throw new Error("LLM provider returned no content");
   }
 
   const groundingMetadata = normalizeGeminiGroundingMetadata(data.candidates?.[0]?.groundingMetadata);
 
-  return { content, rawResponse: JSON.stringify(data), groundingMetadata };
+  return {
+    content,
+    rawResponse: JSON.stringify(data),
+    groundingMetadata,
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    usage: data.usageMetadata
+      ? {
+          inputTokens: data.usageMetadata.promptTokenCount ?? 0,
+          outputTokens: data.usageMetadata.candidatesTokenCount ?? 0
+        }
+      : undefined
+  };
 }
 
 interface GeminiGenerateContentResponse {
   candidates?: Array<{
-    content?: { parts?: Array<{ text?: string }> };
+    content?: { parts?: Array<{ text?: string; functionCall?: { name?: string; args?: Record<string, unknown> } }> };
     groundingMetadata?: GeminiGroundingMetadataResponse;
   }>;
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
   error?: { message?: string };
 }
 
@@ -633,6 +1091,14 @@ async function callAnthropicProvider(
   if (system) {
     body.system = system;
   }
+  if (payload.tools) {
+    body.tools = payload.tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.parameters
+    }));
+    body.tool_choice = { type: payload.tool_choice ?? "auto" };
+  }
 
   const headers: Record<string, string> = {
     "Content-Type": "application/json",
@@ -657,7 +1123,8 @@ async function callAnthropicProvider(
   }
 
   const data = (await response.json()) as {
-    content?: Array<{ type?: string; text?: string }>;
+    content?: Array<{ type?: string; text?: string; id?: string; name?: string; input?: Record<string, unknown> }>;
+    usage?: { input_tokens?: number; output_tokens?: number };
     error?: { message?: string };
   };
   if (data.error?.message) {
@@ -669,11 +1136,21 @@ async function callAnthropicProvider(
     .map((part) => part.text ?? "")
     .join("")
     .trim();
-  if (!text) {
+  const toolCalls = (data.content ?? [])
+    .filter((part) => part.type === "tool_use" && part.id && part.name)
+    .map((part) => ({ id: part.id!, name: part.name!, arguments: part.input ?? {} }));
+  if (!text && toolCalls.length === 0) {
     throw new Error("LLM provider returned no content");
   }
 
-  return { content: text, rawResponse: JSON.stringify(data) };
+  return {
+    content: text,
+    rawResponse: JSON.stringify(data),
+    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+    usage: data.usage
+      ? { inputTokens: data.usage.input_tokens ?? 0, outputTokens: data.usage.output_tokens ?? 0 }
+      : undefined
+  };
 }
 
 function normalizeApiBase(apiBase: string) {
@@ -697,12 +1174,25 @@ function splitMessagesForGemini(messages: ChatMessage[]) {
     .join("\n\n")
     .trim();
 
-  const contents = messages
-    .filter((message) => message.role !== "system")
-    .map((message) => ({
-      role: message.role,
-      parts: [{ text: message.content }]
-    }));
+  const contents = mergeConsecutiveTurns<Record<string, unknown>>(
+    messages
+      .filter((message) => message.role !== "system")
+      .map((message) => {
+        if (message.role === "tool") {
+          return {
+            role: "user",
+            parts: [{ functionResponse: { name: message.toolName, response: { result: parseToolResult(message) } } }]
+          };
+        }
+        const calls = (message.toolCalls ?? []).map((toolCall) => ({
+          functionCall: { name: toolCall.name, args: toolCall.arguments }
+        }));
+        return {
+          role: message.role === "assistant" ? "model" : message.role,
+          parts: [...(message.content || calls.length === 0 ? [{ text: message.content }] : []), ...calls]
+        };
+      })
+  );
 
   const systemInstruction = systemText
     ? { role: "system" as const, parts: [{ text: systemText }] }
@@ -718,17 +1208,55 @@ function splitMessagesForAnthropic(messages: ChatMessage[]) {
     .join("\n\n")
     .trim();
 
-  const chatMessages = messages
-    .filter((message) => message.role !== "system")
-    .map((message) => ({
-      role: message.role === "user" ? "user" : "assistant",
-      content: [{ type: "text", text: message.content }]
-    }));
+  // Tool results go back as user turns; consecutive ones are merged as Anthropic expects turns to alternate.
+  const chatMessages = mergeConsecutiveTurns<Record<string, unknown>>(
+    messages
+      .filter((message) => message.role !== "system")
+      .map((message) => {
+        if (message.role === "tool") {
+          return {
+            role: "user",
+            parts: [{ type: "tool_result", tool_use_id: message.toolCallId, content: message.content }]
+          };
+        }
+        const calls = (message.toolCalls ?? []).map((toolCall) => ({
+          type: "tool_use",
+          id: toolCall.id,
+          name: toolCall.name,
+          input: toolCall.arguments
+        }));
+        return {
+          role: message.role === "user" ? "user" : "assistant",
+          parts: [...(message.content || calls.length === 0 ? [{ type: "text", text: message.content }] : []), ...calls]
+        };
+      })
+  ).map(({ role, parts }) => ({ role, content: parts }));
 
   return { system: system || undefined, messages: chatMessages };
 }
 
-function parseArbitragePlan(content: string): ArbitragePlan {
+function mergeConsecutiveTurns<Part>(turns: Array<{ role: string; parts: Part[] }>) {
+  const merged: Array<{ role: string; parts: Part[] }> = [];
+  for (const turn of turns) {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.role === turn.role) {
+      previous.parts.push(...turn.parts);
+    } else {
+      merged.push({ role: turn.role, parts: [...turn.parts] });
+    }
+  }
+  return merged;
+}
+
+function parseToolResult(message: ChatMessage): unknown {
+  try {
+    return JSON.parse(message.content);
+  } catch {
+    return message.content;
+  }
+}
+
+export function parseArbitragePlan(content: string): ArbitragePlan {
   const normalized = content.trim();
   const jsonPayload = extractJson(normalized);
   const parsed = JSON.parse(jsonPayload);
@@ -762,49 +1290,11 @@ function extractJson(content: string): string {
 }
 
 async function buildTradesFromPlan(plan: ArbitragePlan, context: ExecutionContext) {
-  const trades: TradeInput[] = [];
+  const trades: PlannedOrder[] = [];
+  const quantityRules = await loadQuantityRules(prisma, plan.arbitrages.map((order) => order.symbol));
   for (const order of plan.arbitrages) {
-    const normalized = normalizeOrder(order);
-    const price = await determinePriceForOrder(normalized, context);
-    trades.push({
-      symbol: normalized.symbol,
-      side: normalized.action,
-      qty: normalized.quantity,
-      price
-    });
+    const { input, price, marketPrice, settlement } = checkPlannedOrder(order, context, quantityRules);
+    trades.push({ ...input, price, marketPrice, settlement });
   }
   return trades;
 }
-
-function normalizeOrder(order: ArbitrageOrder) {
-  if (!Number.isFinite(order.quantity) || order.quantity <= 0) {
-    throw new Error(`Invalid quantity for ${order.symbol}`);
-  }
-  if (order.orderType === "limit" && (order.limitPrice === undefined || order.limitPrice === null)) {
-    throw new Error(`Order for ${order.symbol} is limit but has no limitPrice`);
-  }
-  return order;
-}
-
-async function determinePriceForOrder(order: ArbitrageOrder, context: ExecutionContext) {
-  if (order.orderType === "limit" && order.limitPrice) {
-    return order.limitPrice;
-  }
-
-  const quote = context.raw.quotes[order.symbol] as { price?: number | null } | undefined;
-  if (quote && typeof quote.price === "number") {
-    return quote.price;
-  }
-
-  return deriveMarketPrice(order.symbol);
-}
-
-
-
-
-
-
-
-
-
-
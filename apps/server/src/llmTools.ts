@@ -0,0 +1,239 @@
+import { prisma } from "@paper-trading/db";
+import { z } from "zod";
+import { computeTradeCosts, costModelInCurrency } from "./costs";
+import { ARBITRAGE_JSON_SCHEMA, arbitrageOrderSchema } from "./llmSchema";
+import type { ExecutionContext } from "./llmService";
+import { buildPortfolioSnapshot } from "./portfolioService";
+import { checkPlannedOrder, loadOrderMarketData } from "./plannedOrders";
+import { loadQuantityRules } from "./quantityRules";
+import { getHistory, getQuote, searchSymbols } from "./yahoo";
+
+/** A function the model may call, with a JSON Schema for its arguments. */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+/** A call the model asked for; `id` pairs it with its result in the conversation. */
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/** A tool call as kept on the execution: the agent step it was made in and what it returned. */
+export interface ToolCallRecord extends ToolCall {
+  step: number;
+  result: unknown;
+  error: string | null;
+}
+
+export interface ToolEnvironment {
+  portfolioId: number;
+  context: ExecutionContext;
+}
+
+/** Runs one tool call; cassettes wrap `runLlmTool` to record or replay the results. */
+export type ToolRunner = (call: ToolCall, environment: ToolEnvironment) => Promise<unknown>;
+
+interface LlmTool<Args extends z.ZodTypeAny> {
+  definition: ToolDefinition;
+  args: Args;
+  run(args: z.output<Args>, environment: ToolEnvironment): Promise<unknown>;
+}
+
+const HISTORY_RANGES = ["1mo", "3mo", "6mo", "1y", "2y", "5y"] as const;
+const HISTORY_INTERVALS = ["1d", "1wk", "1mo"] as const;
+const MAX_HISTORY_CANDLES = 250;
+const MAX_SEARCH_RESULTS = 10;
+const MAX_TRADES = 50;
+
+const symbolArgument = z
+  .string()
+  .trim()
+  .min(1, "symbol is required")
+  .transform((value) => value.toUpperCase());
+
+const tools = new Map<string, LlmTool<z.ZodTypeAny>>();
+
+function defineTool<Args extends z.ZodTypeAny>(tool: LlmTool<Args>) {
+  tools.set(tool.definition.name, tool as LlmTool<z.ZodTypeAny>);
+}
+
+defineTool({
+  definition: {
+    name: "get_quote",
+    description: "Latest market quote for a symbol: price, currency, change, bid/ask and average volume.",
+    parameters: {
+      type: "object",
+      properties: { symbol: { type: "string", description: "Yahoo Finance symbol, e.g. AAPL or VOD.L" } },
+      required: ["symbol"]
+    }
+  },
+  args: z.object({ symbol: symbolArgument }),
+  run: ({ symbol }) => getQuote(symbol)
+});
+
+defineTool({
+  definition: {
+    name: "get_history",
+    description: `Daily, weekly or monthly candles for a symbol, latest last, at most ${MAX_HISTORY_CANDLES} of them.`,
+    parameters: {
+      type: "object",
+      properties: {
+        symbol: { type: "string" },
+        range: { type: "string", enum: HISTORY_RANGES, default: "3mo" },
+        interval: { type: "string", enum: HISTORY_INTERVALS, default: "1d" },
+        limit: { type: "integer", minimum: 1, maximum: MAX_HISTORY_CANDLES, default: 60 }
+      },
+      required: ["symbol"]
+    }
+  },
+  args: z.object({
+    symbol: symbolArgument,
+    range: z.enum(HISTORY_RANGES).default("3mo"),
+    interval: z.enum(HISTORY_INTERVALS).default("1d"),
+    limit: z.number().int().min(1).max(MAX_HISTORY_CANDLES).default(60)
+  }),
+  run: async ({ symbol, range, interval, limit }) => (await getHistory(symbol, range, interval)).slice(-limit)
+});
+
+defineTool({
+  definition: {
+    name: "search_symbol",
+    description: "Finds the Yahoo Finance symbols of instruments by company name or ticker.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: { type: "string" },
+        limit: { type: "integer", minimum: 1, maximum: MAX_SEARCH_RESULTS, default: 5 }
+      },
+      required: ["query"]
+    }
+  },
+  args: z.object({
+    query: z.string().trim().min(1, "query is required"),
+    limit: z.number().int().min(1).max(MAX_SEARCH_RESULTS).default(5)
+  }),
+  run: ({ query, limit }) => searchSymbols(query, limit)
+});
+
+defineTool({
+  definition: {
+    name: "get_portfolio",
+    description: "Current portfolio snapshot: positions with market values, cash by currency and totals.",
+    parameters: { type: "object", properties: {} }
+  },
+  args: z.object({}).passthrough(),
+  run: (_args, { portfolioId }) => buildPortfolioSnapshot(portfolioId)
+});
+
+defineTool({
+  definition: {
+    name: "get_trades",
+    description: `Trades of the portfolio, latest first and optionally for one symbol, at most ${MAX_TRADES} of them.`,
+    parameters: {
+      type: "object",
+      properties: {
+        symbol: { type: "string" },
+        limit: { type: "integer", minimum: 1, maximum: MAX_TRADES, default: 20 }
+      }
+    }
+  },
+  args: z.object({
+    symbol: symbolArgument.optional(),
+    limit: z.number().int().min(1).max(MAX_TRADES).default(20)
+  }),
+  run: async ({ symbol, limit }, { portfolioId }) => {
+    const trades = await prisma.trade.findMany({
+      where: { portfolioId, reversedAt: null, ...(symbol ? { symbol } : {}) },
+      orderBy: { ts: "desc" },
+      take: limit
+    });
+    return trades.map((trade) => ({
+      id: trade.id,
+      symbol: trade.symbol,
+      side: trade.side,
+      qty: trade.qty.toNumber(),
+      price: trade.price.toNumber(),
+      fee: trade.fee.toNumber(),
+      slippage: trade.slippage.toNumber(),
+      realizedPnL: trade.realizedPnL ? trade.realizedPnL.toNumber() : null,
+      ts: trade.ts.toISOString()
+    }));
+  }
+});
+
+// Checks an order the way the final plan will be checked and estimates what it costs, so the
+// model can size orders before committing to a plan. Nothing is placed.
+defineTool({
+  definition: {
+    name: "place_order_draft",
+    description:
+      "Validates an order in the plan's order format and estimates its cost including fees and slippage " +
+      "against the cash it settles from. The order is NOT placed; put it in the final plan to trade it.",
+    parameters: {
+      type: "object",
+      properties: {
+        symbol: { type: "string" },
+        action: { type: "string", enum: ["BUY", "SELL"] },
+        quantity: { type: "number", exclusiveMinimum: 0 },
+        orderType: { type: "string", enum: ["market", "limit", "stop", "stop_limit", "trailing_stop"] },
+        limitPrice: { type: "number" },
+        stopPrice: { type: "number" },
+        trailAmount: { type: "number" },
+        trailPercent: { type: "number" },
+        timeInForce: { type: "string", enum: ["DAY", "GTC", "GTD", "IOC", "FOK"] },
+        expiresAt: { type: "string", format: "date-time" },
+        bracket: ARBITRAGE_JSON_SCHEMA.properties.arbitrages.items.properties.bracket
+      },
+      required: ["symbol", "action", "quantity"]
+    }
+  },
+  args: arbitrageOrderSchema,
+  run: async (order, { context }) => {
+    await loadOrderMarketData(context, [order.symbol]);
+    const quantityRules = await loadQuantityRules(prisma, [order.symbol]);
+    const { input, price, currency, settlement, quote } = checkPlannedOrder(order, context, quantityRules);
+    const { fee, slippage } = computeTradeCosts(
+      costModelInCurrency(context.costModel, settlement.baseRate),
+      { symbol: input.symbol, side: input.side, qty: input.qty, price },
+      quote
+    );
+    const notional = price * input.qty;
+    const cash = context.cashBalances.find((balance) => balance.currency === settlement.currency)?.amount ?? 0;
+    const total = (input.side === "BUY" ? notional + fee + slippage : notional - fee - slippage) * settlement.rate;
+
+    return {
+      placed: false,
+      order: { ...order, orderType: input.orderType, timeInForce: input.timeInForce },
+      estimate: { price, currency, notional, fee, slippage },
+      settlement: {
+        currency: settlement.currency,
+        amount: total,
+        availableCash: cash,
+        fitsCash: input.side === "SELL" || total <= cash
+      }
+    };
+  }
+});
+
+/** The tools offered to the model in agent mode. */
+export const LLM_TOOLS: ToolDefinition[] = Array.from(tools.values(), (tool) => tool.definition);
+
+/**
+ * Runs a tool call against live data. Unknown tools and arguments that do not validate throw,
+ * and the agent loop hands the error back to the model as the call's result.
+ */
+export const runLlmTool: ToolRunner = async (call, environment) => {
+  const tool = tools.get(call.name);
+  if (!tool) {
+    throw new Error(`Unknown tool "${call.name}". Available tools: ${Array.from(tools.keys()).join(", ")}`);
+  }
+  const parsed = tool.args.safeParse(call.arguments ?? {});
+  if (!parsed.success) {
+    throw new Error(`Invalid arguments for ${call.name}: ${parsed.error.message}`);
+  }
+  return tool.run(parsed.data, environment);
+};
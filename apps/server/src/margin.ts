@@ -0,0 +1,226 @@
+import { Prisma } from "@paper-trading/db";
+import type { Portfolio, Position } from "@paper-trading/db";
+import { TradeInput } from "./portfolio";
+import { describeCash } from "./cashBalances";
+import { getFxRate } from "./fx";
+import { getQuote } from "./yahoo";
+
+export interface MarginPolicy {
+  allowShort: boolean;
+  /** Annual borrow fee as a fraction of the short market value (0.03 = 3% a year), accrued daily. */
+  borrowFeeRate: number;
+  /** Equity required to open exposure, as a fraction of gross exposure. */
+  initialMarginRate: number;
+  /** Equity below this fraction of gross exposure triggers a margin call. */
+  maintenanceMarginRate: number;
+}
+
+export interface MarkedPosition {
+  symbol: string;
+  qty: number;
+  /** Price in the instrument's currency. */
+  price: number;
+  /** Base currency units per unit of `price`; 1 when omitted. */
+  fxRate?: number;
+}
+
+export interface MarginState {
+  equity: number;
+  longMarketValue: number;
+  shortMarketValue: number;
+  grossExposure: number;
+  initialRequirement: number;
+  maintenanceRequirement: number;
+  /** Equity above the initial requirement; negative when no new exposure can be opened. */
+  availableMargin: number;
+  marginCall: boolean;
+}
+
+export interface LiquidationStep {
+  symbol: string;
+  side: "BUY" | "SELL";
+  qty: number;
+}
+
+export function marginPolicyFromPortfolio(portfolio: Portfolio): MarginPolicy {
+  return {
+    allowShort: portfolio.allowShort,
+    borrowFeeRate: portfolio.borrowFeeRate.toNumber(),
+    initialMarginRate: portfolio.initialMarginRate.toNumber(),
+    maintenanceMarginRate: portfolio.maintenanceMarginRate.toNumber()
+  };
+}
+
+function baseValue(position: MarkedPosition) {
+  return position.qty * position.price * (position.fxRate ?? 1);
+}
+
+/**
+ * Equity is cash plus the signed market value of every position, so short sale proceeds sitting
+ * in cash are offset by the liability to buy the shares back. Requirements apply to gross
+ * exposure (longs plus the absolute value of shorts). Everything is in the base currency.
+ */
+export function computeMarginState(cash: number, positions: MarkedPosition[], policy: MarginPolicy): MarginState {
+  let longMarketValue = 0;
+  let shortMarketValue = 0;
+  for (const position of positions) {
+    const value = baseValue(position);
+    if (value >= 0) {
+      longMarketValue += value;
+    } else {
+      shortMarketValue += -value;
+    }
+  }
+
+  const equity = cash + longMarketValue - shortMarketValue;
+  const grossExposure = longMarketValue + shortMarketValue;
+  const initialRequirement = grossExposure * policy.initialMarginRate;
+  const maintenanceRequirement = grossExposure * policy.maintenanceMarginRate;
+
+  return {
+    equity,
+    longMarketValue,
+    shortMarketValue,
+    grossExposure,
+    initialRequirement,
+    maintenanceRequirement,
+    availableMargin: equity - initialRequirement,
+    marginCall: grossExposure > 0 && equity < maintenanceRequirement
+  };
+}
+
+/**
+ * Returns the cash and positions the portfolio would have after `trade` fills. `fxRate`
+ * converts the trade's currency into the base currency of `cash`.
+ */
+export function projectFill(cash: number, positions: MarkedPosition[], trade: TradeInput, fxRate = 1) {
+  const costs = (trade.fee ?? 0) + (trade.slippage ?? 0);
+  const signedQty = trade.side === "BUY" ? trade.qty : -trade.qty;
+  const projectedCash = cash - (signedQty * trade.price + costs) * fxRate;
+
+  const projected = positions.map((position) =>
+    position.symbol === trade.symbol
+      ? { ...position, qty: position.qty + signedQty, price: trade.price, fxRate }
+      : position
+  );
+  if (!positions.some((position) => position.symbol === trade.symbol)) {
+    projected.push({ symbol: trade.symbol, qty: signedQty, price: trade.price, fxRate });
+  }
+
+  return { cash: projectedCash, positions: projected.filter((position) => position.qty !== 0) };
+}
+
+/**
+ * Rejects a fill that adds gross exposure while leaving equity below the initial requirement.
+ * Fills that only reduce exposure are always allowed so an over-leveraged portfolio can still
+ * close positions.
+ */
+export function assertInitialMargin(
+  cash: number,
+  positions: MarkedPosition[],
+  trade: TradeInput,
+  policy: MarginPolicy,
+  fxRate = 1
+) {
+  const before = computeMarginState(cash, positions, policy);
+  const projected = projectFill(cash, positions, trade, fxRate);
+  const after = computeMarginState(projected.cash, projected.positions, policy);
+
+  if (after.grossExposure > before.grossExposure && after.equity < after.initialRequirement) {
+    throw new Error(
+      `Insufficient margin for ${trade.side} ${trade.qty} ${trade.symbol}: equity ${after.equity.toFixed(2)} ` +
+        `would be below the initial requirement of ${after.initialRequirement.toFixed(2)}`
+    );
+  }
+}
+
+export function describeMarginPolicy(policy: MarginPolicy) {
+  if (!policy.allowShort) {
+    return "disabled; SELL orders may only reduce existing long positions.";
+  }
+  const percent = (value: number) => `${Number((value * 100).toFixed(4))}%`;
+  return (
+    `allowed; a SELL beyond the held quantity opens a short (negative quantity). ` +
+    `Borrow fee ${percent(policy.borrowFeeRate)} a year of the short market value, charged daily. ` +
+    `New exposure needs equity of at least ${percent(policy.initialMarginRate)} of gross exposure; ` +
+    `below ${percent(policy.maintenanceMarginRate)} positions are liquidated.`
+  );
+}
+
+/** Borrow fee for holding `shortMarketValue` short for `days` days at an annual `rate`. */
+export function computeBorrowFee(shortMarketValue: number, rate: number, days: number) {
+  if (shortMarketValue <= 0 || rate <= 0 || days <= 0) {
+    return 0;
+  }
+  return Math.round(((shortMarketValue * rate * days) / 365) * 10_000) / 10_000;
+}
+
+/**
+ * Picks the next position to close during a margin call. Shorts are bought back largest first
+ * while cash allows; otherwise the largest long is sold to raise cash. When only shorts are
+ * left and cash cannot cover them, as much of the largest short as cash allows is covered.
+ */
+export function nextLiquidationStep(cash: number, positions: MarkedPosition[]): LiquidationStep | null {
+  const byExposure = [...positions].sort((a, b) => Math.abs(baseValue(b)) - Math.abs(baseValue(a)));
+  const shorts = byExposure.filter((position) => position.qty < 0);
+  const longs = byExposure.filter((position) => position.qty > 0);
+
+  const coverable = shorts.find((position) => -baseValue(position) <= cash);
+  if (coverable) {
+    return { symbol: coverable.symbol, side: "BUY", qty: -coverable.qty };
+  }
+  if (longs.length > 0) {
+    return { symbol: longs[0].symbol, side: "SELL", qty: longs[0].qty };
+  }
+  if (shorts.length > 0) {
+    const qty = Math.min(-shorts[0].qty, Math.floor(cash / (shorts[0].price * (shorts[0].fxRate ?? 1))));
+    return qty > 0 ? { symbol: shorts[0].symbol, side: "BUY", qty } : null;
+  }
+  return null;
+}
+
+/**
+ * Marks positions at their latest quote, falling back to the average price when a symbol
+ * cannot be quoted. `overrides` wins over both, e.g. the fill price of the symbol being traded.
+ * With a `baseCurrency` each position also carries the rate into it.
+ */
+export async function markPositions(
+  positions: Pick<Position, "symbol" | "qty" | "avgPrice" | "currency">[],
+  overrides: Record<string, number | null | undefined> = {},
+  baseCurrency?: string
+): Promise<MarkedPosition[]> {
+  return Promise.all(
+    positions.map(async (position) => {
+      const override = overrides[position.symbol];
+      let price = override ?? null;
+      if (price === null) {
+        const quote = await getQuote(position.symbol).catch(() => null);
+        price = quote?.price ?? quote?.previousClose ?? position.avgPrice.toNumber();
+      }
+      const fxRate = baseCurrency ? await getFxRate(position.currency, baseCurrency) : 1;
+      return { symbol: position.symbol, qty: position.qty.toNumber(), price, fxRate };
+    })
+  );
+}
+
+/** Total cash of the portfolio in its base currency. */
+export async function totalCashInBase(tx: Prisma.TransactionClient, portfolio: Portfolio) {
+  const balances = await describeCash(tx, portfolio);
+  return balances.reduce((sum, balance) => sum + balance.baseAmount, 0);
+}
+
+/**
+ * Checks the initial margin requirement for `trade` against the portfolio's current book.
+ * `fxRate` converts the trade's currency into the base currency.
+ */
+export async function assertMarginForTrade(
+  tx: Prisma.TransactionClient,
+  portfolio: Portfolio,
+  trade: TradeInput,
+  fxRate = 1
+) {
+  const positions = await tx.position.findMany({ where: { portfolioId: portfolio.id } });
+  const marked = await markPositions(positions, { [trade.symbol]: trade.price }, portfolio.baseCurrency);
+  const cash = await totalCashInBase(tx, portfolio);
+  assertInitialMargin(cash, marked, trade, marginPolicyFromPortfolio(portfolio), fxRate);
+}
@@ -0,0 +1,137 @@
+import { Prisma, prisma } from "@paper-trading/db";
+import type { Order, Portfolio } from "@paper-trading/db";
+import type { BackgroundJob } from "./backgroundJobs";
+import {
+  computeBorrowFee,
+  computeMarginState,
+  marginPolicyFromPortfolio,
+  markPositions,
+  MarkedPosition,
+  nextLiquidationStep,
+  totalCashInBase
+} from "./margin";
+import { debitCash } from "./cashBalances";
+import { cancelOpenOrders, submitOrders } from "./orderService";
+import { isMarketOpen } from "./marketCalendar";
+
+const DEFAULT_MARGIN_INTERVAL_MS = 15 * 60_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Charges the borrow fee for every whole day a portfolio has held shorts since its last accrual.
+ * The accrual timestamp is advanced with a compare-and-set, so overlapping runs never charge
+ * the same day twice. Portfolios without shorts just move the timestamp forward.
+ */
+export async function accrueBorrowFees(portfolio: Portfolio, marked: MarkedPosition[], now = new Date()) {
+  const since = portfolio.borrowAccruedAt;
+  const { shortMarketValue } = computeMarginState(0, marked, marginPolicyFromPortfolio(portfolio));
+
+  if (!since || shortMarketValue === 0) {
+    await prisma.portfolio.updateMany({
+      where: { id: portfolio.id, borrowAccruedAt: since },
+      data: { borrowAccruedAt: now }
+    });
+    return 0;
+  }
+
+  const days = Math.floor((now.getTime() - since.getTime()) / DAY_MS);
+  if (days < 1) {
+    return 0;
+  }
+
+  const fee = computeBorrowFee(shortMarketValue, portfolio.borrowFeeRate.toNumber(), days);
+  return prisma.$transaction(async (tx) => {
+    const claimed = await tx.portfolio.updateMany({
+      where: { id: portfolio.id, borrowAccruedAt: since },
+      data: {
+        borrowAccruedAt: new Date(since.getTime() + days * DAY_MS),
+        borrowFeesPaid: { increment: new Prisma.Decimal(fee) }
+      }
+    });
+    if (claimed.count !== 1) {
+      return 0;
+    }
+    await debitCash(tx, portfolio.id, portfolio.baseCurrency, new Prisma.Decimal(fee), {
+      type: "fee",
+      note: `Borrow fee for ${days} day${days === 1 ? "" : "s"}`
+    });
+    return fee;
+  });
+}
+
+/**
+ * Liquidates positions while the portfolio is below its maintenance requirement. Open orders
+ * are cancelled first so their reservations do not block the liquidation, then positions are
+ * closed one at a time with market orders until the call is met or nothing more can be sold.
+ */
+export async function enforceMaintenanceMargin(portfolio: Portfolio, marked: MarkedPosition[]) {
+  const policy = marginPolicyFromPortfolio(portfolio);
+  let cash = await totalCashInBase(prisma, portfolio);
+  let positions = marked;
+  let state = computeMarginState(cash, positions, policy);
+  if (!state.marginCall) {
+    return [];
+  }
+
+  console.warn(
+    `Margin call on portfolio ${portfolio.id}: equity ${state.equity.toFixed(2)} is below the maintenance ` +
+      `requirement of ${state.maintenanceRequirement.toFixed(2)}`
+  );
+  await cancelOpenOrders(portfolio.id, "Cancelled by margin call");
+
+  const prices = Object.fromEntries(marked.map((position) => [position.symbol, position.price]));
+  const liquidated: Order[] = [];
+  for (let attempt = 0; attempt < marked.length && state.marginCall; attempt += 1) {
+    const step = nextLiquidationStep(cash, positions);
+    if (!step) {
+      break;
+    }
+    if (!isMarketOpen(step.symbol)) {
+      console.warn(`Deferring margin liquidation of ${step.symbol} on portfolio ${portfolio.id} until its market opens`);
+      break;
+    }
+
+    const [order] = await submitOrders([{ ...step, orderType: "market" }], portfolio.id, {
+      source: "margin",
+      marketPrices: prices
+    });
+    liquidated.push(order);
+
+    const refreshed = await prisma.portfolio.findUniqueOrThrow({ where: { id: portfolio.id } });
+    const remaining = await prisma.position.findMany({ where: { portfolioId: portfolio.id } });
+    cash = await totalCashInBase(prisma, refreshed);
+    positions = await markPositions(remaining, prices, portfolio.baseCurrency);
+    state = computeMarginState(cash, positions, policy);
+  }
+
+  if (state.marginCall) {
+    console.error(`Portfolio ${portfolio.id} is still below maintenance margin after liquidation`);
+  }
+  return liquidated;
+}
+
+export async function runMarginChecks(now = new Date()) {
+  const portfolios = await prisma.portfolio.findMany({ where: { allowShort: true } });
+
+  for (const portfolio of portfolios) {
+    try {
+      const positions = await prisma.position.findMany({ where: { portfolioId: portfolio.id } });
+      const marked = await markPositions(positions, {}, portfolio.baseCurrency);
+      await accrueBorrowFees(portfolio, marked, now);
+
+      const current = await prisma.portfolio.findUniqueOrThrow({ where: { id: portfolio.id } });
+      await enforceMaintenanceMargin(current, marked);
+    } catch (error) {
+      console.error(`Margin check failed for portfolio ${portfolio.id}`, error);
+    }
+  }
+}
+
+export function createMarginJob(): BackgroundJob {
+  const interval = Number(process.env.MARGIN_CHECK_INTERVAL_MS);
+  return {
+    name: "margin-check",
+    intervalMs: Number.isFinite(interval) && interval > 0 ? interval : DEFAULT_MARGIN_INTERVAL_MS,
+    run: () => runMarginChecks()
+  };
+}
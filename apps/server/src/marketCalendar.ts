@@ -0,0 +1,250 @@
+import { MIC_TO_SUFFIX } from "@paper-trading/server-shared";
+import { EXCHANGE_HOLIDAYS, EXCHANGE_SESSIONS, ExchangeSession } from "./marketCalendarData";
+
+export type { ExchangeSession } from "./marketCalendarData";
+
+/**
+ * What happens to an order submitted while its market is closed: `reject` refuses it, `queue`
+ * rests it on the book until the session opens and `next_open` fills it at the opening price.
+ */
+export type MarketHoursPolicy = "reject" | "queue" | "next_open";
+
+export const MARKET_HOURS_POLICIES: MarketHoursPolicy[] = ["reject", "queue", "next_open"];
+
+export interface TradingWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface MarketStatus {
+  mic: string;
+  name: string;
+  timeZone: string;
+  isOpen: boolean;
+  /** True when today's session ends early. */
+  earlyClose: boolean;
+  nextOpen: Date | null;
+  nextClose: Date | null;
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** How far ahead to look for the next session; covers the longest holiday runs in the data. */
+const SESSION_SEARCH_DAYS = 14;
+/** Several US MICs share the empty Yahoo suffix; NYSE stands in for all of them. */
+const PRIMARY_MIC_BY_SUFFIX: Record<string, string> = { "": "XNYS" };
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      weekday: "short",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit"
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/** Wall-clock date and time of `date` in `timeZone`; `month` is 0-based like `Date`. */
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = Object.fromEntries(formatterFor(timeZone).formatToParts(date).map((part) => [part.type, part.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month) - 1,
+    day: Number(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute)
+  };
+}
+
+function offsetMs(instant: number, timeZone: string) {
+  const minute = Math.floor(instant / 60_000) * 60_000;
+  const local = zonedParts(new Date(minute), timeZone);
+  return Date.UTC(local.year, local.month, local.day, local.hour, local.minute) - minute;
+}
+
+/**
+ * The instant a wall-clock time occurs in `timeZone`. Out-of-range days roll over like
+ * `Date.UTC`; a time skipped by a DST change resolves to an instant next to the gap.
+ */
+export function zonedTime(year: number, month: number, day: number, time: string, timeZone: string) {
+  const [hours, minutes] = time.split(":").map((part) => Number.parseInt(part, 10));
+  const wallClock = Date.UTC(year, month, day, hours || 0, minutes || 0);
+  const firstGuess = wallClock - offsetMs(wallClock, timeZone);
+  const offset = offsetMs(firstGuess, timeZone);
+  return new Date(wallClock - offset);
+}
+
+/** The local calendar date of `date` in `timeZone`, as "YYYY-MM-DD". */
+export function localDateKey(date: Date, timeZone: string) {
+  const { year, month, day } = zonedParts(date, timeZone);
+  return toDateKey(year, month, day);
+}
+
+function toDateKey(year: number, month: number, day: number) {
+  return new Date(Date.UTC(year, month, day)).toISOString().slice(0, 10);
+}
+
+function parseDateKey(key: string) {
+  const [year, month, day] = key.split("-").map((part) => Number.parseInt(part, 10));
+  return { year, month: month - 1, day };
+}
+
+export function exchangeForMic(mic: string | null | undefined): ExchangeSession | null {
+  return mic ? EXCHANGE_SESSIONS[mic.toUpperCase()] ?? null : null;
+}
+
+/**
+ * The venue a Yahoo symbol trades on, resolved from its suffix through the MIC table. Crypto
+ * pairs, FX crosses and indices trade around the clock or have no venue, so they return null
+ * and are never restricted.
+ */
+export function exchangeForSymbol(symbol: string): ExchangeSession | null {
+  const normalized = symbol.trim().toUpperCase();
+  if (/^[A-Z0-9]+-[A-Z]{3}$/.test(normalized) || normalized.startsWith("^") || normalized.endsWith("=X")) {
+    return null;
+  }
+  const dot = normalized.lastIndexOf(".");
+  const suffix = dot > 0 ? normalized.slice(dot) : "";
+  const primary = PRIMARY_MIC_BY_SUFFIX[suffix];
+  if (primary) {
+    return exchangeForMic(primary);
+  }
+  const mic = Object.keys(MIC_TO_SUFFIX).find((candidate) => MIC_TO_SUFFIX[candidate] === suffix && EXCHANGE_SESSIONS[candidate]);
+  return exchangeForMic(mic);
+}
+
+/** The windows the venue trades in on a local date; empty on weekends and holidays. */
+export function tradingWindows(exchange: ExchangeSession, dateKey: string): TradingWindow[] {
+  const { year, month, day } = parseDateKey(dateKey);
+  const weekday = new Date(Date.UTC(year, month, day)).getUTCDay();
+  const holidays = EXCHANGE_HOLIDAYS[exchange.holidaysFrom ?? exchange.mic];
+  if (weekday === 0 || weekday === 6 || holidays?.closed.includes(dateKey)) {
+    return [];
+  }
+
+  const at = (time: string) => zonedTime(year, month, day, time, exchange.timeZone);
+  const close = at(holidays?.earlyCloses[dateKey] ?? exchange.close);
+  const open = at(exchange.open);
+  if (!exchange.lunchBreak) {
+    return [{ start: open, end: close }];
+  }
+  const breakStart = at(exchange.lunchBreak[0]);
+  const breakEnd = at(exchange.lunchBreak[1]);
+  if (close.getTime() <= breakStart.getTime()) {
+    return [{ start: open, end: close }];
+  }
+  return [
+    { start: open, end: breakStart },
+    { start: breakEnd, end: close }
+  ];
+}
+
+export function isTradingDay(exchange: ExchangeSession, dateKey: string) {
+  return tradingWindows(exchange, dateKey).length > 0;
+}
+
+export function marketStatus(exchange: ExchangeSession, at: Date): MarketStatus {
+  const today = localDateKey(at, exchange.timeZone);
+  const { year, month, day } = parseDateKey(today);
+  const holidays = EXCHANGE_HOLIDAYS[exchange.holidaysFrom ?? exchange.mic];
+  const status: MarketStatus = {
+    mic: exchange.mic,
+    name: exchange.name,
+    timeZone: exchange.timeZone,
+    isOpen: false,
+    earlyClose: Boolean(holidays?.earlyCloses[today]) && isTradingDay(exchange, today),
+    nextOpen: null,
+    nextClose: null
+  };
+
+  for (let offset = 0; offset <= SESSION_SEARCH_DAYS && !status.nextOpen; offset += 1) {
+    for (const window of tradingWindows(exchange, toDateKey(year, month, day + offset))) {
+      if (window.end.getTime() <= at.getTime()) {
+        continue;
+      }
+      if (window.start.getTime() <= at.getTime()) {
+        status.isOpen = true;
+        status.nextClose = status.nextClose ?? window.end;
+        continue;
+      }
+      status.nextOpen = window.start;
+      status.nextClose = status.nextClose ?? window.end;
+      break;
+    }
+  }
+  return status;
+}
+
+/**
+ * The close of the trading day in progress at `at`, or of the next one when the venue is shut.
+ * On venues with a lunch break this is the afternoon close. Symbols without a venue calendar
+ * roll over at midnight UTC.
+ */
+export function sessionCloseForSymbol(symbol: string, at: Date) {
+  const exchange = exchangeForSymbol(symbol);
+  if (!exchange) {
+    return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate() + 1));
+  }
+  const { year, month, day } = parseDateKey(localDateKey(at, exchange.timeZone));
+  for (let offset = 0; offset <= SESSION_SEARCH_DAYS; offset += 1) {
+    const windows = tradingWindows(exchange, toDateKey(year, month, day + offset));
+    const close = windows[windows.length - 1]?.end;
+    if (close && close.getTime() > at.getTime()) {
+      return close;
+    }
+  }
+  return null;
+}
+
+/** Local midnight of the day `at` falls on at the symbol's venue, or UTC midnight without one. */
+export function tradingDayStart(symbol: string, at: Date) {
+  const exchange = exchangeForSymbol(symbol);
+  if (!exchange) {
+    return new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate()));
+  }
+  const { year, month, day } = zonedParts(at, exchange.timeZone);
+  return zonedTime(year, month, day, "00:00", exchange.timeZone);
+}
+
+/** True when `symbol` can trade at `at`; symbols without a known venue always can. */
+export function isMarketOpen(symbol: string, at: Date = new Date()) {
+  const exchange = exchangeForSymbol(symbol);
+  return !exchange || marketStatus(exchange, at).isOpen;
+}
+
+/** Upcoming full and half-day closures within `days` of `from`, for display. */
+export function upcomingClosures(exchange: ExchangeSession, from: Date, days = 30) {
+  const holidays = EXCHANGE_HOLIDAYS[exchange.holidaysFrom ?? exchange.mic];
+  if (!holidays) {
+    return [];
+  }
+  const first = localDateKey(from, exchange.timeZone);
+  const last = localDateKey(new Date(from.getTime() + days * DAY_MS), exchange.timeZone);
+  const inRange = (key: string) => key >= first && key <= last;
+  return [
+    ...holidays.closed.filter(inRange).map((date) => ({ date, closesAt: null as string | null })),
+    ...Object.entries(holidays.earlyCloses)
+      .filter(([date]) => inRange(date))
+      .map(([date, closesAt]) => ({ date, closesAt }))
+  ].sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -0,0 +1,161 @@
+export interface ExchangeSession {
+  mic: string;
+  name: string;
+  /** IANA time zone the session times are expressed in. */
+  timeZone: string;
+  /** Regular session, local "HH:MM". */
+  open: string;
+  close: string;
+  /** Midday break during which the venue does not trade, local "HH:MM". */
+  lunchBreak?: [string, string];
+  /** MIC whose holiday calendar this venue follows; defaults to its own. */
+  holidaysFrom?: string;
+}
+
+export interface HolidayCalendar {
+  /** Weekdays on which the venue is closed all day, "YYYY-MM-DD". */
+  closed: string[];
+  /** Half days, mapped to the local time the session ends early. */
+  earlyCloses: Record<string, string>;
+}
+
+/**
+ * Regular trading hours keyed by MIC. Venues from `MIC_TO_SUFFIX` that are missing here are
+ * not enforced at all, so their orders trade whenever a quote is available.
+ */
+export const EXCHANGE_SESSIONS: Record<string, ExchangeSession> = {
+  XNYS: { mic: "XNYS", name: "NYSE", timeZone: "America/New_York", open: "09:30", close: "16:00" },
+  XNAS: { mic: "XNAS", name: "Nasdaq", timeZone: "America/New_York", open: "09:30", close: "16:00", holidaysFrom: "XNYS" },
+  XNGS: { mic: "XNGS", name: "Nasdaq", timeZone: "America/New_York", open: "09:30", close: "16:00", holidaysFrom: "XNYS" },
+  XASE: { mic: "XASE", name: "NYSE American", timeZone: "America/New_York", open: "09:30", close: "16:00", holidaysFrom: "XNYS" },
+  ARCX: { mic: "ARCX", name: "NYSE Arca", timeZone: "America/New_York", open: "09:30", close: "16:00", holidaysFrom: "XNYS" },
+  XTSE: { mic: "XTSE", name: "Toronto Stock Exchange", timeZone: "America/Toronto", open: "09:30", close: "16:00" },
+  XTSX: { mic: "XTSX", name: "TSX Venture", timeZone: "America/Toronto", open: "09:30", close: "16:00", holidaysFrom: "XTSE" },
+  XMEX: { mic: "XMEX", name: "Bolsa Mexicana", timeZone: "America/Mexico_City", open: "08:30", close: "15:00" },
+  XLON: { mic: "XLON", name: "London Stock Exchange", timeZone: "Europe/London", open: "08:00", close: "16:30" },
+  XPAR: { mic: "XPAR", name: "Euronext Paris", timeZone: "Europe/Paris", open: "09:00", close: "17:30" },
+  XAMS: { mic: "XAMS", name: "Euronext Amsterdam", timeZone: "Europe/Amsterdam", open: "09:00", close: "17:30", holidaysFrom: "XPAR" },
+  XBRU: { mic: "XBRU", name: "Euronext Brussels", timeZone: "Europe/Brussels", open: "09:00", close: "17:30", holidaysFrom: "XPAR" },
+  XETR: { mic: "XETR", name: "Xetra", timeZone: "Europe/Berlin", open: "09:00", close: "17:30" },
+  XFRA: { mic: "XFRA", name: "Frankfurt", timeZone: "Europe/Berlin", open: "08:00", close: "20:00", holidaysFrom: "XETR" },
+  XSWX: { mic: "XSWX", name: "SIX Swiss Exchange", timeZone: "Europe/Zurich", open: "09:00", close: "17:30" },
+  MTAA: { mic: "MTAA", name: "Borsa Italiana", timeZone: "Europe/Rome", open: "09:00", close: "17:30" },
+  XMAD: { mic: "XMAD", name: "Bolsa de Madrid", timeZone: "Europe/Madrid", open: "09:00", close: "17:30" },
+  XSTO: { mic: "XSTO", name: "Nasdaq Stockholm", timeZone: "Europe/Stockholm", open: "09:00", close: "17:30" },
+  XCSE: { mic: "XCSE", name: "Nasdaq Copenhagen", timeZone: "Europe/Copenhagen", open: "09:00", close: "17:00" },
+  XHEL: { mic: "XHEL", name: "Nasdaq Helsinki", timeZone: "Europe/Helsinki", open: "10:00", close: "18:30" },
+  XOSL: { mic: "XOSL", name: "Oslo Bors", timeZone: "Europe/Oslo", open: "09:00", close: "16:20" },
+  XJSE: { mic: "XJSE", name: "Johannesburg Stock Exchange", timeZone: "Africa/Johannesburg", open: "09:00", close: "17:00" },
+  XHKG: {
+    mic: "XHKG",
+    name: "Hong Kong Exchanges",
+    timeZone: "Asia/Hong_Kong",
+    open: "09:30",
+    close: "16:00",
+    lunchBreak: ["12:00", "13:00"]
+  },
+  XSES: {
+    mic: "XSES",
+    name: "Singapore Exchange",
+    timeZone: "Asia/Singapore",
+    open: "09:00",
+    close: "17:00",
+    lunchBreak: ["12:00", "13:00"]
+  },
+  XTAI: { mic: "XTAI", name: "Taiwan Stock Exchange", timeZone: "Asia/Taipei", open: "09:00", close: "13:30" },
+  XKRX: { mic: "XKRX", name: "Korea Exchange", timeZone: "Asia/Seoul", open: "09:00", close: "15:30" },
+  XKOS: { mic: "XKOS", name: "KOSDAQ", timeZone: "Asia/Seoul", open: "09:00", close: "15:30", holidaysFrom: "XKRX" },
+  XNSE: { mic: "XNSE", name: "National Stock Exchange of India", timeZone: "Asia/Kolkata", open: "09:15", close: "15:30" },
+  XBOM: { mic: "XBOM", name: "Bombay Stock Exchange", timeZone: "Asia/Kolkata", open: "09:15", close: "15:30", holidaysFrom: "XNSE" },
+  XASX: { mic: "XASX", name: "Australian Securities Exchange", timeZone: "Australia/Sydney", open: "10:00", close: "16:00" },
+  XNZE: { mic: "XNZE", name: "New Zealand Exchange", timeZone: "Pacific/Auckland", open: "10:00", close: "16:45" }
+};
+
+/**
+ * Bundled exchange holidays so the calendar works offline. Venues without an entry (or years
+ * not listed) only observe weekends; extend this table when a new year's calendar is published.
+ */
+export const EXCHANGE_HOLIDAYS: Record<string, HolidayCalendar> = {
+  XNYS: {
+    closed: [
+      "2025-01-01", "2025-01-09", "2025-01-20", "2025-02-17", "2025-04-18", "2025-05-26", "2025-06-19",
+      "2025-07-04", "2025-09-01", "2025-11-27", "2025-12-25",
+      "2026-01-01", "2026-01-19", "2026-02-16", "2026-04-03", "2026-05-25", "2026-06-19", "2026-07-03",
+      "2026-09-07", "2026-11-26", "2026-12-25"
+    ],
+    earlyCloses: {
+      "2025-07-03": "13:00",
+      "2025-11-28": "13:00",
+      "2025-12-24": "13:00",
+      "2026-11-27": "13:00",
+      "2026-12-24": "13:00"
+    }
+  },
+  XTSE: {
+    closed: [
+      "2025-01-01", "2025-02-17", "2025-04-18", "2025-05-19", "2025-07-01", "2025-08-04", "2025-09-01",
+      "2025-10-13", "2025-12-25", "2025-12-26",
+      "2026-01-01", "2026-02-16", "2026-04-03", "2026-05-18", "2026-07-01", "2026-08-03", "2026-09-07",
+      "2026-10-12", "2026-12-25", "2026-12-28"
+    ],
+    earlyCloses: { "2025-12-24": "13:00", "2026-12-24": "13:00" }
+  },
+  XLON: {
+    closed: [
+      "2025-01-01", "2025-04-18", "2025-04-21", "2025-05-05", "2025-05-26", "2025-08-25", "2025-12-25",
+      "2025-12-26",
+      "2026-01-01", "2026-04-03", "2026-04-06", "2026-05-04", "2026-05-25", "2026-08-31", "2026-12-25",
+      "2026-12-28"
+    ],
+    earlyCloses: { "2025-12-24": "12:30", "2025-12-31": "12:30", "2026-12-24": "12:30", "2026-12-31": "12:30" }
+  },
+  XPAR: {
+    closed: [
+      "2025-01-01", "2025-04-18", "2025-04-21", "2025-05-01", "2025-12-25", "2025-12-26",
+      "2026-01-01", "2026-04-03", "2026-04-06", "2026-05-01", "2026-12-25"
+    ],
+    earlyCloses: { "2025-12-24": "14:05", "2025-12-31": "14:05", "2026-12-24": "14:05", "2026-12-31": "14:05" }
+  },
+  XETR: {
+    closed: [
+      "2025-01-01", "2025-04-18", "2025-04-21", "2025-05-01", "2025-12-24", "2025-12-25", "2025-12-26",
+      "2025-12-31",
+      "2026-01-01", "2026-04-03", "2026-04-06", "2026-05-01", "2026-12-24", "2026-12-25", "2026-12-31"
+    ],
+    earlyCloses: {}
+  },
+  XSWX: {
+    closed: [
+      "2025-01-01", "2025-01-02", "2025-04-18", "2025-04-21", "2025-05-01", "2025-05-29", "2025-06-09",
+      "2025-08-01", "2025-12-24", "2025-12-25", "2025-12-26", "2025-12-31",
+      "2026-01-01", "2026-01-02", "2026-04-03", "2026-04-06", "2026-05-01", "2026-05-14", "2026-05-25",
+      "2026-12-24", "2026-12-25", "2026-12-31"
+    ],
+    earlyCloses: {}
+  },
+  XHKG: {
+    closed: [
+      "2025-01-01", "2025-01-29", "2025-01-30", "2025-01-31", "2025-04-04", "2025-04-18", "2025-04-21",
+      "2025-05-01", "2025-05-05", "2025-07-01", "2025-10-01", "2025-10-07", "2025-10-29", "2025-12-25",
+      "2025-12-26",
+      "2026-01-01", "2026-02-17", "2026-02-18", "2026-02-19", "2026-04-03", "2026-04-06", "2026-04-07",
+      "2026-05-01", "2026-05-25", "2026-06-19", "2026-07-01", "2026-10-01", "2026-10-19", "2026-12-25"
+    ],
+    earlyCloses: {
+      "2025-01-28": "12:00",
+      "2025-12-24": "12:00",
+      "2025-12-31": "12:00",
+      "2026-02-16": "12:00",
+      "2026-12-24": "12:00",
+      "2026-12-31": "12:00"
+    }
+  },
+  XASX: {
+    closed: [
+      "2025-01-01", "2025-01-27", "2025-04-18", "2025-04-21", "2025-04-25", "2025-06-09", "2025-12-25",
+      "2025-12-26",
+      "2026-01-01", "2026-01-26", "2026-04-03", "2026-04-06", "2026-06-08", "2026-12-25", "2026-12-28"
+    ],
+    earlyCloses: { "2025-12-24": "14:10", "2025-12-31": "14:10", "2026-12-24": "14:10", "2026-12-31": "14:10" }
+  }
+};
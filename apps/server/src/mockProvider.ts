@@ -0,0 +1,312 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { ArbitrageOrder, ArbitragePlan, arbitragePlanSchema } from "./llmSchema";
+import type { ChatMessage, ExecutionContext, ProviderCallResult } from "./llmService";
+
+/**
+ * What a mock rule sees: the context the prompt was rendered from, the options after `?` in the
+ * model name, and a random source seeded from `seed` and the plan's moment.
+ */
+export interface MockRuleInput {
+  context: ExecutionContext;
+  options: URLSearchParams;
+  random: () => number;
+}
+
+export type MockRule = (input: MockRuleInput) => ArbitragePlan;
+
+export type MockFailure = "invalid-json" | "schema" | "over-budget";
+
+const MOCK_FAILURES: MockFailure[] = ["invalid-json", "schema", "over-budget"];
+/** Share of the portfolio value rebalancing rules leave in cash for commissions and slippage. */
+const DEFAULT_CASH_RESERVE = 0.02;
+const DEFAULT_RANDOM_STEP = 0.1;
+const FIXTURE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+const DEFAULT_FIXTURE_DIR = "data/mock-fixtures";
+
+const rules = new Map<string, MockRule>();
+const scriptCursors = new Map<string, number>();
+
+/** Makes a rule available to mock providers as the model name `name`. */
+export function registerMockRule(name: string, rule: MockRule) {
+  rules.set(name, rule);
+}
+
+/** Forgets where scripted rules are in their scripts, so the next call starts from the first plan. */
+export function resetMockProviders() {
+  scriptCursors.clear();
+}
+
+/**
+ * A rule that replays `plans` in order, one per call, starting over after the last. `key` keeps
+ * its position apart from other scripts.
+ */
+export function scriptedRule(plans: ArbitragePlan[], key = "scripted"): MockRule {
+  const script = plans.map((plan) => arbitragePlanSchema.parse(plan));
+  return () => {
+    if (script.length === 0) {
+      throw new Error("Mock script has no plans");
+    }
+    const cursor = scriptCursors.get(key) ?? 0;
+    scriptCursors.set(key, cursor + 1);
+    return script[cursor % script.length];
+  };
+}
+
+/**
+ * Answers a chat completion without any network call. The model name picks the rule and its
+ * options, e.g. `equal-weight?symbols=AAPL,MSFT` or `random-walk?seed=7&fail=invalid-json,schema`.
+ * `fail` lists failures to return instead of a plan on the first attempts of a run; the attempt
+ * is counted from the assistant replies already in the conversation.
+ */
+export async function callMockProvider(
+  model: string,
+  messages: ChatMessage[],
+  context: ExecutionContext | undefined
+): Promise<ProviderCallResult> {
+  if (!context) {
+    throw new Error("Mock providers need the execution context of the run");
+  }
+  const { name, options } = parseMockModel(model);
+  const attempt = messages.filter((message) => message.role === "assistant").length + 1;
+  const failure = parseFailures(options.get("fail"))[attempt - 1];
+
+  let content: string;
+  if (failure) {
+    content = failingResponse(failure, context, options);
+  } else {
+    const rule = await resolveRule(name, options);
+    const random = seededRandom(`${options.get("seed") ?? "0"}:${context.asOf.toISOString()}`);
+    content = JSON.stringify(rule({ context, options, random }));
+  }
+
+  return {
+    content,
+    rawResponse: JSON.stringify({ provider: "mock", model, attempt, failure: failure ?? null, content })
+  };
+}
+
+export function parseMockModel(model: string) {
+  const [name, query = ""] = model.trim().split("?", 2);
+  return { name: name.trim().toLowerCase(), options: new URLSearchParams(query) };
+}
+
+function parseFailures(value: string | null): Array<MockFailure | null> {
+  if (!value) {
+    return [];
+  }
+  return value.split(",").map((entry) => {
+    const failure = entry.trim().toLowerCase();
+    if (failure === "" || failure === "none") {
+      return null;
+    }
+    if (!MOCK_FAILURES.includes(failure as MockFailure)) {
+      throw new Error(`Unknown mock failure "${failure}". Use ${MOCK_FAILURES.join(", ")} or none`);
+    }
+    return failure as MockFailure;
+  });
+}
+
+/** Where scripted fixtures are read from: `MOCK_FIXTURE_DIR`, relative to the working directory. */
+export function fixtureDirectory() {
+  return path.resolve(process.cwd(), process.env.MOCK_FIXTURE_DIR || DEFAULT_FIXTURE_DIR);
+}
+
+async function resolveRule(name: string, options: URLSearchParams) {
+  if (name === "scripted") {
+    const fixture = options.get("fixture");
+    if (!fixture) {
+      throw new Error("The scripted mock rule needs a fixture=<name of a JSON file of plans> option");
+    }
+    const plans = await loadFixture(fixture);
+    return scriptedRule(Array.isArray(plans) ? plans : [plans], `fixture:${fixture}`);
+  }
+
+  const rule = rules.get(name);
+  if (!rule) {
+    const available = ["scripted", ...rules.keys()].join(", ");
+    throw new Error(`Unknown mock rule "${name}". Available rules: ${available}`);
+  }
+  return rule;
+}
+
+/**
+ * The plans in `<name>.json` in the fixture directory. Only plain names are accepted, and parse
+ * errors leave the file's content out of the message, since it ends up on the execution.
+ */
+async function loadFixture(name: string): Promise<ArbitragePlan | ArbitragePlan[]> {
+  if (!FIXTURE_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid mock fixture name "${name}"; use letters, digits, "-" and "_"`);
+  }
+
+  let content: string;
+  try {
+    content = await readFile(path.join(fixtureDirectory(), `${name}.json`), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new Error(`Mock fixture "${name}" not found in ${fixtureDirectory()}`);
+    }
+    throw error;
+  }
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Error(`Mock fixture "${name}" is not valid JSON`);
+  }
+}
+
+function failingResponse(failure: MockFailure, context: ExecutionContext, options: URLSearchParams) {
+  switch (failure) {
+    case "invalid-json":
+      return "Here is my plan: { version: 1.0, arbitrages: [BUY everything";
+    case "schema":
+      return JSON.stringify({
+        version: "1.0",
+        generatedAt: context.asOf.toISOString(),
+        arbitrages: [{ symbol: "", action: "HOLD", quantity: -1 }]
+      });
+    case "over-budget": {
+      const [target] = universe(context, options);
+      const symbol = target?.symbol ?? "SPY";
+      const price = target?.price ?? 1;
+      const quantity = Math.ceil((Math.max(context.cashBalance, 0) * 2 + price) / price);
+      return JSON.stringify(
+        plan(context, [{ symbol, action: "BUY", quantity, orderType: "limit", limitPrice: price, timeInForce: "DAY" }])
+      );
+    }
+  }
+}
+
+interface Holding {
+  symbol: string;
+  price: number;
+  /** Base currency units per unit of the quote currency. */
+  fxRate: number;
+  qty: number;
+  /** False for symbols outside the run's universe, which may only be sold down. */
+  investable: boolean;
+}
+
+/**
+ * Symbols a rule may trade: those in `symbols`, held or quoted in the context, including the
+ * universe's quotes. Only symbols with a price in the context are returned, as the mock never
+ * fetches market data.
+ */
+function universe(context: ExecutionContext, options: URLSearchParams): Holding[] {
+  const positions = context.raw.portfolio.positions;
+  const listed = (options.get("symbols") ?? "")
+    .split(",")
+    .map((symbol) => symbol.trim().toUpperCase())
+    .filter(Boolean);
+  const symbols = new Set([...listed, ...positions.map((position) => position.symbol)]);
+  if (listed.length === 0) {
+    Object.keys(context.raw.quotes).forEach((symbol) => symbols.add(symbol));
+    Object.keys(context.raw.universe?.quotes ?? {}).forEach((symbol) => symbols.add(symbol));
+  }
+  const investable = (symbol: string) => !context.raw.universe || context.raw.universe.symbols.includes(symbol);
+
+  return Array.from(symbols).flatMap((symbol) => {
+    const position = positions.find((held) => held.symbol === symbol);
+    const quote = (context.raw.quotes[symbol] ?? context.raw.universe?.quotes[symbol]) as
+      | { price?: number | null }
+      | undefined;
+    const price = quote?.price ?? position?.marketPrice ?? null;
+    if (price === null || !(price > 0)) {
+      return [];
+    }
+    return [
+      { symbol, price, fxRate: position?.fxRate ?? 1, qty: position?.qty ?? 0, investable: investable(symbol) }
+    ];
+  });
+}
+
+function portfolioValue(context: ExecutionContext, holdings: Holding[]) {
+  return context.cashBalance + holdings.reduce((sum, holding) => sum + holding.qty * holding.price * holding.fxRate, 0);
+}
+
+function cashReserve(options: URLSearchParams) {
+  const reserve = Number(options.get("reserve") ?? DEFAULT_CASH_RESERVE);
+  return Number.isFinite(reserve) ? Math.min(Math.max(reserve, 0), 1) : DEFAULT_CASH_RESERVE;
+}
+
+/**
+ * Market orders that move each holding to its target weight of the portfolio value, sells first
+ * so their proceeds fund the buys. Quantities are whole shares.
+ */
+function rebalance(context: ExecutionContext, holdings: Holding[], weights: Map<string, number>) {
+  const total = portfolioValue(context, holdings);
+  const sells: ArbitrageOrder[] = [];
+  const buys: ArbitrageOrder[] = [];
+
+  for (const holding of holdings) {
+    const unitValue = holding.price * holding.fxRate;
+    const target = (weights.get(holding.symbol) ?? 0) * total;
+    const difference = target - holding.qty * unitValue;
+    if (difference < 0) {
+      const quantity = target === 0 ? holding.qty : Math.min(holding.qty, Math.floor(-difference / unitValue));
+      if (quantity > 0) {
+        sells.push(marketOrder(holding.symbol, "SELL", quantity, "Trim to target weight"));
+      }
+    } else {
+      const quantity = Math.floor(difference / unitValue);
+      if (quantity > 0) {
+        buys.push(marketOrder(holding.symbol, "BUY", quantity, "Add to target weight"));
+      }
+    }
+  }
+
+  return plan(context, [...sells, ...buys]);
+}
+
+function marketOrder(symbol: string, action: "BUY" | "SELL", quantity: number, rationale: string): ArbitrageOrder {
+  return { symbol, action, quantity, orderType: "market", timeInForce: "DAY", rationale };
+}
+
+function plan(context: ExecutionContext, arbitrages: ArbitrageOrder[]): ArbitragePlan {
+  return { version: "1.0", generatedAt: context.asOf.toISOString(), arbitrages };
+}
+
+/** A deterministic generator (mulberry32) seeded from a string hash. */
+function seededRandom(seed: string) {
+  let state = 2166136261;
+  for (let index = 0; index < seed.length; index++) {
+    state = Math.imul(state ^ seed.charCodeAt(index), 16777619);
+  }
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+registerMockRule("hold", ({ context }) => plan(context, []));
+
+registerMockRule("equal-weight", ({ context, options }) => {
+  const holdings = universe(context, options);
+  const targets = holdings.filter((holding) => holding.investable);
+  const weight = targets.length > 0 ? (1 - cashReserve(options)) / targets.length : 0;
+  return rebalance(context, holdings, new Map(targets.map((holding) => [holding.symbol, weight])));
+});
+
+// Each weight takes a uniform step of up to `step` from where it stands, and the weights are
+// scaled back when together they would leave less than the cash reserve. Holdings outside the
+// universe only step down.
+registerMockRule("random-walk", ({ context, options, random }) => {
+  const holdings = universe(context, options);
+  const total = portfolioValue(context, holdings);
+  const step = Number(options.get("step") ?? DEFAULT_RANDOM_STEP);
+  const weights = new Map(
+    holdings.map((holding) => {
+      const current = total > 0 ? (holding.qty * holding.price * holding.fxRate) / total : 0;
+      const next = Math.min(Math.max(current + (random() * 2 - 1) * step, 0), 1);
+      return [holding.symbol, holding.investable ? next : Math.min(next, current)];
+    })
+  );
+  const investable = 1 - cashReserve(options);
+  const sum = Array.from(weights.values()).reduce((acc, weight) => acc + weight, 0);
+  if (sum > investable) {
+    weights.forEach((weight, symbol) => weights.set(symbol, (weight * investable) / sum));
+  }
+  return rebalance(context, holdings, weights);
+});
@@ -0,0 +1,82 @@
+import type { Application } from "express";
+import { z } from "zod";
+import { mapOrder, mapOrderEvent } from "./orders";
+import { cancelOpenOrders, cancelOrder, listOrderEvents, listOrders } from "./orderService";
+import { getPortfolioRecord, parsePortfolioIdStrict } from "./portfolioService";
+
+const orderListQuerySchema = z.object({
+  status: z.enum(["open", "all", "partially_filled", "filled", "cancelled", "expired", "rejected"]).default("open")
+});
+
+export function registerOrderRoutes(app: Application) {
+  app.get("/api/portfolios/:id/orders", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      await getPortfolioRecord(portfolioId);
+      const { status } = orderListQuerySchema.parse({
+        status: typeof req.query.status === "string" ? req.query.status : undefined
+      });
+
+      const orders = await listOrders(portfolioId, status);
+      res.json({ orders: orders.map(mapOrder) });
+    } catch (error) {
+      console.error("List orders failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to fetch orders" });
+    }
+  });
+
+  app.get("/api/portfolios/:id/orders/:orderId/events", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      await getPortfolioRecord(portfolioId);
+      const orderId = Number.parseInt(req.params.orderId, 10);
+      if (!Number.isFinite(orderId)) {
+        return res.status(400).json({ error: "Invalid order id" });
+      }
+
+      const events = await listOrderEvents(portfolioId, orderId);
+      if (!events) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      res.json({ events: events.map(mapOrderEvent) });
+    } catch (error) {
+      console.error("List order events failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to fetch order events" });
+    }
+  });
+
+  app.delete("/api/portfolios/:id/orders", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      await getPortfolioRecord(portfolioId);
+
+      const cancelled = await cancelOpenOrders(portfolioId);
+      res.json({ success: true, cancelled });
+    } catch (error) {
+      console.error("Cancel orders failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to cancel orders" });
+    }
+  });
+
+  app.delete("/api/portfolios/:id/orders/:orderId", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      await getPortfolioRecord(portfolioId);
+      const orderId = Number.parseInt(req.params.orderId, 10);
+      if (!Number.isFinite(orderId)) {
+        return res.status(400).json({ error: "Invalid order id" });
+      }
+
+      const order = await cancelOrder(portfolioId, orderId);
+      if (!order) {
+        return res.status(404).json({ error: "Order not found" });
+      }
+
+      res.json({ order: mapOrder(order) });
+    } catch (error) {
+      console.error("Cancel order failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to cancel order" });
+    }
+  });
+}
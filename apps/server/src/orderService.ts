@@ -0,0 +1,821 @@
+import { Prisma, prisma } from "@paper-trading/db";
+import type { Order, Portfolio } from "@paper-trading/db";
+import type { BackgroundJob } from "./backgroundJobs";
+import {
+  computeMarketImpact,
+  computeTradeCosts,
+  costModelFromPortfolio,
+  costModelInCurrency,
+  MarketConditions
+} from "./costs";
+import {
+  ACTIVE_ORDER_STATUSES,
+  availableLiquidity,
+  buildBracketLegs,
+  evaluateOrder,
+  immediateFillQuantity,
+  isImmediateOrder,
+  MarketDepth,
+  OPEN_ORDER_STATUSES,
+  OrderEventType,
+  OrderInput,
+  OrderSource,
+  OrderStatus,
+  orderTerms,
+  remainingQuantity,
+  TimeInForce,
+  trailingStopLevel,
+  validateOrderInput
+} from "./orders";
+import { TradeSide } from "./portfolio";
+import { assertMarginForTrade } from "./margin";
+import { bookTrade } from "./portfolioService";
+import { loadCashBalances, resolveSymbolSettlements, settlementFor, SymbolSettlement } from "./cashBalances";
+import { Settlement } from "./fx";
+import { closesPosition, resolveQuantityRules, validateQuantity } from "./quantityRules";
+import {
+  exchangeForSymbol,
+  isMarketOpen,
+  MarketHoursPolicy,
+  marketStatus,
+  sessionCloseForSymbol,
+  tradingDayStart
+} from "./marketCalendar";
+import { FillSimulation, fillSimulationFromPortfolio, loadAverageDailyVolumes, participationCap } from "./fillSimulator";
+import { getQuote } from "./yahoo";
+
+const DEFAULT_MATCHER_INTERVAL_MS = 60_000;
+
+export interface SubmitOrdersOptions {
+  source: OrderSource;
+  executionId?: number | null;
+  /** Reference prices used to decide whether each order is marketable right now. */
+  marketPrices: Record<string, number | null | undefined>;
+  /**
+   * Bid/ask and volume data per symbol, used by the portfolio's slippage model. Sizes at the
+   * touch, when present, cap what IOC and FOK orders can fill.
+   */
+  marketConditions?: Record<string, (MarketConditions & MarketDepth) | undefined>;
+}
+
+/**
+ * Submits orders atomically: every order is persisted, marketable ones fill immediately and
+ * the rest stay open on the book. Cash and shares already committed to resting orders are
+ * treated as unavailable so the book can never promise more than the portfolio holds.
+ * Bracket legs are created as `held` and only become live once their entry has filled.
+ * Orders for a market that is closed follow the portfolio's market hours policy.
+ *
+ * IOC and FOK orders never rest: whatever does not fill at submission is cancelled (IOC) or
+ * the whole order is rejected (FOK), and a closed market closes them the same way instead of
+ * queueing them. DAY and GTD orders get an `expiresAt` that the matcher
+ * enforces. With fill simulation on, a fill is capped to the order's share of daily volume and
+ * the matcher fills the rest on later days. Currencies and FX rates are looked up before the
+ * transaction opens.
+ */
+export async function submitOrders(inputs: OrderInput[], portfolioId: number, options: SubmitOrdersOptions) {
+  inputs.forEach(validateOrderInput);
+  const simulation = await loadSimulationContext(inputs.map((input) => ({ portfolioId, symbol: input.symbol })));
+  const settlements = await resolveOrderSettlements(portfolioId, inputs);
+
+  return prisma.$transaction(async (tx) => {
+    const portfolio = await tx.portfolio.findUnique({ where: { id: portfolioId } });
+    if (!portfolio) {
+      throw new Error("Portfolio not found");
+    }
+    const now = new Date();
+    const orders: Order[] = [];
+    for (const input of inputs) {
+      const marketPrice = options.marketPrices[input.symbol];
+      const market = options.marketConditions?.[input.symbol];
+      const timeInForce = input.timeInForce ?? "GTC";
+      if (input.expiresAt && input.expiresAt.getTime() <= now.getTime()) {
+        throw new Error(`Order for ${input.symbol} has an expiresAt in the past`);
+      }
+      const deferral = closedMarketDeferral(portfolio, input.symbol, now);
+      await assertQuantityAllowed(tx, portfolioId, input, marketPrice);
+      if (deferral && isImmediateOrder(timeInForce)) {
+        const order = await createOrderRecord(tx, portfolioId, input, options, { status: "open" });
+        await recordOrderEvent(tx, order.id, "submitted", { message: timeInForce });
+        const reason = `market closed until ${deferral.activeFrom.toISOString()}`;
+        orders.push(await closeImmediateOrder(tx, order, reason, now));
+        continue;
+      }
+      await assertOrderIsCovered(tx, portfolioId, input, marketPrice, market, settlements);
+
+      const order = await createOrderRecord(tx, portfolioId, input, options, {
+        status: "open",
+        ...deferral,
+        expiresAt: orderExpiry(input, deferral?.activeFrom ?? now)
+      });
+      await recordOrderEvent(tx, order.id, "submitted", {
+        message: deferral ? `${timeInForce}, queued until ${deferral.activeFrom.toISOString()}` : timeInForce
+      });
+      const legs = buildBracketLegs(input);
+      for (const leg of legs) {
+        await createOrderRecord(tx, portfolioId, leg, options, {
+          status: "held",
+          parentOrderId: order.id,
+          ocoGroup: legs.length > 1 ? `bracket-${order.id}` : null
+        });
+      }
+
+      if (isImmediateOrder(timeInForce)) {
+        const booking = settlementFor(settlements, input.symbol);
+        orders.push(await executeImmediately(tx, order, marketPrice, market, booking, simulation, now));
+        continue;
+      }
+
+      if (deferral) {
+        // The matcher picks the order up once the session opens.
+        orders.push(order);
+        continue;
+      }
+
+      const evaluation = evaluateOrder(orderTerms(order), marketPrice);
+      if (evaluation.fillPrice === null && input.orderType === "market") {
+        throw new Error(`Unable to determine a market price for ${input.symbol}`);
+      }
+
+      const fillQty =
+        evaluation.fillPrice !== null
+          ? await participationLimit(tx, order, remainingQuantity(order), simulation, now)
+          : null;
+      if (evaluation.fillPrice !== null && fillQty?.gt(0)) {
+        const filled = await fillOrder(tx, order, fillQty, evaluation.fillPrice, {
+          booking: settlementFor(settlements, input.symbol),
+          triggered: evaluation.triggered,
+          market,
+          simulation
+        });
+        orders.push(filled ?? order);
+      } else {
+        orders.push(await recordTrigger(tx, order, evaluation.triggered, evaluation.trailAnchor));
+      }
+    }
+    return orders;
+  });
+}
+
+/**
+ * Fills what an IOC or FOK order can take right now and closes the rest: an IOC keeps its
+ * partial fill and cancels the remainder, a FOK that cannot fill completely is rejected.
+ */
+async function executeImmediately(
+  tx: Prisma.TransactionClient,
+  order: Order,
+  marketPrice: number | null | undefined,
+  market: (MarketConditions & MarketDepth) | undefined,
+  booking: SymbolSettlement,
+  simulation: SimulationContext,
+  now: Date
+) {
+  const timeInForce = order.timeInForce as TimeInForce;
+  const evaluation = evaluateOrder(orderTerms(order), marketPrice);
+  const qty = order.qty.toNumber();
+  let liquidity = availableLiquidity(order.side as TradeSide, market);
+  if (evaluation.fillPrice !== null) {
+    const cap = await participationLimit(tx, order, order.qty, simulation, now);
+    if (cap.lt(order.qty)) {
+      liquidity = Math.min(liquidity ?? Infinity, cap.toNumber());
+    }
+  }
+  const fillQty = evaluation.fillPrice === null ? 0 : immediateFillQuantity(timeInForce, qty, liquidity);
+
+  let current = order;
+  if (evaluation.fillPrice !== null && fillQty > 0) {
+    current =
+      (await fillOrder(tx, order, new Prisma.Decimal(fillQty), evaluation.fillPrice, { booking, market, simulation })) ??
+      order;
+  }
+  if (remainingQuantity(current).lte(0)) {
+    return current;
+  }
+
+  const reason =
+    marketPrice === null || marketPrice === undefined
+      ? "no market price available"
+      : evaluation.fillPrice === null
+        ? "not marketable"
+        : `only ${liquidity} available`;
+  return closeImmediateOrder(tx, current, reason, now);
+}
+
+/** Closes what is left of an IOC or FOK order: a FOK is rejected, an IOC remainder cancelled. */
+async function closeImmediateOrder(tx: Prisma.TransactionClient, order: Order, reason: string, now: Date) {
+  if (order.timeInForce === "FOK") {
+    return (await closeOrder(tx, order, "rejected", `FOK: ${reason}`, now)) ?? order;
+  }
+  return (await closeOrder(tx, order, "cancelled", `IOC: unfilled quantity cancelled, ${reason}`, now)) ?? order;
+}
+
+/**
+ * Settlements of the symbols a submission books or reserves cash for: the submitted ones and
+ * those of the portfolio's resting BUY orders.
+ */
+async function resolveOrderSettlements(portfolioId: number, inputs: OrderInput[]) {
+  const portfolio = await prisma.portfolio.findUnique({ where: { id: portfolioId } });
+  if (!portfolio) {
+    throw new Error("Portfolio not found");
+  }
+  const resting = await prisma.order.findMany({
+    where: { portfolioId, side: "BUY", status: { in: OPEN_ORDER_STATUSES } },
+    select: { symbol: true },
+    distinct: ["symbol"]
+  });
+  return resolveSymbolSettlements(portfolio, [
+    ...inputs.map((input) => input.symbol),
+    ...resting.map((order) => order.symbol)
+  ]);
+}
+
+/** Fill simulation settings of the portfolios involved, with the volume data they need. */
+interface SimulationContext {
+  simulations: Map<number, FillSimulation>;
+  volumes: Map<string, number | null>;
+}
+
+async function loadSimulationContext(orders: { portfolioId: number; symbol: string }[]): Promise<SimulationContext> {
+  const portfolios = await prisma.portfolio.findMany({
+    where: { id: { in: Array.from(new Set(orders.map((order) => order.portfolioId))) }, fillSimulation: true }
+  });
+  const simulations = new Map<number, FillSimulation>();
+  for (const portfolio of portfolios) {
+    const simulation = fillSimulationFromPortfolio(portfolio);
+    if (simulation) {
+      simulations.set(portfolio.id, simulation);
+    }
+  }
+  const symbols = orders.filter((order) => simulations.has(order.portfolioId)).map((order) => order.symbol);
+  const volumes = symbols.length > 0 ? await loadAverageDailyVolumes(symbols) : new Map<string, number | null>();
+  return { simulations, volumes };
+}
+
+/**
+ * The part of `requested` that may fill now. Under fill simulation the order's fills on the
+ * current trading day count against its participation budget; otherwise everything fills.
+ */
+async function participationLimit(
+  tx: Prisma.TransactionClient,
+  order: Order,
+  requested: Prisma.Decimal,
+  context: SimulationContext | undefined,
+  now: Date
+) {
+  const simulation = context?.simulations.get(order.portfolioId);
+  if (!simulation) {
+    return requested;
+  }
+  const filledToday = await tx.trade.aggregate({
+    where: { orderId: order.id, reversedAt: null, ts: { gte: tradingDayStart(order.symbol, now) } },
+    _sum: { qty: true }
+  });
+  const override = await tx.instrumentRule.findUnique({ where: { symbol: order.symbol } });
+  return participationCap(
+    simulation,
+    requested,
+    filledToday._sum.qty ?? new Prisma.Decimal(0),
+    context?.volumes.get(order.symbol),
+    resolveQuantityRules(order.symbol, override)
+  );
+}
+
+/** When a DAY or GTD order stops working; null for orders that never expire. */
+function orderExpiry(input: OrderInput, activeFrom: Date) {
+  switch (input.timeInForce) {
+    case "GTD":
+      return input.expiresAt ?? null;
+    case "DAY":
+      return sessionCloseForSymbol(input.symbol, activeFrom);
+    default:
+      return null;
+  }
+}
+
+async function recordOrderEvent(
+  tx: Prisma.TransactionClient,
+  orderId: number,
+  type: OrderEventType,
+  detail: { qty?: Prisma.Decimal; price?: number; message?: string } = {}
+) {
+  await tx.orderEvent.create({
+    data: {
+      orderId,
+      type,
+      qty: detail.qty ?? null,
+      price: detail.price !== undefined ? new Prisma.Decimal(detail.price) : null,
+      message: detail.message ?? null
+    }
+  });
+}
+
+/**
+ * Moves one order to a terminal status with a compare-and-set on its filled quantity, records
+ * the event and deals with its bracket legs. Returns null when the order was no longer active.
+ */
+async function closeOrder(
+  tx: Prisma.TransactionClient,
+  order: Order,
+  status: "cancelled" | "expired" | "rejected",
+  reason: string,
+  now: Date
+) {
+  const closed = await tx.order.updateMany({
+    where: { id: order.id, status: { in: ACTIVE_ORDER_STATUSES }, filledQty: order.filledQty },
+    data: { status, statusReason: reason, closedAt: now }
+  });
+  if (closed.count !== 1) {
+    return null;
+  }
+  await recordOrderEvent(tx, order.id, status, { qty: remainingQuantity(order), message: reason });
+  await releaseBracketLegs(tx, order, now);
+  return tx.order.findUniqueOrThrow({ where: { id: order.id } });
+}
+
+/** Cancels every active order matching `where`, recording an event for each. */
+async function cancelOrdersWhere(tx: Prisma.TransactionClient, where: Prisma.OrderWhereInput, reason: string, now: Date) {
+  const active = await tx.order.findMany({ where: { ...where, status: { in: ACTIVE_ORDER_STATUSES } } });
+  if (active.length === 0) {
+    return 0;
+  }
+  const ids = active.map((order) => order.id);
+  const cancelled = await tx.order.updateMany({
+    where: { id: { in: ids }, status: { in: ACTIVE_ORDER_STATUSES } },
+    data: { status: "cancelled", statusReason: reason, closedAt: now }
+  });
+  await tx.orderEvent.createMany({
+    data: active.map((order) => ({ orderId: order.id, type: "cancelled", qty: remainingQuantity(order), message: reason }))
+  });
+  return cancelled.count;
+}
+
+async function createOrderRecord(
+  tx: Prisma.TransactionClient,
+  portfolioId: number,
+  input: OrderInput,
+  options: SubmitOrdersOptions,
+  extra: {
+    status: OrderStatus;
+    parentOrderId?: number;
+    ocoGroup?: string | null;
+    activeFrom?: Date;
+    fillAtOpen?: boolean;
+    expiresAt?: Date | null;
+  }
+) {
+  const toDecimal = (value?: number) => (value !== undefined ? new Prisma.Decimal(value) : null);
+  return tx.order.create({
+    data: {
+      portfolioId,
+      executionId: options.executionId ?? null,
+      symbol: input.symbol,
+      side: input.side,
+      orderType: input.orderType,
+      qty: new Prisma.Decimal(input.qty),
+      limitPrice: toDecimal(input.limitPrice),
+      stopPrice: toDecimal(input.stopPrice),
+      trailAmount: toDecimal(input.trailAmount),
+      trailPercent: toDecimal(input.trailPercent),
+      status: extra.status,
+      parentOrderId: extra.parentOrderId ?? null,
+      ocoGroup: extra.ocoGroup ?? null,
+      source: options.source,
+      lotIds: input.lotIds ?? [],
+      activeFrom: extra.activeFrom ?? null,
+      fillAtOpen: extra.fillAtOpen ?? false,
+      timeInForce: input.timeInForce ?? "GTC",
+      expiresAt: extra.expiresAt ?? null
+    }
+  });
+}
+
+/**
+ * Decides what to do with an order whose market is closed at `now`: rejects it, or returns the
+ * time it becomes active. Returns null when the market is open or the symbol has no calendar.
+ */
+function closedMarketDeferral(portfolio: Portfolio, symbol: string, now: Date) {
+  const exchange = exchangeForSymbol(symbol);
+  if (!exchange) {
+    return null;
+  }
+  const status = marketStatus(exchange, now);
+  if (status.isOpen) {
+    return null;
+  }
+
+  const policy = portfolio.marketHoursPolicy as MarketHoursPolicy;
+  const reopens = status.nextOpen ? `; it next opens at ${status.nextOpen.toISOString()}` : "";
+  if (policy === "reject") {
+    throw new Error(`${exchange.name} is closed for ${symbol}${reopens}`);
+  }
+  return { activeFrom: status.nextOpen ?? now, fillAtOpen: policy === "next_open" };
+}
+
+/** Persists a stop trigger or a moved trailing anchor on an order that is still resting. */
+async function recordTrigger(
+  tx: Prisma.TransactionClient,
+  order: Order,
+  triggered: boolean,
+  trailAnchor: number | null
+) {
+  const newlyTriggered = triggered && order.triggeredAt === null;
+  const anchorMoved = trailAnchor !== null && (!order.trailAnchor || !order.trailAnchor.eq(trailAnchor));
+  if (!newlyTriggered && !anchorMoved) {
+    return order;
+  }
+
+  await tx.order.updateMany({
+    where: { id: order.id, status: { in: OPEN_ORDER_STATUSES }, filledQty: order.filledQty },
+    data: {
+      triggeredAt: newlyTriggered ? new Date() : undefined,
+      trailAnchor: anchorMoved ? new Prisma.Decimal(trailAnchor) : undefined
+    }
+  });
+  return tx.order.findUniqueOrThrow({ where: { id: order.id } });
+}
+
+/** Price at which a resting BUY is assumed to fill when reserving cash for it. */
+function reservationPrice(order: Order) {
+  if (order.limitPrice) {
+    return order.limitPrice;
+  }
+  if (order.stopPrice) {
+    return order.stopPrice;
+  }
+  if (order.orderType === "trailing_stop" && order.trailAnchor) {
+    return new Prisma.Decimal(trailingStopLevel(orderTerms(order), order.trailAnchor.toNumber()));
+  }
+  return new Prisma.Decimal(0);
+}
+
+/** Cash that resting BUY orders settling in `settlement.currency` have committed, in that currency. */
+function reservedCash(openOrders: Order[], settlement: Settlement, settlements: Map<string, SymbolSettlement>) {
+  let reserved = new Prisma.Decimal(0);
+  for (const order of openOrders) {
+    if (order.side !== "BUY") {
+      continue;
+    }
+    const orderSettlement = settlementFor(settlements, order.symbol).settlement;
+    if (orderSettlement.currency === settlement.currency) {
+      reserved = reserved.add(remainingQuantity(order).mul(reservationPrice(order)).mul(orderSettlement.rate));
+    }
+  }
+  return reserved;
+}
+
+/** Applies the instrument's quantity rules unless the order closes the whole position. */
+async function assertQuantityAllowed(
+  tx: Prisma.TransactionClient,
+  portfolioId: number,
+  input: OrderInput,
+  marketPrice: number | null | undefined
+) {
+  const position = await tx.position.findFirst({ where: { portfolioId, symbol: input.symbol } });
+  if (closesPosition(position?.qty.toNumber(), input.side, input.qty)) {
+    return;
+  }
+  const override = await tx.instrumentRule.findUnique({ where: { symbol: input.symbol } });
+  const price = input.limitPrice ?? input.stopPrice ?? marketPrice ?? null;
+  validateQuantity(input.symbol, input.qty, price, resolveQuantityRules(input.symbol, override));
+}
+
+async function assertOrderIsCovered(
+  tx: Prisma.TransactionClient,
+  portfolioId: number,
+  input: OrderInput,
+  marketPrice: number | null | undefined,
+  market: MarketConditions | undefined,
+  settlements: Map<string, SymbolSettlement>
+) {
+  const openOrders = await tx.order.findMany({
+    where: { portfolioId, status: { in: OPEN_ORDER_STATUSES } }
+  });
+  const portfolio = await tx.portfolio.findUnique({ where: { id: portfolioId } });
+  if (!portfolio) {
+    throw new Error("Portfolio not found");
+  }
+  const price = input.limitPrice ?? input.stopPrice ?? marketPrice ?? 0;
+  const { settlement } = settlementFor(settlements, input.symbol);
+  const costs = computeTradeCosts(
+    costModelInCurrency(costModelFromPortfolio(portfolio), settlement.baseRate),
+    { symbol: input.symbol, side: input.side, qty: input.qty, price },
+    market
+  );
+
+  if (portfolio.allowShort && price > 0) {
+    await assertMarginForTrade(
+      tx,
+      portfolio,
+      { symbol: input.symbol, side: input.side, qty: input.qty, price, ...costs },
+      settlement.baseRate
+    );
+  }
+
+  if (input.side === "BUY") {
+    const balances = await loadCashBalances(tx, portfolio);
+    const available = balances.find((balance) => balance.currency === settlement.currency)?.amount ?? new Prisma.Decimal(0);
+    const reserved = reservedCash(openOrders, settlement, settlements);
+    const required = new Prisma.Decimal(input.qty)
+      .mul(price)
+      .add(costs.fee)
+      .add(costs.slippage)
+      .mul(settlement.rate);
+    if (available.sub(reserved).lt(required)) {
+      const balance = settlement.currency === portfolio.baseCurrency ? "cash balance" : `${settlement.currency} cash balance`;
+      throw new Error(
+        reserved.gt(0)
+          ? `Insufficient ${balance} for this order once open orders are reserved`
+          : `Insufficient ${balance} for this trade`
+      );
+    }
+    return;
+  }
+
+  if (portfolio.allowShort) {
+    // Short sales are limited by margin instead of by the shares held.
+    return;
+  }
+
+  const position = await tx.position.findFirst({ where: { portfolioId, symbol: input.symbol } });
+  if (!position) {
+    throw new Error("Cannot sell a position that does not exist");
+  }
+  // Legs of one OCO group can never both fill, so the group only reserves its largest leg.
+  const reservedByGroup = new Map<string, Prisma.Decimal>();
+  for (const order of openOrders) {
+    if (order.side !== "SELL" || order.symbol !== input.symbol) {
+      continue;
+    }
+    const key = order.ocoGroup ?? `order-${order.id}`;
+    const remaining = remainingQuantity(order);
+    const current = reservedByGroup.get(key);
+    reservedByGroup.set(key, current && current.gt(remaining) ? current : remaining);
+  }
+  const reservedQty = Array.from(reservedByGroup.values()).reduce((sum, qty) => sum.add(qty), new Prisma.Decimal(0));
+  if (position.qty.sub(reservedQty).lt(input.qty)) {
+    throw new Error(
+      reservedQty.gt(0)
+        ? "Cannot sell more shares than currently held and not already committed to open orders"
+        : "Cannot sell more shares than currently held"
+    );
+  }
+}
+
+/**
+ * Fills `qty` of an order at `price`. The order row is updated with a compare-and-set on its
+ * filled quantity so two matcher instances can never fill the same order twice; the loser
+ * gets null back. A completed fill releases the order's bracket legs and cancels the rest of
+ * its OCO group. `booking` is the symbol's settlement, looked up before the transaction opened.
+ */
+export async function fillOrder(
+  tx: Prisma.TransactionClient,
+  order: Order,
+  qty: Prisma.Decimal,
+  price: number,
+  options: {
+    booking: SymbolSettlement;
+    triggered?: boolean;
+    market?: MarketConditions;
+    simulation?: SimulationContext;
+  }
+): Promise<Order | null> {
+  const priceDecimal = new Prisma.Decimal(price);
+  const filledQty = order.filledQty.add(qty);
+  const previousNotional = order.avgFillPrice ? order.avgFillPrice.mul(order.filledQty) : new Prisma.Decimal(0);
+  const avgFillPrice = previousNotional.add(priceDecimal.mul(qty)).div(filledQty);
+  const isComplete = filledQty.gte(order.qty);
+  const now = new Date();
+
+  const claimed = await tx.order.updateMany({
+    where: { id: order.id, status: { in: OPEN_ORDER_STATUSES }, filledQty: order.filledQty },
+    data: {
+      filledQty,
+      avgFillPrice,
+      status: isComplete ? "filled" : "partially_filled",
+      closedAt: isComplete ? now : null,
+      triggeredAt: options.triggered && order.triggeredAt === null ? now : undefined
+    }
+  });
+  if (claimed.count !== 1) {
+    return null;
+  }
+
+  await bookTrade(
+    tx,
+    order.portfolioId,
+    {
+      symbol: order.symbol,
+      side: order.side as TradeSide,
+      qty: qty.toNumber(),
+      price
+    },
+    options.booking,
+    {
+      orderId: order.id,
+      market: options.market,
+      lotIds: order.lotIds,
+      marketImpact: simulatedImpact(order, qty, price, options.simulation)
+    }
+  );
+  await recordOrderEvent(tx, order.id, "fill", { qty, price });
+
+  if (isComplete) {
+    await tx.order.updateMany({
+      where: { parentOrderId: order.id, status: "held" },
+      data: { status: "open" }
+    });
+
+    if (order.ocoGroup) {
+      await cancelOrdersWhere(tx, { ocoGroup: order.ocoGroup, id: { not: order.id } }, `OCO: order #${order.id} filled`, now);
+    }
+  }
+
+  return tx.order.findUniqueOrThrow({ where: { id: order.id } });
+}
+
+function simulatedImpact(order: Order, qty: Prisma.Decimal, price: number, context: SimulationContext | undefined) {
+  const simulation = context?.simulations.get(order.portfolioId);
+  if (!simulation) {
+    return 0;
+  }
+  return computeMarketImpact(simulation.marketImpactBps, qty.toNumber(), price, context?.volumes.get(order.symbol));
+}
+
+/**
+ * Deals with the bracket legs of an entry that will not fill any further. Legs of an entry
+ * that never filled are cancelled; legs of a partially filled entry go live for the filled
+ * quantity so the shares that were bought stay protected.
+ */
+async function releaseBracketLegs(tx: Prisma.TransactionClient, parent: Order, now: Date) {
+  if (parent.filledQty.gt(0)) {
+    await tx.order.updateMany({
+      where: { parentOrderId: parent.id, status: "held" },
+      data: { status: "open", qty: parent.filledQty }
+    });
+    return;
+  }
+
+  await cancelOrdersWhere(
+    tx,
+    { parentOrderId: parent.id, status: "held" },
+    `Bracket entry #${parent.id} was not filled`,
+    now
+  );
+}
+
+export async function listOrders(portfolioId: number, status?: string) {
+  const where: Prisma.OrderWhereInput = { portfolioId };
+  if (status === "open") {
+    where.status = { in: ACTIVE_ORDER_STATUSES };
+  } else if (status && status !== "all") {
+    where.status = status;
+  }
+
+  return prisma.order.findMany({
+    where,
+    orderBy: { createdAt: "desc" },
+    take: 200
+  });
+}
+
+export async function cancelOrder(portfolioId: number, orderId: number, reason = "Cancelled by user") {
+  const order = await prisma.order.findUnique({ where: { id: orderId } });
+  if (!order || order.portfolioId !== portfolioId) {
+    return null;
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const cancelled = await closeOrder(tx, order, "cancelled", reason, new Date());
+    if (!cancelled) {
+      throw new Error(`Order ${orderId} is no longer open`);
+    }
+    return cancelled;
+  });
+}
+
+export async function cancelOpenOrders(portfolioId: number, reason = "Cancelled by user") {
+  return prisma.$transaction((tx) => cancelOrdersWhere(tx, { portfolioId }, reason, new Date()));
+}
+
+export async function listOrderEvents(portfolioId: number, orderId: number) {
+  const order = await prisma.order.findUnique({ where: { id: orderId } });
+  if (!order || order.portfolioId !== portfolioId) {
+    return null;
+  }
+  return prisma.orderEvent.findMany({ where: { orderId }, orderBy: [{ ts: "asc" }, { id: "asc" }] });
+}
+
+/** Expires DAY and GTD orders whose `expiresAt` has passed, recording why on each. */
+export async function expireOrders(now: Date = new Date()) {
+  const due = await prisma.order.findMany({
+    where: { status: { in: OPEN_ORDER_STATUSES }, expiresAt: { lte: now } },
+    orderBy: { expiresAt: "asc" }
+  });
+  for (const order of due) {
+    const reason = `${order.timeInForce} order expired at ${order.expiresAt!.toISOString()}`;
+    await prisma.$transaction((tx) => closeOrder(tx, order, "expired", reason, now));
+  }
+  return due.length;
+}
+
+/**
+ * Checks every resting order against a fresh quote, fills the ones the market has crossed and
+ * records stop triggers and trailing anchors for the rest. An order that can no longer be
+ * booked (e.g. cash was spent elsewhere) is cancelled with the reason so it does not block the
+ * book forever. Orders whose market is closed are left alone so they never fill on a stale
+ * quote; orders queued for the open fill at the session's opening price when they ask to.
+ * Expired DAY and GTD orders are closed first so they can never fill late. Under fill
+ * simulation an order takes at most its share of the day's volume per trading day.
+ */
+export async function matchOpenOrders(now: Date = new Date()) {
+  await expireOrders(now);
+  const openOrders = (
+    await prisma.order.findMany({
+      where: {
+        status: { in: OPEN_ORDER_STATUSES },
+        AND: [
+          { OR: [{ activeFrom: null }, { activeFrom: { lte: now } }] },
+          { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] }
+        ]
+      },
+      orderBy: { createdAt: "asc" }
+    })
+  ).filter((order) => isMarketOpen(order.symbol, now));
+  if (openOrders.length === 0) {
+    return;
+  }
+
+  const symbols = Array.from(new Set(openOrders.map((order) => order.symbol)));
+  const quotes = new Map<string, Awaited<ReturnType<typeof getQuote>> | null>();
+  await Promise.all(
+    symbols.map(async (symbol) => {
+      try {
+        quotes.set(symbol, await getQuote(symbol));
+      } catch (error) {
+        console.error(`Order matcher could not quote ${symbol}`, error);
+        quotes.set(symbol, null);
+      }
+    })
+  );
+  const simulation = await loadSimulationContext(openOrders);
+  const portfolios = new Map(
+    (
+      await prisma.portfolio.findMany({
+        where: { id: { in: Array.from(new Set(openOrders.map((order) => order.portfolioId))) } }
+      })
+    ).map((portfolio) => [portfolio.id, portfolio])
+  );
+
+  for (const order of openOrders) {
+    const quote = quotes.get(order.symbol) ?? null;
+    let referencePrice = quote?.price;
+    if (order.fillAtOpen && quote) {
+      referencePrice = quote.open ?? quote.price;
+      await prisma.order.updateMany({ where: { id: order.id, fillAtOpen: true }, data: { fillAtOpen: false } });
+    }
+    const evaluation = evaluateOrder(orderTerms(order), referencePrice);
+    if (evaluation.fillPrice === null) {
+      await prisma.$transaction((tx) => recordTrigger(tx, order, evaluation.triggered, evaluation.trailAnchor));
+      continue;
+    }
+
+    let booking: SymbolSettlement;
+    try {
+      const settlements = await resolveSymbolSettlements(portfolios.get(order.portfolioId)!, [order.symbol]);
+      booking = settlementFor(settlements, order.symbol);
+    } catch (error) {
+      // The order keeps resting; the next run tries again once the currency or FX rate is known.
+      console.warn(`Unable to settle order ${order.id}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    try {
+      const fillPrice = evaluation.fillPrice;
+      await prisma.$transaction(async (tx) => {
+        const fillQty = await participationLimit(tx, order, remainingQuantity(order), simulation, now);
+        if (fillQty.lte(0)) {
+          // Today's share of the volume is used up; the rest fills on a later trading day.
+          return recordTrigger(tx, order, evaluation.triggered, evaluation.trailAnchor);
+        }
+        return fillOrder(tx, order, fillQty, fillPrice, {
+          booking,
+          triggered: evaluation.triggered,
+          market: quote ?? undefined,
+          simulation
+        });
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`Unable to fill order ${order.id}: ${message}`);
+      await prisma.$transaction((tx) => closeOrder(tx, order, "cancelled", message, new Date()));
+    }
+  }
+}
+
+export function createOrderMatcherJob(): BackgroundJob {
+  const interval = Number(process.env.ORDER_MATCHER_INTERVAL_MS);
+  return {
+    name: "order-matcher",
+    intervalMs: Number.isFinite(interval) && interval > 0 ? interval : DEFAULT_MATCHER_INTERVAL_MS,
+    run: () => matchOpenOrders()
+  };
+}
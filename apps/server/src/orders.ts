@@ -0,0 +1,358 @@
+import type { Order, OrderEvent } from "@paper-trading/db";
+import { TradeSide } from "./portfolio";
+
+export type OrderType = "market" | "limit" | "stop" | "stop_limit" | "trailing_stop";
+export type OrderStatus = "held" | "open" | "partially_filled" | "filled" | "cancelled" | "expired" | "rejected";
+export type OrderSource = "manual" | "llm" | "margin";
+/**
+ * How long an order stays working: until the session close (DAY), until cancelled (GTC),
+ * until `expiresAt` (GTD), or only at submission, keeping what fills (IOC) or filling
+ * completely or not at all (FOK).
+ */
+export type TimeInForce = "DAY" | "GTC" | "GTD" | "IOC" | "FOK";
+export type OrderEventType = "submitted" | "fill" | "cancelled" | "expired" | "rejected";
+
+export const ORDER_TYPES: OrderType[] = ["market", "limit", "stop", "stop_limit", "trailing_stop"];
+export const TIME_IN_FORCE_VALUES: TimeInForce[] = ["DAY", "GTC", "GTD", "IOC", "FOK"];
+export const OPEN_ORDER_STATUSES: OrderStatus[] = ["open", "partially_filled"];
+/** Open orders plus bracket legs that are still waiting for their entry to fill. */
+export const ACTIVE_ORDER_STATUSES: OrderStatus[] = ["held", ...OPEN_ORDER_STATUSES];
+
+export interface BracketInput {
+  takeProfitPrice?: number;
+  stopLossPrice?: number;
+  trailAmount?: number;
+  trailPercent?: number;
+}
+
+export interface OrderInput {
+  symbol: string;
+  side: TradeSide;
+  qty: number;
+  orderType: OrderType;
+  limitPrice?: number;
+  stopPrice?: number;
+  trailAmount?: number;
+  trailPercent?: number;
+  bracket?: BracketInput;
+  /** Tax lots to relieve, in order, when the order closes part of a position. */
+  lotIds?: number[];
+  /** Defaults to GTC. */
+  timeInForce?: TimeInForce;
+  /** When a GTD order expires; only valid with GTD. */
+  expiresAt?: Date;
+}
+
+/** Displayed size at the touch, when the quote provides it. */
+export interface MarketDepth {
+  bidSize?: number | null;
+  askSize?: number | null;
+}
+
+/** The price terms of an order, as stored or as submitted. */
+export interface OrderTerms {
+  side: TradeSide;
+  orderType: OrderType;
+  limitPrice?: number | null;
+  stopPrice?: number | null;
+  trailAmount?: number | null;
+  trailPercent?: number | null;
+  trailAnchor?: number | null;
+  triggered?: boolean;
+}
+
+export interface OrderEvaluation {
+  fillPrice: number | null;
+  triggered: boolean;
+  trailAnchor: number | null;
+}
+
+export function isOpenStatus(status: string) {
+  return (OPEN_ORDER_STATUSES as string[]).includes(status);
+}
+
+export function validateOrderInput(order: OrderInput) {
+  if (!Number.isFinite(order.qty) || order.qty <= 0) {
+    throw new Error(`Invalid quantity for ${order.symbol}`);
+  }
+  if (order.orderType === "limit" || order.orderType === "stop_limit") {
+    if (!isPositive(order.limitPrice)) {
+      throw new Error(`Order for ${order.symbol} is ${order.orderType} but has no limitPrice`);
+    }
+  }
+  if (order.orderType === "stop" || order.orderType === "stop_limit") {
+    if (!isPositive(order.stopPrice)) {
+      throw new Error(`Order for ${order.symbol} is ${order.orderType} but has no stopPrice`);
+    }
+  }
+  if (order.orderType === "trailing_stop") {
+    validateTrail(order.symbol, order.trailAmount, order.trailPercent);
+  }
+  if (order.bracket) {
+    validateBracket(order);
+  }
+  if (order.lotIds && order.lotIds.some((lotId) => !Number.isInteger(lotId) || lotId <= 0)) {
+    throw new Error(`Order for ${order.symbol} has an invalid lot id`);
+  }
+  validateTimeInForce(order);
+}
+
+function validateTimeInForce(order: OrderInput) {
+  const timeInForce = order.timeInForce ?? "GTC";
+  if (timeInForce === "GTD") {
+    if (!order.expiresAt || Number.isNaN(order.expiresAt.getTime())) {
+      throw new Error(`Order for ${order.symbol} is GTD but has no expiresAt`);
+    }
+  } else if (order.expiresAt) {
+    throw new Error(`Order for ${order.symbol} has expiresAt but is ${timeInForce}; use GTD`);
+  }
+  if ((timeInForce === "IOC" || timeInForce === "FOK") && order.orderType !== "market" && order.orderType !== "limit") {
+    throw new Error(`${timeInForce} orders for ${order.symbol} must be market or limit orders`);
+  }
+}
+
+export function isImmediateOrder(timeInForce: string) {
+  return timeInForce === "IOC" || timeInForce === "FOK";
+}
+
+/** Shares that can trade right now on the order's side of the book, or null when unknown. */
+export function availableLiquidity(side: TradeSide, depth: MarketDepth | undefined) {
+  const size = side === "BUY" ? depth?.askSize : depth?.bidSize;
+  return typeof size === "number" && Number.isFinite(size) && size > 0 ? size : null;
+}
+
+/**
+ * How much of an IOC or FOK order fills at submission. IOC takes what the book offers and FOK
+ * needs all of it; unknown liquidity is treated as unlimited, like every other fill.
+ */
+export function immediateFillQuantity(timeInForce: TimeInForce, qty: number, liquidity: number | null) {
+  if (liquidity === null || liquidity >= qty) {
+    return qty;
+  }
+  return timeInForce === "FOK" ? 0 : liquidity;
+}
+
+function validateTrail(symbol: string, trailAmount?: number, trailPercent?: number) {
+  const hasAmount = trailAmount !== undefined;
+  const hasPercent = trailPercent !== undefined;
+  if (hasAmount === hasPercent) {
+    throw new Error(`Trailing stop for ${symbol} needs exactly one of trailAmount or trailPercent`);
+  }
+  if (hasAmount && !isPositive(trailAmount)) {
+    throw new Error(`Trailing stop for ${symbol} has an invalid trailAmount`);
+  }
+  if (hasPercent && (!isPositive(trailPercent) || trailPercent! >= 100)) {
+    throw new Error(`Trailing stop for ${symbol} needs a trailPercent between 0 and 100`);
+  }
+}
+
+function validateBracket(order: OrderInput) {
+  const bracket = order.bracket!;
+  const hasTrail = bracket.trailAmount !== undefined || bracket.trailPercent !== undefined;
+  if (bracket.takeProfitPrice === undefined && bracket.stopLossPrice === undefined && !hasTrail) {
+    throw new Error(`Bracket for ${order.symbol} needs a take-profit or a stop-loss leg`);
+  }
+  if (bracket.takeProfitPrice !== undefined && !isPositive(bracket.takeProfitPrice)) {
+    throw new Error(`Bracket for ${order.symbol} has an invalid takeProfitPrice`);
+  }
+  if (bracket.stopLossPrice !== undefined && !isPositive(bracket.stopLossPrice)) {
+    throw new Error(`Bracket for ${order.symbol} has an invalid stopLossPrice`);
+  }
+  if (bracket.stopLossPrice !== undefined && hasTrail) {
+    throw new Error(`Bracket for ${order.symbol} cannot combine stopLossPrice with a trailing stop`);
+  }
+  if (hasTrail) {
+    validateTrail(order.symbol, bracket.trailAmount, bracket.trailPercent);
+  }
+  if (bracket.takeProfitPrice !== undefined && bracket.stopLossPrice !== undefined) {
+    if (order.side === "BUY" && bracket.takeProfitPrice <= bracket.stopLossPrice) {
+      throw new Error(`Bracket for ${order.symbol} needs takeProfitPrice above stopLossPrice`);
+    }
+    if (order.side === "SELL" && bracket.takeProfitPrice >= bracket.stopLossPrice) {
+      throw new Error(`Bracket for short ${order.symbol} needs takeProfitPrice below stopLossPrice`);
+    }
+  }
+}
+
+/**
+ * Expands a bracket into its exit legs: a limit at the take-profit and a stop (or trailing
+ * stop) for the stop-loss, both on the opposite side of the entry (SELL exits for a long, BUY
+ * exits for a short). Both legs cover the full entry quantity.
+ */
+export function buildBracketLegs(entry: OrderInput): OrderInput[] {
+  const bracket = entry.bracket;
+  if (!bracket) {
+    return [];
+  }
+
+  const exitSide: TradeSide = entry.side === "BUY" ? "SELL" : "BUY";
+  const legs: OrderInput[] = [];
+  if (bracket.takeProfitPrice !== undefined) {
+    legs.push({
+      symbol: entry.symbol,
+      side: exitSide,
+      qty: entry.qty,
+      orderType: "limit",
+      limitPrice: bracket.takeProfitPrice
+    });
+  }
+  if (bracket.stopLossPrice !== undefined) {
+    legs.push({
+      symbol: entry.symbol,
+      side: exitSide,
+      qty: entry.qty,
+      orderType: "stop",
+      stopPrice: bracket.stopLossPrice
+    });
+  } else if (bracket.trailAmount !== undefined || bracket.trailPercent !== undefined) {
+    legs.push({
+      symbol: entry.symbol,
+      side: exitSide,
+      qty: entry.qty,
+      orderType: "trailing_stop",
+      trailAmount: bracket.trailAmount,
+      trailPercent: bracket.trailPercent
+    });
+  }
+  return legs;
+}
+
+/**
+ * Returns the level at which a trailing stop triggers for the given anchor: below the
+ * high-water mark for SELL stops, above the low-water mark for BUY stops.
+ */
+export function trailingStopLevel(order: OrderTerms, anchor: number) {
+  const offset = order.trailAmount ?? (anchor * (order.trailPercent ?? 0)) / 100;
+  return order.side === "SELL" ? anchor - offset : anchor + offset;
+}
+
+/**
+ * Evaluates an order against `marketPrice`.
+ *
+ * Limit orders only fill once the market crosses the limit and then fill at the market price,
+ * so a BUY limit above the market gets the (better) market price instead of its limit.
+ * Stop orders trigger once the market trades through the stop (BUY at or above, SELL at or
+ * below) and then behave like a market order, or like a limit order for stop-limits. Trailing
+ * stops ratchet their anchor with favourable moves and never loosen.
+ */
+export function evaluateOrder(order: OrderTerms, marketPrice: number | null | undefined): OrderEvaluation {
+  const trailAnchor = order.trailAnchor ?? null;
+  if (marketPrice === null || marketPrice === undefined || !Number.isFinite(marketPrice) || marketPrice <= 0) {
+    return { fillPrice: null, triggered: order.triggered ?? false, trailAnchor };
+  }
+
+  switch (order.orderType) {
+    case "market":
+      return { fillPrice: marketPrice, triggered: false, trailAnchor };
+    case "limit":
+      return { fillPrice: limitFill(order.side, order.limitPrice, marketPrice), triggered: false, trailAnchor };
+    case "stop":
+    case "stop_limit": {
+      const triggered = order.triggered || stopCrossed(order.side, order.stopPrice, marketPrice);
+      if (!triggered) {
+        return { fillPrice: null, triggered, trailAnchor };
+      }
+      const fillPrice = order.orderType === "stop" ? marketPrice : limitFill(order.side, order.limitPrice, marketPrice);
+      return { fillPrice, triggered, trailAnchor };
+    }
+    case "trailing_stop": {
+      const previous = trailAnchor ?? marketPrice;
+      const anchor = order.side === "SELL" ? Math.max(previous, marketPrice) : Math.min(previous, marketPrice);
+      const triggered = order.triggered || stopCrossed(order.side, trailingStopLevel(order, anchor), marketPrice);
+      return { fillPrice: triggered ? marketPrice : null, triggered, trailAnchor: anchor };
+    }
+    default:
+      return { fillPrice: null, triggered: false, trailAnchor };
+  }
+}
+
+/** Returns the price an order would fill at against `marketPrice`, or null while it should rest. */
+export function evaluateOrderFill(order: OrderTerms, marketPrice: number | null | undefined): number | null {
+  return evaluateOrder(order, marketPrice).fillPrice;
+}
+
+function limitFill(side: TradeSide, limit: number | null | undefined, marketPrice: number) {
+  if (limit === null || limit === undefined) {
+    return null;
+  }
+  if (side === "BUY") {
+    return marketPrice <= limit ? marketPrice : null;
+  }
+  return marketPrice >= limit ? marketPrice : null;
+}
+
+function stopCrossed(side: TradeSide, stop: number | null | undefined, marketPrice: number) {
+  if (stop === null || stop === undefined) {
+    return false;
+  }
+  return side === "BUY" ? marketPrice >= stop : marketPrice <= stop;
+}
+
+function isPositive(value: number | undefined | null): value is number {
+  return value !== undefined && value !== null && Number.isFinite(value) && value > 0;
+}
+
+export function orderTerms(order: Order): OrderTerms {
+  return {
+    side: order.side as TradeSide,
+    orderType: order.orderType as OrderType,
+    limitPrice: order.limitPrice ? order.limitPrice.toNumber() : null,
+    stopPrice: order.stopPrice ? order.stopPrice.toNumber() : null,
+    trailAmount: order.trailAmount ? order.trailAmount.toNumber() : null,
+    trailPercent: order.trailPercent ? order.trailPercent.toNumber() : null,
+    trailAnchor: order.trailAnchor ? order.trailAnchor.toNumber() : null,
+    triggered: order.triggeredAt !== null
+  };
+}
+
+export function remainingQuantity(order: Pick<Order, "qty" | "filledQty">) {
+  return order.qty.sub(order.filledQty);
+}
+
+export function mapOrder(order: Order) {
+  return {
+    id: order.id,
+    portfolioId: order.portfolioId,
+    executionId: order.executionId,
+    parentOrderId: order.parentOrderId,
+    ocoGroup: order.ocoGroup,
+    symbol: order.symbol,
+    side: order.side as TradeSide,
+    orderType: order.orderType as OrderType,
+    qty: order.qty.toNumber(),
+    filledQty: order.filledQty.toNumber(),
+    remainingQty: remainingQuantity(order).toNumber(),
+    limitPrice: order.limitPrice ? order.limitPrice.toNumber() : null,
+    stopPrice: order.stopPrice ? order.stopPrice.toNumber() : null,
+    trailAmount: order.trailAmount ? order.trailAmount.toNumber() : null,
+    trailPercent: order.trailPercent ? order.trailPercent.toNumber() : null,
+    trailAnchor: order.trailAnchor ? order.trailAnchor.toNumber() : null,
+    avgFillPrice: order.avgFillPrice ? order.avgFillPrice.toNumber() : null,
+    status: order.status as OrderStatus,
+    statusReason: order.statusReason,
+    source: order.source as OrderSource,
+    lotIds: order.lotIds,
+    triggeredAt: order.triggeredAt ? order.triggeredAt.toISOString() : null,
+    activeFrom: order.activeFrom ? order.activeFrom.toISOString() : null,
+    fillAtOpen: order.fillAtOpen,
+    timeInForce: order.timeInForce as TimeInForce,
+    expiresAt: order.expiresAt ? order.expiresAt.toISOString() : null,
+    createdAt: order.createdAt.toISOString(),
+    updatedAt: order.updatedAt.toISOString(),
+    closedAt: order.closedAt ? order.closedAt.toISOString() : null
+  };
+}
+
+export type OrderDto = ReturnType<typeof mapOrder>;
+
+export function mapOrderEvent(event: OrderEvent) {
+  return {
+    id: event.id,
+    orderId: event.orderId,
+    type: event.type as OrderEventType,
+    qty: event.qty ? event.qty.toNumber() : null,
+    price: event.price ? event.price.toNumber() : null,
+    message: event.message,
+    ts: event.ts.toISOString()
+  };
+}
@@ -0,0 +1,343 @@
+import { BenchmarkIndex, BenchmarkKind, indexLevelOn } from "./benchmark";
+import { utcDay } from "./valuations";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Valuations are calendar-daily (weekends repeat Friday's value), so a year has 365 returns. */
+const PERIODS_PER_YEAR = 365;
+
+export const PERFORMANCE_PERIODS = ["mtd", "ytd", "inception", "custom"] as const;
+export type PerformancePeriod = (typeof PERFORMANCE_PERIODS)[number];
+
+export interface PerformanceValuation {
+  date: Date;
+  nav: number;
+  /** Deposits less withdrawals made that day, already part of `nav`. */
+  netFlow: number;
+}
+
+export interface PerformanceTrade {
+  side: string;
+  /** Traded notional in the base currency. */
+  notional: number;
+  /** Realized PnL in the base currency; null for trades that only opened exposure. */
+  realizedPnL: number | null;
+}
+
+export interface Drawdown {
+  /** Fall from the peak, as a positive fraction. */
+  depth: number;
+  peak: string;
+  trough: string;
+  /** First day back at the peak, or null when it has not recovered. */
+  recovery: string | null;
+  /** Days from the peak to the recovery, or to the end of the period when still under water. */
+  days: number;
+}
+
+/** Daily returns of the portfolio against its benchmark, over the days both have values. */
+export interface BenchmarkComparison {
+  kind: BenchmarkKind;
+  label: string;
+  benchmarkReturn: number | null;
+  /** Portfolio return less benchmark return over the same days. */
+  excessReturn: number | null;
+  /** Annualized standard deviation of the daily return differences. */
+  trackingError: number | null;
+  /** Annualized mean return difference over the tracking error. */
+  informationRatio: number | null;
+  beta: number | null;
+  /** Jensen's alpha per year, against `riskFreeRate`. */
+  alpha: number | null;
+  /** Mean portfolio return over mean benchmark return, on days the benchmark rose. */
+  upCapture: number | null;
+  /** The same, on days the benchmark fell. */
+  downCapture: number | null;
+}
+
+export interface PerformanceReport {
+  period: { name: PerformancePeriod; from: string; to: string; days: number };
+  startValue: number | null;
+  endValue: number | null;
+  netFlows: number;
+  /** Chained daily returns with flows taken out, over the whole period. */
+  timeWeightedReturn: number | null;
+  /** The time-weighted return per year; null for periods shorter than a year. */
+  annualizedReturn: number | null;
+  /** Internal rate of return of the start value, the flows and the end value, over the whole period. */
+  moneyWeightedReturn: number | null;
+  volatility: number | null;
+  sharpe: number | null;
+  sortino: number | null;
+  calmar: number | null;
+  maxDrawdown: Drawdown | null;
+  /** Share of closing trades with a positive realized PnL. */
+  winRate: number | null;
+  /** Realized gains over realized losses. */
+  profitFactor: number | null;
+  /** The smaller of buys and sells over the average NAV. */
+  turnover: number | null;
+  closedTrades: number;
+  riskFreeRate: number;
+  benchmark: BenchmarkComparison | null;
+}
+
+const isoDay = (date: Date) => date.toISOString().split("T")[0];
+
+/**
+ * First and last day of a period ending on `end`: month or year to date, everything since
+ * `inception`, or the given custom range.
+ */
+export function resolvePeriod(
+  period: PerformancePeriod,
+  end: Date,
+  inception: Date,
+  custom: { from?: Date; to?: Date } = {}
+) {
+  const to = utcDay(period === "custom" && custom.to ? custom.to : end);
+  switch (period) {
+    case "mtd":
+      return { from: new Date(Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), 1)), to };
+    case "ytd":
+      return { from: new Date(Date.UTC(to.getUTCFullYear(), 0, 1)), to };
+    case "custom":
+      if (!custom.from) {
+        throw new Error("A custom period needs a start date");
+      }
+      if (custom.from > to) {
+        throw new Error("The period starts after it ends");
+      }
+      return { from: utcDay(custom.from), to };
+    default:
+      return { from: utcDay(inception), to };
+  }
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function covariance(left: number[], right: number[]) {
+  const leftMean = mean(left);
+  const rightMean = mean(right);
+  const products = left.reduce((sum, value, index) => sum + (value - leftMean) * (right[index] - rightMean), 0);
+  return products / (left.length - 1);
+}
+
+const standardDeviation = (values: number[]) => Math.sqrt(covariance(values, values));
+
+/**
+ * Rate per `unitDays` (a year by default) at which the dated flows, seen from the investor
+ * (money in is negative), net to zero.
+ */
+export function internalRateOfReturn(flows: Array<{ date: Date; amount: number }>, unitDays = 365) {
+  if (!flows.some((flow) => flow.amount > 0) || !flows.some((flow) => flow.amount < 0)) {
+    return null;
+  }
+  const start = flows[0].date.getTime();
+  const presentValue = (rate: number) =>
+    flows.reduce(
+      (sum, flow) => sum + flow.amount / (1 + rate) ** ((flow.date.getTime() - start) / DAY_MS / unitDays),
+      0
+    );
+
+  // Bisection on a bracket wide enough for anything but a total loss.
+  let low = -0.9999;
+  let high = 10;
+  if (presentValue(low) * presentValue(high) > 0) {
+    return null;
+  }
+  for (let step = 0; step < 200 && high - low > 1e-10; step += 1) {
+    const middle = (low + high) / 2;
+    if (presentValue(low) * presentValue(middle) <= 0) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/** Deepest fall of a value index from a running peak, with when it started, bottomed and recovered. */
+export function maxDrawdown(index: Array<{ date: Date; value: number }>): Drawdown | null {
+  let worst: Drawdown | null = null;
+  let peak = index[0];
+  let trough = index[0];
+  let depth = 0;
+  const close = (recovery: { date: Date } | null, end: Date) => {
+    if (depth > 0 && (!worst || depth > worst.depth)) {
+      worst = {
+        depth,
+        peak: isoDay(peak.date),
+        trough: isoDay(trough.date),
+        recovery: recovery ? isoDay(recovery.date) : null,
+        days: Math.round(((recovery?.date ?? end).getTime() - peak.date.getTime()) / DAY_MS)
+      };
+    }
+  };
+  for (const point of index.slice(1)) {
+    if (point.value >= peak.value) {
+      close(point, point.date);
+      peak = point;
+      trough = point;
+      depth = 0;
+    } else if (1 - point.value / peak.value > depth) {
+      depth = 1 - point.value / peak.value;
+      trough = point;
+    }
+  }
+  if (index.length > 0) {
+    close(null, index[index.length - 1].date);
+  }
+  return worst;
+}
+
+const compound = (values: number[]) => values.reduce((product, value) => product * (1 + value), 1) - 1;
+
+/**
+ * Pairs each daily portfolio return with the benchmark's move over the same day (closes are
+ * carried over days without one) and measures the difference between the two.
+ */
+function compareToBenchmark(
+  returns: Array<{ previous: Date; date: Date; value: number }>,
+  benchmark: BenchmarkIndex,
+  riskFreeRate: number
+): BenchmarkComparison {
+  const pairs = returns.flatMap((entry) => {
+    const start = indexLevelOn(benchmark.index, entry.previous);
+    const end = indexLevelOn(benchmark.index, entry.date);
+    return start && end !== null ? [{ portfolio: entry.value, benchmark: end / start - 1 }] : [];
+  });
+  const portfolio = pairs.map((pair) => pair.portfolio);
+  const market = pairs.map((pair) => pair.benchmark);
+  const active = pairs.map((pair) => pair.portfolio - pair.benchmark);
+
+  const benchmarkReturn = pairs.length > 0 ? compound(market) : null;
+  const activeDeviation = pairs.length > 1 ? standardDeviation(active) : null;
+  const marketVariance = pairs.length > 1 ? covariance(market, market) : 0;
+  const beta = marketVariance > 0 ? covariance(portfolio, market) / marketVariance : null;
+  const dailyRiskFree = riskFreeRate / PERIODS_PER_YEAR;
+  const capture = (days: typeof pairs) => {
+    const benchmarkMean = days.length > 0 ? mean(days.map((pair) => pair.benchmark)) : 0;
+    return benchmarkMean !== 0 ? mean(days.map((pair) => pair.portfolio)) / benchmarkMean : null;
+  };
+
+  return {
+    kind: benchmark.kind,
+    label: benchmark.label,
+    benchmarkReturn,
+    excessReturn: benchmarkReturn !== null ? compound(portfolio) - benchmarkReturn : null,
+    trackingError: activeDeviation !== null ? activeDeviation * Math.sqrt(PERIODS_PER_YEAR) : null,
+    informationRatio: activeDeviation ? (mean(active) / activeDeviation) * Math.sqrt(PERIODS_PER_YEAR) : null,
+    beta,
+    alpha:
+      beta !== null
+        ? (mean(portfolio) - dailyRiskFree - beta * (mean(market) - dailyRiskFree)) * PERIODS_PER_YEAR
+        : null,
+    upCapture: capture(pairs.filter((pair) => pair.benchmark > 0)),
+    downCapture: capture(pairs.filter((pair) => pair.benchmark < 0))
+  };
+}
+
+/**
+ * Performance of a portfolio over `[from, to]` from its daily valuations and trades. Daily
+ * returns take each day's flows out of the end value, `(nav - netFlow) / previous nav - 1`, and
+ * start from the last valuation before `from` (or the first one in the period). Ratios are
+ * annualized from those returns against `riskFreeRate`, a yearly fraction, and compared with
+ * the `benchmark` when one is given.
+ */
+export function computePerformance(input: {
+  period: PerformancePeriod;
+  from: Date;
+  to: Date;
+  valuations: PerformanceValuation[];
+  trades: PerformanceTrade[];
+  riskFreeRate: number;
+  benchmark?: BenchmarkIndex | null;
+}): PerformanceReport {
+  const { from, to, riskFreeRate } = input;
+  const sorted = [...input.valuations].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const before = sorted.filter((valuation) => valuation.date < from);
+  const within = sorted.filter((valuation) => valuation.date >= from && valuation.date <= to);
+  const base = before[before.length - 1] ?? within[0];
+  const series = base && base !== within[0] ? [base, ...within] : within;
+
+  const returns: Array<{ previous: Date; date: Date; value: number }> = [];
+  for (let index = 1; index < series.length; index += 1) {
+    const previous = series[index - 1].nav;
+    if (previous > 0) {
+      returns.push({
+        previous: series[index - 1].date,
+        date: series[index].date,
+        value: (series[index].nav - series[index].netFlow) / previous - 1
+      });
+    }
+  }
+  const values = returns.map((entry) => entry.value);
+
+  const days = Math.round((to.getTime() - from.getTime()) / DAY_MS) + 1;
+  const growth = values.reduce((product, value) => product * (1 + value), 1);
+  const timeWeightedReturn = values.length > 0 ? growth - 1 : null;
+  const years = values.length / PERIODS_PER_YEAR;
+  const annualizedReturn = years >= 1 && growth > 0 ? growth ** (1 / years) - 1 : null;
+
+  const dailyRiskFree = riskFreeRate / PERIODS_PER_YEAR;
+  const excess = values.map((value) => value - dailyRiskFree);
+  const deviation = values.length > 1 ? standardDeviation(values) : null;
+  const volatility = deviation !== null ? deviation * Math.sqrt(PERIODS_PER_YEAR) : null;
+  const sharpe = deviation ? (mean(excess) / deviation) * Math.sqrt(PERIODS_PER_YEAR) : null;
+  const downside = values.length > 1 ? Math.sqrt(mean(excess.map((value) => Math.min(0, value) ** 2))) : null;
+  const sortino = downside ? (mean(excess) / downside) * Math.sqrt(PERIODS_PER_YEAR) : null;
+
+  let wealth = 1;
+  const index = base ? [{ date: base.date, value: 1 }] : [];
+  for (const entry of returns) {
+    wealth *= 1 + entry.value;
+    index.push({ date: entry.date, value: wealth });
+  }
+  const drawdown = maxDrawdown(index);
+  const calmar = drawdown && annualizedReturn !== null ? annualizedReturn / drawdown.depth : null;
+
+  const end = series[series.length - 1];
+  const flowDays = series.slice(1);
+  const netFlows = flowDays.reduce((sum, valuation) => sum + valuation.netFlow, 0);
+  // Solved per the whole period, so short periods do not compound into huge yearly rates.
+  const moneyWeightedReturn =
+    base && end !== base
+      ? internalRateOfReturn(
+          [
+            { date: base.date, amount: -base.nav },
+            ...flowDays
+              .filter((valuation) => valuation.netFlow !== 0)
+              .map((valuation) => ({ date: valuation.date, amount: -valuation.netFlow })),
+            { date: end.date, amount: end.nav }
+          ],
+          (end.date.getTime() - base.date.getTime()) / DAY_MS
+        )
+      : null;
+
+  const closing = input.trades.filter((trade) => trade.realizedPnL !== null);
+  const gains = closing.filter((trade) => trade.realizedPnL! > 0).reduce((sum, trade) => sum + trade.realizedPnL!, 0);
+  const losses = closing.filter((trade) => trade.realizedPnL! < 0).reduce((sum, trade) => sum - trade.realizedPnL!, 0);
+  const bought = input.trades.filter((trade) => trade.side === "BUY").reduce((sum, trade) => sum + trade.notional, 0);
+  const sold = input.trades.filter((trade) => trade.side === "SELL").reduce((sum, trade) => sum + trade.notional, 0);
+  const averageNav = series.length > 0 ? mean(series.map((valuation) => valuation.nav)) : 0;
+
+  return {
+    period: { name: input.period, from: isoDay(from), to: isoDay(to), days },
+    startValue: base?.nav ?? null,
+    endValue: end?.nav ?? null,
+    netFlows,
+    timeWeightedReturn,
+    annualizedReturn,
+    moneyWeightedReturn,
+    volatility,
+    sharpe,
+    sortino,
+    calmar,
+    maxDrawdown: drawdown,
+    winRate: closing.length > 0 ? closing.filter((trade) => trade.realizedPnL! > 0).length / closing.length : null,
+    profitFactor: losses > 0 ? gains / losses : null,
+    turnover: averageNav > 0 ? Math.min(bought, sold) / averageNav : null,
+    closedTrades: closing.length,
+    riskFreeRate,
+    benchmark: input.benchmark ? compareToBenchmark(returns, input.benchmark, riskFreeRate) : null
+  };
+}
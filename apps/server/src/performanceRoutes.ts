@@ -0,0 +1,25 @@
+import type { Application } from "express";
+import { z } from "zod";
+import { parsePortfolioIdStrict } from "./portfolioService";
+import { PERFORMANCE_PERIODS } from "./performance";
+import { getPortfolioPerformance } from "./performanceService";
+
+const performanceQuerySchema = z.object({
+  period: z.enum(PERFORMANCE_PERIODS).default("inception"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  riskFreeRate: z.coerce.number().min(-1).max(1).default(0)
+});
+
+export function registerPerformanceRoutes(app: Application) {
+  app.get("/api/portfolios/:id/performance", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      const query = performanceQuerySchema.parse(req.query);
+      res.json(await getPortfolioPerformance(portfolioId, query));
+    } catch (error) {
+      console.error("Performance calculation failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to compute performance" });
+    }
+  });
+}
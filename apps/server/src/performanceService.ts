@@ -0,0 +1,64 @@
+import { prisma } from "@paper-trading/db";
+import { getPortfolioRecord } from "./portfolioService";
+import { loadBenchmarkIndex } from "./benchmarkService";
+import { computePerformance, PerformancePeriod, PerformanceReport, resolvePeriod } from "./performance";
+import { utcDay } from "./valuations";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PerformanceOptions {
+  period: PerformancePeriod;
+  /** Start and end of a custom period; `to` also ends the other periods (default: today). */
+  from?: Date;
+  to?: Date;
+  /** Annual risk-free rate as a fraction, for Sharpe and Sortino. */
+  riskFreeRate?: number;
+}
+
+/**
+ * Performance of a portfolio over a period, from its stored daily valuations (see
+ * `valuationService`) and the active trades booked in the period, in the base currency, compared
+ * with the portfolio's benchmark when it has one.
+ */
+export async function getPortfolioPerformance(
+  portfolioId: number,
+  options: PerformanceOptions,
+  now = new Date()
+): Promise<PerformanceReport & { baseCurrency: string }> {
+  const portfolio = await getPortfolioRecord(portfolioId);
+  const valuations = await prisma.portfolioValuation.findMany({
+    where: { portfolioId },
+    orderBy: { date: "asc" }
+  });
+  const inception = valuations[0]?.date ?? utcDay(now);
+  const { from, to } = resolvePeriod(options.period, options.to ?? now, inception, options);
+
+  const trades = await prisma.trade.findMany({
+    where: {
+      portfolioId,
+      reversedAt: null,
+      ts: { gte: from, lt: new Date(to.getTime() + DAY_MS) }
+    },
+    select: { side: true, qty: true, price: true, fxRate: true, realizedPnL: true }
+  });
+
+  const report = computePerformance({
+    period: options.period,
+    from,
+    to,
+    valuations: valuations.map((valuation) => ({
+      date: valuation.date,
+      nav: valuation.nav.toNumber(),
+      netFlow: valuation.netFlow.toNumber()
+    })),
+    trades: trades.map((trade) => ({
+      side: trade.side,
+      notional: trade.qty.mul(trade.price).mul(trade.fxRate).toNumber(),
+      realizedPnL: trade.realizedPnL ? trade.realizedPnL.mul(trade.fxRate).toNumber() : null
+    })),
+    riskFreeRate: options.riskFreeRate ?? 0,
+    // A week of slack so the benchmark has a close on the day before the period.
+    benchmark: await loadBenchmarkIndex(portfolio, new Date(from.getTime() - 7 * DAY_MS), now)
+  });
+  return { ...report, baseCurrency: portfolio.baseCurrency };
+}
@@ -0,0 +1,129 @@
+import type { ExecutionContext } from "./llmService";
+import { ArbitrageOrder, orderInputFromArbitrage } from "./llmSchema";
+import { getFxRate, normalizeCurrency, Settlement, settlementAt } from "./fx";
+import { OrderInput, validateOrderInput } from "./orders";
+import { closesPosition, QuantityRules, validateQuantity } from "./quantityRules";
+import { assertInUniverse } from "./universe";
+import type { QuoteResponse } from "./types";
+import { getQuote } from "./yahoo";
+
+/** An order of a plan that passed the checks, with what it is priced and settled at. */
+export interface CheckedOrder {
+  input: OrderInput;
+  /** What the order may cost: its limit or stop when it has one, else the market price. */
+  price: number;
+  marketPrice: number | null;
+  currency: string;
+  settlement: Settlement;
+  /** The symbol's quote in the context, for the slippage estimate. */
+  quote: QuoteResponse | undefined;
+}
+
+/**
+ * Checks an order of a plan, or a draft of one, the way it will be placed: its fields, the
+ * universe, a price and the symbol's quantity rules, then resolves the cash balance it settles
+ * from. Reads only the context, so a replay checks the recorded plan the same way without the
+ * network. Throws on the first failed check.
+ */
+export function checkPlannedOrder(
+  order: ArbitrageOrder,
+  context: ExecutionContext,
+  quantityRules: Map<string, QuantityRules>
+): CheckedOrder {
+  const input = orderInputFromArbitrage(order);
+  validateOrderInput(input);
+  const position = context.raw.portfolio.positions.find((held) => held.symbol === input.symbol);
+  assertInUniverse(context.raw.universe, input, position?.qty);
+
+  const marketPrice = determineMarketPrice(input, context);
+  const price = input.limitPrice ?? input.stopPrice ?? marketPrice;
+  if (price === null) {
+    throw new Error(`Unable to determine a market price for ${input.symbol}`);
+  }
+  const rules = quantityRules.get(input.symbol);
+  if (rules && !closesPosition(position?.qty, input.side, input.qty)) {
+    validateQuantity(input.symbol, input.qty, price, rules);
+  }
+  const currency = position?.currency ?? contextCurrency(context, input.symbol);
+  const settlement = settlementAt(context, currency, contextFxRate(context, currency));
+  return { input, price, marketPrice, currency, settlement, quote: marketQuote(context, input.symbol) };
+}
+
+/**
+ * Quotes the symbols among `symbols` the context has no quote for and looks up the rates of
+ * their currencies, adding both to the context's raw data. Only live runs call this; replays
+ * settle orders from what the recording kept.
+ */
+export async function loadOrderMarketData(context: ExecutionContext, symbols: string[]) {
+  const missing = Array.from(new Set(symbols)).filter((symbol) => !marketQuote(context, symbol));
+  for (const symbol of missing) {
+    try {
+      context.raw.orderQuotes = { ...context.raw.orderQuotes, [symbol]: await getQuote(symbol) };
+    } catch (error) {
+      console.error(`Failed to load quote for ordered symbol ${symbol}`, error);
+    }
+  }
+  await addFxRates(context, missing.map((symbol) => context.raw.orderQuotes?.[symbol]?.currency));
+}
+
+/** Adds the rates of the currencies the context has none for yet; a rate that fails is left out. */
+export async function addFxRates(context: ExecutionContext, currencies: Array<string | null | undefined>) {
+  const rates = { ...context.raw.fxRates };
+  for (const currency of new Set(currencies)) {
+    if (!currency || rates[currency] !== undefined) {
+      continue;
+    }
+    try {
+      rates[currency] = await getFxRate(currency, context.baseCurrency);
+    } catch (error) {
+      console.error(`Failed to load the ${currency}/${context.baseCurrency} rate`, error);
+    }
+  }
+  context.raw.fxRates = rates;
+}
+
+/**
+ * The price of the symbol's quote in the context, or its previous close. Limit, stop and
+ * stop-limit orders can rest on the book until the matcher sees a price and are priced from
+ * their limit or stop. Market and trailing stop orders carry no price of their own, so a missing
+ * quote fails them.
+ */
+function determineMarketPrice(order: OrderInput, context: ExecutionContext): number | null {
+  const quote = marketQuote(context, order.symbol);
+  const price = quote?.price ?? quote?.previousClose ?? null;
+  if (price === null && (order.orderType === "market" || order.orderType === "trailing_stop")) {
+    throw new Error(`No live quote for ${order.symbol}; ${order.orderType} orders need one`);
+  }
+  return price;
+}
+
+/**
+ * The quote the context holds for a symbol, from the held symbols' quotes, the universe's or
+ * those fetched for the plan's orders.
+ */
+export function marketQuote(context: ExecutionContext, symbol: string) {
+  return context.raw.quotes[symbol] ?? context.raw.universe?.quotes[symbol] ?? context.raw.orderQuotes?.[symbol];
+}
+
+/** Currency of a symbol the portfolio does not hold, from its quote in the context. */
+function contextCurrency(context: ExecutionContext, symbol: string) {
+  const currency = marketQuote(context, symbol)?.currency?.trim();
+  if (!currency) {
+    throw new Error(`Unable to determine the currency of ${symbol}: the run has no quote naming it`);
+  }
+  return currency;
+}
+
+/** Base currency units per unit of `currency` at the run's moment, from the rates kept on the context. */
+function contextFxRate(context: ExecutionContext, currency: string) {
+  const source = normalizeCurrency(currency);
+  const base = normalizeCurrency(context.baseCurrency);
+  if (source && base && source.currency === base.currency) {
+    return source.factor / base.factor;
+  }
+  const rate = context.raw.fxRates?.[currency];
+  if (rate === undefined) {
+    throw new Error(`No ${currency}/${context.baseCurrency} rate was loaded for this run`);
+  }
+  return rate;
+}
@@ -0,0 +1,81 @@
+import type { HistoryCandle } from "./types";
+
+/** The fields of a ledger row that decide whether it was on record at a given moment. */
+export interface AsOfTrade {
+  id: number;
+  ts: Date;
+  reversedAt: Date | null;
+  reversedBy: string | null;
+  reversalReason: string | null;
+  amendsTradeId: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Chart ranges by the number of days back they reliably cover, shortest first. */
+const HISTORY_RANGES: Array<[range: string, days: number]> = [
+  ["1mo", 27],
+  ["3mo", 88],
+  ["6mo", 180],
+  ["1y", 362],
+  ["2y", 727],
+  ["5y", 1822]
+];
+
+/**
+ * The trade ledger as it stood at `asOf`: trades booked after it are left out, so are amendments
+ * made later (they carry the amended trade's timestamp but only exist from the moment it was
+ * reversed), and reversals made later are undone so the trade reads as it did then.
+ */
+export function tradesAsOf<T extends AsOfTrade>(trades: T[], asOf: Date): T[] {
+  const reversals = new Map(trades.map((trade) => [trade.id, trade.reversedAt]));
+  const time = asOf.getTime();
+  return trades.flatMap((trade) => {
+    if (trade.ts.getTime() > time) {
+      return [];
+    }
+    if (trade.amendsTradeId !== null && reversals.has(trade.amendsTradeId)) {
+      const amendedAt = reversals.get(trade.amendsTradeId);
+      if (!amendedAt || amendedAt.getTime() > time) {
+        return [];
+      }
+    }
+    if (trade.reversedAt && trade.reversedAt.getTime() > time) {
+      return [{ ...trade, reversedAt: null, reversedBy: null, reversalReason: null }];
+    }
+    return [trade];
+  });
+}
+
+/** The shortest chart range whose daily candles reach back to `asOf`. */
+export function historyRangeFor(asOf: Date, now = new Date()) {
+  const days = (now.getTime() - asOf.getTime()) / DAY_MS;
+  return HISTORY_RANGES.find(([, covered]) => days <= covered)?.[0] ?? "max";
+}
+
+/**
+ * Close of the last candle that opened on or before `asOf`, with the candle before it for the
+ * day's change. Null when the history does not reach back that far.
+ */
+export function closeAsOf(candles: HistoryCandle[], asOf: Date) {
+  const time = asOf.getTime();
+  const closes = candles
+    .filter((candle) => candle.close !== null && new Date(candle.date).getTime() <= time)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+    .map((candle) => ({ date: new Date(candle.date), close: candle.close! }));
+  const last = closes[closes.length - 1];
+  if (!last) {
+    return null;
+  }
+  return { ...last, previous: closes[closes.length - 2] ?? null };
+}
+
+/**
+ * Factor that turns a split-adjusted close from `date` back into the price quoted that day:
+ * chart closes are restated for every later split, while positions as of that day are not.
+ */
+export function splitFactorAfter(splits: Array<{ exDate: Date; ratio: number }>, date: Date) {
+  return splits
+    .filter((split) => split.exDate.getTime() > date.getTime() && split.ratio > 0)
+    .reduce((factor, split) => factor * split.ratio, 1);
+}
@@ -0,0 +1,211 @@
+import { Prisma, prisma } from "@paper-trading/db";
+import type { Position } from "@paper-trading/db";
+import {
+  computeCurrencyExposure,
+  computePortfolioTotals,
+  computePositionDto,
+  ensurePortfolio,
+  sortPositions
+} from "./portfolio";
+import { decimalToNumber, getPortfolioRecord } from "./portfolioService";
+import { PortfolioSnapshot } from "./types";
+import { computeMarginState, marginPolicyFromPortfolio } from "./margin";
+import { lotMethodFromPortfolio } from "./taxLots";
+import { isExternalFlow, summarizeCashFlows } from "./cashLedger";
+import { getHistoricalFxRate } from "./fx";
+import { closeAsOf, historyRangeFor, splitFactorAfter, tradesAsOf } from "./pointInTime";
+import { replayPortfolioLedger } from "./tradeLedger";
+import { getHistory } from "./yahoo";
+
+/** Note prefix of the cash rows that charge borrow fees on short positions. */
+const BORROW_FEE_NOTE = "Borrow fee";
+
+/** The portfolio's trades as they were on record at `asOf`, newest first. */
+export async function listTradesAsOf(portfolioId: number, asOf: Date) {
+  const trades = await prisma.trade.findMany({ where: { portfolioId }, orderBy: { ts: "desc" } });
+  return tradesAsOf(trades, asOf);
+}
+
+/**
+ * Daily close of `symbol` on or before `asOf`, with the day's change. Chart closes are restated
+ * for later splits, so recorded splits after the candle are undone to match the shares held then.
+ */
+async function historicalQuote(symbol: string, asOf: Date, splits: Array<{ exDate: Date; ratio: number }>) {
+  const candles = await getHistory(symbol, historyRangeFor(asOf), "1d").catch(() => null);
+  const close = candles ? closeAsOf(candles, asOf) : null;
+  if (!close) {
+    return { price: null };
+  }
+  const price = close.close * splitFactorAfter(splits, close.date);
+  const previous = close.previous ? close.previous.close * splitFactorAfter(splits, close.previous.date) : null;
+  const change = previous !== null ? price - previous : null;
+  return {
+    price,
+    change,
+    changePercent: change !== null && previous ? (change / previous) * 100 : null
+  };
+}
+
+/**
+ * Rebuilds the portfolio as it stood at `asOf`: positions replay the trades, splits and symbol
+ * changes on record then, cash sums the cash ledger up to that moment, and both are valued at
+ * the daily closes and FX rates of that day. Totals only count trades, dividends and cash flows
+ * from before `asOf`. Settings such as the base currency and margin policy are today's.
+ */
+export async function buildPortfolioSnapshotAsOf(portfolioId: number, asOf: Date): Promise<PortfolioSnapshot> {
+  const portfolioRecord = await getPortfolioRecord(portfolioId);
+  const base = ensurePortfolio(portfolioRecord);
+  const zero = new Prisma.Decimal(0);
+
+  const recorded = await prisma.trade.findMany({
+    where: { portfolioId, ts: { lte: asOf } },
+    include: { order: { select: { lotIds: true } } },
+    orderBy: [{ ts: "asc" }, { id: "asc" }]
+  });
+  const trades = tradesAsOf(recorded, asOf).filter((trade) => !trade.reversedAt);
+  const entries = await prisma.corporateActionEntry.findMany({
+    where: { portfolioId, createdAt: { lte: asOf } },
+    include: { action: true },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }]
+  });
+  const renames = entries
+    .filter((entry) => entry.type === "symbol_change" && entry.action.newSymbol)
+    .map((entry) => ({ from: entry.symbol, to: entry.action.newSymbol! }));
+
+  const { replays, failures } = replayPortfolioLedger({
+    method: lotMethodFromPortfolio(portfolioRecord),
+    allowShort: portfolioRecord.allowShort,
+    trades: trades.map((trade) => ({ ...trade, lotIds: trade.order?.lotIds })),
+    splits: entries
+      .filter((entry) => entry.type === "split" && entry.action.ratio)
+      .map((entry) => ({
+        symbol: entry.symbol,
+        exDate: entry.action.exDate,
+        ratio: entry.action.ratio!,
+        appliedAt: entry.createdAt
+      })),
+    renames
+  });
+  if (failures.length > 0) {
+    const [failure] = failures;
+    throw new Error(`Unable to rebuild ${failure.symbol} as of ${asOf.toISOString()}: ${failure.error}`);
+  }
+
+  // A position keeps the currency it was traded in, through any symbol change.
+  const currencies = new Map(trades.map((trade) => [trade.symbol, trade.currency]));
+  for (const rename of renames) {
+    currencies.set(rename.to, currencies.get(rename.from) ?? currencies.get(rename.to) ?? base.baseCurrency);
+  }
+  const positions: Position[] = Array.from(replays.entries())
+    .filter(([, replay]) => !replay.qty.isZero())
+    .map(([symbol, replay], index) => ({
+      id: index + 1,
+      portfolioId,
+      symbol,
+      qty: replay.qty,
+      avgPrice: replay.avgPrice,
+      currency: currencies.get(symbol) ?? base.baseCurrency
+    }));
+
+  const splitActions = await prisma.corporateAction.findMany({
+    where: { type: "split", symbol: { in: positions.map((position) => position.symbol) } }
+  });
+  const quotes = await Promise.all(
+    positions.map((position) =>
+      historicalQuote(
+        position.symbol,
+        asOf,
+        splitActions
+          .filter((action) => action.symbol === position.symbol && action.ratio)
+          .map((action) => ({ exDate: action.exDate, ratio: action.ratio!.toNumber() }))
+      )
+    )
+  );
+  const fxRates = await Promise.all(
+    positions.map((position) => getHistoricalFxRate(position.currency, base.baseCurrency, asOf))
+  );
+  const positionDtos = positions.map((position, index) => computePositionDto(position, quotes[index], fxRates[index]));
+  const totals = computePortfolioTotals(positionDtos);
+
+  const cashRows = await prisma.cashTransaction.findMany({
+    where: { portfolioId, ts: { lte: asOf } },
+    select: { type: true, currency: true, amount: true, fxRate: true, note: true }
+  });
+  const balances = new Map<string, Prisma.Decimal>([[base.baseCurrency, zero]]);
+  for (const row of cashRows) {
+    balances.set(row.currency, (balances.get(row.currency) ?? zero).add(row.amount));
+  }
+  const cash = await Promise.all(
+    Array.from(balances.entries())
+      .filter(([currency, amount]) => currency === base.baseCurrency || !amount.isZero())
+      .map(async ([currency, amount]) => {
+        const fxRate = await getHistoricalFxRate(currency, base.baseCurrency, asOf);
+        return { currency, amount: amount.toNumber(), fxRate, baseAmount: amount.toNumber() * fxRate };
+      })
+  );
+  const totalCash = cash.reduce((sum, balance) => sum + balance.baseAmount, 0);
+  const margin = portfolioRecord.allowShort
+    ? computeMarginState(
+        totalCash,
+        positionDtos.map((position) => ({
+          symbol: position.symbol,
+          qty: position.qty,
+          price: position.marketPrice ?? position.avgPrice,
+          fxRate: position.fxRate
+        })),
+        marginPolicyFromPortfolio(portfolioRecord)
+      )
+    : null;
+
+  // Realized PnL comes from the replay, since later corrections restate what is stored on trades.
+  const results = new Map(
+    Array.from(replays.values()).flatMap((replay) => replay.trades.map((result) => [result.tradeId, result] as const))
+  );
+  const costs = trades.reduce(
+    (sum, trade) => {
+      const result = results.get(trade.id);
+      const toBase = (value: Prisma.Decimal | null | undefined) => (value ? value.mul(trade.fxRate).toNumber() : 0);
+      return {
+        fee: sum.fee + toBase(trade.fee),
+        slippage: sum.slippage + toBase(trade.slippage),
+        realizedPnL: sum.realizedPnL + toBase(result?.realizedPnL),
+        shortTermPnL: sum.shortTermPnL + toBase(result?.shortTermPnL),
+        longTermPnL: sum.longTermPnL + toBase(result?.longTermPnL)
+      };
+    },
+    { fee: 0, slippage: 0, realizedPnL: 0, shortTermPnL: 0, longTermPnL: 0 }
+  );
+  const totalDividends = entries
+    .filter((entry) => entry.type === "dividend")
+    .reduce((sum, entry) => sum + entry.cashAmount.mul(entry.fxRate).toNumber(), 0);
+  const borrowFeesPaid = cashRows
+    .filter((row) => row.type === "fee" && row.note?.startsWith(BORROW_FEE_NOTE))
+    .reduce((sum, row) => sum - row.amount.mul(row.fxRate).toNumber(), 0);
+  const externalFlows = cashRows.filter((row) => isExternalFlow(row.type));
+
+  return {
+    id: base.id,
+    name: base.name,
+    baseCurrency: base.baseCurrency,
+    fxAutoConvert: portfolioRecord.fxAutoConvert,
+    asOf: asOf.toISOString(),
+    cashBalance: decimalToNumber(balances.get(base.baseCurrency)),
+    totalCash,
+    cash,
+    currencies: computeCurrencyExposure(cash, positionDtos),
+    totalMarketValue: totals.totalMarketValue,
+    totalCostBasis: totals.totalCostBasis,
+    totalUnrealizedPnL: totals.totalUnrealizedPnL,
+    totalDailyPnL: totals.totalDailyPnL,
+    totalFees: costs.fee,
+    totalSlippage: costs.slippage,
+    totalRealizedPnL: costs.realizedPnL,
+    totalShortTermPnL: costs.shortTermPnL,
+    totalLongTermPnL: costs.longTermPnL,
+    borrowFeesPaid,
+    totalDividends,
+    netDeposits: summarizeCashFlows(externalFlows).netExternalFlow,
+    margin,
+    positions: sortPositions(positionDtos)
+  };
+}
@@ -1,5 +1,7 @@
 ﻿import { Portfolio, Position, Prisma, Trade } from "@paper-trading/db";
-import { PortfolioPositionDto } from "./types";
+import { CurrencyExposure, PortfolioPositionDto } from "./types";
+import type { CashBalanceDto } from "./cashBalances";
+import { normalizeCurrency } from "./fx";
 
 export type TradeSide = "BUY" | "SELL";
 
@@ -8,6 +10,9 @@ export interface TradeInput {
   side: TradeSide;
   qty: number;
   price: number;
+  /** Commission and slippage in price currency; BUY costs are capitalised into the position. */
+  fee?: number;
+  slippage?: number;
 }
 
 const DEFAULT_CASH_BALANCE = new Prisma.Decimal(100000);
@@ -24,53 +29,81 @@ export function ensurePortfolio(portfolio: Portfolio | null): Portfolio {
   } as Portfolio;
 }
 
-export function applyTrade(position: Position | null, trade: TradeInput) {
-  const qtyDelta = new Prisma.Decimal(trade.qty);
+export interface ApplyTradeOptions {
+  /** Lets a SELL open or extend a short position (negative quantity). */
+  allowShort?: boolean;
+}
+
+export interface AppliedTrade {
+  qty: Prisma.Decimal;
+  avgPrice: Prisma.Decimal;
+  /** Profit of the part of the trade that closed existing exposure, net of its share of costs. */
+  realizedPnL: Prisma.Decimal | null;
+}
+
+/**
+ * Applies a fill to a position with a signed quantity (negative for shorts). Opening costs are
+ * capitalised into the average price (BUY) or deducted from the entry price (short SELL);
+ * closing costs reduce realized PnL. A fill that crosses through zero closes the old position
+ * and opens the remainder on the other side at the fill price.
+ */
+export function applyTrade(
+  position: Pick<Position, "qty" | "avgPrice"> | null,
+  trade: TradeInput,
+  options: ApplyTradeOptions = {}
+): AppliedTrade {
+  const zero = new Prisma.Decimal(0);
+  const qty = new Prisma.Decimal(trade.qty);
   const price = new Prisma.Decimal(trade.price);
+  const costs = new Prisma.Decimal((trade.fee ?? 0) + (trade.slippage ?? 0));
+  const direction = trade.side === "BUY" ? 1 : -1;
 
-  if (!position) {
-    if (trade.side === "SELL") {
+  const currentQty = position?.qty ?? zero;
+  const currentAvg = position?.avgPrice ?? zero;
+
+  if (trade.side === "SELL" && !options.allowShort) {
+    if (!position || currentQty.lte(0)) {
       throw new Error("Cannot sell a position that does not exist");
     }
-    return {
-      qty: qtyDelta,
-      avgPrice: price
-    };
+    if (qty.gt(currentQty)) {
+      throw new Error("Cannot sell more shares than currently held");
+    }
   }
 
-  const currentQty = position.qty;
-  const currentAvg = position.avgPrice;
-
-  if (trade.side === "BUY") {
-    const newQty = currentQty.add(qtyDelta);
-    const totalCost = currentAvg.mul(currentQty).add(price.mul(qtyDelta));
-    const newAvg = newQty.isZero() ? new Prisma.Decimal(0) : totalCost.div(newQty);
-    return {
-      qty: newQty,
-      avgPrice: newAvg
-    };
-  }
+  const openingBasis = (openQty: Prisma.Decimal, openCosts: Prisma.Decimal) =>
+    direction === 1 ? price.mul(openQty).add(openCosts) : price.mul(openQty).sub(openCosts);
 
-  if (qtyDelta.gt(currentQty)) {
-    throw new Error("Cannot sell more shares than currently held");
+  // Flat, or adding on the same side: blend the average price.
+  if (currentQty.isZero() || currentQty.isPositive() === (direction === 1)) {
+    const heldQty = currentQty.abs();
+    const avgPrice = currentAvg.mul(heldQty).add(openingBasis(qty, costs)).div(heldQty.add(qty));
+    return { qty: currentQty.add(qty.mul(direction)), avgPrice, realizedPnL: null };
   }
 
-  const newQty = currentQty.sub(qtyDelta);
-  const avgPrice = newQty.isZero() ? new Prisma.Decimal(0) : currentAvg;
+  // Reducing, closing or flipping the position.
+  const closingQty = Prisma.Decimal.min(qty, currentQty.abs());
+  const openingQty = qty.sub(closingQty);
+  const closingCosts = costs.mul(closingQty).div(qty);
+  const pnlPerShare = currentQty.isPositive() ? price.sub(currentAvg) : currentAvg.sub(price);
+  const realizedPnL = pnlPerShare.mul(closingQty).sub(closingCosts);
+  const newQty = currentQty.add(qty.mul(direction));
 
-  return {
-    qty: newQty,
-    avgPrice
-  };
+  if (openingQty.isZero()) {
+    return { qty: newQty, avgPrice: newQty.isZero() ? zero : currentAvg, realizedPnL };
+  }
+
+  return { qty: newQty, avgPrice: openingBasis(openingQty, costs.sub(closingCosts)).div(openingQty), realizedPnL };
 }
 
+/** Values stay in the position's currency; `fxRate` converts them into the base currency. */
 export function computePositionDto(
   position: Position,
   quote: {
     price: number | null;
     change?: number | null;
     changePercent?: number | null;
-  }
+  },
+  fxRate = 1
 ): PortfolioPositionDto {
   const qty = position.qty.toNumber();
   const avgPrice = position.avgPrice.toNumber();
@@ -82,6 +115,8 @@ export function computePositionDto(
 
   return {
     symbol: position.symbol,
+    currency: position.currency,
+    fxRate,
     qty,
     avgPrice,
     marketPrice,
@@ -92,13 +127,15 @@ export function computePositionDto(
   };
 }
 
+/** Sums the positions in the base currency. */
 export function computePortfolioTotals(positions: PortfolioPositionDto[]) {
   return positions.reduce(
     (acc, position) => {
-      acc.totalMarketValue += position.marketValue ?? 0;
-      acc.totalCostBasis += position.qty * position.avgPrice;
-      acc.totalUnrealizedPnL += position.unrealizedPnL ?? 0;
-      acc.totalDailyPnL += position.dailyPnL ?? 0;
+      const fxRate = position.fxRate ?? 1;
+      acc.totalMarketValue += (position.marketValue ?? 0) * fxRate;
+      acc.totalCostBasis += position.qty * position.avgPrice * fxRate;
+      acc.totalUnrealizedPnL += (position.unrealizedPnL ?? 0) * fxRate;
+      acc.totalDailyPnL += (position.dailyPnL ?? 0) * fxRate;
       return acc;
     },
     {
@@ -110,17 +147,92 @@ export function computePortfolioTotals(positions: PortfolioPositionDto[]) {
   );
 }
 
+/**
+ * Groups cash and market value by currency. Positions quoted in a minor unit (e.g. pence) are
+ * reported under their major currency.
+ */
+export function computeCurrencyExposure(cash: CashBalanceDto[], positions: PortfolioPositionDto[]): CurrencyExposure[] {
+  const byCurrency = new Map<string, CurrencyExposure>();
+  const entry = (currency: string, fxRate: number) => {
+    const existing = byCurrency.get(currency);
+    if (existing) {
+      return existing;
+    }
+    const created = { currency, fxRate, cash: 0, marketValue: 0, baseValue: 0 };
+    byCurrency.set(currency, created);
+    return created;
+  };
+
+  for (const balance of cash) {
+    const exposure = entry(balance.currency, balance.fxRate);
+    exposure.cash += balance.amount;
+    exposure.baseValue += balance.baseAmount;
+  }
+  for (const position of positions) {
+    const unit = normalizeCurrency(position.currency) ?? { currency: "", factor: 1 };
+    const fxRate = position.fxRate ?? 1;
+    const exposure = entry(unit.currency || cash[0]?.currency || "", fxRate / unit.factor);
+    exposure.marketValue += (position.marketValue ?? 0) * unit.factor;
+    exposure.baseValue += (position.marketValue ?? 0) * fxRate;
+  }
+
+  return Array.from(byCurrency.values());
+}
+
 export function sortPositions(positions: PortfolioPositionDto[]) {
   return [...positions].sort((a, b) => a.symbol.localeCompare(b.symbol));
 }
 
-export function createTradeRecord(trade: TradeInput, portfolioId: number): Omit<Trade, "id"> {
+/** API shape of a ledger row, including its correction markers. */
+export function mapTrade(trade: Trade) {
+  return {
+    id: trade.id,
+    symbol: trade.symbol,
+    side: trade.side,
+    qty: trade.qty.toNumber(),
+    price: trade.price.toNumber(),
+    fee: trade.fee.toNumber(),
+    slippage: trade.slippage.toNumber(),
+    currency: trade.currency,
+    fxRate: trade.fxRate.toNumber(),
+    realizedPnL: trade.realizedPnL ? trade.realizedPnL.toNumber() : null,
+    shortTermPnL: trade.shortTermPnL ? trade.shortTermPnL.toNumber() : null,
+    longTermPnL: trade.longTermPnL ? trade.longTermPnL.toNumber() : null,
+    ts: trade.ts.toISOString(),
+    orderId: trade.orderId,
+    reversedAt: trade.reversedAt ? trade.reversedAt.toISOString() : null,
+    reversedBy: trade.reversedBy,
+    reversalReason: trade.reversalReason,
+    amendsTradeId: trade.amendsTradeId
+  };
+}
+
+export function createTradeRecord(
+  trade: TradeInput,
+  portfolioId: number,
+  orderId: number | null = null,
+  realized: Pick<Trade, "realizedPnL" | "shortTermPnL" | "longTermPnL"> = {
+    realizedPnL: null,
+    shortTermPnL: null,
+    longTermPnL: null
+  },
+  fx: Pick<Trade, "currency" | "fxRate"> = { currency: "USD", fxRate: new Prisma.Decimal(1) }
+): Omit<Trade, "id"> {
   return {
     portfolioId,
+    orderId,
     symbol: trade.symbol,
     side: trade.side,
     qty: new Prisma.Decimal(trade.qty),
     price: new Prisma.Decimal(trade.price),
-    ts: new Date()
+    fee: new Prisma.Decimal(trade.fee ?? 0),
+    slippage: new Prisma.Decimal(trade.slippage ?? 0),
+    ...fx,
+    ...realized,
+    ts: new Date(),
+    reversedAt: null,
+    reversedBy: null,
+    reversalReason: null,
+    amendsTradeId: null
   };
 }
@@ -1,6 +1,7 @@
 ﻿import { Prisma, prisma } from "@paper-trading/db";
 import {
   applyTrade,
+  computeCurrencyExposure,
   computePortfolioTotals,
   computePositionDto,
   createTradeRecord,
@@ -10,6 +11,12 @@ import {
 } from "./portfolio";
 import { getQuote } from "./yahoo";
 import { PortfolioSnapshot } from "./types";
+import { computeTradeCosts, costModelFromPortfolio, costModelInCurrency, MarketConditions } from "./costs";
+import { assertMarginForTrade, computeMarginState, marginPolicyFromPortfolio } from "./margin";
+import { applyLotPlan, loadOpenLots, lotMethodFromPortfolio, planLotChanges } from "./taxLots";
+import { creditCash, debitCash, describeCash, startingCapitalDeposit, SymbolSettlement } from "./cashBalances";
+import { EXTERNAL_CASH_FLOW_TYPES, summarizeCashFlows } from "./cashLedger";
+import { getFxRate } from "./fx";
 
 export const DEFAULT_PORTFOLIO_ID = 1;
 export const INITIAL_CASH_BALANCE = new Prisma.Decimal(100000);
@@ -52,7 +59,9 @@ export async function getPortfolioRecord(portfolioId: number) {
       create: {
         name: "Default",
         baseCurrency: "USD",
-        cashBalance: INITIAL_CASH_BALANCE
+        cashBalance: INITIAL_CASH_BALANCE,
+        startingCapital: INITIAL_CASH_BALANCE,
+        cashTransactions: { create: startingCapitalDeposit("USD", INITIAL_CASH_BALANCE) }
       }
     });
   }
@@ -106,102 +115,208 @@ export async function buildPortfolioSnapshot(
   });
 
   const quotes = await Promise.all(positions.map((position) => getQuote(position.symbol)));
+  const fxRates = await Promise.all(positions.map((position) => getFxRate(position.currency, base.baseCurrency)));
   const positionDtos = positions.map((position, index) =>
-    computePositionDto(position, quotes[index] ?? { price: null })
+    computePositionDto(position, quotes[index] ?? { price: null }, fxRates[index])
   );
   const totals = computePortfolioTotals(positionDtos);
+  const cash = await describeCash(prisma, portfolioRecord);
+  const totalCash = cash.reduce((sum, balance) => sum + balance.baseAmount, 0);
+  const margin = portfolioRecord.allowShort
+    ? computeMarginState(
+        totalCash,
+        positionDtos.map((position) => ({
+          symbol: position.symbol,
+          qty: position.qty,
+          price: position.marketPrice ?? position.avgPrice,
+          fxRate: position.fxRate
+        })),
+        marginPolicyFromPortfolio(portfolioRecord)
+      )
+    : null;
+
+  // Trade amounts are in the traded currency; the rate at trade time converts them to base.
+  // Reversed trades stay in the ledger for the audit trail but no longer count.
+  const trades = await prisma.trade.findMany({
+    where: { portfolioId, reversedAt: null },
+    select: { fee: true, slippage: true, realizedPnL: true, shortTermPnL: true, longTermPnL: true, fxRate: true }
+  });
+  const costs = trades.reduce(
+    (sum, trade) => {
+      const toBase = (value: Prisma.Decimal | null) => (value ? value.mul(trade.fxRate).toNumber() : 0);
+      return {
+        fee: sum.fee + toBase(trade.fee),
+        slippage: sum.slippage + toBase(trade.slippage),
+        realizedPnL: sum.realizedPnL + toBase(trade.realizedPnL),
+        shortTermPnL: sum.shortTermPnL + toBase(trade.shortTermPnL),
+        longTermPnL: sum.longTermPnL + toBase(trade.longTermPnL)
+      };
+    },
+    { fee: 0, slippage: 0, realizedPnL: 0, shortTermPnL: 0, longTermPnL: 0 }
+  );
+  const dividends = await prisma.corporateActionEntry.findMany({
+    where: { portfolioId, type: "dividend" },
+    select: { cashAmount: true, fxRate: true }
+  });
+  const totalDividends = dividends.reduce((sum, entry) => sum + entry.cashAmount.mul(entry.fxRate).toNumber(), 0);
+  const externalFlows = await prisma.cashTransaction.findMany({
+    where: { portfolioId, type: { in: EXTERNAL_CASH_FLOW_TYPES } },
+    select: { type: true, amount: true, fxRate: true }
+  });
 
   return {
     id: base.id,
     name: base.name,
     baseCurrency: base.baseCurrency,
+    fxAutoConvert: portfolioRecord.fxAutoConvert,
     cashBalance,
+    totalCash,
+    cash,
+    currencies: computeCurrencyExposure(cash, positionDtos),
     totalMarketValue: totals.totalMarketValue,
     totalCostBasis: totals.totalCostBasis,
     totalUnrealizedPnL: totals.totalUnrealizedPnL,
     totalDailyPnL: totals.totalDailyPnL,
+    totalFees: costs.fee,
+    totalSlippage: costs.slippage,
+    totalRealizedPnL: costs.realizedPnL,
+    totalShortTermPnL: costs.shortTermPnL,
+    totalLongTermPnL: costs.longTermPnL,
+    borrowFeesPaid: decimalToNumber(portfolioRecord.borrowFeesPaid),
+    totalDividends,
+    netDeposits: summarizeCashFlows(externalFlows).netExternalFlow,
+    margin,
     positions: sortPositions(positionDtos)
   };
 }
 
-export async function executeTradeInputs(
-  trades: TradeInput[],
-  portfolioId: number
-): Promise<void> {
-  if (trades.length === 0) {
-    return;
-  }
+/**
+ * Books a single fill inside an open transaction: charges the portfolio's commission and
+ * slippage, checks margin for portfolios that allow shorting, updates, closes or flips the
+ * position, appends the trade (with its realized PnL and FX rate) to the ledger, moves cash in
+ * the settlement currency (converting at the FX rate in `booking` when needed) with a matching
+ * cash ledger row, and relieves and opens tax lots. `booking` is looked up with
+ * `resolveSymbolSettlements` before the transaction opens.
+ * Every execution path (manual orders, resting order fills, LLM runs) goes through here so
+ * the bookkeeping stays identical.
+ */
+export async function bookTrade(
+  tx: Prisma.TransactionClient,
+  portfolioId: number,
+  fill: TradeInput,
+  booking: SymbolSettlement,
+  options: {
+    orderId?: number | null;
+    market?: MarketConditions;
+    lotIds?: number[];
+    /** Books the fill without commission or slippage, e.g. when a delisting closes a position. */
+    waiveCosts?: boolean;
+    /** Simulated market impact in price currency, booked on top of the model's slippage. */
+    marketImpact?: number;
+  } = {}
+) {
+  const portfolio = await tx.portfolio.findUnique({
+    where: { id: portfolioId }
+  });
 
-  await prisma.$transaction(async (tx) => {
-    const portfolio = await tx.portfolio.findUnique({
-      where: { id: portfolioId }
-    });
+  if (!portfolio) {
+    throw new Error("Portfolio not found");
+  }
 
-    if (!portfolio) {
-      throw new Error("Portfolio not found");
+  const existingPosition = await tx.position.findFirst({
+    where: {
+      portfolioId,
+      symbol: fill.symbol
     }
+  });
+  const { currency, settlement } = booking;
 
-    for (const tradeInput of trades) {
-      const qtyDecimal = new Prisma.Decimal(tradeInput.qty);
-      const priceDecimal = new Prisma.Decimal(tradeInput.price);
-      const tradeCost = qtyDecimal.mul(priceDecimal);
-      const currentCash = new Prisma.Decimal(portfolio.cashBalance);
-
-      if (tradeInput.side === "BUY") {
-        if (currentCash.lt(tradeCost)) {
-          throw new Error("Insufficient cash balance for this trade");
-        }
-        portfolio.cashBalance = currentCash.sub(tradeCost);
-        await tx.portfolio.update({
-          where: { id: portfolioId },
-          data: { cashBalance: portfolio.cashBalance }
-        });
-      } else {
-        portfolio.cashBalance = currentCash.add(tradeCost);
-        await tx.portfolio.update({
-          where: { id: portfolioId },
-          data: { cashBalance: portfolio.cashBalance }
-        });
-      }
+  let tradeInput: TradeInput = { ...fill, fee: 0, slippage: 0 };
+  if (!options.waiveCosts) {
+    const model = costModelInCurrency(costModelFromPortfolio(portfolio), settlement.baseRate);
+    const { fee, slippage } = computeTradeCosts(model, fill, options.market);
+    tradeInput = { ...fill, fee, slippage: slippage + (options.marketImpact ?? 0) };
+  }
+  const qtyDecimal = new Prisma.Decimal(tradeInput.qty);
+  const priceDecimal = new Prisma.Decimal(tradeInput.price);
+  const costs = new Prisma.Decimal(tradeInput.fee ?? 0).add(tradeInput.slippage ?? 0);
+  const notional = qtyDecimal.mul(priceDecimal);
+  const settlementRate = new Prisma.Decimal(settlement.rate);
 
-      const existingPosition = await tx.position.findFirst({
-        where: {
-          portfolioId,
-          symbol: tradeInput.symbol
-        }
-      });
-
-      const updated = applyTrade(existingPosition ?? null, tradeInput);
-
-      if (!existingPosition) {
-        if (tradeInput.side === "SELL") {
-          throw new Error("Cannot sell a position that does not exist");
-        }
-        await tx.position.create({
-          data: {
-            portfolioId,
-            symbol: tradeInput.symbol,
-            qty: updated.qty,
-            avgPrice: updated.avgPrice
-          }
-        });
-      } else if (updated.qty.isZero()) {
-        await tx.position.delete({ where: { id: existingPosition.id } });
-      } else {
-        await tx.position.update({
-          where: { id: existingPosition.id },
-          data: {
-            qty: updated.qty,
-            avgPrice: updated.avgPrice
-          }
-        });
+  if (portfolio.allowShort) {
+    await assertMarginForTrade(tx, portfolio, tradeInput, settlement.baseRate);
+  }
+
+  const updated = applyTrade(existingPosition ?? null, tradeInput, { allowShort: portfolio.allowShort });
+  const now = new Date();
+  const lotMethod = lotMethodFromPortfolio(portfolio);
+  const lots = await loadOpenLots(tx, portfolioId, tradeInput.symbol, existingPosition ?? null);
+  const lotPlan = planLotChanges(
+    lots,
+    existingPosition?.qty ?? new Prisma.Decimal(0),
+    existingPosition?.avgPrice ?? new Prisma.Decimal(0),
+    tradeInput,
+    updated,
+    { method: lotMethod, lotIds: options.lotIds, now }
+  );
+
+  if (!existingPosition) {
+    await tx.position.create({
+      data: {
+        portfolioId,
+        symbol: tradeInput.symbol,
+        qty: updated.qty,
+        avgPrice: lotPlan.avgPrice,
+        currency
       }
+    });
+  } else if (updated.qty.isZero()) {
+    await tx.position.delete({ where: { id: existingPosition.id } });
+  } else {
+    await tx.position.update({
+      where: { id: existingPosition.id },
+      data: {
+        qty: updated.qty,
+        avgPrice: lotPlan.avgPrice
+      }
+    });
+  }
 
-      await tx.trade.create({
-        data: createTradeRecord(tradeInput, portfolioId)
-      });
-    }
+  const trade = await tx.trade.create({
+    data: createTradeRecord(
+      tradeInput,
+      portfolioId,
+      options.orderId ?? null,
+      {
+        realizedPnL: lotPlan.relief?.realizedPnL ?? null,
+        shortTermPnL: lotPlan.relief?.shortTermPnL ?? null,
+        longTermPnL: lotPlan.relief?.longTermPnL ?? null
+      },
+      { currency, fxRate: new Prisma.Decimal(settlement.baseRate) }
+    )
   });
-}
 
+  const movement = {
+    type: "trade" as const,
+    tradeId: trade.id,
+    note: `${tradeInput.side} ${tradeInput.qty} ${tradeInput.symbol} @ ${tradeInput.price}`,
+    fxRate: settlement.baseRate / settlement.rate
+  };
+  if (tradeInput.side === "BUY") {
+    await debitCash(
+      tx,
+      portfolioId,
+      settlement.currency,
+      notional.add(costs).mul(settlementRate),
+      movement,
+      settlement.currency === portfolio.baseCurrency
+        ? "Insufficient cash balance for this trade"
+        : `Insufficient ${settlement.currency} cash balance for this trade; convert cash into ${settlement.currency} first`
+    );
+  } else {
+    await creditCash(tx, portfolioId, settlement.currency, notional.sub(costs).mul(settlementRate), movement);
+  }
 
+  await applyLotPlan(tx, portfolioId, tradeInput.symbol, lotPlan, { tradeId: trade.id, method: lotMethod, now });
+  return trade;
+}
@@ -0,0 +1,153 @@
+import type { Application } from "express";
+import { prisma, Prisma } from "@paper-trading/db";
+import type { Portfolio } from "@paper-trading/db";
+import { z } from "zod";
+import { costModelFromPortfolio, SLIPPAGE_MODELS, SlippageModel } from "./costs";
+import { marginPolicyFromPortfolio } from "./margin";
+import { LOT_METHODS, LotMethod, lotMethodFromPortfolio } from "./taxLots";
+import { MARKET_HOURS_POLICIES, MarketHoursPolicy } from "./marketCalendar";
+import { fillSimulationFromPortfolio } from "./fillSimulator";
+import { getPortfolioRecord, parsePortfolioIdStrict } from "./portfolioService";
+import { resolveBenchmarkUpdate } from "./benchmarkService";
+import {
+  hasSingleUniverseSource,
+  mapUniverseSettings,
+  resolveUniverseUpdate,
+  SINGLE_UNIVERSE_SOURCE,
+  universeUpdateFields
+} from "./universe";
+
+const nonNegative = z.number().min(0);
+const fraction = z.number().gt(0).max(1);
+
+export const portfolioSettingsUpdateSchema = z
+  .object({
+    commissionFixed: nonNegative.optional(),
+    commissionBps: nonNegative.optional(),
+    commissionPerShare: nonNegative.optional(),
+    commissionMin: nonNegative.nullable().optional(),
+    commissionMax: nonNegative.nullable().optional(),
+    slippageModel: z.enum(SLIPPAGE_MODELS as [SlippageModel, ...SlippageModel[]]).optional(),
+    slippageBps: nonNegative.optional(),
+    slippageImpact: nonNegative.optional(),
+    allowShort: z.boolean().optional(),
+    borrowFeeRate: nonNegative.max(1).optional(),
+    initialMarginRate: fraction.optional(),
+    maintenanceMarginRate: fraction.optional(),
+    lotMethod: z.enum(LOT_METHODS as [LotMethod, ...LotMethod[]]).optional(),
+    fxAutoConvert: z.boolean().optional(),
+    withholdingTaxRate: nonNegative.max(1).optional(),
+    marketHoursPolicy: z.enum(MARKET_HOURS_POLICIES as [MarketHoursPolicy, ...MarketHoursPolicy[]]).optional(),
+    fillSimulation: z.boolean().optional(),
+    maxParticipation: fraction.optional(),
+    marketImpactBps: nonNegative.optional(),
+    benchmarkSymbol: z.string().trim().min(1).max(32).nullable().optional(),
+    benchmarkPortfolioId: z.number().int().positive().nullable().optional(),
+    ...universeUpdateFields
+  })
+  .refine((data) => !data.benchmarkSymbol || !data.benchmarkPortfolioId, {
+    message: "Choose either a benchmark symbol or a benchmark portfolio",
+    path: ["benchmarkSymbol"]
+  })
+  .refine(hasSingleUniverseSource, SINGLE_UNIVERSE_SOURCE)
+  .refine(
+    (data) =>
+      data.commissionMin === undefined ||
+      data.commissionMin === null ||
+      data.commissionMax === undefined ||
+      data.commissionMax === null ||
+      data.commissionMin <= data.commissionMax,
+    { message: "commissionMin cannot exceed commissionMax", path: ["commissionMin"] }
+  );
+
+export function registerPortfolioSettingsRoutes(app: Application) {
+  app.get("/api/portfolios/:id/settings", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      const portfolio = await getPortfolioRecord(portfolioId);
+      res.json({ settings: mapPortfolioSettings(portfolio) });
+    } catch (error) {
+      console.error("Get portfolio settings failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to fetch portfolio settings" });
+    }
+  });
+
+  app.put("/api/portfolios/:id/settings", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      const current = await getPortfolioRecord(portfolioId);
+      const body = portfolioSettingsUpdateSchema.parse(req.body ?? {});
+
+      const initialMarginRate = body.initialMarginRate ?? current.initialMarginRate.toNumber();
+      const maintenanceMarginRate = body.maintenanceMarginRate ?? current.maintenanceMarginRate.toNumber();
+      if (maintenanceMarginRate > initialMarginRate) {
+        return res.status(400).json({ error: "maintenanceMarginRate cannot exceed initialMarginRate" });
+      }
+      if (body.allowShort === false && (await hasShortPositions(portfolioId))) {
+        return res.status(400).json({ error: "Cover all short positions before disabling short selling" });
+      }
+
+      const benchmark = await resolveBenchmarkUpdate(portfolioId, body);
+      const universe = await resolveUniverseUpdate(body);
+
+      const toDecimal = (value: number | null | undefined) =>
+        value === undefined ? undefined : value === null ? null : new Prisma.Decimal(value);
+
+      const portfolio = await prisma.portfolio.update({
+        where: { id: portfolioId },
+        data: {
+          commissionFixed: toDecimal(body.commissionFixed) ?? undefined,
+          commissionBps: toDecimal(body.commissionBps) ?? undefined,
+          commissionPerShare: toDecimal(body.commissionPerShare) ?? undefined,
+          commissionMin: toDecimal(body.commissionMin),
+          commissionMax: toDecimal(body.commissionMax),
+          slippageModel: body.slippageModel,
+          slippageBps: toDecimal(body.slippageBps) ?? undefined,
+          slippageImpact: toDecimal(body.slippageImpact) ?? undefined,
+          allowShort: body.allowShort,
+          borrowFeeRate: toDecimal(body.borrowFeeRate) ?? undefined,
+          initialMarginRate: toDecimal(body.initialMarginRate) ?? undefined,
+          maintenanceMarginRate: toDecimal(body.maintenanceMarginRate) ?? undefined,
+          lotMethod: body.lotMethod,
+          fxAutoConvert: body.fxAutoConvert,
+          withholdingTaxRate: toDecimal(body.withholdingTaxRate) ?? undefined,
+          marketHoursPolicy: body.marketHoursPolicy,
+          fillSimulation: body.fillSimulation,
+          maxParticipation: toDecimal(body.maxParticipation) ?? undefined,
+          marketImpactBps: toDecimal(body.marketImpactBps) ?? undefined,
+          ...benchmark,
+          ...universe
+        }
+      });
+
+      res.json({ settings: mapPortfolioSettings(portfolio) });
+    } catch (error) {
+      console.error("Update portfolio settings failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid portfolio settings update" });
+    }
+  });
+}
+
+function mapPortfolioSettings(portfolio: Portfolio) {
+  return {
+    portfolioId: portfolio.id,
+    costModel: costModelFromPortfolio(portfolio),
+    margin: marginPolicyFromPortfolio(portfolio),
+    lotMethod: lotMethodFromPortfolio(portfolio),
+    fxAutoConvert: portfolio.fxAutoConvert,
+    withholdingTaxRate: portfolio.withholdingTaxRate.toNumber(),
+    marketHoursPolicy: portfolio.marketHoursPolicy as MarketHoursPolicy,
+    fillSimulation: {
+      enabled: fillSimulationFromPortfolio(portfolio) !== null,
+      maxParticipation: portfolio.maxParticipation.toNumber(),
+      marketImpactBps: portfolio.marketImpactBps.toNumber()
+    },
+    benchmark: { symbol: portfolio.benchmarkSymbol, portfolioId: portfolio.benchmarkPortfolioId },
+    universe: mapUniverseSettings(portfolio)
+  };
+}
+
+async function hasShortPositions(portfolioId: number) {
+  const shorts = await prisma.position.count({ where: { portfolioId, qty: { lt: 0 } } });
+  return shorts > 0;
+}
@@ -0,0 +1,223 @@
+import { createHash } from "node:crypto";
+import { callProvider, ExecutionContext, LlmRunOptions, ProviderCallResult, ProviderCaller } from "./llmService";
+import { runLlmTool, ToolCall, ToolRunner } from "./llmTools";
+
+type ProviderPayload = Parameters<ProviderCaller>[1];
+
+/** The provider a call went to, as recorded; its API key is never stored. */
+export interface RecordedProvider {
+  id: number;
+  name: string;
+  type: string;
+  apiBase: string;
+  model: string;
+  temperature: number | null;
+  maxTokens: number | null;
+}
+
+export interface RecordedProviderCall {
+  requestHash: string;
+  provider: RecordedProvider;
+  request: ProviderPayload;
+  /** What the provider answered, or the message of the error the call failed with. */
+  response: ProviderCallResult | null;
+  error: string | null;
+}
+
+/** A tool call of an agent run and what the tool returned or the message it failed with. */
+export interface RecordedToolCall {
+  name: string;
+  arguments: ToolCall["arguments"];
+  result: unknown;
+  error: string | null;
+}
+
+/**
+ * The provider calls of one run in order, with the context their prompts were rendered from,
+ * so the run can be replayed without the network. Agent runs also keep their tool results, as
+ * the data the tools returned has changed by the time of the replay.
+ */
+export interface ProviderCassette {
+  version: 1;
+  context: ExecutionContext | null;
+  calls: RecordedProviderCall[];
+  toolCalls: RecordedToolCall[];
+}
+
+export class CassetteMissError extends Error {
+  constructor(requestHash: string) {
+    super(
+      `No recorded provider response matches request ${requestHash.slice(0, 12)}; ` +
+        `the prompts or validation have changed since the run was recorded`
+    );
+    this.name = "CassetteMissError";
+  }
+}
+
+const REDACTED = "[redacted]";
+
+export function createCassette(): ProviderCassette {
+  return { version: 1, context: null, calls: [], toolCalls: [] };
+}
+
+/**
+ * Identifies a request by what is sent to the provider: its type and the payload. The API base
+ * and key are left out so a run still replays after the provider's endpoint or key changes.
+ * Tool fields are only added when present, so recordings made without tools keep their hashes.
+ */
+export function hashProviderRequest(providerType: string, payload: ProviderPayload) {
+  const normalized = {
+    type: providerType,
+    model: payload.model,
+    temperature: payload.temperature ?? null,
+    maxTokens: payload.max_tokens ?? null,
+    responseFormat: payload.response_format ?? null,
+    ...(payload.tools
+      ? { tools: payload.tools.map((tool) => tool.name), toolChoice: payload.tool_choice ?? "auto" }
+      : {}),
+    messages: payload.messages.map(({ role, content, toolCalls, toolCallId }) => ({
+      role,
+      content,
+      ...(toolCalls ? { toolCalls } : {}),
+      ...(toolCallId ? { toolCallId } : {})
+    }))
+  };
+  return createHash("sha256").update(JSON.stringify(normalized)).digest("hex");
+}
+
+/** Wraps `call` so every request and response is added to `cassette`, with the API key redacted. */
+export function recordProviderCalls(cassette: ProviderCassette, call: ProviderCaller = callProvider): ProviderCaller {
+  return async (provider, payload, context) => {
+    if (context && !cassette.context) {
+      cassette.context = context;
+    }
+    const record = (response: ProviderCallResult | null, error: string | null) =>
+      cassette.calls.push(
+        redactedCopy(
+          {
+            requestHash: hashProviderRequest(provider.type, payload),
+            provider: recordedProvider(provider),
+            request: payload,
+            response,
+            error
+          },
+          provider.apiKey
+        )
+      );
+    try {
+      const response = await call(provider, payload, context);
+      record(response, null);
+      return response;
+    } catch (error) {
+      record(null, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  };
+}
+
+/**
+ * Serves the recorded responses of `cassette` by request hash and never calls a provider.
+ * Recorded failures are thrown again with their message; a request that was not recorded throws
+ * `CassetteMissError`.
+ */
+export function replayProviderCalls(cassette: ProviderCassette): ProviderCaller {
+  const used = new Set<number>();
+  return async (provider, payload) => {
+    const requestHash = hashProviderRequest(provider.type, payload);
+    const index = cassette.calls.findIndex((call, position) => call.requestHash === requestHash && !used.has(position));
+    if (index === -1) {
+      throw new CassetteMissError(requestHash);
+    }
+    used.add(index);
+    const { response, error } = cassette.calls[index];
+    if (!response) {
+      throw new Error(error ?? "Recorded provider call failed");
+    }
+    return response;
+  };
+}
+
+/** Wraps `run` so every tool call and its result is added to `cassette`. */
+export function recordToolCalls(cassette: ProviderCassette, run: ToolRunner = runLlmTool): ToolRunner {
+  return async (call, environment) => {
+    // Stored as JSON would return them, which is what a replay serves.
+    const record = (result: unknown, error: string | null) =>
+      cassette.toolCalls.push(
+        JSON.parse(JSON.stringify({ name: call.name, arguments: call.arguments, result, error })) as RecordedToolCall
+      );
+    try {
+      const result = await run(call, environment);
+      record(result ?? null, null);
+      return result;
+    } catch (error) {
+      record(null, error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  };
+}
+
+/**
+ * Serves the recorded tool results of `cassette` by tool name and arguments, in the order they
+ * were recorded, and never runs a tool.
+ */
+export function replayToolCalls(cassette: ProviderCassette): ToolRunner {
+  const used = new Set<number>();
+  return async (call) => {
+    const key = JSON.stringify(call.arguments);
+    const index = cassette.toolCalls.findIndex(
+      (recorded, position) =>
+        recorded.name === call.name && JSON.stringify(recorded.arguments) === key && !used.has(position)
+    );
+    if (index === -1) {
+      throw new Error(`No recorded result for the ${call.name} tool call with arguments ${key}`);
+    }
+    used.add(index);
+    const { result, error } = cassette.toolCalls[index];
+    if (error !== null) {
+      throw new Error(error);
+    }
+    return result;
+  };
+}
+
+export function serializeCassette(cassette: ProviderCassette) {
+  return JSON.stringify(cassette);
+}
+
+/** Reads a stored cassette back, restoring the context's `asOf` date. Older ones have no tool calls. */
+export function parseCassette(json: string): ProviderCassette {
+  const parsed = JSON.parse(json) as ProviderCassette & { context: (ExecutionContext & { asOf: string }) | null };
+  if (parsed.version !== 1 || !Array.isArray(parsed.calls)) {
+    throw new Error("Unsupported cassette format");
+  }
+  return {
+    ...parsed,
+    context: parsed.context ? { ...parsed.context, asOf: new Date(parsed.context.asOf) } : null,
+    toolCalls: parsed.toolCalls ?? []
+  };
+}
+
+/** The first recorded provider, to replay against when the original one is gone or has changed. */
+export function cassetteProvider(cassette: ProviderCassette): LlmRunOptions["provider"] | null {
+  const recorded = cassette.calls[0]?.provider;
+  return recorded ? { ...recorded, apiKey: null } : null;
+}
+
+function recordedProvider(provider: LlmRunOptions["provider"]): RecordedProvider {
+  return {
+    id: provider.id,
+    name: provider.name,
+    type: provider.type,
+    apiBase: provider.apiBase,
+    model: provider.model,
+    temperature: provider.temperature ?? null,
+    maxTokens: provider.maxTokens ?? null
+  };
+}
+
+// A copy, as the run keeps appending to the messages after the call. Providers can echo the key
+// back, e.g. in an error or a URL inside the raw response, so it is scrubbed from the whole record.
+function redactedCopy<T>(value: T, secret: string | null): T {
+  const json = JSON.stringify(value);
+  return JSON.parse(secret ? json.replaceAll(JSON.stringify(secret).slice(1, -1), REDACTED) : json) as T;
+}
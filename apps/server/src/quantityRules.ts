@@ -0,0 +1,151 @@
+import { Prisma } from "@paper-trading/db";
+import type { InstrumentRule } from "@paper-trading/db";
+
+export interface QuantityRules {
+  allowFractional: boolean;
+  /** Decimal places allowed in a fractional quantity. */
+  qtyPrecision: number;
+  minQty: number;
+  /** Whole-share orders must be a multiple of this board lot. */
+  lotSize: number;
+  /** Smallest order value, in the instrument's quote currency. */
+  minNotional: number;
+}
+
+export const DEFAULT_QUANTITY_RULES: QuantityRules = {
+  allowFractional: false,
+  qtyPrecision: 0,
+  minQty: 1,
+  lotSize: 1,
+  minNotional: 0
+};
+
+const FRACTIONAL_EQUITY_RULES: QuantityRules = {
+  allowFractional: true,
+  qtyPrecision: 4,
+  minQty: 0.0001,
+  lotSize: 1,
+  minNotional: 0
+};
+
+const CRYPTO_RULES: QuantityRules = {
+  allowFractional: true,
+  qtyPrecision: 8,
+  minQty: 0.00000001,
+  lotSize: 1,
+  minNotional: 0
+};
+
+const BOARD_LOT_RULES: QuantityRules = { ...DEFAULT_QUANTITY_RULES, minQty: 100, lotSize: 100 };
+
+/**
+ * Venue defaults keyed by Yahoo suffix. Tokyo, Hong Kong, Shanghai and Shenzhen trade in
+ * 100-share board lots (Hong Kong lots vary by stock, so override those per instrument).
+ */
+const EXCHANGE_QUANTITY_RULES: Record<string, QuantityRules> = {
+  T: BOARD_LOT_RULES,
+  HK: BOARD_LOT_RULES,
+  SS: BOARD_LOT_RULES,
+  SZ: BOARD_LOT_RULES
+};
+
+/**
+ * Rules that apply to a symbol before any per-instrument override: US listings (no suffix) and
+ * crypto pairs can be traded fractionally, other venues in whole shares or board lots.
+ */
+export function exchangeQuantityRules(symbol: string): QuantityRules {
+  const normalized = symbol.trim().toUpperCase();
+  if (/^[A-Z0-9]+-[A-Z]{3}$/.test(normalized)) {
+    return CRYPTO_RULES;
+  }
+  const dot = normalized.lastIndexOf(".");
+  if (dot <= 0) {
+    return normalized.startsWith("^") || normalized.endsWith("=X") ? DEFAULT_QUANTITY_RULES : FRACTIONAL_EQUITY_RULES;
+  }
+  return EXCHANGE_QUANTITY_RULES[normalized.slice(dot + 1)] ?? DEFAULT_QUANTITY_RULES;
+}
+
+/** Exchange defaults with the non-null fields of a stored `InstrumentRule` on top. */
+export function resolveQuantityRules(symbol: string, override?: InstrumentRule | null): QuantityRules {
+  const base = exchangeQuantityRules(symbol);
+  if (!override) {
+    return base;
+  }
+  return {
+    allowFractional: override.allowFractional ?? base.allowFractional,
+    qtyPrecision: override.qtyPrecision ?? base.qtyPrecision,
+    minQty: override.minQty?.toNumber() ?? base.minQty,
+    lotSize: override.lotSize?.toNumber() ?? base.lotSize,
+    minNotional: override.minNotional?.toNumber() ?? base.minNotional
+  };
+}
+
+export async function loadQuantityRules(tx: Prisma.TransactionClient, symbols: string[]) {
+  const unique = Array.from(new Set(symbols));
+  const overrides = await tx.instrumentRule.findMany({ where: { symbol: { in: unique } } });
+  const bySymbol = new Map(overrides.map((rule) => [rule.symbol, rule]));
+  return new Map(unique.map((symbol) => [symbol, resolveQuantityRules(symbol, bySymbol.get(symbol))]));
+}
+
+/**
+ * True when an order exits the whole position. Such orders are exempt from the rules so odd
+ * lots left by splits or partial fills can always be closed.
+ */
+export function closesPosition(positionQty: number | null | undefined, side: "BUY" | "SELL", qty: number) {
+  if (!positionQty) {
+    return false;
+  }
+  return Math.abs(positionQty) === qty && (side === "SELL" ? positionQty > 0 : positionQty < 0);
+}
+
+/**
+ * Checks an order quantity against the instrument's rules. `price` (in the quote currency) is
+ * only needed for the minimum notional and skips that check when unknown.
+ */
+export function validateQuantity(symbol: string, qty: number, price: number | null, rules: QuantityRules) {
+  const quantity = new Prisma.Decimal(qty);
+  if (!rules.allowFractional) {
+    if (!quantity.isInteger()) {
+      throw new Error(`Quantity for ${symbol} must be a whole number of shares`);
+    }
+    if (rules.lotSize > 1 && !quantity.mod(rules.lotSize).isZero()) {
+      throw new Error(`Quantity for ${symbol} must be a multiple of the ${rules.lotSize}-share lot size`);
+    }
+  } else if (quantity.decimalPlaces() > rules.qtyPrecision) {
+    throw new Error(`Quantity for ${symbol} allows at most ${rules.qtyPrecision} decimal places`);
+  }
+  if (quantity.lt(rules.minQty)) {
+    throw new Error(`Quantity for ${symbol} must be at least ${rules.minQty}`);
+  }
+  if (price !== null && rules.minNotional > 0 && quantity.mul(price).lt(rules.minNotional)) {
+    throw new Error(`Order value for ${symbol} must be at least ${rules.minNotional}`);
+  }
+}
+
+export function describeQuantityRules(rules: QuantityRules) {
+  const parts = [
+    rules.allowFractional
+      ? `fractional up to ${rules.qtyPrecision} decimal places`
+      : rules.lotSize > 1
+        ? `multiples of ${rules.lotSize} shares`
+        : "whole shares"
+  ];
+  const step = rules.allowFractional ? Number(`1e-${rules.qtyPrecision}`) : rules.lotSize;
+  if (rules.minQty > step) {
+    parts.push(`at least ${rules.minQty}`);
+  }
+  if (rules.minNotional > 0) {
+    parts.push(`order value at least ${rules.minNotional}`);
+  }
+  return parts.join(", ");
+}
+
+/** JSON Schema constraints for the quantity of one instrument, as sent to the LLM. */
+export function quantityJsonSchema(rules: QuantityRules) {
+  return {
+    type: rules.allowFractional ? "number" : "integer",
+    minimum: rules.minQty,
+    multipleOf: rules.allowFractional ? Number(`1e-${rules.qtyPrecision}`) : rules.lotSize,
+    description: describeQuantityRules(rules)
+  };
+}
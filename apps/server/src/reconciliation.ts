@@ -0,0 +1,193 @@
+import { Prisma } from "@paper-trading/db";
+import { normalizeCurrency } from "./fx";
+import type { LotMethod } from "./taxLots";
+import {
+  LedgerReplay,
+  LedgerSplit,
+  LedgerTrade,
+  replayPortfolioLedger,
+  settlementBaseRate,
+  settlementRate,
+  tradeCashAmount
+} from "./tradeLedger";
+
+/** Note of the adjustments that carried cash from before the ledger existed into it. */
+export const PRE_LEDGER_ADJUSTMENT_NOTE = "Activity before the cash ledger";
+
+/** Differences smaller than this are rounding, not drift. */
+const TOLERANCE = new Prisma.Decimal("0.000001");
+
+export interface ReconcileTrade extends LedgerTrade {
+  symbol: string;
+  currency: string;
+  fxRate: Prisma.Decimal;
+  reversedAt: Date | null;
+}
+
+export interface ReconcileCashRow {
+  type: string;
+  currency: string;
+  amount: Prisma.Decimal;
+  tradeId: number | null;
+  note: string | null;
+  ts: Date;
+}
+
+export interface ReconcileInput {
+  baseCurrency: string;
+  fxAutoConvert: boolean;
+  method: LotMethod;
+  allowShort: boolean;
+  trades: ReconcileTrade[];
+  splits: Array<LedgerSplit & { symbol: string }>;
+  /** Symbol changes applied to the portfolio, in the order they were applied. */
+  renames: Array<{ from: string; to: string }>;
+  cash: ReconcileCashRow[];
+  positions: Array<{ symbol: string; qty: Prisma.Decimal; avgPrice: Prisma.Decimal }>;
+  /** Stored lots, so replayed lots keep their ids. */
+  lots: Array<{ id: number; symbol: string; openTradeId: number | null; openedAt: Date }>;
+  balances: Array<{ currency: string; amount: Prisma.Decimal }>;
+}
+
+export interface PositionDrift {
+  symbol: string;
+  expectedQty: number;
+  storedQty: number;
+  expectedAvgPrice: number;
+  storedAvgPrice: number;
+}
+
+export interface CashDrift {
+  currency: string;
+  expected: number;
+  stored: number;
+  /** Sum of the currency's cash ledger rows. */
+  ledger: number;
+}
+
+export interface TradeCashDrift {
+  tradeId: number;
+  currency: string;
+  expected: number;
+  recorded: number;
+}
+
+export interface ReconciliationReport {
+  consistent: boolean;
+  positions: PositionDrift[];
+  cash: CashDrift[];
+  tradeCash: TradeCashDrift[];
+  /** Symbols whose ledger could not be replayed; their positions are not compared. */
+  failures: Array<{ symbol: string; error: string }>;
+}
+
+export interface Reconciliation {
+  report: ReconciliationReport;
+  /** Replayed state of every symbol that replayed cleanly, keyed by its current symbol. */
+  replays: Map<string, LedgerReplay>;
+  /** Symbols whose ledger spans a symbol change; their lots cannot be rewritten by symbol. */
+  renamedSymbols: Set<string>;
+  /** Cash to post per trade so its settlement matches the trade. */
+  settlementFixes: Array<TradeCashDrift & { amount: Prisma.Decimal; fxRate: Prisma.Decimal }>;
+  /** Sum of the cash ledger per currency. */
+  ledgerCash: Map<string, Prisma.Decimal>;
+  /** What each cash balance should be once missing or wrong trade settlements are fixed. */
+  expectedCash: Map<string, Prisma.Decimal>;
+}
+
+const differs = (a: Prisma.Decimal, b: Prisma.Decimal) => a.sub(b).abs().gt(TOLERANCE);
+
+/**
+ * Rebuilds positions and cash from the ledgers and compares them with the stored aggregates.
+ * Positions come from replaying each symbol's active trades and splits, following symbol changes.
+ * Cash is the sum of the cash ledger, with every trade's settlement checked against what the
+ * trade itself implies. Trades from before the cash ledger have no settlement rows; their cash is
+ * part of the pre-ledger adjustment and they are not checked.
+ */
+export function reconcileLedger(input: ReconcileInput): Reconciliation {
+  const zero = new Prisma.Decimal(0);
+  const { replays, renamedSymbols, failures } = replayPortfolioLedger({
+    method: input.method,
+    allowShort: input.allowShort,
+    trades: input.trades.filter((candidate) => !candidate.reversedAt),
+    splits: input.splits,
+    renames: input.renames,
+    lots: input.lots
+  });
+  const report: ReconciliationReport = { consistent: true, positions: [], cash: [], tradeCash: [], failures };
+
+  const failed = new Set(report.failures.map((failure) => failure.symbol));
+  const stored = new Map(input.positions.map((position) => [position.symbol, position]));
+  const symbols = Array.from(new Set([...stored.keys(), ...replays.keys()])).sort();
+  for (const symbol of symbols.filter((candidate) => !failed.has(candidate))) {
+    const expected = replays.get(symbol) ?? { qty: zero, avgPrice: zero };
+    const held = stored.get(symbol) ?? { qty: zero, avgPrice: zero };
+    const avgMatters = !expected.qty.isZero() && !held.qty.isZero();
+    if (differs(expected.qty, held.qty) || (avgMatters && differs(expected.avgPrice, held.avgPrice))) {
+      report.positions.push({
+        symbol,
+        expectedQty: expected.qty.toNumber(),
+        storedQty: held.qty.toNumber(),
+        expectedAvgPrice: expected.avgPrice.toNumber(),
+        storedAvgPrice: held.avgPrice.toNumber()
+      });
+    }
+  }
+
+  const ledger = new Map<string, Prisma.Decimal>();
+  for (const row of input.cash) {
+    ledger.set(row.currency, (ledger.get(row.currency) ?? zero).add(row.amount));
+  }
+  const preLedgerCutoff = input.cash
+    .filter((row) => row.type === "adjustment" && row.note === PRE_LEDGER_ADJUSTMENT_NOTE)
+    .reduce<Date | null>((latest, row) => (!latest || row.ts > latest ? row.ts : latest), null);
+
+  const settlements = new Map<number, ReconcileCashRow[]>();
+  for (const row of input.cash.filter((candidate) => candidate.type === "trade" && candidate.tradeId !== null)) {
+    settlements.set(row.tradeId!, [...(settlements.get(row.tradeId!) ?? []), row]);
+  }
+
+  const settlementFixes: Reconciliation["settlementFixes"] = [];
+  const expectedCash = new Map(ledger);
+  for (const trade of input.trades) {
+    const rows = settlements.get(trade.id) ?? [];
+    if (rows.length === 0 && preLedgerCutoff && trade.ts.getTime() <= preLedgerCutoff.getTime()) {
+      continue;
+    }
+    const currency =
+      rows[0]?.currency ??
+      (input.fxAutoConvert ? input.baseCurrency : normalizeCurrency(trade.currency)?.currency ?? input.baseCurrency);
+    // A reversed trade's settlement and its offset cancel out.
+    const expected = trade.reversedAt ? zero : tradeCashAmount(trade, settlementRate(trade, currency, input.baseCurrency));
+    const recorded = rows.reduce((sum, row) => sum.add(row.amount), zero);
+    if (differs(expected, recorded)) {
+      const drift = { tradeId: trade.id, currency, expected: expected.toNumber(), recorded: recorded.toNumber() };
+      report.tradeCash.push(drift);
+      settlementFixes.push({
+        ...drift,
+        amount: expected.sub(recorded),
+        fxRate: settlementBaseRate(trade, currency, input.baseCurrency)
+      });
+      expectedCash.set(currency, (expectedCash.get(currency) ?? zero).add(expected.sub(recorded)));
+    }
+  }
+
+  const balances = new Map(input.balances.map((balance) => [balance.currency, balance.amount]));
+  const currencies = Array.from(new Set([...balances.keys(), ...expectedCash.keys()])).sort();
+  for (const currency of currencies) {
+    const expected = expectedCash.get(currency) ?? zero;
+    const held = balances.get(currency) ?? zero;
+    if (differs(expected, held)) {
+      report.cash.push({
+        currency,
+        expected: expected.toNumber(),
+        stored: held.toNumber(),
+        ledger: (ledger.get(currency) ?? zero).toNumber()
+      });
+    }
+  }
+
+  report.consistent =
+    report.positions.length === 0 && report.cash.length === 0 && report.tradeCash.length === 0 && report.failures.length === 0;
+  return { report, replays, renamedSymbols, settlementFixes, ledgerCash: ledger, expectedCash };
+}
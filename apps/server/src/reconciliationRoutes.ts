@@ -0,0 +1,22 @@
+import type { Application } from "express";
+import { z } from "zod";
+import { getPortfolioRecord, parsePortfolioIdStrict } from "./portfolioService";
+import { reconcilePortfolio } from "./reconciliationService";
+
+const reconcileSchema = z.object({
+  repair: z.boolean().default(false)
+});
+
+export function registerReconciliationRoutes(app: Application) {
+  app.post("/api/portfolios/:id/reconcile", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      await getPortfolioRecord(portfolioId);
+      const { repair } = reconcileSchema.parse(req.body ?? {});
+      res.json(await reconcilePortfolio(portfolioId, { repair }));
+    } catch (error) {
+      console.error("Portfolio reconciliation failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to reconcile portfolio" });
+    }
+  });
+}
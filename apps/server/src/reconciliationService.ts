@@ -0,0 +1,120 @@
+import { Prisma, prisma } from "@paper-trading/db";
+import type { Portfolio } from "@paper-trading/db";
+import { creditCash, debitCash, loadCashBalances } from "./cashBalances";
+import { Reconciliation, reconcileLedger, ReconciliationReport } from "./reconciliation";
+import { lotMethodFromPortfolio } from "./taxLots";
+import { writeReplayedPosition } from "./tradeCorrectionService";
+
+async function loadReconciliation(tx: Prisma.TransactionClient, portfolio: Portfolio): Promise<Reconciliation> {
+  const portfolioId = portfolio.id;
+  const trades = await tx.trade.findMany({
+    where: { portfolioId },
+    include: { order: { select: { lotIds: true } } },
+    orderBy: [{ ts: "asc" }, { id: "asc" }]
+  });
+  const entries = await tx.corporateActionEntry.findMany({
+    where: { portfolioId, type: { in: ["split", "symbol_change"] } },
+    include: { action: true },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }]
+  });
+  const cash = await tx.cashTransaction.findMany({ where: { portfolioId }, orderBy: [{ ts: "asc" }, { id: "asc" }] });
+  const positions = await tx.position.findMany({ where: { portfolioId } });
+  const lots = await tx.taxLot.findMany({ where: { portfolioId } });
+
+  return reconcileLedger({
+    baseCurrency: portfolio.baseCurrency,
+    fxAutoConvert: portfolio.fxAutoConvert,
+    method: lotMethodFromPortfolio(portfolio),
+    allowShort: portfolio.allowShort,
+    trades: trades.map((trade) => ({ ...trade, lotIds: trade.order?.lotIds })),
+    splits: entries
+      .filter((entry) => entry.type === "split" && entry.action.ratio)
+      .map((entry) => ({
+        symbol: entry.symbol,
+        exDate: entry.action.exDate,
+        ratio: entry.action.ratio!,
+        appliedAt: entry.createdAt
+      })),
+    renames: entries
+      .filter((entry) => entry.type === "symbol_change" && entry.action.newSymbol)
+      .map((entry) => ({ from: entry.symbol, to: entry.action.newSymbol! })),
+    cash,
+    positions,
+    lots,
+    balances: await loadCashBalances(tx, portfolio)
+  });
+}
+
+/**
+ * Writes the reconciled state back. Positions take their replayed quantity, average price and
+ * lots (lots of renamed symbols are left alone, since their history spans two symbols). Cash
+ * balances are first set back to the sum of their ledger, then each trade whose settlement is
+ * missing or wrong gets a `trade` row for the difference, so the ledger keeps summing to the
+ * balances.
+ */
+async function repair(tx: Prisma.TransactionClient, portfolio: Portfolio, reconciliation: Reconciliation) {
+  const { report, replays, renamedSymbols } = reconciliation;
+  const positions = await tx.position.findMany({ where: { portfolioId: portfolio.id } });
+  const trades = await tx.trade.findMany({ where: { portfolioId: portfolio.id }, orderBy: { ts: "desc" } });
+  for (const drift of report.positions) {
+    const replay = replays.get(drift.symbol) ?? {
+      qty: new Prisma.Decimal(0),
+      avgPrice: new Prisma.Decimal(0),
+      lots: [],
+      trades: []
+    };
+    const currency =
+      positions.find((position) => position.symbol === drift.symbol)?.currency ??
+      trades.find((trade) => trade.symbol === drift.symbol)?.currency ??
+      portfolio.baseCurrency;
+    await writeReplayedPosition(tx, portfolio.id, drift.symbol, currency, replay, {
+      lots: !renamedSymbols.has(drift.symbol)
+    });
+  }
+
+  for (const drift of report.cash) {
+    const ledger = reconciliation.ledgerCash.get(drift.currency) ?? new Prisma.Decimal(0);
+    if (drift.currency === portfolio.baseCurrency) {
+      await tx.portfolio.update({ where: { id: portfolio.id }, data: { cashBalance: ledger } });
+    } else {
+      await tx.cashBalance.upsert({
+        where: { portfolioId_currency: { portfolioId: portfolio.id, currency: drift.currency } },
+        update: { amount: ledger },
+        create: { portfolioId: portfolio.id, currency: drift.currency, amount: ledger }
+      });
+    }
+  }
+  for (const fix of reconciliation.settlementFixes) {
+    const movement = {
+      type: "trade" as const,
+      tradeId: fix.tradeId,
+      note: `Reconciliation of trade #${fix.tradeId}`,
+      fxRate: fix.fxRate
+    };
+    if (fix.amount.isNegative()) {
+      await debitCash(tx, portfolio.id, fix.currency, fix.amount.neg(), movement);
+    } else {
+      await creditCash(tx, portfolio.id, fix.currency, fix.amount, movement);
+    }
+  }
+}
+
+/**
+ * Rebuilds a portfolio's positions and cash from its trade and cash ledgers and reports where
+ * the stored aggregates differ. With `repair` the differences are written back in the same
+ * transaction, and the report describes what was found before the repair.
+ */
+export async function reconcilePortfolio(
+  portfolioId: number,
+  options: { repair?: boolean } = {}
+): Promise<ReconciliationReport & { repaired: boolean }> {
+  return prisma.$transaction(async (tx) => {
+    const portfolio = await tx.portfolio.findUniqueOrThrow({ where: { id: portfolioId } });
+    const reconciliation = await loadReconciliation(tx, portfolio);
+    const repaired = Boolean(options.repair) && !reconciliation.report.consistent;
+    if (repaired) {
+      await repair(tx, portfolio, reconciliation);
+    }
+    return { ...reconciliation.report, repaired };
+  });
+}
@@ -0,0 +1,366 @@
+import { SeriesPoint, utcDay, valueAt } from "./valuations";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Horizon of the longer VaR, in trading days. */
+const LONG_HORIZON = 10;
+
+/** Targets of a stress shock that move every holding. */
+const ALL_TARGETS = new Set(["all", "everything", "market", "portfolio"]);
+
+/** Words a stress shock can use for asset classes, mapped to Yahoo quote types (lower-cased). */
+const ASSET_CLASS_TARGETS = new Map<string, string[]>([
+  ["equities", ["equity", "etf", "mutualfund"]],
+  ["stocks", ["equity"]],
+  ["shares", ["equity"]],
+  ["etfs", ["etf"]],
+  ["funds", ["etf", "mutualfund"]],
+  ["crypto", ["cryptocurrency"]],
+  ["futures", ["future"]],
+  ["indices", ["index"]]
+]);
+
+/** Scenarios reported when a request names none. */
+export const DEFAULT_STRESS_SCENARIOS = ["Equity sell-off: -20% equities", "Broad crash: -35% all"];
+
+const SHOCK_PATTERN = /^([+-]?\d+(?:\.\d+)?)\s*%\s+(.+)$/;
+
+export interface RiskPosition {
+  symbol: string;
+  currency: string;
+  /** Yahoo quote type in lower case, e.g. `equity` or `etf`. */
+  assetClass: string;
+  /** Market value in the base currency; negative when short. */
+  value: number;
+}
+
+export interface RiskCash {
+  currency: string;
+  /** Balance in the base currency. */
+  value: number;
+}
+
+export interface StressShock {
+  /** A symbol, a currency, an asset class such as `equities`, or `all`. */
+  target: string;
+  /** Price or FX move as a fraction, e.g. -0.2. */
+  change: number;
+}
+
+export interface StressScenario {
+  name: string;
+  shocks: StressShock[];
+}
+
+export interface ScenarioResult {
+  name: string;
+  shocks: StressShock[];
+  pnl: number;
+  /** P&L as a fraction of NAV. */
+  pnlPercent: number | null;
+  positions: Array<{ symbol: string; pnl: number }>;
+  /** Targets that matched no holding, currency or asset class. */
+  unmatched: string[];
+}
+
+/** Losses are positive amounts in the base currency. */
+export interface RiskMeasure {
+  oneDay: number | null;
+  tenDay: number | null;
+}
+
+export interface RiskContribution {
+  symbol: string;
+  value: number;
+  /** Share of the portfolio's P&L volatility per unit of base currency added to the position. */
+  marginal: number | null;
+  /** The position's part of the parametric one-day VaR; the parts add up to it. */
+  componentVaR: number | null;
+  /** Component VaR as a fraction of the parametric one-day VaR. */
+  share: number | null;
+}
+
+export interface RiskReport {
+  confidence: number;
+  nav: number;
+  observations: number;
+  from: string | null;
+  to: string | null;
+  /** Standard deviation of the daily P&L in the base currency. */
+  dailyVolatility: number | null;
+  valueAtRisk: { historical: RiskMeasure; parametric: RiskMeasure };
+  expectedShortfall: { historical: RiskMeasure; parametric: RiskMeasure };
+  correlation: { symbols: string[]; matrix: Array<Array<number | null>> };
+  contributions: RiskContribution[];
+  /** Holdings left out of the return model for lack of price history. */
+  unmodeled: string[];
+  scenarios: ScenarioResult[];
+}
+
+const isoDay = (date: Date) => date.toISOString().split("T")[0];
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+function covariance(left: number[], right: number[]) {
+  const leftMean = mean(left);
+  const rightMean = mean(right);
+  const products = left.reduce((sum, value, index) => sum + (value - leftMean) * (right[index] - rightMean), 0);
+  return products / (left.length - 1);
+}
+
+/** Inverse of the standard normal CDF (Acklam's rational approximation, good to about 1e-9). */
+export function normalQuantile(probability: number) {
+  if (probability <= 0 || probability >= 1) {
+    throw new Error("Probability must be between 0 and 1");
+  }
+  const a = [
+    -39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239
+  ];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [
+    -0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968,
+    2.938163982698783
+  ];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+  if (probability < low || probability > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(probability < low ? probability : 1 - probability));
+    const tail =
+      (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    return probability < low ? tail : -tail;
+  }
+  const q = probability - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
+
+const normalDensity = (z: number) => Math.exp((-z * z) / 2) / Math.sqrt(2 * Math.PI);
+
+/**
+ * Reads a scenario written as `name: -20% equities, +10% USD`. The name is optional; each shock is
+ * a signed percentage and a target (a symbol, a currency, an asset class or `all`).
+ */
+export function parseScenario(text: string): StressScenario {
+  const separator = text.indexOf(":");
+  const body = separator >= 0 ? text.slice(separator + 1) : text;
+  const shocks = body
+    .split(/[,;]/)
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const match = SHOCK_PATTERN.exec(part);
+      if (!match) {
+        throw new Error(`Unable to read the shock "${part}"; write it like "-20% equities"`);
+      }
+      const change = Number(match[1]) / 100;
+      if (change <= -1) {
+        throw new Error(`The shock "${part}" would take prices to zero or below`);
+      }
+      return { target: match[2].trim(), change };
+    });
+  if (shocks.length === 0) {
+    throw new Error(`The scenario "${text}" has no shocks`);
+  }
+  const name = separator >= 0 ? text.slice(0, separator).trim() : "";
+  return { name: name || body.trim(), shocks };
+}
+
+/**
+ * Revalues the book under a scenario. Price shocks on `all`, an asset class or a symbol compound
+ * on each matching position. A currency shock moves that currency against every other one, so
+ * holdings and cash in it change by `(1 + its shock) / (1 + the base currency's shock)` in the
+ * base currency.
+ */
+export function applyScenario(
+  scenario: StressScenario,
+  book: { baseCurrency: string; positions: RiskPosition[]; cash: RiskCash[]; nav: number }
+): ScenarioResult {
+  const currencies = new Set([
+    book.baseCurrency,
+    ...book.positions.map((position) => position.currency),
+    ...book.cash.map((balance) => balance.currency)
+  ]);
+  const priceFactors = book.positions.map(() => 1);
+  const currencyShocks = new Map<string, number>();
+  const unmatched: string[] = [];
+
+  for (const shock of scenario.shocks) {
+    const key = shock.target.toLowerCase();
+    const upper = shock.target.toUpperCase();
+    const classes = ASSET_CLASS_TARGETS.get(key);
+    const matching = book.positions.map(
+      (position) =>
+        ALL_TARGETS.has(key) ||
+        (classes?.includes(position.assetClass) ?? position.assetClass === key) ||
+        position.symbol.toUpperCase() === upper
+    );
+    if (matching.some(Boolean)) {
+      matching.forEach((matches, index) => {
+        if (matches) {
+          priceFactors[index] *= 1 + shock.change;
+        }
+      });
+    } else if (/^[A-Z]{3}$/.test(upper) && currencies.has(upper)) {
+      currencyShocks.set(upper, (1 + (currencyShocks.get(upper) ?? 0)) * (1 + shock.change) - 1);
+    } else if (!ALL_TARGETS.has(key) && !classes) {
+      unmatched.push(shock.target);
+    }
+  }
+
+  const baseShock = 1 + (currencyShocks.get(book.baseCurrency) ?? 0);
+  const fxFactor = (currency: string) =>
+    currency === book.baseCurrency ? 1 : (1 + (currencyShocks.get(currency) ?? 0)) / baseShock;
+  const positions = book.positions.map((position, index) => ({
+    symbol: position.symbol,
+    pnl: position.value * (priceFactors[index] * fxFactor(position.currency) - 1)
+  }));
+  const cashPnL = book.cash.reduce((sum, balance) => sum + balance.value * (fxFactor(balance.currency) - 1), 0);
+  const pnl = positions.reduce((sum, position) => sum + position.pnl, cashPnL);
+
+  return {
+    name: scenario.name,
+    shocks: scenario.shocks,
+    pnl,
+    pnlPercent: book.nav > 0 ? pnl / book.nav : null,
+    positions,
+    unmatched
+  };
+}
+
+/**
+ * Daily returns of each symbol on the days every one of them has a price, from the latest first
+ * price onwards. Prices are carried over a symbol's holidays, which then count as flat days.
+ */
+export function alignReturns(prices: Map<string, SeriesPoint[]>) {
+  const symbols = Array.from(prices.keys());
+  const firsts = symbols.map((symbol) => prices.get(symbol)![0]?.date.getTime() ?? Infinity);
+  const start = utcDay(new Date(Math.max(...firsts, 0))).getTime();
+  const days = Array.from(
+    new Set(
+      symbols.flatMap((symbol) =>
+        prices
+          .get(symbol)!
+          .map((point) => utcDay(point.date).getTime())
+          .filter((day) => day >= start)
+      )
+    )
+  ).sort((a, b) => a - b);
+
+  const returns = new Map<string, number[]>(symbols.map((symbol) => [symbol, []]));
+  const dates: Date[] = [];
+  for (let index = 1; index < days.length; index += 1) {
+    dates.push(new Date(days[index]));
+    for (const symbol of symbols) {
+      const previous = valueAt(prices.get(symbol), days[index - 1] + DAY_MS - 1)!;
+      const current = valueAt(prices.get(symbol), days[index] + DAY_MS - 1)!;
+      returns.get(symbol)!.push(current / previous - 1);
+    }
+  }
+  return { dates, returns };
+}
+
+/** The average loss beyond the `confidence` quantile of a P&L sample, and that quantile. */
+function historicalTail(pnl: number[], confidence: number) {
+  if (pnl.length === 0) {
+    return { valueAtRisk: null, expectedShortfall: null };
+  }
+  const sorted = [...pnl].sort((a, b) => a - b);
+  const cutoff = Math.max(0, Math.ceil((1 - confidence) * sorted.length) - 1);
+  return {
+    valueAtRisk: -sorted[cutoff],
+    expectedShortfall: -mean(sorted.slice(0, cutoff + 1))
+  };
+}
+
+/**
+ * Risk of holding today's positions through the past: each day's P&L is today's base-currency
+ * values times the day's returns (prices already converted to the base currency).
+ *
+ * - Historical VaR and expected shortfall read the tail of that P&L; the ten-day figures use
+ *   overlapping ten-day sums of it.
+ * - Parametric figures assume zero-mean normal P&L with the sample covariance, scaled by the
+ *   square root of time to ten days.
+ * - Component VaR splits the parametric one-day VaR by position through the covariance matrix.
+ */
+export function computeRisk(input: {
+  baseCurrency: string;
+  positions: RiskPosition[];
+  cash: RiskCash[];
+  /** Daily closes per symbol in the base currency, sorted by date. */
+  prices: Map<string, SeriesPoint[]>;
+  confidence: number;
+  scenarios: StressScenario[];
+}): RiskReport {
+  const { confidence, positions } = input;
+  const nav =
+    positions.reduce((sum, position) => sum + position.value, 0) +
+    input.cash.reduce((sum, balance) => sum + balance.value, 0);
+  const modeled = positions.filter((position) => (input.prices.get(position.symbol)?.length ?? 0) > 1);
+  const { dates, returns } = alignReturns(
+    new Map(modeled.map((position) => [position.symbol, input.prices.get(position.symbol)!]))
+  );
+  const series = modeled.map((position) => returns.get(position.symbol)!);
+  const pnl = dates.map((_, day) =>
+    modeled.reduce((sum, position, index) => sum + position.value * series[index][day], 0)
+  );
+  const enough = pnl.length > 1;
+
+  const matrix = enough ? series.map((left) => series.map((right) => covariance(left, right))) : [];
+  const weighted = matrix.map((row) => row.reduce((sum, value, index) => sum + value * modeled[index].value, 0));
+  const variance = weighted.reduce((sum, value, index) => sum + value * modeled[index].value, 0);
+  const deviation = enough ? Math.sqrt(Math.max(variance, 0)) : null;
+  const z = normalQuantile(confidence);
+  const tailDensity = normalDensity(z) / (1 - confidence);
+  const parametric = (horizon: number, multiplier: number) =>
+    deviation !== null ? multiplier * deviation * Math.sqrt(horizon) : null;
+
+  const oneDay = historicalTail(pnl, confidence);
+  const windows = pnl
+    .slice(LONG_HORIZON - 1)
+    .map((_, index) => pnl.slice(index, index + LONG_HORIZON).reduce((sum, value) => sum + value, 0));
+  const tenDay = historicalTail(windows, confidence);
+
+  return {
+    confidence,
+    nav,
+    observations: pnl.length,
+    from: dates.length > 0 ? isoDay(dates[0]) : null,
+    to: dates.length > 0 ? isoDay(dates[dates.length - 1]) : null,
+    dailyVolatility: deviation,
+    valueAtRisk: {
+      historical: { oneDay: oneDay.valueAtRisk, tenDay: tenDay.valueAtRisk },
+      parametric: { oneDay: parametric(1, z), tenDay: parametric(LONG_HORIZON, z) }
+    },
+    expectedShortfall: {
+      historical: { oneDay: oneDay.expectedShortfall, tenDay: tenDay.expectedShortfall },
+      parametric: { oneDay: parametric(1, tailDensity), tenDay: parametric(LONG_HORIZON, tailDensity) }
+    },
+    correlation: {
+      symbols: modeled.map((position) => position.symbol),
+      matrix: matrix.map((row, left) =>
+        row.map((value, right) => {
+          const scale = Math.sqrt(matrix[left][left] * matrix[right][right]);
+          return scale > 0 ? value / scale : null;
+        })
+      )
+    },
+    contributions: positions.map((position) => {
+      const index = modeled.indexOf(position);
+      const marginal = index >= 0 && deviation ? weighted[index] / deviation : null;
+      const componentVaR = marginal !== null ? z * marginal * position.value : null;
+      return {
+        symbol: position.symbol,
+        value: position.value,
+        marginal,
+        componentVaR,
+        share: componentVaR !== null && deviation ? componentVaR / (z * deviation) : null
+      };
+    }),
+    unmodeled: positions.filter((position) => !modeled.includes(position)).map((position) => position.symbol),
+    scenarios: input.scenarios.map((scenario) =>
+      applyScenario(scenario, { baseCurrency: input.baseCurrency, positions, cash: input.cash, nav })
+    )
+  };
+}
@@ -0,0 +1,28 @@
+import type { Application } from "express";
+import { z } from "zod";
+import { parsePortfolioIdStrict } from "./portfolioService";
+import { DEFAULT_STRESS_SCENARIOS } from "./risk";
+import { getPortfolioRisk, RISK_LOOKBACKS } from "./riskService";
+
+const riskQuerySchema = z.object({
+  confidence: z.coerce.number().gt(0.5).lt(1).default(0.95),
+  lookback: z.enum(RISK_LOOKBACKS).default("1y"),
+  scenario: z.union([z.string(), z.array(z.string())]).optional()
+});
+
+export function registerRiskRoutes(app: Application) {
+  app.get("/api/portfolios/:id/risk", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      const { confidence, lookback, scenario } = riskQuerySchema.parse(req.query);
+      const scenarios =
+        scenario === undefined
+          ? DEFAULT_STRESS_SCENARIOS
+          : ([] as string[]).concat(scenario).filter((text) => text.trim().length > 0);
+      res.json(await getPortfolioRisk(portfolioId, { confidence, lookback, scenarios }));
+    } catch (error) {
+      console.error("Risk calculation failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to compute risk" });
+    }
+  });
+}
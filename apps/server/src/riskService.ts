@@ -0,0 +1,77 @@
+import { getFxHistory } from "./fx";
+import { buildPortfolioSnapshot } from "./portfolioService";
+import { computeRisk, parseScenario, RiskReport } from "./risk";
+import { SeriesPoint, valueAt } from "./valuations";
+import { getHistory, getQuote } from "./yahoo";
+
+export const RISK_LOOKBACKS = ["3mo", "6mo", "1y", "2y", "5y"] as const;
+export type RiskLookback = (typeof RISK_LOOKBACKS)[number];
+
+export interface RiskOptions {
+  /** VaR confidence level, e.g. 0.95. */
+  confidence: number;
+  /** How much daily history the return series cover. */
+  lookback: RiskLookback;
+  /** Stress scenarios in the `name: -20% equities, +10% USD` form. */
+  scenarios: string[];
+}
+
+/** Daily closes of a holding over the lookback, converted to the base currency at each day's rate. */
+async function basePrices(symbol: string, currency: string, baseCurrency: string, lookback: RiskLookback) {
+  const candles = await getHistory(symbol, lookback, "1d").catch(() => []);
+  const closes: SeriesPoint[] = candles
+    .filter((candle) => candle.close !== null && candle.close > 0)
+    .map((candle) => ({ date: new Date(candle.date), value: candle.close! }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  if (currency === baseCurrency || closes.length === 0) {
+    return closes;
+  }
+  const rates = await getFxHistory(currency, baseCurrency, closes[0].date);
+  return closes.map((point) => ({
+    date: point.date,
+    value: point.value * (valueAt(rates, point.date.getTime()) ?? rates[0].value)
+  }));
+}
+
+/**
+ * Risk of the portfolio's current holdings (see `computeRisk`): today's positions from the live
+ * snapshot, their daily closes from `getHistory` in the base currency, and the cash balances for
+ * currency shocks. Holdings without a price are left out and listed as unmodeled.
+ */
+export async function getPortfolioRisk(
+  portfolioId: number,
+  options: RiskOptions
+): Promise<RiskReport & { baseCurrency: string; lookback: RiskLookback }> {
+  const scenarios = options.scenarios.map(parseScenario);
+  const snapshot = await buildPortfolioSnapshot(portfolioId);
+  const baseCurrency = snapshot.baseCurrency;
+  const priced = snapshot.positions.filter((position) => position.marketValue !== null);
+  const quotes = await Promise.all(priced.map((position) => getQuote(position.symbol).catch(() => null)));
+  const positions = priced.map((position, index) => ({
+    symbol: position.symbol,
+    currency: position.currency ?? baseCurrency,
+    assetClass: quotes[index]?.quoteType?.toLowerCase() ?? "equity",
+    value: position.marketValue! * (position.fxRate ?? 1)
+  }));
+
+  const prices = new Map<string, SeriesPoint[]>();
+  for (const position of positions) {
+    prices.set(position.symbol, await basePrices(position.symbol, position.currency, baseCurrency, options.lookback));
+  }
+
+  const report = computeRisk({
+    baseCurrency,
+    positions,
+    cash: snapshot.cash.map((balance) => ({ currency: balance.currency, value: balance.baseAmount })),
+    prices,
+    confidence: options.confidence,
+    scenarios
+  });
+  const unpriced = snapshot.positions.filter((position) => position.marketValue === null);
+  return {
+    ...report,
+    unmodeled: [...report.unmodeled, ...unpriced.map((position) => position.symbol)],
+    baseCurrency,
+    lookback: options.lookback
+  };
+}
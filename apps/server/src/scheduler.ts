@@ -0,0 +1,141 @@
+import { prisma } from "@paper-trading/db";
+import type { LlmRunSchedule } from "@paper-trading/db";
+import type { BackgroundJob } from "./backgroundJobs";
+import { executeLlmRun } from "./llmRunService";
+import { exchangeForMic, isTradingDay, localDateKey, zonedParts, zonedTime } from "./marketCalendar";
+
+export interface ScheduleTiming {
+  frequency: string;
+  timeOfDay: string;
+  dayOfWeek: number | null;
+  dayOfMonth: number | null;
+  /** MIC of the exchange whose calendar the schedule follows, if any. */
+  exchange?: string | null;
+}
+
+const DEFAULT_SCHEDULER_INTERVAL_MS = 30_000;
+/** Upper bound on consecutive non-trading days skipped when rolling a run forward. */
+const MAX_SKIPPED_DAYS = 14;
+
+/**
+ * Returns the first occurrence of the schedule strictly after `from`.
+ * `timeOfDay` is interpreted in UTC; monthly days past the end of a month run on its last day.
+ * A schedule tied to an exchange reads `timeOfDay` in the exchange's time zone instead, and a
+ * run that would land on a weekend or exchange holiday moves to the next trading day.
+ */
+export function computeNextRunAt(schedule: ScheduleTiming, from: Date): Date {
+  const exchange = exchangeForMic(schedule.exchange);
+  const timeZone = exchange?.timeZone ?? "UTC";
+  const local = zonedParts(from, timeZone);
+  const atTime = (year: number, month: number, day: number) => zonedTime(year, month, day, schedule.timeOfDay, timeZone);
+
+  let next: Date;
+  switch (schedule.frequency) {
+    case "weekly": {
+      const targetDay = schedule.dayOfWeek ?? 0;
+      const offset = (targetDay - local.weekday + 7) % 7;
+      const candidate = atTime(local.year, local.month, local.day + offset);
+      next =
+        candidate.getTime() > from.getTime() ? candidate : atTime(local.year, local.month, local.day + offset + 7);
+      break;
+    }
+    case "monthly": {
+      const targetDay = schedule.dayOfMonth ?? 1;
+      const { year, month } = local;
+      const candidate = atTime(year, month, Math.min(targetDay, daysInMonth(year, month)));
+      if (candidate.getTime() > from.getTime()) {
+        next = candidate;
+        break;
+      }
+      const nextYear = month === 11 ? year + 1 : year;
+      const nextMonth = (month + 1) % 12;
+      next = atTime(nextYear, nextMonth, Math.min(targetDay, daysInMonth(nextYear, nextMonth)));
+      break;
+    }
+    case "daily":
+    default: {
+      const candidate = atTime(local.year, local.month, local.day);
+      next = candidate.getTime() > from.getTime() ? candidate : atTime(local.year, local.month, local.day + 1);
+    }
+  }
+
+  if (!exchange) {
+    return next;
+  }
+  for (let skipped = 0; skipped < MAX_SKIPPED_DAYS && !isTradingDay(exchange, localDateKey(next, timeZone)); skipped += 1) {
+    const day = zonedParts(next, timeZone);
+    next = atTime(day.year, day.month, day.day + 1);
+  }
+  return next;
+}
+
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Fires every active schedule whose `nextRunAt` has passed.
+ *
+ * A run is claimed by advancing `nextRunAt` with a compare-and-set on its previous value, so
+ * only one server instance can win a given slot and a restart never replays a slot that was
+ * already claimed. Slots missed while the server was down are fired once, not once per miss.
+ */
+export async function runDueSchedules(now: Date = new Date()) {
+  await initializeMissingNextRuns(now);
+
+  const due = await prisma.llmRunSchedule.findMany({
+    where: { isActive: true, nextRunAt: { lte: now } },
+    orderBy: { nextRunAt: "asc" }
+  });
+
+  for (const schedule of due) {
+    const claimed = await prisma.llmRunSchedule.updateMany({
+      where: { id: schedule.id, isActive: true, nextRunAt: schedule.nextRunAt },
+      data: { lastRunAt: now, nextRunAt: computeNextRunAt(schedule, now) }
+    });
+    if (claimed.count !== 1) {
+      continue;
+    }
+
+    await fireSchedule(schedule);
+  }
+}
+
+async function fireSchedule(schedule: LlmRunSchedule) {
+  try {
+    const outcome = await executeLlmRun(
+      schedule.portfolioId,
+      {
+        promptId: schedule.promptId ?? undefined,
+        providerId: schedule.providerId ?? undefined
+      },
+      { scheduleId: schedule.id }
+    );
+    console.log(`Scheduled LLM run ${schedule.id} finished with status ${outcome.status}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Scheduled LLM run ${schedule.id} failed: ${message}`);
+  }
+}
+
+async function initializeMissingNextRuns(now: Date) {
+  const pending = await prisma.llmRunSchedule.findMany({
+    where: { isActive: true, nextRunAt: null }
+  });
+
+  for (const schedule of pending) {
+    await prisma.llmRunSchedule.updateMany({
+      where: { id: schedule.id, nextRunAt: null },
+      data: { nextRunAt: computeNextRunAt(schedule, now) }
+    });
+  }
+}
+
+export function createLlmSchedulerJob(): BackgroundJob {
+  const interval = Number(process.env.LLM_SCHEDULER_INTERVAL_MS);
+  return {
+    name: "llm-scheduler",
+    intervalMs: Number.isFinite(interval) && interval > 0 ? interval : DEFAULT_SCHEDULER_INTERVAL_MS,
+    run: () => runDueSchedules()
+  };
+}
@@ -1,28 +1,47 @@
-import cors, { CorsOptions } from "cors";
+﻿import cors, { CorsOptions } from "cors";
 import express from "express";
 import helmet from "helmet";
 import rateLimit from "express-rate-limit";
-import { prisma, Prisma } from "@paper-trading/db";
+import { Prisma, prisma } from "@paper-trading/db";
 import type { Position, Trade } from "@paper-trading/db";
 import yahooFinance from "yahoo-finance2";
 import { z } from "zod";
 import { OpenFigiClient } from "./openfigi";
 import { resolveYahooSymbol } from "./resolveYahoo";
 import { getHistory, getQuote } from "./yahoo";
-import {
-  applyTrade,
-  computePortfolioTotals,
-  computePositionDto,
-  createTradeRecord,
-  ensurePortfolio,
-  sortPositions,
-  TradeInput
-} from "./portfolio";
-import { AssetClass, PortfolioSnapshot, SearchResultItem } from "./types";
+import { AssetClass, SearchResultItem } from "./types";
 import { registerLlmRoutes } from "./llmRoutes";
+import { mapOrder, OrderInput, TIME_IN_FORCE_VALUES, TimeInForce } from "./orders";
+import { submitOrders } from "./orderService";
+import { registerOrderRoutes } from "./orderRoutes";
+import { registerPortfolioSettingsRoutes } from "./portfolioSettingsRoutes";
+import { registerTaxLotRoutes } from "./taxLotRoutes";
+import { registerCashRoutes } from "./cashRoutes";
+import { startingCapitalDeposit } from "./cashBalances";
+import { mapCashTransaction } from "./cashLedger";
+import { registerCorporateActionRoutes } from "./corporateActionRoutes";
+import { registerInstrumentRoutes } from "./instrumentRoutes";
+import { registerTradeRoutes } from "./tradeRoutes";
+import { registerReconciliationRoutes } from "./reconciliationRoutes";
+import { registerValuationRoutes } from "./valuationRoutes";
+import { registerPerformanceRoutes } from "./performanceRoutes";
+import { registerRiskRoutes } from "./riskRoutes";
+import { registerBacktestRoutes } from "./backtestRoutes";
+import { registerWatchlistRoutes } from "./watchlistRoutes";
+import { mapCorporateActionEntry } from "./corporateActions";
+import { mapTrade } from "./portfolio";
+import { buildPortfolioSnapshotAsOf, listTradesAsOf } from "./pointInTimeService";
+import {
+  buildPortfolioSnapshot,
+  decimalToNumber,
+  DEFAULT_PORTFOLIO_ID,
+  deriveMarketPrice,
+  getPortfolioRecord,
+  INITIAL_CASH_BALANCE,
+  parsePortfolioIdParam,
+  parsePortfolioIdStrict
+} from "./portfolioService";
 
-const DEFAULT_PORTFOLIO_ID = 1;
-const INITIAL_CASH_BALANCE = new Prisma.Decimal(100000);
 const openFigiClient = new OpenFigiClient(process.env.OPENFIGI_API_KEY);
 
 type YahooSearchQuote = {
@@ -52,12 +71,34 @@ const tradeSchema = z.object({
   side: z.enum(["BUY", "SELL"]),
   qty: z.coerce.number().positive(),
   price: z.coerce.number().positive().optional(),
+  orderType: z.enum(["market", "limit", "stop", "stop_limit", "trailing_stop"]).default("market"),
+  limitPrice: z.coerce.number().positive().optional(),
+  stopPrice: z.coerce.number().positive().optional(),
+  trailAmount: z.coerce.number().positive().optional(),
+  trailPercent: z.coerce.number().positive().lt(100).optional(),
+  bracket: z
+    .object({
+      takeProfitPrice: z.coerce.number().positive().optional(),
+      stopLossPrice: z.coerce.number().positive().optional(),
+      trailAmount: z.coerce.number().positive().optional(),
+      trailPercent: z.coerce.number().positive().lt(100).optional()
+    })
+    .optional(),
+  lotIds: z.array(z.coerce.number().int().positive()).optional(),
+  timeInForce: z.enum(TIME_IN_FORCE_VALUES as [TimeInForce, ...TimeInForce[]]).default("GTC"),
+  expiresAt: z.coerce.date().optional(),
   portfolioId: z.coerce.number().int().positive().optional()
 });
 
 const portfolioSchema = z.object({
   name: z.string().min(1),
-  baseCurrency: z.string().min(3).max(3)
+  baseCurrency: z.string().min(3).max(3),
+  startingCapital: z.coerce.number().positive().optional()
+});
+
+/** `asOf` of the portfolio and trade endpoints; a date without a time is midnight UTC. */
+const asOfSchema = z.object({
+  asOf: z.coerce.date().optional()
 });
 
 const historySchema = z.object({
@@ -195,9 +236,18 @@ export function createServer() {
   });
 
   app.get("/api/portfolio", async (req, res) => {
+    const query = asOfSchema.safeParse(req.query);
+    if (!query.success) {
+      res.status(400).json({ error: "asOf must be a date or an ISO-8601 timestamp" });
+      return;
+    }
     try {
       const portfolioId = parsePortfolioIdParam(req.query.portfolioId);
-      const snapshot = await buildPortfolioSnapshot(portfolioId);
+      const { asOf } = query.data;
+      const snapshot =
+        asOf && asOf.getTime() < Date.now()
+          ? await buildPortfolioSnapshotAsOf(portfolioId, asOf)
+          : await buildPortfolioSnapshot(portfolioId);
       res.json(snapshot);
     } catch (error) {
       console.error("Portfolio endpoint failed", error);
@@ -206,23 +256,22 @@ export function createServer() {
   });
 
   app.get("/api/trades", async (req, res) => {
+    const query = asOfSchema.safeParse(req.query);
+    if (!query.success) {
+      res.status(400).json({ error: "asOf must be a date or an ISO-8601 timestamp" });
+      return;
+    }
     try {
       const portfolioId = parsePortfolioIdParam(req.query.portfolioId);
-      const trades = await prisma.trade.findMany({
-        where: { portfolioId },
-        orderBy: { ts: "desc" }
-      });
-
-      const normalized = trades.map((trade) => ({
-        id: trade.id,
-        symbol: trade.symbol,
-        side: trade.side,
-        qty: trade.qty.toNumber(),
-        price: trade.price.toNumber(),
-        ts: trade.ts.toISOString()
-      }));
+      const { asOf } = query.data;
+      const trades = asOf
+        ? await listTradesAsOf(portfolioId, asOf)
+        : await prisma.trade.findMany({
+            where: { portfolioId },
+            orderBy: { ts: "desc" }
+          });
 
-      res.json({ trades: normalized });
+      res.json({ trades: trades.map(mapTrade) });
     } catch (error) {
       console.error("Trades endpoint failed", error);
       res.status(500).json({ error: "Unable to fetch trades" });
@@ -251,14 +300,17 @@ export function createServer() {
 
   app.post("/api/portfolios", async (req, res) => {
     try {
-      const { name, baseCurrency } = portfolioSchema.parse(req.body);
+      const { name, baseCurrency, startingCapital } = portfolioSchema.parse(req.body);
       const normalizedCurrency = baseCurrency.toUpperCase();
+      const capital = startingCapital !== undefined ? new Prisma.Decimal(startingCapital) : INITIAL_CASH_BALANCE;
 
       const portfolio = await prisma.portfolio.create({
         data: {
           name,
           baseCurrency: normalizedCurrency,
-          cashBalance: INITIAL_CASH_BALANCE
+          cashBalance: capital,
+          startingCapital: capital,
+          cashTransactions: { create: startingCapitalDeposit(normalizedCurrency, capital) }
         }
       });
 
@@ -266,7 +318,8 @@ export function createServer() {
         id: portfolio.id,
         name: portfolio.name,
         baseCurrency: portfolio.baseCurrency,
-        cashBalance: decimalToNumber(portfolio.cashBalance)
+        cashBalance: decimalToNumber(portfolio.cashBalance),
+        startingCapital: decimalToNumber(portfolio.startingCapital)
       });
     } catch (error) {
       console.error("Portfolio creation failed", error);
@@ -289,10 +342,39 @@ export function createServer() {
           where: { portfolioId }
         });
 
+        await tx.order.deleteMany({
+          where: { portfolioId }
+        });
+
         await tx.position.deleteMany({
           where: { portfolioId }
         });
 
+        await tx.taxLot.deleteMany({
+          where: { portfolioId }
+        });
+
+        await tx.cashBalance.deleteMany({
+          where: { portfolioId }
+        });
+
+        await tx.fxConversion.deleteMany({
+          where: { portfolioId }
+        });
+
+        await tx.cashTransaction.deleteMany({
+          where: { portfolioId }
+        });
+
+        await tx.corporateActionEntry.deleteMany({
+          where: { portfolioId }
+        });
+
+        await tx.portfolio.updateMany({
+          where: { benchmarkPortfolioId: portfolioId },
+          data: { benchmarkPortfolioId: null }
+        });
+
         await tx.portfolio.delete({
           where: { id: portfolioId }
         });
@@ -309,20 +391,53 @@ export function createServer() {
     try {
       const portfolioId = parsePortfolioIdStrict(req.params.id);
 
-      await getPortfolioRecord(portfolioId);
+      const record = await getPortfolioRecord(portfolioId);
 
       await prisma.$transaction(async (tx) => {
         await tx.trade.deleteMany({
           where: { portfolioId }
         });
 
+        await tx.order.deleteMany({
+          where: { portfolioId }
+        });
+
         await tx.position.deleteMany({
           where: { portfolioId }
         });
 
+        await tx.taxLot.deleteMany({
+          where: { portfolioId }
+        });
+
+        await tx.cashBalance.deleteMany({
+          where: { portfolioId }
+        });
+
+        await tx.fxConversion.deleteMany({
+          where: { portfolioId }
+        });
+
+        await tx.cashTransaction.deleteMany({
+          where: { portfolioId }
+        });
+
+        await tx.corporateActionEntry.deleteMany({
+          where: { portfolioId }
+        });
+
+        await tx.portfolioValuation.deleteMany({
+          where: { portfolioId }
+        });
+
         await tx.portfolio.update({
           where: { id: portfolioId },
-          data: { cashBalance: INITIAL_CASH_BALANCE }
+          data: {
+            cashBalance: record.startingCapital,
+            borrowFeesPaid: 0,
+            borrowAccruedAt: null,
+            cashTransactions: { create: startingCapitalDeposit(record.baseCurrency, record.startingCapital) }
+          }
         });
       });
 
@@ -354,15 +469,35 @@ export function createServer() {
         orderBy: { ts: "desc" }
       });
 
+      const cashBalances = await prisma.cashBalance.findMany({
+        where: { portfolioId },
+        orderBy: { currency: "asc" }
+      });
+
+      const cashTransactions = await prisma.cashTransaction.findMany({
+        where: { portfolioId },
+        orderBy: { ts: "asc" }
+      });
+
+      const corporateActions = await prisma.corporateActionEntry.findMany({
+        where: { portfolioId },
+        orderBy: { createdAt: "desc" }
+      });
+
       const exportData = {
         portfolio: {
           name: portfolio.name,
           baseCurrency: portfolio.baseCurrency,
           cashBalance: decimalToNumber(portfolio.cashBalance),
+          cashBalances: cashBalances.map((balance) => ({
+            currency: balance.currency,
+            amount: balance.amount.toNumber()
+          })),
           exportedAt: new Date().toISOString()
         },
         positions: positions.map((position: Position) => ({
           symbol: position.symbol,
+          currency: position.currency,
           qty: position.qty.toNumber(),
           avgPrice: position.avgPrice.toNumber()
         })),
@@ -371,8 +506,19 @@ export function createServer() {
           side: trade.side,
           qty: trade.qty.toNumber(),
           price: trade.price.toNumber(),
-          timestamp: trade.ts.toISOString()
-        }))
+          fee: trade.fee.toNumber(),
+          slippage: trade.slippage.toNumber(),
+          currency: trade.currency,
+          fxRate: trade.fxRate.toNumber(),
+          realizedPnL: trade.realizedPnL ? trade.realizedPnL.toNumber() : null,
+          timestamp: trade.ts.toISOString(),
+          reversedAt: trade.reversedAt ? trade.reversedAt.toISOString() : null,
+          reversedBy: trade.reversedBy,
+          reversalReason: trade.reversalReason,
+          amendsTradeId: trade.amendsTradeId
+        })),
+        cashTransactions: cashTransactions.map(mapCashTransaction),
+        corporateActions: corporateActions.map(mapCorporateActionEntry)
       };
 
       res.json(exportData);
@@ -387,89 +533,43 @@ export function createServer() {
       const body = tradeSchema.parse(req.body);
       const portfolioId = body.portfolioId ?? DEFAULT_PORTFOLIO_ID;
       const symbol = body.symbol.toUpperCase();
-      const price = body.price ?? (await deriveMarketPrice(symbol));
-      const tradeInput: TradeInput = {
+      const orderInput: OrderInput = {
         symbol,
         side: body.side,
         qty: body.qty,
-        price
+        orderType: body.orderType,
+        limitPrice: body.limitPrice,
+        stopPrice: body.stopPrice,
+        trailAmount: body.trailAmount,
+        trailPercent: body.trailPercent,
+        bracket: body.bracket,
+        lotIds: body.lotIds,
+        timeInForce: body.timeInForce,
+        expiresAt: body.expiresAt
       };
 
-      if (!Number.isFinite(tradeInput.price)) {
+      // Anything but a market order may rest on the book, so a missing quote is not fatal for it.
+      const price =
+        body.price ??
+        (body.orderType === "market"
+          ? await deriveMarketPrice(symbol)
+          : await deriveMarketPrice(symbol).catch(() => null));
+
+      if (body.orderType === "market" && !Number.isFinite(price)) {
         return res.status(422).json({ error: "Unable to determine trade price" });
       }
 
       await getPortfolioRecord(portfolioId);
 
-      await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
-        const portfolio = await tx.portfolio.findUnique({
-          where: { id: portfolioId }
-        });
-
-        if (!portfolio) {
-          throw new Error("Portfolio not found");
-        }
-
-        const qtyDecimal = new Prisma.Decimal(tradeInput.qty);
-        const priceDecimal = new Prisma.Decimal(tradeInput.price);
-        const tradeCost = qtyDecimal.mul(priceDecimal);
-        const currentCash = new Prisma.Decimal(portfolio.cashBalance);
-
-        if (tradeInput.side === "BUY") {
-          if (currentCash.lt(tradeCost)) {
-            throw new Error("Insufficient cash balance for this trade");
-          }
-          await tx.portfolio.update({
-            where: { id: portfolioId },
-            data: { cashBalance: currentCash.sub(tradeCost) }
-          });
-        } else {
-          await tx.portfolio.update({
-            where: { id: portfolioId },
-            data: { cashBalance: currentCash.add(tradeCost) }
-          });
-        }
-
-        const existingPosition = await tx.position.findFirst({
-          where: {
-            portfolioId,
-            symbol: tradeInput.symbol
-          }
-        });
-
-        const updated = applyTrade(existingPosition ?? null, tradeInput);
-
-        if (!existingPosition) {
-          if (tradeInput.side === "SELL") {
-            throw new Error("Cannot sell a position that does not exist");
-          }
-          await tx.position.create({
-            data: {
-              portfolioId,
-              symbol: tradeInput.symbol,
-              qty: updated.qty,
-              avgPrice: updated.avgPrice
-            }
-          });
-        } else if (updated.qty.isZero()) {
-          await tx.position.delete({ where: { id: existingPosition.id } });
-        } else {
-          await tx.position.update({
-            where: { id: existingPosition.id },
-            data: {
-              qty: updated.qty,
-              avgPrice: updated.avgPrice
-            }
-          });
-        }
-
-        await tx.trade.create({
-          data: createTradeRecord(tradeInput, portfolioId)
-        });
+      const quote = await getQuote(symbol).catch(() => null);
+      const [order] = await submitOrders([orderInput], portfolioId, {
+        source: "manual",
+        marketPrices: { [symbol]: price },
+        marketConditions: quote ? { [symbol]: quote } : {}
       });
 
       const snapshot = await buildPortfolioSnapshot(portfolioId);
-      res.status(201).json(snapshot);
+      res.status(201).json({ ...snapshot, order: mapOrder(order) });
     } catch (error) {
       console.error("Trade creation failed", error);
       res.status(400).json({ error: error instanceof Error ? error.message : "Invalid trade request" });
@@ -477,6 +577,19 @@ export function createServer() {
   });
 
   registerLlmRoutes(app);
+  registerOrderRoutes(app);
+  registerPortfolioSettingsRoutes(app);
+  registerTaxLotRoutes(app);
+  registerCashRoutes(app);
+  registerCorporateActionRoutes(app);
+  registerInstrumentRoutes(app);
+  registerTradeRoutes(app);
+  registerReconciliationRoutes(app);
+  registerValuationRoutes(app);
+  registerPerformanceRoutes(app);
+  registerRiskRoutes(app);
+  registerBacktestRoutes(app);
+  registerWatchlistRoutes(app);
   return app;
 }
 
@@ -589,114 +702,3 @@ function mapYahooQuoteType(quoteType?: string | null): AssetClass | undefined {
   }
   return undefined;
 }
-
-function parsePortfolioIdParam(value: unknown): number {
-  if (Array.isArray(value)) {
-    return parsePortfolioIdParam(value[0]);
-  }
-  if (typeof value === "string") {
-    const parsed = Number.parseInt(value, 10);
-    return Number.isFinite(parsed) && parsed > 0 ? parsed : DEFAULT_PORTFOLIO_ID;
-  }
-  if (typeof value === "number") {
-    return Number.isFinite(value) && value > 0 ? Math.trunc(value) : DEFAULT_PORTFOLIO_ID;
-  }
-  return DEFAULT_PORTFOLIO_ID;
-}
-
-function parsePortfolioIdStrict(value: unknown): number {
-  const parsed = parsePortfolioIdParam(value);
-  if (parsed === DEFAULT_PORTFOLIO_ID) {
-    if (Array.isArray(value)) {
-      return parsePortfolioIdStrict(value[0]);
-    }
-    if (typeof value === "string" && value.trim() !== String(DEFAULT_PORTFOLIO_ID)) {
-      throw new Error("Invalid portfolio id");
-    }
-    if (typeof value === "number" && value !== DEFAULT_PORTFOLIO_ID) {
-      throw new Error("Invalid portfolio id");
-    }
-  }
-  return parsed;
-}
-
-async function getPortfolioRecord(portfolioId: number) {
-  if (portfolioId === DEFAULT_PORTFOLIO_ID) {
-    return prisma.portfolio.upsert({
-      where: { id: DEFAULT_PORTFOLIO_ID },
-      update: {},
-      create: {
-        name: "Default",
-        baseCurrency: "USD",
-        cashBalance: INITIAL_CASH_BALANCE
-      }
-    });
-  }
-
-  const portfolio = await prisma.portfolio.findUnique({
-    where: { id: portfolioId }
-  });
-
-  if (!portfolio) {
-    throw new Error(`Portfolio with ID ${portfolioId} not found`);
-  }
-
-  return portfolio;
-}
-
-function decimalToNumber(value: unknown): number {
-  if (typeof value === "number") {
-    return value;
-  }
-  if (value && typeof value === "object" && "toNumber" in value && typeof (value as { toNumber: unknown }).toNumber === "function") {
-    return (value as { toNumber: () => number }).toNumber();
-  }
-  return Number(value ?? 0);
-}
-
-async function deriveMarketPrice(symbol: string): Promise<number> {
-  const quote = await getQuote(symbol);
-  if (quote.price !== null && quote.price !== undefined) {
-    return quote.price;
-  }
-  if (quote.previousClose !== null && quote.previousClose !== undefined) {
-    return quote.previousClose;
-  }
-  throw new Error("Unable to derive price for trade");
-}
-
-async function buildPortfolioSnapshot(portfolioId: number = DEFAULT_PORTFOLIO_ID): Promise<PortfolioSnapshot> {
-  const portfolioRecord = await getPortfolioRecord(portfolioId);
-  const base = ensurePortfolio(portfolioRecord);
-  const cashBalance = decimalToNumber(base.cashBalance);
-
-  const positions = await prisma.position.findMany({
-    where: { portfolioId }
-  });
-
-  const quotes = await Promise.all(positions.map((position: Position) => getQuote(position.symbol)));
-  const emptyQuote: Parameters<typeof computePositionDto>[1] = { price: null };
-  const positionDtos = positions.map((position: Position, index: number) =>
-    computePositionDto(position, quotes[index] ?? emptyQuote)
-  );
-  const totals = computePortfolioTotals(positionDtos);
-
-  return {
-    id: base.id,
-    name: base.name,
-    baseCurrency: base.baseCurrency,
-    cashBalance,
-    totalMarketValue: totals.totalMarketValue,
-    totalCostBasis: totals.totalCostBasis,
-    totalUnrealizedPnL: totals.totalUnrealizedPnL,
-    totalDailyPnL: totals.totalDailyPnL,
-    positions: sortPositions(positionDtos)
-  };
-}
-
-
-
-
-
-
-
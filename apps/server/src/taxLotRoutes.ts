@@ -0,0 +1,44 @@
+import type { Application } from "express";
+import { prisma, Prisma } from "@paper-trading/db";
+import { z } from "zod";
+import { getPortfolioRecord, parsePortfolioIdStrict } from "./portfolioService";
+import { mapTaxLot } from "./taxLots";
+
+const taxLotQuerySchema = z.object({
+  symbol: z.string().min(1).optional(),
+  status: z.enum(["open", "closed", "all"]).default("open")
+});
+
+export function registerTaxLotRoutes(app: Application) {
+  app.get("/api/portfolios/:id/lots", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      await getPortfolioRecord(portfolioId);
+      const { symbol, status } = taxLotQuerySchema.parse({
+        symbol: typeof req.query.symbol === "string" ? req.query.symbol.toUpperCase() : undefined,
+        status: typeof req.query.status === "string" ? req.query.status : undefined
+      });
+
+      const where: Prisma.TaxLotWhereInput = { portfolioId };
+      if (symbol) {
+        where.symbol = symbol;
+      }
+      if (status === "open") {
+        where.closedAt = null;
+      } else if (status === "closed") {
+        where.closedAt = { not: null };
+      }
+
+      const lots = await prisma.taxLot.findMany({
+        where,
+        orderBy: [{ symbol: "asc" }, { openedAt: "asc" }, { id: "asc" }],
+        take: 500
+      });
+      const now = new Date();
+      res.json({ lots: lots.map((lot) => mapTaxLot(lot, now)) });
+    } catch (error) {
+      console.error("List tax lots failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to fetch tax lots" });
+    }
+  });
+}
@@ -0,0 +1,290 @@
+import { Prisma } from "@paper-trading/db";
+import type { Portfolio, Position, TaxLot } from "@paper-trading/db";
+import { AppliedTrade, TradeInput } from "./portfolio";
+
+export type LotMethod = "FIFO" | "LIFO" | "HIFO" | "AVERAGE" | "SPECIFIC";
+
+export const LOT_METHODS: LotMethod[] = ["FIFO", "LIFO", "HIFO", "AVERAGE", "SPECIFIC"];
+
+export interface OpenLot {
+  id: number;
+  /** Remaining signed quantity; negative for short lots. */
+  qty: Prisma.Decimal;
+  costPrice: Prisma.Decimal;
+  openedAt: Date;
+}
+
+export interface LotRelief {
+  lotId: number;
+  qty: Prisma.Decimal;
+  costPrice: Prisma.Decimal;
+  realizedPnL: Prisma.Decimal;
+  longTerm: boolean;
+}
+
+export interface LotReliefResult {
+  reliefs: LotRelief[];
+  realizedPnL: Prisma.Decimal;
+  shortTermPnL: Prisma.Decimal;
+  longTermPnL: Prisma.Decimal;
+}
+
+export interface LotPlan {
+  relief: LotReliefResult | null;
+  /** Signed quantity of the lot opened by the fill, zero when it only closes exposure. */
+  openQty: Prisma.Decimal;
+  openCostPrice: Prisma.Decimal;
+  /** Average price of the position after the fill. */
+  avgPrice: Prisma.Decimal;
+}
+
+export function lotMethodFromPortfolio(portfolio: Portfolio): LotMethod {
+  return (LOT_METHODS as string[]).includes(portfolio.lotMethod) ? (portfolio.lotMethod as LotMethod) : "FIFO";
+}
+
+/** A holding is long-term when it is closed more than one year after it was opened. */
+export function isLongTermHolding(openedAt: Date, closedAt: Date) {
+  const anniversary = new Date(openedAt);
+  anniversary.setUTCFullYear(anniversary.getUTCFullYear() + 1);
+  return closedAt.getTime() > anniversary.getTime();
+}
+
+/**
+ * Returns the lots in the order they are relieved. Explicit `lotIds` always win; without them
+ * SPECIFIC and AVERAGE fall back to FIFO order. HIFO relieves the lot with the smallest gain
+ * first: the highest cost for longs, the lowest entry price for shorts.
+ */
+export function orderLotsForRelief(lots: OpenLot[], method: LotMethod, lotIds?: number[]): OpenLot[] {
+  if (lotIds && lotIds.length > 0) {
+    return lotIds.map((lotId) => {
+      const lot = lots.find((candidate) => candidate.id === lotId);
+      if (!lot) {
+        throw new Error(`Lot ${lotId} is not an open lot of this position`);
+      }
+      return lot;
+    });
+  }
+
+  const fifo = [...lots].sort((a, b) => a.openedAt.getTime() - b.openedAt.getTime() || a.id - b.id);
+  switch (method) {
+    case "LIFO":
+      return fifo.reverse();
+    case "HIFO":
+      return fifo.sort((a, b) => {
+        const difference = b.costPrice.sub(a.costPrice).toNumber();
+        return a.qty.isNegative() ? -difference : difference;
+      });
+    default:
+      return fifo;
+  }
+}
+
+/**
+ * Closes `qty` shares against the open lots at `price`. `costs` are the commission and slippage
+ * attributable to the closing quantity and are spread over the relieved lots pro rata. Under
+ * AVERAGE every lot is relieved at `averageCost`.
+ */
+export function relieveLots(
+  lots: OpenLot[],
+  params: {
+    qty: Prisma.Decimal;
+    price: Prisma.Decimal;
+    costs: Prisma.Decimal;
+    method: LotMethod;
+    closedAt: Date;
+    averageCost: Prisma.Decimal;
+    lotIds?: number[];
+  }
+): LotReliefResult {
+  const zero = new Prisma.Decimal(0);
+  const reliefs: LotRelief[] = [];
+  let remaining = params.qty;
+
+  for (const lot of orderLotsForRelief(lots, params.method, params.lotIds)) {
+    if (remaining.lte(0)) {
+      break;
+    }
+    const qty = Prisma.Decimal.min(remaining, lot.qty.abs());
+    if (qty.isZero()) {
+      continue;
+    }
+    const costPrice = params.method === "AVERAGE" ? params.averageCost : lot.costPrice;
+    const perShare = lot.qty.isNegative() ? costPrice.sub(params.price) : params.price.sub(costPrice);
+    const realizedPnL = perShare.mul(qty).sub(params.costs.mul(qty).div(params.qty));
+    reliefs.push({
+      lotId: lot.id,
+      qty,
+      costPrice,
+      realizedPnL,
+      longTerm: isLongTermHolding(lot.openedAt, params.closedAt)
+    });
+    remaining = remaining.sub(qty);
+  }
+
+  if (remaining.gt(0)) {
+    throw new Error(
+      params.lotIds && params.lotIds.length > 0
+        ? `Selected lots cover only ${params.qty.sub(remaining).toString()} of the ${params.qty.toString()} shares being closed`
+        : `Open lots cover only ${params.qty.sub(remaining).toString()} of the ${params.qty.toString()} shares being closed`
+    );
+  }
+
+  return reliefs.reduce<LotReliefResult>(
+    (result, relief) => ({
+      reliefs: result.reliefs,
+      realizedPnL: result.realizedPnL.add(relief.realizedPnL),
+      shortTermPnL: relief.longTerm ? result.shortTermPnL : result.shortTermPnL.add(relief.realizedPnL),
+      longTermPnL: relief.longTerm ? result.longTermPnL.add(relief.realizedPnL) : result.longTermPnL
+    }),
+    { reliefs, realizedPnL: zero, shortTermPnL: zero, longTermPnL: zero }
+  );
+}
+
+/**
+ * Works out how a fill changes the lots of a position: the part that closes existing exposure
+ * relieves lots (and produces the realized PnL), the rest opens a new lot. Except under AVERAGE,
+ * the position's average price is restated from the lots that remain open.
+ */
+export function planLotChanges(
+  lots: OpenLot[],
+  currentQty: Prisma.Decimal,
+  currentAvg: Prisma.Decimal,
+  trade: TradeInput,
+  applied: AppliedTrade,
+  options: { method: LotMethod; lotIds?: number[]; now: Date }
+): LotPlan {
+  const zero = new Prisma.Decimal(0);
+  const qty = new Prisma.Decimal(trade.qty);
+  const price = new Prisma.Decimal(trade.price);
+  const costs = new Prisma.Decimal((trade.fee ?? 0) + (trade.slippage ?? 0));
+  const buying = trade.side === "BUY";
+
+  const closes = !currentQty.isZero() && currentQty.isNegative() === buying;
+  const closingQty = closes ? Prisma.Decimal.min(qty, currentQty.abs()) : zero;
+  const openingQty = qty.sub(closingQty);
+  const closingCosts = costs.mul(closingQty).div(qty);
+  const openingCosts = costs.sub(closingCosts);
+
+  if (!closes && options.lotIds && options.lotIds.length > 0) {
+    throw new Error(`Lots can only be selected when closing a position in ${trade.symbol}`);
+  }
+
+  const relief = closingQty.gt(0)
+    ? relieveLots(lots, {
+        qty: closingQty,
+        price,
+        costs: closingCosts,
+        method: options.method,
+        closedAt: options.now,
+        averageCost: currentAvg,
+        lotIds: options.lotIds
+      })
+    : null;
+
+  const openQty = openingQty.gt(0) ? (buying ? openingQty : openingQty.neg()) : zero;
+  const openCostPrice = openingQty.gt(0)
+    ? (buying ? price.mul(openingQty).add(openingCosts) : price.mul(openingQty).sub(openingCosts)).div(openingQty)
+    : zero;
+
+  if (applied.qty.isZero() || options.method === "AVERAGE") {
+    return { relief, openQty, openCostPrice, avgPrice: applied.avgPrice };
+  }
+
+  const relieved = new Map((relief?.reliefs ?? []).map((item) => [item.lotId, item.qty]));
+  const remaining = lots
+    .map((lot) => ({ qty: lot.qty.abs().sub(relieved.get(lot.id) ?? zero), costPrice: lot.costPrice }))
+    .filter((lot) => lot.qty.gt(0));
+  if (openQty.abs().gt(0)) {
+    remaining.push({ qty: openQty.abs(), costPrice: openCostPrice });
+  }
+  const totalQty = remaining.reduce((sum, lot) => sum.add(lot.qty), zero);
+  const avgPrice = totalQty.isZero()
+    ? applied.avgPrice
+    : remaining.reduce((sum, lot) => sum.add(lot.qty.mul(lot.costPrice)), zero).div(totalQty);
+
+  return { relief, openQty, openCostPrice, avgPrice };
+}
+
+/**
+ * Loads the open lots of a position. Positions opened before lots were tracked get a single
+ * lot at their average price so that relief always has something to work with.
+ */
+export async function loadOpenLots(
+  tx: Prisma.TransactionClient,
+  portfolioId: number,
+  symbol: string,
+  position: Position | null
+): Promise<TaxLot[]> {
+  const lots = await tx.taxLot.findMany({
+    where: { portfolioId, symbol, closedAt: null },
+    orderBy: [{ openedAt: "asc" }, { id: "asc" }]
+  });
+  if (!position || position.qty.isZero()) {
+    return lots;
+  }
+
+  const covered = lots.reduce((sum, lot) => sum.add(lot.qty), new Prisma.Decimal(0));
+  const missing = position.qty.sub(covered);
+  if (missing.isZero() || missing.isNegative() !== position.qty.isNegative()) {
+    return lots;
+  }
+
+  const backfilled = await tx.taxLot.create({
+    data: { portfolioId, symbol, originalQty: missing, qty: missing, costPrice: position.avgPrice }
+  });
+  return [backfilled, ...lots];
+}
+
+/** Persists a lot plan once the trade that caused it has been written. */
+export async function applyLotPlan(
+  tx: Prisma.TransactionClient,
+  portfolioId: number,
+  symbol: string,
+  plan: LotPlan,
+  options: { tradeId: number; method: LotMethod; now: Date }
+) {
+  for (const relief of plan.relief?.reliefs ?? []) {
+    const lot = await tx.taxLot.findUniqueOrThrow({ where: { id: relief.lotId } });
+    const qty = lot.qty.isNegative() ? lot.qty.add(relief.qty) : lot.qty.sub(relief.qty);
+    await tx.taxLot.update({
+      where: { id: lot.id },
+      data: { qty, closedAt: qty.isZero() ? options.now : null }
+    });
+  }
+
+  if (!plan.openQty.isZero()) {
+    await tx.taxLot.create({
+      data: {
+        portfolioId,
+        symbol,
+        openTradeId: options.tradeId,
+        originalQty: plan.openQty,
+        qty: plan.openQty,
+        costPrice: plan.openCostPrice,
+        openedAt: options.now
+      }
+    });
+  }
+
+  if (options.method === "AVERAGE") {
+    // Average cost pools the basis: every open lot carries the position's average price.
+    await tx.taxLot.updateMany({
+      where: { portfolioId, symbol, closedAt: null },
+      data: { costPrice: plan.avgPrice }
+    });
+  }
+}
+
+export function mapTaxLot(lot: TaxLot, now = new Date()) {
+  return {
+    id: lot.id,
+    symbol: lot.symbol,
+    openTradeId: lot.openTradeId,
+    originalQty: lot.originalQty.toNumber(),
+    qty: lot.qty.toNumber(),
+    costPrice: lot.costPrice.toNumber(),
+    openedAt: lot.openedAt.toISOString(),
+    closedAt: lot.closedAt ? lot.closedAt.toISOString() : null,
+    longTerm: isLongTermHolding(lot.openedAt, lot.closedAt ?? now)
+  };
+}
@@ -0,0 +1,279 @@
+import { Prisma, prisma } from "@paper-trading/db";
+import type { Portfolio, Trade } from "@paper-trading/db";
+import { createTradeRecord, TradeInput, TradeSide } from "./portfolio";
+import { creditCash, debitCash } from "./cashBalances";
+import { settlementAt } from "./fx";
+import { lotMethodFromPortfolio } from "./taxLots";
+import { LedgerReplay, replayLedger, settlementBaseRate, settlementRate, tradeCashAmount } from "./tradeLedger";
+
+export interface CorrectionAudit {
+  reason: string;
+  /** Who asked for the correction; defaults to "user". */
+  by?: string | null;
+}
+
+/** Fields of a trade that can be corrected; omitted ones keep their booked value. */
+export interface TradeAmendment {
+  qty?: number;
+  price?: number;
+  fee?: number;
+  slippage?: number;
+}
+
+export interface TradeCorrection {
+  /** The original trade, now marked as reversed. */
+  reversed: Trade;
+  /** The trade booked in its place by an amendment, or null for a plain reversal. */
+  correction: Trade | null;
+}
+
+/**
+ * Reverses a booked trade: the trade stays in the ledger marked as reversed (by whom, when and
+ * why), its cash movements are offset, and the position, its tax lots and the realized PnL of
+ * later trades in the symbol are rebuilt by replaying the remaining ledger.
+ */
+export async function reverseTrade(tradeId: number, audit: CorrectionAudit, now = new Date()): Promise<TradeCorrection> {
+  return prisma.$transaction(async (tx) => {
+    const { trade, portfolio } = await loadCorrectableTrade(tx, tradeId);
+    const reversed = await markReversed(tx, trade, audit, now);
+    await rebuildPosition(tx, portfolio, trade);
+    return { reversed, correction: null };
+  });
+}
+
+/**
+ * Corrects a booked trade by reversing it and booking the corrected fill at the original time,
+ * order and FX rate. Costs are taken as given rather than recomputed from the cost model.
+ */
+export async function amendTrade(
+  tradeId: number,
+  amendment: TradeAmendment,
+  audit: CorrectionAudit,
+  now = new Date()
+): Promise<TradeCorrection> {
+  return prisma.$transaction(async (tx) => {
+    const { trade, portfolio } = await loadCorrectableTrade(tx, tradeId);
+    const input: TradeInput = {
+      symbol: trade.symbol,
+      side: trade.side as TradeSide,
+      qty: amendment.qty ?? trade.qty.toNumber(),
+      price: amendment.price ?? trade.price.toNumber(),
+      fee: amendment.fee ?? trade.fee.toNumber(),
+      slippage: amendment.slippage ?? trade.slippage.toNumber()
+    };
+    if (!(input.qty > 0) || !(input.price >= 0) || input.fee! < 0 || input.slippage! < 0) {
+      throw new Error("Amended trades need a positive quantity and non-negative price and costs");
+    }
+    if (
+      input.qty === trade.qty.toNumber() &&
+      input.price === trade.price.toNumber() &&
+      input.fee === trade.fee.toNumber() &&
+      input.slippage === trade.slippage.toNumber()
+    ) {
+      throw new Error(`Amendment does not change trade #${trade.id}`);
+    }
+
+    const settlement = await settlementOf(tx, portfolio, trade);
+    const reversed = await markReversed(tx, trade, audit, now);
+    const correction = await tx.trade.create({
+      data: {
+        ...createTradeRecord(input, trade.portfolioId, trade.orderId, undefined, {
+          currency: trade.currency,
+          fxRate: trade.fxRate
+        }),
+        ts: trade.ts,
+        amendsTradeId: trade.id
+      }
+    });
+
+    const movement = {
+      type: "trade" as const,
+      tradeId: correction.id,
+      note: `${input.side} ${input.qty} ${input.symbol} @ ${input.price} (amends trade #${trade.id})`,
+      fxRate: settlement.fxRate
+    };
+    const amount = tradeCashAmount(correction, settlement.rate);
+    if (amount.isNegative()) {
+      await debitCash(tx, trade.portfolioId, settlement.currency, amount.neg(), movement);
+    } else {
+      await creditCash(tx, trade.portfolioId, settlement.currency, amount, movement);
+    }
+
+    await rebuildPosition(tx, portfolio, trade);
+    return { reversed, correction: await tx.trade.findUniqueOrThrow({ where: { id: correction.id } }) };
+  });
+}
+
+/**
+ * Loads a trade that can be corrected. Symbols that were renamed by a corporate action are
+ * refused because their ledger spans two symbols, and so is any position the ledger does not
+ * reproduce (e.g. one imported without its trades), since replaying it would lose shares.
+ */
+async function loadCorrectableTrade(tx: Prisma.TransactionClient, tradeId: number) {
+  const trade = await tx.trade.findUnique({ where: { id: tradeId } });
+  if (!trade) {
+    throw new Error(`Trade #${tradeId} not found`);
+  }
+  if (trade.reversedAt) {
+    throw new Error(`Trade #${tradeId} has already been reversed`);
+  }
+  const portfolio = await tx.portfolio.findUniqueOrThrow({ where: { id: trade.portfolioId } });
+
+  const renamed = await tx.corporateActionEntry.findFirst({
+    where: {
+      portfolioId: trade.portfolioId,
+      type: "symbol_change",
+      OR: [{ symbol: trade.symbol }, { action: { newSymbol: trade.symbol } }]
+    }
+  });
+  if (renamed) {
+    throw new Error(`Trades in ${trade.symbol} cannot be corrected after a symbol change`);
+  }
+
+  const position = await tx.position.findFirst({ where: { portfolioId: trade.portfolioId, symbol: trade.symbol } });
+  const held = position?.qty ?? new Prisma.Decimal(0);
+  const replayed = await replaySymbol(tx, portfolio, trade.symbol);
+  if (!replayed.qty.eq(held)) {
+    throw new Error(
+      `The trade ledger of ${trade.symbol} adds up to ${replayed.qty.toString()} shares but ${held.toString()} are held; ` +
+        "it cannot be corrected by replay"
+    );
+  }
+  return { trade, portfolio };
+}
+
+/** Marks the trade as reversed and offsets every cash movement it caused. */
+async function markReversed(tx: Prisma.TransactionClient, trade: Trade, audit: CorrectionAudit, now: Date) {
+  const reversed = await tx.trade.update({
+    where: { id: trade.id },
+    data: { reversedAt: now, reversedBy: audit.by?.trim() || "user", reversalReason: audit.reason }
+  });
+
+  const movements = await tx.cashTransaction.findMany({
+    where: { portfolioId: trade.portfolioId, type: "trade", tradeId: trade.id },
+    orderBy: { id: "asc" }
+  });
+  const note = `Reversal of trade #${trade.id}: ${audit.reason}`;
+  for (const row of movements) {
+    const movement = { type: "trade" as const, tradeId: trade.id, note, fxRate: row.fxRate };
+    if (row.amount.isNegative()) {
+      await creditCash(tx, trade.portfolioId, row.currency, row.amount.neg(), movement);
+    } else {
+      await debitCash(tx, trade.portfolioId, row.currency, row.amount, movement);
+    }
+  }
+  return reversed;
+}
+
+/**
+ * Currency and rates the original trade settled at, so its correction moves cash the same way.
+ * A trade without a cash row settles as a fill at its own FX rate would.
+ */
+async function settlementOf(tx: Prisma.TransactionClient, portfolio: Portfolio, trade: Trade) {
+  const settled = await tx.cashTransaction.findFirst({
+    where: { portfolioId: trade.portfolioId, type: "trade", tradeId: trade.id },
+    orderBy: { id: "asc" }
+  });
+  const currency = settled?.currency ?? settlementAt(portfolio, trade.currency, trade.fxRate.toNumber()).currency;
+  return {
+    currency,
+    rate: settlementRate(trade, currency, portfolio.baseCurrency),
+    fxRate: settlementBaseRate(trade, currency, portfolio.baseCurrency)
+  };
+}
+
+async function replaySymbol(tx: Prisma.TransactionClient, portfolio: Portfolio, symbol: string): Promise<LedgerReplay> {
+  const trades = await tx.trade.findMany({
+    where: { portfolioId: portfolio.id, symbol, reversedAt: null },
+    include: { order: { select: { lotIds: true } } },
+    orderBy: [{ ts: "asc" }, { id: "asc" }]
+  });
+  const splits = await tx.corporateActionEntry.findMany({
+    where: { portfolioId: portfolio.id, symbol, type: "split" },
+    include: { action: true }
+  });
+  const lots = await tx.taxLot.findMany({ where: { portfolioId: portfolio.id, symbol } });
+
+  return replayLedger(
+    symbol,
+    trades.map((trade) => ({ ...trade, lotIds: trade.order?.lotIds })),
+    splits.map((entry) => ({
+      exDate: entry.action.exDate,
+      ratio: entry.action.ratio ?? new Prisma.Decimal(1),
+      appliedAt: entry.createdAt
+    })),
+    { method: lotMethodFromPortfolio(portfolio), allowShort: portfolio.allowShort, existingLots: lots }
+  );
+}
+
+/**
+ * Replays the symbol's ledger after a correction and writes the result back: realized PnL of
+ * the trades from the corrected one onward, the position and every lot of the symbol. Lots
+ * the replay no longer produces (such as the one the reversed trade opened) are deleted.
+ * Dividends already paid and the fills recorded on orders are left as booked.
+ */
+async function rebuildPosition(tx: Prisma.TransactionClient, portfolio: Portfolio, changed: Trade) {
+  const { symbol } = changed;
+  const replay = await replaySymbol(tx, portfolio, symbol);
+
+  const affected = await tx.trade.findMany({
+    where: { portfolioId: portfolio.id, symbol, reversedAt: null, ts: { gte: changed.ts } },
+    select: { id: true }
+  });
+  const affectedIds = new Set(affected.map((trade) => trade.id));
+  for (const result of replay.trades.filter((trade) => affectedIds.has(trade.tradeId))) {
+    await tx.trade.update({
+      where: { id: result.tradeId },
+      data: { realizedPnL: result.realizedPnL, shortTermPnL: result.shortTermPnL, longTermPnL: result.longTermPnL }
+    });
+  }
+
+  await writeReplayedPosition(tx, portfolio.id, symbol, changed.currency, replay);
+}
+
+/**
+ * Stores a replayed position and its lots: the position is updated, created or deleted, lots the
+ * replay produced are updated or created and every other lot of the symbol is deleted.
+ */
+export async function writeReplayedPosition(
+  tx: Prisma.TransactionClient,
+  portfolioId: number,
+  symbol: string,
+  currency: string,
+  replay: LedgerReplay,
+  options: { lots?: boolean } = {}
+) {
+  const position = await tx.position.findFirst({ where: { portfolioId, symbol } });
+  if (replay.qty.isZero()) {
+    if (position) {
+      await tx.position.delete({ where: { id: position.id } });
+    }
+  } else if (position) {
+    await tx.position.update({ where: { id: position.id }, data: { qty: replay.qty, avgPrice: replay.avgPrice } });
+  } else {
+    await tx.position.create({
+      data: { portfolioId, symbol, qty: replay.qty, avgPrice: replay.avgPrice, currency }
+    });
+  }
+  if (options.lots === false) {
+    return;
+  }
+
+  const kept = replay.lots.flatMap((lot) => (lot.id === null ? [] : [lot.id]));
+  await tx.taxLot.deleteMany({ where: { portfolioId, symbol, id: { notIn: kept } } });
+  for (const lot of replay.lots) {
+    const data = {
+      openTradeId: lot.openTradeId,
+      originalQty: lot.originalQty,
+      qty: lot.qty,
+      costPrice: lot.costPrice,
+      openedAt: lot.openedAt,
+      closedAt: lot.closedAt
+    };
+    if (lot.id === null) {
+      await tx.taxLot.create({ data: { portfolioId, symbol, ...data } });
+    } else {
+      await tx.taxLot.update({ where: { id: lot.id }, data });
+    }
+  }
+}
@@ -0,0 +1,286 @@
+import { Prisma } from "@paper-trading/db";
+import { applyTrade, TradeInput, TradeSide } from "./portfolio";
+import { LotMethod, OpenLot, planLotChanges } from "./taxLots";
+import { splitLot, splitPosition } from "./corporateActions";
+import { normalizeCurrency } from "./fx";
+
+export interface LedgerTrade {
+  id: number;
+  side: string;
+  qty: Prisma.Decimal;
+  price: Prisma.Decimal;
+  fee: Prisma.Decimal;
+  slippage: Prisma.Decimal;
+  ts: Date;
+  /** Lots the trade's order asked to close; ids that are no longer open fall back to the lot method. */
+  lotIds?: number[];
+}
+
+export interface LedgerSplit {
+  exDate: Date;
+  ratio: Prisma.Decimal;
+  /** When the split was applied to the portfolio; it is replayed at that point of the ledger. */
+  appliedAt: Date;
+}
+
+export interface ExistingLot {
+  id: number;
+  openTradeId: number | null;
+  openedAt: Date;
+}
+
+export interface ReplayLot {
+  /** Id of the stored lot opened by the same trade, or null for a lot that has to be created. */
+  id: number | null;
+  openTradeId: number;
+  originalQty: Prisma.Decimal;
+  qty: Prisma.Decimal;
+  costPrice: Prisma.Decimal;
+  openedAt: Date;
+  closedAt: Date | null;
+}
+
+export interface ReplayedTrade {
+  tradeId: number;
+  realizedPnL: Prisma.Decimal | null;
+  shortTermPnL: Prisma.Decimal | null;
+  longTermPnL: Prisma.Decimal | null;
+}
+
+export interface LedgerReplay {
+  qty: Prisma.Decimal;
+  avgPrice: Prisma.Decimal;
+  lots: ReplayLot[];
+  trades: ReplayedTrade[];
+}
+
+interface WorkingLot extends ReplayLot {
+  key: number;
+}
+
+/**
+ * Rebuilds a position from its trade ledger: every active trade of the symbol is applied in
+ * time order exactly as `bookTrade` applied it, with recorded splits replayed at the point they
+ * were applied. Costs are taken from the trades as booked rather than recomputed, so the only
+ * differences from the stored state are the ones a correction introduced. Lots keep the id and
+ * opening time of the stored lot opened by the same trade.
+ */
+export function replayLedger(
+  symbol: string,
+  trades: LedgerTrade[],
+  splits: LedgerSplit[],
+  options: { method: LotMethod; allowShort: boolean; existingLots?: ExistingLot[] }
+): LedgerReplay {
+  const zero = new Prisma.Decimal(0);
+  const existingByTrade = new Map<number, ExistingLot>();
+  for (const lot of options.existingLots ?? []) {
+    if (lot.openTradeId !== null) {
+      existingByTrade.set(lot.openTradeId, lot);
+    }
+  }
+
+  const events = [
+    ...trades.map((trade) => ({ at: trade.ts, trade, split: null as LedgerSplit | null })),
+    ...splits.map((split) => ({ at: split.appliedAt, trade: null as LedgerTrade | null, split }))
+  ].sort((a, b) => a.at.getTime() - b.at.getTime() || (a.trade?.id ?? 0) - (b.trade?.id ?? 0));
+
+  let position = { qty: zero, avgPrice: zero };
+  const lots: WorkingLot[] = [];
+  const replayed: ReplayedTrade[] = [];
+  // Lots without a stored counterpart get negative keys so they never collide with real ids.
+  let nextKey = -1;
+
+  for (const event of events) {
+    if (event.split) {
+      const { ratio, exDate } = event.split;
+      const qualifying = lots.filter((lot) => !lot.closedAt && lot.openedAt.getTime() < exDate.getTime());
+      const qualifyingQty = qualifying.reduce((sum, lot) => sum.add(lot.qty), zero);
+      if (qualifyingQty.isZero()) {
+        continue;
+      }
+      for (const lot of qualifying) {
+        Object.assign(lot, splitLot(lot, ratio));
+      }
+      position = splitPosition(position.qty, position.avgPrice, qualifyingQty, ratio);
+      continue;
+    }
+
+    const trade = event.trade!;
+    const input: TradeInput = {
+      symbol,
+      side: trade.side as TradeSide,
+      qty: trade.qty.toNumber(),
+      price: trade.price.toNumber(),
+      fee: trade.fee.toNumber(),
+      slippage: trade.slippage.toNumber()
+    };
+    const openLots: OpenLot[] = lots
+      .filter((lot) => !lot.closedAt)
+      .map((lot) => ({ id: lot.key, qty: lot.qty, costPrice: lot.costPrice, openedAt: lot.openedAt }));
+    const lotIds = trade.lotIds?.filter((lotId) => openLots.some((lot) => lot.id === lotId));
+
+    let plan;
+    let applied;
+    try {
+      applied = applyTrade(position, input, { allowShort: options.allowShort });
+      plan = planLotChanges(openLots, position.qty, position.avgPrice, input, applied, {
+        method: options.method,
+        lotIds,
+        now: trade.ts
+      });
+    } catch (error) {
+      throw new Error(`Trade #${trade.id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    for (const relief of plan.relief?.reliefs ?? []) {
+      const lot = lots.find((candidate) => candidate.key === relief.lotId)!;
+      lot.qty = lot.qty.isNegative() ? lot.qty.add(relief.qty) : lot.qty.sub(relief.qty);
+      lot.closedAt = lot.qty.isZero() ? trade.ts : null;
+    }
+    if (!plan.openQty.isZero()) {
+      const existing = existingByTrade.get(trade.id);
+      lots.push({
+        key: existing?.id ?? nextKey--,
+        id: existing?.id ?? null,
+        openTradeId: trade.id,
+        originalQty: plan.openQty,
+        qty: plan.openQty,
+        costPrice: plan.openCostPrice,
+        openedAt: existing?.openedAt ?? trade.ts,
+        closedAt: null
+      });
+    }
+    if (options.method === "AVERAGE") {
+      for (const lot of lots.filter((candidate) => !candidate.closedAt)) {
+        lot.costPrice = plan.avgPrice;
+      }
+    }
+
+    position = { qty: applied.qty, avgPrice: applied.qty.isZero() ? zero : plan.avgPrice };
+    replayed.push({
+      tradeId: trade.id,
+      realizedPnL: plan.relief?.realizedPnL ?? null,
+      shortTermPnL: plan.relief?.shortTermPnL ?? null,
+      longTermPnL: plan.relief?.longTermPnL ?? null
+    });
+  }
+
+  return {
+    qty: position.qty,
+    avgPrice: position.avgPrice,
+    lots: lots.map((lot) => ({
+      id: lot.id,
+      openTradeId: lot.openTradeId,
+      originalQty: lot.originalQty,
+      qty: lot.qty,
+      costPrice: lot.costPrice,
+      openedAt: lot.openedAt,
+      closedAt: lot.closedAt
+    })),
+    trades: replayed
+  };
+}
+
+export interface PortfolioLedger {
+  method: LotMethod;
+  allowShort: boolean;
+  /** Active trades only; reversed ones are left out by the caller. */
+  trades: Array<LedgerTrade & { symbol: string }>;
+  splits: Array<LedgerSplit & { symbol: string }>;
+  /** Symbol changes applied to the portfolio, in the order they were applied. */
+  renames: Array<{ from: string; to: string }>;
+  /** Stored lots, so replayed lots keep their ids. */
+  lots?: Array<ExistingLot & { symbol: string }>;
+}
+
+export interface PortfolioReplay {
+  /** Replayed state of every symbol that replayed cleanly, keyed by its current symbol. */
+  replays: Map<string, LedgerReplay>;
+  /** Symbols whose ledger spans a symbol change. */
+  renamedSymbols: Set<string>;
+  /** Symbols whose ledger could not be replayed. */
+  failures: Array<{ symbol: string; error: string }>;
+}
+
+/** Replays every symbol of a portfolio's ledger, following symbol changes to the current symbol. */
+export function replayPortfolioLedger(ledger: PortfolioLedger): PortfolioReplay {
+  const renamedSymbols = new Set<string>();
+  const currentSymbol = (symbol: string) => {
+    let resolved = symbol;
+    for (const rename of ledger.renames) {
+      if (rename.from === resolved) {
+        renamedSymbols.add(rename.from);
+        renamedSymbols.add(rename.to);
+        resolved = rename.to;
+      }
+    }
+    return resolved;
+  };
+
+  const tradesBySymbol = new Map<string, LedgerTrade[]>();
+  for (const trade of ledger.trades) {
+    const symbol = currentSymbol(trade.symbol);
+    tradesBySymbol.set(symbol, [...(tradesBySymbol.get(symbol) ?? []), trade]);
+  }
+  const splitsBySymbol = new Map<string, LedgerSplit[]>();
+  for (const split of ledger.splits) {
+    const symbol = currentSymbol(split.symbol);
+    splitsBySymbol.set(symbol, [...(splitsBySymbol.get(symbol) ?? []), split]);
+  }
+
+  const replays = new Map<string, LedgerReplay>();
+  const failures: PortfolioReplay["failures"] = [];
+  for (const [symbol, trades] of tradesBySymbol) {
+    try {
+      replays.set(
+        symbol,
+        replayLedger(symbol, trades, splitsBySymbol.get(symbol) ?? [], {
+          method: ledger.method,
+          allowShort: ledger.allowShort,
+          existingLots: (ledger.lots ?? []).filter((lot) => currentSymbol(lot.symbol) === symbol)
+        })
+      );
+    } catch (error) {
+      failures.push({ symbol, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return { replays, renamedSymbols, failures };
+}
+
+/**
+ * Rate a trade's price-currency amounts were settled at in `settlementCurrency`: the trade's FX
+ * rate when it settled in the base currency, otherwise only the minor-unit factor of its own
+ * currency (pence into pounds).
+ */
+export function settlementRate(
+  trade: { currency: string; fxRate: Prisma.Decimal },
+  settlementCurrency: string,
+  baseCurrency: string
+) {
+  if (settlementCurrency === baseCurrency) {
+    return trade.fxRate;
+  }
+  return new Prisma.Decimal(normalizeCurrency(trade.currency)?.factor ?? 1);
+}
+
+/** Base currency units per unit of `settlementCurrency`, the rate a trade's cash rows are recorded at. */
+export function settlementBaseRate(
+  trade: { currency: string; fxRate: Prisma.Decimal },
+  settlementCurrency: string,
+  baseCurrency: string
+) {
+  if (settlementCurrency === baseCurrency) {
+    return new Prisma.Decimal(1);
+  }
+  return trade.fxRate.div(settlementRate(trade, settlementCurrency, baseCurrency));
+}
+
+/** Signed cash a trade moves in its settlement currency: negative for a BUY, positive for a SELL. */
+export function tradeCashAmount(
+  trade: { side: string; qty: Prisma.Decimal; price: Prisma.Decimal; fee: Prisma.Decimal; slippage: Prisma.Decimal },
+  rate: Prisma.Decimal
+) {
+  const notional = trade.qty.mul(trade.price);
+  const costs = trade.fee.add(trade.slippage);
+  return trade.side === "BUY" ? notional.add(costs).mul(rate).neg() : notional.sub(costs).mul(rate);
+}
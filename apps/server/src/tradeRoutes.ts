@@ -0,0 +1,73 @@
+import type { Application } from "express";
+import { z } from "zod";
+import { mapTrade } from "./portfolio";
+import { buildPortfolioSnapshot } from "./portfolioService";
+import { amendTrade, reverseTrade, TradeCorrection } from "./tradeCorrectionService";
+import { backfillValuations } from "./valuationService";
+
+const auditSchema = {
+  reason: z.string().trim().min(1, "A reason is required").max(500),
+  by: z.string().trim().min(1).max(100).optional()
+};
+
+const reverseSchema = z.object(auditSchema);
+
+const amendSchema = z
+  .object({
+    ...auditSchema,
+    qty: z.coerce.number().positive().optional(),
+    price: z.coerce.number().nonnegative().optional(),
+    fee: z.coerce.number().nonnegative().optional(),
+    slippage: z.coerce.number().nonnegative().optional()
+  })
+  .refine(
+    (body) => [body.qty, body.price, body.fee, body.slippage].some((value) => value !== undefined),
+    "Provide at least one of qty, price, fee or slippage to amend"
+  );
+
+function parseTradeId(value: string) {
+  const id = Number.parseInt(value, 10);
+  if (!Number.isFinite(id) || id <= 0 || String(id) !== value.trim()) {
+    throw new Error("Invalid trade id");
+  }
+  return id;
+}
+
+async function correctionResponse(result: TradeCorrection) {
+  // Days valued since the trade counted it as booked; revalue them from the corrected ledger.
+  await backfillValuations(result.reversed.portfolioId, { from: result.reversed.ts, replace: true }).catch((error) =>
+    console.error("Equity curve refresh after trade correction failed", error)
+  );
+  const snapshot = await buildPortfolioSnapshot(result.reversed.portfolioId);
+  return {
+    ...snapshot,
+    trade: mapTrade(result.reversed),
+    correction: result.correction ? mapTrade(result.correction) : null
+  };
+}
+
+export function registerTradeRoutes(app: Application) {
+  app.post("/api/trades/:id/reverse", async (req, res) => {
+    try {
+      const tradeId = parseTradeId(req.params.id);
+      const body = reverseSchema.parse(req.body ?? {});
+      const result = await reverseTrade(tradeId, body);
+      res.json(await correctionResponse(result));
+    } catch (error) {
+      console.error("Trade reversal failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to reverse trade" });
+    }
+  });
+
+  app.post("/api/trades/:id/amend", async (req, res) => {
+    try {
+      const tradeId = parseTradeId(req.params.id);
+      const { reason, by, ...amendment } = amendSchema.parse(req.body ?? {});
+      const result = await amendTrade(tradeId, amendment, { reason, by });
+      res.json(await correctionResponse(result));
+    } catch (error) {
+      console.error("Trade amendment failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to amend trade" });
+    }
+  });
+}
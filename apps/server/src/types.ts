@@ -1,4 +1,7 @@
-﻿export type AssetClass = "equity" | "etf" | "etn" | "index";
+﻿import type { CashBalanceDto } from "./cashBalances";
+import type { MarginState } from "./margin";
+
+export type AssetClass = "equity" | "etf" | "etn" | "index";
 
 export interface SearchResultItem {
   name: string;
@@ -18,7 +21,17 @@ export interface QuoteResponse {
   change?: number | null;
   marketState?: string;
   previousClose?: number | null;
+  /** Opening price of the current regular session. */
+  open?: number | null;
+  bid?: number | null;
+  ask?: number | null;
+  /** Shares displayed at the bid and ask. */
+  bidSize?: number | null;
+  askSize?: number | null;
+  averageVolume?: number | null;
   timestamp?: number | null;
+  /** Yahoo's instrument type, e.g. `EQUITY`, `ETF` or `CRYPTOCURRENCY`. */
+  quoteType?: string;
 }
 
 export interface HistoryCandle {
@@ -30,8 +43,24 @@ export interface HistoryCandle {
   volume: number | null;
 }
 
+/** Split and dividend events reported by the chart endpoint. Dividends are per share, in the quote currency. */
+export interface CorporateEvents {
+  dividends: Array<{ date: Date; amount: number }>;
+  splits: Array<{ date: Date; numerator: number; denominator: number }>;
+}
+
+export interface SymbolMatch {
+  symbol: string;
+  name: string;
+  exchange: string | null;
+  quoteType: string | null;
+}
+
+/** Prices and values are in the position's `currency`; `fxRate` converts them to the base currency. */
 export interface PortfolioPositionDto {
   symbol: string;
+  currency?: string;
+  fxRate?: number;
   qty: number;
   avgPrice: number;
   marketPrice: number | null;
@@ -41,14 +70,46 @@ export interface PortfolioPositionDto {
   changePercent?: number | null;
 }
 
+export interface CurrencyExposure {
+  currency: string;
+  /** Base currency units per unit of `currency`. */
+  fxRate: number;
+  cash: number;
+  marketValue: number;
+  /** Cash plus market value, in the base currency. */
+  baseValue: number;
+}
+
+/** Totals are in the base currency; `cash` and `currencies` break them down per currency. */
 export interface PortfolioSnapshot {
   id: number;
   name: string;
   baseCurrency: string;
+  fxAutoConvert: boolean;
+  /** Moment a point-in-time snapshot was rebuilt for; absent on the live snapshot. */
+  asOf?: string;
+  /** Cash held in the base currency. */
   cashBalance: number;
+  /** Cash across every currency, converted to the base currency. */
+  totalCash: number;
+  cash: CashBalanceDto[];
+  currencies: CurrencyExposure[];
   totalMarketValue: number;
   totalCostBasis: number;
   totalUnrealizedPnL: number;
   totalDailyPnL: number;
+  totalFees: number;
+  totalSlippage: number;
+  totalRealizedPnL: number;
+  /** Realized PnL of lots held for one year or less, and of lots held longer. */
+  totalShortTermPnL: number;
+  totalLongTermPnL: number;
+  borrowFeesPaid: number;
+  /** Dividends received net of withholding tax (negative when paid on shorts), in the base currency. */
+  totalDividends: number;
+  /** Deposits less withdrawals in the base currency; the rest of the change in value is return. */
+  netDeposits: number;
+  /** Margin figures for portfolios that allow short selling, null otherwise. */
+  margin: MarginState | null;
   positions: PortfolioPositionDto[];
 }
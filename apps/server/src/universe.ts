@@ -0,0 +1,266 @@
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { prisma } from "@paper-trading/db";
+import { z } from "zod";
+import type { HistoryCandle, QuoteResponse } from "./types";
+
+/** Most symbols a universe may hold; each one costs a quote and a history lookup per run. */
+export const MAX_UNIVERSE_SYMBOLS = 100;
+
+const INDEX_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+const INDEX_EXTENSIONS = [".json", ".txt", ".csv"];
+const DEFAULT_INDEX_DIR = "data/indexes";
+
+export type UniverseSource = "symbols" | "watchlist" | "index";
+
+/** The universe columns of a portfolio or prompt. At most one of them is set. */
+export interface UniverseSettings {
+  universeSymbols: string | null;
+  universeWatchlistId: number | null;
+  universeIndex: string | null;
+}
+
+export interface UniverseUpdate {
+  universeSymbols?: string[] | null;
+  universeWatchlistId?: number | null;
+  universeIndex?: string | null;
+}
+
+/** Universe fields of portfolio settings and prompt payloads; omitted fields are left alone, null clears. */
+export const universeUpdateFields = {
+  universeSymbols: z.array(z.string().trim().min(1).max(32)).min(1).max(MAX_UNIVERSE_SYMBOLS).nullable().optional(),
+  universeWatchlistId: z.number().int().positive().nullable().optional(),
+  universeIndex: z.string().trim().min(1).max(64).nullable().optional()
+};
+
+export const SINGLE_UNIVERSE_SOURCE = {
+  message: "Choose one universe source: a symbol list, a watchlist or an index",
+  path: ["universeSymbols"]
+};
+
+export function hasSingleUniverseSource(update: UniverseUpdate) {
+  return [update.universeSymbols, update.universeWatchlistId, update.universeIndex].filter(Boolean).length <= 1;
+}
+
+/** The symbols an LLM run gets market data for and may open or add to positions in. */
+export interface Universe {
+  source: UniverseSource;
+  name: string;
+  symbols: string[];
+}
+
+/** A universe with the quotes and candles fetched for it; symbols without a quote are left out. */
+export interface UniverseContext extends Universe {
+  quotes: Record<string, QuoteResponse>;
+  histories: Record<string, HistoryCandle[]>;
+}
+
+export interface IndexSummary {
+  name: string;
+  symbolCount: number;
+}
+
+/** Trims, upper-cases and de-duplicates symbols, keeping their order. */
+export function normalizeSymbols(symbols: string[]) {
+  const normalized = Array.from(new Set(symbols.map((symbol) => symbol.trim().toUpperCase()).filter(Boolean)));
+  if (normalized.length > MAX_UNIVERSE_SYMBOLS) {
+    throw new Error(`A universe can hold at most ${MAX_UNIVERSE_SYMBOLS} symbols, got ${normalized.length}`);
+  }
+  return normalized;
+}
+
+/** Reads a symbol list stored as a JSON array; anything else reads as empty. */
+export function parseSymbolList(value: string | null | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((symbol): symbol is string => typeof symbol === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Where index constituent files are read from: `UNIVERSE_INDEX_DIR`, relative to the working directory. */
+export function indexDirectory() {
+  return path.resolve(process.cwd(), process.env.UNIVERSE_INDEX_DIR || DEFAULT_INDEX_DIR);
+}
+
+/** The index files in the index directory with the number of constituents each lists. */
+export async function listIndexes(): Promise<IndexSummary[]> {
+  let files: string[];
+  try {
+    files = await readdir(indexDirectory());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw error;
+  }
+
+  const names = Array.from(
+    new Set(
+      files
+        .filter((file) => INDEX_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+        .map((file) => path.basename(file, path.extname(file)))
+        .filter((name) => INDEX_NAME_PATTERN.test(name))
+    )
+  ).sort();
+
+  const indexes: IndexSummary[] = [];
+  for (const name of names) {
+    try {
+      indexes.push({ name, symbolCount: (await loadIndexConstituents(name)).length });
+    } catch (error) {
+      console.error(`Skipping index file ${name}`, error);
+    }
+  }
+  return indexes;
+}
+
+/**
+ * The constituents listed in `<name>.json` (an array of symbols) or `<name>.txt` / `<name>.csv`
+ * (one symbol per line in the first column; a `symbol` or `ticker` header and `#` comments are
+ * skipped) in the index directory.
+ */
+export async function loadIndexConstituents(name: string) {
+  if (!INDEX_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid index name "${name}"; use letters, digits, "-" and "_"`);
+  }
+
+  for (const extension of INDEX_EXTENSIONS) {
+    let content: string;
+    try {
+      content = await readFile(path.join(indexDirectory(), `${name}${extension}`), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        continue;
+      }
+      throw error;
+    }
+    const symbols = normalizeSymbols(parseIndexFile(content, extension));
+    if (symbols.length === 0) {
+      throw new Error(`Index "${name}" lists no symbols`);
+    }
+    return symbols;
+  }
+
+  throw new Error(`Index "${name}" not found in ${indexDirectory()}`);
+}
+
+function parseIndexFile(content: string, extension: string): string[] {
+  if (extension === ".json") {
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed) || parsed.some((symbol) => typeof symbol !== "string")) {
+      throw new Error("JSON index files must hold an array of symbols");
+    }
+    return parsed;
+  }
+
+  const symbols = content
+    .split(/\r?\n/)
+    .map((line) =>
+      line
+        .replace(/#.*$/, "")
+        .split(/[,;\t]/)[0]
+        .trim()
+        .replace(/^"|"$/g, "")
+    )
+    .filter(Boolean);
+  if (symbols.length > 0 && /^(symbol|ticker)$/i.test(symbols[0])) {
+    symbols.shift();
+  }
+  return symbols;
+}
+
+/**
+ * Checks a universe change before it is stored and returns the columns to write. A portfolio or
+ * prompt has at most one universe, so setting one source clears the others; null clears it.
+ */
+export async function resolveUniverseUpdate(update: UniverseUpdate) {
+  if (update.universeSymbols) {
+    const symbols = normalizeSymbols(update.universeSymbols);
+    if (symbols.length === 0) {
+      throw new Error("List at least one universe symbol");
+    }
+    return { universeSymbols: JSON.stringify(symbols), universeWatchlistId: null, universeIndex: null };
+  }
+  if (update.universeWatchlistId) {
+    const exists = await prisma.watchlist.count({ where: { id: update.universeWatchlistId } });
+    if (!exists) {
+      throw new Error(`Watchlist ${update.universeWatchlistId} not found`);
+    }
+    return { universeSymbols: null, universeWatchlistId: update.universeWatchlistId, universeIndex: null };
+  }
+  if (update.universeIndex) {
+    await loadIndexConstituents(update.universeIndex);
+    return { universeSymbols: null, universeWatchlistId: null, universeIndex: update.universeIndex };
+  }
+  return {
+    universeSymbols: update.universeSymbols === null ? null : undefined,
+    universeWatchlistId: update.universeWatchlistId === null ? null : undefined,
+    universeIndex: update.universeIndex === null ? null : undefined
+  };
+}
+
+/** The universe the columns point at, or null when none is set. Index files are read on every call. */
+export async function resolveUniverse(settings: UniverseSettings): Promise<Universe | null> {
+  if (settings.universeSymbols) {
+    return { source: "symbols", name: "Symbol list", symbols: parseSymbolList(settings.universeSymbols) };
+  }
+  if (settings.universeWatchlistId) {
+    const watchlist = await prisma.watchlist.findUnique({ where: { id: settings.universeWatchlistId } });
+    if (!watchlist) {
+      throw new Error(`Watchlist ${settings.universeWatchlistId} not found`);
+    }
+    return { source: "watchlist", name: watchlist.name, symbols: parseSymbolList(watchlist.symbols) };
+  }
+  if (settings.universeIndex) {
+    return {
+      source: "index",
+      name: settings.universeIndex,
+      symbols: await loadIndexConstituents(settings.universeIndex)
+    };
+  }
+  return null;
+}
+
+export function mapUniverseSettings(settings: UniverseSettings) {
+  return {
+    symbols: settings.universeSymbols ? parseSymbolList(settings.universeSymbols) : null,
+    watchlistId: settings.universeWatchlistId,
+    index: settings.universeIndex
+  };
+}
+
+/** One line naming the universe and its symbols, or saying that none is set. */
+export function describeUniverse(universe: Universe | null | undefined) {
+  if (!universe) {
+    return "none set; market data covers held symbols only.";
+  }
+  const label = universe.source === "symbols" ? universe.name : `${universe.source} "${universe.name}"`;
+  return `${label} with ${universe.symbols.length} symbols: ${universe.symbols.join(", ")}.`;
+}
+
+/**
+ * Rejects orders for symbols outside the universe. Selling down a long or buying back a short
+ * stays allowed, so positions held from before the universe was set can still be wound down.
+ */
+export function assertInUniverse(
+  universe: Universe | null | undefined,
+  order: { symbol: string; side: "BUY" | "SELL"; qty: number },
+  positionQty: number | null | undefined
+) {
+  if (!universe || universe.symbols.includes(order.symbol)) {
+    return;
+  }
+  const held = positionQty ?? 0;
+  const reduces = order.side === "SELL" ? held > 0 && order.qty <= held : held < 0 && order.qty <= -held;
+  if (!reduces) {
+    throw new Error(
+      `${order.symbol} is outside the investable universe (${universe.symbols.join(", ")}). ` +
+        `Trade only those symbols, or reduce or close positions held outside it.`
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import type { Application } from "express";
+import { z } from "zod";
+import { getPortfolioRecord, parsePortfolioIdStrict } from "./portfolioService";
+import { listValuations, rebuildValuations } from "./valuationService";
+import { loadBenchmarkIndex } from "./benchmarkService";
+import { benchmarkOverlay } from "./benchmark";
+import { mapValuation, rangeStart } from "./valuations";
+
+const equityCurveQuerySchema = z.object({
+  range: z.string().default("max"),
+  asOf: z.coerce.date().optional()
+});
+
+export function registerValuationRoutes(app: Application) {
+  app.get("/api/portfolios/:id/equity-curve", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      const portfolio = await getPortfolioRecord(portfolioId);
+      const { range, asOf } = equityCurveQuerySchema.parse(req.query);
+      const to = asOf ?? new Date();
+      const valuations = await listValuations(portfolioId, rangeStart(range, to), to);
+      const benchmark = valuations.length > 0 ? await loadBenchmarkIndex(portfolio, valuations[0].date) : null;
+      res.json({
+        baseCurrency: portfolio.baseCurrency,
+        points: valuations.map(mapValuation),
+        benchmark: benchmark && {
+          kind: benchmark.kind,
+          label: benchmark.label,
+          points: benchmarkOverlay(
+            benchmark.index,
+            valuations.map((valuation) => ({ date: valuation.date, nav: valuation.nav.toNumber() }))
+          ).map((point) => ({ date: point.date.toISOString().split("T")[0], value: point.value }))
+        }
+      });
+    } catch (error) {
+      console.error("Equity curve fetch failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to fetch equity curve" });
+    }
+  });
+
+  app.post("/api/portfolios/:id/equity-curve/rebuild", async (req, res) => {
+    try {
+      const portfolioId = parsePortfolioIdStrict(req.params.id);
+      await getPortfolioRecord(portfolioId);
+      res.json({ rebuilt: await rebuildValuations(portfolioId) });
+    } catch (error) {
+      console.error("Equity curve rebuild failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to rebuild equity curve" });
+    }
+  });
+}
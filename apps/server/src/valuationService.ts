@@ -0,0 +1,219 @@
+import { Prisma, prisma } from "@paper-trading/db";
+import type { Portfolio } from "@paper-trading/db";
+import type { BackgroundJob } from "./backgroundJobs";
+import { buildPortfolioSnapshot, getPortfolioRecord } from "./portfolioService";
+import { EXTERNAL_CASH_FLOW_TYPES, isExternalFlow, summarizeCashFlows } from "./cashLedger";
+import { getFxHistory } from "./fx";
+import { historyRangeFor, splitFactorAfter } from "./pointInTime";
+import { getHistory } from "./yahoo";
+import {
+  computeDailyValuations,
+  QuantityEvent,
+  SeriesPoint,
+  utcDay,
+  ValuationInput,
+  valuationDays
+} from "./valuations";
+
+const DEFAULT_VALUATION_INTERVAL_MS = 60 * 60_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Gathers what `computeDailyValuations` needs from the ledgers: active fills, splits and symbol
+ * changes as quantity changes, the cash ledger, and daily closes and FX rates from `getHistory`.
+ * Returns null for a portfolio without any activity.
+ */
+async function loadValuationInput(portfolio: Portfolio): Promise<{ input: ValuationInput; since: Date } | null> {
+  const portfolioId = portfolio.id;
+  const trades = await prisma.trade.findMany({
+    where: { portfolioId, reversedAt: null },
+    orderBy: [{ ts: "asc" }, { id: "asc" }]
+  });
+  const entries = await prisma.corporateActionEntry.findMany({
+    where: { portfolioId, type: { in: ["split", "symbol_change"] } },
+    include: { action: true },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }]
+  });
+  const cash = await prisma.cashTransaction.findMany({ where: { portfolioId }, orderBy: [{ ts: "asc" }, { id: "asc" }] });
+  const first = [trades[0]?.ts, cash[0]?.ts].filter((ts): ts is Date => Boolean(ts));
+  if (first.length === 0) {
+    return null;
+  }
+  const since = new Date(Math.min(...first.map((ts) => ts.getTime())));
+
+  const currencies = new Map(trades.map((trade) => [trade.symbol, trade.currency]));
+  const quantities: QuantityEvent[] = trades.map((trade) => ({
+    symbol: trade.symbol,
+    ts: trade.ts,
+    delta: (trade.side === "BUY" ? 1 : -1) * trade.qty.toNumber(),
+    price: trade.price.toNumber()
+  }));
+  for (const entry of entries) {
+    if (entry.type === "split") {
+      quantities.push({ symbol: entry.symbol, ts: entry.createdAt, delta: entry.qtyAfter.sub(entry.qtyBefore).toNumber() });
+    } else if (entry.action.newSymbol) {
+      quantities.push(
+        { symbol: entry.symbol, ts: entry.createdAt, delta: -entry.qtyBefore.toNumber() },
+        { symbol: entry.action.newSymbol, ts: entry.createdAt, delta: entry.qtyAfter.toNumber() }
+      );
+      currencies.set(entry.action.newSymbol, currencies.get(entry.symbol) ?? entry.currency);
+    }
+  }
+
+  const symbols = Array.from(new Set(quantities.map((event) => event.symbol)));
+  const splits = await prisma.corporateAction.findMany({ where: { type: "split", symbol: { in: symbols } } });
+  const closes = new Map<string, SeriesPoint[]>();
+  for (const symbol of symbols) {
+    const symbolSplits = splits
+      .filter((split) => split.symbol === symbol && split.ratio)
+      .map((split) => ({ exDate: split.exDate, ratio: split.ratio!.toNumber() }));
+    const candles = await getHistory(symbol, historyRangeFor(since), "1d").catch(() => []);
+    closes.set(
+      symbol,
+      candles
+        .filter((candle) => candle.close !== null)
+        .map((candle) => {
+          const date = new Date(candle.date);
+          return { date, value: candle.close! * splitFactorAfter(symbolSplits, date) };
+        })
+        .sort((a, b) => a.date.getTime() - b.date.getTime())
+    );
+  }
+
+  const fxRates = new Map<string, SeriesPoint[]>();
+  const foreign = new Set([...currencies.values(), ...cash.map((row) => row.currency)]);
+  foreign.delete(portfolio.baseCurrency);
+  for (const currency of foreign) {
+    fxRates.set(currency, await getFxHistory(currency, portfolio.baseCurrency, since));
+  }
+
+  return {
+    since,
+    input: {
+      baseCurrency: portfolio.baseCurrency,
+      quantities,
+      cash: cash.map((row) => ({
+        currency: row.currency,
+        amount: row.amount.toNumber(),
+        ts: row.ts,
+        externalFlow: isExternalFlow(row.type) ? row.amount.mul(row.fxRate).toNumber() : null
+      })),
+      currencies,
+      closes,
+      fxRates
+    }
+  };
+}
+
+/**
+ * Values past days of a portfolio from its trade and cash ledgers and stores them as `backfill`
+ * rows. Days run from `from` (default: the first ledger entry) to `to` (default: yesterday, since
+ * today is valued live). Days already valued are kept unless `replace` is set. Returns the number
+ * of rows written.
+ */
+export async function backfillValuations(
+  portfolioId: number,
+  options: { from?: Date; to?: Date; replace?: boolean } = {},
+  now = new Date()
+) {
+  const portfolio = await getPortfolioRecord(portfolioId);
+  const loaded = await loadValuationInput(portfolio);
+  if (!loaded) {
+    return 0;
+  }
+  const from = utcDay(options.from ?? loaded.since);
+  const to = utcDay(options.to ?? new Date(utcDay(now).getTime() - DAY_MS));
+  if (from > to) {
+    return 0;
+  }
+
+  const data = computeDailyValuations(loaded.input, valuationDays(from, to)).map((valuation) => ({
+    portfolioId,
+    date: valuation.date,
+    cash: new Prisma.Decimal(valuation.cash),
+    marketValue: new Prisma.Decimal(valuation.marketValue),
+    netFlow: new Prisma.Decimal(valuation.netFlow),
+    nav: new Prisma.Decimal(valuation.nav),
+    source: "backfill"
+  }));
+  if (!options.replace) {
+    const { count } = await prisma.portfolioValuation.createMany({ data, skipDuplicates: true });
+    return count;
+  }
+  return prisma.$transaction(async (tx) => {
+    await tx.portfolioValuation.deleteMany({ where: { portfolioId, date: { gte: from, lte: to } } });
+    const { count } = await tx.portfolioValuation.createMany({ data });
+    return count;
+  });
+}
+
+/** Values the portfolio now from the live snapshot and stores it as today's `job` row. */
+export async function recordValuation(portfolioId: number, now = new Date()) {
+  const snapshot = await buildPortfolioSnapshot(portfolioId);
+  const date = utcDay(now);
+  const flows = await prisma.cashTransaction.findMany({
+    where: { portfolioId, type: { in: EXTERNAL_CASH_FLOW_TYPES }, ts: { gte: date } },
+    select: { type: true, amount: true, fxRate: true }
+  });
+  const values = {
+    cash: new Prisma.Decimal(snapshot.totalCash),
+    marketValue: new Prisma.Decimal(snapshot.totalMarketValue),
+    netFlow: new Prisma.Decimal(summarizeCashFlows(flows).netExternalFlow),
+    nav: new Prisma.Decimal(snapshot.totalCash + snapshot.totalMarketValue),
+    source: "job"
+  };
+  return prisma.portfolioValuation.upsert({
+    where: { portfolioId_date: { portfolioId, date } },
+    update: values,
+    create: { portfolioId, date, ...values }
+  });
+}
+
+/** Rebuilds every past day from the ledgers, e.g. after trades were corrected, and revalues today. */
+export async function rebuildValuations(portfolioId: number, now = new Date()) {
+  const rebuilt = await backfillValuations(portfolioId, { replace: true }, now);
+  await recordValuation(portfolioId, now);
+  return rebuilt;
+}
+
+export async function listValuations(portfolioId: number, from: Date | null, to: Date) {
+  return prisma.portfolioValuation.findMany({
+    where: { portfolioId, date: { gte: from ?? undefined, lte: to } },
+    orderBy: { date: "asc" }
+  });
+}
+
+/**
+ * Keeps every portfolio's equity curve current: days missed since the last valuation (or the
+ * whole history, the first time) are backfilled from the ledgers, then today is valued live.
+ * Each run overwrites today's row, so the last run of a day leaves its closing value.
+ */
+export async function runValuations(now = new Date()) {
+  const portfolios = await prisma.portfolio.findMany({ select: { id: true } });
+  const yesterday = new Date(utcDay(now).getTime() - DAY_MS);
+
+  for (const { id } of portfolios) {
+    try {
+      const latest = await prisma.portfolioValuation.findFirst({ where: { portfolioId: id }, orderBy: { date: "desc" } });
+      if (!latest || latest.date < yesterday) {
+        await backfillValuations(
+          id,
+          { from: latest ? new Date(latest.date.getTime() + DAY_MS) : undefined, to: yesterday },
+          now
+        );
+      }
+      await recordValuation(id, now);
+    } catch (error) {
+      console.error(`Valuation failed for portfolio ${id}`, error);
+    }
+  }
+}
+
+export function createValuationJob(): BackgroundJob {
+  const interval = Number(process.env.VALUATION_INTERVAL_MS);
+  return {
+    name: "valuations",
+    intervalMs: Number.isFinite(interval) && interval > 0 ? interval : DEFAULT_VALUATION_INTERVAL_MS,
+    run: () => runValuations()
+  };
+}
@@ -0,0 +1,155 @@
+import type { PortfolioValuation } from "@paper-trading/db";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Days each equity curve range spans, counted back from its last day. */
+const RANGE_DAYS: Record<string, number> = {
+  "1mo": 31,
+  "3mo": 92,
+  "6mo": 183,
+  "1y": 366,
+  "2y": 731,
+  "5y": 1827
+};
+
+/** A value in a daily series, e.g. a close or an FX rate, valid from `date` on. */
+export interface SeriesPoint {
+  date: Date;
+  value: number;
+}
+
+/** A change to the shares held: a fill (with its price), a split or either side of a symbol change. */
+export interface QuantityEvent {
+  symbol: string;
+  ts: Date;
+  delta: number;
+  price?: number;
+}
+
+export interface ValuationCashRow {
+  currency: string;
+  amount: number;
+  ts: Date;
+  /** Amount in the base currency when the row is a deposit or withdrawal, null otherwise. */
+  externalFlow: number | null;
+}
+
+export interface ValuationInput {
+  baseCurrency: string;
+  quantities: QuantityEvent[];
+  cash: ValuationCashRow[];
+  /** Currency each symbol is quoted in. */
+  currencies: Map<string, string>;
+  /** Daily closes per symbol, as quoted on each day (not restated for later splits). */
+  closes: Map<string, SeriesPoint[]>;
+  /** Base currency units per unit of each quote or cash currency, per day. */
+  fxRates: Map<string, SeriesPoint[]>;
+}
+
+export interface DailyValuation {
+  date: Date;
+  cash: number;
+  marketValue: number;
+  netFlow: number;
+  nav: number;
+}
+
+/** Midnight UTC of the day `date` falls on; valuations are keyed by it. */
+export function utcDay(date: Date) {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/** Every UTC day from `from` to `to`, both included. */
+export function valuationDays(from: Date, to: Date) {
+  const days: Date[] = [];
+  for (let day = utcDay(from).getTime(); day <= utcDay(to).getTime(); day += DAY_MS) {
+    days.push(new Date(day));
+  }
+  return days;
+}
+
+/** First day of an equity curve `range` ending on `end`, or null for the whole history. */
+export function rangeStart(range: string, end: Date) {
+  const days = RANGE_DAYS[range.toLowerCase()];
+  return days === undefined ? null : new Date(utcDay(end).getTime() - days * DAY_MS);
+}
+
+/** Last value on or before `time` in a series sorted by date. */
+export function valueAt(series: SeriesPoint[] | undefined, time: number) {
+  let low = 0;
+  let high = (series?.length ?? 0) - 1;
+  let found: number | null = null;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (series![middle].date.getTime() <= time) {
+      found = series![middle].value;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * Values a portfolio at the end of each of `days` from its ledger: shares held follow the fills,
+ * splits and symbol changes up to that moment and are marked at the day's close (or the last fill
+ * price before the symbol's history starts); cash is the ledger's running balance per currency.
+ * Both are converted to the base currency at the day's FX rate, carried forward over days
+ * without a rate. `netFlow` is the deposits less withdrawals of the day.
+ */
+export function computeDailyValuations(input: ValuationInput, days: Date[]): DailyValuation[] {
+  const events = [...input.quantities].sort((a, b) => a.ts.getTime() - b.ts.getTime());
+  const cashRows = [...input.cash].sort((a, b) => a.ts.getTime() - b.ts.getTime());
+  const held = new Map<string, number>();
+  const lastFill = new Map<string, number>();
+  const balances = new Map<string, number>();
+  const rate = (currency: string, time: number) =>
+    currency === input.baseCurrency ? 1 : valueAt(input.fxRates.get(currency), time) ?? 1;
+
+  let nextEvent = 0;
+  let nextCash = 0;
+  return days.map((day) => {
+    const end = day.getTime() + DAY_MS - 1;
+    for (; nextEvent < events.length && events[nextEvent].ts.getTime() <= end; nextEvent += 1) {
+      const event = events[nextEvent];
+      held.set(event.symbol, (held.get(event.symbol) ?? 0) + event.delta);
+      if (event.price !== undefined) {
+        lastFill.set(event.symbol, event.price);
+      }
+    }
+    let netFlow = 0;
+    for (; nextCash < cashRows.length && cashRows[nextCash].ts.getTime() <= end; nextCash += 1) {
+      const row = cashRows[nextCash];
+      balances.set(row.currency, (balances.get(row.currency) ?? 0) + row.amount);
+      if (row.ts.getTime() >= day.getTime() && row.externalFlow !== null) {
+        netFlow += row.externalFlow;
+      }
+    }
+
+    let marketValue = 0;
+    for (const [symbol, qty] of held) {
+      if (Math.abs(qty) < 1e-9) {
+        continue;
+      }
+      const price = valueAt(input.closes.get(symbol), end) ?? lastFill.get(symbol) ?? 0;
+      marketValue += qty * price * rate(input.currencies.get(symbol) ?? input.baseCurrency, end);
+    }
+    let cash = 0;
+    for (const [currency, amount] of balances) {
+      cash += amount * rate(currency, end);
+    }
+    return { date: day, cash, marketValue, netFlow, nav: cash + marketValue };
+  });
+}
+
+export function mapValuation(valuation: PortfolioValuation) {
+  return {
+    date: valuation.date.toISOString().split("T")[0],
+    cash: valuation.cash.toNumber(),
+    marketValue: valuation.marketValue.toNumber(),
+    netFlow: valuation.netFlow.toNumber(),
+    nav: valuation.nav.toNumber(),
+    source: valuation.source
+  };
+}
@@ -0,0 +1,109 @@
+import type { Application } from "express";
+import { prisma } from "@paper-trading/db";
+import type { Watchlist } from "@paper-trading/db";
+import { z } from "zod";
+import { listIndexes, MAX_UNIVERSE_SYMBOLS, normalizeSymbols, parseSymbolList } from "./universe";
+
+const symbolsSchema = z.array(z.string().trim().min(1).max(32)).min(1).max(MAX_UNIVERSE_SYMBOLS);
+
+const watchlistInputSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  symbols: symbolsSchema
+});
+
+const watchlistUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(80).optional(),
+  symbols: symbolsSchema.optional()
+});
+
+function mapWatchlist(watchlist: Watchlist) {
+  return {
+    id: watchlist.id,
+    name: watchlist.name,
+    symbols: parseSymbolList(watchlist.symbols),
+    createdAt: watchlist.createdAt.toISOString(),
+    updatedAt: watchlist.updatedAt.toISOString()
+  };
+}
+
+export function registerWatchlistRoutes(app: Application) {
+  app.get("/api/watchlists", async (_req, res) => {
+    try {
+      const watchlists = await prisma.watchlist.findMany({ orderBy: { name: "asc" } });
+      res.json({ watchlists: watchlists.map(mapWatchlist) });
+    } catch (error) {
+      console.error("List watchlists failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to fetch watchlists" });
+    }
+  });
+
+  app.post("/api/watchlists", async (req, res) => {
+    try {
+      const body = watchlistInputSchema.parse(req.body ?? {});
+      const created = await prisma.watchlist.create({
+        data: { name: body.name, symbols: JSON.stringify(normalizeSymbols(body.symbols)) }
+      });
+      res.status(201).json({ watchlist: mapWatchlist(created) });
+    } catch (error) {
+      console.error("Create watchlist failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid watchlist payload" });
+    }
+  });
+
+  app.put("/api/watchlists/:id", async (req, res) => {
+    try {
+      const watchlistId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(watchlistId)) {
+        return res.status(400).json({ error: "Invalid watchlist id" });
+      }
+      const body = watchlistUpdateSchema.parse(req.body ?? {});
+
+      const watchlist = await prisma.watchlist.findUnique({ where: { id: watchlistId } });
+      if (!watchlist) {
+        return res.status(404).json({ error: "Watchlist not found" });
+      }
+
+      const updated = await prisma.watchlist.update({
+        where: { id: watchlistId },
+        data: {
+          name: body.name,
+          symbols: body.symbols ? JSON.stringify(normalizeSymbols(body.symbols)) : undefined
+        }
+      });
+      res.json({ watchlist: mapWatchlist(updated) });
+    } catch (error) {
+      console.error("Update watchlist failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Invalid watchlist update" });
+    }
+  });
+
+  // Portfolios and prompts using the watchlist as their universe fall back to none.
+  app.delete("/api/watchlists/:id", async (req, res) => {
+    try {
+      const watchlistId = Number.parseInt(req.params.id, 10);
+      if (!Number.isFinite(watchlistId)) {
+        return res.status(400).json({ error: "Invalid watchlist id" });
+      }
+
+      const watchlist = await prisma.watchlist.findUnique({ where: { id: watchlistId } });
+      if (!watchlist) {
+        return res.status(404).json({ error: "Watchlist not found" });
+      }
+
+      await prisma.watchlist.delete({ where: { id: watchlistId } });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Delete watchlist failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to delete watchlist" });
+    }
+  });
+
+  app.get("/api/universe/indexes", async (_req, res) => {
+    try {
+      res.json({ indexes: await listIndexes() });
+    } catch (error) {
+      console.error("List universe indexes failed", error);
+      res.status(400).json({ error: error instanceof Error ? error.message : "Unable to list indexes" });
+    }
+  });
+}
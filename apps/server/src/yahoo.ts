@@ -1,6 +1,6 @@
 import { LRUCache } from "lru-cache";
 import yahooFinance from "yahoo-finance2";
-import { HistoryCandle, QuoteResponse } from "./types";
+import { CorporateEvents, HistoryCandle, QuoteResponse, SymbolMatch } from "./types";
 
 interface FetchResponseLike {
   ok: boolean;
@@ -51,12 +51,24 @@ export async function getQuote(symbol: string): Promise<QuoteResponse> {
         typeof quote.regularMarketPreviousClose === "number"
           ? quote.regularMarketPreviousClose
           : null,
+      open: typeof quote.regularMarketOpen === "number" ? quote.regularMarketOpen : null,
+      bid: typeof quote.bid === "number" && quote.bid > 0 ? quote.bid : null,
+      ask: typeof quote.ask === "number" && quote.ask > 0 ? quote.ask : null,
+      bidSize: typeof quote.bidSize === "number" && quote.bidSize > 0 ? quote.bidSize : null,
+      askSize: typeof quote.askSize === "number" && quote.askSize > 0 ? quote.askSize : null,
+      averageVolume:
+        typeof quote.averageDailyVolume3Month === "number"
+          ? quote.averageDailyVolume3Month
+          : typeof quote.averageDailyVolume10Day === "number"
+            ? quote.averageDailyVolume10Day
+            : null,
       timestamp:
         typeof quote.regularMarketTime === "number"
           ? quote.regularMarketTime
           : quote.regularMarketTime instanceof Date
             ? quote.regularMarketTime.getTime()
-            : null
+            : null,
+      quoteType: typeof quote.quoteType === "string" ? quote.quoteType : undefined
     };
 
     quoteCache.set(normalized, payload);
@@ -187,6 +199,76 @@ export async function getHistory(symbol: string, range: string, interval: string
   }
 }
 
+type ChartEventsLike = {
+  events?: {
+    dividends?: Array<{ date?: Date | null; amount?: number | null }>;
+    splits?: Array<{ date?: Date | null; numerator?: number | null; denominator?: number | null }>;
+  };
+};
+
+export async function getCorporateEvents(symbol: string, since: Date): Promise<CorporateEvents> {
+  try {
+    const chart = (await yahooFinance.chart(
+      symbol,
+      {
+        period1: since,
+        interval: "1d",
+        events: "div|split"
+      } as unknown as Parameters<typeof yahooFinance.chart>[1]
+    )) as ChartEventsLike;
+
+    const dividends = (chart.events?.dividends ?? [])
+      .filter((event) => event.date instanceof Date && typeof event.amount === "number" && event.amount > 0)
+      .map((event) => ({ date: event.date as Date, amount: event.amount as number }));
+    const splits = (chart.events?.splits ?? [])
+      .filter(
+        (event) =>
+          event.date instanceof Date &&
+          typeof event.numerator === "number" &&
+          typeof event.denominator === "number" &&
+          event.numerator > 0 &&
+          event.denominator > 0
+      )
+      .map((event) => ({
+        date: event.date as Date,
+        numerator: event.numerator as number,
+        denominator: event.denominator as number
+      }));
+
+    return { dividends, splits };
+  } catch (error) {
+    console.error("Yahoo Finance corporate events failed", error);
+    throw error;
+  }
+}
+
+type SearchQuoteLike = {
+  symbol?: string | null;
+  shortname?: string | null;
+  longname?: string | null;
+  exchange?: string | null;
+  quoteType?: string | null;
+};
+
+/** Yahoo symbols matching a name or ticker, best matches first. */
+export async function searchSymbols(query: string, limit: number): Promise<SymbolMatch[]> {
+  try {
+    const result = await yahooFinance.search(query, { quotesCount: limit, newsCount: 0 });
+    return ((result.quotes ?? []) as SearchQuoteLike[])
+      .filter((quote): quote is SearchQuoteLike & { symbol: string } => typeof quote.symbol === "string")
+      .slice(0, limit)
+      .map((quote) => ({
+        symbol: quote.symbol,
+        name: quote.shortname ?? quote.longname ?? quote.symbol,
+        exchange: quote.exchange ?? null,
+        quoteType: quote.quoteType ?? null
+      }));
+  } catch (error) {
+    console.error("Yahoo Finance search failed", error);
+    throw error;
+  }
+}
+
 function sanitizePoint(value: number | null | undefined) {
   return typeof value === "number" && Number.isFinite(value) ? value : null;
 }
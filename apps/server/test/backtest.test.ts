@@ -0,0 +1,192 @@
+import { describe, expect, it } from "vitest";
+import {
+  backtestSchedule,
+  bookSnapshot,
+  candleClosesAt,
+  createBook,
+  placeOrders,
+  prepareBars,
+  quoteAt,
+  settleBook
+} from "../src/backtest";
+import { CostModel, ZERO_COST_MODEL } from "../src/costs";
+import { assembleExecutionContext, renderPrompts } from "../src/llmService";
+
+// Regular NYSE sessions open at 13:30Z in summer; 2025-07-03 closes early and 2025-07-04 is a holiday.
+const candle = (day: string, open: number, close: number) => ({
+  date: `${day}T13:30:00.000Z`,
+  open,
+  high: Math.max(open, close),
+  low: Math.min(open, close),
+  close,
+  volume: 1_000_000
+});
+
+const bars = new Map([
+  [
+    "AAPL",
+    prepareBars(
+      "AAPL",
+      [
+        candle("2025-06-27", 99, 100),
+        candle("2025-06-30", 100, 102),
+        candle("2025-07-01", 103, 104),
+        candle("2025-07-02", 104, 101),
+        candle("2025-07-03", 112, 113)
+      ],
+      []
+    )
+  ]
+]);
+const symbols = new Set(bars.keys());
+const at = (iso: string) => new Date(iso);
+
+describe("backtestSchedule", () => {
+  it("steps through the exchange calendar, skipping weekends and holidays", () => {
+    const steps = backtestSchedule(
+      { frequency: "daily", timeOfDay: "16:30", dayOfWeek: null, dayOfMonth: null, exchange: "XNYS" },
+      at("2025-06-30T00:00:00Z"),
+      at("2025-07-07T23:59:00Z")
+    );
+    expect(steps.map((step) => step.toISOString().slice(0, 10))).toEqual([
+      "2025-06-30",
+      "2025-07-01",
+      "2025-07-02",
+      "2025-07-03",
+      "2025-07-07"
+    ]);
+    expect(steps[0].toISOString()).toBe("2025-06-30T20:30:00.000Z");
+  });
+
+  it("refuses ranges with more steps than a run may take", () => {
+    const timing = { frequency: "daily", timeOfDay: "12:00", dayOfWeek: null, dayOfMonth: null };
+    expect(() => backtestSchedule(timing, at("2020-01-01T00:00:00Z"), at("2023-01-01T00:00:00Z"))).toThrow(/at most/);
+  });
+});
+
+describe("point-in-time market data", () => {
+  it("only shows candles whose session has ended", () => {
+    expect(candleClosesAt("AAPL", candle("2025-07-03", 1, 1)).toISOString()).toBe("2025-07-03T17:00:00.000Z");
+
+    const intraday = quoteAt("AAPL", bars.get("AAPL")!, at("2025-07-01T15:00:00Z"), "USD");
+    expect(intraday).toMatchObject({ price: 102, previousClose: 100, change: 2 });
+    expect(quoteAt("AAPL", bars.get("AAPL")!, at("2025-06-01T00:00:00Z"), "USD")).toBeNull();
+  });
+
+  it("converts candles into the base currency at each day's rate", () => {
+    const converted = prepareBars(
+      "SAP.DE",
+      [candle("2025-06-30", 200, 210), candle("2025-07-01", 210, 220)],
+      [
+        { date: at("2025-06-30T00:00:00Z"), value: 1.1 },
+        { date: at("2025-07-01T00:00:00Z"), value: 1.2 }
+      ]
+    );
+    expect(converted[0].close).toBeCloseTo(231);
+    expect(converted[1].close).toBeCloseTo(264);
+  });
+
+  it("renders the step's time as the current time in the prompt", () => {
+    const book = createBook(10_000, at("2025-07-01T20:30:00Z"));
+    const quotes = { AAPL: quoteAt("AAPL", bars.get("AAPL")!, book.settledThrough, "USD")! };
+    const context = assembleExecutionContext(
+      {
+        portfolio: bookSnapshot(book, { name: "Backtest", baseCurrency: "USD" }, quotes, book.settledThrough),
+        quotes,
+        histories: {},
+        recentTrades: []
+      },
+      {
+        asOf: book.settledThrough,
+        costModel: ZERO_COST_MODEL,
+        marginPolicyDescription: "disabled",
+        quantityRules: new Map()
+      }
+    );
+    const { userPrompt } = renderPrompts(null, context);
+    expect(userPrompt).toContain("Current UTC time: 2025-07-01T20:30:00.000Z");
+    expect(userPrompt).toContain("USD 10000.00");
+  });
+});
+
+describe("settleBook", () => {
+  const commission: CostModel = { ...ZERO_COST_MODEL, commissionFixed: 1 };
+
+  it("fills market orders at the next bar's open and charges costs", () => {
+    const book = createBook(10_000, at("2025-06-30T20:30:00Z"));
+    placeOrders(book, [{ symbol: "AAPL", side: "BUY", qty: 10, orderType: "market" }], book.settledThrough, symbols);
+
+    const fills = settleBook(book, bars, at("2025-07-01T20:30:00Z"), commission);
+    expect(fills).toMatchObject([{ symbol: "AAPL", side: "BUY", qty: 10, price: 103, fee: 1 }]);
+    expect(book.cash).toBe(10_000 - 1_031);
+    expect(book.positions.get("AAPL")?.avgPrice.toNumber()).toBe(103.1);
+
+    const snapshot = bookSnapshot(book, { name: "Backtest", baseCurrency: "USD" }, {}, book.settledThrough);
+    expect(snapshot.totalMarketValue).toBeCloseTo(1_031);
+  });
+
+  it("expires DAY orders the next bar does not fill and keeps GTC orders working", () => {
+    const book = createBook(10_000, at("2025-06-30T20:30:00Z"));
+    const [day, gtc] = placeOrders(
+      book,
+      [
+        { symbol: "AAPL", side: "BUY", qty: 1, orderType: "limit", limitPrice: 95, timeInForce: "DAY" },
+        { symbol: "AAPL", side: "BUY", qty: 1, orderType: "limit", limitPrice: 95 }
+      ],
+      book.settledThrough,
+      symbols
+    );
+    settleBook(book, bars, at("2025-07-03T20:30:00Z"), ZERO_COST_MODEL);
+    expect(day.status).toBe("expired");
+    expect(gtc.status).toBe("open");
+  });
+
+  it("rejects orders the simulated book cannot carry", () => {
+    const book = createBook(500, at("2025-06-30T20:30:00Z"));
+    const [buy, sell, unknown] = placeOrders(
+      book,
+      [
+        { symbol: "AAPL", side: "BUY", qty: 10, orderType: "market" },
+        { symbol: "AAPL", side: "SELL", qty: 1, orderType: "market" },
+        { symbol: "MSFT", side: "BUY", qty: 1, orderType: "market" }
+      ],
+      book.settledThrough,
+      symbols
+    );
+    expect(unknown).toMatchObject({ status: "rejected", reason: "MSFT is not one of the backtest's symbols" });
+
+    settleBook(book, bars, at("2025-07-01T20:30:00Z"), ZERO_COST_MODEL);
+    expect(buy.status).toBe("rejected");
+    expect(buy.reason).toMatch(/Insufficient cash/);
+    expect(sell).toMatchObject({ status: "rejected", reason: "Cannot sell a position that does not exist" });
+    expect(book.cash).toBe(500);
+  });
+
+  it("works bracket legs after the entry fills and cancels the other leg", () => {
+    const book = createBook(10_000, at("2025-06-30T20:30:00Z"));
+    placeOrders(
+      book,
+      [
+        {
+          symbol: "AAPL",
+          side: "BUY",
+          qty: 10,
+          orderType: "market",
+          bracket: { takeProfitPrice: 110, stopLossPrice: 95 }
+        }
+      ],
+      book.settledThrough,
+      symbols
+    );
+    const fills = settleBook(book, bars, at("2025-07-03T20:30:00Z"), ZERO_COST_MODEL);
+
+    expect(fills.map((fill) => [fill.side, fill.price])).toEqual([
+      ["BUY", 103],
+      ["SELL", 112]
+    ]);
+    expect(fills[1].realizedPnL).toBe(90);
+    expect(book.orders.map((order) => order.status)).toEqual(["filled", "filled", "cancelled"]);
+    expect(book.positions.size).toBe(0);
+    expect(book.cash).toBe(10_090);
+  });
+});
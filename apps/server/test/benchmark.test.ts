@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { benchmarkOverlay, indexFromCloses, indexFromValuations } from "../src/benchmark";
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+describe("indexFromValuations", () => {
+  it("chains daily returns so deposits do not count as gains", () => {
+    const index = indexFromValuations([
+      { date: day("2024-01-02"), nav: 2_000, netFlow: 1_000 },
+      { date: day("2024-01-01"), nav: 1_000, netFlow: 0 },
+      { date: day("2024-01-03"), nav: 2_200, netFlow: 0 }
+    ]);
+    expect(index.map((point) => point.value)).toEqual([1, 1, 1.1]);
+  });
+});
+
+describe("benchmarkOverlay", () => {
+  const index = indexFromCloses([
+    { date: "2024-01-03T14:30:00.000Z", open: 50, high: 50, low: 50, close: 50, volume: 1 },
+    { date: "2024-01-02T14:30:00.000Z", open: 40, high: 40, low: 40, close: 40, volume: 1 },
+    { date: "2024-01-04T14:30:00.000Z", open: null, high: null, low: null, close: null, volume: null }
+  ]);
+
+  it("starts at the portfolio's NAV on the first day the benchmark has a close", () => {
+    const overlay = benchmarkOverlay(index, [
+      { date: day("2024-01-01"), nav: 900 },
+      { date: day("2024-01-02"), nav: 1_000 },
+      { date: day("2024-01-03"), nav: 1_050 },
+      { date: day("2024-01-04"), nav: 1_100 }
+    ]);
+    expect(overlay.map((point) => [point.date.toISOString().split("T")[0], point.value])).toEqual([
+      ["2024-01-02", 1_000],
+      ["2024-01-03", 1_250],
+      ["2024-01-04", 1_250]
+    ]);
+  });
+
+  it("is empty when the benchmark has no history in the range", () => {
+    expect(benchmarkOverlay([], [{ date: day("2024-01-02"), nav: 1_000 }])).toEqual([]);
+  });
+});
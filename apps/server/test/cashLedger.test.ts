@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { Prisma } from "@paper-trading/db";
+import { isExternalFlow, signedCashAmount, summarizeCashFlows } from "../src/cashLedger";
+
+const d = (value: number) => new Prisma.Decimal(value);
+
+describe("signedCashAmount", () => {
+  it("signs manual transactions by type", () => {
+    expect(signedCashAmount("deposit", 500).toNumber()).toBe(500);
+    expect(signedCashAmount("interest", 2.5).toNumber()).toBe(2.5);
+    expect(signedCashAmount("withdrawal", 200).toNumber()).toBe(-200);
+    expect(signedCashAmount("fee", 10).toNumber()).toBe(-10);
+    expect(signedCashAmount("adjustment", -3).toNumber()).toBe(-3);
+  });
+
+  it("rejects zero and negative amounts outside adjustments", () => {
+    expect(() => signedCashAmount("deposit", 0)).toThrow("Cash transactions need a non-zero amount");
+    expect(() => signedCashAmount("withdrawal", -50)).toThrow("A withdrawal amount must be positive");
+  });
+});
+
+describe("summarizeCashFlows", () => {
+  it("separates external flows from the portfolio's own cash movements", () => {
+    const summary = summarizeCashFlows([
+      { type: "deposit", amount: d(100000), fxRate: d(1) },
+      { type: "trade", amount: d(-25000), fxRate: d(1) },
+      { type: "deposit", amount: d(1000), fxRate: d(1.1) },
+      { type: "withdrawal", amount: d(-5000), fxRate: d(1) },
+      { type: "dividend", amount: d(40), fxRate: d(1.25) },
+      { type: "fee", amount: d(-3), fxRate: d(1) }
+    ]);
+    expect(summary.deposits).toBeCloseTo(101100);
+    expect(summary.withdrawals).toBe(5000);
+    expect(summary.netExternalFlow).toBeCloseTo(96100);
+    expect(summary.internal).toEqual({ trade: -25000, dividend: 50, fee: -3 });
+  });
+
+  it("treats only deposits and withdrawals as external", () => {
+    expect(isExternalFlow("deposit")).toBe(true);
+    expect(isExternalFlow("withdrawal")).toBe(true);
+    expect(isExternalFlow("interest")).toBe(false);
+    expect(isExternalFlow("adjustment")).toBe(false);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { Prisma } from "@paper-trading/db";
+import {
+  computeDividend,
+  corporateActionsFromEvents,
+  qualifyingQuantity,
+  splitLot,
+  splitOrder,
+  splitPosition,
+  validateCorporateActionInput
+} from "../src/corporateActions";
+
+const d = (value: number) => new Prisma.Decimal(value);
+const exDate = new Date("2024-06-10T00:00:00Z");
+
+describe("validateCorporateActionInput", () => {
+  it("requires the fields each action type depends on", () => {
+    expect(() => validateCorporateActionInput({ symbol: "AAPL", type: "split", exDate, ratio: 1 })).toThrow(
+      "Split of AAPL needs a positive ratio other than 1"
+    );
+    expect(() => validateCorporateActionInput({ symbol: "AAPL", type: "dividend", exDate })).toThrow(
+      "Dividend on AAPL needs a positive amount per share"
+    );
+    expect(() =>
+      validateCorporateActionInput({ symbol: "FB", type: "symbol_change", exDate, newSymbol: "fb" })
+    ).toThrow("Symbol change of FB needs a different new symbol");
+    expect(() => validateCorporateActionInput({ symbol: "XYZ", type: "delisting", exDate })).not.toThrow();
+  });
+});
+
+describe("qualifyingQuantity", () => {
+  it("only counts lots opened before the ex-date", () => {
+    const lots = [
+      { qty: d(10), openedAt: new Date("2024-01-02T00:00:00Z") },
+      { qty: d(5), openedAt: exDate },
+      { qty: d(2), openedAt: new Date("2024-06-11T00:00:00Z") }
+    ];
+    expect(qualifyingQuantity(lots, exDate).toNumber()).toBe(10);
+  });
+});
+
+describe("splits", () => {
+  it("multiplies shares and divides the average price, keeping the cost basis", () => {
+    const result = splitPosition(d(10), d(400), d(10), d(4));
+    expect(result.qty.toNumber()).toBe(40);
+    expect(result.avgPrice.toNumber()).toBe(100);
+  });
+
+  it("only splits the shares held before the ex-date", () => {
+    // 10 shares at 400 before a 4:1 split, 10 more bought at the post-split price of 100.
+    const result = splitPosition(d(20), d(250), d(10), d(4));
+    expect(result.qty.toNumber()).toBe(50);
+    expect(result.qty.mul(result.avgPrice).toNumber()).toBe(5000);
+  });
+
+  it("handles reverse splits and short positions", () => {
+    const reverse = splitPosition(d(100), d(2), d(100), d(0.1));
+    expect(reverse.qty.toNumber()).toBe(10);
+    expect(reverse.avgPrice.toNumber()).toBe(20);
+
+    const short = splitPosition(d(-10), d(300), d(-10), d(3));
+    expect(short.qty.toNumber()).toBe(-30);
+    expect(short.avgPrice.toNumber()).toBe(100);
+  });
+
+  it("restates lots and resting orders in post-split terms", () => {
+    const lot = splitLot({ qty: d(6), originalQty: d(10), costPrice: d(90) }, d(3));
+    expect(lot.qty.toNumber()).toBe(18);
+    expect(lot.originalQty.toNumber()).toBe(30);
+    expect(lot.costPrice.toNumber()).toBe(30);
+
+    const order = splitOrder(
+      {
+        qty: d(10),
+        filledQty: d(4),
+        limitPrice: d(200),
+        stopPrice: null,
+        trailAmount: d(10),
+        trailAnchor: d(210),
+        avgFillPrice: d(198)
+      },
+      d(2)
+    );
+    expect(order.qty.toNumber()).toBe(20);
+    expect(order.filledQty.toNumber()).toBe(8);
+    expect(order.limitPrice?.toNumber()).toBe(100);
+    expect(order.stopPrice).toBeNull();
+    expect(order.trailAmount?.toNumber()).toBe(5);
+    expect(order.trailAnchor?.toNumber()).toBe(105);
+    expect(order.avgFillPrice?.toNumber()).toBe(99);
+  });
+});
+
+describe("computeDividend", () => {
+  it("withholds tax from long holders", () => {
+    const result = computeDividend(d(100), d(0.25), d(0.15));
+    expect(result.gross.toNumber()).toBe(25);
+    expect(result.withholding.toNumber()).toBe(3.75);
+    expect(result.net.toNumber()).toBe(21.25);
+  });
+
+  it("charges short sellers the full dividend", () => {
+    const result = computeDividend(d(-100), d(0.25), d(0.15));
+    expect(result.withholding.toNumber()).toBe(0);
+    expect(result.net.toNumber()).toBe(-25);
+  });
+});
+
+describe("corporateActionsFromEvents", () => {
+  it("maps chart events to split and dividend actions", () => {
+    const actions = corporateActionsFromEvents("NVDA", {
+      splits: [{ date: exDate, numerator: 10, denominator: 1 }],
+      dividends: [{ date: new Date("2024-06-11T00:00:00Z"), amount: 0.01 }]
+    });
+    expect(actions).toEqual([
+      { symbol: "NVDA", type: "split", exDate, ratio: 10, source: "yahoo" },
+      { symbol: "NVDA", type: "dividend", exDate: new Date("2024-06-11T00:00:00Z"), amount: 0.01, source: "yahoo" }
+    ]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { computeCommission, computeSlippage, computeTradeCosts, CostModel, ZERO_COST_MODEL } from "../src/costs";
+
+const model = (overrides: Partial<CostModel>): CostModel => ({ ...ZERO_COST_MODEL, ...overrides });
+
+describe("computeCommission", () => {
+  it("adds the fixed, notional and per-share components", () => {
+    const fee = computeCommission(model({ commissionFixed: 1, commissionBps: 5, commissionPerShare: 0.01 }), 100, 50);
+    // 1 + 5000 * 5bps + 100 * 0.01
+    expect(fee).toBeCloseTo(1 + 2.5 + 1);
+  });
+
+  it("clamps the fee between the minimum and maximum", () => {
+    const perShare = model({ commissionPerShare: 0.005, commissionMin: 1, commissionMax: 5 });
+    expect(computeCommission(perShare, 10, 100)).toBe(1);
+    expect(computeCommission(perShare, 100_000, 100)).toBe(5);
+  });
+
+  it("charges nothing with the default model", () => {
+    expect(computeTradeCosts(ZERO_COST_MODEL, { symbol: "AAPL", side: "BUY", qty: 10, price: 100 })).toEqual({
+      fee: 0,
+      slippage: 0
+    });
+  });
+});
+
+describe("computeSlippage", () => {
+  it("charges fixed basis points of notional", () => {
+    expect(computeSlippage(model({ slippageModel: "fixed", slippageBps: 10 }), 100, 20)).toBeCloseTo(2);
+  });
+
+  it("charges half the quoted spread per share", () => {
+    const spread = model({ slippageModel: "spread", slippageBps: 10 });
+    expect(computeSlippage(spread, 100, 20, { bid: 19.9, ask: 20.1 })).toBeCloseTo(10);
+  });
+
+  it("falls back to the fixed bps when the quote has no spread", () => {
+    const spread = model({ slippageModel: "spread", slippageBps: 10 });
+    expect(computeSlippage(spread, 100, 20, { bid: null, ask: 20.1 })).toBeCloseTo(2);
+  });
+
+  it("grows with the order's share of average volume", () => {
+    const volume = model({ slippageModel: "volume", slippageBps: 0, slippageImpact: 0.1 });
+    // 10% of ADV at 10% impact -> 1% of notional
+    expect(computeSlippage(volume, 1_000, 50, { averageVolume: 10_000 })).toBeCloseTo(500);
+  });
+});
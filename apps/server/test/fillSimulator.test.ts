@@ -0,0 +1,51 @@
+import { Prisma } from "@paper-trading/db";
+import { describe, expect, it } from "vitest";
+import { computeMarketImpact } from "../src/costs";
+import { averageDailyVolume, participationCap } from "../src/fillSimulator";
+import { DEFAULT_QUANTITY_RULES, exchangeQuantityRules, QuantityRules } from "../src/quantityRules";
+
+const simulation = { maxParticipation: 0.1, marketImpactBps: 50 };
+const candle = (volume: number | null) => ({ date: "2025-06-02", open: 1, high: 1, low: 1, close: 1, volume });
+
+function cap(remaining: number, filledToday: number, volume: number | null, rules: QuantityRules = DEFAULT_QUANTITY_RULES) {
+  const filled = new Prisma.Decimal(filledToday);
+  return participationCap(simulation, new Prisma.Decimal(remaining), filled, volume, rules).toNumber();
+}
+
+describe("averageDailyVolume", () => {
+  it("averages the most recent candles that report volume", () => {
+    expect(averageDailyVolume([candle(1_000), candle(null), candle(2_000), candle(4_000)], 2)).toBe(3_000);
+    expect(averageDailyVolume([candle(null), candle(0)])).toBeNull();
+  });
+});
+
+describe("participationCap", () => {
+  it("caps a fill at the day's share of average volume", () => {
+    expect(cap(5_000_000, 0, 200_000)).toBe(20_000);
+    expect(cap(500, 0, 200_000)).toBe(500);
+  });
+
+  it("counts earlier fills of the same day against the budget", () => {
+    expect(cap(50_000, 15_000, 200_000)).toBe(5_000);
+    expect(cap(50_000, 20_000, 200_000)).toBe(0);
+  });
+
+  it("rounds slices down to the instrument's quantity step", () => {
+    expect(cap(10_000, 0, 12_345, exchangeQuantityRules("7203.T"))).toBe(1_200);
+    expect(cap(10, 0, 12.345678, exchangeQuantityRules("AAPL"))).toBe(1.2345);
+  });
+
+  it("fills in full when volume is unknown", () => {
+    expect(cap(5_000_000, 0, null)).toBe(5_000_000);
+  });
+});
+
+describe("computeMarketImpact", () => {
+  it("grows with the square root of participation", () => {
+    // 10,000 shares at 20 with 50bps at full ADV: 200,000 * 0.005 * sqrt(0.01)
+    expect(computeMarketImpact(50, 10_000, 20, 1_000_000)).toBeCloseTo(100);
+    expect(computeMarketImpact(50, 40_000, 20, 1_000_000)).toBeCloseTo(800);
+    expect(computeMarketImpact(50, 10_000, 20, null)).toBe(0);
+    expect(computeMarketImpact(0, 10_000, 20, 1_000_000)).toBe(0);
+  });
+});
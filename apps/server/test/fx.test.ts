@@ -0,0 +1,147 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { costModelInCurrency, ZERO_COST_MODEL } from "../src/costs";
+import { getFxRate, normalizeCurrency, quoteCurrency, resolveSettlement } from "../src/fx";
+import { computeMarginState } from "../src/margin";
+import { computeCurrencyExposure, computePortfolioTotals } from "../src/portfolio";
+import type { PortfolioPositionDto } from "../src/types";
+import { getQuote } from "../src/yahoo";
+
+vi.mock("../src/yahoo", () => ({ getQuote: vi.fn() }));
+
+const quotes: Record<string, number> = { "EURUSD=X": 1.1, "GBPUSD=X": 1.25 };
+
+beforeEach(() => {
+  vi.mocked(getQuote).mockImplementation(async (symbol: string) => {
+    if (!(symbol in quotes)) {
+      throw new Error(`No quote for ${symbol}`);
+    }
+    return { symbol, price: quotes[symbol] };
+  });
+});
+
+describe("normalizeCurrency", () => {
+  it("maps minor units to their major currency", () => {
+    expect(normalizeCurrency("GBp")).toEqual({ currency: "GBP", factor: 0.01 });
+    expect(normalizeCurrency("eur")).toEqual({ currency: "EUR", factor: 1 });
+    expect(normalizeCurrency(undefined)).toBeNull();
+  });
+});
+
+describe("getFxRate", () => {
+  it("reads the direct pair and falls back to the inverse", async () => {
+    await expect(getFxRate("EUR", "USD")).resolves.toBeCloseTo(1.1);
+    await expect(getFxRate("USD", "EUR")).resolves.toBeCloseTo(1 / 1.1);
+    await expect(getFxRate("USD", "USD")).resolves.toBe(1);
+  });
+
+  it("scales prices quoted in pence", async () => {
+    await expect(getFxRate("GBp", "USD")).resolves.toBeCloseTo(0.0125);
+    await expect(getFxRate("GBp", "GBP")).resolves.toBeCloseTo(0.01);
+  });
+
+  it("fails when neither side of the pair is quoted", async () => {
+    await expect(getFxRate("JPY", "USD")).rejects.toThrow("No FX rate available for JPY/USD");
+  });
+});
+
+describe("resolveSettlement", () => {
+  it("settles in the base currency when conversion is automatic", async () => {
+    const settlement = await resolveSettlement({ baseCurrency: "USD", fxAutoConvert: true }, "EUR");
+
+    expect(settlement.currency).toBe("USD");
+    expect(settlement.rate).toBeCloseTo(1.1);
+    expect(settlement.baseRate).toBeCloseTo(1.1);
+  });
+
+  it("settles in the instrument currency otherwise", async () => {
+    const settlement = await resolveSettlement({ baseCurrency: "USD", fxAutoConvert: false }, "GBp");
+
+    expect(settlement.currency).toBe("GBP");
+    expect(settlement.rate).toBeCloseTo(0.01);
+    expect(settlement.baseRate).toBeCloseTo(0.0125);
+  });
+});
+
+describe("quoteCurrency", () => {
+  it("reads the quote's currency and refuses to guess when there is none", async () => {
+    vi.mocked(getQuote).mockImplementation(async (symbol: string) => {
+      if (symbol === "SAP.DE") {
+        return { symbol, price: 120, currency: "EUR" };
+      }
+      if (symbol === "ODD") {
+        return { symbol, price: 1 };
+      }
+      throw new Error(`No quote for ${symbol}`);
+    });
+
+    expect(await quoteCurrency("SAP.DE")).toBe("EUR");
+    await expect(quoteCurrency("ODD")).rejects.toThrow("Unable to determine the currency of ODD");
+    await expect(quoteCurrency("VOD.L")).rejects.toThrow("Unable to determine the currency of VOD.L: No quote for VOD.L");
+  });
+});
+
+describe("currency conversion of totals", () => {
+  const positions: PortfolioPositionDto[] = [
+    position({ symbol: "AAPL", currency: "USD", fxRate: 1, qty: 10, avgPrice: 90, marketPrice: 100 }),
+    position({ symbol: "AIR.PA", currency: "EUR", fxRate: 1.1, qty: 10, avgPrice: 100, marketPrice: 120 }),
+    position({ symbol: "VOD.L", currency: "GBp", fxRate: 0.0125, qty: 100, avgPrice: 70, marketPrice: 80 })
+  ];
+
+  it("reports position totals in the base currency", () => {
+    const totals = computePortfolioTotals(positions);
+
+    expect(totals.totalMarketValue).toBeCloseTo(1_000 + 1_320 + 100);
+    expect(totals.totalCostBasis).toBeCloseTo(900 + 1_100 + 87.5);
+  });
+
+  it("breaks cash and market value down per currency", () => {
+    const exposure = computeCurrencyExposure(
+      [
+        { currency: "USD", amount: 500, fxRate: 1, baseAmount: 500 },
+        { currency: "EUR", amount: 200, fxRate: 1.1, baseAmount: 220 }
+      ],
+      positions
+    );
+
+    expect(exposure.map((entry) => entry.currency)).toEqual(["USD", "EUR", "GBP"]);
+    expect(exposure[1]).toMatchObject({ cash: 200, marketValue: 1_200 });
+    expect(exposure[1].baseValue).toBeCloseTo(1_540);
+    expect(exposure[2].marketValue).toBeCloseTo(80);
+    expect(exposure[2].fxRate).toBeCloseTo(1.25);
+  });
+
+  it("values foreign positions in the base currency for margin", () => {
+    const state = computeMarginState(
+      1_000,
+      [{ symbol: "AIR.PA", qty: -10, price: 100, fxRate: 1.1 }],
+      { allowShort: true, borrowFeeRate: 0, initialMarginRate: 0.5, maintenanceMarginRate: 0.3 }
+    );
+
+    expect(state.shortMarketValue).toBeCloseTo(1_100);
+    expect(state.equity).toBeCloseTo(-100);
+  });
+
+  it("restates flat commissions in the instrument currency", () => {
+    const model = costModelInCurrency({ ...ZERO_COST_MODEL, commissionFixed: 11, commissionBps: 5 }, 1.1);
+
+    expect(model.commissionFixed).toBeCloseTo(10);
+    expect(model.commissionBps).toBe(5);
+  });
+});
+
+function position(values: {
+  symbol: string;
+  currency: string;
+  fxRate: number;
+  qty: number;
+  avgPrice: number;
+  marketPrice: number;
+}): PortfolioPositionDto {
+  const marketValue = values.qty * values.marketPrice;
+  return {
+    ...values,
+    marketValue,
+    unrealizedPnL: marketValue - values.qty * values.avgPrice,
+    dailyPnL: null
+  };
+}
@@ -0,0 +1,63 @@
+import { vi } from "vitest";
+import { Prisma } from "@paper-trading/db";
+import { bookSnapshot, createBook } from "../src/backtest";
+
+// Shared by the tests that run the LLM pipeline: the database, portfolio service, market data and
+// order placement are mocked. Import this file before the mocked modules and the modules under test.
+vi.mock("@paper-trading/db", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@paper-trading/db")>()),
+  prisma: {
+    trade: { findMany: vi.fn().mockResolvedValue([]) },
+    instrumentRule: { findMany: vi.fn().mockResolvedValue([]) },
+    watchlist: { count: vi.fn(), findUnique: vi.fn() }
+  }
+}));
+vi.mock("../src/portfolioService", () => ({
+  buildPortfolioSnapshot: vi.fn(),
+  getPortfolioRecord: vi.fn()
+}));
+vi.mock("../src/yahoo", () => ({ getQuote: vi.fn(), getHistory: vi.fn(), searchSymbols: vi.fn() }));
+vi.mock("../src/orderService", () => ({ submitOrders: vi.fn() }));
+
+export const asOf = new Date("2025-07-01T20:30:00Z");
+export const quotes = {
+  AAPL: { symbol: "AAPL", price: 100, currency: "USD" },
+  MSFT: { symbol: "MSFT", price: 50, currency: "USD" }
+};
+
+/** A USD portfolio with 10,000 in cash and `holdings` bought at 100, valued at `marketQuotes`. */
+export function snapshot(holdings: Record<string, number> = { AAPL: 10 }, marketQuotes: typeof quotes = quotes) {
+  const book = createBook(10_000, asOf);
+  for (const [symbol, qty] of Object.entries(holdings)) {
+    book.positions.set(symbol, { qty: new Prisma.Decimal(qty), avgPrice: new Prisma.Decimal(100) });
+  }
+  return bookSnapshot(book, { name: "Fixture", baseCurrency: "USD" }, marketQuotes, asOf);
+}
+
+/** The stored portfolio behind `snapshot`: no trading costs and no short selling. */
+export const portfolioRecord = {
+  id: 1,
+  baseCurrency: "USD",
+  fxAutoConvert: true,
+  commissionFixed: new Prisma.Decimal(0),
+  commissionBps: new Prisma.Decimal(0),
+  commissionPerShare: new Prisma.Decimal(0),
+  commissionMin: null,
+  commissionMax: null,
+  slippageModel: "none",
+  slippageBps: new Prisma.Decimal(0),
+  slippageImpact: new Prisma.Decimal(0),
+  allowShort: false,
+  borrowFeeRate: new Prisma.Decimal(0),
+  initialMarginRate: new Prisma.Decimal(0.5),
+  maintenanceMarginRate: new Prisma.Decimal(0.3)
+};
+
+export const provider = (type: string, model = "model", apiKey: string | null = null) => ({
+  id: 1,
+  name: "Provider",
+  type,
+  apiBase: "https://llm.example.com",
+  apiKey,
+  model
+});
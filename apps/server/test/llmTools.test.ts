@@ -0,0 +1,349 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { asOf, portfolioRecord, provider, quotes, snapshot } from "./llmFixtures";
+import { callProvider, ChatMessage, ProviderCaller, runLlmPlan } from "../src/llmService";
+import { LLM_TOOLS, ToolCall, ToolCallRecord } from "../src/llmTools";
+import {
+  createCassette,
+  parseCassette,
+  recordProviderCalls,
+  recordToolCalls,
+  replayProviderCalls,
+  replayToolCalls,
+  serializeCassette
+} from "../src/providerCassette";
+import { buildPortfolioSnapshot, getPortfolioRecord } from "../src/portfolioService";
+import { getHistory, getQuote } from "../src/yahoo";
+
+const candles = ["2025-06-27", "2025-06-30", "2025-07-01"].map((date, index) => ({
+  date: `${date}T00:00:00.000Z`,
+  open: 99 + index,
+  high: 101 + index,
+  low: 98 + index,
+  close: 100 + index,
+  volume: 1_000
+}));
+
+const planJson = JSON.stringify({
+  version: "1.0",
+  generatedAt: asOf.toISOString(),
+  arbitrages: [{ symbol: "AAPL", action: "BUY", quantity: 5, orderType: "market", timeInForce: "DAY" }]
+});
+
+/** Asks for one round of `rounds` per call and answers with the plan once they are used up. */
+function scriptedAgent(rounds: ToolCall[][]): ProviderCaller {
+  let call = 0;
+  return async () => {
+    const toolCalls = rounds[call++];
+    return toolCalls
+      ? { content: "", rawResponse: "{}", toolCalls, usage: { inputTokens: 100, outputTokens: 10 } }
+      : { content: planJson, rawResponse: "{}" };
+  };
+}
+
+const researchRounds: ToolCall[][] = [
+  [
+    { id: "call_1", name: "get_quote", arguments: { symbol: "msft" } },
+    { id: "call_2", name: "get_history", arguments: { symbol: "AAPL", limit: 2 } }
+  ],
+  [
+    { id: "call_3", name: "place_order_draft", arguments: { symbol: "AAPL", action: "BUY", quantity: 5 } },
+    { id: "call_4", name: "get_news", arguments: {} }
+  ]
+];
+
+describe("agent mode", () => {
+  beforeEach(() => {
+    vi.mocked(getPortfolioRecord).mockResolvedValue(portfolioRecord as never);
+    vi.mocked(buildPortfolioSnapshot).mockImplementation(async () => snapshot());
+    vi.mocked(getQuote)
+      .mockReset()
+      .mockImplementation(async (symbol: string) => quotes[symbol as keyof typeof quotes]);
+    vi.mocked(getHistory).mockResolvedValue(candles);
+  });
+
+  it("runs the tools the model asks for and keeps each call before validating the plan", async () => {
+    const seen: ToolCallRecord[] = [];
+    const offered: string[][] = [];
+    const agent = scriptedAgent(researchRounds);
+    const result = await runLlmPlan({
+      portfolioId: 1,
+      prompt: null,
+      provider: provider("openai-compatible"),
+      dryRun: true,
+      agent: {},
+      callProvider: async (called, request, context) => {
+        offered.push((request.tools ?? []).map((tool) => tool.name));
+        return agent(called, request, context);
+      },
+      onToolCall: (record) => seen.push(record)
+    });
+
+    expect(result.systemPrompt).toContain("You can call tools");
+    expect(offered[0]).toEqual([
+      "get_quote",
+      "get_history",
+      "search_symbol",
+      "get_portfolio",
+      "get_trades",
+      "place_order_draft"
+    ]);
+    expect(result.toolCalls).toMatchObject([
+      { step: 1, name: "get_quote", result: { symbol: "MSFT", price: 50 }, error: null },
+      { step: 1, name: "get_history", result: candles.slice(-2), error: null },
+      {
+        step: 2,
+        name: "place_order_draft",
+        result: { placed: false, settlement: { currency: "USD", amount: 500, availableCash: 10_000, fitsCash: true } }
+      },
+      { step: 2, name: "get_news", result: null, error: expect.stringContaining('Unknown tool "get_news"') }
+    ]);
+    expect(seen).toEqual(result.toolCalls);
+    expect(result.messages.filter((message) => message.role === "tool").map((message) => message.toolCallId)).toEqual([
+      "call_1",
+      "call_2",
+      "call_3",
+      "call_4"
+    ]);
+    expect(result.trades).toMatchObject([{ symbol: "AAPL", side: "BUY", qty: 5 }]);
+  });
+
+  it("switches tools off once the steps or the token budget are used up", async () => {
+    const run = async (agent: { maxSteps?: number; tokenBudget?: number }) => {
+      const choices: Array<string | undefined> = [];
+      const greedy: ProviderCaller = async (_provider, request) => {
+        choices.push(request.tool_choice);
+        return request.tool_choice === "none"
+          ? { content: planJson, rawResponse: "{}" }
+          : {
+              content: "",
+              rawResponse: "{}",
+              toolCalls: [{ id: `call_${choices.length}`, name: "get_portfolio", arguments: {} }],
+              usage: { inputTokens: 4_000, outputTokens: 1_000 }
+            };
+      };
+      const result = await runLlmPlan({
+        portfolioId: 1,
+        prompt: null,
+        provider: provider("anthropic"),
+        dryRun: true,
+        agent,
+        callProvider: greedy
+      });
+      return { choices, result };
+    };
+
+    const bySteps = await run({ maxSteps: 2 });
+    expect(bySteps.choices).toEqual(["auto", "auto", "none"]);
+    expect(bySteps.result.toolCalls.map((call) => call.step)).toEqual([1, 2]);
+    expect(bySteps.result.messages.at(-2)).toMatchObject({
+      role: "user",
+      content: expect.stringContaining("tool budget")
+    });
+
+    const byTokens = await run({ tokenBudget: 5_000 });
+    expect(byTokens.choices).toEqual(["auto", "none"]);
+    expect(byTokens.result.plan.arbitrages).toHaveLength(1);
+  });
+
+  it("replays an agent run from its cassette without running the tools", async () => {
+    const cassette = createCassette();
+    const original = await runLlmPlan({
+      portfolioId: 1,
+      prompt: null,
+      provider: provider("openai-compatible"),
+      dryRun: true,
+      agent: {},
+      callProvider: recordProviderCalls(cassette, scriptedAgent(researchRounds)),
+      runTool: recordToolCalls(cassette)
+    });
+    expect(cassette.toolCalls.map((call) => call.name)).toEqual([
+      "get_quote",
+      "get_history",
+      "place_order_draft",
+      "get_news"
+    ]);
+
+    const stored = parseCassette(serializeCassette(cassette));
+    vi.mocked(getQuote).mockClear();
+    const replayed = await runLlmPlan({
+      portfolioId: 1,
+      prompt: null,
+      provider: provider("openai-compatible"),
+      dryRun: true,
+      agent: {},
+      callProvider: replayProviderCalls(stored),
+      runTool: replayToolCalls(stored),
+      replay: { context: stored.context!, systemPrompt: original.systemPrompt, userPrompt: original.userPrompt }
+    });
+
+    expect(getQuote).not.toHaveBeenCalled();
+    expect(replayed.toolCalls).toEqual(JSON.parse(JSON.stringify(original.toolCalls)));
+    expect(replayed.plan).toEqual(original.plan);
+  });
+
+  it("drafts orders with brackets and the quantity rules the final plan is checked against", async () => {
+    const draft = LLM_TOOLS.find((tool) => tool.name === "place_order_draft")!;
+    expect(draft.parameters).toMatchObject({ properties: { bracket: { properties: { takeProfitPrice: {} } } } });
+
+    const order = { symbol: "AAPL", action: "BUY", orderType: "limit", limitPrice: 100 };
+    const result = await runLlmPlan({
+      portfolioId: 1,
+      prompt: null,
+      provider: provider("openai-compatible"),
+      dryRun: true,
+      agent: {},
+      callProvider: scriptedAgent([
+        [
+          { id: "call_1", name: "place_order_draft", arguments: { ...order, quantity: 1.23456 } },
+          {
+            id: "call_2",
+            name: "place_order_draft",
+            arguments: { ...order, quantity: 2, bracket: { takeProfitPrice: 120, stopLossPrice: 90 } }
+          }
+        ]
+      ])
+    });
+
+    expect(result.toolCalls).toMatchObject([
+      { error: "Quantity for AAPL allows at most 4 decimal places" },
+      { error: null, result: { placed: false, order: { bracket: { takeProfitPrice: 120, stopLossPrice: 90 } } } }
+    ]);
+  });
+});
+
+describe("native tool formats", () => {
+  const conversation: ChatMessage[] = [
+    { role: "system", content: "system" },
+    { role: "user", content: "plan" },
+    {
+      role: "assistant",
+      content: "",
+      toolCalls: [
+        { id: "call_1", name: "get_quote", arguments: { symbol: "AAPL" } },
+        { id: "call_2", name: "get_trades", arguments: {} }
+      ]
+    },
+    { role: "tool", content: '{"price":100}', toolCallId: "call_1", toolName: "get_quote" },
+    { role: "tool", content: "[]", toolCallId: "call_2", toolName: "get_trades" }
+  ];
+  const tools = [{ name: "get_quote", description: "Quote", parameters: { type: "object", properties: {} } }];
+
+  function stubFetch(body: unknown) {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => body,
+      text: async () => JSON.stringify(body)
+    });
+    vi.stubGlobal("fetch", fetchMock);
+    return () => JSON.parse(fetchMock.mock.calls[0][1].body);
+  }
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it("uses function tools and tool messages for OpenAI-compatible providers", async () => {
+    const sentBody = stubFetch({
+      choices: [
+        {
+          message: {
+            role: "assistant",
+            content: null,
+            tool_calls: [
+              { id: "call_3", type: "function", function: { name: "get_quote", arguments: '{"symbol":"MSFT"}' } }
+            ]
+          }
+        }
+      ],
+      usage: { prompt_tokens: 120, completion_tokens: 8 }
+    });
+
+    const result = await callProvider(provider("openai-compatible"), { model: "gpt", messages: conversation, tools });
+
+    const body = sentBody();
+    expect(body.tools).toEqual([{ type: "function", function: tools[0] }]);
+    expect(body.tool_choice).toBe("auto");
+    expect(body.messages[2]).toEqual({
+      role: "assistant",
+      content: null,
+      tool_calls: [
+        { id: "call_1", type: "function", function: { name: "get_quote", arguments: '{"symbol":"AAPL"}' } },
+        { id: "call_2", type: "function", function: { name: "get_trades", arguments: "{}" } }
+      ]
+    });
+    expect(body.messages[3]).toEqual({ role: "tool", tool_call_id: "call_1", content: '{"price":100}' });
+    expect(result).toMatchObject({
+      content: "",
+      toolCalls: [{ id: "call_3", name: "get_quote", arguments: { symbol: "MSFT" } }],
+      usage: { inputTokens: 120, outputTokens: 8 }
+    });
+  });
+
+  it("uses tool_use and merged tool_result blocks for Anthropic", async () => {
+    const sentBody = stubFetch({
+      content: [{ type: "tool_use", id: "toolu_3", name: "get_quote", input: { symbol: "MSFT" } }],
+      usage: { input_tokens: 90, output_tokens: 12 }
+    });
+
+    const result = await callProvider(provider("anthropic"), {
+      model: "claude",
+      messages: conversation,
+      tools,
+      tool_choice: "none"
+    });
+
+    const body = sentBody();
+    expect(body.tools).toEqual([{ name: "get_quote", description: "Quote", input_schema: tools[0].parameters }]);
+    expect(body.tool_choice).toEqual({ type: "none" });
+    expect(body.messages).toEqual([
+      { role: "user", content: [{ type: "text", text: "plan" }] },
+      {
+        role: "assistant",
+        content: [
+          { type: "tool_use", id: "call_1", name: "get_quote", input: { symbol: "AAPL" } },
+          { type: "tool_use", id: "call_2", name: "get_trades", input: {} }
+        ]
+      },
+      {
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "call_1", content: '{"price":100}' },
+          { type: "tool_result", tool_use_id: "call_2", content: "[]" }
+        ]
+      }
+    ]);
+    expect(result.toolCalls).toEqual([{ id: "toolu_3", name: "get_quote", arguments: { symbol: "MSFT" } }]);
+  });
+
+  it("uses function declarations and responses for Gemini, numbering its calls", async () => {
+    const sentBody = stubFetch({
+      candidates: [{ content: { parts: [{ functionCall: { name: "get_quote", args: { symbol: "MSFT" } } }] } }],
+      usageMetadata: { promptTokenCount: 70, candidatesTokenCount: 5 }
+    });
+
+    const result = await callProvider(provider("google-gemini"), { model: "gemini", messages: conversation, tools });
+
+    const body = sentBody();
+    expect(body.tools).toEqual([{ functionDeclarations: tools }]);
+    expect(body.toolConfig).toEqual({ functionCallingConfig: { mode: "AUTO" } });
+    expect(body.contents.slice(1)).toEqual([
+      {
+        role: "model",
+        parts: [
+          { functionCall: { name: "get_quote", args: { symbol: "AAPL" } } },
+          { functionCall: { name: "get_trades", args: {} } }
+        ]
+      },
+      {
+        role: "user",
+        parts: [
+          { functionResponse: { name: "get_quote", response: { result: { price: 100 } } } },
+          { functionResponse: { name: "get_trades", response: { result: [] } } }
+        ]
+      }
+    ]);
+    expect(result).toMatchObject({
+      toolCalls: [{ id: "call_3", name: "get_quote", arguments: { symbol: "MSFT" } }],
+      usage: { inputTokens: 70, outputTokens: 5 }
+    });
+  });
+});
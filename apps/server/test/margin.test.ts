@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertInitialMargin,
+  computeBorrowFee,
+  computeMarginState,
+  MarginPolicy,
+  nextLiquidationStep
+} from "../src/margin";
+
+const policy: MarginPolicy = {
+  allowShort: true,
+  borrowFeeRate: 0.05,
+  initialMarginRate: 0.5,
+  maintenanceMarginRate: 0.3
+};
+
+describe("computeMarginState", () => {
+  it("nets short proceeds against the liability to buy back", () => {
+    const state = computeMarginState(15_000, [{ symbol: "TSLA", qty: -50, price: 200 }], policy);
+
+    expect(state.equity).toBeCloseTo(5_000);
+    expect(state.grossExposure).toBeCloseTo(10_000);
+    expect(state.availableMargin).toBeCloseTo(0);
+    expect(state.marginCall).toBe(false);
+  });
+
+  it("flags a margin call once equity drops below maintenance", () => {
+    const state = computeMarginState(15_000, [{ symbol: "TSLA", qty: -50, price: 260 }], policy);
+
+    // equity 2,000 against a maintenance requirement of 3,900
+    expect(state.marginCall).toBe(true);
+  });
+});
+
+describe("assertInitialMargin", () => {
+  it("blocks a short that would exceed the initial requirement", () => {
+    expect(() =>
+      assertInitialMargin(10_000, [], { symbol: "TSLA", side: "SELL", qty: 101, price: 200 }, policy)
+    ).toThrow("Insufficient margin");
+  });
+
+  it("allows a short within the initial requirement", () => {
+    expect(() =>
+      assertInitialMargin(10_000, [], { symbol: "TSLA", side: "SELL", qty: 100, price: 200 }, policy)
+    ).not.toThrow();
+  });
+
+  it("always allows trades that reduce exposure", () => {
+    const positions = [{ symbol: "TSLA", qty: -50, price: 290 }];
+    expect(() =>
+      assertInitialMargin(15_000, positions, { symbol: "TSLA", side: "BUY", qty: 10, price: 290 }, policy)
+    ).not.toThrow();
+  });
+});
+
+describe("computeBorrowFee", () => {
+  it("accrues the annual rate per day on the short market value", () => {
+    expect(computeBorrowFee(36_500, 0.05, 2)).toBeCloseTo(10);
+    expect(computeBorrowFee(36_500, 0, 2)).toBe(0);
+  });
+});
+
+describe("nextLiquidationStep", () => {
+  it("covers the largest short that cash can buy back", () => {
+    const step = nextLiquidationStep(20_000, [
+      { symbol: "AAPL", qty: 10, price: 100 },
+      { symbol: "TSLA", qty: -50, price: 250 },
+      { symbol: "NFLX", qty: -10, price: 500 }
+    ]);
+    expect(step).toEqual({ symbol: "TSLA", side: "BUY", qty: 50 });
+  });
+
+  it("sells longs to raise cash when no short can be covered", () => {
+    const step = nextLiquidationStep(1_000, [
+      { symbol: "AAPL", qty: 10, price: 100 },
+      { symbol: "TSLA", qty: -50, price: 250 }
+    ]);
+    expect(step).toEqual({ symbol: "AAPL", side: "SELL", qty: 10 });
+  });
+
+  it("partially covers a short when only cash is left", () => {
+    const step = nextLiquidationStep(1_000, [{ symbol: "TSLA", qty: -50, price: 250 }]);
+    expect(step).toEqual({ symbol: "TSLA", side: "BUY", qty: 4 });
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { exchangeForSymbol, isMarketOpen, marketStatus, tradingWindows, zonedTime } from "../src/marketCalendar";
+
+describe("exchangeForSymbol", () => {
+  it("resolves venues from the Yahoo suffix", () => {
+    expect(exchangeForSymbol("AAPL")?.mic).toBe("XNYS");
+    expect(exchangeForSymbol("VOD.L")?.mic).toBe("XLON");
+    expect(exchangeForSymbol("AIR.PA")?.mic).toBe("XPAR");
+    expect(exchangeForSymbol("0700.HK")?.mic).toBe("XHKG");
+  });
+
+  it("leaves round-the-clock and unknown instruments unrestricted", () => {
+    expect(exchangeForSymbol("BTC-USD")).toBeNull();
+    expect(exchangeForSymbol("EURUSD=X")).toBeNull();
+    expect(exchangeForSymbol("^GSPC")).toBeNull();
+    expect(exchangeForSymbol("7203.T")).toBeNull();
+    expect(isMarketOpen("BTC-USD", new Date("2025-03-08T12:00:00Z"))).toBe(true);
+  });
+});
+
+describe("zonedTime", () => {
+  it("converts exchange wall-clock times across DST", () => {
+    expect(zonedTime(2025, 0, 15, "09:30", "America/New_York").toISOString()).toBe("2025-01-15T14:30:00.000Z");
+    expect(zonedTime(2025, 6, 15, "09:30", "America/New_York").toISOString()).toBe("2025-07-15T13:30:00.000Z");
+    expect(zonedTime(2025, 6, 15, "08:00", "Europe/London").toISOString()).toBe("2025-07-15T07:00:00.000Z");
+  });
+});
+
+describe("marketStatus", () => {
+  const nyse = exchangeForSymbol("AAPL")!;
+
+  it("is closed at the weekend and reopens on Monday", () => {
+    const status = marketStatus(nyse, new Date("2025-03-08T15:00:00Z"));
+    expect(status.isOpen).toBe(false);
+    expect(status.nextOpen?.toISOString()).toBe("2025-03-10T13:30:00.000Z");
+  });
+
+  it("skips bundled holidays", () => {
+    // Good Friday 2025; the Thursday before closes normally.
+    expect(tradingWindows(nyse, "2025-04-18")).toEqual([]);
+    const status = marketStatus(nyse, new Date("2025-04-17T21:00:00Z"));
+    expect(status.nextOpen?.toISOString()).toBe("2025-04-21T13:30:00.000Z");
+  });
+
+  it("ends half days early", () => {
+    const status = marketStatus(nyse, new Date("2025-11-28T16:00:00Z"));
+    expect(status).toMatchObject({ isOpen: true, earlyClose: true });
+    expect(status.nextClose?.toISOString()).toBe("2025-11-28T18:00:00.000Z");
+    expect(marketStatus(nyse, new Date("2025-11-28T19:00:00Z")).isOpen).toBe(false);
+  });
+
+  it("pauses over the lunch break", () => {
+    const hkex = exchangeForSymbol("0700.HK")!;
+    const status = marketStatus(hkex, new Date("2025-03-10T04:30:00Z"));
+    expect(status.isOpen).toBe(false);
+    expect(status.nextOpen?.toISOString()).toBe("2025-03-10T05:00:00.000Z");
+    expect(marketStatus(hkex, new Date("2025-03-10T06:00:00Z")).isOpen).toBe(true);
+  });
+});
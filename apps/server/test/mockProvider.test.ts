@@ -0,0 +1,162 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { asOf, portfolioRecord, provider, quotes, snapshot } from "./llmFixtures";
+import { ZERO_COST_MODEL } from "../src/costs";
+import { assembleExecutionContext, callProvider, ProviderCaller, runLlmPlan } from "../src/llmService";
+import { registerMockRule, resetMockProviders, scriptedRule } from "../src/mockProvider";
+import { submitOrders } from "../src/orderService";
+import { buildPortfolioSnapshot, getPortfolioRecord } from "../src/portfolioService";
+import { getHistory, getQuote } from "../src/yahoo";
+
+// 10 AAPL at 100 and 10,000 in cash: 11,000 in all.
+function context() {
+  return assembleExecutionContext(
+    { portfolio: snapshot(), quotes, histories: {}, recentTrades: [] },
+    { asOf, costModel: ZERO_COST_MODEL, marginPolicyDescription: "disabled", quantityRules: new Map() }
+  );
+}
+
+const ask = (model: string, assistantReplies = 0) =>
+  callProvider(
+    provider("mock", model),
+    {
+      model,
+      messages: Array.from({ length: assistantReplies }, () => ({ role: "assistant" as const, content: "" }))
+    },
+    context()
+  ).then((result) => result.content);
+
+describe("mock provider", () => {
+  beforeEach(() => resetMockProviders());
+
+  it("rebalances to equal weights with whole shares, keeping a cash reserve", async () => {
+    const plan = JSON.parse(await ask("equal-weight"));
+    expect(plan.generatedAt).toBe(asOf.toISOString());
+    expect(plan.arbitrages).toMatchObject([
+      { symbol: "AAPL", action: "BUY", quantity: 43 },
+      { symbol: "MSFT", action: "BUY", quantity: 107 }
+    ]);
+  });
+
+  it("walks the same way for the same seed and moment", async () => {
+    const first = await ask("random-walk?seed=7");
+    expect(await ask("random-walk?seed=7")).toBe(first);
+    expect(await ask("random-walk?seed=8")).not.toBe(first);
+  });
+
+  it("replays scripted plans in order", async () => {
+    const plan = (symbol: string) => ({
+      version: "1.0" as const,
+      generatedAt: asOf.toISOString(),
+      arbitrages: [
+        { symbol, action: "BUY" as const, quantity: 1, orderType: "market" as const, timeInForce: "DAY" as const }
+      ]
+    });
+    registerMockRule("demo-script", scriptedRule([plan("AAPL"), plan("MSFT")], "demo-script"));
+
+    const symbols = [];
+    for (let call = 0; call < 3; call++) {
+      symbols.push(JSON.parse(await ask("demo-script")).arbitrages[0].symbol);
+    }
+    expect(symbols).toEqual(["AAPL", "MSFT", "AAPL"]);
+  });
+
+  it("reads scripted plans only from named fixtures in the fixture directory", async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), "mock-fixtures-"));
+    process.env.MOCK_FIXTURE_DIR = directory;
+    try {
+      const plan = {
+        version: "1.0",
+        generatedAt: asOf.toISOString(),
+        arbitrages: [{ symbol: "MSFT", action: "BUY", quantity: 2 }]
+      };
+      await writeFile(path.join(directory, "buy-msft.json"), JSON.stringify([plan]));
+      await writeFile(path.join(directory, "broken.json"), "SECRET=hunter2");
+
+      expect(JSON.parse(await ask("scripted?fixture=buy-msft")).arbitrages[0]).toMatchObject({ symbol: "MSFT" });
+      await expect(ask("scripted?fixture=../../etc/passwd")).rejects.toThrow(/Invalid mock fixture name/);
+      await expect(ask("scripted?fixture=missing")).rejects.toThrow(/not found/);
+      const broken = ask("scripted?fixture=broken");
+      await expect(broken).rejects.toThrow('Mock fixture "broken" is not valid JSON');
+      await expect(broken).rejects.not.toThrow(/hunter2/);
+    } finally {
+      delete process.env.MOCK_FIXTURE_DIR;
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("injects the listed failures on the first attempts only", async () => {
+    const model = "hold?fail=invalid-json,schema";
+    const invalid = await ask(model, 0);
+    expect(() => JSON.parse(invalid)).toThrow();
+    expect(JSON.parse(await ask(model, 1)).arbitrages[0]).toMatchObject({ action: "HOLD" });
+    expect(JSON.parse(await ask(model, 2)).arbitrages).toEqual([]);
+    await expect(ask("nonsense")).rejects.toThrow(/Unknown mock rule/);
+  });
+});
+
+describe("runLlmPlan with a mock provider", () => {
+  beforeEach(() => {
+    vi.mocked(getPortfolioRecord).mockResolvedValue(portfolioRecord as never);
+    vi.mocked(buildPortfolioSnapshot).mockImplementation(async () => snapshot());
+    vi.mocked(getQuote).mockImplementation(async (symbol: string) => quotes[symbol as keyof typeof quotes]);
+    vi.mocked(getHistory).mockResolvedValue([]);
+    vi.mocked(submitOrders).mockReset().mockResolvedValue([]);
+  });
+
+  it("retries past injected failures and submits the plan's orders", async () => {
+    const result = await runLlmPlan({
+      portfolioId: 1,
+      prompt: null,
+      provider: provider("mock", "equal-weight?fail=invalid-json,over-budget")
+    });
+
+    expect(result.executed).toBe(true);
+    const retries = result.messages.filter((message) => message.role === "user").slice(1);
+    expect(retries.map((message) => message.content)).toEqual([
+      expect.stringContaining("The prior response failed"),
+      expect.stringContaining("Previous plan could not be executed: Buy order for AAPL needs")
+    ]);
+    expect(submitOrders).toHaveBeenCalledTimes(1);
+    // Live runs only quote held symbols, so AAPL takes the whole 98%.
+    expect(vi.mocked(submitOrders).mock.calls[0][0]).toMatchObject([
+      { symbol: "AAPL", side: "BUY", qty: 97, orderType: "market" }
+    ]);
+  });
+
+  it("gives up after the last attempt fails", async () => {
+    await expect(
+      runLlmPlan({ portfolioId: 1, prompt: null, provider: provider("mock", "hold?fail=schema,schema,schema"), dryRun: true })
+    ).rejects.toThrow(/schema validation/);
+    expect(submitOrders).not.toHaveBeenCalled();
+  });
+
+  it("needs a live quote for trailing stops but lets limit orders rest without one", async () => {
+    // NVDA is listed but has no price yet, e.g. while it is halted.
+    vi.mocked(getQuote).mockImplementation(async (symbol: string) =>
+      symbol === "NVDA" ? { symbol, price: null, currency: "USD" } : quotes[symbol as keyof typeof quotes]
+    );
+    const plans = [
+      [{ symbol: "NVDA", action: "SELL", quantity: 1, orderType: "trailing_stop", trailPercent: 5 }],
+      [{ symbol: "NVDA", action: "BUY", quantity: 1, orderType: "limit", limitPrice: 90 }]
+    ];
+    let call = 0;
+    const answer: ProviderCaller = async () => {
+      const content = JSON.stringify({ version: "1.0", generatedAt: asOf.toISOString(), arbitrages: plans[call++] });
+      return { content, rawResponse: "{}" };
+    };
+
+    const result = await runLlmPlan({
+      portfolioId: 1,
+      prompt: null,
+      provider: provider("mock", "hold"),
+      dryRun: true,
+      callProvider: answer
+    });
+
+    expect(result.messages[3]).toMatchObject({ role: "user", content: expect.stringContaining("No live quote for NVDA") });
+    expect(result.trades).toMatchObject([{ symbol: "NVDA", orderType: "limit", price: 90, marketPrice: null }]);
+  });
+});
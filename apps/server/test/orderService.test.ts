@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Prisma, prisma } from "@paper-trading/db";
+import { submitOrders } from "../src/orderService";
+import type { MarketHoursPolicy } from "../src/marketCalendar";
+import { getQuote } from "../src/yahoo";
+
+vi.mock("@paper-trading/db", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@paper-trading/db")>()),
+  prisma: {
+    portfolio: { findMany: vi.fn().mockResolvedValue([]), findUnique: vi.fn() },
+    position: { findFirst: vi.fn() },
+    order: { findMany: vi.fn() },
+    $transaction: vi.fn()
+  }
+}));
+vi.mock("../src/yahoo", () => ({ getQuote: vi.fn() }));
+
+// A Saturday: NYSE is closed and next opens on Monday 2025-07-07 at 13:30 UTC.
+const saturday = new Date("2025-07-05T15:00:00Z");
+const nextOpen = "2025-07-07T13:30:00.000Z";
+// A Tuesday when Xetra and Euronext are open.
+const tuesday = new Date("2025-07-01T12:00:00Z");
+
+const quotes: Record<string, { price: number; currency: string }> = {
+  AAPL: { price: 100, currency: "USD" },
+  "SAP.DE": { price: 200, currency: "EUR" },
+  "ASML.AS": { price: 600, currency: "EUR" },
+  "EURUSD=X": { price: 1.1, currency: "USD" }
+};
+
+type StoredOrder = Record<string, unknown> & { id: number };
+
+/**
+ * An in-memory portfolio behind both `prisma` and the transaction client. Quotes fail while the
+ * transaction is open, so a lookup that strays into it shows up as a failed submission.
+ */
+function fakeDatabase(policy: MarketHoursPolicy, resting: Array<Partial<StoredOrder>> = []) {
+  const portfolio = {
+    id: 1,
+    marketHoursPolicy: policy,
+    baseCurrency: "USD",
+    fxAutoConvert: true,
+    allowShort: false,
+    cashBalance: new Prisma.Decimal(10_000),
+    commissionFixed: new Prisma.Decimal(0),
+    commissionBps: new Prisma.Decimal(0),
+    commissionPerShare: new Prisma.Decimal(0),
+    commissionMin: null,
+    commissionMax: null,
+    slippageModel: "none",
+    slippageBps: new Prisma.Decimal(0),
+    slippageImpact: new Prisma.Decimal(0)
+  };
+  const orders: StoredOrder[] = resting.map((order, index) => ({
+    id: index + 1,
+    portfolioId: 1,
+    side: "BUY",
+    status: "open",
+    filledQty: new Prisma.Decimal(0),
+    ...order
+  }));
+  let inTransaction = false;
+
+  const tx = {
+    portfolio: { findUnique: async () => portfolio },
+    position: { findFirst: async () => null },
+    instrumentRule: { findUnique: async () => null },
+    cashBalance: { findMany: async () => [] },
+    orderEvent: { create: async () => ({}), createMany: async () => ({ count: 0 }) },
+    order: {
+      create: async ({ data }: { data: Record<string, unknown> }) => {
+        const order = { ...data, id: orders.length + 1, filledQty: new Prisma.Decimal(0) };
+        orders.push(order);
+        return order;
+      },
+      findMany: async () => orders.filter((order) => order.status === "open"),
+      updateMany: async ({ where, data }: { where: { id?: number }; data: Record<string, unknown> }) => {
+        const matches = orders.filter((order) => order.id === where.id);
+        matches.forEach((order) => Object.assign(order, data));
+        return { count: matches.length };
+      },
+      findUniqueOrThrow: async ({ where }: { where: { id: number } }) => orders.find((order) => order.id === where.id)
+    }
+  };
+  vi.mocked(prisma.portfolio.findUnique).mockResolvedValue(portfolio as never);
+  vi.mocked(prisma.position.findFirst).mockResolvedValue(null);
+  vi.mocked(prisma.order.findMany).mockImplementation((async () =>
+    Array.from(new Set(orders.map((order) => order.symbol))).map((symbol) => ({ symbol }))) as never);
+  vi.mocked(prisma.$transaction).mockImplementation((async (run: (client: typeof tx) => unknown) => {
+    inTransaction = true;
+    try {
+      return await run(tx);
+    } finally {
+      inTransaction = false;
+    }
+  }) as never);
+  vi.mocked(getQuote).mockImplementation(async (symbol: string) => {
+    if (inTransaction) {
+      throw new Error(`Quoted ${symbol} inside the transaction`);
+    }
+    return { symbol, ...quotes[symbol] };
+  });
+  return orders;
+}
+
+const submit = (timeInForce: "IOC" | "FOK") =>
+  submitOrders([{ symbol: "AAPL", side: "BUY", qty: 10, orderType: "market", timeInForce }], 1, {
+    source: "manual",
+    marketPrices: { AAPL: 100 }
+  });
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("immediate orders while the market is closed", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(saturday);
+  });
+
+  it.each(["IOC", "FOK"] as const)("refuses %s orders under the reject policy", async (timeInForce) => {
+    const orders = fakeDatabase("reject");
+    await expect(submit(timeInForce)).rejects.toThrow(/is closed for AAPL; it next opens at 2025-07-07T13:30/);
+    expect(orders).toEqual([]);
+  });
+
+  it.each(["queue", "next_open"] as const)("closes IOC and FOK orders at once under the %s policy", async (policy) => {
+    fakeDatabase(policy);
+    const [ioc] = await submit("IOC");
+    expect(ioc).toMatchObject({
+      status: "cancelled",
+      statusReason: `IOC: unfilled quantity cancelled, market closed until ${nextOpen}`,
+      activeFrom: null,
+      fillAtOpen: false
+    });
+
+    fakeDatabase(policy);
+    const [fok] = await submit("FOK");
+    expect(fok).toMatchObject({ status: "rejected", statusReason: `FOK: market closed until ${nextOpen}` });
+  });
+});
+
+describe("order submission", () => {
+  it("looks up currencies and FX rates before its transaction opens", async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(tuesday);
+    // A resting EUR order reserves 5 x 500 x 1.1 = 2,750 USD of the 10,000.
+    fakeDatabase("queue", [
+      { symbol: "ASML.AS", orderType: "limit", qty: new Prisma.Decimal(5), limitPrice: new Prisma.Decimal(500) }
+    ]);
+
+    const [order] = await submitOrders(
+      [{ symbol: "SAP.DE", side: "BUY", qty: 30, orderType: "limit", limitPrice: 150 }],
+      1,
+      { source: "manual", marketPrices: { "SAP.DE": 200 } }
+    );
+    expect(order).toMatchObject({ symbol: "SAP.DE", status: "open" });
+
+    await expect(
+      submitOrders([{ symbol: "SAP.DE", side: "BUY", qty: 50, orderType: "limit", limitPrice: 150 }], 1, {
+        source: "manual",
+        marketPrices: { "SAP.DE": 200 }
+      })
+    ).rejects.toThrow("Insufficient cash balance for this order once open orders are reserved");
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, expect, it } from "vitest";
+import {
+  availableLiquidity,
+  buildBracketLegs,
+  evaluateOrder,
+  evaluateOrderFill,
+  immediateFillQuantity,
+  validateOrderInput
+} from "../src/orders";
+import { sessionCloseForSymbol } from "../src/marketCalendar";
+
+describe("evaluateOrderFill", () => {
+  it("fills market orders at the market price", () => {
+    expect(evaluateOrderFill({ side: "BUY", orderType: "market" }, 101.5)).toBe(101.5);
+    expect(evaluateOrderFill({ side: "SELL", orderType: "market" }, 99)).toBe(99);
+  });
+
+  it("keeps a BUY limit resting until the market trades at or below the limit", () => {
+    expect(evaluateOrderFill({ side: "BUY", orderType: "limit", limitPrice: 100 }, 100.01)).toBeNull();
+    expect(evaluateOrderFill({ side: "BUY", orderType: "limit", limitPrice: 100 }, 100)).toBe(100);
+  });
+
+  it("gives a marketable BUY limit the better market price instead of its limit", () => {
+    expect(evaluateOrderFill({ side: "BUY", orderType: "limit", limitPrice: 120 }, 95)).toBe(95);
+  });
+
+  it("keeps a SELL limit resting until the market trades at or above the limit", () => {
+    expect(evaluateOrderFill({ side: "SELL", orderType: "limit", limitPrice: 50 }, 49.99)).toBeNull();
+    expect(evaluateOrderFill({ side: "SELL", orderType: "limit", limitPrice: 50 }, 52)).toBe(52);
+  });
+
+  it("never fills without a usable market price", () => {
+    expect(evaluateOrderFill({ side: "BUY", orderType: "market" }, null)).toBeNull();
+    expect(evaluateOrderFill({ side: "SELL", orderType: "limit", limitPrice: 10 }, Number.NaN)).toBeNull();
+  });
+});
+
+describe("evaluateOrder with stops", () => {
+  it("triggers a SELL stop once the market trades at or below the stop and fills at market", () => {
+    const order = { side: "SELL" as const, orderType: "stop" as const, stopPrice: 90 };
+    expect(evaluateOrder(order, 91)).toMatchObject({ fillPrice: null, triggered: false });
+    expect(evaluateOrder(order, 88.5)).toMatchObject({ fillPrice: 88.5, triggered: true });
+  });
+
+  it("keeps a triggered stop-limit resting until the limit is reachable", () => {
+    const order = { side: "SELL" as const, orderType: "stop_limit" as const, stopPrice: 90, limitPrice: 89 };
+    expect(evaluateOrder(order, 88)).toMatchObject({ fillPrice: null, triggered: true });
+    expect(evaluateOrder({ ...order, triggered: true }, 89.5)).toMatchObject({ fillPrice: 89.5, triggered: true });
+  });
+
+  it("ratchets a SELL trailing stop up with the market and never loosens it", () => {
+    const order = { side: "SELL" as const, orderType: "trailing_stop" as const, trailPercent: 10 };
+    const first = evaluateOrder(order, 100);
+    expect(first).toMatchObject({ fillPrice: null, trailAnchor: 100 });
+
+    const higher = evaluateOrder({ ...order, trailAnchor: first.trailAnchor }, 120);
+    expect(higher).toMatchObject({ fillPrice: null, trailAnchor: 120 });
+
+    const dip = evaluateOrder({ ...order, trailAnchor: higher.trailAnchor }, 109);
+    expect(dip).toMatchObject({ fillPrice: null, trailAnchor: 120 });
+
+    expect(evaluateOrder({ ...order, trailAnchor: 120 }, 108)).toMatchObject({ fillPrice: 108, triggered: true });
+  });
+
+  it("triggers a BUY trailing stop an absolute distance above the low-water mark", () => {
+    const order = { side: "BUY" as const, orderType: "trailing_stop" as const, trailAmount: 5, trailAnchor: 50 };
+    expect(evaluateOrder(order, 45)).toMatchObject({ fillPrice: null, trailAnchor: 45 });
+    expect(evaluateOrder({ ...order, trailAnchor: 45 }, 50)).toMatchObject({ fillPrice: 50, triggered: true });
+  });
+});
+
+describe("buildBracketLegs", () => {
+  it("creates a take-profit limit and a stop-loss for the full entry quantity", () => {
+    const legs = buildBracketLegs({
+      symbol: "MSFT",
+      side: "BUY",
+      qty: 10,
+      orderType: "market",
+      bracket: { takeProfitPrice: 450, stopLossPrice: 380 }
+    });
+    expect(legs).toEqual([
+      { symbol: "MSFT", side: "SELL", qty: 10, orderType: "limit", limitPrice: 450 },
+      { symbol: "MSFT", side: "SELL", qty: 10, orderType: "stop", stopPrice: 380 }
+    ]);
+  });
+
+  it("uses a trailing stop leg when the bracket trails", () => {
+    const legs = buildBracketLegs({
+      symbol: "MSFT",
+      side: "BUY",
+      qty: 3,
+      orderType: "limit",
+      limitPrice: 400,
+      bracket: { trailPercent: 8 }
+    });
+    expect(legs).toEqual([
+      { symbol: "MSFT", side: "SELL", qty: 3, orderType: "trailing_stop", trailAmount: undefined, trailPercent: 8 }
+    ]);
+  });
+
+  it("creates BUY exits for a short entry", () => {
+    const legs = buildBracketLegs({
+      symbol: "TSLA",
+      side: "SELL",
+      qty: 5,
+      orderType: "market",
+      bracket: { takeProfitPrice: 180, stopLossPrice: 240 }
+    });
+    expect(legs).toEqual([
+      { symbol: "TSLA", side: "BUY", qty: 5, orderType: "limit", limitPrice: 180 },
+      { symbol: "TSLA", side: "BUY", qty: 5, orderType: "stop", stopPrice: 240 }
+    ]);
+  });
+});
+
+describe("validateOrderInput", () => {
+  it("rejects limit orders without a limit price", () => {
+    expect(() => validateOrderInput({ symbol: "AAPL", side: "BUY", qty: 1, orderType: "limit" })).toThrow(
+      "Order for AAPL is limit but has no limitPrice"
+    );
+  });
+
+  it("rejects non-positive quantities", () => {
+    expect(() => validateOrderInput({ symbol: "AAPL", side: "SELL", qty: 0, orderType: "market" })).toThrow(
+      "Invalid quantity for AAPL"
+    );
+  });
+
+  it("requires exactly one trailing distance", () => {
+    expect(() =>
+      validateOrderInput({ symbol: "AAPL", side: "SELL", qty: 1, orderType: "trailing_stop", trailAmount: 2, trailPercent: 5 })
+    ).toThrow("needs exactly one of trailAmount or trailPercent");
+  });
+
+  it("rejects brackets whose take-profit is below the stop-loss", () => {
+    expect(() =>
+      validateOrderInput({
+        symbol: "AAPL",
+        side: "BUY",
+        qty: 1,
+        orderType: "market",
+        bracket: { takeProfitPrice: 90, stopLossPrice: 95 }
+      })
+    ).toThrow("needs takeProfitPrice above stopLossPrice");
+  });
+
+  it("rejects short brackets whose take-profit is above the stop-loss", () => {
+    expect(() =>
+      validateOrderInput({
+        symbol: "TSLA",
+        side: "SELL",
+        qty: 1,
+        orderType: "market",
+        bracket: { takeProfitPrice: 250, stopLossPrice: 240 }
+      })
+    ).toThrow("needs takeProfitPrice below stopLossPrice");
+  });
+});
+
+describe("time in force", () => {
+  it("requires an expiry for GTD orders and only for them", () => {
+    expect(() => validateOrderInput({ symbol: "AAPL", side: "BUY", qty: 1, orderType: "market", timeInForce: "GTD" })).toThrow(
+      "Order for AAPL is GTD but has no expiresAt"
+    );
+    expect(() =>
+      validateOrderInput({
+        symbol: "AAPL",
+        side: "BUY",
+        qty: 1,
+        orderType: "market",
+        timeInForce: "DAY",
+        expiresAt: new Date("2025-06-02T20:00:00Z")
+      })
+    ).toThrow("has expiresAt but is DAY; use GTD");
+  });
+
+  it("limits IOC and FOK to market and limit orders", () => {
+    expect(() =>
+      validateOrderInput({ symbol: "AAPL", side: "SELL", qty: 1, orderType: "stop", stopPrice: 90, timeInForce: "IOC" })
+    ).toThrow("IOC orders for AAPL must be market or limit orders");
+    expect(() =>
+      validateOrderInput({ symbol: "AAPL", side: "BUY", qty: 1, orderType: "limit", limitPrice: 100, timeInForce: "FOK" })
+    ).not.toThrow();
+  });
+
+  it("fills IOC orders partially and FOK orders all or nothing", () => {
+    expect(availableLiquidity("BUY", { bidSize: 500, askSize: 300 })).toBe(300);
+    expect(availableLiquidity("SELL", { askSize: 300 })).toBeNull();
+    expect(immediateFillQuantity("IOC", 500, 300)).toBe(300);
+    expect(immediateFillQuantity("FOK", 500, 300)).toBe(0);
+    expect(immediateFillQuantity("FOK", 500, null)).toBe(500);
+  });
+
+  it("expires DAY orders at the session close of the instrument's exchange", () => {
+    // Mid-session in New York and after the close on the eve of a half day.
+    expect(sessionCloseForSymbol("AAPL", new Date("2025-06-02T15:00:00Z"))?.toISOString()).toBe("2025-06-02T20:00:00.000Z");
+    expect(sessionCloseForSymbol("AAPL", new Date("2025-11-27T15:00:00Z"))?.toISOString()).toBe("2025-11-28T18:00:00.000Z");
+    expect(sessionCloseForSymbol("BTC-USD", new Date("2025-06-02T15:00:00Z"))?.toISOString()).toBe("2025-06-03T00:00:00.000Z");
+  });
+});
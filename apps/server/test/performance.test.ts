@@ -0,0 +1,182 @@
+import { describe, expect, it } from "vitest";
+import { computePerformance, internalRateOfReturn, maxDrawdown, resolvePeriod } from "../src/performance";
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+function navs(values: Array<[string, number, number?]>) {
+  return values.map(([date, nav, netFlow = 0]) => ({ date: day(date), nav, netFlow }));
+}
+
+describe("computePerformance", () => {
+  it("takes deposits out of the time-weighted return but not the money-weighted one", () => {
+    const report = computePerformance({
+      period: "inception",
+      from: day("2024-01-01"),
+      to: day("2024-01-03"),
+      valuations: navs([
+        ["2024-01-01", 1_000],
+        // A deposit of 1 000 on a flat day, then +10% on twice the money
+        ["2024-01-02", 2_000, 1_000],
+        ["2024-01-03", 2_200]
+      ]),
+      trades: [],
+      riskFreeRate: 0
+    });
+    expect(report.timeWeightedReturn).toBeCloseTo(0.1, 10);
+    expect(report.netFlows).toBe(1_000);
+    expect(report.moneyWeightedReturn).toBeCloseTo(0.1348, 3);
+    expect(report.annualizedReturn).toBeNull();
+  });
+
+  it("starts a period from the last valuation before it", () => {
+    const report = computePerformance({
+      period: "mtd",
+      from: day("2024-02-01"),
+      to: day("2024-02-02"),
+      valuations: navs([
+        ["2024-01-31", 1_000],
+        ["2024-02-01", 900],
+        ["2024-02-02", 990]
+      ]),
+      trades: [],
+      riskFreeRate: 0
+    });
+    expect(report.startValue).toBe(1_000);
+    expect(report.timeWeightedReturn).toBeCloseTo(-0.01, 10);
+    expect(report.maxDrawdown).toMatchObject({
+      depth: expect.closeTo(0.1, 10),
+      peak: "2024-01-31",
+      recovery: null
+    });
+  });
+
+  it("scores closing trades and turnover", () => {
+    const report = computePerformance({
+      period: "inception",
+      from: day("2024-01-01"),
+      to: day("2024-01-02"),
+      valuations: navs([
+        ["2024-01-01", 1_000],
+        ["2024-01-02", 1_000]
+      ]),
+      trades: [
+        { side: "BUY", notional: 800, realizedPnL: null },
+        { side: "SELL", notional: 300, realizedPnL: 60 },
+        { side: "SELL", notional: 200, realizedPnL: -20 }
+      ],
+      riskFreeRate: 0
+    });
+    expect(report.winRate).toBe(0.5);
+    expect(report.profitFactor).toBe(3);
+    expect(report.turnover).toBe(0.5);
+    expect(report.closedTrades).toBe(2);
+  });
+});
+
+describe("computePerformance against a benchmark", () => {
+  const moves = [0.01, -0.02, 0.03, -0.01];
+  const dates = ["2024-03-04", "2024-03-05", "2024-03-06", "2024-03-07", "2024-03-08"];
+  // The benchmark closes mid-session; the portfolio holds it at twice the exposure.
+  const index = dates.map((date, position) => ({
+    date: new Date(`${date}T14:30:00.000Z`),
+    value: moves.slice(0, position).reduce((level, move) => level * (1 + move), 100)
+  }));
+  const valuations = navs(
+    dates.map((date, position) => [
+      date,
+      moves.slice(0, position).reduce((nav, move) => nav * (1 + 2 * move), 1_000)
+    ])
+  );
+
+  it("measures beta, alpha and capture of a leveraged copy", () => {
+    const report = computePerformance({
+      period: "custom",
+      from: day("2024-03-04"),
+      to: day("2024-03-08"),
+      valuations,
+      trades: [],
+      riskFreeRate: 0,
+      benchmark: { kind: "symbol", label: "^GSPC", index }
+    });
+    const comparison = report.benchmark!;
+    expect(comparison.label).toBe("^GSPC");
+    expect(comparison.benchmarkReturn).toBeCloseTo(1.01 * 0.98 * 1.03 * 0.99 - 1, 10);
+    expect(comparison.excessReturn).toBeCloseTo(report.timeWeightedReturn! - comparison.benchmarkReturn!, 10);
+    expect(comparison.beta).toBeCloseTo(2, 10);
+    expect(comparison.alpha).toBeCloseTo(0, 10);
+    expect(comparison.upCapture).toBeCloseTo(2, 10);
+    expect(comparison.downCapture).toBeCloseTo(2, 10);
+    expect(comparison.trackingError).toBeCloseTo(report.volatility! / 2, 10);
+  });
+
+  it("leaves the comparison out without a benchmark and skips days before its history", () => {
+    const withoutBenchmark = computePerformance({
+      period: "inception",
+      from: day("2024-03-04"),
+      to: day("2024-03-08"),
+      valuations,
+      trades: [],
+      riskFreeRate: 0
+    });
+    expect(withoutBenchmark.benchmark).toBeNull();
+
+    const lateBenchmark = computePerformance({
+      period: "inception",
+      from: day("2024-03-04"),
+      to: day("2024-03-08"),
+      valuations,
+      trades: [],
+      riskFreeRate: 0,
+      benchmark: { kind: "portfolio", label: "Growth", index: index.slice(3) }
+    });
+    expect(lateBenchmark.benchmark?.benchmarkReturn).toBeCloseTo(-0.01, 10);
+    expect(lateBenchmark.benchmark?.beta).toBeNull();
+  });
+});
+
+describe("maxDrawdown", () => {
+  it("measures the deepest fall and how long it took to recover", () => {
+    const drawdown = maxDrawdown([
+      { date: day("2024-01-01"), value: 1 },
+      { date: day("2024-01-02"), value: 0.95 },
+      { date: day("2024-01-03"), value: 1.2 },
+      { date: day("2024-01-04"), value: 0.9 },
+      { date: day("2024-01-08"), value: 1.25 }
+    ]);
+    expect(drawdown).toEqual({
+      depth: expect.closeTo(0.25, 10),
+      peak: "2024-01-03",
+      trough: "2024-01-04",
+      recovery: "2024-01-08",
+      days: 5
+    });
+  });
+});
+
+describe("internalRateOfReturn", () => {
+  it("finds the yearly rate that discounts the flows to zero", () => {
+    expect(
+      internalRateOfReturn([
+        { date: day("2023-01-01"), amount: -100 },
+        { date: day("2024-01-01"), amount: 110 }
+      ])
+    ).toBeCloseTo(0.1, 6);
+  });
+});
+
+describe("resolvePeriod", () => {
+  const end = new Date("2024-05-15T18:00:00Z");
+
+  it("resolves month and year to date and since inception", () => {
+    expect(resolvePeriod("mtd", end, day("2023-01-01")).from.toISOString()).toBe("2024-05-01T00:00:00.000Z");
+    expect(resolvePeriod("ytd", end, day("2023-01-01")).from.toISOString()).toBe("2024-01-01T00:00:00.000Z");
+    expect(resolvePeriod("inception", end, day("2023-03-04"))).toEqual({
+      from: day("2023-03-04"),
+      to: day("2024-05-15")
+    });
+  });
+
+  it("needs a start for a custom period", () => {
+    expect(() => resolvePeriod("custom", end, day("2023-01-01"))).toThrow("A custom period needs a start date");
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { AsOfTrade, closeAsOf, historyRangeFor, splitFactorAfter, tradesAsOf } from "../src/pointInTime";
+import type { HistoryCandle } from "../src/types";
+
+function trade(id: number, ts: string, correction: Partial<AsOfTrade> = {}): AsOfTrade {
+  return {
+    id,
+    ts: new Date(ts),
+    reversedAt: null,
+    reversedBy: null,
+    reversalReason: null,
+    amendsTradeId: null,
+    ...correction
+  };
+}
+
+function candle(date: string, close: number | null): HistoryCandle {
+  return { date, open: close, high: close, low: close, close, volume: 1_000 };
+}
+
+describe("tradesAsOf", () => {
+  const ledger = [
+    trade(1, "2024-03-01T15:00:00Z", {
+      reversedAt: new Date("2024-03-10T12:00:00Z"),
+      reversedBy: "user",
+      reversalReason: "Wrong price"
+    }),
+    trade(2, "2024-03-01T15:00:00Z", { amendsTradeId: 1 }),
+    trade(3, "2024-03-05T15:00:00Z")
+  ];
+
+  it("shows the original trade, unreversed, before its amendment", () => {
+    const trades = tradesAsOf(ledger, new Date("2024-03-06T00:00:00Z"));
+    expect(trades.map((entry) => entry.id)).toEqual([1, 3]);
+    expect(trades[0]).toMatchObject({ reversedAt: null, reversedBy: null, reversalReason: null });
+  });
+
+  it("shows the reversal and the amendment once they were made", () => {
+    const trades = tradesAsOf(ledger, new Date("2024-03-10T12:00:00Z"));
+    expect(trades.map((entry) => [entry.id, entry.reversedAt !== null])).toEqual([
+      [1, true],
+      [2, false],
+      [3, false]
+    ]);
+  });
+
+  it("leaves out trades booked after the moment", () => {
+    expect(tradesAsOf(ledger, new Date("2024-02-28T00:00:00Z"))).toEqual([]);
+  });
+});
+
+describe("closeAsOf", () => {
+  const candles = [
+    candle("2024-03-04T14:30:00.000Z", 100),
+    candle("2024-03-05T14:30:00.000Z", null),
+    candle("2024-03-06T14:30:00.000Z", 104),
+    candle("2024-03-07T14:30:00.000Z", 110)
+  ];
+
+  it("takes the last close on or before the moment, skipping empty candles", () => {
+    const close = closeAsOf(candles, new Date("2024-03-06T23:59:59Z"));
+    expect(close?.close).toBe(104);
+    expect(close?.previous?.close).toBe(100);
+  });
+
+  it("is null before the history starts", () => {
+    expect(closeAsOf(candles, new Date("2024-03-01T00:00:00Z"))).toBeNull();
+  });
+});
+
+describe("historyRangeFor", () => {
+  const now = new Date("2024-12-31T00:00:00Z");
+
+  it("picks the shortest range that reaches back to the moment", () => {
+    expect(historyRangeFor(new Date("2024-12-20T00:00:00Z"), now)).toBe("1mo");
+    expect(historyRangeFor(new Date("2024-08-01T00:00:00Z"), now)).toBe("6mo");
+    expect(historyRangeFor(new Date("2021-01-01T00:00:00Z"), now)).toBe("5y");
+    expect(historyRangeFor(new Date("2010-01-01T00:00:00Z"), now)).toBe("max");
+  });
+});
+
+describe("splitFactorAfter", () => {
+  it("undoes only the splits after the candle", () => {
+    const splits = [
+      { exDate: new Date("2024-06-10T00:00:00Z"), ratio: 10 },
+      { exDate: new Date("2022-07-18T00:00:00Z"), ratio: 20 }
+    ];
+    expect(splitFactorAfter(splits, new Date("2024-01-02T00:00:00Z"))).toBe(10);
+    expect(splitFactorAfter(splits, new Date("2020-01-02T00:00:00Z"))).toBe(200);
+    expect(splitFactorAfter(splits, new Date("2024-07-01T00:00:00Z"))).toBe(1);
+  });
+});
@@ -19,12 +19,53 @@ describe("applyTrade", () => {
     expect(result.avgPrice.toNumber()).toBeCloseTo(120);
   });
 
+  it("capitalises buy fees and slippage into the average price", () => {
+    const position = mockPosition({ qty: 10, avgPrice: 100 });
+    const result = applyTrade(position, { symbol: "AAPL", side: "BUY", qty: 10, price: 100, fee: 5, slippage: 15 });
+
+    expect(result.qty.toNumber()).toBeCloseTo(20);
+    expect(result.avgPrice.toNumber()).toBeCloseTo(101);
+  });
+
   it("throws when selling more than available", () => {
     const position = mockPosition({ qty: 2, avgPrice: 50 });
     expect(() => applyTrade(position, { symbol: "AAPL", side: "SELL", qty: 3, price: 60 })).toThrow(
       "Cannot sell more shares than currently held"
     );
   });
+
+  it("records realized PnL net of the closing costs", () => {
+    const position = mockPosition({ qty: 10, avgPrice: 100 });
+    const result = applyTrade(position, { symbol: "AAPL", side: "SELL", qty: 4, price: 110, fee: 2 });
+
+    expect(result.realizedPnL?.toNumber()).toBeCloseTo(38);
+  });
+
+  it("opens a short position when shorting is allowed", () => {
+    const result = applyTrade(null, { symbol: "AAPL", side: "SELL", qty: 5, price: 100, fee: 5 }, { allowShort: true });
+
+    expect(result.qty.toNumber()).toBeCloseTo(-5);
+    expect(result.avgPrice.toNumber()).toBeCloseTo(99);
+    expect(result.realizedPnL).toBeNull();
+  });
+
+  it("realizes the short's PnL and opens the remainder long when buying through zero", () => {
+    const position = mockPosition({ qty: -10, avgPrice: 50 });
+    const result = applyTrade(position, { symbol: "AAPL", side: "BUY", qty: 15, price: 40, fee: 3 });
+
+    expect(result.qty.toNumber()).toBeCloseTo(5);
+    expect(result.realizedPnL?.toNumber()).toBeCloseTo(100 - 2);
+    expect(result.avgPrice.toNumber()).toBeCloseTo((5 * 40 + 1) / 5);
+  });
+
+  it("flips a long into a short when shorting is allowed", () => {
+    const position = mockPosition({ qty: 4, avgPrice: 20 });
+    const result = applyTrade(position, { symbol: "AAPL", side: "SELL", qty: 10, price: 25 }, { allowShort: true });
+
+    expect(result.qty.toNumber()).toBeCloseTo(-6);
+    expect(result.avgPrice.toNumber()).toBeCloseTo(25);
+    expect(result.realizedPnL?.toNumber()).toBeCloseTo(20);
+  });
 });
 
 describe("computePositionDto", () => {
@@ -37,6 +78,15 @@ describe("computePositionDto", () => {
     expect(dto.unrealizedPnL).toBeCloseTo(40);
     expect(dto.dailyPnL).toBeCloseTo(16);
   });
+
+  it("reports a loss for a short position when the price rises", () => {
+    const position = mockPosition({ qty: -8, avgPrice: 95 });
+    const dto = computePositionDto(position, { price: 100, change: 2 });
+
+    expect(dto.marketValue).toBeCloseTo(-800);
+    expect(dto.unrealizedPnL).toBeCloseTo(-40);
+    expect(dto.dailyPnL).toBeCloseTo(-16);
+  });
 });
 
 function mockPosition({
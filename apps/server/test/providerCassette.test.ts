@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { asOf, portfolioRecord, provider, quotes, snapshot } from "./llmFixtures";
+import { ZERO_COST_MODEL } from "../src/costs";
+import { assembleExecutionContext, ProviderCaller, runLlmPlan } from "../src/llmService";
+import {
+  CassetteMissError,
+  cassetteProvider,
+  createCassette,
+  parseCassette,
+  recordProviderCalls,
+  replayProviderCalls,
+  serializeCassette
+} from "../src/providerCassette";
+import { buildPortfolioSnapshot, getPortfolioRecord } from "../src/portfolioService";
+import { getHistory, getQuote } from "../src/yahoo";
+
+const context = assembleExecutionContext(
+  { portfolio: snapshot(), quotes, histories: {}, recentTrades: [] },
+  { asOf, costModel: ZERO_COST_MODEL, marginPolicyDescription: "disabled", quantityRules: new Map() }
+);
+
+const payload = (content: string) => ({ model: "gpt", messages: [{ role: "user" as const, content }] });
+
+describe("provider cassettes", () => {
+  it("records copies of each call with the API key redacted", async () => {
+    const echo: ProviderCaller = async (called) => ({ content: "{}", rawResponse: `key=${called.apiKey}` });
+    const cassette = createCassette();
+    const request = payload("Plan please");
+    await recordProviderCalls(cassette, echo)(provider("openai-compatible", "gpt", "sk-secret"), request, context);
+    request.messages.push({ role: "user", content: "Added after the call" });
+
+    expect(cassette.context).toBe(context);
+    expect(serializeCassette(cassette)).not.toContain("sk-secret");
+    expect(cassette.calls[0]).toMatchObject({
+      provider: { type: "openai-compatible", apiBase: "https://llm.example.com" },
+      request: { messages: [{ content: "Plan please" }] },
+      response: { rawResponse: "key=[redacted]" }
+    });
+    expect(cassette.calls[0].provider).not.toHaveProperty("apiKey");
+  });
+
+  it("replays responses and failures by request and refuses unknown requests", async () => {
+    let calls = 0;
+    const flaky: ProviderCaller = async (_provider, request) => {
+      calls += 1;
+      if (request.messages[0].content === "fail") {
+        throw new Error("Provider timed out");
+      }
+      return { content: `answer to ${request.messages[0].content}`, rawResponse: "{}" };
+    };
+    const recorded = createCassette();
+    const record = recordProviderCalls(recorded, flaky);
+    const openAi = provider("openai-compatible", "gpt");
+    await record(openAi, payload("first"), context);
+    await expect(record(openAi, payload("fail"), context)).rejects.toThrow("Provider timed out");
+
+    const replay = replayProviderCalls(parseCassette(serializeCassette(recorded)));
+    await expect(replay(openAi, payload("fail"))).rejects.toThrow("Provider timed out");
+    expect(await replay(openAi, payload("first"))).toMatchObject({ content: "answer to first" });
+    await expect(replay(openAi, payload("changed"))).rejects.toBeInstanceOf(CassetteMissError);
+    await expect(replay(provider("anthropic", "gpt"), payload("first"))).rejects.toBeInstanceOf(CassetteMissError);
+    expect(calls).toBe(2);
+  });
+
+  it("restores the recorded moment when read back", () => {
+    const cassette = createCassette();
+    cassette.context = context;
+    const restored = parseCassette(serializeCassette(cassette));
+    expect(restored.context?.asOf).toEqual(asOf);
+    expect(() => parseCassette(JSON.stringify({ version: 2, calls: [] }))).toThrow(/Unsupported/);
+  });
+});
+
+describe("replaying a run", () => {
+  beforeEach(() => {
+    vi.mocked(getPortfolioRecord).mockResolvedValue(portfolioRecord as never);
+    vi.mocked(buildPortfolioSnapshot)
+      .mockReset()
+      .mockImplementation(async () => snapshot());
+    vi.mocked(getQuote).mockImplementation(async (symbol: string) => quotes[symbol as keyof typeof quotes]);
+    vi.mocked(getHistory).mockResolvedValue([]);
+  });
+
+  it("goes through the same attempts from the recording without calling the provider", async () => {
+    const cassette = createCassette();
+    const original = await runLlmPlan({
+      portfolioId: 1,
+      prompt: { systemPrompt: "Keep it simple." },
+      provider: provider("mock", "equal-weight?fail=invalid-json"),
+      dryRun: true,
+      callProvider: recordProviderCalls(cassette)
+    });
+    expect(cassette.calls).toHaveLength(2);
+
+    const stored = parseCassette(serializeCassette(cassette));
+    vi.mocked(buildPortfolioSnapshot).mockClear();
+    // Offline: a replay that reached for market data would fail here rather than see today's prices.
+    vi.mocked(getQuote).mockReset().mockRejectedValue(new Error("offline"));
+    vi.mocked(getHistory).mockReset().mockRejectedValue(new Error("offline"));
+    const replayed = await runLlmPlan({
+      portfolioId: 1,
+      prompt: null,
+      provider: cassetteProvider(stored)!,
+      dryRun: true,
+      callProvider: replayProviderCalls(stored),
+      replay: { context: stored.context!, systemPrompt: original.systemPrompt, userPrompt: original.userPrompt }
+    });
+
+    expect(buildPortfolioSnapshot).not.toHaveBeenCalled();
+    expect(getQuote).not.toHaveBeenCalled();
+    expect(getHistory).not.toHaveBeenCalled();
+    expect(replayed.messages).toEqual(original.messages);
+    expect(replayed.plan).toEqual(original.plan);
+    expect(replayed.trades).toMatchObject([{ symbol: "AAPL", side: "BUY", qty: 97 }]);
+  });
+
+  it("settles orders in symbols the prompt did not quote at the recorded rates", async () => {
+    vi.mocked(getQuote).mockImplementation(async (symbol: string) =>
+      symbol === "SAP.DE"
+        ? { symbol, price: 200, currency: "EUR" }
+        : symbol === "EURUSD=X"
+          ? { symbol, price: 1.1, currency: "USD" }
+          : quotes[symbol as keyof typeof quotes]
+    );
+    const arbitrages = [{ symbol: "SAP.DE", action: "BUY", quantity: 10, orderType: "limit", limitPrice: 150 }];
+    const answer: ProviderCaller = async () => ({
+      content: JSON.stringify({ version: "1.0", generatedAt: asOf.toISOString(), arbitrages }),
+      rawResponse: "{}"
+    });
+    const cassette = createCassette();
+    const original = await runLlmPlan({
+      portfolioId: 1,
+      prompt: null,
+      provider: provider("openai-compatible", "gpt"),
+      dryRun: true,
+      callProvider: recordProviderCalls(cassette, answer)
+    });
+
+    const stored = parseCassette(serializeCassette(cassette));
+    vi.mocked(getQuote).mockReset().mockRejectedValue(new Error("offline"));
+    const replayed = await runLlmPlan({
+      portfolioId: 1,
+      prompt: null,
+      provider: cassetteProvider(stored)!,
+      dryRun: true,
+      callProvider: replayProviderCalls(stored),
+      replay: { context: stored.context!, systemPrompt: original.systemPrompt, userPrompt: original.userPrompt }
+    });
+
+    expect(getQuote).not.toHaveBeenCalled();
+    expect(replayed.trades).toMatchObject([
+      { symbol: "SAP.DE", price: 150, marketPrice: 200, settlement: { currency: "USD", rate: 1.1, baseRate: 1.1 } }
+    ]);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { buildArbitrageJsonSchema, arbitragePlanSchema } from "../src/llmSchema";
+import {
+  closesPosition,
+  describeQuantityRules,
+  exchangeQuantityRules,
+  quantityJsonSchema,
+  validateQuantity
+} from "../src/quantityRules";
+
+describe("exchangeQuantityRules", () => {
+  it("derives defaults from the listing venue", () => {
+    expect(exchangeQuantityRules("AAPL")).toMatchObject({ allowFractional: true, qtyPrecision: 4 });
+    expect(exchangeQuantityRules("BTC-USD")).toMatchObject({ allowFractional: true, qtyPrecision: 8 });
+    expect(exchangeQuantityRules("7203.T")).toMatchObject({ allowFractional: false, lotSize: 100, minQty: 100 });
+    expect(exchangeQuantityRules("0700.HK")).toMatchObject({ lotSize: 100 });
+    expect(exchangeQuantityRules("AIR.PA")).toMatchObject({ allowFractional: false, lotSize: 1, minQty: 1 });
+  });
+});
+
+describe("validateQuantity", () => {
+  it("enforces precision for fractional instruments", () => {
+    const rules = exchangeQuantityRules("AAPL");
+    expect(() => validateQuantity("AAPL", 0.1234, 190, rules)).not.toThrow();
+    expect(() => validateQuantity("AAPL", 0.12345, 190, rules)).toThrow("Quantity for AAPL allows at most 4 decimal places");
+  });
+
+  it("enforces whole shares and board lots", () => {
+    expect(() => validateQuantity("AIR.PA", 1.5, 150, exchangeQuantityRules("AIR.PA"))).toThrow(
+      "Quantity for AIR.PA must be a whole number of shares"
+    );
+    const lots = exchangeQuantityRules("7203.T");
+    expect(() => validateQuantity("7203.T", 300, 2800, lots)).not.toThrow();
+    expect(() => validateQuantity("7203.T", 150, 2800, lots)).toThrow(
+      "Quantity for 7203.T must be a multiple of the 100-share lot size"
+    );
+  });
+
+  it("checks the minimum quantity and order value", () => {
+    const rules = { allowFractional: true, qtyPrecision: 2, minQty: 0.5, lotSize: 1, minNotional: 10 };
+    expect(() => validateQuantity("XYZ", 0.25, 100, rules)).toThrow("Quantity for XYZ must be at least 0.5");
+    expect(() => validateQuantity("XYZ", 0.5, 5, rules)).toThrow("Order value for XYZ must be at least 10");
+    expect(() => validateQuantity("XYZ", 0.5, null, rules)).not.toThrow();
+  });
+});
+
+describe("closesPosition", () => {
+  it("recognises orders that exit the whole position", () => {
+    expect(closesPosition(37, "SELL", 37)).toBe(true);
+    expect(closesPosition(-12.5, "BUY", 12.5)).toBe(true);
+    expect(closesPosition(37, "SELL", 30)).toBe(false);
+    expect(closesPosition(37, "BUY", 37)).toBe(false);
+    expect(closesPosition(null, "SELL", 1)).toBe(false);
+  });
+});
+
+describe("LLM quantity schema", () => {
+  it("describes and constrains each symbol's quantity", () => {
+    const lots = exchangeQuantityRules("7203.T");
+    expect(describeQuantityRules(lots)).toBe("multiples of 100 shares");
+    expect(quantityJsonSchema(exchangeQuantityRules("AAPL"))).toMatchObject({ type: "number", multipleOf: 0.0001 });
+
+    const schema = buildArbitrageJsonSchema(new Map([["7203.T", lots]]));
+    expect(schema.properties.arbitrages.items).toMatchObject({
+      allOf: [
+        {
+          if: { properties: { symbol: { const: "7203.T" } } },
+          then: { properties: { quantity: { type: "integer", minimum: 100, multipleOf: 100 } } }
+        }
+      ]
+    });
+  });
+
+  it("accepts fractional quantities in plans", () => {
+    const plan = arbitragePlanSchema.parse({
+      version: "1.0",
+      generatedAt: "2024-01-01T00:00:00Z",
+      arbitrages: [{ symbol: "aapl", action: "BUY", quantity: 0.5 }]
+    });
+    expect(plan.arbitrages[0]).toMatchObject({ symbol: "AAPL", quantity: 0.5 });
+  });
+});
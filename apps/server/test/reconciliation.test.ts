@@ -0,0 +1,230 @@
+import { describe, expect, it } from "vitest";
+import { Prisma } from "@paper-trading/db";
+import { reconcileLedger, ReconcileCashRow, ReconcileInput, ReconcileTrade } from "../src/reconciliation";
+import { LOT_METHODS, LotMethod } from "../src/taxLots";
+import { replayLedger } from "../src/tradeLedger";
+
+const d = (value: number) => new Prisma.Decimal(value);
+const STARTING_CASH = 1_000_000;
+const RUNS = 150;
+
+/** Small seeded generator so a failing case can be reproduced from the seed in the failure message. */
+function random(seed: number) {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(values: T[]) => values[Math.floor(next() * values.length)]
+  };
+}
+
+/**
+ * A random but valid portfolio history: trades that never oversell (unless shorting is on),
+ * each settled in the base currency, with positions and cash as booking would have left them.
+ */
+function generateLedger(seed: number): ReconcileInput {
+  const rng = random(seed);
+  const method = rng.pick(LOT_METHODS) as LotMethod;
+  const allowShort = rng.next() < 0.3;
+  const symbols = ["AAA", "BBB", "CCC"].slice(0, rng.int(1, 3));
+  const held = new Map<string, number>();
+  const trades: ReconcileTrade[] = [];
+  const cash: ReconcileCashRow[] = [
+    { type: "deposit", currency: "USD", amount: d(STARTING_CASH), tradeId: null, note: "Starting capital", ts: new Date(0) }
+  ];
+
+  const count = rng.int(1, 25);
+  for (let id = 1; id <= count; id += 1) {
+    const symbol = rng.pick(symbols);
+    const qtyHeld = held.get(symbol) ?? 0;
+    const side = qtyHeld > 0 && rng.next() < 0.45 ? "SELL" : allowShort && rng.next() < 0.3 ? "SELL" : "BUY";
+    const qty = side === "SELL" && !allowShort ? rng.int(1, qtyHeld) : rng.int(1, 50);
+    const trade: ReconcileTrade = {
+      id,
+      symbol,
+      side,
+      qty: d(qty),
+      price: d(rng.int(1_000, 30_000) / 100),
+      fee: d(rng.int(0, 500) / 100),
+      slippage: d(rng.int(0, 200) / 100),
+      currency: "USD",
+      fxRate: d(1),
+      reversedAt: null,
+      ts: new Date(Date.UTC(2024, 0, 1) + id * 86_400_000)
+    };
+    trades.push(trade);
+    held.set(symbol, qtyHeld + (side === "BUY" ? qty : -qty));
+
+    const notional = trade.qty.mul(trade.price);
+    const costs = trade.fee.add(trade.slippage);
+    cash.push({
+      type: "trade",
+      currency: "USD",
+      amount: side === "BUY" ? notional.add(costs).neg() : notional.sub(costs),
+      tradeId: id,
+      note: null,
+      ts: trade.ts
+    });
+  }
+
+  const positions = symbols.flatMap((symbol) => {
+    const symbolTrades = trades.filter((trade) => trade.symbol === symbol);
+    if (symbolTrades.length === 0) {
+      return [];
+    }
+    const replay = replayLedger(symbol, symbolTrades, [], { method, allowShort });
+    return replay.qty.isZero() ? [] : [{ symbol, qty: replay.qty, avgPrice: replay.avgPrice }];
+  });
+  const balance = cash.reduce((sum, row) => sum.add(row.amount), d(0));
+
+  return {
+    baseCurrency: "USD",
+    fxAutoConvert: true,
+    method,
+    allowShort,
+    trades,
+    splits: [],
+    renames: [],
+    cash,
+    positions,
+    lots: [],
+    balances: [{ currency: "USD", amount: balance }]
+  };
+}
+
+describe("reconcileLedger properties", () => {
+  it("finds nothing to repair in a ledger booked consistently", () => {
+    for (let seed = 1; seed <= RUNS; seed += 1) {
+      const { report } = reconcileLedger(generateLedger(seed));
+      expect(report, `seed ${seed}`).toMatchObject({ consistent: true, positions: [], cash: [], tradeCash: [] });
+    }
+  });
+
+  it("conserves value: cash plus open cost basis less realized PnL equals the capital put in", () => {
+    for (let seed = 1; seed <= RUNS; seed += 1) {
+      const input = generateLedger(seed);
+      const { replays } = reconcileLedger(input);
+      const replayed = Array.from(replays.values());
+      const basis = replayed.reduce((sum, replay) => sum + replay.qty.mul(replay.avgPrice).toNumber(), 0);
+      const realized = replayed
+        .flatMap((replay) => replay.trades)
+        .reduce((sum, trade) => sum + (trade.realizedPnL?.toNumber() ?? 0), 0);
+      const cash = input.balances[0].amount.toNumber();
+      expect(cash + basis - realized, `seed ${seed}`).toBeCloseTo(STARTING_CASH, 4);
+    }
+  });
+
+  it("keeps open lots equal to the replayed position", () => {
+    for (let seed = 1; seed <= RUNS; seed += 1) {
+      for (const replay of reconcileLedger(generateLedger(seed)).replays.values()) {
+        const open = replay.lots.filter((lot) => !lot.closedAt).reduce((sum, lot) => sum.add(lot.qty), d(0));
+        expect(open.toNumber(), `seed ${seed}`).toBeCloseTo(replay.qty.toNumber(), 8);
+      }
+    }
+  });
+
+  it("reports a drifted position and restores it from the ledger", () => {
+    for (let seed = 1; seed <= RUNS; seed += 1) {
+      const input = generateLedger(seed);
+      if (input.positions.length === 0) {
+        continue;
+      }
+      const [drifted, ...rest] = input.positions;
+      const { report, replays } = reconcileLedger({
+        ...input,
+        positions: [{ ...drifted, qty: drifted.qty.add(7) }, ...rest]
+      });
+      expect(report.consistent).toBe(false);
+      expect(report.positions.map((drift) => drift.symbol)).toEqual([drifted.symbol]);
+      expect(replays.get(drifted.symbol)?.qty.eq(drifted.qty), `seed ${seed}`).toBe(true);
+    }
+  });
+
+  it("reports a trade whose cash was never settled", () => {
+    for (let seed = 1; seed <= RUNS; seed += 1) {
+      const input = generateLedger(seed);
+      const dropped = input.cash[input.cash.length - 1];
+      const { report, expectedCash } = reconcileLedger({ ...input, cash: input.cash.slice(0, -1) });
+      expect(report.tradeCash, `seed ${seed}`).toEqual([
+        expect.objectContaining({ tradeId: dropped.tradeId, recorded: 0, expected: dropped.amount.toNumber() })
+      ]);
+      // The stored balance did include the trade, so only the ledger is missing it.
+      expect(report.cash).toEqual([]);
+      expect(expectedCash.get("USD")?.eq(input.balances[0].amount)).toBe(true);
+    }
+  });
+});
+
+describe("reconcileLedger", () => {
+  it("ignores reversed trades and their offsetting cash", () => {
+    const input = generateLedger(7);
+    const [first] = input.trades;
+    const settlement = input.cash.find((row) => row.tradeId === first.id)!;
+    const { report } = reconcileLedger({
+      ...input,
+      trades: [{ ...first, reversedAt: new Date() }, ...input.trades.slice(1)],
+      cash: [...input.cash, { ...settlement, amount: settlement.amount.neg() }],
+      balances: [{ currency: "USD", amount: input.balances[0].amount.sub(settlement.amount) }]
+    });
+    expect(report.tradeCash).toEqual([]);
+    expect(report.cash).toEqual([]);
+  });
+
+  it("does not expect settlements for trades from before the cash ledger", () => {
+    const trade: ReconcileTrade = {
+      id: 1,
+      symbol: "AAA",
+      side: "BUY",
+      qty: d(10),
+      price: d(100),
+      fee: d(0),
+      slippage: d(0),
+      currency: "USD",
+      fxRate: d(1),
+      reversedAt: null,
+      ts: new Date("2024-01-02T00:00:00Z")
+    };
+    const { report } = reconcileLedger({
+      baseCurrency: "USD",
+      fxAutoConvert: true,
+      method: "FIFO",
+      allowShort: false,
+      trades: [trade],
+      splits: [],
+      renames: [],
+      cash: [
+        { type: "deposit", currency: "USD", amount: d(5_000), tradeId: null, note: "Starting capital", ts: trade.ts },
+        {
+          type: "adjustment",
+          currency: "USD",
+          amount: d(-1_000),
+          tradeId: null,
+          note: "Activity before the cash ledger",
+          ts: new Date("2024-06-01T00:00:00Z")
+        }
+      ],
+      positions: [{ symbol: "AAA", qty: d(10), avgPrice: d(100) }],
+      lots: [],
+      balances: [{ currency: "USD", amount: d(4_000) }]
+    });
+    expect(report.consistent).toBe(true);
+  });
+
+  it("follows symbol changes when rebuilding a position", () => {
+    const input = generateLedger(11);
+    const renamed = input.positions[0];
+    const { report } = reconcileLedger({
+      ...input,
+      renames: [{ from: renamed.symbol, to: "NEW" }],
+      positions: [{ ...renamed, symbol: "NEW" }, ...input.positions.slice(1)]
+    });
+    expect(report.positions).toEqual([]);
+  });
+});
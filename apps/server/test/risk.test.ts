@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { alignReturns, applyScenario, computeRisk, normalQuantile, parseScenario, RiskPosition } from "../src/risk";
+import type { SeriesPoint } from "../src/valuations";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Closes at 14:30 UTC on consecutive days, starting at 100 and moving by `returns`. */
+function prices(returns: number[], start = "2024-01-01"): SeriesPoint[] {
+  const first = new Date(`${start}T14:30:00.000Z`).getTime();
+  let level = 100;
+  return [100, ...returns.map((change) => (level *= 1 + change))].map((value, index) => ({
+    date: new Date(first + index * DAY_MS),
+    value
+  }));
+}
+
+const position = (symbol: string, value: number, extra: Partial<RiskPosition> = {}): RiskPosition => ({
+  symbol,
+  currency: "USD",
+  assetClass: "equity",
+  value,
+  ...extra
+});
+
+describe("parseScenario", () => {
+  it("reads a named scenario with several shocks", () => {
+    expect(parseScenario("Risk off: -20% equities, +10% USD")).toEqual({
+      name: "Risk off",
+      shocks: [
+        { target: "equities", change: -0.2 },
+        { target: "USD", change: 0.1 }
+      ]
+    });
+  });
+
+  it("names an unnamed scenario after its shocks and rejects what it cannot read", () => {
+    expect(parseScenario("-5% AAPL").name).toBe("-5% AAPL");
+    expect(() => parseScenario("equities down a lot")).toThrow(/Unable to read the shock/);
+    expect(() => parseScenario("-100% all")).toThrow(/zero or below/);
+  });
+});
+
+describe("applyScenario", () => {
+  const book = {
+    baseCurrency: "EUR",
+    positions: [
+      position("AAPL", 1_000),
+      position("SPY", 500, { assetClass: "etf" }),
+      position("SAP.DE", 400, { currency: "EUR" })
+    ],
+    cash: [
+      { currency: "EUR", value: 100 },
+      { currency: "USD", value: 200 }
+    ],
+    nav: 2_200
+  };
+
+  it("moves equities by their price shock and dollar holdings by the dollar", () => {
+    const result = applyScenario(parseScenario("-20% equities, +10% USD"), book);
+    expect(result.positions.map((entry) => entry.pnl)).toEqual([
+      expect.closeTo(1_000 * (0.8 * 1.1 - 1), 10),
+      expect.closeTo(500 * (0.8 * 1.1 - 1), 10),
+      expect.closeTo(-80, 10)
+    ]);
+    expect(result.pnl).toBeCloseTo(1_500 * (0.88 - 1) - 80 + 20, 10);
+    expect(result.pnlPercent).toBeCloseTo(result.pnl / 2_200, 10);
+    expect(result.unmatched).toEqual([]);
+  });
+
+  it("treats a rally of the base currency as a fall of every other one", () => {
+    const result = applyScenario(parseScenario("+25% EUR"), book);
+    expect(result.pnl).toBeCloseTo(1_700 * (1 / 1.25 - 1), 10);
+  });
+
+  it("reports targets it cannot place", () => {
+    expect(applyScenario(parseScenario("-10% TSLA, -10% stocks"), book).unmatched).toEqual(["TSLA"]);
+  });
+});
+
+describe("computeRisk", () => {
+  const returns = [
+    -0.05, 0.01, 0.02, -0.01, 0.005, 0.015, -0.02, 0.01, 0, 0.01, -0.03, 0.02, 0.01, -0.005, 0.01, 0.02, -0.01, 0, 0.01,
+    0.005
+  ];
+
+  it("reads historical VaR and expected shortfall from the P&L tail", () => {
+    const report = computeRisk({
+      baseCurrency: "USD",
+      positions: [position("AAPL", 1_000)],
+      cash: [{ currency: "USD", value: 500 }],
+      prices: new Map([["AAPL", prices(returns)]]),
+      confidence: 0.9,
+      scenarios: []
+    });
+    expect(report.nav).toBe(1_500);
+    expect(report.observations).toBe(20);
+    // The two worst days of twenty are the 10% tail.
+    expect(report.valueAtRisk.historical.oneDay).toBeCloseTo(30, 8);
+    expect(report.expectedShortfall.historical.oneDay).toBeCloseTo(40, 8);
+    expect(report.valueAtRisk.parametric.tenDay).toBeCloseTo(report.valueAtRisk.parametric.oneDay! * Math.sqrt(10), 8);
+    expect(report.expectedShortfall.parametric.oneDay!).toBeGreaterThan(report.valueAtRisk.parametric.oneDay!);
+    expect(report.valueAtRisk.historical.tenDay).not.toBeNull();
+  });
+
+  it("splits parametric VaR by position and correlates the holdings", () => {
+    const report = computeRisk({
+      baseCurrency: "USD",
+      positions: [position("AAPL", 3_000), position("MSFT", 1_000), position("NEW", 500)],
+      cash: [],
+      prices: new Map([
+        ["AAPL", prices(returns)],
+        ["MSFT", prices(returns.map((change) => change * 2))],
+        ["NEW", []]
+      ]),
+      confidence: 0.95,
+      scenarios: []
+    });
+    expect(report.correlation.symbols).toEqual(["AAPL", "MSFT"]);
+    expect(report.correlation.matrix[0][1]).toBeCloseTo(1, 10);
+    const [aapl, msft, unmodeled] = report.contributions;
+    expect(aapl.componentVaR! + msft.componentVaR!).toBeCloseTo(report.valueAtRisk.parametric.oneDay!, 8);
+    expect(aapl.share).toBeCloseTo(0.6, 10);
+    expect(unmodeled.componentVaR).toBeNull();
+    expect(report.unmodeled).toEqual(["NEW"]);
+  });
+});
+
+describe("alignReturns", () => {
+  it("starts once every symbol trades and carries prices over holidays", () => {
+    const early = prices([0.1, 0.1, 0.1], "2024-01-01");
+    // LATE starts on the 3rd and has no close on the 4th.
+    const late = prices([0.1, 0.1], "2024-01-03").filter((_, index) => index !== 1);
+    const { dates, returns } = alignReturns(
+      new Map([
+        ["EARLY", early],
+        ["LATE", late]
+      ])
+    );
+    expect(dates.map((date) => date.toISOString().split("T")[0])).toEqual(["2024-01-04", "2024-01-05"]);
+    expect(returns.get("EARLY")![0]).toBeCloseTo(0.1, 10);
+    expect(returns.get("LATE")).toEqual([0, expect.closeTo(0.21, 10)]);
+  });
+});
+
+describe("normalQuantile", () => {
+  it("matches the usual critical values", () => {
+    expect(normalQuantile(0.95)).toBeCloseTo(1.644854, 5);
+    expect(normalQuantile(0.99)).toBeCloseTo(2.326348, 5);
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 10);
+  });
+});
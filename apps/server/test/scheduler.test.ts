@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { computeNextRunAt } from "../src/scheduler";
+
+describe("computeNextRunAt", () => {
+  it("schedules a daily run later the same day when the time has not passed", () => {
+    const next = computeNextRunAt(
+      { frequency: "daily", timeOfDay: "14:30", dayOfWeek: null, dayOfMonth: null },
+      new Date("2025-03-10T09:00:00Z")
+    );
+    expect(next.toISOString()).toBe("2025-03-10T14:30:00.000Z");
+  });
+
+  it("rolls a daily run to the next day once the slot has passed", () => {
+    const next = computeNextRunAt(
+      { frequency: "daily", timeOfDay: "09:00", dayOfWeek: null, dayOfMonth: null },
+      new Date("2025-03-10T09:00:00Z")
+    );
+    expect(next.toISOString()).toBe("2025-03-11T09:00:00.000Z");
+  });
+
+  it("finds the next matching weekday for weekly runs", () => {
+    // 2025-03-10 is a Monday; dayOfWeek 5 is Friday.
+    const next = computeNextRunAt(
+      { frequency: "weekly", timeOfDay: "16:00", dayOfWeek: 5, dayOfMonth: null },
+      new Date("2025-03-10T12:00:00Z")
+    );
+    expect(next.toISOString()).toBe("2025-03-14T16:00:00.000Z");
+  });
+
+  it("waits a full week when the weekly slot already passed today", () => {
+    const next = computeNextRunAt(
+      { frequency: "weekly", timeOfDay: "08:00", dayOfWeek: 1, dayOfMonth: null },
+      new Date("2025-03-10T12:00:00Z")
+    );
+    expect(next.toISOString()).toBe("2025-03-17T08:00:00.000Z");
+  });
+
+  it("clamps monthly runs to the last day of short months", () => {
+    const next = computeNextRunAt(
+      { frequency: "monthly", timeOfDay: "10:00", dayOfWeek: null, dayOfMonth: 31 },
+      new Date("2025-02-03T00:00:00Z")
+    );
+    expect(next.toISOString()).toBe("2025-02-28T10:00:00.000Z");
+  });
+
+  it("moves monthly runs into the next year after December", () => {
+    const next = computeNextRunAt(
+      { frequency: "monthly", timeOfDay: "10:00", dayOfWeek: null, dayOfMonth: 15 },
+      new Date("2025-12-20T00:00:00Z")
+    );
+    expect(next.toISOString()).toBe("2026-01-15T10:00:00.000Z");
+  });
+
+  it("reads the time in the exchange's zone and skips its closed days", () => {
+    // Friday 2025-04-18 is Good Friday on NYSE; 09:45 New York is 13:45 UTC in April.
+    const next = computeNextRunAt(
+      { frequency: "daily", timeOfDay: "09:45", dayOfWeek: null, dayOfMonth: null, exchange: "XNYS" },
+      new Date("2025-04-17T14:00:00Z")
+    );
+    expect(next.toISOString()).toBe("2025-04-21T13:45:00.000Z");
+  });
+
+  it("moves an exchange schedule's weekly run off a holiday", () => {
+    const next = computeNextRunAt(
+      { frequency: "weekly", timeOfDay: "10:00", dayOfWeek: 5, dayOfMonth: null, exchange: "XLON" },
+      new Date("2025-04-14T12:00:00Z")
+    );
+    expect(next.toISOString()).toBe("2025-04-22T09:00:00.000Z");
+  });
+});
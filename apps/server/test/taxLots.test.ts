@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { Prisma } from "@paper-trading/db";
+import { applyTrade } from "../src/portfolio";
+import { isLongTermHolding, OpenLot, orderLotsForRelief, planLotChanges, relieveLots } from "../src/taxLots";
+
+const d = (value: number) => new Prisma.Decimal(value);
+
+const lots: OpenLot[] = [
+  { id: 1, qty: d(10), costPrice: d(100), openedAt: new Date("2023-01-10T00:00:00Z") },
+  { id: 2, qty: d(10), costPrice: d(140), openedAt: new Date("2024-06-01T00:00:00Z") },
+  { id: 3, qty: d(10), costPrice: d(120), openedAt: new Date("2024-09-01T00:00:00Z") }
+];
+const closedAt = new Date("2024-10-01T00:00:00Z");
+
+function relieve(method: Parameters<typeof relieveLots>[1]["method"], qty: number, lotIds?: number[]) {
+  return relieveLots(lots, {
+    qty: d(qty),
+    price: d(150),
+    costs: d(0),
+    method,
+    closedAt,
+    averageCost: d(120),
+    lotIds
+  });
+}
+
+describe("orderLotsForRelief", () => {
+  it("orders lots by the portfolio's relief method", () => {
+    expect(orderLotsForRelief(lots, "FIFO").map((lot) => lot.id)).toEqual([1, 2, 3]);
+    expect(orderLotsForRelief(lots, "LIFO").map((lot) => lot.id)).toEqual([3, 2, 1]);
+    expect(orderLotsForRelief(lots, "HIFO").map((lot) => lot.id)).toEqual([2, 3, 1]);
+  });
+
+  it("relieves the cheapest short lot first under HIFO", () => {
+    const shorts = lots.map((lot) => ({ ...lot, qty: lot.qty.neg() }));
+    expect(orderLotsForRelief(shorts, "HIFO").map((lot) => lot.id)).toEqual([1, 3, 2]);
+  });
+
+  it("rejects lot ids that are not open", () => {
+    expect(() => orderLotsForRelief(lots, "SPECIFIC", [9])).toThrow("Lot 9 is not an open lot of this position");
+  });
+});
+
+describe("relieveLots", () => {
+  it("splits realized PnL into short-term and long-term holdings", () => {
+    const result = relieve("FIFO", 15);
+
+    expect(result.realizedPnL.toNumber()).toBeCloseTo(10 * 50 + 5 * 10);
+    expect(result.longTermPnL.toNumber()).toBeCloseTo(500);
+    expect(result.shortTermPnL.toNumber()).toBeCloseTo(50);
+  });
+
+  it("uses the highest cost first under HIFO", () => {
+    expect(relieve("HIFO", 10).realizedPnL.toNumber()).toBeCloseTo(100);
+  });
+
+  it("relieves at the average cost under AVERAGE", () => {
+    expect(relieve("AVERAGE", 10).realizedPnL.toNumber()).toBeCloseTo(300);
+  });
+
+  it("relieves the selected lots in the given order", () => {
+    const result = relieve("SPECIFIC", 12, [3, 1]);
+
+    expect(result.reliefs.map((relief) => [relief.lotId, relief.qty.toNumber()])).toEqual([
+      [3, 10],
+      [1, 2]
+    ]);
+    expect(result.realizedPnL.toNumber()).toBeCloseTo(300 + 100);
+  });
+
+  it("fails when the selected lots do not cover the quantity", () => {
+    expect(() => relieve("SPECIFIC", 12, [3])).toThrow("Selected lots cover only 10 of the 12 shares being closed");
+  });
+
+  it("deducts closing costs pro rata", () => {
+    const result = relieveLots(lots.slice(0, 1), {
+      qty: d(10),
+      price: d(110),
+      costs: d(4),
+      method: "FIFO",
+      closedAt,
+      averageCost: d(100)
+    });
+    expect(result.realizedPnL.toNumber()).toBeCloseTo(96);
+  });
+});
+
+describe("isLongTermHolding", () => {
+  it("needs more than a year between opening and closing", () => {
+    const openedAt = new Date("2024-03-15T10:00:00Z");
+    expect(isLongTermHolding(openedAt, new Date("2025-03-15T10:00:00Z"))).toBe(false);
+    expect(isLongTermHolding(openedAt, new Date("2025-03-16T10:00:00Z"))).toBe(true);
+  });
+});
+
+describe("planLotChanges", () => {
+  it("restates the average price from the lots left open", () => {
+    const trade = { symbol: "AAPL", side: "SELL" as const, qty: 10, price: 150 };
+    const position = { qty: d(30), avgPrice: d(120) };
+    const applied = applyTrade(position, trade);
+    const plan = planLotChanges(lots, position.qty, position.avgPrice, trade, applied, { method: "FIFO", now: closedAt });
+
+    expect(plan.relief?.realizedPnL.toNumber()).toBeCloseTo(500);
+    expect(plan.avgPrice.toNumber()).toBeCloseTo(130);
+    expect(plan.openQty.toNumber()).toBe(0);
+  });
+
+  it("opens a short lot for the quantity sold beyond the position", () => {
+    const trade = { symbol: "AAPL", side: "SELL" as const, qty: 40, price: 150, fee: 8 };
+    const position = { qty: d(30), avgPrice: d(120) };
+    const applied = applyTrade(position, trade, { allowShort: true });
+    const plan = planLotChanges(lots, position.qty, position.avgPrice, trade, applied, { method: "FIFO", now: closedAt });
+
+    expect(plan.openQty.toNumber()).toBe(-10);
+    expect(plan.openCostPrice.toNumber()).toBeCloseTo(149.8);
+    expect(plan.avgPrice.toNumber()).toBeCloseTo(149.8);
+    expect(plan.relief?.realizedPnL.toNumber()).toBeCloseTo(50 * 10 + 10 * 10 + 30 * 10 - 6);
+  });
+});
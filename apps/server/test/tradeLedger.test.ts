@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { Prisma } from "@paper-trading/db";
+import { LedgerTrade, replayLedger, settlementBaseRate } from "../src/tradeLedger";
+
+const d = (value: number) => new Prisma.Decimal(value);
+
+function trade(id: number, side: "BUY" | "SELL", qty: number, price: number, ts: string, fee = 0): LedgerTrade {
+  return { id, side, qty: d(qty), price: d(price), fee: d(fee), slippage: d(0), ts: new Date(ts) };
+}
+
+const ledger = [
+  trade(1, "BUY", 10, 100, "2024-01-02T15:00:00Z"),
+  trade(2, "BUY", 10, 120, "2024-02-01T15:00:00Z"),
+  trade(3, "SELL", 15, 130, "2024-03-01T15:00:00Z")
+];
+
+describe("replayLedger", () => {
+  it("rebuilds the position, lots and realized PnL from the trades", () => {
+    const replay = replayLedger("AAPL", ledger, [], { method: "FIFO", allowShort: false });
+    expect(replay.qty.toNumber()).toBe(5);
+    expect(replay.avgPrice.toNumber()).toBe(120);
+    expect(replay.lots.map((lot) => [lot.openTradeId, lot.qty.toNumber(), lot.closedAt !== null])).toEqual([
+      [1, 0, true],
+      [2, 5, false]
+    ]);
+    // 10 @ (130 - 100) + 5 @ (130 - 120)
+    expect(replay.trades.find((result) => result.tradeId === 3)?.realizedPnL?.toNumber()).toBe(350);
+  });
+
+  it("restates later trades when an earlier one is removed or changed", () => {
+    const amended = [trade(4, "BUY", 10, 90, "2024-01-02T15:00:00Z"), ...ledger.slice(1)];
+    const replay = replayLedger("AAPL", amended, [], { method: "FIFO", allowShort: false });
+    expect(replay.trades.find((result) => result.tradeId === 3)?.realizedPnL?.toNumber()).toBe(450);
+    expect(() => replayLedger("AAPL", ledger.slice(1), [], { method: "FIFO", allowShort: false })).toThrow(
+      "Trade #3: Cannot sell more shares than currently held"
+    );
+  });
+
+  it("replays splits at the point they were applied", () => {
+    const replay = replayLedger(
+      "AAPL",
+      [trade(1, "BUY", 10, 100, "2024-01-02T15:00:00Z"), trade(2, "SELL", 20, 60, "2024-07-01T15:00:00Z")],
+      [{ exDate: new Date("2024-06-10T00:00:00Z"), ratio: d(2), appliedAt: new Date("2024-06-10T06:00:00Z") }],
+      { method: "FIFO", allowShort: false }
+    );
+    expect(replay.qty.toNumber()).toBe(0);
+    expect(replay.lots[0].originalQty.toNumber()).toBe(20);
+    expect(replay.trades[1].realizedPnL?.toNumber()).toBe(200);
+  });
+
+  it("keeps the ids of stored lots and leaves new lots unsaved", () => {
+    const replay = replayLedger("AAPL", ledger, [], {
+      method: "FIFO",
+      allowShort: false,
+      existingLots: [{ id: 42, openTradeId: 2, openedAt: new Date("2024-02-01T15:00:01Z") }]
+    });
+    expect(replay.lots.map((lot) => lot.id)).toEqual([null, 42]);
+    expect(replay.lots[1].openedAt.toISOString()).toBe("2024-02-01T15:00:01.000Z");
+  });
+
+  it("honours lot selections that are still open", () => {
+    const selective = [...ledger.slice(0, 2), { ...trade(3, "SELL", 5, 130, "2024-03-01T15:00:00Z"), lotIds: [42] }];
+    const replay = replayLedger("AAPL", selective, [], {
+      method: "FIFO",
+      allowShort: false,
+      existingLots: [{ id: 42, openTradeId: 2, openedAt: new Date("2024-02-01T15:00:00Z") }]
+    });
+    expect(replay.trades[2].realizedPnL?.toNumber()).toBe(50);
+  });
+});
+
+describe("settlementBaseRate", () => {
+  // 1 GBp is worth 0.0125 USD, so 1 GBP is worth 1.25 USD.
+  const trade = { currency: "GBp", fxRate: new Prisma.Decimal("0.0125") };
+
+  it("records base currency settlements at par", () => {
+    expect(settlementBaseRate(trade, "USD", "USD").toNumber()).toBe(1);
+  });
+
+  it("converts the trade's rate into one per unit of the settlement currency", () => {
+    expect(settlementBaseRate(trade, "GBP", "USD").toNumber()).toBe(1.25);
+  });
+});
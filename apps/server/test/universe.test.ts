@@ -0,0 +1,178 @@
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { asOf, portfolioRecord, provider, quotes, snapshot } from "./llmFixtures";
+import { prisma } from "@paper-trading/db";
+import { ProviderCaller, runLlmPlan } from "../src/llmService";
+import { buildPortfolioSnapshot, getPortfolioRecord } from "../src/portfolioService";
+import {
+  assertInUniverse,
+  listIndexes,
+  loadIndexConstituents,
+  resolveUniverse,
+  resolveUniverseUpdate,
+  Universe
+} from "../src/universe";
+import { getHistory, getQuote } from "../src/yahoo";
+
+const universeQuotes = { ...quotes, IBM: { symbol: "IBM", price: 200, currency: "USD" } };
+const candles = Array.from({ length: 30 }, (_, index) => ({
+  date: new Date(Date.UTC(2025, 5, index + 1)).toISOString(),
+  open: 100,
+  high: 101,
+  low: 99,
+  close: 100 + index,
+  volume: 1_000
+}));
+const tech: Universe = { source: "watchlist", name: "Tech", symbols: ["AAPL", "MSFT", "NVDA"] };
+
+describe("index files", () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(path.join(os.tmpdir(), "universe-"));
+    await writeFile(path.join(directory, "tech.json"), JSON.stringify(["aapl", "MSFT", "aapl"]));
+    await writeFile(path.join(directory, "dow.txt"), "# Dow sample\nsymbol\nIBM  # Big Blue\n\nKO\n");
+    await writeFile(path.join(directory, "ftse.csv"), "Ticker,Name\nVOD.L,Vodafone\n\"BP.L\",BP\n");
+    await writeFile(path.join(directory, "empty.txt"), "# nothing yet\n");
+    process.env.UNIVERSE_INDEX_DIR = directory;
+  });
+
+  afterAll(async () => {
+    delete process.env.UNIVERSE_INDEX_DIR;
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("reads JSON arrays and first columns of text files, skipping headers and comments", async () => {
+    expect(await loadIndexConstituents("tech")).toEqual(["AAPL", "MSFT"]);
+    expect(await loadIndexConstituents("dow")).toEqual(["IBM", "KO"]);
+    expect(await loadIndexConstituents("ftse")).toEqual(["VOD.L", "BP.L"]);
+    expect(await listIndexes()).toEqual([
+      { name: "dow", symbolCount: 2 },
+      { name: "ftse", symbolCount: 2 },
+      { name: "tech", symbolCount: 2 }
+    ]);
+  });
+
+  it("refuses unknown, empty and path-like index names", async () => {
+    await expect(loadIndexConstituents("sp500")).rejects.toThrow(/not found/);
+    await expect(loadIndexConstituents("empty")).rejects.toThrow(/lists no symbols/);
+    await expect(loadIndexConstituents("../secrets")).rejects.toThrow(/Invalid index name/);
+    await expect(resolveUniverseUpdate({ universeIndex: "sp500" })).rejects.toThrow(/not found/);
+    expect(await resolveUniverse({ universeSymbols: null, universeWatchlistId: null, universeIndex: "dow" })).toEqual({
+      source: "index",
+      name: "dow",
+      symbols: ["IBM", "KO"]
+    });
+  });
+});
+
+describe("universe settings", () => {
+  it("stores one source at a time and clears the others", async () => {
+    vi.mocked(prisma.watchlist.count).mockResolvedValue(1);
+    expect(await resolveUniverseUpdate({ universeSymbols: [" aapl", "MSFT", "AAPL"] })).toEqual({
+      universeSymbols: '["AAPL","MSFT"]',
+      universeWatchlistId: null,
+      universeIndex: null
+    });
+    expect(await resolveUniverseUpdate({ universeWatchlistId: 3 })).toEqual({
+      universeSymbols: null,
+      universeWatchlistId: 3,
+      universeIndex: null
+    });
+    expect(await resolveUniverseUpdate({ universeWatchlistId: null })).toEqual({
+      universeSymbols: undefined,
+      universeWatchlistId: null,
+      universeIndex: undefined
+    });
+
+    vi.mocked(prisma.watchlist.count).mockResolvedValue(0);
+    await expect(resolveUniverseUpdate({ universeWatchlistId: 4 })).rejects.toThrow("Watchlist 4 not found");
+    const tooMany = Array.from({ length: 101 }, (_, index) => `SYM${index}`);
+    await expect(resolveUniverseUpdate({ universeSymbols: tooMany })).rejects.toThrow(/at most 100/);
+  });
+
+  it("only lets orders outside the universe reduce a position", () => {
+    expect(() => assertInUniverse(tech, { symbol: "NVDA", side: "BUY", qty: 5 }, null)).not.toThrow();
+    expect(() => assertInUniverse(null, { symbol: "IBM", side: "BUY", qty: 5 }, null)).not.toThrow();
+    expect(() => assertInUniverse(tech, { symbol: "IBM", side: "SELL", qty: 5 }, 10)).not.toThrow();
+    expect(() => assertInUniverse(tech, { symbol: "IBM", side: "BUY", qty: 5 }, -5)).not.toThrow();
+    expect(() => assertInUniverse(tech, { symbol: "IBM", side: "BUY", qty: 5 }, 10)).toThrow(
+      /IBM is outside the investable universe \(AAPL, MSFT, NVDA\)/
+    );
+    expect(() => assertInUniverse(tech, { symbol: "IBM", side: "SELL", qty: 15 }, 10)).toThrow(/outside/);
+    expect(() => assertInUniverse(tech, { symbol: "IBM", side: "SELL", qty: 5 }, null)).toThrow(/outside/);
+  });
+});
+
+describe("runs with a universe", () => {
+  beforeEach(() => {
+    vi.mocked(getPortfolioRecord).mockResolvedValue(portfolioRecord as never);
+    vi.mocked(getQuote)
+      .mockReset()
+      .mockImplementation(async (symbol: string) => {
+        const quote = universeQuotes[symbol as keyof typeof universeQuotes];
+        if (!quote) {
+          throw new Error(`No quote for ${symbol}`);
+        }
+        return quote;
+      });
+    vi.mocked(getHistory).mockResolvedValue(candles);
+  });
+
+  it("gives an empty portfolio the universe's market data to plan with", async () => {
+    vi.mocked(buildPortfolioSnapshot).mockImplementation(async () => snapshot({}, universeQuotes));
+    const result = await runLlmPlan({
+      portfolioId: 1,
+      prompt: null,
+      provider: provider("mock", "equal-weight?reserve=0"),
+      dryRun: true,
+      universe: tech
+    });
+
+    const universe = result.context.raw.universe!;
+    expect(Object.keys(universe.quotes)).toEqual(["AAPL", "MSFT"]);
+    expect(universe.histories.NVDA).toHaveLength(20);
+    expect(result.userPrompt).toContain('watchlist "Tech" with 3 symbols: AAPL, MSFT, NVDA.');
+    expect(result.userPrompt).toContain(JSON.stringify(universe.quotes, null, 2));
+    expect(result.trades).toMatchObject([
+      { symbol: "AAPL", side: "BUY", qty: 50 },
+      { symbol: "MSFT", side: "BUY", qty: 100 }
+    ]);
+  });
+
+  it("rejects orders that add to positions outside the universe and asks for another plan", async () => {
+    vi.mocked(buildPortfolioSnapshot).mockImplementation(async () => snapshot({ IBM: 10 }, universeQuotes));
+    const plans = [
+      [{ symbol: "IBM", action: "BUY", quantity: 1 }],
+      [
+        { symbol: "IBM", action: "SELL", quantity: 4 },
+        { symbol: "AAPL", action: "BUY", quantity: 2 }
+      ]
+    ];
+    let call = 0;
+    const answer: ProviderCaller = async () => {
+      const content = JSON.stringify({ version: "1.0", generatedAt: asOf.toISOString(), arbitrages: plans[call++] });
+      return { content, rawResponse: "{}" };
+    };
+
+    const result = await runLlmPlan({
+      portfolioId: 1,
+      prompt: null,
+      provider: provider("mock", "hold"),
+      dryRun: true,
+      callProvider: answer,
+      universe: tech
+    });
+
+    expect(result.messages[3]).toMatchObject({
+      role: "user",
+      content: expect.stringContaining("IBM is outside the investable universe")
+    });
+    expect(result.trades).toMatchObject([
+      { symbol: "IBM", side: "SELL", qty: 4 },
+      { symbol: "AAPL", side: "BUY", qty: 2, marketPrice: 100 }
+    ]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { computeDailyValuations, rangeStart, valuationDays, ValuationInput } from "../src/valuations";
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+const at = (value: string) => new Date(value);
+
+function ledger(overrides: Partial<ValuationInput> = {}): ValuationInput {
+  return {
+    baseCurrency: "USD",
+    quantities: [{ symbol: "AAA", ts: at("2024-03-04T15:00:00Z"), delta: 10, price: 100 }],
+    cash: [
+      { currency: "USD", amount: 10_000, ts: at("2024-03-01T09:00:00Z"), externalFlow: 10_000 },
+      { currency: "USD", amount: -1_000, ts: at("2024-03-04T15:00:00Z"), externalFlow: null }
+    ],
+    currencies: new Map([["AAA", "USD"]]),
+    closes: new Map([
+      [
+        "AAA",
+        [
+          { date: at("2024-03-04T14:30:00Z"), value: 101 },
+          { date: at("2024-03-05T14:30:00Z"), value: 105 }
+        ]
+      ]
+    ]),
+    fxRates: new Map(),
+    ...overrides
+  };
+}
+
+describe("computeDailyValuations", () => {
+  it("values cash and the shares held at each day's close", () => {
+    const valuations = computeDailyValuations(ledger(), valuationDays(day("2024-03-01"), day("2024-03-06")));
+    expect(valuations.map((valuation) => [valuation.cash, valuation.marketValue, valuation.netFlow])).toEqual([
+      [10_000, 0, 10_000],
+      [10_000, 0, 0],
+      [10_000, 0, 0],
+      [9_000, 1_010, 0],
+      [9_000, 1_050, 0],
+      // No candle on the 6th: the last close carries forward.
+      [9_000, 1_050, 0]
+    ]);
+    expect(valuations[4].nav).toBe(10_050);
+  });
+
+  it("marks shares at the fill price before their history starts", () => {
+    const [valuation] = computeDailyValuations(ledger({ closes: new Map() }), [day("2024-03-04")]);
+    expect(valuation.marketValue).toBe(1_000);
+  });
+
+  it("follows splits and symbol changes and converts foreign holdings", () => {
+    const valuations = computeDailyValuations(
+      ledger({
+        quantities: [
+          { symbol: "AAA", ts: at("2024-03-04T15:00:00Z"), delta: 10, price: 100 },
+          { symbol: "AAA", ts: at("2024-03-05T06:00:00Z"), delta: 10 },
+          { symbol: "AAA", ts: at("2024-03-06T06:00:00Z"), delta: -20 },
+          { symbol: "BBB", ts: at("2024-03-06T06:00:00Z"), delta: 20 }
+        ],
+        currencies: new Map([
+          ["AAA", "EUR"],
+          ["BBB", "EUR"]
+        ]),
+        closes: new Map([
+          ["AAA", [{ date: at("2024-03-05T08:00:00Z"), value: 50 }]],
+          ["BBB", [{ date: at("2024-03-06T08:00:00Z"), value: 52 }]]
+        ]),
+        fxRates: new Map([["EUR", [{ date: at("2024-03-01T00:00:00Z"), value: 1.1 }]]])
+      }),
+      [day("2024-03-05"), day("2024-03-06")]
+    );
+    expect(valuations[0].marketValue).toBeCloseTo(20 * 50 * 1.1, 8);
+    expect(valuations[1].marketValue).toBeCloseTo(20 * 52 * 1.1, 8);
+  });
+});
+
+describe("rangeStart", () => {
+  it("counts the range back from its last day", () => {
+    expect(rangeStart("1mo", at("2024-03-31T18:00:00Z"))?.toISOString()).toBe("2024-02-29T00:00:00.000Z");
+    expect(rangeStart("max", at("2024-03-31T18:00:00Z"))).toBeNull();
+  });
+});
@@ -7,6 +7,7 @@ import { LlmExecutionHistory } from "@/components/llm/execution-history";
 import { LlmProviderManager } from "@/components/llm/provider-manager";
 import { PortfolioPromptManager } from "@/components/llm/prompt-manager";
 import { LlmRunnerPanel } from "@/components/llm/runner-panel";
+import { WatchlistManager } from "@/components/llm/watchlist-manager";
 import { usePortfolios } from "@/hooks/api";
 
 export default function LlmConsolePage() {
@@ -59,6 +60,7 @@ export default function LlmConsolePage() {
         <div className="flex flex-col gap-6">
           <LlmProviderManager />
           <PortfolioPromptManager portfolioId={selectedPortfolioId} />
+          <WatchlistManager />
         </div>
         <div className="flex flex-col gap-6">
           <LlmAutomationPanel portfolioId={selectedPortfolioId} />
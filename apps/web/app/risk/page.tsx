@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { RiskPanel } from "@/components/risk-panel";
+import { usePortfolios } from "@/hooks/api";
+
+export default function RiskPage() {
+  const { data: portfoliosData } = usePortfolios();
+  const portfolios = useMemo(() => portfoliosData?.portfolios ?? [], [portfoliosData?.portfolios]);
+  const [selectedPortfolioId, setSelectedPortfolioId] = useState<number | undefined>(undefined);
+
+  useEffect(() => {
+    if (!selectedPortfolioId && portfolios.length > 0) {
+      setSelectedPortfolioId(portfolios[0].id);
+    }
+  }, [portfolios, selectedPortfolioId]);
+
+  return (
+    <main className="mx-auto flex min-h-screen w-full max-w-6xl flex-col gap-6 px-6 py-8">
+      <header className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-semibold text-foreground">Risk</h1>
+          <p className="text-sm text-muted-foreground">
+            Value at risk, expected shortfall, correlations and stress scenarios for the current holdings.
+          </p>
+        </div>
+        <Link href="/" className="text-sm font-semibold text-brand-600 hover:text-brand-700">
+          Back to dashboard
+        </Link>
+      </header>
+
+      {portfolios.length > 0 && (
+        <select
+          className="w-full max-w-xs rounded-md border border-border bg-card px-3 py-2 text-sm text-foreground"
+          value={selectedPortfolioId ?? ""}
+          onChange={(event) => setSelectedPortfolioId(event.target.value ? Number(event.target.value) : undefined)}
+        >
+          {portfolios.map((portfolio) => (
+            <option key={portfolio.id} value={portfolio.id}>
+              {portfolio.name} ({portfolio.baseCurrency})
+            </option>
+          ))}
+        </select>
+      )}
+
+      <RiskPanel portfolioId={selectedPortfolioId} />
+    </main>
+  );
+}
@@ -1,7 +1,6 @@
 "use client";
 
 import Link from "next/link";
-import { useMemo } from "react";
 import { TradesTable } from "@/components/trades-table";
 import { usePortfolio, useTrades } from "@/hooks/api";
 
@@ -9,14 +8,6 @@ export default function TradesPage() {
   const { data: tradesData } = useTrades();
   const { data: portfolio } = usePortfolio();
 
-  const priceLookup = useMemo(() => {
-    const map: Record<string, number | null | undefined> = {};
-    portfolio?.positions.forEach((position) => {
-      map[position.symbol] = position.marketPrice ?? null;
-    });
-    return map;
-  }, [portfolio?.positions]);
-
   return (
     <main className="mx-auto flex min-h-screen w-full max-w-6xl flex-col gap-6 px-6 py-8">
       <header className="flex items-center justify-between">
@@ -28,11 +19,7 @@ export default function TradesPage() {
           Back to dashboard
         </Link>
       </header>
-      <TradesTable
-        trades={tradesData?.trades ?? []}
-        baseCurrency={portfolio?.baseCurrency ?? "USD"}
-        priceLookup={priceLookup}
-      />
+      <TradesTable trades={tradesData?.trades ?? []} baseCurrency={portfolio?.baseCurrency ?? "USD"} />
     </main>
   );
 }
@@ -0,0 +1,93 @@
+"use client";
+
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  Legend,
+  LineElement,
+  LinearScale,
+  PointElement,
+  TimeScale,
+  Tooltip
+} from "chart.js";
+import "chartjs-adapter-date-fns";
+import { Line } from "react-chartjs-2";
+import { useMemo } from "react";
+import type { BacktestDetail } from "@/hooks/api";
+import type { ChartOptions } from "chart.js";
+
+ChartJS.register(CategoryScale, LinearScale, TimeScale, PointElement, LineElement, Tooltip, Legend);
+
+const COLORS = ["#2563eb", "#059669", "#d97706", "#db2777", "#7c3aed", "#0891b2"];
+
+interface BacktestChartProps {
+  runs: BacktestDetail[];
+}
+
+/**
+ * Equity curves of backtest runs as the growth of 100 from each run's starting capital, so runs
+ * with different capital or dates share one axis. Each run's benchmark is drawn dashed.
+ */
+export function BacktestChart({ runs }: BacktestChartProps) {
+  const chartData = useMemo(
+    () => ({
+      datasets: runs.flatMap((run, index) => {
+        const color = COLORS[index % COLORS.length];
+        const curve = run.equityCurve ?? [];
+        const growth = (value: number) => (value / run.startingCapital) * 100;
+        const line = {
+          label: run.name,
+          data: curve.map((point) => ({ x: point.date, y: growth(point.nav) })),
+          borderColor: color,
+          backgroundColor: color,
+          pointRadius: 0,
+          tension: 0.2
+        };
+        const benchmark = curve.filter((point) => point.benchmark !== null);
+        if (!run.benchmarkSymbol || benchmark.length === 0) {
+          return [line];
+        }
+        return [
+          line,
+          {
+            label: `${run.benchmarkSymbol} (${run.name})`,
+            data: benchmark.map((point) => ({ x: point.date, y: growth(point.benchmark!) })),
+            borderColor: color,
+            backgroundColor: color,
+            borderDash: [6, 4],
+            pointRadius: 0,
+            tension: 0.2
+          }
+        ];
+      })
+    }),
+    [runs]
+  );
+
+  const options = useMemo<ChartOptions<"line">>(
+    () => ({
+      responsive: true,
+      maintainAspectRatio: false,
+      interaction: { intersect: false, mode: "nearest" as const, axis: "x" as const },
+      plugins: {
+        legend: { display: true },
+        tooltip: {
+          callbacks: {
+            label: (context) => `${context.dataset.label}: ${context.parsed.y.toFixed(2)}`
+          }
+        }
+      },
+      scales: {
+        x: { type: "time" as const, time: { unit: "month" } },
+        y: { title: { display: true, text: "Growth of 100" } }
+      }
+    }),
+    []
+  );
+
+  return (
+    <div className="h-72 w-full">
+      <Line options={options} data={chartData} />
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useState } from "react";
+import { useCashBalances, useConvertCash } from "@/hooks/api";
+
+interface CashBalancesProps {
+  portfolioId?: number;
+}
+
+export function CashBalances({ portfolioId }: CashBalancesProps) {
+  const { data, isLoading } = useCashBalances(portfolioId);
+  const convert = useConvertCash(portfolioId);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [amount, setAmount] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const baseCurrency = data?.baseCurrency ?? "USD";
+  const balances = data?.balances ?? [];
+  const conversions = data?.conversions ?? [];
+
+  const submit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    const value = Number(amount);
+    const source = (from || baseCurrency).trim().toUpperCase();
+    const target = to.trim().toUpperCase();
+    if (!/^[A-Z]{3}$/.test(source) || !/^[A-Z]{3}$/.test(target)) {
+      setError("Currencies must be three-letter codes");
+      return;
+    }
+    if (!Number.isFinite(value) || value <= 0) {
+      setError("Amount must be positive");
+      return;
+    }
+
+    try {
+      await convert.mutateAsync({ from: source, to: target, amount: value });
+      setAmount("");
+    } catch (convertError) {
+      setError(convertError instanceof Error ? convertError.message : "Unable to convert cash");
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-border bg-card p-6 shadow-sm">
+      <h3 className="text-base font-semibold text-foreground">Cash by Currency</h3>
+      {isLoading ? (
+        <p className="mt-4 text-sm text-muted-foreground">Loading cash balances...</p>
+      ) : (
+        <table className="mt-4 min-w-full divide-y divide-border text-sm">
+          <thead className="text-left text-xs uppercase tracking-wide text-muted-foreground">
+            <tr>
+              <th className="px-3 py-2">Currency</th>
+              <th className="px-3 py-2 text-right">Balance</th>
+              <th className="px-3 py-2 text-right">Rate</th>
+              <th className="px-3 py-2 text-right">In {baseCurrency}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border text-foreground">
+            {balances.map((balance) => (
+              <tr key={balance.currency}>
+                <td className="px-3 py-2 font-medium">{balance.currency}</td>
+                <td className="px-3 py-2 text-right">{formatCurrency(balance.amount, balance.currency)}</td>
+                <td className="px-3 py-2 text-right text-muted-foreground">{balance.fxRate.toFixed(4)}</td>
+                <td className="px-3 py-2 text-right">{formatCurrency(balance.baseAmount, baseCurrency)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      <form onSubmit={submit} className="mt-4 grid grid-cols-2 gap-3 md:grid-cols-4">
+        <label className="flex flex-col text-sm">
+          From
+          <input
+            type="text"
+            maxLength={3}
+            placeholder={baseCurrency}
+            value={from}
+            onChange={(event) => setFrom(event.target.value)}
+            className="mt-1 rounded-lg border border-border px-3 py-2 uppercase focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+          />
+        </label>
+        <label className="flex flex-col text-sm">
+          To
+          <input
+            type="text"
+            maxLength={3}
+            placeholder="EUR"
+            value={to}
+            onChange={(event) => setTo(event.target.value)}
+            className="mt-1 rounded-lg border border-border px-3 py-2 uppercase focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+          />
+        </label>
+        <label className="flex flex-col text-sm">
+          Amount
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={amount}
+            onChange={(event) => setAmount(event.target.value)}
+            className="mt-1 rounded-lg border border-border px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+          />
+        </label>
+        <div className="flex items-end">
+          <button
+            type="submit"
+            disabled={convert.isPending || !portfolioId}
+            className="w-full rounded-lg bg-brand-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-700 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {convert.isPending ? "Converting..." : "Convert"}
+          </button>
+        </div>
+      </form>
+      {error && <p className="mt-3 text-sm text-rose-600">{error}</p>}
+      {conversions.length > 0 && (
+        <ul className="mt-4 flex flex-col gap-1 text-xs text-muted-foreground">
+          {conversions.slice(0, 5).map((conversion) => (
+            <li key={conversion.id}>
+              {new Date(conversion.ts).toLocaleString()}: {formatCurrency(conversion.fromAmount, conversion.fromCurrency)} to{" "}
+              {formatCurrency(conversion.toAmount, conversion.toCurrency)} at {conversion.rate.toFixed(4)}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function formatCurrency(value: number, currency: string) {
+  return value.toLocaleString(undefined, { style: "currency", currency });
+}
@@ -0,0 +1,168 @@
+"use client";
+
+import { useState } from "react";
+import { useCashTransactions, usePostCashTransaction, type CashTransactionInput, type CashTransactionType } from "@/hooks/api";
+
+interface CashLedgerProps {
+  portfolioId?: number;
+  baseCurrency?: string;
+}
+
+const TYPE_LABELS: Record<CashTransactionType, string> = {
+  deposit: "Deposit",
+  withdrawal: "Withdrawal",
+  trade: "Trade",
+  fee: "Fee",
+  dividend: "Dividend",
+  interest: "Interest",
+  fx: "FX",
+  adjustment: "Adjustment"
+};
+
+const MANUAL_TYPES: CashTransactionInput["type"][] = ["deposit", "withdrawal", "interest", "fee", "adjustment"];
+
+export function CashLedger({ portfolioId, baseCurrency = "USD" }: CashLedgerProps) {
+  const { data, isLoading } = useCashTransactions(portfolioId);
+  const post = usePostCashTransaction(portfolioId);
+  const [type, setType] = useState<CashTransactionInput["type"]>("deposit");
+  const [amount, setAmount] = useState("");
+  const [currency, setCurrency] = useState("");
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const transactions = data?.transactions ?? [];
+  const summary = data?.summary;
+
+  const submit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    const value = Number(amount);
+    if (!Number.isFinite(value) || value === 0 || (type !== "adjustment" && value < 0)) {
+      setError(type === "adjustment" ? "Amount cannot be zero" : "Amount must be positive");
+      return;
+    }
+    const code = currency.trim().toUpperCase();
+    if (code && !/^[A-Z]{3}$/.test(code)) {
+      setError("Currency must be a three-letter code");
+      return;
+    }
+
+    try {
+      await post.mutateAsync({ type, amount: value, currency: code || undefined, note: note.trim() || undefined });
+      setAmount("");
+      setNote("");
+    } catch (postError) {
+      setError(postError instanceof Error ? postError.message : "Unable to post cash transaction");
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-border bg-card p-6 shadow-sm">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-semibold text-foreground">Cash History</h3>
+        {summary && (
+          <p className="text-xs text-muted-foreground">
+            Deposited {formatCurrency(summary.deposits, baseCurrency)} · Withdrawn{" "}
+            {formatCurrency(summary.withdrawals, baseCurrency)}
+          </p>
+        )}
+      </div>
+      <form onSubmit={submit} className="mt-4 grid grid-cols-2 gap-3 md:grid-cols-5">
+        <label className="flex flex-col text-sm">
+          Type
+          <select
+            value={type}
+            onChange={(event) => setType(event.target.value as CashTransactionInput["type"])}
+            className="mt-1 rounded-lg border border-border px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+          >
+            {MANUAL_TYPES.map((option) => (
+              <option key={option} value={option}>
+                {TYPE_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-sm">
+          Amount
+          <input
+            type="number"
+            step="0.01"
+            value={amount}
+            onChange={(event) => setAmount(event.target.value)}
+            className="mt-1 rounded-lg border border-border px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+          />
+        </label>
+        <label className="flex flex-col text-sm">
+          Currency
+          <input
+            type="text"
+            maxLength={3}
+            placeholder={baseCurrency}
+            value={currency}
+            onChange={(event) => setCurrency(event.target.value)}
+            className="mt-1 rounded-lg border border-border px-3 py-2 uppercase focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+          />
+        </label>
+        <label className="flex flex-col text-sm">
+          Note
+          <input
+            type="text"
+            maxLength={200}
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            className="mt-1 rounded-lg border border-border px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+          />
+        </label>
+        <div className="flex items-end">
+          <button
+            type="submit"
+            disabled={post.isPending || !portfolioId}
+            className="w-full rounded-lg bg-brand-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-700 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {post.isPending ? "Posting..." : "Post"}
+          </button>
+        </div>
+      </form>
+      {error && <p className="mt-3 text-sm text-rose-600">{error}</p>}
+      {isLoading ? (
+        <p className="mt-4 text-sm text-muted-foreground">Loading cash history...</p>
+      ) : transactions.length === 0 ? (
+        <p className="mt-4 text-sm text-muted-foreground">No cash movements yet.</p>
+      ) : (
+        <div className="mt-4 max-h-96 overflow-auto">
+          <table className="min-w-full divide-y divide-border text-sm">
+            <thead className="text-left text-xs uppercase tracking-wide text-muted-foreground">
+              <tr>
+                <th className="px-3 py-2">Date</th>
+                <th className="px-3 py-2">Type</th>
+                <th className="px-3 py-2 text-right">Amount</th>
+                <th className="px-3 py-2 text-right">Balance</th>
+                <th className="px-3 py-2">Note</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border text-foreground">
+              {transactions.map((transaction) => (
+                <tr key={transaction.id}>
+                  <td className="px-3 py-2">{new Date(transaction.ts).toLocaleString()}</td>
+                  <td className="px-3 py-2">
+                    {TYPE_LABELS[transaction.type] ?? transaction.type}
+                    {transaction.external && <span className="ml-2 text-xs text-muted-foreground">external</span>}
+                  </td>
+                  <td className={`px-3 py-2 text-right ${transaction.amount < 0 ? "text-rose-600" : "text-emerald-600"}`}>
+                    {formatCurrency(transaction.amount, transaction.currency)}
+                  </td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(transaction.balanceAfter, transaction.currency)}</td>
+                  <td className="px-3 py-2 text-xs text-muted-foreground">{transaction.note ?? ""}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatCurrency(value: number, currency: string) {
+  return value.toLocaleString(undefined, { style: "currency", currency });
+}
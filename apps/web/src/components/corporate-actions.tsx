@@ -0,0 +1,196 @@
+"use client";
+
+import { useState } from "react";
+import { useCorporateActionEntries, useRecordCorporateAction, type CorporateActionType } from "@/hooks/api";
+
+interface CorporateActionsProps {
+  portfolioId?: number;
+}
+
+const ACTION_LABELS: Record<CorporateActionType, string> = {
+  split: "Split",
+  dividend: "Dividend",
+  symbol_change: "Symbol change",
+  delisting: "Delisting"
+};
+
+export function CorporateActions({ portfolioId }: CorporateActionsProps) {
+  const { data, isLoading } = useCorporateActionEntries(portfolioId);
+  const record = useRecordCorporateAction();
+  const [symbol, setSymbol] = useState("");
+  const [type, setType] = useState<CorporateActionType>("dividend");
+  const [exDate, setExDate] = useState("");
+  const [value, setValue] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const entries = data?.entries ?? [];
+
+  const submit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setError(null);
+    setNotice(null);
+    const target = symbol.trim().toUpperCase();
+    if (!target || !exDate) {
+      setError("Symbol and ex-date are required");
+      return;
+    }
+
+    const payload = { symbol: target, type, exDate };
+    try {
+      if (type === "symbol_change") {
+        if (!value.trim()) {
+          setError("Enter the new symbol");
+          return;
+        }
+        await submitAction({ ...payload, newSymbol: value.trim().toUpperCase() });
+        return;
+      }
+      const amount = value ? Number(value) : undefined;
+      if (amount !== undefined && (!Number.isFinite(amount) || amount < 0)) {
+        setError("Value must be zero or positive");
+        return;
+      }
+      await submitAction(type === "split" ? { ...payload, ratio: amount } : { ...payload, amount });
+    } catch (recordError) {
+      setError(recordError instanceof Error ? recordError.message : "Unable to record corporate action");
+    }
+  };
+
+  const submitAction = async (payload: Parameters<typeof record.mutateAsync>[0]) => {
+    const result = await record.mutateAsync(payload);
+    setValue("");
+    setNotice(
+      result.failures.length
+        ? `${result.action.description}; failed for ${result.failures.length} portfolio(s): ${result.failures[0].error}`
+        : `${result.action.description}; adjusted ${result.entries.length} portfolio(s)`
+    );
+  };
+
+  return (
+    <div className="rounded-2xl border border-border bg-card p-6 shadow-sm">
+      <h3 className="text-base font-semibold text-foreground">Corporate Actions</h3>
+      <p className="mt-1 text-sm text-muted-foreground">
+        Splits and dividends are synced from Yahoo Finance. Recording an action applies it to every portfolio holding the
+        symbol.
+      </p>
+      <form onSubmit={submit} className="mt-4 grid grid-cols-2 gap-3 md:grid-cols-5">
+        <label className="flex flex-col text-sm">
+          Symbol
+          <input
+            type="text"
+            value={symbol}
+            onChange={(event) => setSymbol(event.target.value)}
+            className="mt-1 rounded-lg border border-border px-3 py-2 uppercase focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+          />
+        </label>
+        <label className="flex flex-col text-sm">
+          Action
+          <select
+            value={type}
+            onChange={(event) => setType(event.target.value as CorporateActionType)}
+            className="mt-1 rounded-lg border border-border px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+          >
+            {(Object.keys(ACTION_LABELS) as CorporateActionType[]).map((option) => (
+              <option key={option} value={option}>
+                {ACTION_LABELS[option]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-sm">
+          Ex-date
+          <input
+            type="date"
+            value={exDate}
+            onChange={(event) => setExDate(event.target.value)}
+            className="mt-1 rounded-lg border border-border px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+          />
+        </label>
+        <label className="flex flex-col text-sm">
+          {valueLabel(type)}
+          <input
+            type={type === "symbol_change" ? "text" : "number"}
+            min="0"
+            step="0.0001"
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+            className="mt-1 rounded-lg border border-border px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+          />
+        </label>
+        <div className="flex items-end">
+          <button
+            type="submit"
+            disabled={record.isPending}
+            className="w-full rounded-lg bg-brand-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-700 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {record.isPending ? "Applying..." : "Record"}
+          </button>
+        </div>
+      </form>
+      {error && <p className="mt-3 text-sm text-rose-600">{error}</p>}
+      {notice && <p className="mt-3 text-sm text-emerald-600">{notice}</p>}
+      {isLoading ? (
+        <p className="mt-4 text-sm text-muted-foreground">Loading corporate actions...</p>
+      ) : entries.length === 0 ? (
+        <p className="mt-4 text-sm text-muted-foreground">No corporate actions applied to this portfolio yet.</p>
+      ) : (
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full divide-y divide-border text-sm">
+            <thead className="text-left text-xs uppercase tracking-wide text-muted-foreground">
+              <tr>
+                <th className="px-3 py-2">Applied</th>
+                <th className="px-3 py-2">Symbol</th>
+                <th className="px-3 py-2">Action</th>
+                <th className="px-3 py-2 text-right">Qty</th>
+                <th className="px-3 py-2 text-right">Avg Price</th>
+                <th className="px-3 py-2 text-right">Cash</th>
+                <th className="px-3 py-2 text-right">Withheld</th>
+                <th className="px-3 py-2">Note</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border text-foreground">
+              {entries.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="px-3 py-2">{new Date(entry.createdAt).toLocaleDateString()}</td>
+                  <td className="px-3 py-2 font-medium">{entry.symbol}</td>
+                  <td className="px-3 py-2">{ACTION_LABELS[entry.type] ?? entry.type}</td>
+                  <td className="px-3 py-2 text-right">
+                    {formatNumber(entry.qtyBefore)} → {formatNumber(entry.qtyAfter)}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {formatCurrency(entry.avgPriceBefore, entry.currency)} → {formatCurrency(entry.avgPriceAfter, entry.currency)}
+                  </td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(entry.cashAmount, entry.currency)}</td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(entry.withholdingTax, entry.currency)}</td>
+                  <td className="px-3 py-2 text-xs text-muted-foreground">{entry.note ?? ""}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function valueLabel(type: CorporateActionType) {
+  switch (type) {
+    case "split":
+      return "New shares per share";
+    case "dividend":
+      return "Amount per share";
+    case "symbol_change":
+      return "New symbol";
+    case "delisting":
+      return "Payout per share";
+  }
+}
+
+function formatCurrency(value: number, currency: string) {
+  return value.toLocaleString(undefined, { style: "currency", currency });
+}
+
+function formatNumber(value: number) {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 4 });
+}
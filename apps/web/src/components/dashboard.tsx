@@ -2,30 +2,50 @@
 
 import { useState, useEffect } from "react";
 import Link from "next/link";
+import { CashBalances } from "@/components/cash-balances";
+import { CashLedger } from "@/components/cash-ledger";
+import { CorporateActions } from "@/components/corporate-actions";
 import { EquityChart } from "@/components/equity-chart";
+import { OrdersBlotter } from "@/components/orders-blotter";
+import { PerformancePanel } from "@/components/performance-panel";
 import { PortfolioManager } from "@/components/portfolio-manager";
+import { PortfolioSettings } from "@/components/portfolio-settings";
 import { PortfolioSummary } from "@/components/portfolio-summary";
 import { PositionsTable } from "@/components/positions-table";
 import { SearchBar } from "@/components/search-bar";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { TradeForm } from "@/components/trade-form";
-import { useEquityCurve, usePortfolio, useQuote, useTrades, usePortfolios } from "@/hooks/api";
+import {
+  useEquityCurve,
+  usePortfolio,
+  useQuote,
+  useRebuildEquityCurve,
+  useTrades,
+  usePortfolios
+} from "@/hooks/api";
 import { apiFetch } from "@/lib/api";
 import { useQueryClient } from "@tanstack/react-query";
 
 export function Dashboard() {
   const [selectedSymbol, setSelectedSymbol] = useState<string | null>(null);
   const [currentPortfolioId, setCurrentPortfolioId] = useState<number | null>(null);
+  // A date in the past shows the portfolio as it stood at the end of that day; empty means live.
+  const [asOfDate, setAsOfDate] = useState("");
+  const asOf = asOfDate ? new Date(`${asOfDate}T23:59:59.999`).toISOString() : undefined;
   const queryClient = useQueryClient();
 
-  const { data: portfolio } = usePortfolio(currentPortfolioId ?? undefined);
+  const { data: portfolio, isError: isPortfolioError, error: portfolioError } = usePortfolio(
+    currentPortfolioId ?? undefined,
+    asOf
+  );
   const {
     data: portfoliosData,
     isLoading: isPortfoliosLoading,
     isFetching: isPortfoliosFetching
   } = usePortfolios();
-  const { data: tradesData } = useTrades(currentPortfolioId ?? undefined);
-  const equityQuery = useEquityCurve(portfolio?.positions ?? [], "6M");
+  const { data: tradesData } = useTrades(currentPortfolioId ?? undefined, asOf);
+  const equityQuery = useEquityCurve(currentPortfolioId ?? undefined, "6M", asOf);
+  const rebuildEquityCurve = useRebuildEquityCurve(currentPortfolioId ?? undefined);
   const quoteQuery = useQuote(selectedSymbol ?? undefined);
   const latestTrades = tradesData?.trades.slice(0, 5) ?? [];
   const portfolios = portfoliosData?.portfolios ?? [];
@@ -43,11 +63,11 @@ export function Dashboard() {
     setCurrentPortfolioId(portfolioId);
   };
 
-  const handlePortfolioCreate = async (name: string, baseCurrency: string) => {
+  const handlePortfolioCreate = async (name: string, baseCurrency: string, startingCapital?: number) => {
     try {
       const created = await apiFetch<{ id: number }>("/api/portfolios", {
         method: "POST",
-        body: JSON.stringify({ name, baseCurrency })
+        body: JSON.stringify({ name, baseCurrency, startingCapital })
       });
       queryClient.invalidateQueries({ queryKey: ["portfolios"] });
       if (created?.id) {
@@ -65,6 +85,7 @@ export function Dashboard() {
       queryClient.invalidateQueries({ queryKey: ["portfolios"] });
       queryClient.invalidateQueries({ queryKey: ["portfolio"] });
       queryClient.invalidateQueries({ queryKey: ["trades"] });
+      queryClient.invalidateQueries({ queryKey: ["orders"] });
     } catch (error) {
       console.error("Failed to delete portfolio", error);
     }
@@ -75,6 +96,10 @@ export function Dashboard() {
       await apiFetch(`/api/portfolios/${portfolioId}/reset`, { method: "POST" });
       queryClient.invalidateQueries({ queryKey: ["portfolio", portfolioId] });
       queryClient.invalidateQueries({ queryKey: ["trades", portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["orders", portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["cash", portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["cash-transactions", portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["corporate-actions", portfolioId] });
     } catch (error) {
       console.error("Failed to reset portfolio", error);
     }
@@ -141,6 +166,18 @@ export function Dashboard() {
           >
             LLM console
           </Link>
+          <Link
+            href="/risk"
+            className="rounded-lg border border-border px-3 py-2 text-sm font-semibold text-muted-foreground transition hover:border-border hover:text-foreground"
+          >
+            Risk
+          </Link>
+          <Link
+            href="/backtests"
+            className="rounded-lg border border-border px-3 py-2 text-sm font-semibold text-muted-foreground transition hover:border-border hover:text-foreground"
+          >
+            Backtests
+          </Link>
           <PortfolioManager
             currentPortfolio={portfolio ?? portfolios[0] ?? null}
             onPortfolioChange={handlePortfolioChange}
@@ -208,26 +245,83 @@ export function Dashboard() {
           </div>
         </section>
       )}
+      <div className="flex flex-wrap items-center gap-3 rounded-2xl border border-border bg-card px-6 py-3 shadow-sm">
+        <label htmlFor="as-of-date" className="text-sm font-semibold text-foreground">
+          As of
+        </label>
+        <input
+          id="as-of-date"
+          type="date"
+          value={asOfDate}
+          max={new Date().toISOString().split("T")[0]}
+          onChange={(event) => setAsOfDate(event.target.value)}
+          className="rounded-lg border border-border px-3 py-1 text-sm focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+        />
+        {asOfDate ? (
+          <>
+            <span className="text-sm text-muted-foreground">
+              Summary, positions, chart and latest trades show the portfolio at the close of{" "}
+              {new Date(`${asOfDate}T00:00:00`).toLocaleDateString()}.
+            </span>
+            <button
+              type="button"
+              className="rounded-lg border border-border px-3 py-1 text-sm font-semibold text-muted-foreground transition hover:text-foreground"
+              onClick={() => setAsOfDate("")}
+            >
+              Back to live
+            </button>
+          </>
+        ) : (
+          <span className="text-sm text-muted-foreground">Live</span>
+        )}
+        {isPortfolioError && (
+          <span className="text-sm text-rose-600">
+            {portfolioError instanceof Error ? portfolioError.message : "Unable to load portfolio."}
+          </span>
+        )}
+      </div>
       <div className="grid gap-6 lg:grid-cols-3">
         <div className="lg:col-span-2">
           <PortfolioSummary portfolio={portfolio} />
         </div>
         <div className="rounded-2xl border border-border bg-card p-6 shadow-sm">
-          <h3 className="text-base font-semibold text-foreground">Equity Curve (6M)</h3>
-          {equityQuery.data && equityQuery.data.length > 0 ? (
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="text-base font-semibold text-foreground">
+              Equity Curve (6M{asOfDate ? ` to ${new Date(`${asOfDate}T00:00:00`).toLocaleDateString()}` : ""})
+            </h3>
+            <button
+              type="button"
+              className="text-xs font-semibold text-brand-600 hover:text-brand-700 disabled:opacity-50"
+              disabled={!currentPortfolioId || rebuildEquityCurve.isPending}
+              onClick={() => rebuildEquityCurve.mutate()}
+              title="Revalue every past day from the trade and cash ledgers"
+            >
+              {rebuildEquityCurve.isPending ? "Rebuilding..." : "Rebuild"}
+            </button>
+          </div>
+          {equityQuery.data && equityQuery.data.points.length > 0 ? (
             <div className="mt-4">
-              <EquityChart data={equityQuery.data} />
+              <EquityChart data={equityQuery.data.points} benchmark={equityQuery.data.benchmark} />
             </div>
           ) : (
-            <p className="mt-4 text-sm text-muted-foreground">No historical data available yet.</p>
+            <p className="mt-4 text-sm text-muted-foreground">
+              No valuations recorded yet. The daily valuation job fills them in, or rebuild them from the ledger.
+            </p>
           )}
         </div>
       </div>
+      <PerformancePanel portfolioId={currentPortfolioId ?? undefined} asOf={asOf} />
       <PositionsTable
         positions={portfolio?.positions ?? []}
         baseCurrency={portfolio?.baseCurrency ?? "USD"}
+        portfolioId={currentPortfolioId ?? undefined}
         onSelectSymbol={handleSelectSymbol}
       />
+      <OrdersBlotter portfolioId={currentPortfolioId ?? undefined} baseCurrency={portfolio?.baseCurrency ?? "USD"} />
+      <CashBalances portfolioId={currentPortfolioId ?? undefined} />
+      <CashLedger portfolioId={currentPortfolioId ?? undefined} baseCurrency={portfolio?.baseCurrency ?? "USD"} />
+      <CorporateActions portfolioId={currentPortfolioId ?? undefined} />
+      <PortfolioSettings portfolioId={currentPortfolioId ?? undefined} />
       <div className="rounded-2xl border border-border bg-card p-6 shadow-sm">
         <div className="mb-3 flex items-center justify-between">
           <h3 className="text-base font-semibold text-foreground">Latest Trades</h3>
@@ -248,7 +342,11 @@ export function Dashboard() {
             </thead>
             <tbody className="divide-y divide-border text-foreground">
               {latestTrades.map((trade) => (
-                <tr key={trade.id}>
+                <tr
+                  key={trade.id}
+                  className={trade.reversedAt ? "text-muted-foreground line-through" : undefined}
+                  title={trade.reversedAt ? `Reversed: ${trade.reversalReason ?? ""}` : undefined}
+                >
                   <td className="px-3 py-2 text-xs text-muted-foreground">{new Date(trade.ts).toLocaleString()}</td>
                   <td className="px-3 py-2 font-medium text-foreground">{trade.symbol}</td>
                   <td className={`px-3 py-2 font-semibold ${trade.side === "BUY" ? "text-emerald-600" : "text-rose-600"}`}>
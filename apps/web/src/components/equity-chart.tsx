@@ -13,18 +13,21 @@ import {
 import "chartjs-adapter-date-fns";
 import { Line } from "react-chartjs-2";
 import { useMemo } from "react";
-import type { EquityPoint } from "@/hooks/api";
+import type { BenchmarkOverlay, EquityPoint } from "@/hooks/api";
 import type { ChartOptions, TooltipItem } from "chart.js";
 
 ChartJS.register(CategoryScale, LinearScale, TimeScale, PointElement, LineElement, Tooltip, Legend);
 
 interface EquityChartProps {
   data: EquityPoint[];
+  /** Drawn as a second line, on the same dates, when the portfolio has a benchmark. */
+  benchmark?: BenchmarkOverlay | null;
 }
 
-export function EquityChart({ data }: EquityChartProps) {
-  const chartData = useMemo(
-    () => ({
+export function EquityChart({ data, benchmark }: EquityChartProps) {
+  const chartData = useMemo(() => {
+    const benchmarkValues = new Map(benchmark?.points.map((point) => [point.date, point.value]));
+    return {
       labels: data.map((point) => point.date),
       datasets: [
         {
@@ -33,11 +36,24 @@ export function EquityChart({ data }: EquityChartProps) {
           borderColor: "#2563eb",
           backgroundColor: "rgba(37, 99, 235, 0.2)",
           tension: 0.3
-        }
+        },
+        ...(benchmark && benchmark.points.length > 0
+          ? [
+              {
+                label: benchmark.label,
+                data: data.map((point) => benchmarkValues.get(point.date) ?? null),
+                borderColor: "#94a3b8",
+                backgroundColor: "rgba(148, 163, 184, 0.2)",
+                borderDash: [6, 4],
+                pointRadius: 0,
+                tension: 0.3
+              }
+            ]
+          : [])
       ]
-    }),
-    [data]
-  );
+    };
+  }, [data, benchmark]);
+  const showLegend = chartData.datasets.length > 1;
 
   const options = useMemo<ChartOptions<"line">>(
     () => ({
@@ -46,7 +62,7 @@ export function EquityChart({ data }: EquityChartProps) {
       interaction: { intersect: false, mode: "index" as const },
       stacked: false,
       plugins: {
-        legend: { display: false },
+        legend: { display: showLegend },
         tooltip: {
           callbacks: {
             label: (context: TooltipItem<"line">) => {
@@ -57,9 +73,10 @@ export function EquityChart({ data }: EquityChartProps) {
                     ? Number((context.parsed as { y: number }).y)
                     : null;
 
+              const label = context.dataset.label ?? "Equity";
               return parsedValue !== null
-                ? `Equity: ${parsedValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
-                : "Equity";
+                ? `${label}: ${parsedValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+                : label;
             }
           }
         }
@@ -77,7 +94,7 @@ export function EquityChart({ data }: EquityChartProps) {
         }
       }
     }),
-    []
+    [showLegend]
   );
 
   return (
@@ -0,0 +1,457 @@
+"use client";
+
+import { FormEvent, useMemo, useState } from "react";
+import { BacktestChart } from "@/components/backtest-chart";
+import { BacktestStepBrowser } from "@/components/llm/backtest-steps";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  BacktestDetail,
+  BacktestRun,
+  RunFrequency,
+  useBacktestDetails,
+  useBacktests,
+  useCreateBacktest,
+  useDeleteBacktest,
+  useExchanges,
+  useLlmProviders,
+  usePortfolioPrompts
+} from "@/hooks/api";
+
+interface Props {
+  portfolioId?: number;
+}
+
+interface FormState {
+  name: string;
+  promptId: string;
+  providerId: string;
+  symbols: string;
+  frequency: RunFrequency;
+  timeOfDay: string;
+  dayOfWeek: string;
+  dayOfMonth: string;
+  exchange: string;
+  startDate: string;
+  endDate: string;
+  startingCapital: string;
+  benchmarkSymbol: string;
+}
+
+const defaultForm: FormState = {
+  name: "",
+  promptId: "",
+  providerId: "",
+  symbols: "",
+  frequency: "daily",
+  timeOfDay: "16:30",
+  dayOfWeek: "1",
+  dayOfMonth: "1",
+  exchange: "XNYS",
+  startDate: "",
+  endDate: "",
+  startingCapital: "",
+  benchmarkSymbol: "SPY"
+};
+
+const daysOfWeek = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const selectClass = "rounded-md border border-border bg-card px-3 py-2 text-sm text-foreground";
+
+export function BacktestPanel({ portfolioId }: Props) {
+  const { data, isLoading, isError } = useBacktests(portfolioId);
+  const runs = useMemo(() => data?.backtests ?? [], [data?.backtests]);
+  const deleteBacktest = useDeleteBacktest(portfolioId);
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+  const [viewedId, setViewedId] = useState<number | null>(null);
+  const compared = useBacktestDetails(portfolioId, compareIds);
+  const comparedRuns = compared.map((query) => query.data).filter((run): run is BacktestDetail => Boolean(run));
+
+  if (!portfolioId) {
+    return null;
+  }
+
+  const toggleCompare = (id: number) =>
+    setCompareIds((ids) => (ids.includes(id) ? ids.filter((existing) => existing !== id) : [...ids, id]));
+
+  const handleDelete = (id: number) => {
+    deleteBacktest.mutate(id, {
+      onSuccess: () => {
+        setCompareIds((ids) => ids.filter((existing) => existing !== id));
+        setViewedId((current) => (current === id ? null : current));
+      }
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <BacktestForm portfolioId={portfolioId} />
+
+      <section className="space-y-4 rounded-2xl border border-border bg-card p-6 shadow-sm">
+        <header>
+          <h2 className="text-xl font-semibold text-foreground">Runs</h2>
+          <p className="text-sm text-muted-foreground">
+            Tick runs to compare their equity curves and metrics; open one to browse its steps.
+          </p>
+        </header>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading backtests...</p>
+        ) : isError ? (
+          <p className="text-sm text-rose-600">Unable to load backtests.</p>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No backtests have been run for this portfolio yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-border text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase tracking-wide text-muted-foreground">
+                  <th className="py-2" />
+                  <th className="py-2">Run</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2 text-right">Return</th>
+                  <th className="py-2 text-right">Sharpe</th>
+                  <th className="py-2 text-right">Max drawdown</th>
+                  <th className="py-2 text-right">Against benchmark</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {runs.map((run) => (
+                  <tr key={run.id} className={viewedId === run.id ? "bg-muted/40" : undefined}>
+                    <td className="py-2 pr-2">
+                      <input
+                        type="checkbox"
+                        aria-label={`Compare ${run.name}`}
+                        checked={compareIds.includes(run.id)}
+                        onChange={() => toggleCompare(run.id)}
+                      />
+                    </td>
+                    <td className="py-2">
+                      <p className="font-medium text-foreground">{run.name}</p>
+                      <p className="text-xs text-muted-foreground">{describeRun(run)}</p>
+                    </td>
+                    <td className="py-2">
+                      <span className={statusClass(run.status)}>{run.status.toUpperCase()}</span>
+                      <p className="text-xs text-muted-foreground">
+                        {run.progress.completed}/{run.progress.total} steps
+                      </p>
+                      {run.errorMessage ? <p className="text-xs text-rose-600">{run.errorMessage}</p> : null}
+                    </td>
+                    <td className="py-2 text-right">{formatPercent(run.performance?.timeWeightedReturn ?? null)}</td>
+                    <td className="py-2 text-right">{formatNumber(run.performance?.sharpe ?? null)}</td>
+                    <td className="py-2 text-right">
+                      {formatPercent(run.performance?.maxDrawdown ? -run.performance.maxDrawdown.depth : null)}
+                    </td>
+                    <td className="py-2 text-right">
+                      {formatPercent(run.performance?.benchmark?.excessReturn ?? null)}
+                    </td>
+                    <td className="py-2 text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button type="button" size="sm" variant="outline" onClick={() => setViewedId(run.id)}>
+                          Steps
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="destructive"
+                          onClick={() => handleDelete(run.id)}
+                          disabled={deleteBacktest.isPending}
+                        >
+                          Delete
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {comparedRuns.length > 0 && (
+        <section className="space-y-4 rounded-2xl border border-border bg-card p-6 shadow-sm">
+          <header>
+            <h2 className="text-xl font-semibold text-foreground">Comparison</h2>
+            <p className="text-sm text-muted-foreground">Equity as the growth of 100 of each run&apos;s capital.</p>
+          </header>
+          <BacktestChart runs={comparedRuns} />
+          <ComparisonTable runs={comparedRuns} />
+        </section>
+      )}
+
+      {viewedId !== null && <BacktestStepBrowser portfolioId={portfolioId} backtestId={viewedId} />}
+    </div>
+  );
+}
+
+function BacktestForm({ portfolioId }: { portfolioId: number }) {
+  const { data: providersData } = useLlmProviders();
+  const { data: promptsData } = usePortfolioPrompts(portfolioId);
+  const { data: exchangesData } = useExchanges();
+  const createBacktest = useCreateBacktest(portfolioId);
+  const providers = providersData?.providers ?? [];
+  const prompts = promptsData?.prompts ?? [];
+  const exchanges = exchangesData?.exchanges ?? [];
+  const [form, setForm] = useState<FormState>({ ...defaultForm });
+  const [message, setMessage] = useState<{ text: string; tone: "error" | "success" } | null>(null);
+  const selectedExchange = exchanges.find((exchange) => exchange.mic === form.exchange);
+
+  const update = (field: keyof FormState) => (event: { target: { value: string } }) =>
+    setForm((prev) => ({ ...prev, [field]: event.target.value }));
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setMessage(null);
+    const symbols = form.symbols
+      .split(/[\s,]+/)
+      .map((symbol) => symbol.trim().toUpperCase())
+      .filter(Boolean);
+    if (symbols.length === 0 || !form.startDate || !form.endDate) {
+      setMessage({ text: "Enter the symbols to trade and the date range.", tone: "error" });
+      return;
+    }
+
+    createBacktest.mutate(
+      {
+        name: form.name.trim() || undefined,
+        promptId: form.promptId ? Number(form.promptId) : undefined,
+        providerId: form.providerId ? Number(form.providerId) : undefined,
+        symbols,
+        frequency: form.frequency,
+        timeOfDay: form.timeOfDay,
+        dayOfWeek: form.frequency === "weekly" ? Number(form.dayOfWeek) : undefined,
+        dayOfMonth: form.frequency === "monthly" ? Number(form.dayOfMonth) : undefined,
+        exchange: form.exchange || null,
+        startDate: `${form.startDate}T00:00:00Z`,
+        endDate: `${form.endDate}T23:59:59Z`,
+        startingCapital: form.startingCapital ? Number(form.startingCapital) : undefined,
+        benchmarkSymbol: form.benchmarkSymbol.trim() || undefined
+      },
+      {
+        onSuccess: ({ backtest }) =>
+          setMessage({
+            text: `Started "${backtest.name}" with ${backtest.progress.total} steps.`,
+            tone: "success"
+          }),
+        onError: (error) =>
+          setMessage({ text: (error as Error)?.message ?? "Unable to start the backtest.", tone: "error" })
+      }
+    );
+  };
+
+  return (
+    <section className="space-y-4 rounded-2xl border border-border bg-card p-6 shadow-sm">
+      <header>
+        <h2 className="text-xl font-semibold text-foreground">New backtest</h2>
+        <p className="text-sm text-muted-foreground">
+          Replays the prompt over past dates with only the prices known at each step, trading a simulated copy of the
+          portfolio&apos;s cost settings.
+        </p>
+      </header>
+      <form className="grid gap-3 md:grid-cols-3" onSubmit={handleSubmit}>
+        <div className="flex flex-col gap-1">
+          <Label htmlFor="backtest-name">Name</Label>
+          <Input id="backtest-name" value={form.name} onChange={update("name")} placeholder="Optional" />
+        </div>
+        <div className="flex flex-col gap-1">
+          <Label htmlFor="backtest-prompt">Prompt</Label>
+          <select id="backtest-prompt" className={selectClass} value={form.promptId} onChange={update("promptId")}>
+            <option value="">Use default prompt</option>
+            {prompts.map((prompt) => (
+              <option key={prompt.id} value={prompt.id}>
+                {prompt.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col gap-1">
+          <Label htmlFor="backtest-provider">Provider</Label>
+          <select
+            id="backtest-provider"
+            className={selectClass}
+            value={form.providerId}
+            onChange={update("providerId")}
+          >
+            <option value="">Use default provider</option>
+            {providers.map((provider) => (
+              <option key={provider.id} value={provider.id}>
+                {provider.name} ({provider.model})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col gap-1 md:col-span-2">
+          <Label htmlFor="backtest-symbols">Symbols</Label>
+          <Input
+            id="backtest-symbols"
+            value={form.symbols}
+            onChange={update("symbols")}
+            placeholder="AAPL, MSFT, SPY"
+          />
+        </div>
+        <div className="flex flex-col gap-1">
+          <Label htmlFor="backtest-benchmark">Benchmark</Label>
+          <Input id="backtest-benchmark" value={form.benchmarkSymbol} onChange={update("benchmarkSymbol")} />
+        </div>
+        <div className="flex flex-col gap-1">
+          <Label htmlFor="backtest-start">From</Label>
+          <Input id="backtest-start" type="date" value={form.startDate} onChange={update("startDate")} />
+        </div>
+        <div className="flex flex-col gap-1">
+          <Label htmlFor="backtest-end">To</Label>
+          <Input id="backtest-end" type="date" value={form.endDate} onChange={update("endDate")} />
+        </div>
+        <div className="flex flex-col gap-1">
+          <Label htmlFor="backtest-capital">Starting capital</Label>
+          <Input
+            id="backtest-capital"
+            type="number"
+            min="0"
+            value={form.startingCapital}
+            onChange={update("startingCapital")}
+            placeholder="Portfolio's starting capital"
+          />
+        </div>
+        <div className="flex flex-col gap-1">
+          <Label htmlFor="backtest-exchange">Calendar</Label>
+          <select id="backtest-exchange" className={selectClass} value={form.exchange} onChange={update("exchange")}>
+            <option value="">None (every day)</option>
+            {exchanges.map((exchange) => (
+              <option key={exchange.mic} value={exchange.mic}>
+                {exchange.name} ({exchange.mic})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col gap-1">
+          <Label htmlFor="backtest-frequency">Frequency</Label>
+          <select id="backtest-frequency" className={selectClass} value={form.frequency} onChange={update("frequency")}>
+            <option value="daily">Daily</option>
+            <option value="weekly">Weekly</option>
+            <option value="monthly">Monthly</option>
+          </select>
+        </div>
+        <div className="flex flex-col gap-1">
+          <Label htmlFor="backtest-time">Time ({selectedExchange?.timeZone ?? "UTC"})</Label>
+          <Input id="backtest-time" type="time" value={form.timeOfDay} onChange={update("timeOfDay")} />
+        </div>
+        {form.frequency === "weekly" ? (
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="backtest-weekday">Day of the week</Label>
+            <select id="backtest-weekday" className={selectClass} value={form.dayOfWeek} onChange={update("dayOfWeek")}>
+              {daysOfWeek.map((label, index) => (
+                <option key={label} value={index}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        ) : null}
+        {form.frequency === "monthly" ? (
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="backtest-monthday">Day of the month</Label>
+            <Input
+              id="backtest-monthday"
+              type="number"
+              min="1"
+              max="31"
+              value={form.dayOfMonth}
+              onChange={update("dayOfMonth")}
+            />
+          </div>
+        ) : null}
+        <div className="flex gap-2 md:col-span-3">
+          <Button type="submit" disabled={createBacktest.isPending}>
+            {createBacktest.isPending ? "Starting..." : "Run backtest"}
+          </Button>
+          <Button type="button" variant="outline" onClick={() => setForm({ ...defaultForm })}>
+            Reset
+          </Button>
+        </div>
+      </form>
+      {message ? (
+        <p className={`text-sm ${message.tone === "error" ? "text-rose-600" : "text-emerald-600"}`}>{message.text}</p>
+      ) : null}
+    </section>
+  );
+}
+
+function ComparisonTable({ runs }: { runs: BacktestDetail[] }) {
+  const rows: Array<{ label: string; value: (run: BacktestDetail) => string }> = [
+    { label: "Model", value: (run) => run.model },
+    { label: "Final NAV", value: (run) => formatCurrency(run.performance?.endValue ?? null, run.baseCurrency) },
+    { label: "Time-weighted return", value: (run) => formatPercent(run.performance?.timeWeightedReturn ?? null) },
+    { label: "Annualized", value: (run) => formatPercent(run.performance?.annualizedReturn ?? null) },
+    { label: "Volatility", value: (run) => formatPercent(run.performance?.volatility ?? null) },
+    { label: "Sharpe", value: (run) => formatNumber(run.performance?.sharpe ?? null) },
+    { label: "Sortino", value: (run) => formatNumber(run.performance?.sortino ?? null) },
+    {
+      label: "Max drawdown",
+      value: (run) => formatPercent(run.performance?.maxDrawdown ? -run.performance.maxDrawdown.depth : null)
+    },
+    { label: "Win rate", value: (run) => formatPercent(run.performance?.winRate ?? null) },
+    { label: "Turnover", value: (run) => formatNumber(run.performance?.turnover ?? null) },
+    { label: "Benchmark return", value: (run) => formatPercent(run.performance?.benchmark?.benchmarkReturn ?? null) },
+    { label: "Excess return", value: (run) => formatPercent(run.performance?.benchmark?.excessReturn ?? null) },
+    { label: "Failed steps", value: (run) => String(run.steps.filter((step) => step.status === "failed").length) }
+  ];
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full divide-y divide-border text-sm">
+        <thead>
+          <tr className="text-left text-xs uppercase tracking-wide text-muted-foreground">
+            <th className="py-2" />
+            {runs.map((run) => (
+              <th key={run.id} className="py-2 text-right">
+                {run.name}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">
+          {rows.map((row) => (
+            <tr key={row.label}>
+              <td className="py-2 text-muted-foreground">{row.label}</td>
+              {runs.map((run) => (
+                <td key={run.id} className="py-2 text-right text-foreground">
+                  {row.value(run)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function describeRun(run: BacktestRun) {
+  const range = `${run.startDate.slice(0, 10)} to ${run.endDate.slice(0, 10)}`;
+  const calendar = run.schedule.exchange ? ` on ${run.schedule.exchange} days` : "";
+  return `${run.symbols.join(", ")} · ${range} · ${run.schedule.frequency} at ${run.schedule.timeOfDay}${calendar} · ${run.model}`;
+}
+
+function statusClass(status: BacktestRun["status"]) {
+  if (status === "failed") {
+    return "text-xs font-semibold text-rose-600";
+  }
+  if (status === "completed") {
+    return "text-xs font-semibold text-emerald-600";
+  }
+  return "text-xs font-semibold text-amber-600";
+}
+
+function formatPercent(value: number | null) {
+  return value === null ? "--" : `${(value * 100).toFixed(2)}%`;
+}
+
+function formatNumber(value: number | null) {
+  return value === null ? "--" : value.toFixed(2);
+}
+
+function formatCurrency(value: number | null, currency: string) {
+  return value === null ? "--" : value.toLocaleString(undefined, { style: "currency", currency });
+}
@@ -0,0 +1,153 @@
+"use client";
+
+import { useState } from "react";
+import { BacktestStep, useBacktest, useBacktestStep } from "@/hooks/api";
+
+interface Props {
+  portfolioId: number;
+  backtestId: number;
+}
+
+export function BacktestStepBrowser({ portfolioId, backtestId }: Props) {
+  const { data: run, isLoading, isError } = useBacktest(portfolioId, backtestId);
+  const [selectedStepId, setSelectedStepId] = useState<number | null>(null);
+
+  return (
+    <section className="space-y-4 rounded-2xl border border-border bg-card p-6 shadow-sm">
+      <header>
+        <h2 className="text-xl font-semibold text-foreground">{run ? `Steps of ${run.name}` : "Steps"}</h2>
+        <p className="text-sm text-muted-foreground">
+          Each step is one model call at a simulated time; orders it placed fill on the following bars.
+        </p>
+      </header>
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading steps...</p>
+      ) : isError || !run ? (
+        <p className="text-sm text-rose-600">Unable to load this backtest.</p>
+      ) : run.steps.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No steps have run yet.</p>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          <div className="max-h-[32rem] overflow-y-auto">
+            <table className="min-w-full divide-y divide-border text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase tracking-wide text-muted-foreground">
+                  <th className="py-2">Time</th>
+                  <th className="py-2">Status</th>
+                  <th className="py-2 text-right">Orders</th>
+                  <th className="py-2 text-right">Fills</th>
+                  <th className="py-2 text-right">NAV</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {run.steps.map((step) => (
+                  <tr
+                    key={step.id}
+                    className={`cursor-pointer ${selectedStepId === step.id ? "bg-muted/40" : "hover:bg-muted/20"}`}
+                    onClick={() => setSelectedStepId(step.id)}
+                  >
+                    <td className="py-2">{new Date(step.at).toLocaleString()}</td>
+                    <td className={`py-2 ${step.status === "failed" ? "text-rose-600" : "text-foreground"}`}>
+                      {step.status}
+                    </td>
+                    <td className="py-2 text-right">{step.orders.length}</td>
+                    <td className="py-2 text-right">{step.fills.length}</td>
+                    <td className="py-2 text-right">
+                      {step.nav.toLocaleString(undefined, { style: "currency", currency: run.baseCurrency })}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {selectedStepId !== null ? (
+            <StepDetail portfolioId={portfolioId} backtestId={backtestId} stepId={selectedStepId} />
+          ) : (
+            <p className="text-sm text-muted-foreground">Select a step to see the prompt, response and orders.</p>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
+
+function StepDetail({ portfolioId, backtestId, stepId }: Props & { stepId: number }) {
+  const { data: step, isLoading, isError } = useBacktestStep(portfolioId, backtestId, stepId);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading step...</p>;
+  }
+  if (isError || !step) {
+    return <p className="text-sm text-rose-600">Unable to load this step.</p>;
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      {step.errorMessage ? <p className="text-rose-600">{step.errorMessage}</p> : null}
+      <details>
+        <summary className="cursor-pointer font-medium text-foreground">Prompt</summary>
+        <pre className="mt-2 max-h-64 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">
+          {step.userPrompt}
+        </pre>
+      </details>
+      <details open>
+        <summary className="cursor-pointer font-medium text-foreground">Response</summary>
+        <pre className="mt-2 max-h-64 overflow-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-xs">
+          {step.plan ? JSON.stringify(step.plan, null, 2) : (step.responseText ?? "No response")}
+        </pre>
+      </details>
+      <StepOrders step={step} />
+      <StepFills step={step} />
+    </div>
+  );
+}
+
+function StepOrders({ step }: { step: BacktestStep }) {
+  if (step.orders.length === 0) {
+    return <p className="text-muted-foreground">No orders placed at this step.</p>;
+  }
+  return (
+    <div>
+      <h3 className="font-medium text-foreground">Orders</h3>
+      <ul className="mt-1 space-y-1">
+        {step.orders.map((order) => (
+          <li key={order.id} className="flex justify-between gap-2">
+            <span>
+              {order.side} {order.qty} {order.symbol} {order.orderType}
+              {order.limitPrice !== undefined ? ` @ ${order.limitPrice}` : ""}
+              {order.stopPrice !== undefined ? ` stop ${order.stopPrice}` : ""}
+            </span>
+            <span className={order.status === "rejected" ? "text-rose-600" : "text-muted-foreground"}>
+              {order.status}
+              {order.reason ? `: ${order.reason}` : ""}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function StepFills({ step }: { step: BacktestStep }) {
+  if (step.fills.length === 0) {
+    return null;
+  }
+  return (
+    <div>
+      <h3 className="font-medium text-foreground">Fills since the previous step</h3>
+      <ul className="mt-1 space-y-1">
+        {step.fills.map((fill) => (
+          <li key={`${fill.orderId}-${fill.at}`} className="flex justify-between gap-2">
+            <span>
+              {fill.side} {fill.qty} {fill.symbol} @ {fill.price.toFixed(2)}
+            </span>
+            <span className="text-muted-foreground">
+              fee {fill.fee.toFixed(2)}
+              {fill.realizedPnL !== null ? ` · P&L ${fill.realizedPnL.toFixed(2)}` : ""}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
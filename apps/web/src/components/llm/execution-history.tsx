@@ -1,7 +1,8 @@
 ﻿"use client";
 
 import { useMemo, useState } from "react";
-import { LlmExecutionDto, useLlmExecutions } from "@/hooks/api";
+import { LlmExecutionDto, useLlmExecutions, useReplayLlmExecution } from "@/hooks/api";
+import { ToolCallList } from "./tool-calls";
 
 interface Props {
   portfolioId?: number;
@@ -22,6 +23,7 @@ export function LlmExecutionHistory({ portfolioId }: Props) {
   const { data, isLoading, isError } = useLlmExecutions(portfolioId);
   const executions = useMemo(() => data?.executions ?? [], [data?.executions]);
   const [expandedId, setExpandedId] = useState<number | null>(null);
+  const replay = useReplayLlmExecution(portfolioId);
 
   if (!portfolioId) {
     return null;
@@ -52,18 +54,36 @@ export function LlmExecutionHistory({ portfolioId }: Props) {
                     </p>
                     <p className="text-xs text-muted-foreground">
                       Provider: {execution.provider?.name ?? "Default"} • Prompt: {execution.prompt?.name ?? "Default"}
+                      {execution.scheduleId ? ` • Scheduled (#${execution.scheduleId})` : ""}
+                      {execution.request?.replayOf ? ` • Replay of #${String(execution.request.replayOf)}` : ""}
                     </p>
                     {execution.errorMessage ? (
                       <p className="text-xs text-rose-600">{execution.errorMessage}</p>
                     ) : null}
+                    {replay.isError && replay.variables === execution.id ? (
+                      <p className="text-xs text-rose-600">Replay failed: {(replay.error as Error).message}</p>
+                    ) : null}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {execution.replayable ? (
+                      <button
+                        type="button"
+                        className="text-xs font-semibold text-brand-600 hover:text-brand-700 disabled:opacity-50"
+                        onClick={() => replay.mutate(execution.id)}
+                        disabled={replay.isPending}
+                        title="Run the recorded context and responses through the current validation"
+                      >
+                        {replay.isPending && replay.variables === execution.id ? "Replaying..." : "Replay"}
+                      </button>
+                    ) : null}
+                    <button
+                      type="button"
+                      className="text-xs font-semibold text-brand-600 hover:text-brand-700"
+                      onClick={() => setExpandedId(isExpanded ? null : execution.id)}
+                    >
+                      {isExpanded ? "Hide details" : "View details"}
+                    </button>
                   </div>
-                  <button
-                    type="button"
-                    className="text-xs font-semibold text-brand-600 hover:text-brand-700"
-                    onClick={() => setExpandedId(isExpanded ? null : execution.id)}
-                  >
-                    {isExpanded ? "Hide details" : "View details"}
-                  </button>
                 </div>
                 {isExpanded ? <ExecutionDetails execution={execution} /> : null}
               </li>
@@ -86,6 +106,14 @@ function ExecutionDetails({ execution }: { execution: LlmExecutionDto }) {
         <summary className="cursor-pointer text-foreground">Plan / response JSON</summary>
         <pre className="mt-2 whitespace-pre-wrap text-[11px] text-foreground">{formatJson(execution.responseJson)}</pre>
       </details>
+      {execution.toolCalls.length > 0 ? (
+        <details className="rounded-md border border-border bg-muted/40 p-3">
+          <summary className="cursor-pointer text-foreground">Tool calls ({execution.toolCalls.length})</summary>
+          <div className="mt-2">
+            <ToolCallList toolCalls={execution.toolCalls} />
+          </div>
+        </details>
+      ) : null}
       <details className="rounded-md border border-border bg-muted/40 p-3">
         <summary className="cursor-pointer text-foreground">Executed orders</summary>
         <pre className="mt-2 whitespace-pre-wrap text-[11px] text-foreground">{formatJson(execution.executedOrders)}</pre>
@@ -7,11 +7,21 @@ import {
   useDeletePortfolioPrompt,
   useLlmProviders,
   usePortfolioPrompts,
-  useUpdatePortfolioPrompt
+  useUpdatePortfolioPrompt,
+  useWatchlists
 } from "@/hooks/api";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  describeUniverseSettings,
+  emptyUniverseForm,
+  toUniverseForm,
+  toUniverseUpdate,
+  UniverseFields,
+  UniverseFormState,
+  universeFormError
+} from "@/components/llm/universe-fields";
 
 interface PromptFormState {
   name: string;
@@ -21,6 +31,7 @@ interface PromptFormState {
   providerId: string;
   isDefault: boolean;
   isActive: boolean;
+  universe: UniverseFormState;
 }
 
 const defaultPromptForm: PromptFormState = {
@@ -30,9 +41,12 @@ const defaultPromptForm: PromptFormState = {
   userTemplate: "",
   providerId: "",
   isDefault: false,
-  isActive: true
+  isActive: true,
+  universe: emptyUniverseForm
 };
 
+const PROMPT_UNIVERSE_NONE = "Portfolio's universe";
+
 interface Props {
   portfolioId?: number;
 }
@@ -51,6 +65,7 @@ export function PortfolioPromptManager({ portfolioId }: Props) {
   const createMutation = useCreatePortfolioPrompt(portfolioId);
   const updateMutation = useUpdatePortfolioPrompt(portfolioId);
   const deleteMutation = useDeletePortfolioPrompt(portfolioId);
+  const { data: watchlistsData } = useWatchlists();
 
   const providers = useMemo(() => providersData?.providers ?? [], [providersData?.providers]);
   const prompts = useMemo(() => data?.prompts ?? [], [data?.prompts]);
@@ -58,6 +73,8 @@ export function PortfolioPromptManager({ portfolioId }: Props) {
   const [form, setForm] = useState<PromptFormState>(defaultPromptForm);
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editingDraft, setEditingDraft] = useState<PromptFormState | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
 
   if (!portfolioId) {
     return (
@@ -72,8 +89,15 @@ export function PortfolioPromptManager({ portfolioId }: Props) {
     setForm(defaultPromptForm);
   };
 
+  const watchlistName = (id: number) => watchlistsData?.watchlists.find((watchlist) => watchlist.id === id)?.name;
+
   const handleCreate = (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
+    const universeError = universeFormError(form.universe);
+    setFormError(universeError);
+    if (universeError) {
+      return;
+    }
     createMutation.mutate(
       {
         name: form.name.trim(),
@@ -82,7 +106,8 @@ export function PortfolioPromptManager({ portfolioId }: Props) {
         userTemplate: form.userTemplate,
         providerId: toNumberOrNull(form.providerId) ?? undefined,
         isDefault: form.isDefault,
-        isActive: form.isActive
+        isActive: form.isActive,
+        ...toUniverseUpdate(form.universe)
       },
       {
         onSuccess: resetForm
@@ -102,8 +127,10 @@ export function PortfolioPromptManager({ portfolioId }: Props) {
       userTemplate: prompt.userTemplate,
       providerId: prompt.providerId !== null ? String(prompt.providerId) : "",
       isDefault: prompt.isDefault,
-      isActive: prompt.isActive
+      isActive: prompt.isActive,
+      universe: toUniverseForm(prompt.universe)
     });
+    setEditError(null);
   };
 
   const cancelEdit = () => {
@@ -116,6 +143,11 @@ export function PortfolioPromptManager({ portfolioId }: Props) {
     if (editingId === null || !editingDraft) {
       return;
     }
+    const universeError = universeFormError(editingDraft.universe);
+    setEditError(universeError);
+    if (universeError) {
+      return;
+    }
     updateMutation.mutate(
       {
         id: editingId,
@@ -126,7 +158,8 @@ export function PortfolioPromptManager({ portfolioId }: Props) {
           userTemplate: editingDraft.userTemplate,
           providerId: toNumberOrNull(editingDraft.providerId),
           isDefault: editingDraft.isDefault,
-          isActive: editingDraft.isActive
+          isActive: editingDraft.isActive,
+          ...toUniverseUpdate(editingDraft.universe)
         }
       },
       {
@@ -207,9 +240,15 @@ export function PortfolioPromptManager({ portfolioId }: Props) {
             value={form.userTemplate}
             onChange={(event) => setForm((prev) => ({ ...prev, userTemplate: event.target.value }))}
             className="min-h-[160px] rounded-md border border-border bg-card px-3 py-2 text-sm text-foreground"
-            placeholder="Template with placeholders ({{PORTFOLIO_JSON}} etc.)"
+            placeholder="Template with placeholders ({{PORTFOLIO_JSON}}, {{UNIVERSE_QUOTES_JSON}} etc.)"
           />
         </div>
+        <UniverseFields
+          id="prompt-universe"
+          value={form.universe}
+          onChange={(universe) => setForm((prev) => ({ ...prev, universe }))}
+          noneLabel={PROMPT_UNIVERSE_NONE}
+        />
         <div className="flex flex-wrap gap-4">
           <label className="flex items-center gap-2 text-sm text-foreground">
             <input
@@ -228,6 +267,7 @@ export function PortfolioPromptManager({ portfolioId }: Props) {
             Prompt is active
           </label>
         </div>
+        {formError && <p className="text-sm text-rose-600">{formError}</p>}
         <Button type="submit" disabled={createMutation.isPending}>
           {createMutation.isPending ? "Creating..." : "Save prompt"}
         </Button>
@@ -324,6 +364,14 @@ export function PortfolioPromptManager({ portfolioId }: Props) {
                           className="min-h-[160px] rounded-md border border-border bg-card px-3 py-2 text-sm text-foreground"
                         />
                       </div>
+                      <UniverseFields
+                        id={`edit-prompt-universe-${prompt.id}`}
+                        value={editingDraft.universe}
+                        onChange={(universe) =>
+                          setEditingDraft((prev) => (prev ? { ...prev, universe } : prev))
+                        }
+                        noneLabel={PROMPT_UNIVERSE_NONE}
+                      />
                       <div className="flex flex-wrap gap-4">
                         <label className="flex items-center gap-2 text-sm text-foreground">
                           <input
@@ -350,6 +398,7 @@ export function PortfolioPromptManager({ portfolioId }: Props) {
                           Active
                         </label>
                       </div>
+                      {editError && <p className="text-sm text-rose-600">{editError}</p>}
                       <div className="flex gap-2">
                         <Button type="submit" disabled={updateMutation.isPending}>
                           {updateMutation.isPending ? "Saving..." : "Save"}
@@ -401,6 +450,10 @@ export function PortfolioPromptManager({ portfolioId }: Props) {
                           <dt className="font-semibold text-foreground">Created for portfolio</dt>
                           <dd>#{prompt.portfolioId}</dd>
                         </div>
+                        <div className="md:col-span-2">
+                          <dt className="font-semibold text-foreground">Universe</dt>
+                          <dd>{describeUniverseSettings(prompt.universe, watchlistName) ?? PROMPT_UNIVERSE_NONE}</dd>
+                        </div>
                       </dl>
                       <details className="rounded-md border border-border bg-muted/40 p-3 text-xs text-muted-foreground">
                         <summary className="cursor-pointer text-foreground">System prompt</summary>
@@ -174,6 +174,7 @@ export function LlmProviderManager() {
             <option value="local">Local</option>
             <option value="google-gemini">Google Gemini</option>
             <option value="anthropic">Anthropic</option>
+            <option value="mock">Mock (offline)</option>
           </select>
         </div>
         <div className="flex flex-col gap-1">
@@ -290,6 +291,7 @@ export function LlmProviderManager() {
                           <option value="local">Local</option>
                           <option value="google-gemini">Google Gemini</option>
                           <option value="anthropic">Anthropic</option>
+                          <option value="mock">Mock (offline)</option>
                         </select>
                       </div>
                       <div className="flex flex-col gap-1">
@@ -8,6 +8,7 @@ import {
   RunFrequency,
   useCreateRunSchedule,
   useDeleteRunSchedule,
+  useExchanges,
   useLlmProviders,
   usePortfolioPrompts,
   usePortfolioRunSchedules,
@@ -25,6 +26,7 @@ interface FormState {
   timeOfDay: string;
   dayOfWeek: string;
   dayOfMonth: string;
+  exchange: string;
   isActive: boolean;
 }
 
@@ -35,6 +37,7 @@ const defaultForm: FormState = {
   timeOfDay: "09:00",
   dayOfWeek: "1",
   dayOfMonth: "1",
+  exchange: "",
   isActive: true
 };
 
@@ -60,10 +63,13 @@ export function LlmAutomationPanel({ portfolioId }: Props) {
   const createSchedule = useCreateRunSchedule(portfolioId);
   const updateSchedule = useUpdateRunSchedule(portfolioId);
   const deleteSchedule = useDeleteRunSchedule(portfolioId);
+  const { data: exchangesData } = useExchanges();
 
   const providers = useMemo(() => providersData?.providers ?? [], [providersData?.providers]);
   const prompts = useMemo(() => promptsData?.prompts ?? [], [promptsData?.prompts]);
   const schedules = useMemo(() => schedulesQuery.data?.schedules ?? [], [schedulesQuery.data?.schedules]);
+  const exchanges = useMemo(() => exchangesData?.exchanges ?? [], [exchangesData?.exchanges]);
+  const selectedExchange = exchanges.find((exchange) => exchange.mic === form.exchange);
 
   const [form, setForm] = useState<FormState>({ ...defaultForm });
   const [message, setMessage] = useState<
@@ -105,6 +111,7 @@ export function LlmAutomationPanel({ portfolioId }: Props) {
       timeOfDay: form.timeOfDay,
       dayOfWeek: form.frequency === "weekly" ? Number(form.dayOfWeek) : undefined,
       dayOfMonth: form.frequency === "monthly" ? Number(form.dayOfMonth) : undefined,
+      exchange: form.exchange || null,
       isActive: form.isActive
     };
 
@@ -207,7 +214,7 @@ export function LlmAutomationPanel({ portfolioId }: Props) {
           </select>
         </div>
         <div className="flex flex-col gap-1">
-          <Label htmlFor="automation-time">Time</Label>
+          <Label htmlFor="automation-time">Time ({selectedExchange?.timeZone ?? "UTC"})</Label>
           <Input
             id="automation-time"
             type="time"
@@ -249,6 +256,22 @@ export function LlmAutomationPanel({ portfolioId }: Props) {
             </select>
           </div>
         ) : null}
+        <div className="flex flex-col gap-1">
+          <Label htmlFor="automation-exchange">Trading calendar</Label>
+          <select
+            id="automation-exchange"
+            className="rounded-md border border-border bg-card px-3 py-2 text-sm text-foreground"
+            value={form.exchange}
+            onChange={(event) => setForm((prev) => ({ ...prev, exchange: event.target.value }))}
+          >
+            <option value="">None (every day)</option>
+            {exchanges.map((exchange) => (
+              <option key={exchange.mic} value={exchange.mic}>
+                {exchange.name} ({exchange.mic})
+              </option>
+            ))}
+          </select>
+        </div>
         <label className="flex items-center gap-2 text-sm text-foreground">
           <input
             type="checkbox"
@@ -329,9 +352,25 @@ export function LlmAutomationPanel({ portfolioId }: Props) {
                     </Button>
                   </div>
                 </div>
-                <p className="mt-2 text-xs text-muted-foreground">
-                  Status: {schedule.isActive ? "Active" : "Paused"}
-                </p>
+                <div className="mt-2 space-y-1 text-xs text-muted-foreground">
+                  <p>
+                    Status: {schedule.isActive ? "Active" : "Paused"}
+                    {schedule.isActive && schedule.nextRunAt
+                      ? ` • Next run: ${new Date(schedule.nextRunAt).toLocaleString()}`
+                      : ""}
+                  </p>
+                  <p>
+                    Last run: {schedule.lastRunAt ? new Date(schedule.lastRunAt).toLocaleString() : "never"}
+                    {schedule.lastExecution ? (
+                      <span className={executionStatusClass(schedule.lastExecution.status)}>
+                        {` • ${schedule.lastExecution.status.toUpperCase()}`}
+                      </span>
+                    ) : null}
+                  </p>
+                  {schedule.lastExecution?.errorMessage ? (
+                    <p className="text-rose-600">{schedule.lastExecution.errorMessage}</p>
+                  ) : null}
+                </div>
               </li>
             ))}
           </ul>
@@ -341,25 +380,37 @@ export function LlmAutomationPanel({ portfolioId }: Props) {
   );
 }
 
+function executionStatusClass(status: string) {
+  if (status === "error") {
+    return "text-rose-600";
+  }
+  if (status === "completed") {
+    return "text-emerald-600";
+  }
+  return "text-muted-foreground";
+}
+
 function describeSchedule(schedule: {
   frequency: RunFrequency;
   timeOfDay: string;
   dayOfWeek: number | null;
   dayOfMonth: number | null;
+  exchange: string | null;
 }) {
+  const zone = schedule.exchange ? `${schedule.exchange} time, trading days only` : "UTC";
   switch (schedule.frequency) {
     case "daily":
-      return `Daily run at ${schedule.timeOfDay}`;
+      return `Daily run at ${schedule.timeOfDay} ${zone}`;
     case "weekly": {
       const label =
         daysOfWeek.find((day) => Number(day.value) === schedule.dayOfWeek)?.label ?? "unknown day";
-      return `Weekly run on ${label} at ${schedule.timeOfDay}`;
+      return `Weekly run on ${label} at ${schedule.timeOfDay} ${zone}`;
     }
     case "monthly": {
       if (schedule.dayOfMonth) {
-        return `Monthly run on day ${schedule.dayOfMonth} at ${schedule.timeOfDay}`;
+        return `Monthly run on day ${schedule.dayOfMonth} at ${schedule.timeOfDay} ${zone}`;
       }
-      return `Monthly run at ${schedule.timeOfDay}`;
+      return `Monthly run at ${schedule.timeOfDay} ${zone}`;
     }
     default:
       return `Automation scheduled at ${schedule.timeOfDay}`;
@@ -2,6 +2,7 @@
 
 import { FormEvent, useMemo, useState } from "react";
 import {
+  ArbitrageOrder,
   RunLlmInput,
   RunLlmResponse,
   useLlmProviders,
@@ -11,6 +12,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { ToolCallList } from "./tool-calls";
 
 interface Props {
   portfolioId?: number;
@@ -22,7 +24,10 @@ const defaultRunForm = {
   temperature: "",
   maxTokens: "",
   model: "",
-  dryRun: false
+  dryRun: false,
+  agent: false,
+  maxSteps: "",
+  tokenBudget: ""
 };
 
 function toNumber(value: string) {
@@ -61,7 +66,10 @@ export function LlmRunnerPanel({ portfolioId }: Props) {
               model: form.model.trim() || undefined
             }
           : undefined,
-      dryRun: form.dryRun
+      dryRun: form.dryRun,
+      agent: form.agent
+        ? { maxSteps: toNumber(form.maxSteps), tokenBudget: toNumber(form.tokenBudget) }
+        : undefined
     };
 
     runMutation.mutate(payload, {
@@ -149,6 +157,42 @@ export function LlmRunnerPanel({ portfolioId }: Props) {
           />
           Dry run (do not execute trades)
         </label>
+        <label className="flex items-center gap-2 text-sm text-foreground md:col-span-2">
+          <input
+            type="checkbox"
+            checked={form.agent}
+            onChange={(event) => setForm((prev) => ({ ...prev, agent: event.target.checked }))}
+          />
+          Agent mode (let the model call tools for quotes, history, trades and order drafts)
+        </label>
+        {form.agent ? (
+          <>
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="run-max-steps">Max tool steps</Label>
+              <Input
+                id="run-max-steps"
+                value={form.maxSteps}
+                onChange={(event) => setForm((prev) => ({ ...prev, maxSteps: event.target.value }))}
+                type="number"
+                min="1"
+                max="20"
+                placeholder="8"
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <Label htmlFor="run-token-budget">Token budget</Label>
+              <Input
+                id="run-token-budget"
+                value={form.tokenBudget}
+                onChange={(event) => setForm((prev) => ({ ...prev, tokenBudget: event.target.value }))}
+                type="number"
+                min="1000"
+                step="1000"
+                placeholder="100000"
+              />
+            </div>
+          </>
+        ) : null}
         <div className="md:col-span-2 flex gap-2">
           <Button type="submit" disabled={runMutation.isPending}>
             {runMutation.isPending ? "Running..." : "Run LLM"}
@@ -194,6 +238,12 @@ function RunSummary({ result }: { result: RunLlmResponse }) {
           {result.assistantMessage}
         </pre>
       </div>
+      {result.toolCalls.length > 0 ? (
+        <div>
+          <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Tool calls</h4>
+          <ToolCallList toolCalls={result.toolCalls} />
+        </div>
+      ) : null}
       <div>
         <h4 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Plan arbitrages</h4>
         {result.plan.arbitrages.length === 0 ? (
@@ -203,7 +253,7 @@ function RunSummary({ result }: { result: RunLlmResponse }) {
             {result.plan.arbitrages.map((order, index) => (
               <li key={`${order.symbol}-${index}`}>
                 {order.action} {order.quantity} {order.symbol}
-                {order.orderType === "limit" && order.limitPrice ? ` @ ${order.limitPrice}` : ""}
+                {describeOrderTerms(order)}
                 {order.rationale ? ` — ${order.rationale}` : ""}
               </li>
             ))}
@@ -214,8 +264,25 @@ function RunSummary({ result }: { result: RunLlmResponse }) {
   );
 }
 
-
-
-
-
-
+function describeOrderTerms(order: ArbitrageOrder) {
+  const parts: string[] = [];
+  if ((order.orderType === "limit" || order.orderType === "stop_limit") && order.limitPrice) {
+    parts.push(`@ ${order.limitPrice}`);
+  }
+  if ((order.orderType === "stop" || order.orderType === "stop_limit") && order.stopPrice) {
+    parts.push(`stop ${order.stopPrice}`);
+  }
+  if (order.orderType === "trailing_stop") {
+    parts.push(order.trailPercent ? `trail ${order.trailPercent}%` : `trail ${order.trailAmount}`);
+  }
+  if (order.bracket?.takeProfitPrice) {
+    parts.push(`TP ${order.bracket.takeProfitPrice}`);
+  }
+  if (order.bracket?.stopLossPrice) {
+    parts.push(`SL ${order.bracket.stopLossPrice}`);
+  }
+  if (order.bracket?.trailPercent || order.bracket?.trailAmount) {
+    parts.push(order.bracket.trailPercent ? `SL trail ${order.bracket.trailPercent}%` : `SL trail ${order.bracket.trailAmount}`);
+  }
+  return parts.length ? ` ${parts.join(" · ")}` : "";
+}
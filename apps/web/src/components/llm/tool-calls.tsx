@@ -0,0 +1,38 @@
+"use client";
+
+import { LlmToolCall } from "@/hooks/api";
+
+function formatArguments(args: Record<string, unknown>) {
+  const entries = Object.entries(args);
+  if (entries.length === 0) {
+    return "";
+  }
+  return entries.map(([key, value]) => `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`).join(", ");
+}
+
+/** The tool calls of an agent run by step, each with what the tool returned or why it failed. */
+export function ToolCallList({ toolCalls }: { toolCalls: LlmToolCall[] }) {
+  if (toolCalls.length === 0) {
+    return <p className="text-xs text-muted-foreground">No tools were called.</p>;
+  }
+  return (
+    <ol className="space-y-2">
+      {toolCalls.map((call) => (
+        <li key={`${call.step}-${call.id}`} className="rounded-md border border-border bg-card p-2">
+          <details>
+            <summary className="cursor-pointer text-xs text-foreground">
+              <span className="text-muted-foreground">Step {call.step} · </span>
+              <span className="font-mono">
+                {call.name}({formatArguments(call.arguments)})
+              </span>
+              {call.error ? <span className="text-rose-600"> failed</span> : null}
+            </summary>
+            <pre className="mt-2 max-h-64 overflow-auto whitespace-pre-wrap text-[11px] text-foreground">
+              {call.error ?? JSON.stringify(call.result, null, 2)}
+            </pre>
+          </details>
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useUniverseIndexes, useWatchlists, type UniverseSettings, type UniverseUpdate } from "@/hooks/api";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+export type UniverseKind = "none" | "symbols" | "watchlist" | "index";
+
+export interface UniverseFormState {
+  kind: UniverseKind;
+  symbols: string;
+  watchlistId: string;
+  index: string;
+}
+
+export const emptyUniverseForm: UniverseFormState = { kind: "none", symbols: "", watchlistId: "", index: "" };
+
+export function toUniverseForm(universe: UniverseSettings | null | undefined): UniverseFormState {
+  if (universe?.symbols) {
+    return { ...emptyUniverseForm, kind: "symbols", symbols: universe.symbols.join(", ") };
+  }
+  if (universe?.watchlistId) {
+    return { ...emptyUniverseForm, kind: "watchlist", watchlistId: String(universe.watchlistId) };
+  }
+  if (universe?.index) {
+    return { ...emptyUniverseForm, kind: "index", index: universe.index };
+  }
+  return emptyUniverseForm;
+}
+
+export function parseSymbolInput(value: string) {
+  return Array.from(
+    new Set(
+      value
+        .split(/[\s,;]+/)
+        .map((symbol) => symbol.trim().toUpperCase())
+        .filter(Boolean)
+    )
+  );
+}
+
+/** What is missing from the form before it can be saved, or null when it is complete. */
+export function universeFormError(form: UniverseFormState) {
+  if (form.kind === "symbols" && parseSymbolInput(form.symbols).length === 0) {
+    return "List at least one universe symbol";
+  }
+  if (form.kind === "watchlist" && !form.watchlistId) {
+    return "Choose a watchlist for the universe";
+  }
+  if (form.kind === "index" && !form.index) {
+    return "Choose an index for the universe";
+  }
+  return null;
+}
+
+export function toUniverseUpdate(form: UniverseFormState): UniverseUpdate {
+  switch (form.kind) {
+    case "symbols":
+      return { universeSymbols: parseSymbolInput(form.symbols) };
+    case "watchlist":
+      return { universeWatchlistId: Number(form.watchlistId) };
+    case "index":
+      return { universeIndex: form.index };
+    default:
+      return { universeSymbols: null, universeWatchlistId: null, universeIndex: null };
+  }
+}
+
+interface UniverseFieldsProps {
+  id: string;
+  value: UniverseFormState;
+  onChange: (value: UniverseFormState) => void;
+  /** Label of the "none" choice, e.g. that the portfolio's universe applies instead. */
+  noneLabel?: string;
+}
+
+/** Picks the investable universe of LLM runs: a symbol list, a saved watchlist or an index file. */
+export function UniverseFields({ id, value, onChange, noneLabel = "None (held symbols only)" }: UniverseFieldsProps) {
+  const { data: watchlistsData } = useWatchlists();
+  const { data: indexesData } = useUniverseIndexes();
+  const watchlists = watchlistsData?.watchlists ?? [];
+  const indexes = indexesData?.indexes ?? [];
+
+  return (
+    <div className="grid gap-3 md:grid-cols-2">
+      <div className="flex flex-col gap-1">
+        <Label htmlFor={`${id}-kind`}>Investable universe</Label>
+        <select
+          id={`${id}-kind`}
+          className="rounded-md border border-border bg-card px-3 py-2 text-sm text-foreground"
+          value={value.kind}
+          onChange={(event) => onChange({ ...value, kind: event.target.value as UniverseKind })}
+        >
+          <option value="none">{noneLabel}</option>
+          <option value="symbols">Symbol list</option>
+          <option value="watchlist">Watchlist</option>
+          <option value="index">Index</option>
+        </select>
+      </div>
+      {value.kind === "symbols" && (
+        <div className="flex flex-col gap-1">
+          <Label htmlFor={`${id}-symbols`}>Symbols</Label>
+          <Input
+            id={`${id}-symbols`}
+            value={value.symbols}
+            onChange={(event) => onChange({ ...value, symbols: event.target.value })}
+            placeholder="AAPL, MSFT, VOD.L"
+          />
+        </div>
+      )}
+      {value.kind === "watchlist" && (
+        <div className="flex flex-col gap-1">
+          <Label htmlFor={`${id}-watchlist`}>Watchlist</Label>
+          <select
+            id={`${id}-watchlist`}
+            className="rounded-md border border-border bg-card px-3 py-2 text-sm text-foreground"
+            value={value.watchlistId}
+            onChange={(event) => onChange({ ...value, watchlistId: event.target.value })}
+          >
+            <option value="">Choose a watchlist</option>
+            {watchlists.map((watchlist) => (
+              <option key={watchlist.id} value={watchlist.id}>
+                {watchlist.name} ({watchlist.symbols.length})
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      {value.kind === "index" && (
+        <div className="flex flex-col gap-1">
+          <Label htmlFor={`${id}-index`}>Index</Label>
+          <select
+            id={`${id}-index`}
+            className="rounded-md border border-border bg-card px-3 py-2 text-sm text-foreground"
+            value={value.index}
+            onChange={(event) => onChange({ ...value, index: event.target.value })}
+          >
+            <option value="">{indexes.length === 0 ? "No index files on the server" : "Choose an index"}</option>
+            {indexes.map((index) => (
+              <option key={index.name} value={index.name}>
+                {index.name} ({index.symbolCount})
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** A short description of a universe setting for summaries. */
+export function describeUniverseSettings(
+  universe: UniverseSettings | null | undefined,
+  watchlistName: (id: number) => string | undefined
+) {
+  if (universe?.symbols) {
+    return universe.symbols.join(", ");
+  }
+  if (universe?.watchlistId) {
+    return `Watchlist ${watchlistName(universe.watchlistId) ?? `#${universe.watchlistId}`}`;
+  }
+  if (universe?.index) {
+    return `Index ${universe.index}`;
+  }
+  return null;
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { useCreateWatchlist, useDeleteWatchlist, useUpdateWatchlist, useWatchlists, Watchlist } from "@/hooks/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { parseSymbolInput } from "@/components/llm/universe-fields";
+
+interface WatchlistFormState {
+  name: string;
+  symbols: string;
+}
+
+const defaultWatchlistForm: WatchlistFormState = { name: "", symbols: "" };
+
+/** Saved symbol lists that portfolios and prompts can use as their investable universe. */
+export function WatchlistManager() {
+  const { data, isLoading, isError } = useWatchlists();
+  const createMutation = useCreateWatchlist();
+  const updateMutation = useUpdateWatchlist();
+  const deleteMutation = useDeleteWatchlist();
+  const watchlists = data?.watchlists ?? [];
+
+  const [form, setForm] = useState<WatchlistFormState>(defaultWatchlistForm);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingDraft, setEditingDraft] = useState<WatchlistFormState | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const symbols = parseSymbolInput(form.symbols);
+    if (symbols.length === 0) {
+      setError("List at least one symbol");
+      return;
+    }
+    setError(null);
+    createMutation.mutate(
+      { name: form.name.trim(), symbols },
+      {
+        onSuccess: () => setForm(defaultWatchlistForm),
+        onError: (createError) => setError(createError.message)
+      }
+    );
+  };
+
+  const beginEdit = (watchlist: Watchlist) => {
+    setEditingId(watchlist.id);
+    setEditingDraft({ name: watchlist.name, symbols: watchlist.symbols.join(", ") });
+    setError(null);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setEditingDraft(null);
+  };
+
+  const handleUpdate = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (editingId === null || !editingDraft) {
+      return;
+    }
+    const symbols = parseSymbolInput(editingDraft.symbols);
+    if (symbols.length === 0) {
+      setError("List at least one symbol");
+      return;
+    }
+    setError(null);
+    updateMutation.mutate(
+      { id: editingId, payload: { name: editingDraft.name.trim(), symbols } },
+      {
+        onSuccess: cancelEdit,
+        onError: (updateError) => setError(updateError.message)
+      }
+    );
+  };
+
+  const removeWatchlist = (watchlist: Watchlist) => {
+    if (!confirm(`Delete the watchlist "${watchlist.name}"? Portfolios and prompts using it lose their universe.`)) {
+      return;
+    }
+    deleteMutation.mutate(watchlist.id);
+  };
+
+  return (
+    <section className="space-y-4 rounded-2xl border border-border bg-card p-6 shadow-sm">
+      <header>
+        <h2 className="text-xl font-semibold text-foreground">Watchlists</h2>
+        <p className="text-sm text-muted-foreground">
+          Symbol lists to use as the investable universe of a portfolio or prompt.
+        </p>
+      </header>
+
+      <form className="grid gap-3" onSubmit={handleCreate}>
+        <div className="grid gap-3 md:grid-cols-[1fr_2fr]">
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="watchlist-name">Name</Label>
+            <Input
+              id="watchlist-name"
+              value={form.name}
+              onChange={(event) => setForm((prev) => ({ ...prev, name: event.target.value }))}
+              required
+            />
+          </div>
+          <div className="flex flex-col gap-1">
+            <Label htmlFor="watchlist-symbols">Symbols</Label>
+            <Input
+              id="watchlist-symbols"
+              value={form.symbols}
+              onChange={(event) => setForm((prev) => ({ ...prev, symbols: event.target.value }))}
+              placeholder="AAPL, MSFT, VOD.L"
+            />
+          </div>
+        </div>
+        {error && <p className="text-sm text-rose-600">{error}</p>}
+        <Button type="submit" disabled={createMutation.isPending}>
+          {createMutation.isPending ? "Creating..." : "Save watchlist"}
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading watchlists...</p>
+      ) : isError ? (
+        <p className="text-sm text-rose-600">Unable to load watchlists.</p>
+      ) : watchlists.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No watchlists yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {watchlists.map((watchlist) => (
+            <li key={watchlist.id} className="rounded-lg border border-border p-4">
+              {editingId === watchlist.id && editingDraft ? (
+                <form className="space-y-3" onSubmit={handleUpdate}>
+                  <div className="grid gap-3 md:grid-cols-[1fr_2fr]">
+                    <Input
+                      aria-label="Name"
+                      value={editingDraft.name}
+                      onChange={(event) =>
+                        setEditingDraft((prev) => (prev ? { ...prev, name: event.target.value } : prev))
+                      }
+                      required
+                    />
+                    <Input
+                      aria-label="Symbols"
+                      value={editingDraft.symbols}
+                      onChange={(event) =>
+                        setEditingDraft((prev) => (prev ? { ...prev, symbols: event.target.value } : prev))
+                      }
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button type="submit" disabled={updateMutation.isPending}>
+                      {updateMutation.isPending ? "Saving..." : "Save"}
+                    </Button>
+                    <Button type="button" variant="outline" onClick={cancelEdit}>
+                      Cancel
+                    </Button>
+                  </div>
+                </form>
+              ) : (
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h4 className="text-sm font-semibold text-foreground">{watchlist.name}</h4>
+                    <p className="text-xs text-muted-foreground">{watchlist.symbols.join(", ")}</p>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button size="sm" variant="outline" onClick={() => beginEdit(watchlist)}>
+                      Edit
+                    </Button>
+                    <Button size="sm" variant="destructive" onClick={() => removeWatchlist(watchlist)}>
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,136 @@
+"use client";
+
+import { useState } from "react";
+import { useCancelAllOrders, useCancelOrder, useOrders, type OrderDto } from "@/hooks/api";
+
+interface OrdersBlotterProps {
+  portfolioId?: number;
+  baseCurrency: string;
+}
+
+export function OrdersBlotter({ portfolioId, baseCurrency }: OrdersBlotterProps) {
+  const { data, isLoading } = useOrders(portfolioId, "open");
+  const cancelOrder = useCancelOrder(portfolioId);
+  const cancelAll = useCancelAllOrders(portfolioId);
+  const [error, setError] = useState<string | null>(null);
+  const orders = data?.orders ?? [];
+
+  const handleCancel = async (orderId: number) => {
+    setError(null);
+    try {
+      await cancelOrder.mutateAsync(orderId);
+    } catch (cancelError) {
+      setError(cancelError instanceof Error ? cancelError.message : "Unable to cancel order");
+    }
+  };
+
+  const handleCancelAll = async () => {
+    setError(null);
+    try {
+      await cancelAll.mutateAsync();
+    } catch (cancelError) {
+      setError(cancelError instanceof Error ? cancelError.message : "Unable to cancel orders");
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-border bg-card p-6 shadow-sm">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="text-base font-semibold text-foreground">Open Orders</h3>
+        {orders.length > 0 && (
+          <button
+            type="button"
+            onClick={handleCancelAll}
+            disabled={cancelAll.isPending}
+            className="text-sm font-semibold text-rose-600 hover:text-rose-700 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            Cancel all
+          </button>
+        )}
+      </div>
+      {error && <p className="mb-3 text-sm text-rose-600">{error}</p>}
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Loading orders...</p>
+      ) : orders.length > 0 ? (
+        <table className="min-w-full divide-y divide-border text-sm">
+          <thead className="text-left text-xs uppercase tracking-wide text-muted-foreground">
+            <tr>
+              <th className="px-3 py-2">Placed</th>
+              <th className="px-3 py-2">Symbol</th>
+              <th className="px-3 py-2">Side</th>
+              <th className="px-3 py-2 text-right">Qty</th>
+              <th className="px-3 py-2 text-right">Filled</th>
+              <th className="px-3 py-2">Terms</th>
+              <th className="px-3 py-2">Status</th>
+              <th className="px-3 py-2">Source</th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-border text-foreground">
+            {orders.map((order) => (
+              <tr key={order.id}>
+                <td className="px-3 py-2 text-xs text-muted-foreground">{new Date(order.createdAt).toLocaleString()}</td>
+                <td className="px-3 py-2 font-medium text-foreground">{order.symbol}</td>
+                <td className={`px-3 py-2 font-semibold ${order.side === "BUY" ? "text-emerald-600" : "text-rose-600"}`}>
+                  {order.side}
+                </td>
+                <td className="px-3 py-2 text-right">{order.qty.toLocaleString()}</td>
+                <td className="px-3 py-2 text-right">{order.filledQty.toLocaleString()}</td>
+                <td className="px-3 py-2">
+                  {describeTerms(order, baseCurrency)}
+                  <span className="block text-xs text-muted-foreground">
+                    {order.timeInForce}
+                    {order.expiresAt ? ` · expires ${new Date(order.expiresAt).toLocaleString()}` : ""}
+                  </span>
+                </td>
+                <td className="px-3 py-2 text-xs text-muted-foreground">
+                  {order.status === "held"
+                    ? `Waits for #${order.parentOrderId}`
+                    : order.activeFrom && new Date(order.activeFrom).getTime() > Date.now()
+                      ? `${order.fillAtOpen ? "Fills at open" : "Queued until"} ${new Date(order.activeFrom).toLocaleString()}`
+                      : order.triggeredAt
+                        ? "Triggered"
+                        : "Working"}
+                  {order.ocoGroup ? " · OCO" : ""}
+                </td>
+                <td className="px-3 py-2 text-xs uppercase text-muted-foreground">{order.source}</td>
+                <td className="px-3 py-2 text-right">
+                  <button
+                    type="button"
+                    onClick={() => handleCancel(order.id)}
+                    disabled={cancelOrder.isPending}
+                    className="text-xs font-semibold text-muted-foreground hover:text-rose-600 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    Cancel
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="text-sm text-muted-foreground">No open orders.</p>
+      )}
+    </div>
+  );
+}
+
+function describeTerms(order: OrderDto, currency: string) {
+  const format = (value: number) => value.toLocaleString(undefined, { style: "currency", currency });
+  switch (order.orderType) {
+    case "limit":
+      return `Limit ${order.limitPrice !== null ? format(order.limitPrice) : "-"}`;
+    case "stop":
+      return `Stop ${order.stopPrice !== null ? format(order.stopPrice) : "-"}`;
+    case "stop_limit":
+      return `Stop ${order.stopPrice !== null ? format(order.stopPrice) : "-"} / limit ${
+        order.limitPrice !== null ? format(order.limitPrice) : "-"
+      }`;
+    case "trailing_stop": {
+      const distance = order.trailPercent !== null ? `${order.trailPercent}%` : format(order.trailAmount ?? 0);
+      return order.trailAnchor !== null ? `Trail ${distance} from ${format(order.trailAnchor)}` : `Trail ${distance}`;
+    }
+    default:
+      return "Market";
+  }
+}
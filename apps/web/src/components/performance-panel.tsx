@@ -0,0 +1,180 @@
+"use client";
+
+import { useState } from "react";
+import { PerformancePeriod, usePerformance } from "@/hooks/api";
+
+interface PerformancePanelProps {
+  portfolioId?: number;
+  /** Ends the month, year and inception periods at this moment instead of today. */
+  asOf?: string;
+}
+
+const PERIODS: Array<{ value: PerformancePeriod; label: string }> = [
+  { value: "mtd", label: "MTD" },
+  { value: "ytd", label: "YTD" },
+  { value: "inception", label: "Since inception" },
+  { value: "custom", label: "Custom" }
+];
+
+interface Metric {
+  label: string;
+  value: string;
+  hint?: string;
+}
+
+export function PerformancePanel({ portfolioId, asOf }: PerformancePanelProps) {
+  const [period, setPeriod] = useState<PerformancePeriod>("ytd");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const range = period === "custom" ? { from: fromDate || undefined, to: toDate || asOf } : { to: asOf };
+  const { data: report, isLoading, isError, error } = usePerformance(portfolioId, period, range);
+
+  const metrics: Metric[] = report
+    ? [
+        {
+          label: "Time-weighted",
+          value: formatPercent(report.timeWeightedReturn),
+          hint:
+            report.annualizedReturn !== null ? `${formatPercent(report.annualizedReturn)} a year` : "Not annualized"
+        },
+        {
+          label: "Money-weighted",
+          value: formatPercent(report.moneyWeightedReturn),
+          hint: `Net flows ${formatCurrency(report.netFlows, report.baseCurrency)}`
+        },
+        { label: "Volatility", value: formatPercent(report.volatility), hint: "Annualized" },
+        { label: "Sharpe", value: formatRatio(report.sharpe), hint: `Risk-free ${formatPercent(report.riskFreeRate)}` },
+        { label: "Sortino", value: formatRatio(report.sortino) },
+        { label: "Calmar", value: formatRatio(report.calmar) },
+        {
+          label: "Max drawdown",
+          value: report.maxDrawdown ? formatPercent(-report.maxDrawdown.depth) : "--",
+          hint: report.maxDrawdown
+            ? `${report.maxDrawdown.peak} to ${report.maxDrawdown.trough}, ${report.maxDrawdown.days} days ${
+                report.maxDrawdown.recovery ? "to recover" : "and not recovered"
+              }`
+            : undefined
+        },
+        {
+          label: "Win rate",
+          value: formatPercent(report.winRate),
+          hint: `${report.closedTrades} closing trade${report.closedTrades === 1 ? "" : "s"}`
+        },
+        { label: "Profit factor", value: formatRatio(report.profitFactor) },
+        { label: "Turnover", value: formatRatio(report.turnover), hint: "Lesser of buys and sells / average NAV" }
+      ]
+    : [];
+  const comparison = report?.benchmark ?? null;
+  const benchmarkMetrics: Metric[] = comparison
+    ? [
+        {
+          label: "Excess return",
+          value: formatPercent(comparison.excessReturn),
+          hint: `Benchmark ${formatPercent(comparison.benchmarkReturn)}`
+        },
+        { label: "Tracking error", value: formatPercent(comparison.trackingError), hint: "Annualized" },
+        { label: "Information ratio", value: formatRatio(comparison.informationRatio) },
+        { label: "Beta", value: formatRatio(comparison.beta) },
+        { label: "Alpha", value: formatPercent(comparison.alpha), hint: "Jensen's, a year" },
+        {
+          label: "Up / down capture",
+          value: `${formatRatio(comparison.upCapture)} / ${formatRatio(comparison.downCapture)}`
+        }
+      ]
+    : [];
+
+  return (
+    <div className="rounded-2xl border border-border bg-card p-6 shadow-sm">
+      <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h3 className="text-base font-semibold text-foreground">Performance</h3>
+          <p className="text-sm text-muted-foreground">
+            {report
+              ? `${report.period.from} to ${report.period.to} · ${formatCurrency(
+                  report.startValue,
+                  report.baseCurrency
+                )} to ${formatCurrency(report.endValue, report.baseCurrency)}`
+              : "Risk-adjusted returns from the daily valuations."}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {PERIODS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setPeriod(option.value)}
+              className={`rounded-full px-3 py-1 text-xs font-semibold ${
+                period === option.value
+                  ? "bg-brand-600 text-white"
+                  : "bg-slate-100 text-muted-foreground hover:bg-slate-200"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+          {period === "custom" && (
+            <>
+              <input
+                type="date"
+                value={fromDate}
+                onChange={(event) => setFromDate(event.target.value)}
+                className="rounded-lg border border-border px-3 py-1 text-sm focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+              />
+              <input
+                type="date"
+                value={toDate}
+                onChange={(event) => setToDate(event.target.value)}
+                className="rounded-lg border border-border px-3 py-1 text-sm focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+              />
+            </>
+          )}
+        </div>
+      </div>
+      {period === "custom" && !fromDate ? (
+        <p className="mt-4 text-sm text-muted-foreground">Pick a start date for the custom period.</p>
+      ) : isLoading ? (
+        <p className="mt-4 text-sm text-muted-foreground">Loading performance...</p>
+      ) : isError ? (
+        <p className="mt-4 text-sm text-rose-600">
+          {error instanceof Error ? error.message : "Unable to load performance."}
+        </p>
+      ) : (
+        <>
+          <MetricGrid metrics={metrics} />
+          {comparison && (
+            <>
+              <h4 className="mt-6 text-sm font-semibold text-foreground">Against {comparison.label}</h4>
+              <MetricGrid metrics={benchmarkMetrics} />
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function MetricGrid({ metrics }: { metrics: Metric[] }) {
+  return (
+    <dl className="mt-6 grid grid-cols-2 gap-4 md:grid-cols-5">
+      {metrics.map((metric) => (
+        <div key={metric.label} className="rounded-xl border border-border p-4">
+          <dt className="text-xs uppercase tracking-wide text-muted-foreground">{metric.label}</dt>
+          <dd className="mt-2 text-lg font-semibold text-foreground">{metric.value}</dd>
+          {metric.hint && <p className="mt-1 text-xs text-muted-foreground">{metric.hint}</p>}
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+function formatPercent(value: number | null) {
+  return value === null ? "--" : `${(value * 100).toFixed(2)}%`;
+}
+
+function formatRatio(value: number | null) {
+  return value === null ? "--" : value.toFixed(2);
+}
+
+function formatCurrency(value: number | null, currency: string) {
+  return value === null ? "--" : value.toLocaleString(undefined, { style: "currency", currency });
+}
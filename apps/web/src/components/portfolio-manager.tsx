@@ -16,7 +16,7 @@ interface Portfolio {
 interface PortfolioManagerProps {
   currentPortfolio?: Portfolio | null;
   onPortfolioChange: (portfolioId: number) => void;
-  onPortfolioCreate: (name: string, baseCurrency: string) => void;
+  onPortfolioCreate: (name: string, baseCurrency: string, startingCapital?: number) => void;
   onPortfolioDelete: (portfolioId: number) => void;
   onPortfolioReset: (portfolioId: number) => void;
   onExportPortfolio: (portfolioId: number) => void;
@@ -39,14 +39,20 @@ export function PortfolioManager({
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [newPortfolioName, setNewPortfolioName] = useState("");
   const [newPortfolioCurrency, setNewPortfolioCurrency] = useState("USD");
+  const [newPortfolioCapital, setNewPortfolioCapital] = useState("");
 
   const hasPortfolios = portfolios.length > 0;
   const activePortfolio = currentPortfolio ?? (hasPortfolios ? portfolios[0] : null);
 
   const handleCreatePortfolio = () => {
+    const capital = newPortfolioCapital ? Number(newPortfolioCapital) : undefined;
+    if (capital !== undefined && (!Number.isFinite(capital) || capital <= 0)) {
+      return;
+    }
     if (newPortfolioName.trim()) {
-      onPortfolioCreate(newPortfolioName.trim(), newPortfolioCurrency);
+      onPortfolioCreate(newPortfolioName.trim(), newPortfolioCurrency, capital);
       setNewPortfolioName("");
+      setNewPortfolioCapital("");
       setIsCreateDialogOpen(false);
     }
   };
@@ -145,6 +151,18 @@ export function PortfolioManager({
                 <option value="CHF">CHF</option>
               </select>
             </div>
+            <div>
+              <Label htmlFor="portfolio-capital">Starting Capital</Label>
+              <Input
+                id="portfolio-capital"
+                type="number"
+                min="0"
+                step="0.01"
+                value={newPortfolioCapital}
+                onChange={(e) => setNewPortfolioCapital(e.target.value)}
+                placeholder="100000"
+              />
+            </div>
             <div className="flex justify-end gap-2">
               <Button variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
                 Cancel
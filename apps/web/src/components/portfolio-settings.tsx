@@ -0,0 +1,451 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  usePortfolios,
+  usePortfolioSettings,
+  useSearch,
+  useUpdatePortfolioSettings,
+  type AssetClass,
+  type LotMethod,
+  type MarketHoursPolicy,
+  type PortfolioCostModel,
+  type PortfolioMarginPolicy,
+  type PortfolioSettingsUpdate,
+  type SlippageModel
+} from "@/hooks/api";
+import {
+  emptyUniverseForm,
+  toUniverseForm,
+  toUniverseUpdate,
+  UniverseFields,
+  universeFormError,
+  type UniverseFormState
+} from "@/components/llm/universe-fields";
+
+interface PortfolioSettingsProps {
+  portfolioId?: number;
+}
+
+const SLIPPAGE_MODEL_LABELS: Record<SlippageModel, string> = {
+  none: "None",
+  fixed: "Fixed bps",
+  spread: "Half spread",
+  volume: "Volume impact"
+};
+
+const LOT_METHOD_LABELS: Record<LotMethod, string> = {
+  FIFO: "FIFO",
+  LIFO: "LIFO",
+  HIFO: "Highest cost first",
+  AVERAGE: "Average cost",
+  SPECIFIC: "Specific lot (FIFO default)"
+};
+
+const MARKET_HOURS_POLICY_LABELS: Record<MarketHoursPolicy, string> = {
+  reject: "Reject the order",
+  queue: "Queue until the open",
+  next_open: "Fill at the opening price"
+};
+
+type BenchmarkKind = "none" | "symbol" | "portfolio";
+
+const BENCHMARK_SEARCH_FILTERS: AssetClass[] = ["index", "etf"];
+
+type CostModelForm = Record<Exclude<keyof PortfolioCostModel, "slippageModel">, string> & {
+  slippageModel: SlippageModel;
+};
+
+/** Rates are edited as percentages and stored as fractions. */
+type MarginForm = Record<Exclude<keyof PortfolioMarginPolicy, "allowShort">, string> & {
+  allowShort: boolean;
+};
+
+export function PortfolioSettings({ portfolioId }: PortfolioSettingsProps) {
+  const { data, isLoading } = usePortfolioSettings(portfolioId);
+  const mutation = useUpdatePortfolioSettings(portfolioId);
+  const [form, setForm] = useState<CostModelForm | null>(null);
+  const [margin, setMargin] = useState<MarginForm | null>(null);
+  const [lotMethod, setLotMethod] = useState<LotMethod>("FIFO");
+  const [fxAutoConvert, setFxAutoConvert] = useState(true);
+  const [withholding, setWithholding] = useState("0");
+  const [marketHoursPolicy, setMarketHoursPolicy] = useState<MarketHoursPolicy>("queue");
+  const [fillSimulation, setFillSimulation] = useState(false);
+  const [participation, setParticipation] = useState("10");
+  const [impactBps, setImpactBps] = useState("0");
+  const [benchmarkKind, setBenchmarkKind] = useState<BenchmarkKind>("none");
+  const [benchmarkSymbol, setBenchmarkSymbol] = useState("");
+  const [benchmarkPortfolioId, setBenchmarkPortfolioId] = useState("");
+  const [universe, setUniverse] = useState<UniverseFormState>(emptyUniverseForm);
+  const { data: portfoliosData } = usePortfolios();
+  const { data: benchmarkMatches } = useSearch(
+    benchmarkKind === "symbol" ? benchmarkSymbol : "",
+    BENCHMARK_SEARCH_FILTERS
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (data?.settings) {
+      setForm(toForm(data.settings.costModel));
+      setMargin(toMarginForm(data.settings.margin));
+      setLotMethod(data.settings.lotMethod);
+      setFxAutoConvert(data.settings.fxAutoConvert);
+      setWithholding(String(data.settings.withholdingTaxRate * 100));
+      setMarketHoursPolicy(data.settings.marketHoursPolicy);
+      setFillSimulation(data.settings.fillSimulation.enabled);
+      setParticipation(String(Number((data.settings.fillSimulation.maxParticipation * 100).toFixed(4))));
+      setImpactBps(String(data.settings.fillSimulation.marketImpactBps));
+      const { benchmark } = data.settings;
+      setBenchmarkKind(benchmark.symbol ? "symbol" : benchmark.portfolioId ? "portfolio" : "none");
+      setBenchmarkSymbol(benchmark.symbol ?? "");
+      setBenchmarkPortfolioId(benchmark.portfolioId ? String(benchmark.portfolioId) : "");
+      setUniverse(toUniverseForm(data.settings.universe));
+    }
+  }, [data?.settings]);
+
+  const update = (key: keyof CostModelForm, value: string) => {
+    setForm((current) => (current ? { ...current, [key]: value } : current));
+  };
+
+  const submit = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!form || !margin) {
+      return;
+    }
+    setError(null);
+    setNotice(null);
+
+    const required = ["commissionFixed", "commissionBps", "commissionPerShare", "slippageBps", "slippageImpact"] as const;
+    const payload: PortfolioSettingsUpdate = {
+      slippageModel: form.slippageModel,
+      allowShort: margin.allowShort,
+      lotMethod,
+      fxAutoConvert,
+      marketHoursPolicy,
+      fillSimulation
+    };
+    const withholdingTaxRate = Number(withholding || "0") / 100;
+    if (!Number.isFinite(withholdingTaxRate) || withholdingTaxRate < 0 || withholdingTaxRate > 1) {
+      setError("Withholding tax must be between 0% and 100%");
+      return;
+    }
+    payload.withholdingTaxRate = withholdingTaxRate;
+    const maxParticipation = Number(participation || "0") / 100;
+    const marketImpactBps = Number(impactBps || "0");
+    if (!Number.isFinite(maxParticipation) || maxParticipation <= 0 || maxParticipation > 1) {
+      setError("Participation must be between 0% and 100% of daily volume");
+      return;
+    }
+    if (!Number.isFinite(marketImpactBps) || marketImpactBps < 0) {
+      setError("Market impact must be zero or positive");
+      return;
+    }
+    payload.maxParticipation = maxParticipation;
+    payload.marketImpactBps = marketImpactBps;
+    if (benchmarkKind === "symbol") {
+      if (!benchmarkSymbol.trim()) {
+        setError("Enter a benchmark symbol");
+        return;
+      }
+      payload.benchmarkSymbol = benchmarkSymbol.trim();
+    } else if (benchmarkKind === "portfolio") {
+      if (!benchmarkPortfolioId) {
+        setError("Choose a benchmark portfolio");
+        return;
+      }
+      payload.benchmarkPortfolioId = Number(benchmarkPortfolioId);
+    } else {
+      payload.benchmarkSymbol = null;
+      payload.benchmarkPortfolioId = null;
+    }
+    const universeError = universeFormError(universe);
+    if (universeError) {
+      setError(universeError);
+      return;
+    }
+    Object.assign(payload, toUniverseUpdate(universe));
+    for (const key of required) {
+      const value = Number(form[key] || "0");
+      if (!Number.isFinite(value) || value < 0) {
+        setError("Costs must be zero or positive");
+        return;
+      }
+      payload[key] = value;
+    }
+    for (const key of ["commissionMin", "commissionMax"] as const) {
+      const value = form[key] ? Number(form[key]) : null;
+      if (value !== null && (!Number.isFinite(value) || value < 0)) {
+        setError("Commission limits must be zero or positive");
+        return;
+      }
+      payload[key] = value;
+    }
+    for (const key of ["borrowFeeRate", "initialMarginRate", "maintenanceMarginRate"] as const) {
+      const value = Number(margin[key] || "0") / 100;
+      if (!Number.isFinite(value) || value < 0 || value > 1 || (key !== "borrowFeeRate" && value === 0)) {
+        setError("Margin rates must be between 0% and 100%");
+        return;
+      }
+      payload[key] = value;
+    }
+    if ((payload.maintenanceMarginRate ?? 0) > (payload.initialMarginRate ?? 0)) {
+      setError("Maintenance margin cannot exceed initial margin");
+      return;
+    }
+
+    try {
+      await mutation.mutateAsync(payload);
+      setNotice("Settings saved");
+    } catch (updateError) {
+      setError(updateError instanceof Error ? updateError.message : "Unable to save settings");
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-border bg-card p-6 shadow-sm">
+      <h3 className="text-base font-semibold text-foreground">Trading Settings</h3>
+      <p className="mt-1 text-sm text-muted-foreground">
+        Commission, slippage, margin, lot relief and FX settlement apply to every fill, manual or LLM. Withholding tax
+        is deducted from dividends. The market hours policy decides what happens to orders placed while their exchange
+        is closed. The benchmark is drawn on the equity chart and measured against in the performance panel. LLM runs
+        get quotes for the investable universe and may only open positions in its symbols.
+      </p>
+      {isLoading || !form || !margin ? (
+        <p className="mt-4 text-sm text-muted-foreground">Loading settings...</p>
+      ) : (
+        <form onSubmit={submit} className="mt-4 flex flex-col gap-4">
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-5">
+            <CostField label="Per trade" value={form.commissionFixed} onChange={(value) => update("commissionFixed", value)} />
+            <CostField label="Bps of notional" value={form.commissionBps} onChange={(value) => update("commissionBps", value)} />
+            <CostField
+              label="Per share"
+              value={form.commissionPerShare}
+              onChange={(value) => update("commissionPerShare", value)}
+            />
+            <CostField label="Minimum" value={form.commissionMin} onChange={(value) => update("commissionMin", value)} />
+            <CostField label="Maximum" value={form.commissionMax} onChange={(value) => update("commissionMax", value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-3 md:grid-cols-5">
+            <label className="flex flex-col text-sm">
+              Slippage model
+              <select
+                value={form.slippageModel}
+                onChange={(event) => update("slippageModel", event.target.value)}
+                className="mt-1 rounded-lg border border-border px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+              >
+                {(Object.keys(SLIPPAGE_MODEL_LABELS) as SlippageModel[]).map((model) => (
+                  <option key={model} value={model}>
+                    {SLIPPAGE_MODEL_LABELS[model]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {(form.slippageModel === "fixed" || form.slippageModel === "volume" || form.slippageModel === "spread") && (
+              <CostField
+                label={form.slippageModel === "spread" ? "Fallback bps" : "Slippage bps"}
+                value={form.slippageBps}
+                onChange={(value) => update("slippageBps", value)}
+              />
+            )}
+            {form.slippageModel === "volume" && (
+              <CostField label="Impact" value={form.slippageImpact} onChange={(value) => update("slippageImpact", value)} />
+            )}
+          </div>
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+            <label className="flex flex-col text-sm">
+              Tax lot relief
+              <select
+                value={lotMethod}
+                onChange={(event) => setLotMethod(event.target.value as LotMethod)}
+                className="mt-1 rounded-lg border border-border px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+              >
+                {(Object.keys(LOT_METHOD_LABELS) as LotMethod[]).map((method) => (
+                  <option key={method} value={method}>
+                    {LOT_METHOD_LABELS[method]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <CostField label="Dividend withholding (%)" value={withholding} onChange={setWithholding} />
+            <label className="flex flex-col text-sm">
+              When the market is closed
+              <select
+                value={marketHoursPolicy}
+                onChange={(event) => setMarketHoursPolicy(event.target.value as MarketHoursPolicy)}
+                className="mt-1 rounded-lg border border-border px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+              >
+                {(Object.keys(MARKET_HOURS_POLICY_LABELS) as MarketHoursPolicy[]).map((policy) => (
+                  <option key={policy} value={policy}>
+                    {MARKET_HOURS_POLICY_LABELS[policy]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={fxAutoConvert} onChange={(event) => setFxAutoConvert(event.target.checked)} />
+            Convert foreign-currency fills from base cash automatically
+          </label>
+          <div className="flex flex-col gap-3 rounded-lg border border-border p-3">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={fillSimulation}
+                onChange={(event) => setFillSimulation(event.target.checked)}
+              />
+              Simulate partial fills from daily volume
+            </label>
+            {fillSimulation && (
+              <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+                <CostField label="Max participation (% of ADV / day)" value={participation} onChange={setParticipation} />
+                <CostField label="Impact (bps at 100% ADV)" value={impactBps} onChange={setImpactBps} />
+              </div>
+            )}
+          </div>
+          <div className="flex flex-col gap-3 rounded-lg border border-border p-3">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={margin.allowShort}
+                onChange={(event) => setMargin({ ...margin, allowShort: event.target.checked })}
+              />
+              Allow short selling
+            </label>
+            {margin.allowShort && (
+              <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+                <CostField
+                  label="Borrow fee (% / year)"
+                  value={margin.borrowFeeRate}
+                  onChange={(value) => setMargin({ ...margin, borrowFeeRate: value })}
+                />
+                <CostField
+                  label="Initial margin (%)"
+                  value={margin.initialMarginRate}
+                  onChange={(value) => setMargin({ ...margin, initialMarginRate: value })}
+                />
+                <CostField
+                  label="Maintenance margin (%)"
+                  value={margin.maintenanceMarginRate}
+                  onChange={(value) => setMargin({ ...margin, maintenanceMarginRate: value })}
+                />
+              </div>
+            )}
+          </div>
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+            <label className="flex flex-col text-sm">
+              Benchmark
+              <select
+                value={benchmarkKind}
+                onChange={(event) => setBenchmarkKind(event.target.value as BenchmarkKind)}
+                className="mt-1 rounded-lg border border-border px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+              >
+                <option value="none">None</option>
+                <option value="symbol">Index or fund</option>
+                <option value="portfolio">Another portfolio</option>
+              </select>
+            </label>
+            {benchmarkKind === "symbol" && (
+              <label className="flex flex-col text-sm">
+                Symbol
+                <input
+                  list="benchmark-symbols"
+                  value={benchmarkSymbol}
+                  onChange={(event) => setBenchmarkSymbol(event.target.value)}
+                  placeholder="^GSPC"
+                  className="mt-1 rounded-lg border border-border px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+                />
+                <datalist id="benchmark-symbols">
+                  {(benchmarkMatches ?? []).map((match) => (
+                    <option
+                      key={`${match.source}-${match.ticker}-${match.mic ?? ""}`}
+                      value={match.yahooSymbol ?? match.ticker}
+                    >
+                      {match.name}
+                    </option>
+                  ))}
+                </datalist>
+              </label>
+            )}
+            {benchmarkKind === "portfolio" && (
+              <label className="flex flex-col text-sm">
+                Portfolio
+                <select
+                  value={benchmarkPortfolioId}
+                  onChange={(event) => setBenchmarkPortfolioId(event.target.value)}
+                  className="mt-1 rounded-lg border border-border px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+                >
+                  <option value="">Choose a portfolio</option>
+                  {(portfoliosData?.portfolios ?? [])
+                    .filter((portfolio) => portfolio.id !== portfolioId)
+                    .map((portfolio) => (
+                      <option key={portfolio.id} value={portfolio.id}>
+                        {portfolio.name}
+                      </option>
+                    ))}
+                </select>
+              </label>
+            )}
+          </div>
+          <UniverseFields id="portfolio-universe" value={universe} onChange={setUniverse} />
+          {error && <p className="text-sm text-rose-600">{error}</p>}
+          {notice && <p className="text-sm text-muted-foreground">{notice}</p>}
+          <div>
+            <button
+              type="submit"
+              disabled={mutation.isPending}
+              className="rounded-lg bg-brand-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-700 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {mutation.isPending ? "Saving..." : "Save settings"}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
+interface CostFieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+function CostField({ label, value, onChange }: CostFieldProps) {
+  return (
+    <label className="flex flex-col text-sm">
+      {label}
+      <input
+        type="number"
+        min="0"
+        step="0.0001"
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        className="mt-1 rounded-lg border border-border px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+      />
+    </label>
+  );
+}
+
+function toForm(model: PortfolioCostModel): CostModelForm {
+  return {
+    commissionFixed: String(model.commissionFixed),
+    commissionBps: String(model.commissionBps),
+    commissionPerShare: String(model.commissionPerShare),
+    commissionMin: model.commissionMin === null ? "" : String(model.commissionMin),
+    commissionMax: model.commissionMax === null ? "" : String(model.commissionMax),
+    slippageModel: model.slippageModel,
+    slippageBps: String(model.slippageBps),
+    slippageImpact: String(model.slippageImpact)
+  };
+}
+
+function toMarginForm(policy: PortfolioMarginPolicy): MarginForm {
+  const percent = (value: number) => String(Number((value * 100).toFixed(4)));
+  return {
+    allowShort: policy.allowShort,
+    borrowFeeRate: percent(policy.borrowFeeRate),
+    initialMarginRate: percent(policy.initialMarginRate),
+    maintenanceMarginRate: percent(policy.maintenanceMarginRate)
+  };
+}
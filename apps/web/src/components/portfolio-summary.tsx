@@ -6,6 +6,12 @@ interface PortfolioSummaryProps {
   portfolio?: PortfolioSnapshot;
 }
 
+interface Metric {
+  label: string;
+  value: string;
+  hint?: string;
+}
+
 export function PortfolioSummary({ portfolio }: PortfolioSummaryProps) {
   if (!portfolio) {
     return (
@@ -15,15 +21,23 @@ export function PortfolioSummary({ portfolio }: PortfolioSummaryProps) {
     );
   }
 
-  const totalValue = portfolio.totalMarketValue + portfolio.cashBalance;
-  const metrics = [
+  const totalValue = portfolio.totalMarketValue + portfolio.totalCash;
+  const metrics: Metric[] = [
     {
       label: "Cash Balance",
-      value: formatCurrency(portfolio.cashBalance, portfolio.baseCurrency)
+      value: formatCurrency(portfolio.totalCash, portfolio.baseCurrency),
+      hint:
+        portfolio.cash.length > 1
+          ? portfolio.cash.map((balance) => formatCurrency(balance.amount, balance.currency)).join(" / ")
+          : undefined
     },
     {
       label: "Total Value",
-      value: formatCurrency(totalValue, portfolio.baseCurrency)
+      value: formatCurrency(totalValue, portfolio.baseCurrency),
+      hint: `Net deposits ${formatCurrency(portfolio.netDeposits, portfolio.baseCurrency)} / gain ${formatCurrency(
+        totalValue - portfolio.netDeposits,
+        portfolio.baseCurrency
+      )}`
     },
     {
       label: "Cost Basis",
@@ -32,22 +46,75 @@ export function PortfolioSummary({ portfolio }: PortfolioSummaryProps) {
     {
       label: "Unrealized PnL",
       value: formatCurrency(portfolio.totalUnrealizedPnL, portfolio.baseCurrency)
+    },
+    {
+      label: "Realized PnL",
+      value: formatCurrency(portfolio.totalRealizedPnL, portfolio.baseCurrency),
+      hint: `Short-term ${formatCurrency(portfolio.totalShortTermPnL, portfolio.baseCurrency)} / long-term ${formatCurrency(
+        portfolio.totalLongTermPnL,
+        portfolio.baseCurrency
+      )}`
+    },
+    {
+      label: "Fees & Slippage",
+      value: formatCurrency(portfolio.totalFees + portfolio.totalSlippage, portfolio.baseCurrency)
     }
   ];
+  if (portfolio.totalDividends !== 0) {
+    metrics.push({
+      label: "Dividends",
+      value: formatCurrency(portfolio.totalDividends, portfolio.baseCurrency)
+    });
+  }
+  const margin = portfolio.margin;
+  if (margin) {
+    metrics.push(
+      {
+        label: "Margin Equity",
+        value: formatCurrency(margin.equity, portfolio.baseCurrency)
+      },
+      {
+        label: "Gross Exposure",
+        value: formatCurrency(margin.grossExposure, portfolio.baseCurrency)
+      },
+      {
+        label: "Available Margin",
+        value: formatCurrency(margin.availableMargin, portfolio.baseCurrency)
+      },
+      {
+        label: "Maintenance Req.",
+        value: formatCurrency(margin.maintenanceRequirement, portfolio.baseCurrency)
+      },
+      {
+        label: "Borrow Fees",
+        value: formatCurrency(portfolio.borrowFeesPaid, portfolio.baseCurrency)
+      }
+    );
+  }
 
   return (
     <div className="rounded-2xl border border-border bg-card p-6 shadow-sm">
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-lg font-semibold text-foreground">{portfolio.name}</h2>
-          <p className="text-sm text-muted-foreground">Base currency: {portfolio.baseCurrency}</p>
+          <p className="text-sm text-muted-foreground">
+            Base currency: {portfolio.baseCurrency}
+            {portfolio.currencies.length > 1 &&
+              ` · Exposure ${portfolio.currencies
+                .map((exposure) => `${exposure.currency} ${formatPercent(exposure.baseValue, totalValue)}`)
+                .join(", ")}`}
+          </p>
         </div>
+        {margin?.marginCall && (
+          <span className="rounded-full bg-rose-100 px-3 py-1 text-xs font-semibold text-rose-700">Margin call</span>
+        )}
       </div>
-      <dl className="mt-6 grid grid-cols-1 gap-4 md:grid-cols-4">
+      <dl className="mt-6 grid grid-cols-1 gap-4 md:grid-cols-3 lg:grid-cols-6">
         {metrics.map((metric) => (
           <div key={metric.label} className="rounded-xl border border-border p-4">
             <dt className="text-xs uppercase tracking-wide text-muted-foreground">{metric.label}</dt>
             <dd className="mt-2 text-lg font-semibold text-foreground">{metric.value}</dd>
+            {metric.hint && <p className="mt-1 text-xs text-muted-foreground">{metric.hint}</p>}
           </div>
         ))}
       </dl>
@@ -59,4 +126,8 @@ function formatCurrency(value: number, currency: string) {
   return value.toLocaleString(undefined, { style: "currency", currency });
 }
 
+function formatPercent(value: number, total: number) {
+  return total === 0 ? "0%" : `${((value / total) * 100).toFixed(1)}%`;
+}
+
 
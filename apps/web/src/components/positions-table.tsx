@@ -1,16 +1,19 @@
 ﻿"use client";
 
+import { Fragment, useState } from "react";
 import { useRouter } from "next/navigation";
-import type { PortfolioPosition } from "@/hooks/api";
+import { useTaxLots, type PortfolioPosition } from "@/hooks/api";
 
 interface PositionsTableProps {
   positions: PortfolioPosition[];
   baseCurrency: string;
+  portfolioId?: number;
   onSelectSymbol?: (symbol: string) => void;
 }
 
-export function PositionsTable({ positions, baseCurrency, onSelectSymbol }: PositionsTableProps) {
+export function PositionsTable({ positions, baseCurrency, portfolioId, onSelectSymbol }: PositionsTableProps) {
   const router = useRouter();
+  const [expanded, setExpanded] = useState<string | null>(null);
 
   if (!positions.length) {
     return (
@@ -40,6 +43,7 @@ export function PositionsTable({ positions, baseCurrency, onSelectSymbol }: Posi
         <table className="min-w-full divide-y divide-border text-sm">
           <thead className="text-left text-xs uppercase tracking-wide text-muted-foreground">
             <tr>
+              <th className="w-8 px-3 py-2" />
               <th className="px-3 py-2">Symbol</th>
               <th className="px-3 py-2 text-right">Qty</th>
               <th className="px-3 py-2 text-right">Avg Price</th>
@@ -51,35 +55,53 @@ export function PositionsTable({ positions, baseCurrency, onSelectSymbol }: Posi
           </thead>
           <tbody className="divide-y divide-border text-foreground">
             {positions.map((position) => (
-              <tr
-                key={position.symbol}
-                className="cursor-pointer transition hover:bg-muted"
-                onClick={() => handleRowClick(position.symbol)}
-              >
-                <td className="px-3 py-2 font-medium text-foreground">{position.symbol}</td>
-                <td className="px-3 py-2 text-right">{formatNumber(position.qty, 4)}</td>
-                <td className="px-3 py-2 text-right">{formatCurrency(position.avgPrice, baseCurrency)}</td>
-                <td className="px-3 py-2 text-right">
-                  {position.marketPrice !== null
-                    ? formatCurrency(position.marketPrice, baseCurrency)
-                    : "-"}
-                </td>
-                <td className="px-3 py-2 text-right">
-                  {position.marketValue !== null
-                    ? formatCurrency(position.marketValue, baseCurrency)
-                    : "-"}
-                </td>
-                <td className={`px-3 py-2 text-right ${valueClass(position.unrealizedPnL)}`}>
-                  {position.unrealizedPnL !== null
-                    ? formatCurrency(position.unrealizedPnL, baseCurrency)
-                    : "-"}
-                </td>
-                <td className={`px-3 py-2 text-right ${valueClass(position.dailyPnL)}`}>
-                  {position.dailyPnL !== null
-                    ? formatCurrency(position.dailyPnL, baseCurrency)
-                    : "-"}
-                </td>
-              </tr>
+              <Fragment key={position.symbol}>
+                <tr className="cursor-pointer transition hover:bg-muted" onClick={() => handleRowClick(position.symbol)}>
+                  <td className="px-3 py-2">
+                    <button
+                      type="button"
+                      aria-label={expanded === position.symbol ? "Hide lots" : "Show lots"}
+                      onClick={(event) => {
+                        event.stopPropagation();
+                        setExpanded((current) => (current === position.symbol ? null : position.symbol));
+                      }}
+                      className="text-xs text-muted-foreground hover:text-foreground"
+                    >
+                      {expanded === position.symbol ? "▾" : "▸"}
+                    </button>
+                  </td>
+                  <td className="px-3 py-2 font-medium text-foreground">{position.symbol}</td>
+                  <td className="px-3 py-2 text-right">{formatNumber(position.qty, 4)}</td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(position.avgPrice, position.currency ?? baseCurrency)}</td>
+                  <td className="px-3 py-2 text-right">
+                    {position.marketPrice !== null
+                      ? formatCurrency(position.marketPrice, position.currency ?? baseCurrency)
+                      : "-"}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {position.marketValue !== null
+                      ? formatCurrency(position.marketValue, position.currency ?? baseCurrency)
+                      : "-"}
+                  </td>
+                  <td className={`px-3 py-2 text-right ${valueClass(position.unrealizedPnL)}`}>
+                    {position.unrealizedPnL !== null
+                      ? formatCurrency(position.unrealizedPnL, position.currency ?? baseCurrency)
+                      : "-"}
+                  </td>
+                  <td className={`px-3 py-2 text-right ${valueClass(position.dailyPnL)}`}>
+                    {position.dailyPnL !== null
+                      ? formatCurrency(position.dailyPnL, position.currency ?? baseCurrency)
+                      : "-"}
+                  </td>
+                </tr>
+                {expanded === position.symbol && (
+                  <tr>
+                    <td colSpan={8} className="bg-muted/40 px-3 py-3">
+                      <PositionLots portfolioId={portfolioId} position={position} baseCurrency={baseCurrency} />
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
             ))}
           </tbody>
         </table>
@@ -88,6 +110,57 @@ export function PositionsTable({ positions, baseCurrency, onSelectSymbol }: Posi
   );
 }
 
+interface PositionLotsProps {
+  portfolioId?: number;
+  position: PortfolioPosition;
+  baseCurrency: string;
+}
+
+function PositionLots({ portfolioId, position, baseCurrency }: PositionLotsProps) {
+  const { data, isLoading } = useTaxLots(portfolioId, position.symbol);
+  const lots = data?.lots ?? [];
+  const currency = position.currency ?? baseCurrency;
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading lots...</p>;
+  }
+  if (!lots.length) {
+    return <p className="text-xs text-muted-foreground">No open lots for {position.symbol}.</p>;
+  }
+
+  return (
+    <table className="min-w-full text-xs">
+      <thead className="text-left uppercase tracking-wide text-muted-foreground">
+        <tr>
+          <th className="px-2 py-1">Lot</th>
+          <th className="px-2 py-1">Opened</th>
+          <th className="px-2 py-1 text-right">Qty</th>
+          <th className="px-2 py-1 text-right">Cost</th>
+          <th className="px-2 py-1 text-right">Unrealized PnL</th>
+          <th className="px-2 py-1">Term</th>
+        </tr>
+      </thead>
+      <tbody>
+        {lots.map((lot) => {
+          const unrealized = position.marketPrice !== null ? lot.qty * (position.marketPrice - lot.costPrice) : null;
+          return (
+            <tr key={lot.id}>
+              <td className="px-2 py-1 text-muted-foreground">#{lot.id}</td>
+              <td className="px-2 py-1">{new Date(lot.openedAt).toLocaleDateString()}</td>
+              <td className="px-2 py-1 text-right">{formatNumber(lot.qty, 4)}</td>
+              <td className="px-2 py-1 text-right">{formatCurrency(lot.costPrice, currency)}</td>
+              <td className={`px-2 py-1 text-right ${valueClass(unrealized)}`}>
+                {unrealized !== null ? formatCurrency(unrealized, currency) : "-"}
+              </td>
+              <td className="px-2 py-1">{lot.longTerm ? "Long-term" : "Short-term"}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
 function formatCurrency(value: number, currency: string) {
   return value.toLocaleString(undefined, { style: "currency", currency });
 }
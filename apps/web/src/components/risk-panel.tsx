@@ -0,0 +1,256 @@
+"use client";
+
+import { useState } from "react";
+import { RiskLookback, RiskMeasure, useRisk } from "@/hooks/api";
+
+interface RiskPanelProps {
+  portfolioId?: number;
+}
+
+const CONFIDENCE_LEVELS = [0.9, 0.95, 0.99];
+
+const LOOKBACKS: Array<{ value: RiskLookback; label: string }> = [
+  { value: "3mo", label: "3 months" },
+  { value: "6mo", label: "6 months" },
+  { value: "1y", label: "1 year" },
+  { value: "2y", label: "2 years" },
+  { value: "5y", label: "5 years" }
+];
+
+const DEFAULT_SCENARIOS = ["Equity sell-off: -20% equities", "Broad crash: -35% all", "Dollar rally: +10% USD"];
+
+export function RiskPanel({ portfolioId }: RiskPanelProps) {
+  const [confidence, setConfidence] = useState(0.95);
+  const [lookback, setLookback] = useState<RiskLookback>("1y");
+  const [draft, setDraft] = useState(DEFAULT_SCENARIOS.join("\n"));
+  const [scenarios, setScenarios] = useState(DEFAULT_SCENARIOS);
+  const { data: report, isLoading, isError, error } = useRisk(portfolioId, { confidence, lookback, scenarios });
+  const currency = report?.baseCurrency ?? "USD";
+
+  const applyScenarios = () => {
+    setScenarios(
+      draft
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean)
+    );
+  };
+
+  const measures: Array<{ label: string; measure: RiskMeasure | undefined }> = [
+    { label: "Historical VaR", measure: report?.valueAtRisk.historical },
+    { label: "Parametric VaR", measure: report?.valueAtRisk.parametric },
+    { label: "Historical ES", measure: report?.expectedShortfall.historical },
+    { label: "Parametric ES", measure: report?.expectedShortfall.parametric }
+  ];
+
+  return (
+    <div className="flex flex-col gap-6">
+      <section className="rounded-2xl border border-border bg-card p-6 shadow-sm">
+        <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+          <div>
+            <h2 className="text-base font-semibold text-foreground">Value at risk</h2>
+            <p className="text-sm text-muted-foreground">
+              {report && report.from
+                ? `Today's holdings through ${report.observations} days of history, ${report.from} to ${report.to}.`
+                : "Losses today's holdings would have taken over their past daily moves."}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <select
+              value={confidence}
+              onChange={(event) => setConfidence(Number(event.target.value))}
+              className="rounded-lg border border-border px-3 py-1 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+            >
+              {CONFIDENCE_LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  {level * 100}% confidence
+                </option>
+              ))}
+            </select>
+            <select
+              value={lookback}
+              onChange={(event) => setLookback(event.target.value as RiskLookback)}
+              className="rounded-lg border border-border px-3 py-1 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+            >
+              {LOOKBACKS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+        {isLoading ? (
+          <p className="mt-4 text-sm text-muted-foreground">Loading risk...</p>
+        ) : isError ? (
+          <p className="mt-4 text-sm text-rose-600">{error instanceof Error ? error.message : "Unable to load risk."}</p>
+        ) : report ? (
+          <>
+            <dl className="mt-6 grid grid-cols-2 gap-4 md:grid-cols-5">
+              {measures.map(({ label, measure }) => (
+                <div key={label} className="rounded-xl border border-border p-4">
+                  <dt className="text-xs uppercase tracking-wide text-muted-foreground">{label}</dt>
+                  <dd className="mt-2 text-lg font-semibold text-foreground">
+                    {formatCurrency(measure?.oneDay ?? null, currency)}
+                  </dd>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    1 day · {formatCurrency(measure?.tenDay ?? null, currency)} over 10 days
+                  </p>
+                </div>
+              ))}
+              <div className="rounded-xl border border-border p-4">
+                <dt className="text-xs uppercase tracking-wide text-muted-foreground">Daily volatility</dt>
+                <dd className="mt-2 text-lg font-semibold text-foreground">
+                  {formatCurrency(report.dailyVolatility, currency)}
+                </dd>
+                <p className="mt-1 text-xs text-muted-foreground">NAV {formatCurrency(report.nav, currency)}</p>
+              </div>
+            </dl>
+            {report.unmodeled.length > 0 && (
+              <p className="mt-4 text-xs text-muted-foreground">
+                Left out for lack of price history: {report.unmodeled.join(", ")}.
+              </p>
+            )}
+          </>
+        ) : null}
+      </section>
+
+      {report && report.contributions.length > 0 && (
+        <section className="grid gap-6 xl:grid-cols-2">
+          <div className="rounded-2xl border border-border bg-card p-6 shadow-sm">
+            <h2 className="text-base font-semibold text-foreground">Risk contribution</h2>
+            <p className="text-sm text-muted-foreground">Each position&apos;s part of the parametric one-day VaR.</p>
+            <table className="mt-4 min-w-full divide-y divide-border text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase tracking-wide text-muted-foreground">
+                  <th className="py-2">Symbol</th>
+                  <th className="py-2 text-right">Value</th>
+                  <th className="py-2 text-right">Marginal</th>
+                  <th className="py-2 text-right">Component VaR</th>
+                  <th className="py-2 text-right">Share</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {report.contributions.map((row) => (
+                  <tr key={row.symbol}>
+                    <td className="py-2 font-medium text-foreground">{row.symbol}</td>
+                    <td className="py-2 text-right">{formatCurrency(row.value, currency)}</td>
+                    <td className="py-2 text-right">{row.marginal === null ? "--" : row.marginal.toFixed(4)}</td>
+                    <td className="py-2 text-right">{formatCurrency(row.componentVaR, currency)}</td>
+                    <td className="py-2 text-right">{formatPercent(row.share)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="overflow-x-auto rounded-2xl border border-border bg-card p-6 shadow-sm">
+            <h2 className="text-base font-semibold text-foreground">Correlation</h2>
+            <p className="text-sm text-muted-foreground">Of daily returns in the base currency.</p>
+            <table className="mt-4 text-sm">
+              <thead>
+                <tr>
+                  <th />
+                  {report.correlation.symbols.map((symbol) => (
+                    <th key={symbol} className="px-2 py-1 text-xs font-semibold text-muted-foreground">
+                      {symbol}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {report.correlation.matrix.map((row, rowIndex) => (
+                  <tr key={report.correlation.symbols[rowIndex]}>
+                    <th className="px-2 py-1 text-left text-xs font-semibold text-muted-foreground">
+                      {report.correlation.symbols[rowIndex]}
+                    </th>
+                    {row.map((value, columnIndex) => (
+                      <td
+                        key={columnIndex}
+                        className="px-2 py-1 text-right"
+                        style={{ backgroundColor: correlationColor(value) }}
+                      >
+                        {value === null ? "--" : value.toFixed(2)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      <section className="rounded-2xl border border-border bg-card p-6 shadow-sm">
+        <h2 className="text-base font-semibold text-foreground">Stress scenarios</h2>
+        <p className="text-sm text-muted-foreground">
+          One scenario per line, like <code>Risk off: -20% equities, +10% USD</code>. Targets are symbols, currencies,
+          asset classes (equities, stocks, etfs, funds, crypto) or all.
+        </p>
+        <textarea
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          rows={4}
+          className="mt-4 w-full rounded-lg border border-border px-3 py-2 font-mono text-sm focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+        />
+        <button
+          type="button"
+          onClick={applyScenarios}
+          className="mt-2 rounded-lg bg-brand-600 px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-700"
+        >
+          Run scenarios
+        </button>
+        {report && report.scenarios.length > 0 && (
+          <table className="mt-4 min-w-full divide-y divide-border text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wide text-muted-foreground">
+                <th className="py-2">Scenario</th>
+                <th className="py-2 text-right">P&amp;L</th>
+                <th className="py-2 text-right">Of NAV</th>
+                <th className="py-2">Worst position</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {report.scenarios.map((scenario) => {
+                const worst = [...scenario.positions].sort((a, b) => a.pnl - b.pnl)[0];
+                return (
+                  <tr key={scenario.name}>
+                    <td className="py-2 text-foreground">
+                      {scenario.name}
+                      {scenario.unmatched.length > 0 && (
+                        <span className="ml-2 text-xs text-amber-600">No match: {scenario.unmatched.join(", ")}</span>
+                      )}
+                    </td>
+                    <td className={`py-2 text-right ${scenario.pnl < 0 ? "text-rose-600" : "text-emerald-600"}`}>
+                      {formatCurrency(scenario.pnl, currency)}
+                    </td>
+                    <td className="py-2 text-right">{formatPercent(scenario.pnlPercent)}</td>
+                    <td className="py-2 text-muted-foreground">
+                      {worst ? `${worst.symbol} ${formatCurrency(worst.pnl, currency)}` : "--"}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
+
+/** Red for positive correlation, blue for negative, fading to none at zero. */
+function correlationColor(value: number | null) {
+  if (value === null) {
+    return undefined;
+  }
+  const alpha = Math.min(Math.abs(value), 1) * 0.35;
+  return value >= 0 ? `rgba(225, 29, 72, ${alpha})` : `rgba(37, 99, 235, ${alpha})`;
+}
+
+function formatPercent(value: number | null) {
+  return value === null ? "--" : `${(value * 100).toFixed(2)}%`;
+}
+
+function formatCurrency(value: number | null, currency: string) {
+  return value === null ? "--" : value.toLocaleString(undefined, { style: "currency", currency });
+}
@@ -1,7 +1,14 @@
 ﻿"use client";
 
 import { useState } from "react";
-import { usePlaceTrade } from "@/hooks/api";
+import {
+  useMarketHours,
+  usePlaceTrade,
+  useQuantityRules,
+  type BracketInput,
+  type OrderType,
+  type TimeInForce
+} from "@/hooks/api";
 
 interface TradeFormProps {
   symbol: string;
@@ -9,30 +16,144 @@ interface TradeFormProps {
   onSubmitted?: () => void;
 }
 
+const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  market: "Market",
+  limit: "Limit",
+  stop: "Stop",
+  stop_limit: "Stop limit",
+  trailing_stop: "Trailing"
+};
+
+const TIME_IN_FORCE_LABELS: Record<TimeInForce, string> = {
+  GTC: "Good till cancelled",
+  DAY: "Day",
+  GTD: "Good till date",
+  IOC: "Immediate or cancel",
+  FOK: "Fill or kill"
+};
+
 export function TradeForm({ symbol, portfolioId, onSubmitted }: TradeFormProps) {
   const [side, setSide] = useState<"BUY" | "SELL">("BUY");
+  const [orderType, setOrderType] = useState<OrderType>("market");
   const [qty, setQty] = useState("0");
   const [price, setPrice] = useState("");
+  const [limitPrice, setLimitPrice] = useState("");
+  const [stopPrice, setStopPrice] = useState("");
+  const [trailMode, setTrailMode] = useState<"amount" | "percent">("percent");
+  const [trailValue, setTrailValue] = useState("");
+  const [withBracket, setWithBracket] = useState(false);
+  const [takeProfitPrice, setTakeProfitPrice] = useState("");
+  const [stopLossPrice, setStopLossPrice] = useState("");
+  const [timeInForce, setTimeInForce] = useState<TimeInForce>("GTC");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [lotIds, setLotIds] = useState("");
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const { data: quantityRules } = useQuantityRules(symbol);
+  const { data: marketHours } = useMarketHours(symbol);
+  const marketStatus = marketHours?.status;
+  const rules = quantityRules?.rules;
+  const qtyStep = rules ? (rules.allowFractional ? 10 ** -rules.qtyPrecision : rules.lotSize) : 0.0001;
   const mutation = usePlaceTrade();
 
+  const needsLimit = orderType === "limit" || orderType === "stop_limit";
+  const needsStop = orderType === "stop" || orderType === "stop_limit";
+  const immediateOnly = orderType === "market" || orderType === "limit";
+
   const submit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
     setError(null);
+    setNotice(null);
     const qtyValue = Number(qty);
     if (!Number.isFinite(qtyValue) || qtyValue <= 0) {
       setError("Quantity must be a positive number");
       return;
     }
-    const priceValue = price ? Number(price) : undefined;
-    if (price && (!Number.isFinite(Number(price)) || Number(price) <= 0)) {
+    const priceValue = orderType === "market" && price ? Number(price) : undefined;
+    if (priceValue !== undefined && !isPositive(priceValue)) {
       setError("Price must be positive");
       return;
     }
+    const limitValue = needsLimit ? Number(limitPrice) : undefined;
+    if (limitValue !== undefined && (!limitPrice || !isPositive(limitValue))) {
+      setError("Limit price must be positive");
+      return;
+    }
+    const stopValue = needsStop ? Number(stopPrice) : undefined;
+    if (stopValue !== undefined && (!stopPrice || !isPositive(stopValue))) {
+      setError("Stop price must be positive");
+      return;
+    }
+    const trail = orderType === "trailing_stop" ? Number(trailValue) : undefined;
+    if (trail !== undefined && (!trailValue || !isPositive(trail))) {
+      setError("Trailing distance must be positive");
+      return;
+    }
+
+    if (!immediateOnly && (timeInForce === "IOC" || timeInForce === "FOK")) {
+      setError(`${TIME_IN_FORCE_LABELS[timeInForce]} only applies to market and limit orders`);
+      return;
+    }
+    const expiry = timeInForce === "GTD" ? new Date(expiresAt) : undefined;
+    if (expiry && (!expiresAt || Number.isNaN(expiry.getTime()) || expiry.getTime() <= Date.now())) {
+      setError("Expiry must be in the future");
+      return;
+    }
+
+    const selectedLots = side === "SELL" && lotIds.trim() ? lotIds.split(",").map((value) => Number(value.trim())) : undefined;
+    if (selectedLots && selectedLots.some((lotId) => !Number.isInteger(lotId) || lotId <= 0)) {
+      setError("Lot ids must be a comma-separated list of numbers");
+      return;
+    }
+
+    let bracket: BracketInput | undefined;
+    if (withBracket) {
+      const takeProfit = takeProfitPrice ? Number(takeProfitPrice) : undefined;
+      const stopLoss = stopLossPrice ? Number(stopLossPrice) : undefined;
+      if ((takeProfit !== undefined && !isPositive(takeProfit)) || (stopLoss !== undefined && !isPositive(stopLoss))) {
+        setError("Bracket prices must be positive");
+        return;
+      }
+      if (takeProfit === undefined && stopLoss === undefined) {
+        setError("Enter a take-profit or a stop-loss for the bracket");
+        return;
+      }
+      bracket = { takeProfitPrice: takeProfit, stopLossPrice: stopLoss };
+    }
+
     try {
-      await mutation.mutateAsync({ symbol, side, qty: qtyValue, price: priceValue, portfolioId });
+      const result = await mutation.mutateAsync({
+        symbol,
+        side,
+        qty: qtyValue,
+        price: priceValue,
+        orderType,
+        limitPrice: limitValue,
+        stopPrice: stopValue,
+        trailAmount: trail !== undefined && trailMode === "amount" ? trail : undefined,
+        trailPercent: trail !== undefined && trailMode === "percent" ? trail : undefined,
+        bracket,
+        timeInForce,
+        expiresAt: expiry?.toISOString(),
+        lotIds: selectedLots,
+        portfolioId
+      });
+      if (result.order.status === "rejected" || result.order.status === "cancelled") {
+        setNotice(`Order #${result.order.id} ${result.order.status}: ${result.order.statusReason ?? "not filled"}.`);
+      } else if (result.order.activeFrom) {
+        setNotice(`Order #${result.order.id} is queued until ${new Date(result.order.activeFrom).toLocaleString()}.`);
+      } else if (result.order.status === "open") {
+        setNotice(`${ORDER_TYPE_LABELS[result.order.orderType]} order #${result.order.id} is resting on the book.`);
+      } else if (bracket) {
+        setNotice(`Order #${result.order.id} filled; its exit orders are now live.`);
+      }
       setQty("0");
       setPrice("");
+      setLimitPrice("");
+      setStopPrice("");
+      setTrailValue("");
+      setTakeProfitPrice("");
+      setStopLossPrice("");
       if (onSubmitted) {
         onSubmitted();
       }
@@ -59,31 +180,117 @@ export function TradeForm({ symbol, portfolioId, onSubmitted }: TradeFormProps)
           </button>
         ))}
       </div>
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(ORDER_TYPE_LABELS) as OrderType[]).map((value) => (
+          <button
+            type="button"
+            key={value}
+            onClick={() => setOrderType(value)}
+            className={`flex-1 rounded-lg border px-3 py-1 text-xs font-semibold uppercase transition ${
+              orderType === value
+                ? "border-brand-600 text-brand-600"
+                : "border-border bg-card text-muted-foreground hover:border-border"
+            }`}
+          >
+            {ORDER_TYPE_LABELS[value]}
+          </button>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <PriceField
+          label="Quantity"
+          value={qty}
+          onChange={setQty}
+          step={qtyStep}
+          hint={quantityRules ? `Allowed: ${quantityRules.description}` : undefined}
+        />
+        {orderType === "market" && <PriceField label="Price (optional)" value={price} onChange={setPrice} />}
+        {needsStop && <PriceField label="Stop price" value={stopPrice} onChange={setStopPrice} />}
+        {needsLimit && <PriceField label="Limit price" value={limitPrice} onChange={setLimitPrice} />}
+        {orderType === "trailing_stop" && (
+          <label className="flex flex-col text-sm">
+            <span className="flex items-center justify-between">
+              Trailing distance
+              <select
+                value={trailMode}
+                onChange={(event) => setTrailMode(event.target.value as "amount" | "percent")}
+                className="rounded border border-border bg-card px-1 text-xs"
+              >
+                <option value="percent">%</option>
+                <option value="amount">Price</option>
+              </select>
+            </span>
+            <input
+              type="number"
+              min="0"
+              step="0.0001"
+              value={trailValue}
+              onChange={(event) => setTrailValue(event.target.value)}
+              className="mt-1 rounded-lg border border-border px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+            />
+          </label>
+        )}
+      </div>
       <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
         <label className="flex flex-col text-sm">
-          Quantity
-          <input
-            type="number"
-            min="0"
-            step="0.0001"
-            value={qty}
-            onChange={(event) => setQty(event.target.value)}
-            className="mt-1 rounded-lg border border-border px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
-          />
+          Time in force
+          <select
+            value={timeInForce}
+            onChange={(event) => setTimeInForce(event.target.value as TimeInForce)}
+            className="mt-1 rounded-lg border border-border bg-card px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+          >
+            {(Object.keys(TIME_IN_FORCE_LABELS) as TimeInForce[]).map((value) => (
+              <option key={value} value={value} disabled={!immediateOnly && (value === "IOC" || value === "FOK")}>
+                {TIME_IN_FORCE_LABELS[value]}
+              </option>
+            ))}
+          </select>
         </label>
+        {timeInForce === "GTD" && (
+          <label className="flex flex-col text-sm">
+            Expires at
+            <input
+              type="datetime-local"
+              value={expiresAt}
+              onChange={(event) => setExpiresAt(event.target.value)}
+              className="mt-1 rounded-lg border border-border px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+            />
+          </label>
+        )}
+      </div>
+      {side === "SELL" && (
         <label className="flex flex-col text-sm">
-          Price (optional)
+          Lots to sell (optional)
           <input
-            type="number"
-            min="0"
-            step="0.0001"
-            value={price}
-            onChange={(event) => setPrice(event.target.value)}
+            type="text"
+            placeholder="e.g. 12, 15"
+            value={lotIds}
+            onChange={(event) => setLotIds(event.target.value)}
             className="mt-1 rounded-lg border border-border px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
           />
         </label>
+      )}
+      <div className="flex flex-col gap-3 rounded-lg border border-border p-3">
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={withBracket} onChange={(event) => setWithBracket(event.target.checked)} />
+          Attach take-profit / stop-loss exits{side === "SELL" ? " (short entry)" : ""}
+        </label>
+        {withBracket && (
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+            <PriceField label="Take profit" value={takeProfitPrice} onChange={setTakeProfitPrice} />
+            <PriceField label="Stop loss" value={stopLossPrice} onChange={setStopLossPrice} />
+          </div>
+        )}
       </div>
       {error && <p className="text-sm text-rose-600">{error}</p>}
+      {marketStatus && !marketStatus.isOpen && (
+        <p className="text-xs text-muted-foreground">
+          {marketStatus.name} is closed
+          {marketStatus.nextOpen ? ` until ${new Date(marketStatus.nextOpen).toLocaleString()}` : ""}; orders follow the
+          portfolio&apos;s market hours policy.
+        </p>
+      )}
+      {notice && <p className="text-sm text-muted-foreground">{notice}</p>}
       <button
         type="submit"
         disabled={mutation.isPending}
@@ -95,3 +302,31 @@ export function TradeForm({ symbol, portfolioId, onSubmitted }: TradeFormProps)
   );
 }
 
+interface PriceFieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  step?: number;
+  hint?: string;
+}
+
+function PriceField({ label, value, onChange, step = 0.0001, hint }: PriceFieldProps) {
+  return (
+    <label className="flex flex-col text-sm">
+      {label}
+      <input
+        type="number"
+        min="0"
+        step={step}
+        value={value}
+        onChange={(event) => onChange(event.target.value)}
+        className="mt-1 rounded-lg border border-border px-3 py-2 focus:border-brand-500 focus:outline-none focus:ring-2 focus:ring-brand-200"
+      />
+      {hint && <span className="mt-1 text-xs text-muted-foreground">{hint}</span>}
+    </label>
+  );
+}
+
+function isPositive(value: number) {
+  return Number.isFinite(value) && value > 0;
+}
@@ -1,19 +1,33 @@
 ﻿"use client";
 
-import { useMemo, useState } from "react";
+import { FormEvent, Fragment, useMemo, useState } from "react";
+import { useAmendTrade, useReverseTrade } from "@/hooks/api";
 import type { TradeDto } from "@/hooks/api";
 
 interface TradesTableProps {
   trades: TradeDto[];
   baseCurrency: string;
-  priceLookup?: Record<string, number | null | undefined>;
 }
 
-export function TradesTable({ trades, baseCurrency, priceLookup = {} }: TradesTableProps) {
+interface AmendDraft {
+  tradeId: number;
+  qty: string;
+  price: string;
+  fee: string;
+  slippage: string;
+  reason: string;
+}
+
+export function TradesTable({ trades, baseCurrency }: TradesTableProps) {
   const [sideFilter, setSideFilter] = useState<"ALL" | "BUY" | "SELL">("ALL");
   const [symbolFilter, setSymbolFilter] = useState("");
   const [fromDate, setFromDate] = useState<string>("");
   const [toDate, setToDate] = useState<string>("");
+  const [draft, setDraft] = useState<AmendDraft | null>(null);
+  const [correctionError, setCorrectionError] = useState<string | null>(null);
+  const reverseTrade = useReverseTrade();
+  const amendTrade = useAmendTrade();
+  const correcting = reverseTrade.isPending || amendTrade.isPending;
 
   const filtered = useMemo(() => {
     return trades
@@ -36,6 +50,64 @@ export function TradesTable({ trades, baseCurrency, priceLookup = {} }: TradesTa
       });
   }, [trades, sideFilter, symbolFilter, fromDate, toDate]);
 
+  const handleReverse = (trade: TradeDto) => {
+    const reason = prompt(`Why is trade #${trade.id} (${trade.side} ${trade.qty} ${trade.symbol}) being reversed?`);
+    if (!reason?.trim()) {
+      return;
+    }
+    setCorrectionError(null);
+    reverseTrade.mutate(
+      { tradeId: trade.id, reason: reason.trim() },
+      { onError: (error) => setCorrectionError(error instanceof Error ? error.message : "Unable to reverse trade") }
+    );
+  };
+
+  const startAmend = (trade: TradeDto) => {
+    setCorrectionError(null);
+    setDraft({
+      tradeId: trade.id,
+      qty: String(trade.qty),
+      price: String(trade.price),
+      fee: String(trade.fee),
+      slippage: String(trade.slippage),
+      reason: ""
+    });
+  };
+
+  const handleAmend = (event: FormEvent<HTMLFormElement>, trade: TradeDto) => {
+    event.preventDefault();
+    if (!draft) {
+      return;
+    }
+    const values = {
+      qty: Number(draft.qty),
+      price: Number(draft.price),
+      fee: Number(draft.fee),
+      slippage: Number(draft.slippage)
+    };
+    if (!(values.qty > 0) || !(values.price >= 0) || !(values.fee >= 0) || !(values.slippage >= 0)) {
+      setCorrectionError("Quantity must be positive; price and costs cannot be negative.");
+      return;
+    }
+    if (!draft.reason.trim()) {
+      setCorrectionError("Give a reason for the amendment.");
+      return;
+    }
+    const changed = (Object.keys(values) as (keyof typeof values)[]).filter((key) => values[key] !== trade[key]);
+    if (changed.length === 0) {
+      setCorrectionError("Nothing was changed.");
+      return;
+    }
+    setCorrectionError(null);
+    amendTrade.mutate(
+      { tradeId: trade.id, reason: draft.reason.trim(), ...Object.fromEntries(changed.map((key) => [key, values[key]])) },
+      {
+        onSuccess: () => setDraft(null),
+        onError: (error) => setCorrectionError(error instanceof Error ? error.message : "Unable to amend trade")
+      }
+    );
+  };
+
   return (
     <div className="rounded-2xl border border-border bg-card p-6 shadow-sm">
       <div className="flex flex-col gap-3 md:flex-row md:items-end md:justify-between">
@@ -73,6 +145,7 @@ export function TradesTable({ trades, baseCurrency, priceLookup = {} }: TradesTa
           ))}
         </div>
       </div>
+      {correctionError && <p className="mt-3 text-sm text-rose-600">{correctionError}</p>}
       <div className="mt-4 overflow-x-auto">
         <table className="min-w-full divide-y divide-border text-sm">
           <thead className="text-left text-xs uppercase tracking-wide text-muted-foreground">
@@ -82,29 +155,118 @@ export function TradesTable({ trades, baseCurrency, priceLookup = {} }: TradesTa
               <th className="px-3 py-2">Side</th>
               <th className="px-3 py-2 text-right">Qty</th>
               <th className="px-3 py-2 text-right">Price</th>
-              <th className="px-3 py-2 text-right">PnL</th>
+              <th className="px-3 py-2 text-right">Fee</th>
+              <th className="px-3 py-2 text-right">Slippage</th>
+              <th className="px-3 py-2 text-right">Realized PnL</th>
+              <th className="px-3 py-2">Term</th>
+              <th className="px-3 py-2" />
             </tr>
           </thead>
           <tbody className="divide-y divide-border text-foreground">
             {filtered.map((trade) => {
-              const currentPrice = priceLookup[trade.symbol];
-              const pnl =
-                currentPrice !== undefined && currentPrice !== null
-                  ? calculateTradePnL(trade, currentPrice)
-                  : null;
+              const pnl = trade.realizedPnL;
+              const reversed = trade.reversedAt !== null;
               return (
-                <tr key={trade.id}>
-                  <td className="px-3 py-2 text-xs text-muted-foreground">{new Date(trade.ts).toLocaleString()}</td>
-                  <td className="px-3 py-2 font-medium text-foreground">{trade.symbol}</td>
-                  <td className={`px-3 py-2 font-semibold ${trade.side === "BUY" ? "text-emerald-600" : "text-rose-600"}`}>
-                    {trade.side}
-                  </td>
-                  <td className="px-3 py-2 text-right">{trade.qty.toLocaleString()}</td>
-                  <td className="px-3 py-2 text-right">{formatCurrency(trade.price, baseCurrency)}</td>
-                  <td className={`px-3 py-2 text-right ${valueClass(pnl)}`}>
-                    {pnl !== null ? formatCurrency(pnl, baseCurrency) : "-"}
-                  </td>
-                </tr>
+                <Fragment key={trade.id}>
+                  <tr className={reversed ? "text-muted-foreground line-through decoration-rose-400" : undefined}>
+                    <td className="px-3 py-2 text-xs text-muted-foreground">{new Date(trade.ts).toLocaleString()}</td>
+                    <td className="px-3 py-2 font-medium text-foreground">
+                      {trade.symbol}
+                      {trade.amendsTradeId !== null && (
+                        <span className="ml-2 rounded-full bg-amber-100 px-2 py-0.5 text-xs font-semibold text-amber-700">
+                          Corrects #{trade.amendsTradeId}
+                        </span>
+                      )}
+                    </td>
+                    <td className={`px-3 py-2 font-semibold ${trade.side === "BUY" ? "text-emerald-600" : "text-rose-600"}`}>
+                      {trade.side}
+                    </td>
+                    <td className="px-3 py-2 text-right">{trade.qty.toLocaleString()}</td>
+                    <td className="px-3 py-2 text-right">{formatCurrency(trade.price, trade.currency || baseCurrency)}</td>
+                    <td className="px-3 py-2 text-right text-muted-foreground">{formatCurrency(trade.fee, trade.currency || baseCurrency)}</td>
+                    <td className="px-3 py-2 text-right text-muted-foreground">
+                      {formatCurrency(trade.slippage, trade.currency || baseCurrency)}
+                    </td>
+                    <td className={`px-3 py-2 text-right ${valueClass(pnl)}`}>
+                      {pnl !== null ? formatCurrency(pnl, trade.currency || baseCurrency) : "-"}
+                    </td>
+                    <td className="px-3 py-2 text-xs text-muted-foreground">{describeTerm(trade)}</td>
+                    <td className="px-3 py-2 text-right text-xs">
+                      {/* inline-block keeps the row's strike-through off the audit note */}
+                      {reversed ? (
+                        <span className="inline-block text-rose-600">
+                          Reversed{trade.reversedBy ? ` by ${trade.reversedBy}` : ""} on{" "}
+                          {new Date(trade.reversedAt!).toLocaleString()}
+                          {trade.reversalReason ? `: ${trade.reversalReason}` : ""}
+                        </span>
+                      ) : (
+                        <div className="flex justify-end gap-2">
+                          <button
+                            type="button"
+                            onClick={() => startAmend(trade)}
+                            disabled={correcting}
+                            className="font-semibold text-brand-600 hover:text-brand-700 disabled:opacity-50"
+                          >
+                            Amend
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleReverse(trade)}
+                            disabled={correcting}
+                            className="font-semibold text-rose-600 hover:text-rose-700 disabled:opacity-50"
+                          >
+                            Reverse
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                  {draft?.tradeId === trade.id && (
+                    <tr>
+                      <td colSpan={10} className="bg-muted/40 px-3 py-3">
+                        <form onSubmit={(event) => handleAmend(event, trade)} className="flex flex-wrap items-end gap-3 text-xs">
+                          {(["qty", "price", "fee", "slippage"] as const).map((field) => (
+                            <label key={field} className="flex flex-col gap-1 font-medium capitalize text-muted-foreground">
+                              {field}
+                              <input
+                                type="number"
+                                step="any"
+                                min={0}
+                                value={draft[field]}
+                                onChange={(event) => setDraft({ ...draft, [field]: event.target.value })}
+                                className="w-28 rounded-lg border border-border px-2 py-1 text-sm text-foreground"
+                              />
+                            </label>
+                          ))}
+                          <label className="flex flex-1 flex-col gap-1 font-medium text-muted-foreground">
+                            Reason
+                            <input
+                              type="text"
+                              value={draft.reason}
+                              onChange={(event) => setDraft({ ...draft, reason: event.target.value })}
+                              placeholder="e.g. broker confirmation shows a different price"
+                              className="min-w-[12rem] rounded-lg border border-border px-2 py-1 text-sm text-foreground"
+                            />
+                          </label>
+                          <button
+                            type="submit"
+                            disabled={correcting}
+                            className="rounded-lg bg-brand-600 px-3 py-1.5 font-semibold text-white hover:bg-brand-700 disabled:opacity-50"
+                          >
+                            {amendTrade.isPending ? "Amending..." : "Amend trade"}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setDraft(null)}
+                            className="rounded-lg px-3 py-1.5 font-semibold text-muted-foreground hover:text-foreground"
+                          >
+                            Cancel
+                          </button>
+                        </form>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
               );
             })}
           </tbody>
@@ -121,9 +283,16 @@ function formatCurrency(value: number, currency: string) {
   return value.toLocaleString(undefined, { style: "currency", currency });
 }
 
-function calculateTradePnL(trade: TradeDto, currentPrice: number) {
-  const difference = trade.side === "BUY" ? currentPrice - trade.price : trade.price - currentPrice;
-  return difference * trade.qty;
+function describeTerm(trade: TradeDto) {
+  const shortTerm = trade.shortTermPnL ?? 0;
+  const longTerm = trade.longTermPnL ?? 0;
+  if (trade.realizedPnL === null) {
+    return "-";
+  }
+  if (shortTerm !== 0 && longTerm !== 0) {
+    return "Mixed";
+  }
+  return longTerm !== 0 ? "Long-term" : "Short-term";
 }
 
 function valueClass(value: number | null) {
@@ -1,5 +1,4 @@
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { useMemo } from "react";
+import { useMutation, useQueries, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiFetch } from "@/lib/api";
 import { useDebouncedValue } from "./useDebouncedValue";
 
@@ -24,6 +23,9 @@ export interface QuoteResponse {
   marketState?: string;
   previousClose?: number | null;
   timestamp?: number | null;
+  bid?: number | null;
+  ask?: number | null;
+  averageVolume?: number | null;
 }
 
 export interface HistoryCandle {
@@ -37,6 +39,8 @@ export interface HistoryCandle {
 
 export interface PortfolioPosition {
   symbol: string;
+  currency?: string;
+  fxRate?: number;
   qty: number;
   avgPrice: number;
   marketPrice: number | null;
@@ -52,15 +56,146 @@ export interface Portfolio {
   baseCurrency: string;
 }
 
+export interface PortfolioMargin {
+  equity: number;
+  longMarketValue: number;
+  shortMarketValue: number;
+  grossExposure: number;
+  initialRequirement: number;
+  maintenanceRequirement: number;
+  availableMargin: number;
+  marginCall: boolean;
+}
+
+export interface CashBalance {
+  currency: string;
+  amount: number;
+  fxRate: number;
+  baseAmount: number;
+}
+
+export interface CurrencyExposure {
+  currency: string;
+  fxRate: number;
+  cash: number;
+  marketValue: number;
+  baseValue: number;
+}
+
+export type CashTransactionType =
+  | "deposit"
+  | "withdrawal"
+  | "trade"
+  | "fee"
+  | "dividend"
+  | "interest"
+  | "fx"
+  | "adjustment";
+
+export interface CashTransactionDto {
+  id: number;
+  type: CashTransactionType;
+  currency: string;
+  amount: number;
+  balanceAfter: number;
+  fxRate: number;
+  baseAmount: number;
+  external: boolean;
+  tradeId: number | null;
+  note: string | null;
+  ts: string;
+}
+
+export interface CashFlowSummary {
+  deposits: number;
+  withdrawals: number;
+  netExternalFlow: number;
+  internal: Partial<Record<CashTransactionType, number>>;
+}
+
+export interface CashTransactionInput {
+  type: "deposit" | "withdrawal" | "fee" | "interest" | "adjustment";
+  amount: number;
+  currency?: string;
+  note?: string;
+}
+
+export interface FxConversionDto {
+  id: number;
+  fromCurrency: string;
+  toCurrency: string;
+  fromAmount: number;
+  toAmount: number;
+  rate: number;
+  ts: string;
+}
+
+export type CorporateActionType = "split" | "dividend" | "symbol_change" | "delisting";
+
+export interface CorporateActionDto {
+  id: number;
+  symbol: string;
+  type: CorporateActionType;
+  exDate: string;
+  ratio: number | null;
+  amount: number | null;
+  newSymbol: string | null;
+  source: string;
+  description: string;
+  createdAt: string;
+}
+
+export interface CorporateActionEntryDto {
+  id: number;
+  actionId: number;
+  tradeId: number | null;
+  symbol: string;
+  type: CorporateActionType;
+  qtyBefore: number;
+  qtyAfter: number;
+  avgPriceBefore: number;
+  avgPriceAfter: number;
+  cashAmount: number;
+  withholdingTax: number;
+  currency: string;
+  fxRate: number;
+  note: string | null;
+  createdAt: string;
+}
+
+export interface CorporateActionInput {
+  symbol: string;
+  type: CorporateActionType;
+  exDate: string;
+  ratio?: number;
+  amount?: number;
+  newSymbol?: string;
+}
+
 export interface PortfolioSnapshot {
   id: number;
   name: string;
   baseCurrency: string;
+  fxAutoConvert: boolean;
+  /** Set when the snapshot shows the portfolio as it stood at this moment. */
+  asOf?: string;
   cashBalance: number;
+  totalCash: number;
+  cash: CashBalance[];
+  currencies: CurrencyExposure[];
   totalMarketValue: number;
   totalCostBasis: number;
   totalUnrealizedPnL: number;
   totalDailyPnL: number;
+  totalFees: number;
+  totalSlippage: number;
+  totalRealizedPnL: number;
+  totalShortTermPnL: number;
+  totalLongTermPnL: number;
+  borrowFeesPaid: number;
+  totalDividends: number;
+  netDeposits: number;
+  margin: PortfolioMargin | null;
   positions: PortfolioPosition[];
 }
 
@@ -70,7 +205,84 @@ export interface TradeDto {
   side: "BUY" | "SELL";
   qty: number;
   price: number;
+  fee: number;
+  slippage: number;
+  currency: string;
+  fxRate: number;
+  realizedPnL: number | null;
+  shortTermPnL: number | null;
+  longTermPnL: number | null;
   ts: string;
+  orderId: number | null;
+  reversedAt: string | null;
+  reversedBy: string | null;
+  reversalReason: string | null;
+  /** Set on the trade booked by an amendment, pointing at the trade it replaces. */
+  amendsTradeId: number | null;
+}
+
+export type LotMethod = "FIFO" | "LIFO" | "HIFO" | "AVERAGE" | "SPECIFIC";
+export type MarketHoursPolicy = "reject" | "queue" | "next_open";
+
+export interface TaxLotDto {
+  id: number;
+  symbol: string;
+  openTradeId: number | null;
+  originalQty: number;
+  qty: number;
+  costPrice: number;
+  openedAt: string;
+  closedAt: string | null;
+  longTerm: boolean;
+}
+
+export type OrderType = "market" | "limit" | "stop" | "stop_limit" | "trailing_stop";
+export type OrderStatus = "held" | "open" | "partially_filled" | "filled" | "cancelled" | "expired" | "rejected";
+export type TimeInForce = "DAY" | "GTC" | "GTD" | "IOC" | "FOK";
+
+export interface BracketInput {
+  takeProfitPrice?: number;
+  stopLossPrice?: number;
+  trailAmount?: number;
+  trailPercent?: number;
+}
+
+export interface OrderDto {
+  id: number;
+  portfolioId: number;
+  executionId: number | null;
+  parentOrderId: number | null;
+  ocoGroup: string | null;
+  symbol: string;
+  side: "BUY" | "SELL";
+  orderType: OrderType;
+  qty: number;
+  filledQty: number;
+  remainingQty: number;
+  limitPrice: number | null;
+  stopPrice: number | null;
+  trailAmount: number | null;
+  trailPercent: number | null;
+  trailAnchor: number | null;
+  avgFillPrice: number | null;
+  status: OrderStatus;
+  statusReason: string | null;
+  source: "manual" | "llm" | "margin";
+  lotIds: number[];
+  triggeredAt: string | null;
+  /** Set when the order was queued while its market was closed. */
+  activeFrom: string | null;
+  fillAtOpen: boolean;
+  timeInForce: TimeInForce;
+  /** When a DAY or GTD order stops working. */
+  expiresAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  closedAt: string | null;
+}
+
+interface OrdersResponse {
+  orders: OrderDto[];
 }
 
 interface SearchResponse {
@@ -150,18 +362,31 @@ export function usePortfolios() {
   });
 }
 
-export function usePortfolio(portfolioId?: number) {
+/** Query string of the portfolio and trade endpoints; `asOf` asks for the portfolio as it stood then. */
+function portfolioQuery(portfolioId?: number, asOf?: string) {
+  const params = new URLSearchParams();
+  if (portfolioId) {
+    params.set("portfolioId", String(portfolioId));
+  }
+  if (asOf) {
+    params.set("asOf", asOf);
+  }
+  const query = params.toString();
+  return query ? `?${query}` : "";
+}
+
+export function usePortfolio(portfolioId?: number, asOf?: string) {
   return useQuery({
-    queryKey: ["portfolio", portfolioId],
-    queryFn: () => apiFetch<PortfolioSnapshot>(portfolioId ? `/api/portfolio?portfolioId=${portfolioId}` : "/api/portfolio"),
-    staleTime: 30_000
+    queryKey: ["portfolio", portfolioId, asOf ?? null],
+    queryFn: () => apiFetch<PortfolioSnapshot>(`/api/portfolio${portfolioQuery(portfolioId, asOf)}`),
+    staleTime: asOf ? 5 * 60_000 : 30_000
   });
 }
 
-export function useTrades(portfolioId?: number) {
+export function useTrades(portfolioId?: number, asOf?: string) {
   return useQuery({
-    queryKey: ["trades", portfolioId],
-    queryFn: () => apiFetch<TradesResponse>(portfolioId ? `/api/trades?portfolioId=${portfolioId}` : "/api/trades"),
+    queryKey: ["trades", portfolioId, asOf ?? null],
+    queryFn: () => apiFetch<TradesResponse>(`/api/trades${portfolioQuery(portfolioId, asOf)}`),
     staleTime: 60_000
   });
 }
@@ -171,6 +396,15 @@ interface PlaceTradeInput {
   side: "BUY" | "SELL";
   qty: number;
   price?: number;
+  orderType?: OrderType;
+  limitPrice?: number;
+  stopPrice?: number;
+  trailAmount?: number;
+  trailPercent?: number;
+  bracket?: BracketInput;
+  timeInForce?: TimeInForce;
+  expiresAt?: string;
+  lotIds?: number[];
   portfolioId?: number;
 }
 
@@ -178,13 +412,353 @@ export function usePlaceTrade() {
   const queryClient = useQueryClient();
   return useMutation({
     mutationFn: (payload: PlaceTradeInput) =>
-      apiFetch<PortfolioSnapshot>("/api/trades", {
+      apiFetch<PortfolioSnapshot & { order: OrderDto }>("/api/trades", {
         method: "POST",
         body: JSON.stringify(payload)
       }),
     onSuccess: (data, variables) => {
       queryClient.invalidateQueries({ queryKey: ["portfolio", variables.portfolioId] });
       queryClient.invalidateQueries({ queryKey: ["trades", variables.portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["orders", variables.portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["tax-lots", variables.portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["cash", variables.portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["cash-transactions", variables.portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["risk", variables.portfolioId] });
+    }
+  });
+}
+
+export type SlippageModel = "none" | "fixed" | "spread" | "volume";
+
+export interface PortfolioCostModel {
+  commissionFixed: number;
+  commissionBps: number;
+  commissionPerShare: number;
+  commissionMin: number | null;
+  commissionMax: number | null;
+  slippageModel: SlippageModel;
+  slippageBps: number;
+  slippageImpact: number;
+}
+
+export interface PortfolioMarginPolicy {
+  allowShort: boolean;
+  borrowFeeRate: number;
+  initialMarginRate: number;
+  maintenanceMarginRate: number;
+}
+
+export interface PortfolioSettings {
+  portfolioId: number;
+  costModel: PortfolioCostModel;
+  margin: PortfolioMarginPolicy;
+  lotMethod: LotMethod;
+  fxAutoConvert: boolean;
+  withholdingTaxRate: number;
+  marketHoursPolicy: MarketHoursPolicy;
+  fillSimulation: PortfolioFillSimulation;
+  benchmark: PortfolioBenchmark;
+  universe: UniverseSettings;
+}
+
+/**
+ * The symbols LLM runs get market data for and may open positions in: a symbol list, a saved
+ * watchlist or an index file on the server. At most one is set; none leaves runs to held symbols.
+ */
+export interface UniverseSettings {
+  symbols: string[] | null;
+  watchlistId: number | null;
+  index: string | null;
+}
+
+/** Setting one universe source clears the others; `null` clears it. */
+export interface UniverseUpdate {
+  universeSymbols?: string[] | null;
+  universeWatchlistId?: number | null;
+  universeIndex?: string | null;
+}
+
+/** A portfolio is compared against either a symbol (e.g. an index) or another portfolio, or neither. */
+export interface PortfolioBenchmark {
+  symbol: string | null;
+  portfolioId: number | null;
+}
+
+/** Volume-capped partial fills; `maxParticipation` is a fraction of average daily volume. */
+export interface PortfolioFillSimulation {
+  enabled: boolean;
+  maxParticipation: number;
+  marketImpactBps: number;
+}
+
+export type PortfolioSettingsUpdate = Partial<PortfolioCostModel> &
+  Partial<PortfolioMarginPolicy> &
+  UniverseUpdate & {
+    lotMethod?: LotMethod;
+    fxAutoConvert?: boolean;
+    withholdingTaxRate?: number;
+    marketHoursPolicy?: MarketHoursPolicy;
+    fillSimulation?: boolean;
+    maxParticipation?: number;
+    marketImpactBps?: number;
+    benchmarkSymbol?: string | null;
+    benchmarkPortfolioId?: number | null;
+  };
+
+export function usePortfolioSettings(portfolioId?: number) {
+  return useQuery({
+    queryKey: ["portfolio-settings", portfolioId],
+    enabled: Boolean(portfolioId),
+    queryFn: () => apiFetch<{ settings: PortfolioSettings }>(`/api/portfolios/${portfolioId}/settings`)
+  });
+}
+
+export function useUpdatePortfolioSettings(portfolioId?: number) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: PortfolioSettingsUpdate) =>
+      apiFetch<{ settings: PortfolioSettings }>(`/api/portfolios/${portfolioId}/settings`, {
+        method: "PUT",
+        body: JSON.stringify(payload)
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["portfolio-settings", portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["portfolio", portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["equity-curve", portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["performance", portfolioId] });
+    }
+  });
+}
+
+export function useCashBalances(portfolioId?: number) {
+  return useQuery({
+    queryKey: ["cash", portfolioId],
+    enabled: Boolean(portfolioId),
+    queryFn: () =>
+      apiFetch<{ baseCurrency: string; balances: CashBalance[]; conversions: FxConversionDto[] }>(
+        `/api/portfolios/${portfolioId}/cash`
+      )
+  });
+}
+
+export function useConvertCash(portfolioId?: number) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: { from: string; to: string; amount: number }) =>
+      apiFetch<{ conversion: FxConversionDto; balances: CashBalance[] }>(`/api/portfolios/${portfolioId}/fx`, {
+        method: "POST",
+        body: JSON.stringify(payload)
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["cash", portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["cash-transactions", portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["portfolio", portfolioId] });
+    }
+  });
+}
+
+export interface QuantityRules {
+  allowFractional: boolean;
+  qtyPrecision: number;
+  minQty: number;
+  lotSize: number;
+  minNotional: number;
+}
+
+export function useQuantityRules(symbol?: string) {
+  return useQuery({
+    queryKey: ["quantity-rules", symbol],
+    enabled: Boolean(symbol),
+    queryFn: () =>
+      apiFetch<{ symbol: string; rules: QuantityRules; description: string }>(
+        `/api/instruments/${encodeURIComponent(symbol ?? "")}/quantity-rules`
+      ),
+    staleTime: 5 * 60_000
+  });
+}
+
+export interface MarketStatus {
+  mic: string;
+  name: string;
+  timeZone: string;
+  isOpen: boolean;
+  earlyClose: boolean;
+  nextOpen: string | null;
+  nextClose: string | null;
+}
+
+export interface ExchangeInfo {
+  mic: string;
+  name: string;
+  timeZone: string;
+  open: string;
+  close: string;
+  status: MarketStatus;
+}
+
+export function useMarketHours(symbol?: string) {
+  return useQuery({
+    queryKey: ["market-hours", symbol],
+    enabled: Boolean(symbol),
+    queryFn: () =>
+      apiFetch<{ symbol: string; alwaysOpen: boolean; status: MarketStatus | null }>(
+        `/api/instruments/${encodeURIComponent(symbol ?? "")}/market-hours`
+      ),
+    refetchInterval: 60_000
+  });
+}
+
+export function useExchanges() {
+  return useQuery({
+    queryKey: ["exchanges"],
+    queryFn: () => apiFetch<{ exchanges: ExchangeInfo[] }>("/api/exchanges"),
+    staleTime: 60 * 60_000
+  });
+}
+
+export function useCashTransactions(portfolioId?: number) {
+  return useQuery({
+    queryKey: ["cash-transactions", portfolioId],
+    enabled: Boolean(portfolioId),
+    queryFn: () =>
+      apiFetch<{ transactions: CashTransactionDto[]; summary: CashFlowSummary }>(
+        `/api/portfolios/${portfolioId}/cash/transactions`
+      )
+  });
+}
+
+export function usePostCashTransaction(portfolioId?: number) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: CashTransactionInput) =>
+      apiFetch<{ transaction: CashTransactionDto; balances: CashBalance[] }>(
+        `/api/portfolios/${portfolioId}/cash/transactions`,
+        {
+          method: "POST",
+          body: JSON.stringify(payload)
+        }
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["cash-transactions", portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["cash", portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["portfolio", portfolioId] });
+    }
+  });
+}
+
+export function useCorporateActionEntries(portfolioId?: number) {
+  return useQuery({
+    queryKey: ["corporate-actions", portfolioId],
+    enabled: Boolean(portfolioId),
+    queryFn: () => apiFetch<{ entries: CorporateActionEntryDto[] }>(`/api/portfolios/${portfolioId}/corporate-actions`)
+  });
+}
+
+export function useRecordCorporateAction() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: CorporateActionInput) =>
+      apiFetch<{
+        action: CorporateActionDto;
+        entries: CorporateActionEntryDto[];
+        failures: { portfolioId: number; error: string }[];
+      }>("/api/corporate-actions", {
+        method: "POST",
+        body: JSON.stringify(payload)
+      }),
+    onSuccess: () => {
+      // An action adjusts every portfolio holding the symbol, not just the one on screen.
+      for (const key of ["corporate-actions", "portfolio", "trades", "orders", "tax-lots", "cash", "cash-transactions"]) {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      }
+    }
+  });
+}
+
+export interface TradeAmendmentInput {
+  qty?: number;
+  price?: number;
+  fee?: number;
+  slippage?: number;
+}
+
+type TradeCorrectionResponse = PortfolioSnapshot & { trade: TradeDto; correction: TradeDto | null };
+
+function invalidateTradeCorrection(queryClient: ReturnType<typeof useQueryClient>) {
+  const keys = ["portfolio", "trades", "tax-lots", "cash", "cash-transactions", "equity-curve", "performance", "risk"];
+  for (const key of keys) {
+    queryClient.invalidateQueries({ queryKey: [key] });
+  }
+}
+
+export function useReverseTrade() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ tradeId, reason }: { tradeId: number; reason: string }) =>
+      apiFetch<TradeCorrectionResponse>(`/api/trades/${tradeId}/reverse`, {
+        method: "POST",
+        body: JSON.stringify({ reason })
+      }),
+    onSuccess: () => invalidateTradeCorrection(queryClient)
+  });
+}
+
+export function useAmendTrade() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ tradeId, reason, ...amendment }: TradeAmendmentInput & { tradeId: number; reason: string }) =>
+      apiFetch<TradeCorrectionResponse>(`/api/trades/${tradeId}/amend`, {
+        method: "POST",
+        body: JSON.stringify({ ...amendment, reason })
+      }),
+    onSuccess: () => invalidateTradeCorrection(queryClient)
+  });
+}
+
+export function useTaxLots(portfolioId?: number, symbol?: string) {
+  return useQuery({
+    queryKey: ["tax-lots", portfolioId, symbol],
+    enabled: Boolean(portfolioId && symbol),
+    queryFn: () =>
+      apiFetch<{ lots: TaxLotDto[] }>(
+        `/api/portfolios/${portfolioId}/lots?symbol=${encodeURIComponent(symbol ?? "")}`
+      ),
+    staleTime: 30_000
+  });
+}
+
+export function useOrders(portfolioId?: number, status: "open" | "all" = "open") {
+  return useQuery({
+    queryKey: ["orders", portfolioId, status],
+    enabled: Boolean(portfolioId),
+    queryFn: () => apiFetch<OrdersResponse>(`/api/portfolios/${portfolioId}/orders?status=${status}`),
+    staleTime: 15_000,
+    refetchInterval: 30_000
+  });
+}
+
+export function useCancelOrder(portfolioId?: number) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (orderId: number) =>
+      apiFetch<{ order: OrderDto }>(`/api/portfolios/${portfolioId}/orders/${orderId}`, {
+        method: "DELETE"
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["orders", portfolioId] });
+    }
+  });
+}
+
+export function useCancelAllOrders(portfolioId?: number) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () =>
+      apiFetch<{ success: boolean; cancelled: number }>(`/api/portfolios/${portfolioId}/orders`, {
+        method: "DELETE"
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["orders", portfolioId] });
     }
   });
 }
@@ -194,34 +768,182 @@ export interface EquityPoint {
   value: number;
 }
 
-export function useEquityCurve(positions: PortfolioPosition[], range = "6M") {
+/** One day of a portfolio's stored valuation, in its base currency. */
+export interface PortfolioValuation {
+  date: string;
+  cash: number;
+  marketValue: number;
+  /** Deposits less withdrawals made that day. */
+  netFlow: number;
+  nav: number;
+  source: "job" | "backfill";
+}
+
+/** The benchmark rescaled to start at the portfolio's NAV, one point per portfolio day. */
+export interface BenchmarkOverlay {
+  kind: "symbol" | "portfolio";
+  label: string;
+  points: EquityPoint[];
+}
+
+export interface EquityCurveResponse {
+  baseCurrency: string;
+  points: PortfolioValuation[];
+  benchmark: BenchmarkOverlay | null;
+}
+
+/**
+ * Daily NAV of a portfolio over `range`, ending at `asOf` when viewing the past, with its
+ * benchmark overlaid when one is set.
+ */
+export function useEquityCurve(portfolioId?: number, range = "6M", asOf?: string) {
   const normalizedRange = normalizeHistoryRange(range);
-  const symbols = useMemo(() => positions.map((position) => position.symbol).sort(), [positions]);
   return useQuery({
-    queryKey: ["equity-curve", symbols, normalizedRange],
-    enabled: symbols.length > 0,
+    queryKey: ["equity-curve", portfolioId, normalizedRange, asOf ?? null],
+    enabled: Boolean(portfolioId),
     queryFn: async () => {
-      const histories = await Promise.all(
-        positions.map((position) =>
-          apiFetch<{ candles: HistoryCandle[] }>(
-            `/api/history?symbol=${encodeURIComponent(position.symbol)}&range=${normalizedRange}&interval=1d`
-          )
-        )
-      );
-      const totals = new Map<string, number>();
-      positions.forEach((position, index) => {
-        const candles = histories[index]?.candles ?? [];
-        candles.forEach((candle) => {
-          if (!candle.date || candle.close === null || candle.close === undefined) {
-            return;
-          }
-          const existing = totals.get(candle.date) ?? 0;
-          totals.set(candle.date, existing + position.qty * candle.close);
-        });
-      });
-      return Array.from(totals.entries())
-        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
-        .map(([date, value]) => ({ date, value }));
+      const params = new URLSearchParams({ range: normalizedRange });
+      if (asOf) {
+        params.set("asOf", asOf);
+      }
+      const response = await apiFetch<EquityCurveResponse>(`/api/portfolios/${portfolioId}/equity-curve?${params}`);
+      return {
+        points: response.points.map((point) => ({ date: point.date, value: point.nav })),
+        benchmark: response.benchmark
+      };
+    },
+    staleTime: 5 * 60_000
+  });
+}
+
+export function useRebuildEquityCurve(portfolioId?: number) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: () =>
+      apiFetch<{ rebuilt: number }>(`/api/portfolios/${portfolioId}/equity-curve/rebuild`, { method: "POST" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["equity-curve", portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["performance", portfolioId] });
+    }
+  });
+}
+
+export type PerformancePeriod = "mtd" | "ytd" | "inception" | "custom";
+
+export interface PerformanceReport {
+  baseCurrency: string;
+  period: { name: PerformancePeriod; from: string; to: string; days: number };
+  startValue: number | null;
+  endValue: number | null;
+  netFlows: number;
+  timeWeightedReturn: number | null;
+  /** Null for periods shorter than a year. */
+  annualizedReturn: number | null;
+  moneyWeightedReturn: number | null;
+  volatility: number | null;
+  sharpe: number | null;
+  sortino: number | null;
+  calmar: number | null;
+  maxDrawdown: { depth: number; peak: string; trough: string; recovery: string | null; days: number } | null;
+  winRate: number | null;
+  profitFactor: number | null;
+  turnover: number | null;
+  closedTrades: number;
+  riskFreeRate: number;
+  benchmark: BenchmarkComparison | null;
+}
+
+/** The portfolio's daily returns measured against its benchmark's. */
+export interface BenchmarkComparison {
+  kind: "symbol" | "portfolio";
+  label: string;
+  benchmarkReturn: number | null;
+  excessReturn: number | null;
+  trackingError: number | null;
+  informationRatio: number | null;
+  beta: number | null;
+  alpha: number | null;
+  upCapture: number | null;
+  downCapture: number | null;
+}
+
+/** Performance over a period; `to` ends it (default today), `from` starts a custom one. */
+export function usePerformance(
+  portfolioId: number | undefined,
+  period: PerformancePeriod,
+  range: { from?: string; to?: string } = {}
+) {
+  return useQuery({
+    queryKey: ["performance", portfolioId, period, range.from ?? null, range.to ?? null],
+    enabled: Boolean(portfolioId) && (period !== "custom" || Boolean(range.from)),
+    queryFn: () => {
+      const params = new URLSearchParams({ period });
+      if (range.from) {
+        params.set("from", range.from);
+      }
+      if (range.to) {
+        params.set("to", range.to);
+      }
+      return apiFetch<PerformanceReport>(`/api/portfolios/${portfolioId}/performance?${params}`);
+    },
+    staleTime: 5 * 60_000
+  });
+}
+
+export type RiskLookback = "3mo" | "6mo" | "1y" | "2y" | "5y";
+
+/** Losses as positive amounts in the base currency. */
+export interface RiskMeasure {
+  oneDay: number | null;
+  tenDay: number | null;
+}
+
+export interface StressScenarioResult {
+  name: string;
+  shocks: Array<{ target: string; change: number }>;
+  pnl: number;
+  pnlPercent: number | null;
+  positions: Array<{ symbol: string; pnl: number }>;
+  unmatched: string[];
+}
+
+export interface RiskReport {
+  baseCurrency: string;
+  lookback: RiskLookback;
+  confidence: number;
+  nav: number;
+  observations: number;
+  from: string | null;
+  to: string | null;
+  dailyVolatility: number | null;
+  valueAtRisk: { historical: RiskMeasure; parametric: RiskMeasure };
+  expectedShortfall: { historical: RiskMeasure; parametric: RiskMeasure };
+  correlation: { symbols: string[]; matrix: Array<Array<number | null>> };
+  contributions: Array<{
+    symbol: string;
+    value: number;
+    marginal: number | null;
+    componentVaR: number | null;
+    share: number | null;
+  }>;
+  unmodeled: string[];
+  scenarios: StressScenarioResult[];
+}
+
+/** VaR, expected shortfall, correlations and stress scenarios (`name: -20% equities, +10% USD`) of current holdings. */
+export function useRisk(
+  portfolioId: number | undefined,
+  options: { confidence: number; lookback: RiskLookback; scenarios: string[] }
+) {
+  return useQuery({
+    queryKey: ["risk", portfolioId, options.confidence, options.lookback, options.scenarios],
+    enabled: Boolean(portfolioId),
+    queryFn: () => {
+      const params = new URLSearchParams({ confidence: String(options.confidence), lookback: options.lookback });
+      for (const scenario of options.scenarios) {
+        params.append("scenario", scenario);
+      }
+      return apiFetch<RiskReport>(`/api/portfolios/${portfolioId}/risk?${params}`);
     },
     staleTime: 5 * 60_000
   });
@@ -251,11 +973,27 @@ export interface PortfolioPrompt {
   providerId: number | null;
   isDefault: boolean;
   isActive: boolean;
+  /** Overrides the portfolio's universe for runs with this prompt. */
+  universe: UniverseSettings;
   createdAt: string;
   updatedAt: string;
   provider: LlmProvider | null;
 }
 
+export interface Watchlist {
+  id: number;
+  name: string;
+  symbols: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** An index constituents file on the server usable as a universe. */
+export interface UniverseIndex {
+  name: string;
+  symbolCount: number;
+}
+
 export type RunFrequency = "daily" | "weekly" | "monthly";
 
 export interface LlmRunSchedule {
@@ -267,7 +1005,17 @@ export interface LlmRunSchedule {
   timeOfDay: string;
   dayOfWeek: number | null;
   dayOfMonth: number | null;
+  /** MIC whose calendar the schedule follows; `timeOfDay` is then in the exchange's time zone. */
+  exchange: string | null;
   isActive: boolean;
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+  lastExecution: {
+    id: number;
+    status: string;
+    errorMessage: string | null;
+    createdAt: string;
+  } | null;
   createdAt: string;
   updatedAt: string;
   provider: LlmProvider | null;
@@ -278,8 +1026,14 @@ export interface ArbitrageOrder {
   symbol: string;
   action: "BUY" | "SELL";
   quantity: number;
-  orderType?: "market" | "limit";
+  orderType?: OrderType;
   limitPrice?: number;
+  stopPrice?: number;
+  trailAmount?: number;
+  trailPercent?: number;
+  bracket?: BracketInput;
+  timeInForce?: TimeInForce;
+  expiresAt?: string;
   confidence?: number;
   rationale?: string;
 }
@@ -295,12 +1049,17 @@ export interface LlmExecutionDto {
   portfolioId: number;
   promptId: number | null;
   providerId: number | null;
+  scheduleId: number | null;
   status: string;
   request: Record<string, unknown> | null;
   responseJson: Record<string, unknown> | null;
   executedOrders: unknown[] | null;
   responseText: string | null;
   errorMessage: string | null;
+  /** Tools the model called in agent mode, in order. */
+  toolCalls: LlmToolCall[];
+  /** Whether the provider calls were recorded, so the run can be replayed offline. */
+  replayable: boolean;
   createdAt: string;
   provider: LlmProvider | null;
   prompt: PortfolioPrompt | null;
@@ -312,11 +1071,28 @@ export interface RunLlmOverrides {
   model?: string;
 }
 
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  /** The agent step the call was made in, from 1. */
+  step: number;
+  result: unknown;
+  error: string | null;
+}
+
+export interface RunLlmAgentOptions {
+  maxSteps?: number;
+  tokenBudget?: number;
+}
+
 export interface RunLlmInput {
   promptId?: number;
   providerId?: number;
   overrides?: RunLlmOverrides;
   dryRun?: boolean;
+  /** Lets the model call tools for more data before it plans. */
+  agent?: RunLlmAgentOptions;
 }
 
 export interface RunLlmResponse {
@@ -328,7 +1104,11 @@ export interface RunLlmResponse {
     side: "BUY" | "SELL";
     qty: number;
     price: number;
+    orderType?: OrderType;
+    limitPrice?: number;
+    marketPrice?: number | null;
   }>;
+  orders: OrderDto[];
   executed: boolean;
   snapshot: PortfolioSnapshot | null;
   provider: LlmProvider | null;
@@ -345,6 +1125,7 @@ export interface RunLlmResponse {
   systemPrompt: string;
   userPrompt: string;
   assistantMessage: string;
+  toolCalls: LlmToolCall[];
 }
 
 interface ProvidersResponse {
@@ -375,11 +1156,21 @@ interface RunScheduleResponse {
   schedule: LlmRunSchedule;
 }
 
+interface WatchlistResponse {
+  watchlist: Watchlist;
+}
+
+interface WatchlistInput {
+  name: string;
+  symbols: string[];
+}
+
 export type LlmProviderType =
   | "openai-compatible"
   | "local"
   | "google-gemini"
-  | "anthropic";
+  | "anthropic"
+  | "mock";
 
 interface CreateProviderInput {
   name: string;
@@ -396,7 +1187,7 @@ type UpdateProviderInput = Omit<Partial<CreateProviderInput>, "apiKey"> & {
   apiKey?: string | null;
 };
 
-interface CreatePromptInput {
+interface CreatePromptInput extends UniverseUpdate {
   name: string;
   description?: string;
   systemPrompt?: string;
@@ -423,6 +1214,7 @@ interface CreateRunScheduleInput {
   timeOfDay: string;
   dayOfWeek?: number;
   dayOfMonth?: number;
+  exchange?: string | null;
   isActive?: boolean;
 }
 
@@ -528,6 +1320,66 @@ export function useDeletePortfolioPrompt(portfolioId?: number) {
   });
 }
 
+export function useWatchlists() {
+  return useQuery({
+    queryKey: ["watchlists"],
+    queryFn: () => apiFetch<{ watchlists: Watchlist[] }>("/api/watchlists"),
+    staleTime: 60_000
+  });
+}
+
+export function useCreateWatchlist() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: WatchlistInput) =>
+      apiFetch<WatchlistResponse>("/api/watchlists", {
+        method: "POST",
+        body: JSON.stringify(payload)
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["watchlists"] });
+    }
+  });
+}
+
+export function useUpdateWatchlist() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, payload }: { id: number; payload: Partial<WatchlistInput> }) =>
+      apiFetch<WatchlistResponse>(`/api/watchlists/${id}`, {
+        method: "PUT",
+        body: JSON.stringify(payload)
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["watchlists"] });
+    }
+  });
+}
+
+export function useDeleteWatchlist() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (id: number) =>
+      apiFetch<{ success: boolean }>(`/api/watchlists/${id}`, {
+        method: "DELETE"
+      }),
+    onSuccess: () => {
+      // Portfolios and prompts using the watchlist lose their universe.
+      queryClient.invalidateQueries({ queryKey: ["watchlists"] });
+      queryClient.invalidateQueries({ queryKey: ["portfolio-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["portfolio-prompts"] });
+    }
+  });
+}
+
+export function useUniverseIndexes() {
+  return useQuery({
+    queryKey: ["universe-indexes"],
+    queryFn: () => apiFetch<{ indexes: UniverseIndex[] }>("/api/universe/indexes"),
+    staleTime: 5 * 60_000
+  });
+}
+
 export function usePortfolioRunSchedules(portfolioId?: number) {
   return useQuery({
     queryKey: ["run-schedules", portfolioId],
@@ -601,6 +1453,199 @@ export function useRunLlm(portfolioId?: number) {
       queryClient.invalidateQueries({ queryKey: ["llm-executions", portfolioId] });
       queryClient.invalidateQueries({ queryKey: ["portfolio", portfolioId] });
       queryClient.invalidateQueries({ queryKey: ["trades", portfolioId] });
+      queryClient.invalidateQueries({ queryKey: ["orders", portfolioId] });
+    }
+  });
+}
+
+/** Replays a recorded execution from its cassette as a dry run; the replay is a new execution. */
+export function useReplayLlmExecution(portfolioId?: number) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (executionId: number) =>
+      apiFetch<RunLlmResponse>(`/api/llm/executions/${executionId}/replay`, { method: "POST" }),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ["llm-executions", portfolioId] });
+    }
+  });
+}
+
+export type BacktestStatus = "pending" | "running" | "completed" | "failed";
+
+export interface BacktestRun {
+  id: number;
+  name: string;
+  portfolioId: number;
+  promptId: number | null;
+  providerId: number | null;
+  model: string;
+  symbols: string[];
+  schedule: {
+    frequency: RunFrequency;
+    timeOfDay: string;
+    dayOfWeek: number | null;
+    dayOfMonth: number | null;
+    exchange: string | null;
+  };
+  startDate: string;
+  endDate: string;
+  startingCapital: number;
+  baseCurrency: string;
+  benchmarkSymbol: string | null;
+  status: BacktestStatus;
+  errorMessage: string | null;
+  progress: { completed: number; total: number };
+  performance: PerformanceReport | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
+export interface BacktestEquityPoint {
+  date: string;
+  cash: number;
+  marketValue: number;
+  nav: number;
+  /** The benchmark rescaled to the run's starting NAV. */
+  benchmark: number | null;
+}
+
+export interface BacktestOrder {
+  id: number;
+  symbol: string;
+  side: "BUY" | "SELL";
+  qty: number;
+  orderType: OrderType;
+  limitPrice?: number;
+  stopPrice?: number;
+  timeInForce?: TimeInForce;
+  status: "open" | "filled" | "cancelled" | "expired" | "rejected";
+  reason?: string;
+}
+
+export interface BacktestFill {
+  orderId: number;
+  symbol: string;
+  side: "BUY" | "SELL";
+  qty: number;
+  price: number;
+  fee: number;
+  slippage: number;
+  realizedPnL: number | null;
+  at: string;
+}
+
+export interface BacktestStep {
+  id: number;
+  /** The simulated moment the model was called at. */
+  at: string;
+  status: "completed" | "failed";
+  responseText: string | null;
+  plan: ArbitragePlan | null;
+  errorMessage: string | null;
+  /** Orders as placed at this step; later fills show up on the steps after it. */
+  orders: BacktestOrder[];
+  /** Fills since the previous step. */
+  fills: BacktestFill[];
+  cash: number;
+  marketValue: number;
+  nav: number;
+  userPrompt?: string;
+}
+
+export interface BacktestDetail extends BacktestRun {
+  systemPrompt: string | null;
+  userTemplate: string | null;
+  equityCurve: BacktestEquityPoint[] | null;
+  steps: BacktestStep[];
+}
+
+export interface CreateBacktestInput {
+  name?: string;
+  promptId?: number;
+  providerId?: number;
+  symbols: string[];
+  frequency: RunFrequency;
+  timeOfDay: string;
+  dayOfWeek?: number;
+  dayOfMonth?: number;
+  exchange?: string | null;
+  startDate: string;
+  endDate: string;
+  startingCapital?: number;
+  benchmarkSymbol?: string;
+}
+
+const isActiveBacktest = (run: Pick<BacktestRun, "status">) => run.status === "pending" || run.status === "running";
+
+export function useBacktests(portfolioId?: number) {
+  return useQuery({
+    queryKey: ["backtests", portfolioId],
+    enabled: Boolean(portfolioId),
+    queryFn: () => apiFetch<{ backtests: BacktestRun[] }>(`/api/portfolios/${portfolioId}/backtests`),
+    // Runs go on in the background; poll while any of them is still stepping.
+    refetchInterval: (query) => (query.state.data?.backtests.some(isActiveBacktest) ? 5_000 : false)
+  });
+}
+
+export function useBacktest(portfolioId?: number, backtestId?: number) {
+  return useQuery({
+    queryKey: ["backtest", portfolioId, backtestId],
+    enabled: Boolean(portfolioId && backtestId),
+    queryFn: () =>
+      apiFetch<{ backtest: BacktestDetail }>(`/api/portfolios/${portfolioId}/backtests/${backtestId}`).then(
+        (response) => response.backtest
+      ),
+    refetchInterval: (query) => (query.state.data && isActiveBacktest(query.state.data) ? 5_000 : false)
+  });
+}
+
+/** Details of several runs at once, for comparing their equity curves. */
+export function useBacktestDetails(portfolioId: number | undefined, backtestIds: number[]) {
+  return useQueries({
+    queries: backtestIds.map((backtestId) => ({
+      queryKey: ["backtest", portfolioId, backtestId],
+      enabled: Boolean(portfolioId),
+      queryFn: () =>
+        apiFetch<{ backtest: BacktestDetail }>(`/api/portfolios/${portfolioId}/backtests/${backtestId}`).then(
+          (response) => response.backtest
+        )
+    }))
+  });
+}
+
+export function useBacktestStep(portfolioId?: number, backtestId?: number, stepId?: number) {
+  return useQuery({
+    queryKey: ["backtest-step", portfolioId, backtestId, stepId],
+    enabled: Boolean(portfolioId && backtestId && stepId),
+    queryFn: () =>
+      apiFetch<{ step: BacktestStep }>(`/api/portfolios/${portfolioId}/backtests/${backtestId}/steps/${stepId}`).then(
+        (response) => response.step
+      ),
+    staleTime: Infinity
+  });
+}
+
+export function useCreateBacktest(portfolioId?: number) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (payload: CreateBacktestInput) =>
+      apiFetch<{ backtest: BacktestRun }>(`/api/portfolios/${portfolioId}/backtests`, {
+        method: "POST",
+        body: JSON.stringify(payload)
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["backtests", portfolioId] });
+    }
+  });
+}
+
+export function useDeleteBacktest(portfolioId?: number) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (backtestId: number) =>
+      apiFetch<{ success: boolean }>(`/api/portfolios/${portfolioId}/backtests/${backtestId}`, { method: "DELETE" }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["backtests", portfolioId] });
     }
   });
 }
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "LlmRunSchedule" ADD COLUMN IF NOT EXISTS "lastRunAt" TIMESTAMP(3);
+ALTER TABLE "LlmRunSchedule" ADD COLUMN IF NOT EXISTS "nextRunAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "LlmExecution" ADD COLUMN IF NOT EXISTS "scheduleId" INTEGER;
+
+-- AddForeignKey
+ALTER TABLE "LlmExecution" ADD CONSTRAINT "LlmExecution_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "LlmRunSchedule" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "LlmExecution_scheduleId_idx" ON "LlmExecution"("scheduleId");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "LlmRunSchedule_isActive_nextRunAt_idx" ON "LlmRunSchedule"("isActive", "nextRunAt");
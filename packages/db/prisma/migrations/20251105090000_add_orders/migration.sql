@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "Order" (
+    "id" SERIAL PRIMARY KEY,
+    "portfolioId" INTEGER NOT NULL,
+    "executionId" INTEGER,
+    "symbol" TEXT NOT NULL,
+    "side" TEXT NOT NULL,
+    "orderType" TEXT NOT NULL DEFAULT 'market',
+    "qty" DECIMAL NOT NULL,
+    "filledQty" DECIMAL NOT NULL DEFAULT 0,
+    "limitPrice" DECIMAL,
+    "avgFillPrice" DECIMAL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "statusReason" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+    CONSTRAINT "Order_portfolioId_fkey" FOREIGN KEY ("portfolioId") REFERENCES "Portfolio" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Order_executionId_fkey" FOREIGN KEY ("executionId") REFERENCES "LlmExecution" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "Trade" ADD COLUMN IF NOT EXISTS "orderId" INTEGER;
+
+-- AddForeignKey
+ALTER TABLE "Trade" ADD CONSTRAINT "Trade_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "Trade_orderId_idx" ON "Trade"("orderId");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "Order_portfolioId_status_idx" ON "Order"("portfolioId", "status");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "Order_status_idx" ON "Order"("status");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "Order_executionId_idx" ON "Order"("executionId");
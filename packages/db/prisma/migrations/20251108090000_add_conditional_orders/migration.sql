@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN IF NOT EXISTS "stopPrice" DECIMAL;
+ALTER TABLE "Order" ADD COLUMN IF NOT EXISTS "trailAmount" DECIMAL;
+ALTER TABLE "Order" ADD COLUMN IF NOT EXISTS "trailPercent" DECIMAL;
+ALTER TABLE "Order" ADD COLUMN IF NOT EXISTS "trailAnchor" DECIMAL;
+ALTER TABLE "Order" ADD COLUMN IF NOT EXISTS "triggeredAt" TIMESTAMP(3);
+ALTER TABLE "Order" ADD COLUMN IF NOT EXISTS "parentOrderId" INTEGER;
+ALTER TABLE "Order" ADD COLUMN IF NOT EXISTS "ocoGroup" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Order" ADD CONSTRAINT "Order_parentOrderId_fkey" FOREIGN KEY ("parentOrderId") REFERENCES "Order" ("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "Order_parentOrderId_idx" ON "Order"("parentOrderId");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "Order_ocoGroup_idx" ON "Order"("ocoGroup");
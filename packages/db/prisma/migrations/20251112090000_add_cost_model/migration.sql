@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "commissionFixed" DECIMAL NOT NULL DEFAULT 0;
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "commissionBps" DECIMAL NOT NULL DEFAULT 0;
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "commissionPerShare" DECIMAL NOT NULL DEFAULT 0;
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "commissionMin" DECIMAL;
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "commissionMax" DECIMAL;
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "slippageModel" TEXT NOT NULL DEFAULT 'none';
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "slippageBps" DECIMAL NOT NULL DEFAULT 0;
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "slippageImpact" DECIMAL NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Trade" ADD COLUMN IF NOT EXISTS "fee" DECIMAL NOT NULL DEFAULT 0;
+ALTER TABLE "Trade" ADD COLUMN IF NOT EXISTS "slippage" DECIMAL NOT NULL DEFAULT 0;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "allowShort" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "borrowFeeRate" DECIMAL NOT NULL DEFAULT 0;
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "initialMarginRate" DECIMAL NOT NULL DEFAULT 0.5;
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "maintenanceMarginRate" DECIMAL NOT NULL DEFAULT 0.3;
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "borrowFeesPaid" DECIMAL NOT NULL DEFAULT 0;
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "borrowAccruedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Trade" ADD COLUMN IF NOT EXISTS "realizedPnL" DECIMAL;
@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "lotMethod" TEXT NOT NULL DEFAULT 'FIFO';
+
+-- AlterTable
+ALTER TABLE "Trade" ADD COLUMN IF NOT EXISTS "shortTermPnL" DECIMAL;
+ALTER TABLE "Trade" ADD COLUMN IF NOT EXISTS "longTermPnL" DECIMAL;
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN IF NOT EXISTS "lotIds" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "TaxLot" (
+    "id" SERIAL PRIMARY KEY,
+    "portfolioId" INTEGER NOT NULL,
+    "symbol" TEXT NOT NULL,
+    "openTradeId" INTEGER,
+    "originalQty" DECIMAL NOT NULL,
+    "qty" DECIMAL NOT NULL,
+    "costPrice" DECIMAL NOT NULL,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+    CONSTRAINT "TaxLot_portfolioId_fkey" FOREIGN KEY ("portfolioId") REFERENCES "Portfolio" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "TaxLot_openTradeId_fkey" FOREIGN KEY ("openTradeId") REFERENCES "Trade" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "TaxLot_portfolioId_symbol_idx" ON "TaxLot"("portfolioId", "symbol");
+
+-- Backfill: one lot per existing position at its average price
+INSERT INTO "TaxLot" ("portfolioId", "symbol", "originalQty", "qty", "costPrice")
+SELECT p."portfolioId", p."symbol", p."qty", p."qty", p."avgPrice"
+FROM "Position" p
+WHERE NOT EXISTS (
+    SELECT 1 FROM "TaxLot" l WHERE l."portfolioId" = p."portfolioId" AND l."symbol" = p."symbol"
+);
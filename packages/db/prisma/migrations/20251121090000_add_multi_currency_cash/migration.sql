@@ -0,0 +1,41 @@
+-- AlterTable
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "fxAutoConvert" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "Position" ADD COLUMN IF NOT EXISTS "currency" TEXT NOT NULL DEFAULT 'USD';
+
+-- AlterTable
+ALTER TABLE "Trade" ADD COLUMN IF NOT EXISTS "currency" TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE "Trade" ADD COLUMN IF NOT EXISTS "fxRate" DECIMAL NOT NULL DEFAULT 1;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "CashBalance" (
+    "id" SERIAL PRIMARY KEY,
+    "portfolioId" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "amount" DECIMAL NOT NULL DEFAULT 0,
+    CONSTRAINT "CashBalance_portfolioId_fkey" FOREIGN KEY ("portfolioId") REFERENCES "Portfolio" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "FxConversion" (
+    "id" SERIAL PRIMARY KEY,
+    "portfolioId" INTEGER NOT NULL,
+    "fromCurrency" TEXT NOT NULL,
+    "toCurrency" TEXT NOT NULL,
+    "fromAmount" DECIMAL NOT NULL,
+    "toAmount" DECIMAL NOT NULL,
+    "rate" DECIMAL NOT NULL,
+    "ts" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "FxConversion_portfolioId_fkey" FOREIGN KEY ("portfolioId") REFERENCES "Portfolio" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "CashBalance_portfolioId_currency_key" ON "CashBalance"("portfolioId", "currency");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "FxConversion_portfolioId_idx" ON "FxConversion"("portfolioId");
+
+-- Backfill: existing positions and trades were booked in the portfolio's base currency
+UPDATE "Position" p SET "currency" = f."baseCurrency" FROM "Portfolio" f WHERE f."id" = p."portfolioId";
+UPDATE "Trade" t SET "currency" = f."baseCurrency" FROM "Portfolio" f WHERE f."id" = t."portfolioId";
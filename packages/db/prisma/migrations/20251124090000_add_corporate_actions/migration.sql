@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "withholdingTaxRate" DECIMAL NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "CorporateAction" (
+    "id" SERIAL PRIMARY KEY,
+    "symbol" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "exDate" TIMESTAMP(3) NOT NULL,
+    "ratio" DECIMAL,
+    "amount" DECIMAL,
+    "newSymbol" TEXT,
+    "source" TEXT NOT NULL DEFAULT 'manual',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "CorporateActionEntry" (
+    "id" SERIAL PRIMARY KEY,
+    "portfolioId" INTEGER NOT NULL,
+    "actionId" INTEGER NOT NULL,
+    "tradeId" INTEGER,
+    "symbol" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "qtyBefore" DECIMAL NOT NULL,
+    "qtyAfter" DECIMAL NOT NULL,
+    "avgPriceBefore" DECIMAL NOT NULL,
+    "avgPriceAfter" DECIMAL NOT NULL,
+    "cashAmount" DECIMAL NOT NULL DEFAULT 0,
+    "withholdingTax" DECIMAL NOT NULL DEFAULT 0,
+    "currency" TEXT NOT NULL,
+    "fxRate" DECIMAL NOT NULL DEFAULT 1,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "CorporateActionEntry_portfolioId_fkey" FOREIGN KEY ("portfolioId") REFERENCES "Portfolio" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "CorporateActionEntry_actionId_fkey" FOREIGN KEY ("actionId") REFERENCES "CorporateAction" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "CorporateAction_symbol_type_exDate_key" ON "CorporateAction"("symbol", "type", "exDate");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "CorporateAction_exDate_idx" ON "CorporateAction"("exDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "CorporateActionEntry_portfolioId_actionId_key" ON "CorporateActionEntry"("portfolioId", "actionId");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "CorporateActionEntry_portfolioId_idx" ON "CorporateActionEntry"("portfolioId");
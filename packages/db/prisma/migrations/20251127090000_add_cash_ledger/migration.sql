@@ -0,0 +1,40 @@
+-- AlterTable
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "startingCapital" DECIMAL NOT NULL DEFAULT 100000;
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "CashTransaction" (
+    "id" SERIAL PRIMARY KEY,
+    "portfolioId" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "currency" TEXT NOT NULL,
+    "amount" DECIMAL NOT NULL,
+    "balanceAfter" DECIMAL NOT NULL,
+    "fxRate" DECIMAL NOT NULL DEFAULT 1,
+    "tradeId" INTEGER,
+    "note" TEXT,
+    "ts" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "CashTransaction_portfolioId_fkey" FOREIGN KEY ("portfolioId") REFERENCES "Portfolio" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "CashTransaction_portfolioId_ts_idx" ON "CashTransaction"("portfolioId", "ts");
+
+-- Backfill: every portfolio was funded with the starting capital before its first trade; whatever
+-- trading did to cash since then becomes one adjustment per currency so the ledger sums to the balances.
+INSERT INTO "CashTransaction" ("portfolioId", "type", "currency", "amount", "balanceAfter", "note", "ts")
+SELECT p."id", 'deposit', p."baseCurrency", p."startingCapital", p."startingCapital", 'Starting capital',
+       COALESCE((SELECT MIN(t."ts") FROM "Trade" t WHERE t."portfolioId" = p."id"), CURRENT_TIMESTAMP)
+FROM "Portfolio" p
+WHERE NOT EXISTS (SELECT 1 FROM "CashTransaction" c WHERE c."portfolioId" = p."id");
+
+INSERT INTO "CashTransaction" ("portfolioId", "type", "currency", "amount", "balanceAfter", "note")
+SELECT p."id", 'adjustment', p."baseCurrency", p."cashBalance" - p."startingCapital", p."cashBalance", 'Activity before the cash ledger'
+FROM "Portfolio" p
+WHERE p."cashBalance" <> p."startingCapital"
+  AND NOT EXISTS (SELECT 1 FROM "CashTransaction" c WHERE c."portfolioId" = p."id" AND c."type" = 'adjustment');
+
+INSERT INTO "CashTransaction" ("portfolioId", "type", "currency", "amount", "balanceAfter", "note")
+SELECT b."portfolioId", 'adjustment', b."currency", b."amount", b."amount", 'Activity before the cash ledger'
+FROM "CashBalance" b
+WHERE b."amount" <> 0
+  AND NOT EXISTS (SELECT 1 FROM "CashTransaction" c WHERE c."portfolioId" = b."portfolioId" AND c."currency" = b."currency");
@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "InstrumentRule" (
+    "symbol" TEXT PRIMARY KEY,
+    "allowFractional" BOOLEAN,
+    "qtyPrecision" INTEGER,
+    "minQty" DECIMAL,
+    "lotSize" DECIMAL,
+    "minNotional" DECIMAL,
+    "updatedAt" TIMESTAMP(3) NOT NULL
+);
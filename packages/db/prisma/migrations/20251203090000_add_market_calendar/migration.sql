@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "marketHoursPolicy" TEXT NOT NULL DEFAULT 'queue';
+
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN IF NOT EXISTS "activeFrom" TIMESTAMP(3);
+ALTER TABLE "Order" ADD COLUMN IF NOT EXISTS "fillAtOpen" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "LlmRunSchedule" ADD COLUMN IF NOT EXISTS "exchange" TEXT;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Order" ADD COLUMN IF NOT EXISTS "timeInForce" TEXT NOT NULL DEFAULT 'GTC';
+ALTER TABLE "Order" ADD COLUMN IF NOT EXISTS "expiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "Order_expiresAt_idx" ON "Order"("expiresAt");
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "OrderEvent" (
+    "id" SERIAL PRIMARY KEY,
+    "orderId" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "qty" DECIMAL,
+    "price" DECIMAL,
+    "message" TEXT,
+    "ts" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "OrderEvent_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "Order" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "OrderEvent_orderId_ts_idx" ON "OrderEvent"("orderId", "ts");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "fillSimulation" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "maxParticipation" DECIMAL NOT NULL DEFAULT 0.1;
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "marketImpactBps" DECIMAL NOT NULL DEFAULT 0;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Trade" ADD COLUMN IF NOT EXISTS "reversedAt" TIMESTAMP(3);
+ALTER TABLE "Trade" ADD COLUMN IF NOT EXISTS "reversedBy" TEXT;
+ALTER TABLE "Trade" ADD COLUMN IF NOT EXISTS "reversalReason" TEXT;
+ALTER TABLE "Trade" ADD COLUMN IF NOT EXISTS "amendsTradeId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "Trade_portfolioId_symbol_ts_idx" ON "Trade"("portfolioId", "symbol", "ts");
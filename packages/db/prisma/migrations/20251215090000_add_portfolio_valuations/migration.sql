@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "PortfolioValuation" (
+    "id" SERIAL PRIMARY KEY,
+    "portfolioId" INTEGER NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "cash" DECIMAL NOT NULL,
+    "marketValue" DECIMAL NOT NULL,
+    "netFlow" DECIMAL NOT NULL DEFAULT 0,
+    "nav" DECIMAL NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'job',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    CONSTRAINT "PortfolioValuation_portfolioId_fkey" FOREIGN KEY ("portfolioId") REFERENCES "Portfolio" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "PortfolioValuation_portfolioId_date_key" ON "PortfolioValuation"("portfolioId", "date");
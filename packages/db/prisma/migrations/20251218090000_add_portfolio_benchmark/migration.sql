@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "benchmarkSymbol" TEXT;
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "benchmarkPortfolioId" INTEGER;
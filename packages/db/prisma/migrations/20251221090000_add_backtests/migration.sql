@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "BacktestRun" (
+    "id" SERIAL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "portfolioId" INTEGER NOT NULL,
+    "promptId" INTEGER,
+    "providerId" INTEGER,
+    "model" TEXT NOT NULL,
+    "systemPrompt" TEXT,
+    "userTemplate" TEXT,
+    "symbols" TEXT NOT NULL,
+    "frequency" TEXT NOT NULL,
+    "timeOfDay" TEXT NOT NULL,
+    "dayOfWeek" INTEGER,
+    "dayOfMonth" INTEGER,
+    "exchange" TEXT,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "startingCapital" DECIMAL NOT NULL,
+    "baseCurrency" TEXT NOT NULL,
+    "benchmarkSymbol" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "errorMessage" TEXT,
+    "equityCurve" TEXT,
+    "performance" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    CONSTRAINT "BacktestRun_portfolioId_fkey" FOREIGN KEY ("portfolioId") REFERENCES "Portfolio" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "BacktestRun_promptId_fkey" FOREIGN KEY ("promptId") REFERENCES "PortfolioPrompt" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "BacktestRun_providerId_fkey" FOREIGN KEY ("providerId") REFERENCES "LlmProvider" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "BacktestRun_portfolioId_idx" ON "BacktestRun"("portfolioId");
+CREATE INDEX IF NOT EXISTS "BacktestRun_promptId_idx" ON "BacktestRun"("promptId");
+CREATE INDEX IF NOT EXISTS "BacktestRun_providerId_idx" ON "BacktestRun"("providerId");
+
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "BacktestStep" (
+    "id" SERIAL PRIMARY KEY,
+    "runId" INTEGER NOT NULL,
+    "at" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL,
+    "userPrompt" TEXT NOT NULL,
+    "responseText" TEXT,
+    "responseJson" TEXT,
+    "errorMessage" TEXT,
+    "orders" TEXT NOT NULL DEFAULT '[]',
+    "fills" TEXT NOT NULL DEFAULT '[]',
+    "cash" DECIMAL NOT NULL,
+    "marketValue" DECIMAL NOT NULL,
+    "nav" DECIMAL NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "BacktestStep_runId_fkey" FOREIGN KEY ("runId") REFERENCES "BacktestRun" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "BacktestStep_runId_at_key" ON "BacktestStep"("runId", "at");
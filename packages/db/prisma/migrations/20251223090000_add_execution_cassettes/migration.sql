@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "LlmExecution" ADD COLUMN IF NOT EXISTS "cassette" TEXT;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE IF NOT EXISTS "Watchlist" (
+    "id" SERIAL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "symbols" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL
+);
+
+-- AlterTable
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "universeSymbols" TEXT;
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "universeWatchlistId" INTEGER;
+ALTER TABLE "Portfolio" ADD COLUMN IF NOT EXISTS "universeIndex" TEXT;
+
+-- AlterTable
+ALTER TABLE "PortfolioPrompt" ADD COLUMN IF NOT EXISTS "universeSymbols" TEXT;
+ALTER TABLE "PortfolioPrompt" ADD COLUMN IF NOT EXISTS "universeWatchlistId" INTEGER;
+ALTER TABLE "PortfolioPrompt" ADD COLUMN IF NOT EXISTS "universeIndex" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "Portfolio" ADD CONSTRAINT "Portfolio_universeWatchlistId_fkey" FOREIGN KEY ("universeWatchlistId") REFERENCES "Watchlist" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PortfolioPrompt" ADD CONSTRAINT "PortfolioPrompt_universeWatchlistId_fkey" FOREIGN KEY ("universeWatchlistId") REFERENCES "Watchlist" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "PortfolioPrompt_universeWatchlistId_idx" ON "PortfolioPrompt"("universeWatchlistId");